@@ -0,0 +1,275 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import AddressDivisionFields, {
+    EMPTY_ADDRESS_DIVISIONS,
+    isAddressDivisionComplete,
+    toAddressDivisionValue,
+    type AddressDivisionValue,
+} from '@/components/address/AddressDivisionFields';
+import type { UserAddress } from '@/lib/repositories/addresses';
+import styles from './page.module.css';
+
+interface AddressBookProps {
+    addresses: UserAddress[];
+    maxAddresses: number;
+}
+
+interface AddressForm {
+    fullName: string;
+    phone: string;
+    addressLine: string;
+    divisions: AddressDivisionValue;
+    isDefault: boolean;
+}
+
+const EMPTY_ADDRESS: AddressForm = {
+    fullName: '',
+    phone: '',
+    addressLine: '',
+    divisions: EMPTY_ADDRESS_DIVISIONS,
+    isDefault: false,
+};
+
+export default function AddressBook({ addresses, maxAddresses }: AddressBookProps) {
+    const t = useTranslations('account.addresses');
+    const tAddress = useTranslations('common.address');
+    const router = useRouter();
+    // null: form closed, 'new': adding, otherwise the id being edited
+    const [editing, setEditing] = useState<string | null>(null);
+    const [form, setForm] = useState<AddressForm>(EMPTY_ADDRESS);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const openForm = (address?: UserAddress) => {
+        setEditing(address ? address.id : 'new');
+        setForm(
+            address
+                ? {
+                      fullName: address.fullName,
+                      phone: address.phone,
+                      addressLine: address.addressLine,
+                      divisions: toAddressDivisionValue(address),
+                      isDefault: address.isDefault,
+                  }
+                : EMPTY_ADDRESS
+        );
+        setError(null);
+    };
+
+    const updateField = (field: keyof AddressForm, value: string | boolean) => {
+        setForm((prev) => ({ ...prev, [field]: value }));
+    };
+
+    const updateDivisions = useCallback((divisions: AddressDivisionValue) => {
+        setForm((prev) => ({ ...prev, divisions }));
+    }, []);
+
+    const send = async (url: string, init: RequestInit, busy: string) => {
+        setBusyId(busy);
+        setError(null);
+
+        try {
+            const response = await fetch(url, {
+                ...init,
+                headers: { 'Content-Type': 'application/json' },
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('error'));
+            }
+
+            router.refresh();
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('error'));
+            return false;
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+
+        if (!isAddressDivisionComplete(form.divisions)) {
+            setError(tAddress('required'));
+            return;
+        }
+
+        const saved = await send(
+            editing === 'new' ? '/api/account/addresses' : `/api/account/addresses/${editing}`,
+            {
+                method: editing === 'new' ? 'POST' : 'PATCH',
+                body: JSON.stringify({
+                    fullName: form.fullName,
+                    phone: form.phone,
+                    addressLine: form.addressLine,
+                    provinceCode: form.divisions.provinceCode,
+                    districtCode: form.divisions.districtCode,
+                    wardCode: form.divisions.wardCode || undefined,
+                    isDefault: form.isDefault,
+                }),
+            },
+            editing
+        );
+        if (saved) {
+            setEditing(null);
+        }
+    };
+
+    const handleSetDefault = (id: string) =>
+        send(`/api/account/addresses/${id}`, { method: 'PATCH', body: JSON.stringify({ isDefault: true }) }, id);
+
+    const handleDelete = (id: string) => {
+        if (!confirm(t('confirmDelete'))) return;
+        send(`/api/account/addresses/${id}`, { method: 'DELETE' }, id);
+    };
+
+    const isSubmitting = busyId !== null;
+
+    return (
+        <div className={styles.addressBook}>
+            {addresses.length === 0 && editing !== 'new' && <p className={styles.notice}>{t('empty')}</p>}
+
+            <div className={styles.addressList}>
+                {addresses.map((address) =>
+                    editing === address.id ? null : (
+                        <div key={address.id} className={styles.addressCard}>
+                            <div className={styles.addressInfo}>
+                                <div className={styles.addressHeader}>
+                                    <strong>{address.fullName}</strong>
+                                    {address.isDefault && <span className={styles.defaultBadge}>{t('default')}</span>}
+                                </div>
+                                <p>{address.phone}</p>
+                                <p>
+                                    {[address.addressLine, address.ward, address.district, address.city]
+                                        .filter(Boolean)
+                                        .join(', ')}
+                                </p>
+                            </div>
+                            <div className={styles.addressActions}>
+                                {!address.isDefault && (
+                                    <button
+                                        type="button"
+                                        className="btn btn-ghost"
+                                        onClick={() => handleSetDefault(address.id)}
+                                        disabled={isSubmitting}
+                                    >
+                                        {t('setDefault')}
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost"
+                                    onClick={() => openForm(address)}
+                                    disabled={isSubmitting}
+                                >
+                                    {t('edit')}
+                                </button>
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost"
+                                    onClick={() => handleDelete(address.id)}
+                                    disabled={isSubmitting}
+                                >
+                                    {busyId === address.id ? t('deleting') : t('delete')}
+                                </button>
+                            </div>
+                        </div>
+                    )
+                )}
+            </div>
+
+            {error && <div className={styles.errorMessage}>{error}</div>}
+
+            {editing ? (
+                <form onSubmit={handleSubmit} className={styles.addressForm}>
+                    <h3>{editing === 'new' ? t('form.addTitle') : t('form.editTitle')}</h3>
+                    <div className={styles.formGrid}>
+                        <div className={styles.field}>
+                            <label htmlFor="address-name">{t('form.fullName')}</label>
+                            <input
+                                id="address-name"
+                                type="text"
+                                className="input"
+                                value={form.fullName}
+                                onChange={(e) => updateField('fullName', e.target.value)}
+                                maxLength={200}
+                                required
+                                disabled={isSubmitting}
+                            />
+                        </div>
+                        <div className={styles.field}>
+                            <label htmlFor="address-phone">{t('form.phone')}</label>
+                            <input
+                                id="address-phone"
+                                type="tel"
+                                className="input"
+                                value={form.phone}
+                                onChange={(e) => updateField('phone', e.target.value)}
+                                required
+                                disabled={isSubmitting}
+                            />
+                        </div>
+                        <div className={`${styles.field} ${styles.fullWidth}`}>
+                            <label htmlFor="address-line">{t('form.addressLine')}</label>
+                            <input
+                                id="address-line"
+                                type="text"
+                                className="input"
+                                value={form.addressLine}
+                                onChange={(e) => updateField('addressLine', e.target.value)}
+                                maxLength={200}
+                                required
+                                disabled={isSubmitting}
+                            />
+                        </div>
+                        <AddressDivisionFields
+                            idPrefix="address"
+                            value={form.divisions}
+                            onChange={updateDivisions}
+                            disabled={isSubmitting}
+                        />
+                    </div>
+                    {!addresses.find((address) => address.id === editing)?.isDefault && (
+                        <label className={styles.checkboxField}>
+                            <input
+                                type="checkbox"
+                                checked={Boolean(form.isDefault)}
+                                onChange={(e) => updateField('isDefault', e.target.checked)}
+                                disabled={isSubmitting}
+                            />
+                            {t('form.makeDefault')}
+                        </label>
+                    )}
+                    <div className={styles.formActions}>
+                        <button
+                            type="button"
+                            className="btn btn-ghost"
+                            onClick={() => setEditing(null)}
+                            disabled={isSubmitting}
+                        >
+                            {t('form.cancel')}
+                        </button>
+                        <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
+                            {isSubmitting ? t('form.saving') : t('form.save')}
+                        </button>
+                    </div>
+                </form>
+            ) : addresses.length < maxAddresses ? (
+                <div className={styles.formActions}>
+                    <button type="button" className="btn btn-primary" onClick={() => openForm()}>
+                        {t('add')}
+                    </button>
+                </div>
+            ) : (
+                <p className={styles.notice}>{t('limitReached', { max: maxAddresses })}</p>
+            )}
+        </div>
+    );
+}
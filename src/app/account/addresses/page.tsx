@@ -0,0 +1,21 @@
+import { getTranslations } from 'next-intl/server';
+import { requireAuth } from '@/lib/auth/user';
+import { getUserAddresses, MAX_USER_ADDRESSES } from '@/lib/repositories/addresses';
+import AddressBook from './AddressBook';
+import styles from './page.module.css';
+
+export default async function AccountAddressesPage() {
+    const user = await requireAuth('/account/addresses');
+    const t = await getTranslations('account.addresses');
+
+    const addresses = await getUserAddresses(user.id);
+
+    return (
+        <div className={styles.addressesPage}>
+            <h2>{t('title')}</h2>
+            <p className={styles.subtitle}>{t('subtitle')}</p>
+
+            <AddressBook addresses={addresses} maxAddresses={MAX_USER_ADDRESSES} />
+        </div>
+    );
+}
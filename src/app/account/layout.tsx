@@ -44,6 +44,12 @@ export default async function AccountLayout({
                     <Link href="/account/orders" className={styles.navLink}>
                         {t('nav.orders')}
                     </Link>
+                    <Link href="/account/setups" className={styles.navLink}>
+                        {t('nav.setups')}
+                    </Link>
+                    <Link href="/account/addresses" className={styles.navLink}>
+                        {t('nav.addresses')}
+                    </Link>
                 </nav>
 
                 <div className={styles.accountContent}>
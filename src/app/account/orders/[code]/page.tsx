@@ -4,6 +4,8 @@ import { createClient } from '@/lib/supabase/server';
 import { createServiceClient } from '@/lib/supabase/service';
 import { notFound } from 'next/navigation';
 import StatusBadge from '@/components/ui/StatusBadge';
+import OrderReviews from '@/app/order/track/OrderReviews';
+import { getReviewableOrderItems } from '@/lib/repositories/reviews';
 import styles from './page.module.css';
 
 interface AccountOrderDetailPageProps {
@@ -75,6 +77,8 @@ export default async function AccountOrderDetailPage({ params }: AccountOrderDet
         notFound();
     }
 
+    const reviewableItems = await getReviewableOrderItems(order.id);
+
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('vi-VN').format(amount);
     };
@@ -259,6 +263,9 @@ export default async function AccountOrderDetailPage({ params }: AccountOrderDet
                     {tTracking('order.paymentMethod')}: {order.payment_method === 'cod' ? tTracking('order.paymentCod') : tTracking('order.paymentBank')}
                 </p>
             </div>
+
+            {/* Reviews (delivered orders) */}
+            <OrderReviews orderCode={order.order_number} items={reviewableItems} />
         </div>
     );
 }
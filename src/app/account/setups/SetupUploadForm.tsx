@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import type { PurchasedProduct } from '@/lib/repositories/setups';
+import styles from './page.module.css';
+
+interface SetupUploadFormProps {
+    // Products from the customer's delivered orders
+    products: PurchasedProduct[];
+}
+
+export default function SetupUploadForm({ products }: SetupUploadFormProps) {
+    const t = useTranslations('account.setups.form');
+    const router = useRouter();
+    const [file, setFile] = useState<File | null>(null);
+    const [title, setTitle] = useState('');
+    const [description, setDescription] = useState('');
+    const [productIds, setProductIds] = useState<string[]>(
+        products.length === 1 ? [products[0].id] : []
+    );
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState(false);
+    // Bumped after a successful upload to reset the file input
+    const [formKey, setFormKey] = useState(0);
+
+    const toggleProduct = (productId: string) => {
+        setProductIds((ids) =>
+            ids.includes(productId) ? ids.filter((id) => id !== productId) : [...ids, productId]
+        );
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!file) {
+            setError(t('photoRequired'));
+            return;
+        }
+        if (productIds.length === 0) {
+            setError(t('productsRequired'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+        setSuccess(false);
+
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+            formData.append('title', title.trim());
+            formData.append('description', description.trim());
+            productIds.forEach((id) => formData.append('productIds', id));
+
+            const response = await fetch('/api/setups', {
+                method: 'POST',
+                body: formData,
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('error'));
+            }
+
+            setFile(null);
+            setTitle('');
+            setDescription('');
+            setFormKey((key) => key + 1);
+            setSuccess(true);
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('error'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form key={formKey} onSubmit={handleSubmit} className={styles.uploadForm}>
+            {success && <div className={styles.successMessage}>{t('success')}</div>}
+
+            <div className={styles.field}>
+                <label htmlFor="setup-photo">{t('photo')}</label>
+                <input
+                    id="setup-photo"
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    onChange={(e) => setFile(e.target.files?.[0] || null)}
+                    disabled={isSubmitting}
+                />
+                <span className={styles.hint}>{t('photoHint')}</span>
+            </div>
+
+            <div className={styles.field}>
+                <label htmlFor="setup-title">{t('title')}</label>
+                <input
+                    id="setup-title"
+                    type="text"
+                    className="input"
+                    placeholder={t('titlePlaceholder')}
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    maxLength={120}
+                    required
+                    disabled={isSubmitting}
+                />
+            </div>
+
+            <div className={styles.field}>
+                <label htmlFor="setup-description">{t('description')}</label>
+                <textarea
+                    id="setup-description"
+                    className="input"
+                    placeholder={t('descriptionPlaceholder')}
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    maxLength={2000}
+                    rows={4}
+                    disabled={isSubmitting}
+                />
+            </div>
+
+            <div className={styles.field}>
+                <fieldset>
+                    <legend>{t('products')}</legend>
+                    <div className={styles.productOptions}>
+                        {products.map((product) => (
+                            <label key={product.id} className={styles.productOption}>
+                                <input
+                                    type="checkbox"
+                                    checked={productIds.includes(product.id)}
+                                    onChange={() => toggleProduct(product.id)}
+                                    disabled={isSubmitting}
+                                />
+                                {product.name}
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
+            </div>
+
+            {error && <div className={styles.errorMessage}>{error}</div>}
+
+            <div className={styles.formActions}>
+                <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
+                    {isSubmitting ? t('submitting') : t('submit')}
+                </button>
+            </div>
+        </form>
+    );
+}
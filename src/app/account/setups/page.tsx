@@ -0,0 +1,66 @@
+import { getTranslations } from 'next-intl/server';
+import Image from 'next/image';
+import { requireAuth } from '@/lib/auth/user';
+import { getPurchasedProducts, getUserSetups } from '@/lib/repositories/setups';
+import SetupUploadForm from './SetupUploadForm';
+import styles from './page.module.css';
+
+export default async function AccountSetupsPage() {
+    const user = await requireAuth('/account/setups');
+    const t = await getTranslations('account.setups');
+
+    const [purchasedProducts, setups] = await Promise.all([
+        getPurchasedProducts(user.id),
+        getUserSetups(user.id),
+    ]);
+    const productNames = new Map(purchasedProducts.map((product) => [product.id, product.name]));
+
+    return (
+        <div className={styles.setupsPage}>
+            <h2>{t('title')}</h2>
+            <p className={styles.subtitle}>{t('subtitle')}</p>
+
+            {purchasedProducts.length === 0 ? (
+                <p className={styles.notice}>{t('noPurchases')}</p>
+            ) : (
+                <SetupUploadForm products={purchasedProducts} />
+            )}
+
+            <h3 className={styles.sectionTitle}>{t('submissions')}</h3>
+            {setups.length === 0 ? (
+                <p className={styles.notice}>{t('empty')}</p>
+            ) : (
+                <div className={styles.setupList}>
+                    {setups.map((setup) => (
+                        <div key={setup.id} className={styles.setupCard}>
+                            <div className={styles.thumbnail}>
+                                <Image
+                                    src={setup.imageUrl}
+                                    alt={setup.title}
+                                    fill
+                                    sizes="120px"
+                                    style={{ objectFit: 'cover' }}
+                                />
+                            </div>
+                            <div className={styles.setupInfo}>
+                                <div className={styles.setupHeader}>
+                                    <strong>{setup.title}</strong>
+                                    <span className={`${styles.statusBadge} ${styles[setup.status]}`}>
+                                        {t(`status.${setup.status}`)}
+                                    </span>
+                                </div>
+                                {setup.description && <p>{setup.description}</p>}
+                                <p className={styles.products}>
+                                    {setup.productIds
+                                        .map((id) => productNames.get(id))
+                                        .filter(Boolean)
+                                        .join(', ')}
+                                </p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
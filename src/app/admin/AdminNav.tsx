@@ -5,9 +5,14 @@ import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { createClient } from '@/lib/supabase/browser';
 import { useRouter } from 'next/navigation';
+import { hasPermission, type AdminRole } from '@/lib/admin/permissions';
 import styles from './AdminNav.module.css';
 
-export default function AdminNav() {
+interface AdminNavProps {
+    role: AdminRole;
+}
+
+export default function AdminNav({ role }: AdminNavProps) {
     const t = useTranslations('admin');
     const pathname = usePathname();
     const router = useRouter();
@@ -51,6 +56,76 @@ export default function AdminNav() {
                     >
                         {t('orders.title')}
                     </Link>
+                    <Link
+                        href="/admin/change-requests"
+                        className={pathname?.includes('/admin/change-requests') ? styles.active : ''}
+                    >
+                        {t('changeRequests.title')}
+                    </Link>
+                    <Link
+                        href="/admin/deposit-proofs"
+                        className={pathname?.includes('/admin/deposit-proofs') ? styles.active : ''}
+                    >
+                        {t('depositProofs.title')}
+                    </Link>
+                    <Link
+                        href="/admin/reconciliation"
+                        className={pathname?.includes('/admin/reconciliation') ? styles.active : ''}
+                    >
+                        {t('reconciliation.title')}
+                    </Link>
+                    <Link
+                        href="/admin/reviews"
+                        className={pathname?.includes('/admin/reviews') ? styles.active : ''}
+                    >
+                        {t('reviews.title')}
+                    </Link>
+                    <Link
+                        href="/admin/setups"
+                        className={pathname?.includes('/admin/setups') ? styles.active : ''}
+                    >
+                        {t('setups.title')}
+                    </Link>
+                    <Link
+                        href="/admin/guides"
+                        className={pathname?.includes('/admin/guides') ? styles.active : ''}
+                    >
+                        {t('guides.title')}
+                    </Link>
+                    <Link
+                        href="/admin/shipping"
+                        className={pathname?.includes('/admin/shipping') ? styles.active : ''}
+                    >
+                        {t('shipping.title')}
+                    </Link>
+                    <Link
+                        href="/admin/discounts"
+                        className={pathname?.includes('/admin/discounts') ? styles.active : ''}
+                    >
+                        {t('discounts.title')}
+                    </Link>
+                    <Link
+                        href="/admin/emails/preview"
+                        className={pathname?.includes('/admin/emails') ? styles.active : ''}
+                    >
+                        {t('emails.title')}
+                    </Link>
+                    {hasPermission(role, 'staff.manage') && (
+                        <Link
+                            href="/admin/staff"
+                            className={pathname?.includes('/admin/staff') ? styles.active : ''}
+                        >
+                            {t('staff.title')}
+                        </Link>
+                    )}
+                    {hasPermission(role, 'audit.view') && (
+                        <Link
+                            href="/admin/audit"
+                            className={pathname?.includes('/admin/audit') ? styles.active : ''}
+                        >
+                            {t('audit.title')}
+                        </Link>
+                    )}
                 </div>
 
                 <div className={styles.navActions}>
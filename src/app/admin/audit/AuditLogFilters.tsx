@@ -0,0 +1,99 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import styles from './page.module.css';
+
+interface AuditLogFiltersProps {
+    actors: Array<{ id: string; email: string }>;
+    entityTypes: string[];
+    searchParams: {
+        actor?: string;
+        type?: string;
+        entity?: string;
+        from?: string;
+        to?: string;
+    };
+}
+
+const FILTER_KEYS = ['actor', 'type', 'entity', 'from', 'to'] as const;
+
+export default function AuditLogFilters({ actors, entityTypes, searchParams }: AuditLogFiltersProps) {
+    const t = useTranslations('admin.audit');
+    const router = useRouter();
+
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        const params = new URLSearchParams();
+
+        for (const key of FILTER_KEYS) {
+            const value = ((formData.get(key) as string) || '').trim();
+            if (value && value !== 'all') {
+                params.set(key, value);
+            }
+        }
+
+        router.push(`/admin/audit?${params.toString()}`);
+    };
+
+    return (
+        // Keyed by the applied filters so Reset clears the uncontrolled inputs
+        <form key={JSON.stringify(searchParams)} onSubmit={handleSubmit} className={styles.filters}>
+            <div className={styles.filterGroup}>
+                <label className="label" htmlFor="audit-actor">{t('filters.actor')}</label>
+                <select id="audit-actor" name="actor" className="input" defaultValue={searchParams.actor || 'all'}>
+                    <option value="all">{t('filters.actorAll')}</option>
+                    {actors.map((actor) => (
+                        <option key={actor.id} value={actor.id}>
+                            {actor.email}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className={styles.filterGroup}>
+                <label className="label" htmlFor="audit-type">{t('filters.entityType')}</label>
+                <select id="audit-type" name="type" className="input" defaultValue={searchParams.type || 'all'}>
+                    <option value="all">{t('filters.entityTypeAll')}</option>
+                    {entityTypes.map((type) => (
+                        <option key={type} value={type}>
+                            {t(`entityTypes.${type}`)}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className={styles.filterGroup}>
+                <label className="label" htmlFor="audit-entity">{t('filters.entity')}</label>
+                <input
+                    id="audit-entity"
+                    type="text"
+                    name="entity"
+                    className="input"
+                    placeholder={t('filters.entityPlaceholder')}
+                    defaultValue={searchParams.entity}
+                />
+            </div>
+
+            <div className={styles.filterGroup}>
+                <label className="label" htmlFor="audit-from">{t('filters.from')}</label>
+                <input id="audit-from" type="date" name="from" className="input" defaultValue={searchParams.from} />
+            </div>
+
+            <div className={styles.filterGroup}>
+                <label className="label" htmlFor="audit-to">{t('filters.to')}</label>
+                <input id="audit-to" type="date" name="to" className="input" defaultValue={searchParams.to} />
+            </div>
+
+            <div className={styles.filterActions}>
+                <button type="submit" className="btn btn-primary">
+                    {t('filters.apply')}
+                </button>
+                <button type="button" className="btn btn-ghost" onClick={() => router.push('/admin/audit')}>
+                    {t('filters.reset')}
+                </button>
+            </div>
+        </form>
+    );
+}
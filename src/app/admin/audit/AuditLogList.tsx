@@ -0,0 +1,229 @@
+import { getTranslations } from 'next-intl/server';
+import Link from 'next/link';
+import { isAdminRole } from '@/lib/admin/permissions';
+import {
+    AUDIT_ENTITY_TYPES,
+    adminListAuditActors,
+    adminListAuditLog,
+    type AuditEntityType,
+    type AuditLogEntry,
+    type AuditValues,
+} from '@/lib/repositories/admin/audit';
+import { adminListStaff } from '@/lib/repositories/admin/staff';
+import AuditLogFilters from './AuditLogFilters';
+import styles from './page.module.css';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_VALUE_LENGTH = 80;
+
+interface AuditLogListProps {
+    searchParams: {
+        actor?: string;
+        type?: string;
+        entity?: string;
+        from?: string;
+        to?: string;
+        page?: string;
+    };
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+        return '—';
+    }
+
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+function entityHref(entry: AuditLogEntry): string | null {
+    switch (entry.entityType) {
+        case 'order':
+            return entry.entityLabel ? `/admin/orders/${entry.entityLabel}` : null;
+        case 'product':
+            return entry.action === 'product.delete' ? null : `/admin/products/${entry.entityId}`;
+        case 'guide':
+            return entry.action === 'guide.delete' ? null : `/admin/guides/${entry.entityId}`;
+        case 'change_request':
+            return '/admin/change-requests?filter=all';
+        case 'bank_statement':
+        case 'bank_transaction':
+            return '/admin/reconciliation';
+        case 'staff':
+        case 'staff_invitation':
+            return '/admin/staff';
+        case 'shipping_zone':
+            return '/admin/shipping';
+        case 'discount_code':
+            return '/admin/discounts';
+        default:
+            return null;
+    }
+}
+
+export default async function AuditLogList({ searchParams }: AuditLogListProps) {
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const page = Number(searchParams.page) || 1;
+    const entityType = AUDIT_ENTITY_TYPES.includes(searchParams.type as AuditEntityType)
+        ? (searchParams.type as AuditEntityType)
+        : 'all';
+
+    const [result, loggedActors, staff] = await Promise.all([
+        adminListAuditLog(
+            {
+                actorId: searchParams.actor,
+                entityType,
+                entityId: searchParams.entity,
+                from: DATE_PATTERN.test(searchParams.from || '') ? searchParams.from : undefined,
+                to: DATE_PATTERN.test(searchParams.to || '') ? searchParams.to : undefined,
+            },
+            { page, pageSize: 50 }
+        ),
+        adminListAuditActors(),
+        adminListStaff(),
+    ]);
+
+    // Current staff plus anyone in the log who has since been removed
+    const actors = new Map(staff.map((member) => [member.id, member.email]));
+    for (const actor of loggedActors) {
+        if (!actors.has(actor.id)) {
+            actors.set(actor.id, actor.email);
+        }
+    }
+
+    const formatDate = (dateString: string) => {
+        const date = new Date(dateString);
+        return date.toLocaleString('vi-VN', {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+    };
+
+    const renderChanges = (entry: AuditLogEntry) => {
+        const before: AuditValues = entry.before || {};
+        const after: AuditValues = entry.after || {};
+        const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+        const metadata = Object.entries(entry.metadata || {}).filter(([, value]) => value !== null && value !== '');
+
+        if (fields.length === 0 && metadata.length === 0) {
+            return <span className={styles.muted}>{t('audit.list.noChanges')}</span>;
+        }
+
+        return (
+            <ul className={styles.changes}>
+                {fields.map((field) => (
+                    <li key={field}>
+                        <code>{field}</code>:{' '}
+                        {entry.before && <span className={styles.before}>{formatValue(before[field])}</span>}
+                        {entry.before && entry.after && ' → '}
+                        {entry.after && <span className={styles.after}>{formatValue(after[field])}</span>}
+                    </li>
+                ))}
+                {metadata.map(([key, value]) => (
+                    <li key={`meta-${key}`} className={styles.muted}>
+                        <code>{key}</code>: {formatValue(value)}
+                    </li>
+                ))}
+            </ul>
+        );
+    };
+
+    const pageHref = (target: number) => {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(searchParams)) {
+            if (value && key !== 'page') {
+                params.set(key, value);
+            }
+        }
+        params.set('page', String(target));
+        return `/admin/audit?${params.toString()}`;
+    };
+
+    return (
+        <div className={styles.auditList}>
+            <AuditLogFilters
+                actors={Array.from(actors, ([id, email]) => ({ id, email })).sort((a, b) => a.email.localeCompare(b.email))}
+                entityTypes={AUDIT_ENTITY_TYPES}
+                searchParams={searchParams}
+            />
+
+            {result.items.length === 0 ? (
+                <div className={styles.empty}>{t('audit.list.empty')}</div>
+            ) : (
+                <>
+                    <div className={styles.total}>{t('audit.list.total', { count: result.total })}</div>
+
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>{t('audit.list.time')}</th>
+                                    <th>{t('audit.list.actor')}</th>
+                                    <th>{t('audit.list.action')}</th>
+                                    <th>{t('audit.list.entity')}</th>
+                                    <th>{t('audit.list.changes')}</th>
+                                    <th>{t('audit.list.origin')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.items.map((entry) => {
+                                    const href = entityHref(entry);
+                                    const label = entry.entityLabel || entry.entityId;
+
+                                    return (
+                                        <tr key={entry.id}>
+                                            <td className={styles.nowrap}>{formatDate(entry.createdAt)}</td>
+                                            <td>
+                                                <div>{entry.actorEmail}</div>
+                                                {isAdminRole(entry.actorRole) && (
+                                                    <div className={styles.muted}>{t(`staff.roles.${entry.actorRole}`)}</div>
+                                                )}
+                                            </td>
+                                            <td>{t(`audit.actions.${entry.action}`)}</td>
+                                            <td>
+                                                <div className={styles.muted}>{t(`audit.entityTypes.${entry.entityType}`)}</div>
+                                                {href ? <Link href={href}>{label}</Link> : <span>{label}</span>}
+                                            </td>
+                                            <td>{renderChanges(entry)}</td>
+                                            <td>
+                                                <div className={styles.nowrap}>{entry.ipAddress || '—'}</div>
+                                                {entry.userAgent && (
+                                                    <div className={styles.userAgent} title={entry.userAgent}>
+                                                        {entry.userAgent}
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {result.totalPages > 1 && (
+                        <div className={styles.pagination}>
+                            {page > 1 && (
+                                <Link href={pageHref(page - 1)} className="btn btn-ghost">
+                                    {t('pagination.previous')}
+                                </Link>
+                            )}
+                            <span className={styles.pageInfo}>
+                                {t('pagination.page', { current: page, total: result.totalPages })}
+                            </span>
+                            {page < result.totalPages && (
+                                <Link href={pageHref(page + 1)} className="btn btn-ghost">
+                                    {t('pagination.next')}
+                                </Link>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,41 @@
+import { Suspense } from 'react';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import AuditLogList from './AuditLogList';
+import styles from './page.module.css';
+
+interface AdminAuditPageProps {
+    searchParams: Promise<{
+        actor?: string;
+        type?: string;
+        entity?: string;
+        from?: string;
+        to?: string;
+        page?: string;
+    }>;
+}
+
+export default async function AdminAuditPage({ searchParams }: AdminAuditPageProps) {
+    const user = await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const searchParamsResolved = await searchParams;
+
+    return (
+        <div className={styles.auditPage}>
+            <div className={styles.header}>
+                <h1>{t('audit.title')}</h1>
+                <p className={styles.subtitle}>{t('audit.subtitle')}</p>
+            </div>
+
+            {!hasPermission(user?.adminRole, 'audit.view') ? (
+                <div className={styles.empty}>{t('audit.forbidden')}</div>
+            ) : (
+                <Suspense fallback={<div>{t('loading')}</div>}>
+                    <AuditLogList searchParams={searchParamsResolved} />
+                </Suspense>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import type { ChangeRequestStatus } from '@/lib/repositories/change-requests';
+import { replyToChangeRequestAction, updateChangeRequestStatusAction } from './actions';
+import styles from './page.module.css';
+
+const STATUSES: ChangeRequestStatus[] = ['open', 'accepted', 'declined', 'resolved'];
+
+interface ChangeRequestReplyProps {
+    requestId: string;
+    status: ChangeRequestStatus;
+    canEmail: boolean;
+}
+
+export default function ChangeRequestReply({ requestId, status, canEmail }: ChangeRequestReplyProps) {
+    const t = useTranslations('admin.changeRequests');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [reply, setReply] = useState('');
+    const [nextStatus, setNextStatus] = useState<ChangeRequestStatus>(status);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleReply = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reply.trim()) return;
+
+        setError(null);
+        startTransition(async () => {
+            try {
+                await replyToChangeRequestAction(
+                    requestId,
+                    reply,
+                    nextStatus !== status ? nextStatus : undefined
+                );
+                setReply('');
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('error'));
+            }
+        });
+    };
+
+    const handleStatusOnly = () => {
+        setError(null);
+        startTransition(async () => {
+            try {
+                await updateChangeRequestStatusAction(requestId, nextStatus);
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('error'));
+            }
+        });
+    };
+
+    return (
+        <form onSubmit={handleReply} className={styles.replyForm}>
+            <textarea
+                className="input"
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                placeholder={t('replyPlaceholder')}
+                rows={3}
+                maxLength={2000}
+                disabled={isPending}
+            />
+            {!canEmail && <div className={styles.muted}>{t('noEmail')}</div>}
+
+            <div className={styles.replyActions}>
+                <label className={styles.statusSelect}>
+                    {t('setStatus')}
+                    <select
+                        className="input"
+                        value={nextStatus}
+                        onChange={(e) => setNextStatus(e.target.value as ChangeRequestStatus)}
+                        disabled={isPending}
+                    >
+                        {STATUSES.map((value) => (
+                            <option key={value} value={value}>
+                                {t(`statuses.${value}`)}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <button type="submit" className="btn btn-sm btn-primary" disabled={isPending || !reply.trim()}>
+                    {isPending ? t('sending') : t('sendReply')}
+                </button>
+                <button
+                    type="button"
+                    className="btn btn-sm btn-secondary"
+                    onClick={handleStatusOnly}
+                    disabled={isPending || nextStatus === status}
+                >
+                    {t('updateStatus')}
+                </button>
+            </div>
+
+            {error && <div className={styles.error}>{error}</div>}
+        </form>
+    );
+}
@@ -0,0 +1,112 @@
+import { getTranslations } from 'next-intl/server';
+import Link from 'next/link';
+import {
+    adminCountOpenChangeRequests,
+    adminListChangeRequests,
+    type ChangeRequestFilter,
+} from '@/lib/repositories/admin/change-requests';
+import ChangeRequestReply from './ChangeRequestReply';
+import styles from './page.module.css';
+
+const FILTERS: ChangeRequestFilter[] = ['open', 'accepted', 'declined', 'resolved', 'all'];
+
+interface ChangeRequestsListProps {
+    filter?: string;
+}
+
+export default async function ChangeRequestsList({ filter }: ChangeRequestsListProps) {
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const activeFilter = FILTERS.includes(filter as ChangeRequestFilter)
+        ? (filter as ChangeRequestFilter)
+        : 'open';
+
+    const [requests, openCount] = await Promise.all([
+        adminListChangeRequests(activeFilter),
+        adminCountOpenChangeRequests(),
+    ]);
+
+    const formatDate = (dateString: string) => {
+        const date = new Date(dateString);
+        return date.toLocaleString('vi-VN', {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    return (
+        <div className={styles.section}>
+            <div className={styles.filterTabs}>
+                {FILTERS.map((value) => (
+                    <Link
+                        key={value}
+                        href={value === 'open' ? '/admin/change-requests' : `/admin/change-requests?filter=${value}`}
+                        className={`btn btn-sm ${value === activeFilter ? 'btn-primary' : 'btn-ghost'}`}
+                    >
+                        {t(`changeRequests.filters.${value}`)}
+                        {value === 'open' && openCount > 0 && ` (${openCount})`}
+                    </Link>
+                ))}
+            </div>
+
+            {requests.length === 0 ? (
+                <div className={styles.empty}>{t('changeRequests.empty')}</div>
+            ) : (
+                <div className={styles.requestList}>
+                    {requests.map((request) => (
+                        <article key={request.id} className={styles.requestCard}>
+                            <header className={styles.requestHeader}>
+                                <div>
+                                    <Link href={`/admin/orders/${request.orderNumber}`} className={styles.orderLink}>
+                                        {request.orderNumber}
+                                    </Link>
+                                    <span className={styles.muted}>
+                                        {request.customerName}
+                                        {request.customerEmail && ` · ${request.customerEmail}`}
+                                    </span>
+                                </div>
+                                <div className={styles.requestMeta}>
+                                    <span className={styles.category}>
+                                        {t(`changeRequests.categories.${request.category}`)}
+                                    </span>
+                                    <span className={`${styles.statusBadge} ${styles[`request-${request.status}`]}`}>
+                                        {t(`changeRequests.statuses.${request.status}`)}
+                                    </span>
+                                </div>
+                            </header>
+
+                            <ol className={styles.thread}>
+                                <li className={styles.customerMessage}>
+                                    <div className={styles.messageMeta}>
+                                        {t('changeRequests.authors.customer')} · {formatDate(request.createdAt)}
+                                    </div>
+                                    <p>{request.message}</p>
+                                </li>
+                                {request.messages.map((message) => (
+                                    <li
+                                        key={message.id}
+                                        className={message.author === 'admin' ? styles.adminMessage : styles.customerMessage}
+                                    >
+                                        <div className={styles.messageMeta}>
+                                            {t(`changeRequests.authors.${message.author}`)} · {formatDate(message.createdAt)}
+                                        </div>
+                                        <p>{message.body}</p>
+                                    </li>
+                                ))}
+                            </ol>
+
+                            <ChangeRequestReply
+                                requestId={request.id}
+                                status={request.status}
+                                canEmail={Boolean(request.customerEmail)}
+                            />
+                        </article>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,85 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/admin/auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+import {
+    adminReplyToChangeRequest,
+    adminUpdateChangeRequestStatus,
+} from '@/lib/repositories/admin/change-requests';
+import {
+    CHANGE_REQUEST_STATUSES,
+    MAX_CHANGE_REQUEST_MESSAGE_LENGTH,
+    type ChangeRequestStatus,
+} from '@/lib/repositories/change-requests';
+
+function assertStatus(status: ChangeRequestStatus | undefined): void {
+    if (status && !CHANGE_REQUEST_STATUSES.includes(status)) {
+        throw new Error('Invalid status');
+    }
+}
+
+/**
+ * Server action to reply to a change request (emails the customer)
+ */
+export async function replyToChangeRequestAction(
+    requestId: string,
+    body: string,
+    status?: ChangeRequestStatus
+): Promise<void> {
+    const user = await requirePermission('orders.manage');
+
+    const reply = body.trim();
+    if (!reply) {
+        throw new Error('Reply is required');
+    }
+    if (reply.length > MAX_CHANGE_REQUEST_MESSAGE_LENGTH) {
+        throw new Error('Reply is too long');
+    }
+    assertStatus(status);
+
+    try {
+        const request = await adminReplyToChangeRequest(requestId, reply, user.id, status);
+        await recordAdminAction(user, {
+            action: 'change_request.reply',
+            entityType: 'change_request',
+            entityId: requestId,
+            entityLabel: request.orderNumber,
+            after: status ? { status: request.status } : null,
+            metadata: { reply },
+        });
+        revalidatePath('/admin/change-requests');
+        revalidatePath(`/admin/orders/${request.orderNumber}`);
+    } catch (error) {
+        console.error('Error replying to change request:', error);
+        throw error instanceof Error ? error : new Error('Failed to send reply');
+    }
+}
+
+/**
+ * Server action to change a request's status without replying
+ */
+export async function updateChangeRequestStatusAction(
+    requestId: string,
+    status: ChangeRequestStatus
+): Promise<void> {
+    const user = await requirePermission('orders.manage');
+
+    assertStatus(status);
+
+    try {
+        const request = await adminUpdateChangeRequestStatus(requestId, status);
+        await recordAdminAction(user, {
+            action: 'change_request.status_update',
+            entityType: 'change_request',
+            entityId: requestId,
+            entityLabel: request.orderNumber,
+            after: { status: request.status },
+        });
+        revalidatePath('/admin/change-requests');
+        revalidatePath(`/admin/orders/${request.orderNumber}`);
+    } catch (error) {
+        console.error('Error updating change request:', error);
+        throw error instanceof Error ? error : new Error('Failed to update change request');
+    }
+}
@@ -0,0 +1,31 @@
+import { Suspense } from 'react';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import ChangeRequestsList from './ChangeRequestsList';
+import styles from './page.module.css';
+
+interface AdminChangeRequestsPageProps {
+    searchParams: Promise<{
+        filter?: string;
+    }>;
+}
+
+export default async function AdminChangeRequestsPage({ searchParams }: AdminChangeRequestsPageProps) {
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const { filter } = await searchParams;
+
+    return (
+        <div className={styles.changeRequestsPage}>
+            <div className={styles.header}>
+                <h1>{t('changeRequests.title')}</h1>
+                <p className={styles.subtitle}>{t('changeRequests.subtitle')}</p>
+            </div>
+
+            <Suspense fallback={<div>{t('loading')}</div>}>
+                <ChangeRequestsList filter={filter} />
+            </Suspense>
+        </div>
+    );
+}
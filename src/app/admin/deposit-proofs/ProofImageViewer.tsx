@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useTranslations } from 'next-intl';
+import styles from './page.module.css';
+
+const ZOOM_SCALE = 2.5;
+
+interface ProofImageViewerProps {
+    imageUrls: string[];
+    orderNumber: string;
+}
+
+/**
+ * Proof thumbnails; click one to open it full screen, click again to zoom
+ * into that spot (arrow keys switch images, Escape closes)
+ */
+export default function ProofImageViewer({ imageUrls, orderNumber }: ProofImageViewerProps) {
+    const t = useTranslations('admin.depositProofs');
+    const [openIndex, setOpenIndex] = useState<number | null>(null);
+    // Zoom origin in percent of the image box; null = not zoomed
+    const [zoomOrigin, setZoomOrigin] = useState<{ x: number; y: number } | null>(null);
+
+    const show = (index: number | null) => {
+        setOpenIndex(index);
+        setZoomOrigin(null);
+    };
+
+    useEffect(() => {
+        if (openIndex === null) return;
+
+        const handleKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                show(null);
+            } else if (e.key === 'ArrowRight') {
+                show((openIndex + 1) % imageUrls.length);
+            } else if (e.key === 'ArrowLeft') {
+                show((openIndex - 1 + imageUrls.length) % imageUrls.length);
+            }
+        };
+        document.addEventListener('keydown', handleKey);
+        return () => document.removeEventListener('keydown', handleKey);
+    }, [openIndex, imageUrls.length]);
+
+    const toggleZoom = (e: React.MouseEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        if (zoomOrigin) {
+            setZoomOrigin(null);
+            return;
+        }
+        const box = e.currentTarget.getBoundingClientRect();
+        setZoomOrigin({
+            x: ((e.clientX - box.left) / box.width) * 100,
+            y: ((e.clientY - box.top) / box.height) * 100,
+        });
+    };
+
+    return (
+        <>
+            <div className={styles.thumbnails}>
+                {imageUrls.map((url, index) => (
+                    <button
+                        key={url}
+                        type="button"
+                        className={styles.thumbnail}
+                        onClick={() => show(index)}
+                        aria-label={t('openImage', { number: index + 1 })}
+                    >
+                        <Image
+                            src={url}
+                            alt={t('imageAlt', { orderNumber, number: index + 1 })}
+                            fill
+                            sizes="(max-width: 768px) 50vw, 240px"
+                            style={{ objectFit: 'cover' }}
+                        />
+                    </button>
+                ))}
+            </div>
+
+            {openIndex !== null && (
+                <div className={styles.lightbox} role="dialog" aria-modal="true" onClick={() => show(null)}>
+                    <div className={styles.lightboxToolbar} onClick={(e) => e.stopPropagation()}>
+                        <span>
+                            {t('imageCounter', { number: openIndex + 1, total: imageUrls.length })} ·{' '}
+                            {zoomOrigin ? t('zoomOutHint') : t('zoomInHint')}
+                        </span>
+                        <div className={styles.actionButtons}>
+                            {imageUrls.length > 1 && (
+                                <>
+                                    <button
+                                        type="button"
+                                        className="btn btn-ghost"
+                                        onClick={() => show((openIndex - 1 + imageUrls.length) % imageUrls.length)}
+                                    >
+                                        {t('previous')}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="btn btn-ghost"
+                                        onClick={() => show((openIndex + 1) % imageUrls.length)}
+                                    >
+                                        {t('next')}
+                                    </button>
+                                </>
+                            )}
+                            <a
+                                href={imageUrls[openIndex]}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="btn btn-ghost"
+                            >
+                                {t('openOriginal')}
+                            </a>
+                            <button type="button" className="btn btn-ghost" onClick={() => show(null)}>
+                                {t('close')}
+                            </button>
+                        </div>
+                    </div>
+                    <div
+                        className={`${styles.lightboxImage} ${zoomOrigin ? styles.zoomed : ''}`}
+                        onClick={toggleZoom}
+                    >
+                        <Image
+                            src={imageUrls[openIndex]}
+                            alt={t('imageAlt', { orderNumber, number: openIndex + 1 })}
+                            fill
+                            sizes="100vw"
+                            style={{
+                                objectFit: 'contain',
+                                transform: zoomOrigin ? `scale(${ZOOM_SCALE})` : undefined,
+                                transformOrigin: zoomOrigin ? `${zoomOrigin.x}% ${zoomOrigin.y}%` : undefined,
+                            }}
+                        />
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { approveDepositProofAction, rejectDepositProofAction } from './actions';
+import styles from './page.module.css';
+
+interface ProofReviewActionsProps {
+    proofId: string;
+    canEmail: boolean;
+}
+
+export default function ProofReviewActions({ proofId, canEmail }: ProofReviewActionsProps) {
+    const t = useTranslations('admin.depositProofs');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [reason, setReason] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const run = (action: () => Promise<void>) => {
+        setError(null);
+        startTransition(async () => {
+            try {
+                await action();
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('error'));
+            }
+        });
+    };
+
+    return (
+        <div className={styles.reviewActions}>
+            <textarea
+                className="input"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t('rejectReasonPlaceholder')}
+                rows={2}
+                maxLength={1000}
+                disabled={isPending}
+            />
+            {!canEmail && <div className={styles.muted}>{t('noEmail')}</div>}
+            {error && <div className={styles.error}>{error}</div>}
+
+            <div className={styles.actionButtons}>
+                <button
+                    type="button"
+                    className="btn btn-ghost"
+                    onClick={() => run(() => rejectDepositProofAction(proofId, reason))}
+                    disabled={isPending || !reason.trim()}
+                    title={reason.trim() ? undefined : t('rejectReasonRequired')}
+                >
+                    {t('reject')}
+                </button>
+                <button
+                    type="button"
+                    className="btn btn-primary"
+                    onClick={() => run(() => approveDepositProofAction(proofId))}
+                    disabled={isPending}
+                >
+                    {isPending ? t('saving') : t('approve')}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,52 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/admin/auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+import { adminReviewDepositProof } from '@/lib/repositories/admin/deposit-proofs';
+
+const MAX_REJECTION_REASON_LENGTH = 1000;
+
+async function reviewProof(proofId: string, action: 'approve' | 'reject', note?: string): Promise<void> {
+    const user = await requirePermission('orders.manage');
+
+    try {
+        const review = await adminReviewDepositProof({ proofId, action, note, reviewedBy: user.id });
+        await recordAdminAction(user, {
+            action: 'order.deposit_proof_reviewed',
+            entityType: 'order',
+            entityId: review.orderId,
+            entityLabel: review.orderNumber,
+            before: { proofStatus: 'pending', paymentStatus: review.paymentStatusBefore },
+            after: { proofStatus: review.proofStatus, paymentStatus: review.paymentStatusAfter },
+            metadata: { proofId, note: note || null, depositDueExtendedTo: review.depositDueExtendedTo },
+        });
+        revalidatePath('/admin/deposit-proofs');
+        revalidatePath(`/admin/orders/${review.orderNumber}`);
+    } catch (error) {
+        console.error('Error reviewing deposit proof:', error);
+        throw error instanceof Error ? error : new Error('Failed to review deposit proof');
+    }
+}
+
+/**
+ * Server action to approve a proof (marks the deposit paid, emails the customer)
+ */
+export async function approveDepositProofAction(proofId: string): Promise<void> {
+    await reviewProof(proofId, 'approve');
+}
+
+/**
+ * Server action to reject a proof; the reason is emailed to the customer
+ */
+export async function rejectDepositProofAction(proofId: string, reason: string): Promise<void> {
+    const note = reason.trim();
+    if (!note) {
+        throw new Error('A rejection reason is required');
+    }
+    if (note.length > MAX_REJECTION_REASON_LENGTH) {
+        throw new Error('Rejection reason is too long');
+    }
+
+    await reviewProof(proofId, 'reject', note);
+}
@@ -0,0 +1,107 @@
+import { getTranslations } from 'next-intl/server';
+import Link from 'next/link';
+import { requireAdmin } from '@/lib/admin/auth';
+import { adminListPendingDepositProofs } from '@/lib/repositories/admin/deposit-proofs';
+import ProofImageViewer from './ProofImageViewer';
+import ProofReviewActions from './ProofReviewActions';
+import styles from './page.module.css';
+
+export default async function AdminDepositProofsPage() {
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const proofs = await adminListPendingDepositProofs();
+
+    const formatDate = (dateString: string) =>
+        new Date(dateString).toLocaleString('vi-VN', {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    const formatCurrency = (amount: number) => `${new Intl.NumberFormat('vi-VN').format(amount)} ₫`;
+
+    return (
+        <div className={styles.depositProofsPage}>
+            <div className={styles.header}>
+                <h1>{t('depositProofs.title')}</h1>
+                <p className={styles.subtitle}>{t('depositProofs.subtitle', { count: proofs.length })}</p>
+            </div>
+
+            {proofs.length === 0 ? (
+                <div className={`${styles.section} ${styles.empty}`}>{t('depositProofs.empty')}</div>
+            ) : (
+                <div className={styles.proofList}>
+                    {proofs.map((proof) => (
+                        <article key={proof.id} className={styles.proofCard}>
+                            <div className={styles.images}>
+                                <ProofImageViewer imageUrls={proof.imageUrls} orderNumber={proof.orderNumber} />
+                                {proof.customerNote && (
+                                    <p className={styles.customerNote}>
+                                        <strong>{t('depositProofs.customerNote')}:</strong> {proof.customerNote}
+                                    </p>
+                                )}
+                            </div>
+
+                            <div className={styles.details}>
+                                <div className={styles.detailsHeader}>
+                                    <Link href={`/admin/orders/${proof.orderNumber}`} className={styles.orderLink}>
+                                        {proof.orderNumber}
+                                    </Link>
+                                    <span className={styles.muted}>
+                                        {proof.customerName} · {proof.customerPhone}
+                                    </span>
+                                    <span className={styles.muted}>
+                                        {t('depositProofs.submittedAt', { date: formatDate(proof.submittedAt) })}
+                                        {proof.attemptNumber > 1 && ` · ${t('depositProofs.attempt', { number: proof.attemptNumber })}`}
+                                    </span>
+                                </div>
+
+                                <dl className={styles.expected}>
+                                    <dt>{t('depositProofs.expectedAmount')}</dt>
+                                    <dd className={styles.amount}>{formatCurrency(proof.depositAmount)}</dd>
+                                    <dt>{t('depositProofs.orderTotal')}</dt>
+                                    <dd>{formatCurrency(proof.total)}</dd>
+                                    <dt>{t('depositProofs.memo')}</dt>
+                                    <dd>
+                                        <code className={styles.memo}>{proof.transferMemo}</code>
+                                    </dd>
+                                    <dt>{t('depositProofs.dueAt')}</dt>
+                                    <dd className={proof.depositOverdue ? styles.overdue : undefined}>
+                                        {proof.depositDueAt ? formatDate(proof.depositDueAt) : '—'}
+                                        {proof.depositOverdue && ` · ${t('depositProofs.overdue')}`}
+                                    </dd>
+                                </dl>
+
+                                <div className={styles.vietQR}>
+                                    <h3>{t('depositProofs.vietQR.title')}</h3>
+                                    {proof.vietQR ? (
+                                        <dl className={styles.expected}>
+                                            <dt>{t('depositProofs.vietQR.bank')}</dt>
+                                            <dd>{proof.vietQR.displayData.bankName}</dd>
+                                            <dt>{t('depositProofs.vietQR.accountNumber')}</dt>
+                                            <dd>{proof.vietQR.displayData.accountNumber}</dd>
+                                            <dt>{t('depositProofs.vietQR.accountName')}</dt>
+                                            <dd>{proof.vietQR.displayData.accountName}</dd>
+                                            <dt>{t('depositProofs.vietQR.qr')}</dt>
+                                            <dd>
+                                                <a href={proof.vietQR.qrDataUrl} target="_blank" rel="noopener noreferrer">
+                                                    {t('depositProofs.vietQR.openQr')}
+                                                </a>
+                                            </dd>
+                                        </dl>
+                                    ) : (
+                                        <p className={styles.muted}>{t('depositProofs.vietQR.notConfigured')}</p>
+                                    )}
+                                </div>
+
+                                <ProofReviewActions proofId={proof.id} canEmail={Boolean(proof.customerEmail)} />
+                            </div>
+                        </article>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import {
+    DISCOUNT_SCOPES,
+    DISCOUNT_TYPES,
+    type DiscountScope,
+    type DiscountType,
+} from '@/lib/orders/discounts';
+import type { AdminDiscountCode } from '@/lib/repositories/admin/discounts';
+import { deleteDiscountCodeAction, saveDiscountCodeAction } from './actions';
+import styles from './page.module.css';
+
+interface DiscountCodeFormProps {
+    discountCode?: AdminDiscountCode; // Omitted for the "new code" form
+    products: Array<{ id: string; name: string }>;
+    tubeTypes: string[];
+    canManage: boolean;
+}
+
+// ISO timestamp -> value for <input type="datetime-local"> in the browser's timezone
+function toLocalInput(value?: string): string {
+    if (!value) return '';
+    const date = new Date(value);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function optionalNumber(value: string): number | undefined {
+    return value.trim() === '' ? undefined : Number(value);
+}
+
+export default function DiscountCodeForm({ discountCode, products, tubeTypes, canManage }: DiscountCodeFormProps) {
+    const t = useTranslations('admin.discounts');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    const [code, setCode] = useState(discountCode?.code || '');
+    const [description, setDescription] = useState(discountCode?.description || '');
+    const [discountType, setDiscountType] = useState<DiscountType>(discountCode?.discountType || 'percent');
+    const [value, setValue] = useState(discountCode ? String(discountCode.value) : '');
+    const [maxDiscount, setMaxDiscount] = useState(discountCode?.maxDiscount != null ? String(discountCode.maxDiscount) : '');
+    const [minOrderAmount, setMinOrderAmount] = useState(String(discountCode?.minOrderAmount ?? 0));
+    const [scope, setScope] = useState<DiscountScope>(discountCode?.scope || 'order');
+    const [productIds, setProductIds] = useState<string[]>(discountCode?.productIds || []);
+    const [selectedTubeTypes, setSelectedTubeTypes] = useState<string[]>(discountCode?.tubeTypes || []);
+    const [usageLimit, setUsageLimit] = useState(discountCode?.usageLimit != null ? String(discountCode.usageLimit) : '');
+    const [perCustomerLimit, setPerCustomerLimit] = useState(
+        discountCode?.perCustomerLimit != null ? String(discountCode.perCustomerLimit) : ''
+    );
+    const [startsAt, setStartsAt] = useState(toLocalInput(discountCode?.startsAt));
+    const [expiresAt, setExpiresAt] = useState(toLocalInput(discountCode?.expiresAt));
+    const [isActive, setIsActive] = useState(discountCode?.isActive ?? true);
+
+    const disabled = isPending || !canManage;
+
+    const toggle = (list: string[], item: string) =>
+        list.includes(item) ? list.filter((entry) => entry !== item) : [...list, item];
+
+    const resetNewCode = () => {
+        setCode('');
+        setDescription('');
+        setDiscountType('percent');
+        setValue('');
+        setMaxDiscount('');
+        setMinOrderAmount('0');
+        setScope('order');
+        setProductIds([]);
+        setSelectedTubeTypes([]);
+        setUsageLimit('');
+        setPerCustomerLimit('');
+        setStartsAt('');
+        setExpiresAt('');
+        setIsActive(true);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setError(null);
+        setSuccess(null);
+        startTransition(async () => {
+            try {
+                await saveDiscountCodeAction(discountCode?.id || null, {
+                    code,
+                    description,
+                    discountType,
+                    value: Number(value),
+                    maxDiscount: optionalNumber(maxDiscount),
+                    minOrderAmount: Number(minOrderAmount || 0),
+                    scope,
+                    productIds,
+                    tubeTypes: selectedTubeTypes,
+                    usageLimit: optionalNumber(usageLimit),
+                    perCustomerLimit: optionalNumber(perCustomerLimit),
+                    startsAt: startsAt ? new Date(startsAt).toISOString() : undefined,
+                    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+                    isActive,
+                });
+                setSuccess(t('form.saved'));
+                if (!discountCode) {
+                    resetNewCode();
+                }
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('form.error'));
+            }
+        });
+    };
+
+    const handleDelete = () => {
+        if (!discountCode || !confirm(t('form.deleteConfirm', { code: discountCode.code }))) return;
+
+        setError(null);
+        startTransition(async () => {
+            try {
+                await deleteDiscountCodeAction(discountCode.id);
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('form.error'));
+            }
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className={styles.section}>
+            <div className={styles.codeHeader}>
+                <h2>{discountCode ? discountCode.code : t('form.newTitle')}</h2>
+                {discountCode && !discountCode.isActive && <span className={styles.badge}>{t('form.inactive')}</span>}
+                {discountCode && (
+                    <span className={styles.usage}>
+                        {discountCode.usageLimit
+                            ? t('usageOf', { count: discountCode.redemptionCount, limit: discountCode.usageLimit })
+                            : t('usage', { count: discountCode.redemptionCount })}
+                    </span>
+                )}
+            </div>
+
+            <div className={styles.formGrid}>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.code')}</label>
+                    <input
+                        type="text"
+                        className={`input ${styles.codeInput}`}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        maxLength={40}
+                        required
+                        disabled={disabled}
+                    />
+                    <span className={styles.hint}>{t('form.codeHint')}</span>
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.description')}</label>
+                    <input
+                        type="text"
+                        className="input"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        disabled={disabled}
+                    />
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.discountType')}</label>
+                    <select
+                        className="input"
+                        value={discountType}
+                        onChange={(e) => setDiscountType(e.target.value as DiscountType)}
+                        disabled={disabled}
+                    >
+                        {DISCOUNT_TYPES.map((type) => (
+                            <option key={type} value={type}>
+                                {t(`types.${type}`)}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">
+                        {discountType === 'percent' ? t('form.valuePercent') : t('form.valueFixed')}
+                    </label>
+                    <input
+                        type="number"
+                        className="input"
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        min="0"
+                        max={discountType === 'percent' ? '100' : undefined}
+                        step={discountType === 'percent' ? '0.1' : '1000'}
+                        required
+                        disabled={disabled}
+                    />
+                </div>
+                {discountType === 'percent' && (
+                    <div className={styles.formGroup}>
+                        <label className="label">{t('form.maxDiscount')}</label>
+                        <input
+                            type="number"
+                            className="input"
+                            value={maxDiscount}
+                            onChange={(e) => setMaxDiscount(e.target.value)}
+                            min="0"
+                            step="1000"
+                            disabled={disabled}
+                        />
+                        <span className={styles.hint}>{t('form.maxDiscountHint')}</span>
+                    </div>
+                )}
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.minOrderAmount')}</label>
+                    <input
+                        type="number"
+                        className="input"
+                        value={minOrderAmount}
+                        onChange={(e) => setMinOrderAmount(e.target.value)}
+                        min="0"
+                        step="1000"
+                        disabled={disabled}
+                    />
+                </div>
+            </div>
+
+            <div className={styles.formGroup}>
+                <label className="label">{t('form.scope')}</label>
+                <select
+                    className="input"
+                    value={scope}
+                    onChange={(e) => setScope(e.target.value as DiscountScope)}
+                    disabled={disabled}
+                >
+                    {DISCOUNT_SCOPES.map((option) => (
+                        <option key={option} value={option}>
+                            {t(`scopes.${option}`)}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {scope === 'products' && (
+                <div className={styles.choices}>
+                    {products.map((product) => (
+                        <label key={product.id} className={styles.checkbox}>
+                            <input
+                                type="checkbox"
+                                checked={productIds.includes(product.id)}
+                                onChange={() => setProductIds((prev) => toggle(prev, product.id))}
+                                disabled={disabled}
+                            />
+                            {product.name}
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            {scope === 'tube_types' && (
+                <div className={styles.choices}>
+                    {tubeTypes.map((type) => (
+                        <label key={type} className={styles.checkbox}>
+                            <input
+                                type="checkbox"
+                                checked={selectedTubeTypes.includes(type)}
+                                onChange={() => setSelectedTubeTypes((prev) => toggle(prev, type))}
+                                disabled={disabled}
+                            />
+                            {type}
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            <div className={styles.formGrid}>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.usageLimit')}</label>
+                    <input
+                        type="number"
+                        className="input"
+                        value={usageLimit}
+                        onChange={(e) => setUsageLimit(e.target.value)}
+                        min="1"
+                        step="1"
+                        disabled={disabled}
+                    />
+                    <span className={styles.hint}>{t('form.unlimitedHint')}</span>
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.perCustomerLimit')}</label>
+                    <input
+                        type="number"
+                        className="input"
+                        value={perCustomerLimit}
+                        onChange={(e) => setPerCustomerLimit(e.target.value)}
+                        min="1"
+                        step="1"
+                        disabled={disabled}
+                    />
+                    <span className={styles.hint}>{t('form.perCustomerLimitHint')}</span>
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.startsAt')}</label>
+                    <input
+                        type="datetime-local"
+                        className="input"
+                        value={startsAt}
+                        onChange={(e) => setStartsAt(e.target.value)}
+                        disabled={disabled}
+                    />
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.expiresAt')}</label>
+                    <input
+                        type="datetime-local"
+                        className="input"
+                        value={expiresAt}
+                        onChange={(e) => setExpiresAt(e.target.value)}
+                        disabled={disabled}
+                    />
+                </div>
+            </div>
+
+            <label className={styles.checkbox}>
+                <input
+                    type="checkbox"
+                    checked={isActive}
+                    onChange={(e) => setIsActive(e.target.checked)}
+                    disabled={disabled}
+                />
+                {t('form.isActive')}
+            </label>
+
+            {success && <div className={styles.success}>{success}</div>}
+            {error && <div className={styles.error}>{error}</div>}
+
+            {canManage && (
+                <div className={styles.formActions}>
+                    <button type="submit" className="btn btn-primary" disabled={isPending}>
+                        {isPending ? t('form.saving') : discountCode ? t('form.save') : t('form.create')}
+                    </button>
+                    {discountCode && (
+                        <button type="button" className="btn btn-ghost" onClick={handleDelete} disabled={isPending}>
+                            {t('form.delete')}
+                        </button>
+                    )}
+                </div>
+            )}
+        </form>
+    );
+}
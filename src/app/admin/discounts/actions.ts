@@ -0,0 +1,168 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/admin/auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+import {
+    adminCreateDiscountCode,
+    adminDeleteDiscountCode,
+    adminUpdateDiscountCode,
+    type DiscountCodePayload,
+} from '@/lib/repositories/admin/discounts';
+import {
+    DISCOUNT_SCOPES,
+    DISCOUNT_TYPES,
+    normalizeDiscountCode,
+    type DiscountCode,
+} from '@/lib/orders/discounts';
+
+function isPositive(value: number | undefined): boolean {
+    return value === undefined || (Number.isFinite(value) && value > 0);
+}
+
+function isPositiveInteger(value: number | undefined): boolean {
+    return value === undefined || (Number.isInteger(value) && value > 0);
+}
+
+/**
+ * Validate and normalize a code from the form
+ */
+function validateDiscountCode(payload: DiscountCodePayload): DiscountCodePayload {
+    const code = normalizeDiscountCode(payload.code);
+    if (!/^[A-Z0-9_-]{3,40}$/.test(code)) {
+        throw new Error('Codes are 3-40 characters: letters, digits, "-" or "_"');
+    }
+
+    if (!DISCOUNT_TYPES.includes(payload.discountType) || !DISCOUNT_SCOPES.includes(payload.scope)) {
+        throw new Error('Invalid discount type or scope');
+    }
+
+    if (!Number.isFinite(payload.value) || payload.value <= 0) {
+        throw new Error('Discount value must be above 0');
+    }
+    if (payload.discountType === 'percent' && payload.value > 100) {
+        throw new Error('A percentage discount can be at most 100%');
+    }
+    if (!isPositive(payload.maxDiscount)) {
+        throw new Error('Maximum discount must be above 0');
+    }
+    if (!Number.isFinite(payload.minOrderAmount) || payload.minOrderAmount < 0) {
+        throw new Error('Minimum order must be 0 or more');
+    }
+    if (!isPositiveInteger(payload.usageLimit) || !isPositiveInteger(payload.perCustomerLimit)) {
+        throw new Error('Usage limits must be whole numbers above 0');
+    }
+
+    const productIds = payload.scope === 'products' ? [...new Set(payload.productIds)] : [];
+    const tubeTypes = payload.scope === 'tube_types'
+        ? [...new Set(payload.tubeTypes.map((type) => type.trim()).filter(Boolean))]
+        : [];
+    if (payload.scope === 'products' && productIds.length === 0) {
+        throw new Error('Select at least one product');
+    }
+    if (payload.scope === 'tube_types' && tubeTypes.length === 0) {
+        throw new Error('Select at least one tube type');
+    }
+
+    const startsAt = payload.startsAt ? new Date(payload.startsAt) : null;
+    const expiresAt = payload.expiresAt ? new Date(payload.expiresAt) : null;
+    if ((startsAt && isNaN(startsAt.getTime())) || (expiresAt && isNaN(expiresAt.getTime()))) {
+        throw new Error('Invalid start or expiry date');
+    }
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+        throw new Error('The expiry date must be after the start date');
+    }
+
+    return {
+        code,
+        description: payload.description?.trim() || undefined,
+        discountType: payload.discountType,
+        value: payload.value,
+        maxDiscount: payload.discountType === 'percent' ? payload.maxDiscount : undefined,
+        minOrderAmount: payload.minOrderAmount,
+        scope: payload.scope,
+        productIds,
+        tubeTypes,
+        usageLimit: payload.usageLimit,
+        perCustomerLimit: payload.perCustomerLimit,
+        startsAt: startsAt?.toISOString(),
+        expiresAt: expiresAt?.toISOString(),
+        isActive: payload.isActive,
+    };
+}
+
+function discountAuditSnapshot(code: DiscountCodePayload | DiscountCode): Record<string, unknown> {
+    return {
+        code: code.code,
+        description: code.description ?? null,
+        discountType: code.discountType,
+        value: code.value,
+        maxDiscount: code.maxDiscount ?? null,
+        minOrderAmount: code.minOrderAmount,
+        scope: code.scope,
+        productIds: code.productIds,
+        tubeTypes: code.tubeTypes,
+        usageLimit: code.usageLimit ?? null,
+        perCustomerLimit: code.perCustomerLimit ?? null,
+        startsAt: code.startsAt ?? null,
+        expiresAt: code.expiresAt ?? null,
+        isActive: code.isActive,
+    };
+}
+
+/**
+ * Server action to create a discount code (id null) or update one
+ */
+export async function saveDiscountCodeAction(id: string | null, payload: DiscountCodePayload): Promise<void> {
+    const user = await requirePermission('discounts.manage');
+    const discountCode = validateDiscountCode(payload);
+
+    try {
+        if (id) {
+            const previous = await adminUpdateDiscountCode(id, discountCode);
+            await recordAdminAction(user, {
+                action: 'discount_code.update',
+                entityType: 'discount_code',
+                entityId: id,
+                entityLabel: discountCode.code,
+                before: discountAuditSnapshot(previous),
+                after: discountAuditSnapshot(discountCode),
+            });
+        } else {
+            const codeId = await adminCreateDiscountCode(discountCode, user.id);
+            await recordAdminAction(user, {
+                action: 'discount_code.create',
+                entityType: 'discount_code',
+                entityId: codeId,
+                entityLabel: discountCode.code,
+                after: discountAuditSnapshot(discountCode),
+            });
+        }
+        revalidatePath('/admin/discounts');
+    } catch (error) {
+        console.error('Error saving discount code:', error);
+        throw error instanceof Error ? error : new Error('Failed to save discount code');
+    }
+}
+
+/**
+ * Server action to delete a discount code
+ */
+export async function deleteDiscountCodeAction(id: string): Promise<void> {
+    const user = await requirePermission('discounts.manage');
+
+    try {
+        const previous = await adminDeleteDiscountCode(id);
+        await recordAdminAction(user, {
+            action: 'discount_code.delete',
+            entityType: 'discount_code',
+            entityId: id,
+            entityLabel: previous.code,
+            before: discountAuditSnapshot(previous),
+        });
+        revalidatePath('/admin/discounts');
+    } catch (error) {
+        console.error('Error deleting discount code:', error);
+        throw error instanceof Error ? error : new Error('Failed to delete discount code');
+    }
+}
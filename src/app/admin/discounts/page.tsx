@@ -0,0 +1,50 @@
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { adminGetDiscountScopeOptions, adminListDiscountCodes } from '@/lib/repositories/admin/discounts';
+import DiscountCodeForm from './DiscountCodeForm';
+import styles from './page.module.css';
+
+export default async function AdminDiscountsPage() {
+    const user = await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const canManage = hasPermission(user?.adminRole, 'discounts.manage');
+    const [discountCodes, { products, tubeTypes }] = await Promise.all([
+        adminListDiscountCodes(),
+        adminGetDiscountScopeOptions(),
+    ]);
+
+    return (
+        <div className={styles.discountsPage}>
+            <div className={styles.header}>
+                <h1>{t('discounts.title')}</h1>
+                <p className={styles.subtitle}>{t('discounts.subtitle')}</p>
+            </div>
+
+            {!canManage && (
+                <div className={styles.section}>
+                    <div className={styles.empty}>{t('discounts.readOnly')}</div>
+                </div>
+            )}
+
+            {discountCodes.length === 0 && (
+                <div className={styles.section}>
+                    <div className={styles.empty}>{t('discounts.empty')}</div>
+                </div>
+            )}
+
+            {discountCodes.map((discountCode) => (
+                <DiscountCodeForm
+                    key={discountCode.id}
+                    discountCode={discountCode}
+                    products={products}
+                    tubeTypes={tubeTypes}
+                    canManage={canManage}
+                />
+            ))}
+
+            {canManage && <DiscountCodeForm products={products} tubeTypes={tubeTypes} canManage />}
+        </div>
+    );
+}
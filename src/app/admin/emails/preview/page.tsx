@@ -0,0 +1,80 @@
+import Link from 'next/link';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { isValidLocale, locales, type Locale } from '@/config/locales';
+import { EMAIL_TYPES, renderEmail, type EmailType } from '@/lib/emails/templates';
+import { getEmailFixture } from '@/lib/emails/templates/fixtures';
+import styles from './page.module.css';
+
+interface EmailPreviewPageProps {
+    searchParams: Promise<{
+        type?: string;
+        locale?: string;
+    }>;
+}
+
+export default async function EmailPreviewPage({ searchParams }: EmailPreviewPageProps) {
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const params = await searchParams;
+    const type: EmailType = EMAIL_TYPES.find((value) => value === params.type) || 'order_confirmation';
+    const locale: Locale = params.locale && isValidLocale(params.locale) ? params.locale : 'vi';
+
+    const email = renderEmail(type, locale, getEmailFixture(type, locale));
+
+    return (
+        <div className={styles.previewPage}>
+            <div className={styles.header}>
+                <h1>{t('emails.title')}</h1>
+                <p className={styles.subtitle}>{t('emails.subtitle')}</p>
+            </div>
+
+            <div className={styles.filterTabs}>
+                {EMAIL_TYPES.map((value) => (
+                    <Link
+                        key={value}
+                        href={`/admin/emails/preview?type=${value}&locale=${locale}`}
+                        className={`btn btn-sm ${value === type ? 'btn-primary' : 'btn-ghost'}`}
+                    >
+                        {t(`orders.detail.emailDelivery.types.${value}`)}
+                    </Link>
+                ))}
+            </div>
+
+            <div className={styles.filterTabs}>
+                {locales.map((value) => (
+                    <Link
+                        key={value}
+                        href={`/admin/emails/preview?type=${type}&locale=${value}`}
+                        className={`btn btn-sm ${value === locale ? 'btn-primary' : 'btn-ghost'}`}
+                    >
+                        {t(`emails.locales.${value}`)}
+                    </Link>
+                ))}
+            </div>
+
+            <section className={styles.section}>
+                <span className={styles.label}>{t('emails.subject')}</span>
+                <p className={styles.subject}>{email.subject}</p>
+            </section>
+
+            <section className={styles.section}>
+                <span className={styles.label}>{t('emails.html')}</span>
+                <iframe
+                    title={email.subject}
+                    srcDoc={email.html}
+                    sandbox=""
+                    className={styles.frame}
+                />
+            </section>
+
+            <section className={styles.section}>
+                <span className={styles.label}>{t('emails.text')}</span>
+                <pre className={styles.text}>{email.text}</pre>
+            </section>
+
+            <p className={styles.note}>{t('emails.fixtureNote')}</p>
+        </div>
+    );
+}
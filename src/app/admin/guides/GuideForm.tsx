@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import type { AdminGuide, GuidePayload } from '@/lib/repositories/admin/guides';
+import { GUIDE_CATEGORIES, type GuideCategory } from '@/lib/types/guides';
+import styles from './GuideForm.module.css';
+
+interface GuideFormProps {
+    guide?: AdminGuide;
+}
+
+export default function GuideForm({ guide }: GuideFormProps) {
+    const t = useTranslations('admin');
+    const tGuide = useTranslations('guide');
+    const router = useRouter();
+    const isEdit = !!guide;
+
+    const [formData, setFormData] = useState({
+        slug: guide?.slug || '',
+        category: guide?.category || ('beginner' as GuideCategory),
+        icon: guide?.icon || '',
+        imageUrl: guide?.imageUrl || '',
+        sortOrder: guide?.sortOrder || 0,
+        isPublished: guide?.isPublished || false,
+        titleVi: guide?.translations.vi.title || '',
+        descriptionVi: guide?.translations.vi.description || '',
+        contentVi: guide?.translations.vi.content || '',
+        titleEn: guide?.translations.en?.title || '',
+        descriptionEn: guide?.translations.en?.description || '',
+        contentEn: guide?.translations.en?.content || '',
+    });
+
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setSuccess(false);
+        setLoading(true);
+
+        try {
+            const payload: GuidePayload = {
+                slug: formData.slug.toLowerCase().replace(/\s+/g, '-'),
+                category: formData.category,
+                icon: formData.icon || undefined,
+                imageUrl: formData.imageUrl || undefined,
+                sortOrder: formData.sortOrder,
+                isPublished: formData.isPublished,
+                translations: {
+                    vi: {
+                        title: formData.titleVi,
+                        description: formData.descriptionVi || undefined,
+                        content: formData.contentVi || undefined,
+                    },
+                    // Leaving the English title empty falls back to VI on the storefront
+                    en: formData.titleEn.trim()
+                        ? {
+                              title: formData.titleEn,
+                              description: formData.descriptionEn || undefined,
+                              content: formData.contentEn || undefined,
+                          }
+                        : undefined,
+                },
+            };
+
+            const response = await fetch(isEdit ? `/api/admin/guides/${guide.id}` : '/api/admin/guides', {
+                method: isEdit ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            });
+
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || t('guides.form.error'));
+            }
+
+            setSuccess(true);
+
+            if (!isEdit && result.id) {
+                router.push(`/admin/guides/${result.id}`);
+            } else {
+                router.refresh();
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('guides.form.error'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!guide || !confirm(t('guides.form.deleteConfirm'))) return;
+
+        setError(null);
+        setLoading(true);
+
+        try {
+            const response = await fetch(`/api/admin/guides/${guide.id}`, { method: 'DELETE' });
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || t('guides.form.error'));
+            }
+
+            router.push('/admin/guides');
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('guides.form.error'));
+            setLoading(false);
+        }
+    };
+
+    return (
+        <form className={styles.guideForm} onSubmit={handleSubmit}>
+            {error && <div className={styles.error}>{error}</div>}
+            {success && <div className={styles.success}>{t('guides.form.saved')}</div>}
+
+            <div className={styles.formSection}>
+                <h2>{t('guides.form.settings')}</h2>
+                <div className={styles.formGrid}>
+                    <div className={styles.formGroup}>
+                        <label className="label">{t('guides.fields.slug')} *</label>
+                        <input
+                            type="text"
+                            className="input"
+                            value={formData.slug}
+                            onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+                            required
+                            pattern="[a-z0-9-]+"
+                        />
+                    </div>
+                    <div className={styles.formGroup}>
+                        <label className="label">{t('guides.fields.category')} *</label>
+                        <select
+                            className="input"
+                            value={formData.category}
+                            onChange={(e) => setFormData({ ...formData, category: e.target.value as GuideCategory })}
+                        >
+                            {GUIDE_CATEGORIES.map((category) => (
+                                <option key={category} value={category}>
+                                    {tGuide(`categories.${category}`)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className={styles.formGroup}>
+                        <label className="label">{t('guides.fields.icon')}</label>
+                        <input
+                            type="text"
+                            className="input"
+                            value={formData.icon}
+                            onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+                            placeholder="📚"
+                        />
+                    </div>
+                    <div className={styles.formGroup}>
+                        <label className="label">{t('guides.fields.sortOrder')}</label>
+                        <input
+                            type="number"
+                            className="input"
+                            value={formData.sortOrder}
+                            onChange={(e) => setFormData({ ...formData, sortOrder: Number(e.target.value) })}
+                        />
+                    </div>
+                    <div className={`${styles.formGroup} ${styles.fullWidth}`}>
+                        <label className="label">{t('guides.fields.imageUrl')}</label>
+                        <input
+                            type="url"
+                            className="input"
+                            value={formData.imageUrl}
+                            onChange={(e) => setFormData({ ...formData, imageUrl: e.target.value })}
+                        />
+                    </div>
+                    <div className={`${styles.formGroup} ${styles.fullWidth}`}>
+                        <label className={styles.checkboxLabel}>
+                            <input
+                                type="checkbox"
+                                checked={formData.isPublished}
+                                onChange={(e) => setFormData({ ...formData, isPublished: e.target.checked })}
+                            />
+                            {t('guides.fields.isPublished')}
+                        </label>
+                    </div>
+                </div>
+            </div>
+
+            {(['Vi', 'En'] as const).map((suffix) => (
+                <div key={suffix} className={styles.formSection}>
+                    <h2>{t(`guides.form.content${suffix}`)}</h2>
+                    {suffix === 'En' && <p className={styles.hint}>{t('guides.form.englishHint')}</p>}
+                    <div className={styles.formGrid}>
+                        <div className={`${styles.formGroup} ${styles.fullWidth}`}>
+                            <label className="label">
+                                {t('guides.fields.title')}
+                                {suffix === 'Vi' && ' *'}
+                            </label>
+                            <input
+                                type="text"
+                                className="input"
+                                value={formData[`title${suffix}`]}
+                                onChange={(e) => setFormData({ ...formData, [`title${suffix}`]: e.target.value })}
+                                required={suffix === 'Vi'}
+                            />
+                        </div>
+                        <div className={`${styles.formGroup} ${styles.fullWidth}`}>
+                            <label className="label">{t('guides.fields.description')}</label>
+                            <textarea
+                                className="input"
+                                rows={2}
+                                value={formData[`description${suffix}`]}
+                                onChange={(e) => setFormData({ ...formData, [`description${suffix}`]: e.target.value })}
+                            />
+                        </div>
+                        <div className={`${styles.formGroup} ${styles.fullWidth}`}>
+                            <label className="label">{t('guides.fields.content')}</label>
+                            <textarea
+                                className={`input ${styles.contentInput}`}
+                                rows={16}
+                                value={formData[`content${suffix}`]}
+                                onChange={(e) => setFormData({ ...formData, [`content${suffix}`]: e.target.value })}
+                            />
+                            <span className={styles.hint}>{t('guides.form.markdownHint')}</span>
+                        </div>
+                    </div>
+                </div>
+            ))}
+
+            <div className={styles.formActions}>
+                {isEdit && (
+                    <button type="button" className="btn btn-ghost" onClick={handleDelete} disabled={loading}>
+                        {t('guides.delete')}
+                    </button>
+                )}
+                <button type="submit" className="btn btn-primary" disabled={loading}>
+                    {loading ? t('loading') : t('guides.save')}
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,59 @@
+import { getTranslations } from 'next-intl/server';
+import Link from 'next/link';
+import { adminListGuides } from '@/lib/repositories/admin/guides';
+import styles from './page.module.css';
+
+export default async function GuidesList() {
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+    const tGuide = await getTranslations({ locale: 'vi', namespace: 'guide' });
+
+    const guides = await adminListGuides();
+
+    return (
+        <div className={styles.tableContainer}>
+            <table className={styles.guidesTable}>
+                <thead>
+                    <tr>
+                        <th>{t('guides.list.title')}</th>
+                        <th>{t('guides.list.category')}</th>
+                        <th>{t('guides.list.status')}</th>
+                        <th>{t('guides.list.english')}</th>
+                        <th>{t('guides.list.updatedAt')}</th>
+                        <th>{t('guides.list.actions')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {guides.length === 0 ? (
+                        <tr>
+                            <td colSpan={6} className={styles.emptyCell}>
+                                {t('guides.list.empty')}
+                            </td>
+                        </tr>
+                    ) : (
+                        guides.map((guide) => (
+                            <tr key={guide.id}>
+                                <td>
+                                    <div>{guide.title}</div>
+                                    <div className={styles.slug}>/guides/{guide.slug}</div>
+                                </td>
+                                <td>{tGuide(`categories.${guide.category}`)}</td>
+                                <td>
+                                    <span className={`badge ${guide.status === 'published' ? 'badge-success' : 'badge-secondary'}`}>
+                                        {guide.status === 'published' ? t('guides.list.published') : t('guides.list.draft')}
+                                    </span>
+                                </td>
+                                <td>{guide.hasEnglish ? '✓' : t('guides.list.fallback')}</td>
+                                <td>{new Date(guide.updatedAt).toLocaleDateString('vi-VN')}</td>
+                                <td>
+                                    <Link href={`/admin/guides/${guide.id}`} className="btn btn-ghost btn-sm">
+                                        {t('guides.edit')}
+                                    </Link>
+                                </td>
+                            </tr>
+                        ))
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+}
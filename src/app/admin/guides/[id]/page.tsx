@@ -0,0 +1,28 @@
+import { notFound } from 'next/navigation';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { adminGetGuideById } from '@/lib/repositories/admin/guides';
+import GuideForm from '../GuideForm';
+
+interface EditGuidePageProps {
+    params: Promise<{ id: string }>;
+}
+
+export default async function EditGuidePage({ params }: EditGuidePageProps) {
+    const { id } = await params;
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const guide = await adminGetGuideById(id);
+
+    if (!guide) {
+        notFound();
+    }
+
+    return (
+        <div>
+            <h1>{t('guides.edit')}: {guide.translations.vi.title}</h1>
+            <GuideForm guide={guide} />
+        </div>
+    );
+}
@@ -0,0 +1,15 @@
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import GuideForm from '../GuideForm';
+
+export default async function NewGuidePage() {
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    return (
+        <div>
+            <h1>{t('guides.add')}</h1>
+            <GuideForm />
+        </div>
+    );
+}
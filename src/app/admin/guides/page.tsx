@@ -0,0 +1,26 @@
+import { Suspense } from 'react';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import Link from 'next/link';
+import GuidesList from './GuidesList';
+import styles from './page.module.css';
+
+export default async function AdminGuidesPage() {
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    return (
+        <div className={styles.guidesPage}>
+            <div className={styles.header}>
+                <h1>{t('guides.title')}</h1>
+                <Link href="/admin/guides/new" className="btn btn-primary">
+                    {t('guides.add')}
+                </Link>
+            </div>
+
+            <Suspense fallback={<div>{t('loading')}</div>}>
+                <GuidesList />
+            </Suspense>
+        </div>
+    );
+}
@@ -58,7 +58,7 @@ export default async function AdminLayout({
     return (
         <NextIntlClientProvider messages={messages}>
             <div className="admin-layout">
-                {user && <AdminNav />}
+                {user && <AdminNav role={user.adminRole} />}
                 <main className="admin-main">{children}</main>
             </div>
         </NextIntlClientProvider>
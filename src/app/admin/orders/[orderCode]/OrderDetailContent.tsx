@@ -3,25 +3,37 @@
 import { useState, useTransition } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
-import { adminUpdateOrderStatus, type AdminOrderDetail, type OrderStatus } from '@/lib/repositories/admin/orders';
+import type { AdminOrderDetail } from '@/lib/repositories/admin/orders';
+import { getPaidTotal, getRefundablePayments } from '@/lib/orders/refunds';
+import { getNextOrderStatuses, type OrderStatus } from '@/lib/orders/state-machine';
+import { CARRIER_NAMES, type CarrierCode } from '@/lib/shipping/types';
 import { 
     updateOrderStatusAction, 
+    syncShipmentAction,
     markDepositReceivedAction,
+    markBalanceReceivedAction,
     expireReservationAction,
-    cancelReservationAction 
+    cancelReservationAction,
+    resendEmailAction
 } from './actions';
 import styles from './page.module.css';
 
 interface OrderDetailContentProps {
     order: AdminOrderDetail;
+    canRefund: boolean;
+    carriers: CarrierCode[];
 }
 
-export default function OrderDetailContent({ order }: OrderDetailContentProps) {
+export default function OrderDetailContent({ order, canRefund, carriers }: OrderDetailContentProps) {
     const t = useTranslations('admin.orders.detail');
     const router = useRouter();
     const [isPending, startTransition] = useTransition();
     const [selectedStatus, setSelectedStatus] = useState<OrderStatus>(order.status);
     const [note, setNote] = useState('');
+    const [carrier, setCarrier] = useState<CarrierCode>(carriers[0]);
+    const [trackingNumber, setTrackingNumber] = useState('');
+    const [syncingShipmentId, setSyncingShipmentId] = useState<string | null>(null);
+    const [shipmentError, setShipmentError] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState(false);
     const [depositActionPending, setDepositActionPending] = useState(false);
@@ -31,6 +43,8 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
     const [refundRestock, setRefundRestock] = useState(false);
     const [refundNote, setRefundNote] = useState('');
     const [refundPending, setRefundPending] = useState(false);
+    const [resendingEmailId, setResendingEmailId] = useState<string | null>(null);
+    const [emailError, setEmailError] = useState<string | null>(null);
 
     const formatDate = (dateString: string) => {
         const date = new Date(dateString);
@@ -47,6 +61,21 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
         return new Intl.NumberFormat('vi-VN').format(amount);
     };
 
+    // Only the transitions the order state machine allows from the current status
+    const nextStatuses = getNextOrderStatuses({
+        status: order.status,
+        paymentStatus: order.paymentStatus,
+        orderType: order.orderType,
+    });
+
+    // Refunds go back to the Stripe payments (deposit and balance) they came from
+    const paidAmount = getPaidTotal(order.payments.filter((payment) => payment.provider === 'stripe'));
+    const refundedAmount = order.refunds
+        .filter((refund) => refund.status === 'succeeded')
+        .reduce((sum, refund) => sum + refund.amount, 0);
+    const remainingRefundable = getRefundablePayments(order.payments, order.refunds)
+        .reduce((sum, entry) => sum + entry.refundable, 0);
+
     const handleStatusUpdate = async (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
@@ -57,9 +86,19 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
             return;
         }
 
+        if (selectedStatus === 'shipped' && !trackingNumber.trim()) {
+            setError(t('statusUpdate.trackingRequired'));
+            return;
+        }
+
         startTransition(async () => {
             try {
-                await updateOrderStatusAction(order.orderNumber, selectedStatus, note || undefined);
+                await updateOrderStatusAction(
+                    order.orderNumber,
+                    selectedStatus,
+                    note || undefined,
+                    selectedStatus === 'shipped' ? { carrier, trackingNumber: trackingNumber.trim() } : undefined
+                );
                 setSuccess(true);
                 setTimeout(() => {
                     router.refresh();
@@ -70,6 +109,35 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
         });
     };
 
+    const handleResendEmail = async (emailId: string) => {
+        if (!confirm(t('emailDelivery.resendConfirm'))) return;
+
+        setEmailError(null);
+        setResendingEmailId(emailId);
+        try {
+            await resendEmailAction(order.orderNumber, emailId);
+            router.refresh();
+        } catch (err) {
+            setEmailError(err instanceof Error ? err.message : t('emailDelivery.resendError'));
+        } finally {
+            setResendingEmailId(null);
+        }
+    };
+
+    const handleSyncShipment = async (shipmentId: string) => {
+        setShipmentError(null);
+        setSyncingShipmentId(shipmentId);
+
+        try {
+            await syncShipmentAction(order.orderNumber, shipmentId);
+            router.refresh();
+        } catch (err) {
+            setShipmentError(err instanceof Error ? err.message : t('shipments.syncError'));
+        } finally {
+            setSyncingShipmentId(null);
+        }
+    };
+
     return (
         <div className={styles.orderDetail}>
             {/* Order Header Info */}
@@ -123,12 +191,95 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                 <p>
                     {order.shippingAddressLine}
                     <br />
+                    {order.shippingWard && `${order.shippingWard}, `}
                     {order.shippingDistrict && `${order.shippingDistrict}, `}
                     {order.shippingCity}
                     {order.shippingPostalCode && `, ${order.shippingPostalCode}`}
                 </p>
             </div>
 
+            {/* Shipments (carrier tracking) */}
+            {order.shipments.length > 0 && (
+                <div className={styles.section}>
+                    <h2>{t('shipments.title')}</h2>
+                    {shipmentError && <div className={styles.error}>{shipmentError}</div>}
+                    {order.shipments.map((shipment) => (
+                        <div key={shipment.id} className={styles.shipment}>
+                            <div className={styles.infoGrid}>
+                                <div>
+                                    <label>{t('shipments.carrier')}</label>
+                                    <span>{shipment.carrierName}</span>
+                                </div>
+                                <div>
+                                    <label>{t('shipments.trackingNumber')}</label>
+                                    {shipment.trackingUrl ? (
+                                        <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer">
+                                            {shipment.trackingNumber}
+                                        </a>
+                                    ) : (
+                                        <span>{shipment.trackingNumber}</span>
+                                    )}
+                                </div>
+                                <div>
+                                    <label>{t('shipments.status')}</label>
+                                    <span>{t(`shipments.statuses.${shipment.status}`)}</span>
+                                </div>
+                                <div>
+                                    <label>{t('shipments.lastSyncedAt')}</label>
+                                    <span>
+                                        {shipment.lastSyncedAt
+                                            ? formatDate(shipment.lastSyncedAt)
+                                            : t(shipment.pollable ? 'shipments.neverSynced' : 'shipments.webhookOnly')}
+                                    </span>
+                                </div>
+                            </div>
+                            {shipment.events.length > 0 ? (
+                                <div className={styles.historyTable}>
+                                    <table>
+                                        <thead>
+                                            <tr>
+                                                <th>{t('shipments.date')}</th>
+                                                <th>{t('shipments.status')}</th>
+                                                <th>{t('shipments.details')}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {shipment.events.map((event) => (
+                                                <tr key={event.id}>
+                                                    <td>{formatDate(event.occurredAt)}</td>
+                                                    <td>
+                                                        {t(`shipments.statuses.${event.status}`)}
+                                                        <div style={{ fontSize: '12px', fontFamily: 'monospace' }}>
+                                                            {event.carrierStatus}
+                                                        </div>
+                                                    </td>
+                                                    <td>
+                                                        {event.description || '-'}
+                                                        {event.location && <div>{event.location}</div>}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <p>{t('shipments.noEvents')}</p>
+                            )}
+                            {shipment.pollable && (
+                                <button
+                                    type="button"
+                                    className="btn btn-secondary"
+                                    onClick={() => handleSyncShipment(shipment.id)}
+                                    disabled={syncingShipmentId !== null}
+                                >
+                                    {syncingShipmentId === shipment.id ? t('shipments.syncing') : t('shipments.sync')}
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Order Items */}
             <div className={styles.section}>
                 <h2>{t('items.title')}</h2>
@@ -177,7 +328,13 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                     </div>
                     {order.shippingFee > 0 && (
                         <div className={styles.totalRow}>
-                            <span>{t('totals.shipping')}</span>
+                            <span>
+                                {t('totals.shipping')}
+                                {order.shippingWeightKg !== undefined && ` (${order.shippingWeightKg} kg)`}
+                                {order.shippingInsuranceFee > 0 && (
+                                    <> · {t('totals.shippingInsurance', { amount: formatCurrency(order.shippingInsuranceFee) })}</>
+                                )}
+                            </span>
                             <span>{formatCurrency(order.shippingFee)} ₫</span>
                         </div>
                     )}
@@ -189,7 +346,11 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                     )}
                     {order.discount > 0 && (
                         <div className={styles.totalRow}>
-                            <span>{t('totals.discount')}</span>
+                            <span>
+                                {order.discountCode
+                                    ? t('totals.discountWithCode', { code: order.discountCode })
+                                    : t('totals.discount')}
+                            </span>
                             <span>-{formatCurrency(order.discount)} ₫</span>
                         </div>
                     )}
@@ -252,6 +413,11 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                         <div style={{ marginTop: '24px', padding: '16px', background: '#f9f9f9', borderRadius: '8px', border: '1px solid #e5e5e5' }}>
                             <h3 style={{ margin: '0 0 16px 0', fontSize: '1.125rem' }}>
                                 {t('deposit.proofTitle', { defaultValue: 'Transfer Proof' })}
+                                {order.depositProofHistory.length > 1 && (
+                                    <span style={{ marginLeft: '8px', fontWeight: 'normal', fontSize: '0.875rem', color: '#666' }}>
+                                        {t('deposit.proofAttempt', { number: order.depositProof.attemptNumber })}
+                                    </span>
+                                )}
                             </h3>
                             
                             {/* Proof Images */}
@@ -302,6 +468,13 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                                 </div>
                             )}
                             
+                            {/* Deadline extended by the rejection */}
+                            {order.depositProof.depositDueExtendedTo && (
+                                <div style={{ marginBottom: '16px', fontSize: '0.875rem', color: '#666' }}>
+                                    {t('deposit.dueExtendedTo', { date: formatDate(order.depositProof.depositDueExtendedTo) })}
+                                </div>
+                            )}
+                            
                             {/* Approve/Reject Buttons (only for pending) */}
                             {order.depositProof.status === 'pending' && (
                                 <div style={{ display: 'flex', gap: '12px', marginTop: '16px' }}>
@@ -341,7 +514,12 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                                         className="btn btn-warning"
                                         disabled={depositActionPending}
                                         onClick={async () => {
-                                            const rejectionNote = prompt(t('deposit.rejectPrompt', { defaultValue: 'Enter rejection reason (optional):' }));
+                                            const rejectionNote = prompt(t('deposit.rejectPrompt', { defaultValue: 'Reason for rejecting (sent to the customer):' }));
+                                            if (rejectionNote === null) return;
+                                            if (!rejectionNote.trim()) {
+                                                setError(t('deposit.rejectReasonRequired', { defaultValue: 'A rejection reason is required' }));
+                                                return;
+                                            }
                                             setDepositActionPending(true);
                                             setError(null);
                                             try {
@@ -351,7 +529,7 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                                                     body: JSON.stringify({
                                                         action: 'reject',
                                                         proofId: order.depositProof?.id,
-                                                        note: rejectionNote || undefined,
+                                                        note: rejectionNote.trim(),
                                                     }),
                                                 });
                                                 const result = await response.json();
@@ -371,6 +549,53 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                                     </button>
                                 </div>
                             )}
+                            
+                            {/* Earlier attempts */}
+                            {order.depositProofHistory.length > 1 && (
+                                <div style={{ marginTop: '24px', borderTop: '1px solid #e5e5e5', paddingTop: '16px' }}>
+                                    <h4 style={{ margin: '0 0 12px 0', fontSize: '1rem' }}>
+                                        {t('deposit.proofHistory')}
+                                    </h4>
+                                    <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                                        {order.depositProofHistory.slice(1).map((proof) => (
+                                            <li key={proof.id} style={{ fontSize: '0.875rem', color: '#333' }}>
+                                                <div>
+                                                    <strong>{t('deposit.proofAttempt', { number: proof.attemptNumber })}</strong>
+                                                    {' · '}
+                                                    {proof.status === 'pending' && t('deposit.proofPending', { defaultValue: 'Pending Review' })}
+                                                    {proof.status === 'approved' && t('deposit.proofApproved', { defaultValue: 'Approved' })}
+                                                    {proof.status === 'rejected' && t('deposit.proofRejected', { defaultValue: 'Rejected' })}
+                                                    {' · '}
+                                                    {t('deposit.proofSubmittedAt', { defaultValue: 'Submitted' })}: {formatDate(proof.submittedAt)}
+                                                </div>
+                                                <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', margin: '4px 0' }}>
+                                                    {proof.imageUrls.map((url, index) => (
+                                                        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                                            {t('deposit.proofImage', { number: index + 1 })}
+                                                        </a>
+                                                    ))}
+                                                </div>
+                                                {proof.customerNote && (
+                                                    <div style={{ color: '#666' }}>
+                                                        {t('deposit.customerNote')}: {proof.customerNote}
+                                                    </div>
+                                                )}
+                                                {proof.reviewNote && (
+                                                    <div style={{ color: '#666' }}>
+                                                        {t('deposit.rejectionNote', { defaultValue: 'Rejection Note' })}: {proof.reviewNote}
+                                                        {proof.reviewedAt && ` (${formatDate(proof.reviewedAt)})`}
+                                                    </div>
+                                                )}
+                                                {proof.depositDueExtendedTo && (
+                                                    <div style={{ color: '#666' }}>
+                                                        {t('deposit.dueExtendedTo', { date: formatDate(proof.depositDueExtendedTo) })}
+                                                    </div>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
                         </div>
                     )}
                     
@@ -458,48 +683,124 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                             </button>
                         </div>
                     )}
+
+                    {/* Balance Actions (customer pays the rest by bank transfer) */}
+                    {order.paymentStatus === 'deposited' && (order.remainingAmount || 0) > 0 &&
+                     !['cancelled', 'expired', 'refunded'].includes(order.status) && (
+                        <div className={styles.depositActions} style={{ marginTop: '20px', display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+                            <button
+                                type="button"
+                                className="btn btn-success"
+                                disabled={depositActionPending}
+                                onClick={async () => {
+                                    if (!confirm(t('deposit.markBalanceConfirm'))) return;
+                                    setDepositActionPending(true);
+                                    setError(null);
+                                    setSuccess(false);
+                                    try {
+                                        await markBalanceReceivedAction(order.orderNumber, note || undefined);
+                                        setSuccess(true);
+                                        router.refresh();
+                                    } catch (err) {
+                                        setError(err instanceof Error ? err.message : t('deposit.markBalanceError'));
+                                    } finally {
+                                        setDepositActionPending(false);
+                                    }
+                                }}
+                            >
+                                {t('deposit.markBalanceReceived')}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Payments Ledger */}
+            {(order.payments.length > 0 || order.refunds.length > 0) && (
+                <div className={styles.section}>
+                    <h2>{t('payments.title')}</h2>
+                    <div className={styles.historyTable}>
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>{t('payments.date')}</th>
+                                    <th>{t('payments.type')}</th>
+                                    <th>{t('payments.amount')}</th>
+                                    <th>{t('payments.status')}</th>
+                                    <th>{t('payments.reference')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {order.payments.map((payment) => (
+                                    <tr key={payment.id}>
+                                        <td>{formatDate(payment.paidAt || payment.createdAt)}</td>
+                                        <td>
+                                            {t(`payments.kind.${payment.kind}`)}
+                                            {' · '}
+                                            {t(`payments.provider.${payment.provider}`)}
+                                        </td>
+                                        <td>{formatCurrency(payment.amount)} {payment.currency.toUpperCase()}</td>
+                                        <td>
+                                            {t(`payments.paymentStatus.${payment.status}`)}
+                                            {payment.failureReason && (
+                                                <div className={styles.error} style={{ marginTop: '8px', fontSize: '12px' }}>
+                                                    {payment.failureReason}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td style={{ fontSize: '12px', fontFamily: 'monospace' }}>
+                                            {payment.externalPaymentId || payment.externalSessionId || '-'}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {order.refunds.map((refund) => (
+                                    <tr key={refund.id}>
+                                        <td>{formatDate(refund.succeededAt || refund.createdAt)}</td>
+                                        <td>
+                                            {t('payments.kind.refund')}
+                                            {' · '}
+                                            {t(`payments.provider.${refund.provider}`)}
+                                        </td>
+                                        <td>-{formatCurrency(refund.amount)} {refund.currency.toUpperCase()}</td>
+                                        <td>{t(`payments.refundStatus.${refund.status}`)}</td>
+                                        <td style={{ fontSize: '12px', fontFamily: 'monospace' }}>
+                                            {refund.externalRefundId || '-'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
                 </div>
             )}
 
             {/* Refund Section */}
-            {(order.paymentStatus === 'paid' || order.paymentStatus === 'deposited' || order.paymentStatus === 'partially_refunded') && (
+            {canRefund && (order.paymentStatus === 'paid' || order.paymentStatus === 'deposited' || order.paymentStatus === 'partially_refunded') && (
                 <div className={styles.section}>
                     <h2>{t('refund.title')}</h2>
                     <div className={styles.infoGrid}>
                         <div>
                             <label>{t('refund.paidAmount')}</label>
-                            <strong>{formatCurrency(order.orderType === 'deposit_reservation' ? (order.depositAmountVnd || 0) : order.total)} ₫</strong>
+                            <strong>{formatCurrency(paidAmount)} ₫</strong>
                         </div>
-                        {order.adminNote && (() => {
-                            try {
-                                const metadata = JSON.parse(order.adminNote);
-                                const refunds = metadata.stripe_refunds;
-                                if (refunds) {
-                                    const refunded = refunds.total_refunded_amount || 0;
-                                    const paid = order.orderType === 'deposit_reservation' ? (order.depositAmountVnd || 0) : order.total;
-                                    const remaining = paid - refunded;
-                                    return (
-                                        <>
-                                            <div>
-                                                <label>{t('refund.refundedAmount')}</label>
-                                                <span>{formatCurrency(refunded)} ₫</span>
-                                            </div>
-                                            <div>
-                                                <label>{t('refund.remainingRefundable')}</label>
-                                                <strong className="text-accent">{formatCurrency(remaining)} ₫</strong>
-                                            </div>
-                                            {refunds.last_refund_id && (
-                                                <div>
-                                                    <label>{t('refund.lastRefundId')}</label>
-                                                    <span style={{ fontSize: '12px', fontFamily: 'monospace' }}>{refunds.last_refund_id}</span>
-                                                </div>
-                                            )}
-                                        </>
-                                    );
-                                }
-                            } catch {}
-                            return null;
-                        })()}
+                        {order.refunds.length > 0 && (
+                            <>
+                                <div>
+                                    <label>{t('refund.refundedAmount')}</label>
+                                    <span>{formatCurrency(refundedAmount)} ₫</span>
+                                </div>
+                                <div>
+                                    <label>{t('refund.remainingRefundable')}</label>
+                                    <strong className="text-accent">{formatCurrency(remainingRefundable)} ₫</strong>
+                                </div>
+                                {order.refunds[0].externalRefundId && (
+                                    <div>
+                                        <label>{t('refund.lastRefundId')}</label>
+                                        <span style={{ fontSize: '12px', fontFamily: 'monospace' }}>{order.refunds[0].externalRefundId}</span>
+                                    </div>
+                                )}
+                            </>
+                        )}
                     </div>
                     <button
                         type="button"
@@ -524,17 +825,7 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                             setSuccess(false);
                             setRefundPending(true);
                             try {
-                                const paid = order.orderType === 'deposit_reservation' ? (order.depositAmountVnd || 0) : order.total;
-                                const metadata = order.adminNote ? (() => {
-                                    try {
-                                        return JSON.parse(order.adminNote);
-                                    } catch {
-                                        return {};
-                                    }
-                                })() : {};
-                                const alreadyRefunded = metadata.stripe_refunds?.total_refunded_amount || 0;
-                                const remaining = paid - alreadyRefunded;
-                                const amount = refundAmount ? parseInt(refundAmount) : remaining;
+                                const amount = refundAmount ? parseInt(refundAmount) : remainingRefundable;
                                 
                                 const response = await fetch(`/api/admin/orders/${order.orderNumber}/refund`, {
                                     method: 'POST',
@@ -651,15 +942,39 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                             className="input"
                             disabled={isPending}
                         >
-                            <option value="pending">{t('status.pending')}</option>
-                            <option value="confirmed">{t('status.confirmed')}</option>
-                            <option value="deposited">{t('status.deposited')}</option>
-                            <option value="processing">{t('status.processing')}</option>
-                            <option value="shipped">{t('status.shipped')}</option>
-                            <option value="delivered">{t('status.delivered')}</option>
-                            <option value="cancelled">{t('status.cancelled')}</option>
+                            {[order.status, ...nextStatuses].map((status) => (
+                                <option key={status} value={status}>{t(`status.${status}`)}</option>
+                            ))}
                         </select>
                     </div>
+                    {selectedStatus === 'shipped' && (
+                        <>
+                            <div className={styles.formGroup}>
+                                <label>{t('statusUpdate.carrier')}</label>
+                                <select
+                                    value={carrier}
+                                    onChange={(e) => setCarrier(e.target.value as CarrierCode)}
+                                    className="input"
+                                    disabled={isPending}
+                                >
+                                    {carriers.map((code) => (
+                                        <option key={code} value={code}>{CARRIER_NAMES[code]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className={styles.formGroup}>
+                                <label>{t('statusUpdate.trackingNumber')}</label>
+                                <input
+                                    type="text"
+                                    value={trackingNumber}
+                                    onChange={(e) => setTrackingNumber(e.target.value)}
+                                    className="input"
+                                    disabled={isPending}
+                                    required
+                                />
+                            </div>
+                        </>
+                    )}
                     <div className={styles.formGroup}>
                         <label>{t('statusUpdate.note')} ({t('statusUpdate.noteOptional')})</label>
                         <textarea
@@ -679,47 +994,115 @@ export default function OrderDetailContent({ order }: OrderDetailContentProps) {
                 </form>
             </div>
 
-            {/* Email Status */}
+            {/* Email Timeline (one row per triggering event) */}
             {order.emailStatuses.length > 0 && (
                 <div className={styles.section}>
                     <h2>{t('emailStatus.title')}</h2>
-                    <div className={styles.infoGrid}>
-                        {order.emailStatuses
-                            .filter((email) => email.type === 'order_confirmation')
-                            .map((email, index) => (
-                                <div key={`confirmation-${index}`}>
-                                    <label>{t('emailStatus.confirmation')}</label>
-                                    <span className={`${styles.statusBadge} ${styles[`email-${email.status}`]}`}>
-                                        {t(`emailStatus.status.${email.status}`)}
-                                    </span>
-                                    {email.errorMessage && (
-                                        <div className={styles.error} style={{ marginTop: '8px', fontSize: '12px' }}>
-                                            {email.errorMessage}
-                                        </div>
-                                    )}
-                                </div>
-                            ))}
-                        {order.emailStatuses
-                            .filter((email) => email.type === 'status_update')
-                            .slice(0, 1)
-                            .map((email, index) => (
-                                <div key={`status-update-${index}`}>
-                                    <label>{t('emailStatus.lastStatusUpdate')}</label>
-                                    <span className={`${styles.statusBadge} ${styles[`email-${email.status}`]}`}>
-                                        {t(`emailStatus.status.${email.status}`)}
-                                    </span>
-                                    {email.metadataStatus && (
-                                        <span style={{ marginLeft: '8px', fontSize: '12px', color: '#666' }}>
-                                            ({t(`status.${email.metadataStatus}`)})
-                                        </span>
-                                    )}
-                                    {email.errorMessage && (
-                                        <div className={styles.error} style={{ marginTop: '8px', fontSize: '12px' }}>
-                                            {email.errorMessage}
-                                        </div>
-                                    )}
-                                </div>
-                            ))}
+                    <div className={styles.historyTable}>
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>{t('emailStatus.date')}</th>
+                                    <th>{t('emailStatus.type')}</th>
+                                    <th>{t('emailStatus.event')}</th>
+                                    <th>{t('emailStatus.recipient')}</th>
+                                    <th>{t('emailStatus.state')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {order.emailStatuses.map((email) => (
+                                    <tr key={email.id}>
+                                        <td>{formatDate(email.createdAt)}</td>
+                                        <td>{t(`emailDelivery.types.${email.type}`, { defaultValue: email.type })}</td>
+                                        <td>
+                                            {email.metadataStatus
+                                                ? t(`status.${email.metadataStatus}`, { defaultValue: email.metadataStatus })
+                                                : email.idempotencyKey.split(':').slice(1).join(':') || '-'}
+                                        </td>
+                                        <td>{email.toEmail || '-'}</td>
+                                        <td>
+                                            <span className={`${styles.statusBadge} ${styles[`email-${email.status}`]}`}>
+                                                {t(`emailStatus.status.${email.status}`)}
+                                            </span>
+                                            {email.updatedAt !== email.createdAt && (
+                                                <span className={styles.deliveryDetail}>{formatDate(email.updatedAt)}</span>
+                                            )}
+                                            {email.errorMessage && (
+                                                <span className={styles.deliveryError}>{email.errorMessage}</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {/* Email Delivery (outbox) */}
+            {order.emailDeliveries.length > 0 && (
+                <div className={styles.section}>
+                    <h2>{t('emailDelivery.title')}</h2>
+                    {emailError && <div className={styles.error}>{emailError}</div>}
+                    <div className={styles.historyTable}>
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>{t('emailDelivery.date')}</th>
+                                    <th>{t('emailDelivery.type')}</th>
+                                    <th>{t('emailDelivery.recipient')}</th>
+                                    <th>{t('emailDelivery.status')}</th>
+                                    <th>{t('emailDelivery.attempts')}</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {order.emailDeliveries.map((email) => (
+                                    <tr key={email.id}>
+                                        <td>{formatDate(email.createdAt)}</td>
+                                        <td>
+                                            {t(`emailDelivery.types.${email.type}`, { defaultValue: email.type })}
+                                            <span className={styles.deliveryDetail}>{email.subject}</span>
+                                        </td>
+                                        <td>{email.toEmail}</td>
+                                        <td>
+                                            <span className={`${styles.statusBadge} ${styles[`delivery-${email.status}`]}`}>
+                                                {t(`emailDelivery.statuses.${email.status}`)}
+                                            </span>
+                                            {email.status === 'sent' && email.sentAt && (
+                                                <span className={styles.deliveryDetail}>
+                                                    {formatDate(email.sentAt)}
+                                                    {email.provider && ` · ${email.provider}`}
+                                                </span>
+                                            )}
+                                            {email.status === 'failed' && (
+                                                <span className={styles.deliveryDetail}>
+                                                    {t('emailDelivery.nextAttempt', { date: formatDate(email.nextAttemptAt) })}
+                                                </span>
+                                            )}
+                                            {email.lastError && email.status !== 'sent' && (
+                                                <span className={styles.deliveryError}>{email.lastError}</span>
+                                            )}
+                                        </td>
+                                        <td>
+                                            {email.attempts}/{email.maxAttempts}
+                                        </td>
+                                        <td>
+                                            <button
+                                                type="button"
+                                                className="btn btn-secondary"
+                                                onClick={() => handleResendEmail(email.id)}
+                                                disabled={resendingEmailId !== null || email.status === 'sending'}
+                                            >
+                                                {resendingEmailId === email.id
+                                                    ? t('emailDelivery.resending')
+                                                    : t('emailDelivery.resend')}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
                     </div>
                 </div>
             )}
@@ -1,14 +1,45 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { requireAdmin } from '@/lib/admin/auth';
+import { requirePermission, type AdminUser } from '@/lib/admin/auth';
+import { orderAuditSnapshot, recordAdminAction } from '@/lib/admin/audit';
+import { resendOutboxMessage } from '@/lib/emails/outbox';
+import type { AuditAction } from '@/lib/repositories/admin/audit';
 import { 
+    adminGetOrderByCode,
     adminUpdateOrderStatus, 
     adminMarkDepositReceived,
+    adminMarkBalanceReceived,
     adminExpireReservation,
     adminCancelReservation,
+    type AdminOrderDetail,
     type OrderStatus 
 } from '@/lib/repositories/admin/orders';
+import { syncShipment } from '@/lib/repositories/orders/shipments';
+import type { CarrierCode } from '@/lib/shipping/types';
+
+/**
+ * Record an order action in the audit log (re-reads the order for the after snapshot)
+ */
+async function auditOrderAction(
+    user: AdminUser,
+    action: AuditAction,
+    orderCode: string,
+    before: AdminOrderDetail | null,
+    metadata?: Record<string, unknown>
+): Promise<void> {
+    const after = await adminGetOrderByCode(orderCode);
+
+    await recordAdminAction(user, {
+        action,
+        entityType: 'order',
+        entityId: after?.id || before?.id || orderCode,
+        entityLabel: orderCode,
+        before: orderAuditSnapshot(before),
+        after: orderAuditSnapshot(after),
+        metadata,
+    });
+}
 
 /**
  * Server action to update order status
@@ -16,22 +47,52 @@ import {
 export async function updateOrderStatusAction(
     orderCode: string,
     newStatus: OrderStatus,
-    note?: string
+    note?: string,
+    shipment?: { carrier: CarrierCode; trackingNumber: string }
 ): Promise<void> {
     // Ensure user is admin
-    const user = await requireAdmin();
-    if (!user) {
-        throw new Error('Unauthorized');
-    }
+    const user = await requirePermission('orders.manage');
 
     try {
-        await adminUpdateOrderStatus(orderCode, newStatus, note, user.id);
+        const before = await adminGetOrderByCode(orderCode);
+        await adminUpdateOrderStatus(orderCode, newStatus, note, user.id, shipment);
+        await auditOrderAction(user, 'order.status_update', orderCode, before, {
+            note,
+            carrier: shipment?.carrier,
+            trackingNumber: shipment?.trackingNumber,
+        });
     } catch (error) {
         console.error('Error updating order status:', error);
         throw error instanceof Error ? error : new Error('Failed to update order status');
     }
 }
 
+/**
+ * Server action to poll the carrier for a shipment's latest events
+ */
+export async function syncShipmentAction(orderCode: string, shipmentId: string): Promise<number> {
+    const user = await requirePermission('orders.manage');
+
+    try {
+        const before = await adminGetOrderByCode(orderCode);
+        if (!before) {
+            throw new Error('Order not found');
+        }
+
+        // New carrier events can move the order to delivered
+        const recorded = await syncShipment(shipmentId, before.id);
+        await auditOrderAction(user, 'order.shipment_synced', orderCode, before, {
+            shipmentId,
+            eventsRecorded: recorded,
+        });
+        revalidatePath(`/admin/orders/${orderCode}`);
+        return recorded;
+    } catch (error) {
+        console.error('Error syncing shipment:', error);
+        throw error instanceof Error ? error : new Error('Failed to refresh shipment');
+    }
+}
+
 /**
  * Server action to mark deposit as received
  */
@@ -39,13 +100,12 @@ export async function markDepositReceivedAction(
     orderCode: string,
     note?: string
 ): Promise<void> {
-    const user = await requireAdmin();
-    if (!user) {
-        throw new Error('Unauthorized');
-    }
+    const user = await requirePermission('orders.manage');
 
     try {
+        const before = await adminGetOrderByCode(orderCode);
         await adminMarkDepositReceived(orderCode, note, user.id);
+        await auditOrderAction(user, 'order.deposit_received', orderCode, before, { note });
         // Revalidate the order detail page and orders list
         revalidatePath(`/admin/orders/${orderCode}`);
         revalidatePath('/admin/orders');
@@ -55,6 +115,27 @@ export async function markDepositReceivedAction(
     }
 }
 
+/**
+ * Server action to mark the remaining balance of a deposit reservation as received
+ */
+export async function markBalanceReceivedAction(
+    orderCode: string,
+    note?: string
+): Promise<void> {
+    const user = await requirePermission('orders.manage');
+
+    try {
+        const before = await adminGetOrderByCode(orderCode);
+        await adminMarkBalanceReceived(orderCode, note, user.id);
+        await auditOrderAction(user, 'order.balance_received', orderCode, before, { note });
+        revalidatePath(`/admin/orders/${orderCode}`);
+        revalidatePath('/admin/orders');
+    } catch (error) {
+        console.error('Error marking balance received:', error);
+        throw error instanceof Error ? error : new Error('Failed to mark balance as received');
+    }
+}
+
 /**
  * Server action to expire reservation
  */
@@ -62,13 +143,12 @@ export async function expireReservationAction(
     orderCode: string,
     note?: string
 ): Promise<void> {
-    const user = await requireAdmin();
-    if (!user) {
-        throw new Error('Unauthorized');
-    }
+    const user = await requirePermission('orders.manage');
 
     try {
+        const before = await adminGetOrderByCode(orderCode);
         await adminExpireReservation(orderCode, note, user.id);
+        await auditOrderAction(user, 'order.reservation_expired', orderCode, before, { note });
     } catch (error) {
         console.error('Error expiring reservation:', error);
         throw error instanceof Error ? error : new Error('Failed to expire reservation');
@@ -82,16 +162,45 @@ export async function cancelReservationAction(
     orderCode: string,
     note?: string
 ): Promise<void> {
-    const user = await requireAdmin();
-    if (!user) {
-        throw new Error('Unauthorized');
-    }
+    const user = await requirePermission('orders.manage');
 
     try {
+        const before = await adminGetOrderByCode(orderCode);
         await adminCancelReservation(orderCode, note, user.id);
+        await auditOrderAction(user, 'order.reservation_cancelled', orderCode, before, { note });
     } catch (error) {
         console.error('Error cancelling reservation:', error);
         throw error instanceof Error ? error : new Error('Failed to cancel reservation');
     }
 }
 
+/**
+ * Server action to resend an email from the outbox (delivered immediately)
+ */
+export async function resendEmailAction(
+    orderCode: string,
+    emailId: string
+): Promise<void> {
+    const user = await requirePermission('orders.manage');
+
+    try {
+        const order = await adminGetOrderByCode(orderCode);
+        if (!order) {
+            throw new Error('Order not found');
+        }
+
+        await resendOutboxMessage(emailId, order.id);
+
+        await recordAdminAction(user, {
+            action: 'order.email_resent',
+            entityType: 'order',
+            entityId: order.id,
+            entityLabel: orderCode,
+            metadata: { emailId },
+        });
+        revalidatePath(`/admin/orders/${orderCode}`);
+    } catch (error) {
+        console.error('Error resending email:', error);
+        throw error instanceof Error ? error : new Error('Failed to resend email');
+    }
+}
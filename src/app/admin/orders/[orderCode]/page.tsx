@@ -1,7 +1,9 @@
 import { notFound } from 'next/navigation';
 import { getTranslations } from 'next-intl/server';
 import { requireAdmin } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
 import { adminGetOrderByCode } from '@/lib/repositories/admin/orders';
+import { getAvailableCarriers } from '@/lib/shipping/carriers';
 import OrderDetailContent from './OrderDetailContent';
 import styles from './page.module.css';
 
@@ -10,7 +12,7 @@ interface AdminOrderDetailPageProps {
 }
 
 export default async function AdminOrderDetailPage({ params }: AdminOrderDetailPageProps) {
-    await requireAdmin();
+    const user = await requireAdmin();
     const { orderCode } = await params;
     const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
 
@@ -28,7 +30,11 @@ export default async function AdminOrderDetailPage({ params }: AdminOrderDetailP
                 </h1>
             </div>
 
-            <OrderDetailContent order={order} />
+            <OrderDetailContent
+                order={order}
+                canRefund={hasPermission(user?.adminRole, 'orders.refund')}
+                carriers={getAvailableCarriers()}
+            />
         </div>
     );
 }
@@ -9,9 +9,11 @@ import styles from './ProductForm.module.css';
 
 interface ProductFormProps {
     product?: ProductDetailDTO;
+    canEditPrice?: boolean;
+    canDelete?: boolean;
 }
 
-export default function ProductForm({ product }: ProductFormProps) {
+export default function ProductForm({ product, canEditPrice = true, canDelete = false }: ProductFormProps) {
     const t = useTranslations('admin');
     const router = useRouter();
     const isEdit = !!product;
@@ -102,8 +104,9 @@ export default function ProductForm({ product }: ProductFormProps) {
         try {
             const payload = {
                 slug: formData.slug.toLowerCase().replace(/\s+/g, '-'),
-                price: formData.price,
-                compareAtPrice: formData.compareAtPrice || undefined,
+                // Without products.price, prices are left as they are (new products start unpriced)
+                price: canEditPrice ? formData.price : undefined,
+                compareAtPrice: canEditPrice ? formData.compareAtPrice || undefined : undefined,
                 stockQuantity: formData.stockQuantity,
                 condition: formData.condition,
                 topology: formData.topology,
@@ -196,6 +199,30 @@ export default function ProductForm({ product }: ProductFormProps) {
         }
     };
 
+    const handleDelete = async () => {
+        if (!product || !confirm(t('products.form.deleteConfirm'))) {
+            return;
+        }
+
+        setError(null);
+        setLoading(true);
+
+        try {
+            const response = await fetch(`/api/admin/products/${product.id}`, { method: 'DELETE' });
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to delete product');
+            }
+
+            router.push('/admin/products');
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete product');
+            setLoading(false);
+        }
+    };
+
     return (
         <form className={styles.productForm} onSubmit={(e) => handleSubmit(e, false)}>
             {error && <div className={styles.error}>{error}</div>}
@@ -243,7 +270,11 @@ export default function ProductForm({ product }: ProductFormProps) {
                             onChange={(e) => setFormData({ ...formData, price: Number(e.target.value) })}
                             required
                             min="0"
+                            disabled={!canEditPrice}
                         />
+                        {!canEditPrice && (
+                            <p className={styles.fieldHint}>{t('products.form.priceLocked')}</p>
+                        )}
                     </div>
                     <div className={styles.formGroup}>
                         <label className="label">{t('products.fields.compareAtPrice')} (VND)</label>
@@ -253,6 +284,7 @@ export default function ProductForm({ product }: ProductFormProps) {
                             value={formData.compareAtPrice}
                             onChange={(e) => setFormData({ ...formData, compareAtPrice: Number(e.target.value) })}
                             min="0"
+                            disabled={!canEditPrice}
                         />
                     </div>
                     <div className={styles.formGroup}>
@@ -537,6 +569,16 @@ export default function ProductForm({ product }: ProductFormProps) {
             </div>
 
             <div className={styles.formActions}>
+                {isEdit && canDelete && (
+                    <button
+                        type="button"
+                        onClick={handleDelete}
+                        className={`btn btn-ghost ${styles.deleteButton}`}
+                        disabled={loading}
+                    >
+                        {t('products.delete')}
+                    </button>
+                )}
                 <button
                     type="button"
                     onClick={(e) => handleSubmit(e, false)}
@@ -549,7 +591,7 @@ export default function ProductForm({ product }: ProductFormProps) {
                     type="button"
                     onClick={(e) => handleSubmit(e, true)}
                     className="btn btn-primary"
-                    disabled={loading}
+                    disabled={loading || formData.price <= 0}
                 >
                     {loading ? t('products.list.saving') : t('products.publish')}
                 </button>
@@ -1,6 +1,7 @@
 import { notFound } from 'next/navigation';
 import { getTranslations } from 'next-intl/server';
 import { requireAdmin } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
 import { adminGetProductById } from '@/lib/repositories/admin/products';
 import ProductForm from '../ProductForm';
 
@@ -10,7 +11,7 @@ interface EditProductPageProps {
 
 export default async function EditProductPage({ params }: EditProductPageProps) {
     const { id } = await params;
-    await requireAdmin();
+    const user = await requireAdmin();
     const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
 
     const product = await adminGetProductById(id);
@@ -22,7 +23,11 @@ export default async function EditProductPage({ params }: EditProductPageProps)
     return (
         <div>
             <h1>{t('products.edit')}: {product.name}</h1>
-            <ProductForm product={product} />
+            <ProductForm
+                product={product}
+                canEditPrice={hasPermission(user?.adminRole, 'products.price')}
+                canDelete={hasPermission(user?.adminRole, 'products.delete')}
+            />
         </div>
     );
 }
@@ -1,15 +1,16 @@
 import { getTranslations } from 'next-intl/server';
 import { requireAdmin } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
 import ProductForm from '../ProductForm';
 
 export default async function NewProductPage() {
-    await requireAdmin();
+    const user = await requireAdmin();
     const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
 
     return (
         <div>
             <h1>{t('products.add')}</h1>
-            <ProductForm />
+            <ProductForm canEditPrice={hasPermission(user?.adminRole, 'products.price')} />
         </div>
     );
 }
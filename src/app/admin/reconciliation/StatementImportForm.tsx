@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { BANK_BINS, getBankNameFromBin } from '@/lib/vietqr/generator';
+import type { BankStatementImportResult } from '@/lib/types/reconciliation';
+import styles from './page.module.css';
+
+export default function StatementImportForm() {
+    const t = useTranslations('admin.reconciliation.import');
+    const router = useRouter();
+    const [bankCode, setBankCode] = useState('vietcombank');
+    const [file, setFile] = useState<File | null>(null);
+    const [autoApply, setAutoApply] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<BankStatementImportResult | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!file) {
+            setError(t('noFile'));
+            return;
+        }
+
+        setIsUploading(true);
+        setError(null);
+        setResult(null);
+
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+            formData.append('bankCode', bankCode);
+            formData.append('autoApply', String(autoApply));
+
+            const response = await fetch('/api/admin/reconciliation/import', {
+                method: 'POST',
+                body: formData,
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.details || data.error || t('error'));
+            }
+
+            setResult(data);
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('error'));
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    return (
+        <div className={styles.section}>
+            <h2>{t('title')}</h2>
+            <p className={styles.hint}>{t('hint')}</p>
+
+            <form onSubmit={handleSubmit} className={styles.importForm}>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('bank')}</label>
+                    <select
+                        className="input"
+                        value={bankCode}
+                        onChange={(e) => setBankCode(e.target.value)}
+                    >
+                        {Object.entries(BANK_BINS).map(([code, bin]) => (
+                            <option key={code} value={code}>
+                                {getBankNameFromBin(bin)}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className={styles.formGroup}>
+                    <label className="label">{t('file')}</label>
+                    <input
+                        type="file"
+                        className="input"
+                        accept=".csv,.xlsx,.txt"
+                        onChange={(e) => setFile(e.target.files?.[0] || null)}
+                    />
+                </div>
+
+                <label className={styles.checkbox}>
+                    <input
+                        type="checkbox"
+                        checked={autoApply}
+                        onChange={(e) => setAutoApply(e.target.checked)}
+                    />
+                    {t('autoApply')}
+                </label>
+
+                <button type="submit" className="btn btn-primary" disabled={isUploading}>
+                    {isUploading ? t('uploading') : t('submit')}
+                </button>
+            </form>
+
+            {error && <div className={styles.error}>{error}</div>}
+
+            {result && (
+                <div className={styles.summary}>
+                    <strong>{t('summary.title')}</strong>
+                    <ul>
+                        <li>{t('summary.imported', { count: result.transactionCount })}</li>
+                        <li>{t('summary.applied', { count: result.appliedCount })}</li>
+                        <li>{t('summary.suggested', { count: result.suggestedCount })}</li>
+                        <li>{t('summary.flagged', { count: result.flaggedCount })}</li>
+                        <li>{t('summary.unmatched', { count: result.unmatchedCount })}</li>
+                        <li>{t('summary.duplicates', { count: result.duplicateCount })}</li>
+                        <li>{t('summary.skipped', { count: result.skippedRows })}</li>
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import type { BankTransactionDTO } from '@/lib/types/reconciliation';
+import {
+    applyBankTransactionAction,
+    assignBankTransactionAction,
+    ignoreBankTransactionAction,
+} from './actions';
+import styles from './page.module.css';
+
+interface TransactionActionsProps {
+    transaction: BankTransactionDTO;
+}
+
+export default function TransactionActions({ transaction }: TransactionActionsProps) {
+    const t = useTranslations('admin.reconciliation.actions');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [orderCode, setOrderCode] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    if (transaction.matchStatus === 'applied' || transaction.matchStatus === 'ignored') {
+        return null;
+    }
+
+    const run = (action: () => Promise<void>) => {
+        setError(null);
+        startTransition(async () => {
+            try {
+                await action();
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('error'));
+            }
+        });
+    };
+
+    const handleApply = () => {
+        run(() => applyBankTransactionAction(transaction.id));
+    };
+
+    const handleAcceptMismatch = () => {
+        const note = prompt(t('acceptMismatchPrompt'));
+        if (!note?.trim()) return;
+        run(() => applyBankTransactionAction(transaction.id, note.trim(), true));
+    };
+
+    const handleAssign = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!orderCode.trim()) return;
+        run(() => assignBankTransactionAction(transaction.id, orderCode));
+    };
+
+    const handleIgnore = () => {
+        const note = prompt(t('ignorePrompt'));
+        if (!note?.trim()) return;
+        run(() => ignoreBankTransactionAction(transaction.id, note.trim()));
+    };
+
+    const canAcceptMismatch = transaction.matchStatus === 'flagged'
+        && (transaction.flagReason === 'partial_payment' || transaction.flagReason === 'overpayment');
+
+    return (
+        <div className={styles.actions}>
+            {transaction.matchStatus === 'suggested' && (
+                <button className="btn btn-sm btn-success" onClick={handleApply} disabled={isPending}>
+                    {transaction.paymentKind === 'deposit' ? t('applyDeposit') : t('applyPayment')}
+                </button>
+            )}
+
+            {canAcceptMismatch && (
+                <button className="btn btn-sm btn-warning" onClick={handleAcceptMismatch} disabled={isPending}>
+                    {t('acceptMismatch')}
+                </button>
+            )}
+
+            {transaction.matchStatus !== 'suggested' && (
+                <form onSubmit={handleAssign} className={styles.assignForm}>
+                    <input
+                        type="text"
+                        className="input"
+                        placeholder={t('assignPlaceholder')}
+                        value={orderCode}
+                        onChange={(e) => setOrderCode(e.target.value)}
+                        disabled={isPending}
+                    />
+                    <button type="submit" className="btn btn-sm btn-secondary" disabled={isPending}>
+                        {t('assign')}
+                    </button>
+                </form>
+            )}
+
+            <button className="btn btn-sm btn-ghost" onClick={handleIgnore} disabled={isPending}>
+                {t('ignore')}
+            </button>
+
+            {error && <div className={styles.error}>{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,133 @@
+import { getTranslations } from 'next-intl/server';
+import Link from 'next/link';
+import { BANK_BINS, getBankNameFromBin } from '@/lib/vietqr/generator';
+import { listBankTransactions, type BankTransactionQueueFilter } from '@/lib/repositories/admin/reconciliation';
+import TransactionActions from './TransactionActions';
+import styles from './page.module.css';
+
+const FILTERS: BankTransactionQueueFilter[] = ['queue', 'unmatched', 'suggested', 'flagged', 'applied', 'ignored', 'all'];
+
+interface TransactionsListProps {
+    filter?: string;
+}
+
+export default async function TransactionsList({ filter }: TransactionsListProps) {
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const activeFilter = FILTERS.includes(filter as BankTransactionQueueFilter)
+        ? (filter as BankTransactionQueueFilter)
+        : 'queue';
+
+    const transactions = await listBankTransactions(activeFilter);
+
+    const formatDate = (dateString: string) => {
+        const date = new Date(dateString);
+        return date.toLocaleString('vi-VN', {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    const formatCurrency = (amount: number) => {
+        return new Intl.NumberFormat('vi-VN').format(amount);
+    };
+
+    return (
+        <div className={styles.section}>
+            <div className={styles.filterTabs}>
+                {FILTERS.map((value) => (
+                    <Link
+                        key={value}
+                        href={value === 'queue' ? '/admin/reconciliation' : `/admin/reconciliation?filter=${value}`}
+                        className={`btn btn-sm ${value === activeFilter ? 'btn-primary' : 'btn-ghost'}`}
+                    >
+                        {t(`reconciliation.filters.${value}`)}
+                    </Link>
+                ))}
+            </div>
+
+            {transactions.length === 0 ? (
+                <div className={styles.empty}>{t('reconciliation.list.empty')}</div>
+            ) : (
+                <div className={styles.tableWrapper}>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>{t('reconciliation.list.date')}</th>
+                                <th>{t('reconciliation.list.amount')}</th>
+                                <th>{t('reconciliation.list.description')}</th>
+                                <th>{t('reconciliation.list.order')}</th>
+                                <th>{t('reconciliation.list.status')}</th>
+                                <th>{t('reconciliation.list.actions')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {transactions.map((transaction) => (
+                                <tr key={transaction.id}>
+                                    <td>
+                                        <div>{formatDate(transaction.transactionDate)}</div>
+                                        <div className={styles.muted}>
+                                            {BANK_BINS[transaction.bankCode]
+                                                ? getBankNameFromBin(BANK_BINS[transaction.bankCode])
+                                                : transaction.bankCode}
+                                            {transaction.transactionRef && ` · ${transaction.transactionRef}`}
+                                        </div>
+                                    </td>
+                                    <td>
+                                        <strong>{formatCurrency(transaction.amount)} ₫</strong>
+                                        {transaction.expectedAmount !== null && transaction.expectedAmount !== transaction.amount && (
+                                            <div className={styles.muted}>
+                                                {t('reconciliation.list.expected', { amount: formatCurrency(transaction.expectedAmount) })}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className={styles.description}>{transaction.description}</td>
+                                    <td>
+                                        {transaction.order ? (
+                                            <>
+                                                <Link href={`/admin/orders/${transaction.order.orderNumber}`}>
+                                                    <strong>{transaction.order.orderNumber}</strong>
+                                                </Link>
+                                                <div className={styles.muted}>{transaction.order.customerName}</div>
+                                                {transaction.paymentKind && (
+                                                    <div className={styles.muted}>
+                                                        {t(`reconciliation.paymentKind.${transaction.paymentKind}`)}
+                                                    </div>
+                                                )}
+                                            </>
+                                        ) : transaction.detectedOrderNumber ? (
+                                            <div className={styles.muted}>
+                                                {t('reconciliation.list.orderNotFound', { orderCode: transaction.detectedOrderNumber })}
+                                            </div>
+                                        ) : (
+                                            <span className={styles.muted}>—</span>
+                                        )}
+                                    </td>
+                                    <td>
+                                        <span className={`${styles.statusBadge} ${styles[`match-${transaction.matchStatus}`]}`}>
+                                            {t(`reconciliation.matchStatus.${transaction.matchStatus}`)}
+                                        </span>
+                                        {transaction.flagReason && (
+                                            <div className={styles.flagReason}>
+                                                {t(`reconciliation.flagReason.${transaction.flagReason}`)}
+                                            </div>
+                                        )}
+                                        {transaction.reviewNote && (
+                                            <div className={styles.muted}>{transaction.reviewNote}</div>
+                                        )}
+                                    </td>
+                                    <td>
+                                        <TransactionActions transaction={transaction} />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
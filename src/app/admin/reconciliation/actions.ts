@@ -0,0 +1,87 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/admin/auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+import {
+    applyBankTransaction,
+    assignBankTransaction,
+    ignoreBankTransaction,
+} from '@/lib/repositories/admin/reconciliation';
+
+/**
+ * Server action to apply a matched bank transaction to its order
+ */
+export async function applyBankTransactionAction(
+    transactionId: string,
+    note?: string,
+    acceptMismatch?: boolean
+): Promise<void> {
+    const user = await requirePermission('orders.manage');
+
+    try {
+        await applyBankTransaction(transactionId, user.id, { note, acceptMismatch });
+        await recordAdminAction(user, {
+            action: 'bank_transaction.apply',
+            entityType: 'bank_transaction',
+            entityId: transactionId,
+            after: { matchStatus: 'applied' },
+            metadata: { note: note || null, acceptMismatch: acceptMismatch || false },
+        });
+        revalidatePath('/admin/reconciliation');
+        revalidatePath('/admin/orders');
+    } catch (error) {
+        console.error('Error applying bank transaction:', error);
+        throw error instanceof Error ? error : new Error('Failed to apply transaction');
+    }
+}
+
+/**
+ * Server action to match a transaction to an order by order code
+ */
+export async function assignBankTransactionAction(
+    transactionId: string,
+    orderCode: string
+): Promise<void> {
+    const user = await requirePermission('orders.manage');
+
+    try {
+        const match = await assignBankTransaction(transactionId, orderCode);
+        await recordAdminAction(user, {
+            action: 'bank_transaction.assign',
+            entityType: 'bank_transaction',
+            entityId: transactionId,
+            entityLabel: orderCode,
+            after: { ...match },
+        });
+        revalidatePath('/admin/reconciliation');
+    } catch (error) {
+        console.error('Error assigning bank transaction:', error);
+        throw error instanceof Error ? error : new Error('Failed to assign transaction');
+    }
+}
+
+/**
+ * Server action to dismiss a transaction from the queue
+ */
+export async function ignoreBankTransactionAction(
+    transactionId: string,
+    note: string
+): Promise<void> {
+    const user = await requirePermission('orders.manage');
+
+    try {
+        await ignoreBankTransaction(transactionId, note, user.id);
+        await recordAdminAction(user, {
+            action: 'bank_transaction.ignore',
+            entityType: 'bank_transaction',
+            entityId: transactionId,
+            after: { matchStatus: 'ignored' },
+            metadata: { note },
+        });
+        revalidatePath('/admin/reconciliation');
+    } catch (error) {
+        console.error('Error ignoring bank transaction:', error);
+        throw error instanceof Error ? error : new Error('Failed to ignore transaction');
+    }
+}
@@ -0,0 +1,34 @@
+import { Suspense } from 'react';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import StatementImportForm from './StatementImportForm';
+import TransactionsList from './TransactionsList';
+import styles from './page.module.css';
+
+interface AdminReconciliationPageProps {
+    searchParams: Promise<{
+        filter?: string;
+    }>;
+}
+
+export default async function AdminReconciliationPage({ searchParams }: AdminReconciliationPageProps) {
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const { filter } = await searchParams;
+
+    return (
+        <div className={styles.reconciliationPage}>
+            <div className={styles.header}>
+                <h1>{t('reconciliation.title')}</h1>
+                <p className={styles.subtitle}>{t('reconciliation.subtitle')}</p>
+            </div>
+
+            <StatementImportForm />
+
+            <Suspense fallback={<div>{t('loading')}</div>}>
+                <TransactionsList filter={filter} />
+            </Suspense>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import type { ReviewModerationStatus } from '@/lib/repositories/admin/reviews';
+import { moderateReviewAction } from './actions';
+import styles from './page.module.css';
+
+interface ReviewActionsProps {
+    reviewId: string;
+    status: ReviewModerationStatus;
+}
+
+export default function ReviewActions({ reviewId, status }: ReviewActionsProps) {
+    const t = useTranslations('admin.reviews.actions');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+
+    const run = (decision: 'approve' | 'reject', note?: string) => {
+        setError(null);
+        startTransition(async () => {
+            try {
+                await moderateReviewAction(reviewId, decision, note);
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('error'));
+            }
+        });
+    };
+
+    const handleReject = () => {
+        const note = prompt(t('rejectPrompt'));
+        if (note === null) return;
+        run('reject', note.trim() || undefined);
+    };
+
+    return (
+        <div className={styles.actions}>
+            {status !== 'approved' && (
+                <button className="btn btn-sm btn-success" onClick={() => run('approve')} disabled={isPending}>
+                    {t('approve')}
+                </button>
+            )}
+            {status !== 'rejected' && (
+                <button className="btn btn-sm btn-warning" onClick={handleReject} disabled={isPending}>
+                    {t('reject')}
+                </button>
+            )}
+
+            {error && <div className={styles.error}>{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,121 @@
+import { getTranslations } from 'next-intl/server';
+import Link from 'next/link';
+import {
+    adminCountPendingReviews,
+    adminListReviews,
+    type ReviewModerationFilter,
+} from '@/lib/repositories/admin/reviews';
+import ReviewActions from './ReviewActions';
+import styles from './page.module.css';
+
+const FILTERS: ReviewModerationFilter[] = ['pending', 'approved', 'rejected', 'all'];
+
+interface ReviewsListProps {
+    filter?: string;
+}
+
+export default async function ReviewsList({ filter }: ReviewsListProps) {
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const activeFilter = FILTERS.includes(filter as ReviewModerationFilter)
+        ? (filter as ReviewModerationFilter)
+        : 'pending';
+
+    const [reviews, pendingCount] = await Promise.all([
+        adminListReviews(activeFilter),
+        adminCountPendingReviews(),
+    ]);
+
+    const formatDate = (dateString: string) => {
+        const date = new Date(dateString);
+        return date.toLocaleString('vi-VN', {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    return (
+        <div className={styles.section}>
+            <div className={styles.filterTabs}>
+                {FILTERS.map((value) => (
+                    <Link
+                        key={value}
+                        href={value === 'pending' ? '/admin/reviews' : `/admin/reviews?filter=${value}`}
+                        className={`btn btn-sm ${value === activeFilter ? 'btn-primary' : 'btn-ghost'}`}
+                    >
+                        {t(`reviews.filters.${value}`)}
+                        {value === 'pending' && pendingCount > 0 && ` (${pendingCount})`}
+                    </Link>
+                ))}
+            </div>
+
+            {reviews.length === 0 ? (
+                <div className={styles.empty}>{t('reviews.list.empty')}</div>
+            ) : (
+                <div className={styles.tableWrapper}>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>{t('reviews.list.date')}</th>
+                                <th>{t('reviews.list.product')}</th>
+                                <th>{t('reviews.list.rating')}</th>
+                                <th>{t('reviews.list.review')}</th>
+                                <th>{t('reviews.list.customer')}</th>
+                                <th>{t('reviews.list.status')}</th>
+                                <th>{t('reviews.list.actions')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {reviews.map((review) => (
+                                <tr key={review.id}>
+                                    <td>{formatDate(review.createdAt)}</td>
+                                    <td>
+                                        {review.productSlug ? (
+                                            <Link href={`/product/${review.productSlug}`} target="_blank">
+                                                {review.productName}
+                                            </Link>
+                                        ) : (
+                                            review.productName
+                                        )}
+                                    </td>
+                                    <td className={styles.stars}>
+                                        {'★'.repeat(review.rating)}{'☆'.repeat(5 - review.rating)}
+                                    </td>
+                                    <td className={styles.content}>
+                                        {review.title && <strong>{review.title}</strong>}
+                                        {review.content && <div>{review.content}</div>}
+                                    </td>
+                                    <td>
+                                        <div>{review.customerName}</div>
+                                        {review.orderNumber && (
+                                            <Link href={`/admin/orders/${review.orderNumber}`} className={styles.muted}>
+                                                {review.orderNumber}
+                                            </Link>
+                                        )}
+                                        {review.isVerifiedPurchase && (
+                                            <div className={styles.verified}>{t('reviews.list.verified')}</div>
+                                        )}
+                                    </td>
+                                    <td>
+                                        <span className={`${styles.statusBadge} ${styles[`review-${review.status}`]}`}>
+                                            {t(`reviews.status.${review.status}`)}
+                                        </span>
+                                        {review.moderationNote && (
+                                            <div className={styles.muted}>{review.moderationNote}</div>
+                                        )}
+                                    </td>
+                                    <td>
+                                        <ReviewActions reviewId={review.id} status={review.status} />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/admin/auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+import { adminModerateReview } from '@/lib/repositories/admin/reviews';
+
+/**
+ * Server action to approve or reject a customer review
+ */
+export async function moderateReviewAction(
+    reviewId: string,
+    decision: 'approve' | 'reject',
+    note?: string
+): Promise<void> {
+    const user = await requirePermission('content.manage');
+
+    try {
+        const { productSlug } = await adminModerateReview(reviewId, decision, user.id, note);
+        await recordAdminAction(user, {
+            action: 'review.moderate',
+            entityType: 'review',
+            entityId: reviewId,
+            entityLabel: productSlug,
+            after: { isApproved: decision === 'approve' },
+            metadata: { note: note || null },
+        });
+        revalidatePath('/admin/reviews');
+        // Approved reviews change the product page and the "top rated" sort
+        if (productSlug) {
+            revalidatePath(`/product/${productSlug}`);
+        }
+        revalidatePath('/tube-amplifiers');
+    } catch (error) {
+        console.error('Error moderating review:', error);
+        throw error instanceof Error ? error : new Error('Failed to update review');
+    }
+}
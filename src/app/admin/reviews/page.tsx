@@ -0,0 +1,31 @@
+import { Suspense } from 'react';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import ReviewsList from './ReviewsList';
+import styles from './page.module.css';
+
+interface AdminReviewsPageProps {
+    searchParams: Promise<{
+        filter?: string;
+    }>;
+}
+
+export default async function AdminReviewsPage({ searchParams }: AdminReviewsPageProps) {
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const { filter } = await searchParams;
+
+    return (
+        <div className={styles.reviewsPage}>
+            <div className={styles.header}>
+                <h1>{t('reviews.title')}</h1>
+                <p className={styles.subtitle}>{t('reviews.subtitle')}</p>
+            </div>
+
+            <Suspense fallback={<div>{t('loading')}</div>}>
+                <ReviewsList filter={filter} />
+            </Suspense>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import type { SetupModerationStatus } from '@/lib/repositories/setups';
+import { moderateSetupAction } from './actions';
+import styles from './page.module.css';
+
+interface SetupActionsProps {
+    setupId: string;
+    status: SetupModerationStatus;
+}
+
+export default function SetupActions({ setupId, status }: SetupActionsProps) {
+    const t = useTranslations('admin.setups.actions');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+
+    const run = (decision: 'approve' | 'reject', note?: string) => {
+        setError(null);
+        startTransition(async () => {
+            try {
+                await moderateSetupAction(setupId, decision, note);
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('error'));
+            }
+        });
+    };
+
+    const handleReject = () => {
+        const note = prompt(t('rejectPrompt'));
+        if (note === null) return;
+        run('reject', note.trim() || undefined);
+    };
+
+    return (
+        <div className={styles.actions}>
+            {status !== 'approved' && (
+                <button className="btn btn-sm btn-success" onClick={() => run('approve')} disabled={isPending}>
+                    {t('approve')}
+                </button>
+            )}
+            {status !== 'rejected' && (
+                <button className="btn btn-sm btn-warning" onClick={handleReject} disabled={isPending}>
+                    {t('reject')}
+                </button>
+            )}
+
+            {error && <div className={styles.error}>{error}</div>}
+        </div>
+    );
+}
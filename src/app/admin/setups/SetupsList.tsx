@@ -0,0 +1,128 @@
+import { getTranslations } from 'next-intl/server';
+import Image from 'next/image';
+import Link from 'next/link';
+import {
+    adminCountPendingSetups,
+    adminListSetups,
+    type SetupModerationFilter,
+} from '@/lib/repositories/admin/setups';
+import SetupActions from './SetupActions';
+import styles from './page.module.css';
+
+const FILTERS: SetupModerationFilter[] = ['pending', 'approved', 'rejected', 'all'];
+
+interface SetupsListProps {
+    filter?: string;
+}
+
+export default async function SetupsList({ filter }: SetupsListProps) {
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const activeFilter = FILTERS.includes(filter as SetupModerationFilter)
+        ? (filter as SetupModerationFilter)
+        : 'pending';
+
+    const [setups, pendingCount] = await Promise.all([
+        adminListSetups(activeFilter),
+        adminCountPendingSetups(),
+    ]);
+
+    const formatDate = (dateString: string) => {
+        const date = new Date(dateString);
+        return date.toLocaleString('vi-VN', {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    return (
+        <div className={styles.section}>
+            <div className={styles.filterTabs}>
+                {FILTERS.map((value) => (
+                    <Link
+                        key={value}
+                        href={value === 'pending' ? '/admin/setups' : `/admin/setups?filter=${value}`}
+                        className={`btn btn-sm ${value === activeFilter ? 'btn-primary' : 'btn-ghost'}`}
+                    >
+                        {t(`setups.filters.${value}`)}
+                        {value === 'pending' && pendingCount > 0 && ` (${pendingCount})`}
+                    </Link>
+                ))}
+            </div>
+
+            {setups.length === 0 ? (
+                <div className={styles.empty}>{t('setups.list.empty')}</div>
+            ) : (
+                <div className={styles.tableWrapper}>
+                    <table className={styles.table}>
+                        <thead>
+                            <tr>
+                                <th>{t('setups.list.date')}</th>
+                                <th>{t('setups.list.photo')}</th>
+                                <th>{t('setups.list.setup')}</th>
+                                <th>{t('setups.list.products')}</th>
+                                <th>{t('setups.list.customer')}</th>
+                                <th>{t('setups.list.status')}</th>
+                                <th>{t('setups.list.actions')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {setups.map((setup) => (
+                                <tr key={setup.id}>
+                                    <td>{formatDate(setup.createdAt)}</td>
+                                    <td>
+                                        <a href={setup.imageUrl} target="_blank" rel="noopener noreferrer" className={styles.thumbnail}>
+                                            <Image
+                                                src={setup.imageUrl}
+                                                alt={setup.title}
+                                                fill
+                                                sizes="160px"
+                                                style={{ objectFit: 'cover' }}
+                                            />
+                                        </a>
+                                    </td>
+                                    <td className={styles.content}>
+                                        <strong>{setup.title}</strong>
+                                        {setup.description && <div>{setup.description}</div>}
+                                    </td>
+                                    <td>
+                                        {setup.products.map((product) => (
+                                            <Link
+                                                key={product.id}
+                                                href={`/product/${product.slug}`}
+                                                target="_blank"
+                                                className={styles.productLink}
+                                            >
+                                                {product.name}
+                                            </Link>
+                                        ))}
+                                    </td>
+                                    <td>
+                                        <div>{setup.customerName}</div>
+                                        {setup.customerEmail && (
+                                            <div className={styles.muted}>{setup.customerEmail}</div>
+                                        )}
+                                    </td>
+                                    <td>
+                                        <span className={`${styles.statusBadge} ${styles[`setup-${setup.status}`]}`}>
+                                            {t(`setups.status.${setup.status}`)}
+                                        </span>
+                                        {setup.moderationNote && (
+                                            <div className={styles.muted}>{setup.moderationNote}</div>
+                                        )}
+                                    </td>
+                                    <td>
+                                        <SetupActions setupId={setup.id} status={setup.status} />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/admin/auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+import { adminModerateSetup } from '@/lib/repositories/admin/setups';
+
+/**
+ * Server action to approve or reject a customer setup photo
+ */
+export async function moderateSetupAction(
+    setupId: string,
+    decision: 'approve' | 'reject',
+    note?: string
+): Promise<void> {
+    const user = await requirePermission('content.manage');
+
+    try {
+        const { productSlugs } = await adminModerateSetup(setupId, decision, user.id, note);
+        await recordAdminAction(user, {
+            action: 'setup.moderate',
+            entityType: 'setup',
+            entityId: setupId,
+            after: { isApproved: decision === 'approve' },
+            metadata: { note: note || null, productSlugs },
+        });
+        revalidatePath('/admin/setups');
+        revalidatePath('/account/setups');
+        // Gallery on /reviews and "Seen in customer systems" on tagged products
+        revalidatePath('/reviews');
+        for (const slug of productSlugs) {
+            revalidatePath(`/product/${slug}`);
+        }
+    } catch (error) {
+        console.error('Error moderating setup:', error);
+        throw error instanceof Error ? error : new Error('Failed to update setup');
+    }
+}
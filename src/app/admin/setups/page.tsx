@@ -0,0 +1,31 @@
+import { Suspense } from 'react';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import SetupsList from './SetupsList';
+import styles from './page.module.css';
+
+interface AdminSetupsPageProps {
+    searchParams: Promise<{
+        filter?: string;
+    }>;
+}
+
+export default async function AdminSetupsPage({ searchParams }: AdminSetupsPageProps) {
+    await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const { filter } = await searchParams;
+
+    return (
+        <div className={styles.setupsPage}>
+            <div className={styles.header}>
+                <h1>{t('setups.title')}</h1>
+                <p className={styles.subtitle}>{t('setups.subtitle')}</p>
+            </div>
+
+            <Suspense fallback={<div>{t('loading')}</div>}>
+                <SetupsList filter={filter} />
+            </Suspense>
+        </div>
+    );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import type { ShippingZone } from '@/lib/shipping/rates';
+import { deleteShippingZoneAction, saveShippingZoneAction } from './actions';
+import styles from './page.module.css';
+
+interface ShippingZoneFormProps {
+    zone?: ShippingZone; // Omitted for the "new zone" form
+    canManage: boolean;
+}
+
+interface RateInput {
+    maxWeightKg: string;
+    fee: string;
+}
+
+const EMPTY_RATE: RateInput = { maxWeightKg: '', fee: '' };
+
+function splitList(value: string): string[] {
+    return value.split(/[,\n]/).map((item) => item.trim()).filter(Boolean);
+}
+
+export default function ShippingZoneForm({ zone, canManage }: ShippingZoneFormProps) {
+    const t = useTranslations('admin.shipping');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    const [name, setName] = useState(zone?.name || '');
+    const [cities, setCities] = useState(zone?.cities.join(', ') || '');
+    const [districts, setDistricts] = useState(zone?.districts.join(', ') || '');
+    const [isActive, setIsActive] = useState(zone?.isActive ?? true);
+    const [sortOrder, setSortOrder] = useState(String(zone?.sortOrder ?? 0));
+    const [rates, setRates] = useState<RateInput[]>(
+        zone?.rates.length
+            ? zone.rates.map((rate) => ({ maxWeightKg: String(rate.maxWeightKg), fee: String(rate.fee) }))
+            : [EMPTY_RATE]
+    );
+    const [extraKgFee, setExtraKgFee] = useState(String(zone?.extraKgFee ?? 0));
+    const [insuranceRatePercent, setInsuranceRatePercent] = useState(String(zone?.insuranceRatePercent ?? 0));
+    const [insuranceMinValue, setInsuranceMinValue] = useState(String(zone?.insuranceMinValue ?? 0));
+
+    const disabled = isPending || !canManage;
+
+    const updateRate = (index: number, field: keyof RateInput, value: string) => {
+        setRates((prev) => prev.map((rate, i) => (i === index ? { ...rate, [field]: value } : rate)));
+    };
+
+    const resetNewZone = () => {
+        setName('');
+        setCities('');
+        setDistricts('');
+        setIsActive(true);
+        setSortOrder('0');
+        setRates([EMPTY_RATE]);
+        setExtraKgFee('0');
+        setInsuranceRatePercent('0');
+        setInsuranceMinValue('0');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setError(null);
+        setSuccess(null);
+        startTransition(async () => {
+            try {
+                await saveShippingZoneAction(zone?.id || null, {
+                    name,
+                    cities: splitList(cities),
+                    districts: splitList(districts),
+                    isActive,
+                    sortOrder: Number(sortOrder),
+                    rates: rates
+                        .filter((rate) => rate.maxWeightKg !== '' || rate.fee !== '')
+                        .map((rate) => ({ maxWeightKg: Number(rate.maxWeightKg), fee: Number(rate.fee) })),
+                    extraKgFee: Number(extraKgFee),
+                    insuranceRatePercent: Number(insuranceRatePercent),
+                    insuranceMinValue: Number(insuranceMinValue),
+                });
+                setSuccess(t('form.saved'));
+                if (!zone) {
+                    resetNewZone();
+                }
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('form.error'));
+            }
+        });
+    };
+
+    const handleDelete = () => {
+        if (!zone || !confirm(t('form.deleteConfirm', { name: zone.name }))) return;
+
+        setError(null);
+        startTransition(async () => {
+            try {
+                await deleteShippingZoneAction(zone.id);
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('form.error'));
+            }
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className={styles.section}>
+            <div className={styles.zoneHeader}>
+                <h2>{zone ? zone.name : t('form.newTitle')}</h2>
+                {zone && !zone.isActive && <span className={styles.badge}>{t('form.inactive')}</span>}
+            </div>
+
+            <div className={styles.formGrid}>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.name')}</label>
+                    <input
+                        type="text"
+                        className="input"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        required
+                        disabled={disabled}
+                    />
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.sortOrder')}</label>
+                    <input
+                        type="number"
+                        className="input"
+                        value={sortOrder}
+                        onChange={(e) => setSortOrder(e.target.value)}
+                        step="1"
+                        disabled={disabled}
+                    />
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.cities')}</label>
+                    <textarea
+                        className="input"
+                        value={cities}
+                        onChange={(e) => setCities(e.target.value)}
+                        rows={2}
+                        placeholder={t('form.citiesPlaceholder')}
+                        disabled={disabled}
+                    />
+                    <span className={styles.hint}>{t('form.citiesHint')}</span>
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.districts')}</label>
+                    <textarea
+                        className="input"
+                        value={districts}
+                        onChange={(e) => setDistricts(e.target.value)}
+                        rows={2}
+                        placeholder={t('form.districtsPlaceholder')}
+                        disabled={disabled}
+                    />
+                    <span className={styles.hint}>{t('form.districtsHint')}</span>
+                </div>
+            </div>
+
+            <h3>{t('form.rates')}</h3>
+            <div className={styles.rates}>
+                {rates.map((rate, index) => (
+                    <div key={index} className={styles.rateRow}>
+                        <label>
+                            {t('form.upToKg')}
+                            <input
+                                type="number"
+                                className="input"
+                                value={rate.maxWeightKg}
+                                onChange={(e) => updateRate(index, 'maxWeightKg', e.target.value)}
+                                min="0"
+                                step="0.1"
+                                disabled={disabled}
+                            />
+                        </label>
+                        <label>
+                            {t('form.fee')}
+                            <input
+                                type="number"
+                                className="input"
+                                value={rate.fee}
+                                onChange={(e) => updateRate(index, 'fee', e.target.value)}
+                                min="0"
+                                step="1000"
+                                disabled={disabled}
+                            />
+                        </label>
+                        {canManage && rates.length > 1 && (
+                            <button
+                                type="button"
+                                className="btn btn-sm btn-ghost"
+                                onClick={() => setRates((prev) => prev.filter((_, i) => i !== index))}
+                                disabled={isPending}
+                            >
+                                {t('form.removeRate')}
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {canManage && (
+                    <button
+                        type="button"
+                        className="btn btn-sm btn-secondary"
+                        onClick={() => setRates((prev) => [...prev, EMPTY_RATE])}
+                        disabled={isPending}
+                    >
+                        {t('form.addRate')}
+                    </button>
+                )}
+            </div>
+
+            <div className={styles.formGrid}>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.extraKgFee')}</label>
+                    <input
+                        type="number"
+                        className="input"
+                        value={extraKgFee}
+                        onChange={(e) => setExtraKgFee(e.target.value)}
+                        min="0"
+                        step="1000"
+                        disabled={disabled}
+                    />
+                    <span className={styles.hint}>{t('form.extraKgFeeHint')}</span>
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.insuranceRatePercent')}</label>
+                    <input
+                        type="number"
+                        className="input"
+                        value={insuranceRatePercent}
+                        onChange={(e) => setInsuranceRatePercent(e.target.value)}
+                        min="0"
+                        max="100"
+                        step="0.1"
+                        disabled={disabled}
+                    />
+                    <span className={styles.hint}>{t('form.insuranceRatePercentHint')}</span>
+                </div>
+                <div className={styles.formGroup}>
+                    <label className="label">{t('form.insuranceMinValue')}</label>
+                    <input
+                        type="number"
+                        className="input"
+                        value={insuranceMinValue}
+                        onChange={(e) => setInsuranceMinValue(e.target.value)}
+                        min="0"
+                        step="100000"
+                        disabled={disabled}
+                    />
+                    <span className={styles.hint}>{t('form.insuranceMinValueHint')}</span>
+                </div>
+            </div>
+
+            <label className={styles.checkbox}>
+                <input
+                    type="checkbox"
+                    checked={isActive}
+                    onChange={(e) => setIsActive(e.target.checked)}
+                    disabled={disabled}
+                />
+                {t('form.isActive')}
+            </label>
+
+            {success && <div className={styles.success}>{success}</div>}
+            {error && <div className={styles.error}>{error}</div>}
+
+            {canManage && (
+                <div className={styles.formActions}>
+                    <button type="submit" className="btn btn-primary" disabled={isPending}>
+                        {isPending ? t('form.saving') : zone ? t('form.save') : t('form.create')}
+                    </button>
+                    {zone && (
+                        <button type="button" className="btn btn-ghost" onClick={handleDelete} disabled={isPending}>
+                            {t('form.delete')}
+                        </button>
+                    )}
+                </div>
+            )}
+        </form>
+    );
+}
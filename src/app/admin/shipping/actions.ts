@@ -0,0 +1,141 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/admin/auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+import {
+    adminCreateShippingZone,
+    adminDeleteShippingZone,
+    adminUpdateShippingZone,
+    type ShippingZonePayload,
+} from '@/lib/repositories/admin/shipping';
+import type { ShippingZone } from '@/lib/shipping/rates';
+
+function cleanList(values: string[]): string[] {
+    return [...new Set(values.map((value) => value.trim()).filter(Boolean))];
+}
+
+function isNonNegative(value: number): boolean {
+    return Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate and normalize a zone from the form
+ */
+function validateZone(payload: ShippingZonePayload): ShippingZonePayload {
+    const name = payload.name.trim();
+    if (!name) {
+        throw new Error('Zone name is required');
+    }
+
+    const districts = cleanList(payload.districts);
+    const cities = cleanList(payload.cities);
+    if (districts.length > 0 && cities.length === 0) {
+        throw new Error('List the cities of the districts this zone covers');
+    }
+
+    if (payload.rates.length === 0) {
+        throw new Error('Add at least one weight bracket');
+    }
+    for (const rate of payload.rates) {
+        if (!Number.isFinite(rate.maxWeightKg) || rate.maxWeightKg <= 0 || !isNonNegative(rate.fee)) {
+            throw new Error('Weight brackets need a weight above 0 and a fee of 0 or more');
+        }
+    }
+    const rates = [...payload.rates].sort((a, b) => a.maxWeightKg - b.maxWeightKg);
+    if (new Set(rates.map((rate) => rate.maxWeightKg)).size !== rates.length) {
+        throw new Error('Two weight brackets have the same weight');
+    }
+
+    if (
+        !isNonNegative(payload.extraKgFee) ||
+        !isNonNegative(payload.insuranceMinValue) ||
+        !isNonNegative(payload.insuranceRatePercent) ||
+        payload.insuranceRatePercent > 100
+    ) {
+        throw new Error('Fees must be 0 or more and the insurance rate at most 100%');
+    }
+
+    return {
+        name,
+        cities,
+        districts,
+        isActive: payload.isActive,
+        sortOrder: Number.isInteger(payload.sortOrder) ? payload.sortOrder : 0,
+        rates,
+        extraKgFee: payload.extraKgFee,
+        insuranceRatePercent: payload.insuranceRatePercent,
+        insuranceMinValue: payload.insuranceMinValue,
+    };
+}
+
+function zoneAuditSnapshot(zone: ShippingZonePayload | ShippingZone): Record<string, unknown> {
+    return {
+        name: zone.name,
+        cities: zone.cities,
+        districts: zone.districts,
+        isActive: zone.isActive,
+        sortOrder: zone.sortOrder,
+        rates: zone.rates,
+        extraKgFee: zone.extraKgFee,
+        insuranceRatePercent: zone.insuranceRatePercent,
+        insuranceMinValue: zone.insuranceMinValue,
+    };
+}
+
+/**
+ * Server action to create a shipping zone (id null) or update one
+ */
+export async function saveShippingZoneAction(id: string | null, payload: ShippingZonePayload): Promise<void> {
+    const user = await requirePermission('shipping.manage');
+    const zone = validateZone(payload);
+
+    try {
+        if (id) {
+            const previous = await adminUpdateShippingZone(id, zone);
+            await recordAdminAction(user, {
+                action: 'shipping_zone.update',
+                entityType: 'shipping_zone',
+                entityId: id,
+                entityLabel: zone.name,
+                before: zoneAuditSnapshot(previous),
+                after: zoneAuditSnapshot(zone),
+            });
+        } else {
+            const zoneId = await adminCreateShippingZone(zone);
+            await recordAdminAction(user, {
+                action: 'shipping_zone.create',
+                entityType: 'shipping_zone',
+                entityId: zoneId,
+                entityLabel: zone.name,
+                after: zoneAuditSnapshot(zone),
+            });
+        }
+        revalidatePath('/admin/shipping');
+    } catch (error) {
+        console.error('Error saving shipping zone:', error);
+        throw error instanceof Error ? error : new Error('Failed to save shipping zone');
+    }
+}
+
+/**
+ * Server action to delete a shipping zone
+ */
+export async function deleteShippingZoneAction(id: string): Promise<void> {
+    const user = await requirePermission('shipping.manage');
+
+    try {
+        const previous = await adminDeleteShippingZone(id);
+        await recordAdminAction(user, {
+            action: 'shipping_zone.delete',
+            entityType: 'shipping_zone',
+            entityId: id,
+            entityLabel: previous.name,
+            before: zoneAuditSnapshot(previous),
+        });
+        revalidatePath('/admin/shipping');
+    } catch (error) {
+        console.error('Error deleting shipping zone:', error);
+        throw error instanceof Error ? error : new Error('Failed to delete shipping zone');
+    }
+}
@@ -0,0 +1,41 @@
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { adminListShippingZones } from '@/lib/repositories/admin/shipping';
+import ShippingZoneForm from './ShippingZoneForm';
+import styles from './page.module.css';
+
+export default async function AdminShippingPage() {
+    const user = await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const canManage = hasPermission(user?.adminRole, 'shipping.manage');
+    const zones = await adminListShippingZones();
+
+    return (
+        <div className={styles.shippingPage}>
+            <div className={styles.header}>
+                <h1>{t('shipping.title')}</h1>
+                <p className={styles.subtitle}>{t('shipping.subtitle')}</p>
+            </div>
+
+            {!canManage && (
+                <div className={styles.section}>
+                    <div className={styles.empty}>{t('shipping.readOnly')}</div>
+                </div>
+            )}
+
+            {zones.length === 0 && (
+                <div className={styles.section}>
+                    <div className={styles.empty}>{t('shipping.empty')}</div>
+                </div>
+            )}
+
+            {zones.map((zone) => (
+                <ShippingZoneForm key={zone.id} zone={zone} canManage={canManage} />
+            ))}
+
+            {canManage && <ShippingZoneForm canManage />}
+        </div>
+    );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { revokeInvitationAction } from './actions';
+import styles from './page.module.css';
+
+interface InvitationActionsProps {
+    invitationId: string;
+}
+
+export default function InvitationActions({ invitationId }: InvitationActionsProps) {
+    const t = useTranslations('admin.staff.actions');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+
+    const handleRevoke = () => {
+        if (!confirm(t('revokeConfirm'))) return;
+
+        setError(null);
+        startTransition(async () => {
+            try {
+                await revokeInvitationAction(invitationId);
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('error'));
+            }
+        });
+    };
+
+    return (
+        <div className={styles.actions}>
+            <button className="btn btn-sm btn-ghost" onClick={handleRevoke} disabled={isPending}>
+                {t('revoke')}
+            </button>
+
+            {error && <div className={styles.error}>{error}</div>}
+        </div>
+    );
+}
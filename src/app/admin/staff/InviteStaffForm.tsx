@@ -0,0 +1,72 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { ADMIN_ROLES, type AdminRole } from '@/lib/admin/permissions';
+import { inviteStaffAction } from './actions';
+import styles from './page.module.css';
+
+export default function InviteStaffForm() {
+    const t = useTranslations('admin.staff');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<AdminRole>('support');
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setError(null);
+        setSuccess(null);
+        startTransition(async () => {
+            try {
+                const result = await inviteStaffAction(email, role);
+                setSuccess(t(`invite.${result}`, { email: email.trim() }));
+                setEmail('');
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('actions.error'));
+            }
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className={styles.section}>
+            <h2>{t('invite.title')}</h2>
+            <div className={styles.inviteRow}>
+                <input
+                    type="email"
+                    className="input"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder={t('invite.email')}
+                    required
+                    disabled={isPending}
+                />
+                <select
+                    className="input"
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as AdminRole)}
+                    disabled={isPending}
+                    aria-label={t('invite.role')}
+                >
+                    {ADMIN_ROLES.map((value) => (
+                        <option key={value} value={value}>
+                            {t(`roles.${value}`)}
+                        </option>
+                    ))}
+                </select>
+                <button type="submit" className="btn btn-primary" disabled={isPending || !email.trim()}>
+                    {isPending ? t('invite.sending') : t('invite.submit')}
+                </button>
+            </div>
+            <p className={styles.hint}>{t(`roleDescriptions.${role}`)}</p>
+
+            {success && <div className={styles.success}>{success}</div>}
+            {error && <div className={styles.error}>{error}</div>}
+        </form>
+    );
+}
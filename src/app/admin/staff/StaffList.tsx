@@ -0,0 +1,112 @@
+import { getTranslations } from 'next-intl/server';
+import { adminListPendingInvitations, adminListStaff } from '@/lib/repositories/admin/staff';
+import InvitationActions from './InvitationActions';
+import StaffMemberActions from './StaffMemberActions';
+import styles from './page.module.css';
+
+interface StaffListProps {
+    currentUserId: string;
+}
+
+export default async function StaffList({ currentUserId }: StaffListProps) {
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const [staff, invitations] = await Promise.all([
+        adminListStaff(),
+        adminListPendingInvitations(),
+    ]);
+
+    const formatDate = (dateString: string) => {
+        const date = new Date(dateString);
+        return date.toLocaleString('vi-VN', {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    return (
+        <>
+            <div className={styles.section}>
+                <h2>{t('staff.members.title')}</h2>
+                {staff.length === 0 ? (
+                    <div className={styles.empty}>{t('staff.members.empty')}</div>
+                ) : (
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>{t('staff.members.name')}</th>
+                                    <th>{t('staff.members.role')}</th>
+                                    <th>{t('staff.members.actions')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {staff.map((member) => (
+                                    <tr key={member.id}>
+                                        <td>
+                                            <strong>{member.fullName || member.email}</strong>
+                                            {member.fullName && <span className={styles.muted}>{member.email}</span>}
+                                        </td>
+                                        <td>
+                                            <span className={styles.roleBadge}>{t(`staff.roles.${member.role}`)}</span>
+                                            <span className={styles.muted}>{t(`staff.roleDescriptions.${member.role}`)}</span>
+                                        </td>
+                                        <td>
+                                            {member.id === currentUserId ? (
+                                                <span className={styles.muted}>{t('staff.members.you')}</span>
+                                            ) : (
+                                                <StaffMemberActions userId={member.id} role={member.role} />
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div className={styles.section}>
+                <h2>{t('staff.invitations.title')}</h2>
+                {invitations.length === 0 ? (
+                    <div className={styles.empty}>{t('staff.invitations.empty')}</div>
+                ) : (
+                    <div className={styles.tableWrapper}>
+                        <table className={styles.table}>
+                            <thead>
+                                <tr>
+                                    <th>{t('staff.invitations.email')}</th>
+                                    <th>{t('staff.invitations.role')}</th>
+                                    <th>{t('staff.invitations.invited')}</th>
+                                    <th>{t('staff.members.actions')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {invitations.map((invitation) => (
+                                    <tr key={invitation.id}>
+                                        <td>{invitation.email}</td>
+                                        <td>
+                                            <span className={styles.roleBadge}>{t(`staff.roles.${invitation.role}`)}</span>
+                                        </td>
+                                        <td>
+                                            {formatDate(invitation.createdAt)}
+                                            {invitation.invitedByEmail && (
+                                                <span className={styles.muted}>{invitation.invitedByEmail}</span>
+                                            )}
+                                        </td>
+                                        <td>
+                                            <InvitationActions invitationId={invitation.id} />
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { ADMIN_ROLES, type AdminRole } from '@/lib/admin/permissions';
+import { removeStaffAction, updateStaffRoleAction } from './actions';
+import styles from './page.module.css';
+
+interface StaffMemberActionsProps {
+    userId: string;
+    role: AdminRole;
+}
+
+export default function StaffMemberActions({ userId, role }: StaffMemberActionsProps) {
+    const t = useTranslations('admin.staff');
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [error, setError] = useState<string | null>(null);
+
+    const run = (action: () => Promise<void>) => {
+        setError(null);
+        startTransition(async () => {
+            try {
+                await action();
+                router.refresh();
+            } catch (err) {
+                setError(err instanceof Error ? err.message : t('actions.error'));
+            }
+        });
+    };
+
+    const handleRoleChange = (nextRole: AdminRole) => {
+        if (nextRole === role) return;
+        run(() => updateStaffRoleAction(userId, nextRole));
+    };
+
+    const handleRemove = () => {
+        if (!confirm(t('actions.removeConfirm'))) return;
+        run(() => removeStaffAction(userId));
+    };
+
+    return (
+        <div className={styles.actions}>
+            <select
+                className="input"
+                value={role}
+                onChange={(e) => handleRoleChange(e.target.value as AdminRole)}
+                disabled={isPending}
+                aria-label={t('members.role')}
+            >
+                {ADMIN_ROLES.map((value) => (
+                    <option key={value} value={value}>
+                        {t(`roles.${value}`)}
+                    </option>
+                ))}
+            </select>
+            <button className="btn btn-sm btn-ghost" onClick={handleRemove} disabled={isPending}>
+                {t('actions.remove')}
+            </button>
+
+            {error && <div className={styles.error}>{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,129 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { requirePermission } from '@/lib/admin/auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+import { isAdminRole, type AdminRole } from '@/lib/admin/permissions';
+import {
+    adminInviteStaff,
+    adminRemoveStaff,
+    adminRevokeInvitation,
+    adminUpdateStaffRole,
+} from '@/lib/repositories/admin/staff';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function assertRole(role: AdminRole): void {
+    if (!isAdminRole(role)) {
+        throw new Error('Invalid role');
+    }
+}
+
+/**
+ * Server action to invite a staff member (or grant a role to an existing account)
+ */
+export async function inviteStaffAction(
+    email: string,
+    role: AdminRole
+): Promise<'granted' | 'invited'> {
+    const user = await requirePermission('staff.manage');
+
+    if (!EMAIL_PATTERN.test(email.trim())) {
+        throw new Error('Invalid email address');
+    }
+    assertRole(role);
+
+    try {
+        const result = await adminInviteStaff({ email, role, invitedBy: user.id });
+        await recordAdminAction(user, {
+            action: 'staff.invite',
+            entityType: 'staff',
+            entityId: email.trim().toLowerCase(),
+            entityLabel: email.trim().toLowerCase(),
+            after: { role },
+            metadata: { result },
+        });
+        revalidatePath('/admin/staff');
+        return result;
+    } catch (error) {
+        console.error('Error inviting staff member:', error);
+        throw error instanceof Error ? error : new Error('Failed to invite staff member');
+    }
+}
+
+/**
+ * Server action to change a staff member's role
+ */
+export async function updateStaffRoleAction(userId: string, role: AdminRole): Promise<void> {
+    const user = await requirePermission('staff.manage');
+
+    if (userId === user.id) {
+        throw new Error('You cannot change your own role');
+    }
+    assertRole(role);
+
+    try {
+        const { email, previousRole } = await adminUpdateStaffRole(userId, role);
+        await recordAdminAction(user, {
+            action: 'staff.role_update',
+            entityType: 'staff',
+            entityId: userId,
+            entityLabel: email,
+            before: { role: previousRole },
+            after: { role },
+        });
+        revalidatePath('/admin/staff');
+    } catch (error) {
+        console.error('Error updating staff role:', error);
+        throw error instanceof Error ? error : new Error('Failed to update staff role');
+    }
+}
+
+/**
+ * Server action to remove a staff member's admin access
+ */
+export async function removeStaffAction(userId: string): Promise<void> {
+    const user = await requirePermission('staff.manage');
+
+    if (userId === user.id) {
+        throw new Error('You cannot remove yourself');
+    }
+
+    try {
+        const { email, previousRole } = await adminRemoveStaff(userId);
+        await recordAdminAction(user, {
+            action: 'staff.remove',
+            entityType: 'staff',
+            entityId: userId,
+            entityLabel: email,
+            before: { role: previousRole },
+            after: { role: null },
+        });
+        revalidatePath('/admin/staff');
+    } catch (error) {
+        console.error('Error removing staff member:', error);
+        throw error instanceof Error ? error : new Error('Failed to remove staff member');
+    }
+}
+
+/**
+ * Server action to revoke a pending invitation
+ */
+export async function revokeInvitationAction(invitationId: string): Promise<void> {
+    const user = await requirePermission('staff.manage');
+
+    try {
+        const invitation = await adminRevokeInvitation(invitationId);
+        await recordAdminAction(user, {
+            action: 'staff_invitation.revoke',
+            entityType: 'staff_invitation',
+            entityId: invitationId,
+            entityLabel: invitation?.email,
+            before: invitation ? { email: invitation.email, role: invitation.role } : null,
+        });
+        revalidatePath('/admin/staff');
+    } catch (error) {
+        console.error('Error revoking staff invitation:', error);
+        throw error instanceof Error ? error : new Error('Failed to revoke invitation');
+    }
+}
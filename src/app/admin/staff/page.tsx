@@ -0,0 +1,36 @@
+import { Suspense } from 'react';
+import { getTranslations } from 'next-intl/server';
+import { requireAdmin } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import InviteStaffForm from './InviteStaffForm';
+import StaffList from './StaffList';
+import styles from './page.module.css';
+
+export default async function AdminStaffPage() {
+    const user = await requireAdmin();
+    const t = await getTranslations({ locale: 'vi', namespace: 'admin' });
+
+    const canManage = hasPermission(user?.adminRole, 'staff.manage');
+
+    return (
+        <div className={styles.staffPage}>
+            <div className={styles.header}>
+                <h1>{t('staff.title')}</h1>
+                <p className={styles.subtitle}>{t('staff.subtitle')}</p>
+            </div>
+
+            {!canManage || !user ? (
+                <div className={styles.section}>
+                    <div className={styles.empty}>{t('staff.forbidden')}</div>
+                </div>
+            ) : (
+                <>
+                    <InviteStaffForm />
+                    <Suspense fallback={<div>{t('loading')}</div>}>
+                        <StaffList currentUserId={user.id} />
+                    </Suspense>
+                </>
+            )}
+        </div>
+    );
+}
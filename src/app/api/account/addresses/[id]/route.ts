@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/user';
+import {
+    deleteUserAddress,
+    getAddressErrorStatus,
+    parseUserAddressInput,
+    setDefaultUserAddress,
+    updateUserAddress,
+} from '@/lib/repositories/addresses';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/account/addresses/[id]
+ * Update an address, or only make it the default with { isDefault: true }
+ *
+ * Body: same fields as POST /api/account/addresses
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await request.json().catch(() => null);
+
+        if (body && Object.keys(body).length === 1 && body.isDefault === true) {
+            await setDefaultUserAddress(user.id, id);
+            return NextResponse.json({ success: true });
+        }
+
+        const parsed = parseUserAddressInput(body);
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const address = await updateUserAddress(user.id, id, parsed.input);
+        return NextResponse.json({ address });
+    } catch (error) {
+        console.error('Error updating address:', error);
+        const status = getAddressErrorStatus(error);
+        return NextResponse.json(
+            { error: status !== 500 && error instanceof Error ? error.message : 'Failed to save address' },
+            { status }
+        );
+    }
+}
+
+/**
+ * DELETE /api/account/addresses/[id]
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        await deleteUserAddress(user.id, id);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting address:', error);
+        const status = getAddressErrorStatus(error);
+        return NextResponse.json(
+            { error: status !== 500 && error instanceof Error ? error.message : 'Failed to delete address' },
+            { status }
+        );
+    }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/user';
+import {
+    createUserAddress,
+    getAddressErrorStatus,
+    getUserAddresses,
+    parseUserAddressInput,
+} from '@/lib/repositories/addresses';
+
+/**
+ * GET /api/account/addresses
+ * The signed-in customer's address book (checkout address picker)
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const addresses = await getUserAddresses(user.id);
+        return NextResponse.json({ addresses });
+    } catch (error) {
+        console.error('Error fetching addresses:', error);
+        return NextResponse.json({ error: 'Failed to fetch addresses' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/account/addresses
+ * Add an address
+ *
+ * Body: { fullName, phone, addressLine, provinceCode, districtCode, wardCode?, isDefault? }
+ * Division codes come from src/lib/divisions (strings, e.g. '79'); the names
+ * stored with the address are looked up from them.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const parsed = parseUserAddressInput(await request.json().catch(() => null));
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const address = await createUserAddress(user.id, parsed.input);
+        return NextResponse.json({ address }, { status: 201 });
+    } catch (error) {
+        console.error('Error creating address:', error);
+        const status = getAddressErrorStatus(error);
+        return NextResponse.json(
+            { error: status !== 500 && error instanceof Error ? error.message : 'Failed to save address' },
+            { status }
+        );
+    }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { getAdminUser } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { guideAuditSnapshot, recordAdminAction } from '@/lib/admin/audit';
+import { adminDeleteGuide, adminGetGuideById, adminUpdateGuide } from '@/lib/repositories/admin/guides';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/admin/guides/[id]
+ * Update a guide and its translations
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    try {
+        const user = await getAdminUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        if (!hasPermission(user.adminRole, 'content.manage')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+
+        const before = await adminGetGuideById(id);
+        const { slug, previousSlug } = await adminUpdateGuide(id, body);
+
+        await recordAdminAction(user, {
+            action: 'guide.update',
+            entityType: 'guide',
+            entityId: id,
+            entityLabel: slug,
+            before: guideAuditSnapshot(before),
+            after: guideAuditSnapshot(await adminGetGuideById(id)),
+        });
+
+        revalidatePath('/guides');
+        revalidatePath(`/guides/${slug}`);
+        if (previousSlug !== slug) {
+            revalidatePath(`/guides/${previousSlug}`);
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error updating guide:', error);
+        return NextResponse.json(
+            {
+                error: error instanceof Error ? error.message : 'Failed to update guide',
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/admin/guides/[id]
+ * Delete a guide and its translations
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+    try {
+        const user = await getAdminUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        if (!hasPermission(user.adminRole, 'content.manage')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const { id } = await params;
+        const before = await adminGetGuideById(id);
+        const { slug } = await adminDeleteGuide(id);
+
+        await recordAdminAction(user, {
+            action: 'guide.delete',
+            entityType: 'guide',
+            entityId: id,
+            entityLabel: slug,
+            before: guideAuditSnapshot(before),
+        });
+
+        revalidatePath('/guides');
+        revalidatePath(`/guides/${slug}`);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting guide:', error);
+        return NextResponse.json(
+            {
+                error: error instanceof Error ? error.message : 'Failed to delete guide',
+            },
+            { status: 500 }
+        );
+    }
+}
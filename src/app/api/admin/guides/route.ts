@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { getAdminUser } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { guideAuditSnapshot, recordAdminAction } from '@/lib/admin/audit';
+import { adminCreateGuide, adminGetGuideById } from '@/lib/repositories/admin/guides';
+
+/**
+ * POST /api/admin/guides
+ * Create a guide with vi/en translations
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getAdminUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        if (!hasPermission(user.adminRole, 'content.manage')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const body = await request.json();
+        const guideId = await adminCreateGuide(body);
+
+        const created = await adminGetGuideById(guideId);
+        await recordAdminAction(user, {
+            action: 'guide.create',
+            entityType: 'guide',
+            entityId: guideId,
+            entityLabel: created?.slug,
+            after: guideAuditSnapshot(created),
+        });
+
+        revalidatePath('/guides');
+
+        return NextResponse.json({ success: true, id: guideId });
+    } catch (error) {
+        console.error('Error creating guide:', error);
+        return NextResponse.json(
+            {
+                error: error instanceof Error ? error.message : 'Failed to create guide',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/service';
-import { isAdmin } from '@/lib/admin/auth';
+import { getAdminUser, isAdmin } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit';
 import { 
     getDepositProofByOrderId, 
     getAllDepositProofsForOrder,
-    reviewDepositProof 
 } from '@/lib/repositories/deposit-proofs';
-import { sendDepositApprovedEmail, sendDepositRejectedEmail } from '@/lib/emails/service';
+import { adminReviewDepositProof } from '@/lib/repositories/admin/deposit-proofs';
 
 interface RouteParams {
     params: Promise<{ orderCode: string }>;
@@ -70,18 +71,24 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 /**
  * POST /api/admin/orders/[orderCode]/deposit-proof
- * Review (approve/reject) a deposit proof
+ * Review (approve/reject) a deposit proof; rejecting requires a note
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
     try {
-        // Check admin authentication
-        const adminCheck = await isAdmin();
-        if (!adminCheck) {
+        // Check admin authentication and permission
+        const adminUser = await getAdminUser();
+        if (!adminUser) {
             return NextResponse.json(
                 { error: 'Unauthorized' },
                 { status: 401 }
             );
         }
+        if (!hasPermission(adminUser.adminRole, 'orders.manage')) {
+            return NextResponse.json(
+                { error: 'Forbidden' },
+                { status: 403 }
+            );
+        }
 
         const { orderCode } = await params;
         const body = await request.json();
@@ -106,102 +113,48 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             );
         }
 
-        const supabase = createServiceClient();
-
-        // Get order by code
-        const { data: order, error: orderError } = await supabase
-            .from('orders')
-            .select('id, order_number, customer_email, customer_name, payment_status, locale, deposit_amount_vnd')
-            .eq('order_number', orderCode)
-            .single();
-
-        if (orderError || !order) {
+        if (action === 'reject' && !note?.trim()) {
             return NextResponse.json(
-                { error: 'Order not found' },
-                { status: 404 }
-            );
-        }
-
-        // Verify the proof belongs to this order
-        const { data: proofCheck } = await supabase
-            .from('deposit_transfer_proofs')
-            .select('id, order_id, status')
-            .eq('id', proofId)
-            .single();
-
-        if (!proofCheck || proofCheck.order_id !== order.id) {
-            return NextResponse.json(
-                { error: 'Proof not found for this order' },
-                { status: 404 }
-            );
-        }
-
-        if (proofCheck.status !== 'pending') {
-            return NextResponse.json(
-                { error: 'Proof has already been reviewed' },
+                { error: 'A rejection reason is required' },
                 { status: 400 }
             );
         }
 
-        // Review the proof
-        const newStatus = action === 'approve' ? 'approved' : 'rejected';
-        await reviewDepositProof({
-            proofId,
-            status: newStatus,
-            reviewNote: note,
-        });
-
-        // If approved, update order payment status
-        if (action === 'approve') {
-            const { error: updateError } = await supabase
-                .from('orders')
-                .update({
-                    payment_status: 'deposited',
-                    status: 'deposited',
-                    deposit_received_at: new Date().toISOString(),
-                })
-                .eq('id', order.id);
-
-            if (updateError) {
-                console.error('Error updating order status:', updateError);
-                // Don't fail the request - proof is already marked as approved
+        let review;
+        try {
+            review = await adminReviewDepositProof({
+                proofId,
+                action,
+                note,
+                reviewedBy: adminUser.id,
+                orderNumber: orderCode,
+            });
+        } catch (reviewError) {
+            const message = reviewError instanceof Error ? reviewError.message : '';
+            if (message === 'Proof not found for this order') {
+                return NextResponse.json({ error: message }, { status: 404 });
             }
-
-            // Send approval email
-            if (order.customer_email) {
-                try {
-                    await sendDepositApprovedEmail(order.id, {
-                        orderCode: order.order_number,
-                        customerName: order.customer_name,
-                        customerEmail: order.customer_email,
-                        depositAmount: order.deposit_amount_vnd || 0,
-                        locale: order.locale || 'vi',
-                    });
-                } catch (emailError) {
-                    console.error('Failed to send deposit approval email:', emailError);
-                }
-            }
-        } else {
-            // Send rejection email
-            if (order.customer_email) {
-                try {
-                    await sendDepositRejectedEmail(order.id, {
-                        orderCode: order.order_number,
-                        customerName: order.customer_name,
-                        customerEmail: order.customer_email,
-                        rejectionNote: note,
-                        locale: order.locale || 'vi',
-                    });
-                } catch (emailError) {
-                    console.error('Failed to send deposit rejection email:', emailError);
-                }
+            if (message === 'Proof has already been reviewed') {
+                return NextResponse.json({ error: message }, { status: 400 });
             }
+            throw reviewError;
         }
 
+        await recordAdminAction(adminUser, {
+            action: 'order.deposit_proof_reviewed',
+            entityType: 'order',
+            entityId: review.orderId,
+            entityLabel: review.orderNumber,
+            before: { proofStatus: 'pending', paymentStatus: review.paymentStatusBefore },
+            after: { proofStatus: review.proofStatus, paymentStatus: review.paymentStatusAfter },
+            metadata: { proofId, note: note?.trim() || null, depositDueExtendedTo: review.depositDueExtendedTo },
+        });
+
         return NextResponse.json({
             success: true,
             action,
             proofId,
+            depositDueExtendedTo: review.depositDueExtendedTo,
             message: action === 'approve' 
                 ? 'Deposit approved successfully' 
                 : 'Proof rejected. Customer can re-upload.',
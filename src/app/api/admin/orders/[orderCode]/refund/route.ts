@@ -1,15 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/admin/auth';
-import { adminGetOrderByCode, restoreOrderInventory, markOrderRefundPendingFromStripe } from '@/lib/repositories/admin/orders';
-import { getStripe, parseStripeMetadata } from '@/lib/stripe/server';
-import { createServiceClient } from '@/lib/supabase/service';
+import { hasPermission } from '@/lib/admin/permissions';
+import { orderAuditSnapshot, recordAdminAction } from '@/lib/admin/audit';
+import { adminGetOrderByCode, markOrderRefundPendingFromStripe } from '@/lib/repositories/admin/orders';
+import { getOrderPaymentLedger } from '@/lib/repositories/admin/payments';
+import { allocateRefund, getRefundablePayments } from '@/lib/orders/refunds';
+import { canTransitionOrderStatus } from '@/lib/orders/state-machine';
+import { transitionOrder } from '@/lib/repositories/orders/transitions';
+import { getStripe } from '@/lib/stripe/server';
 
 /**
  * POST /api/admin/orders/[orderCode]/refund
  * Admin endpoint to request a refund for an order
  * 
- * Security: Requires admin authentication
- * Flow: Creates refund request in Stripe, sets payment_status to refund_pending
+ * Security: Requires admin authentication and the orders.refund permission
+ * Flow: Splits the refund across the order's Stripe payments (deposit and balance),
+ * creates one refund per payment intent, sets payment_status to refund_pending
  * Final state: Only webhook events finalize refund state
  */
 export async function POST(
@@ -25,6 +31,12 @@ export async function POST(
                 { status: 401 }
             );
         }
+        if (!hasPermission(adminUser.adminRole, 'orders.refund')) {
+            return NextResponse.json(
+                { error: 'Forbidden' },
+                { status: 403 }
+            );
+        }
 
         const { orderCode } = await params;
         const body = await request.json();
@@ -53,91 +65,34 @@ export async function POST(
             );
         }
 
-        // Get Stripe identifiers from metadata
-        const metadata = parseStripeMetadata(order.adminNote || null);
-        const paymentIntentId = metadata.stripe_payment_intent_id;
-        const checkoutSessionId = metadata.stripe_checkout_session_id;
-
-        if (!paymentIntentId && !checkoutSessionId) {
+        // Restock cancels the order first, which must be allowed from its current status
+        if (restock && order.status !== 'cancelled' && !canTransitionOrderStatus(order.status, 'cancelled')) {
             return NextResponse.json(
-                { error: 'Refund unavailable: missing Stripe payment reference. This order was not paid via Stripe.' },
+                { error: `Order status "${order.status}" cannot be cancelled. Refund without restocking instead.` },
                 { status: 400 }
             );
         }
 
-        // Get payment intent ID (fetch from session if needed)
-        let finalPaymentIntentId = paymentIntentId;
-        if (!finalPaymentIntentId && checkoutSessionId) {
-            try {
-                const stripe = getStripe();
-                const session = await stripe.checkout.sessions.retrieve(checkoutSessionId);
-                if (typeof session.payment_intent === 'string') {
-                    finalPaymentIntentId = session.payment_intent;
-                } else if (session.payment_intent) {
-                    finalPaymentIntentId = session.payment_intent.id;
-                }
-            } catch (error) {
-                console.error('Error fetching Stripe session:', error);
-                return NextResponse.json(
-                    { error: 'Failed to retrieve Stripe payment information' },
-                    { status: 500 }
-                );
-            }
-        }
+        // Refundable amount per Stripe payment (deposit + balance), minus earlier refunds
+        const ledger = await getOrderPaymentLedger(order.id);
+        const refundablePayments = getRefundablePayments(ledger.payments, ledger.refunds);
 
-        if (!finalPaymentIntentId) {
-            return NextResponse.json(
-                { error: 'Refund unavailable: could not determine payment intent ID' },
-                { status: 400 }
+        if (refundablePayments.length === 0) {
+            const paidViaStripe = ledger.payments.some(
+                (payment) => payment.provider === 'stripe' && payment.status === 'succeeded'
             );
-        }
-
-        // Handle restock option: cancel order + restore inventory first
-        if (restock) {
-            if (order.status !== 'cancelled') {
-                // Cancel order and restore inventory
-                const supabase = createServiceClient();
-                
-                // Restore inventory
-                await restoreOrderInventory(order.id);
-
-                // Update order status to cancelled
-                await supabase
-                    .from('orders')
-                    .update({ status: 'cancelled' })
-                    .eq('id', order.id);
-
-                // Insert status history
-                await supabase
-                    .from('order_status_history')
-                    .insert({
-                        order_id: order.id,
-                        from_status: order.status,
-                        to_status: 'cancelled',
-                        note: note || 'Order cancelled before refund (restock requested)',
-                        changed_by: adminUser.id,
-                    });
-            }
-        }
-
-        // Determine refund amount
-        // For deposit orders, use deposit amount; for normal orders, use total
-        const paidAmount = order.orderType === 'deposit_reservation' 
-            ? (order.depositAmountVnd || 0)
-            : order.total;
-
-        // Check existing refunds
-        const existingRefunds = metadata.stripe_refunds;
-        const alreadyRefunded = existingRefunds?.total_refunded_amount || 0;
-        const remainingRefundable = paidAmount - alreadyRefunded;
-
-        if (remainingRefundable <= 0) {
             return NextResponse.json(
-                { error: 'Order is already fully refunded' },
+                {
+                    error: paidViaStripe
+                        ? 'Order is already fully refunded'
+                        : 'Refund unavailable: missing Stripe payment reference. This order was not paid via Stripe.',
+                },
                 { status: 400 }
             );
         }
 
+        const remainingRefundable = refundablePayments.reduce((sum, entry) => sum + entry.refundable, 0);
+
         // Determine refund amount
         const refundAmount = amount ? Math.min(amount, remainingRefundable) : remainingRefundable;
 
@@ -148,64 +103,123 @@ export async function POST(
             );
         }
 
-        // Create Stripe refund
+        // Split the refund across payments (balance first, then deposit)
+        const allocations = allocateRefund(refundablePayments, refundAmount);
         const stripe = getStripe();
-        let refund;
-        try {
-            // Retrieve payment intent to get charge ID
-            const paymentIntent = await stripe.paymentIntents.retrieve(finalPaymentIntentId);
-            const chargeId = typeof paymentIntent.latest_charge === 'string' 
-                ? paymentIntent.latest_charge 
-                : paymentIntent.latest_charge?.id;
-
-            if (!chargeId) {
+
+        // Resolve each payment intent before anything is changed
+        const paymentIntentIds = new Map<string, string>();
+        for (const { payment } of allocations) {
+            let paymentIntentId = payment.externalPaymentId;
+            if (!paymentIntentId && payment.externalSessionId) {
+                try {
+                    const session = await stripe.checkout.sessions.retrieve(payment.externalSessionId);
+                    if (typeof session.payment_intent === 'string') {
+                        paymentIntentId = session.payment_intent;
+                    } else if (session.payment_intent) {
+                        paymentIntentId = session.payment_intent.id;
+                    }
+                } catch (error) {
+                    console.error('Error fetching Stripe session:', error);
+                    return NextResponse.json(
+                        { error: 'Failed to retrieve Stripe payment information' },
+                        { status: 500 }
+                    );
+                }
+            }
+
+            if (!paymentIntentId) {
                 return NextResponse.json(
-                    { error: 'Could not find charge ID for refund' },
+                    { error: 'Refund unavailable: could not determine payment intent ID' },
                     { status: 400 }
                 );
             }
+            paymentIntentIds.set(payment.id, paymentIntentId);
+        }
+
+        // Handle restock option: cancel order (restores inventory) first
+        if (restock && order.status !== 'cancelled') {
+            await transitionOrder(
+                { id: order.id },
+                { status: 'cancelled' },
+                {
+                    note: note || 'Order cancelled before refund (restock requested)',
+                    changedBy: adminUser.id,
+                    notify: false, // The customer gets the refund email instead
+                }
+            );
+        }
+
+        // Create one Stripe refund per payment, against the payment intent that took the money
+        const refunds: { id: string; paymentId: string; amount: number; status: string | null }[] = [];
+        for (const allocation of allocations) {
+            let refund;
+            try {
+                refund = await stripe.refunds.create({
+                    payment_intent: paymentIntentIds.get(allocation.payment.id),
+                    amount: allocation.amount,
+                    reason: reason || undefined,
+                    metadata: {
+                        order_id: order.id,
+                        order_code: orderCode,
+                        payment_kind: allocation.payment.kind,
+                        refund_requested_by: adminUser.id,
+                        refund_note: note || '',
+                    },
+                });
+            } catch (error) {
+                console.error('Error creating Stripe refund:', error);
+                return NextResponse.json(
+                    {
+                        error: 'Failed to create refund in Stripe',
+                        details: error instanceof Error ? error.message : 'Unknown error',
+                        refunds, // Refunds already created for other payments of this order
+                    },
+                    { status: 500 }
+                );
+            }
 
-            // Create refund
-            refund = await stripe.refunds.create({
-                charge: chargeId,
-                amount: refundAmount,
+            // Record refund request in the ledger and set payment_status to refund_pending
+            await markOrderRefundPendingFromStripe(order.id, {
+                refundId: refund.id,
+                amount: allocation.amount,
+                currency: refund.currency,
+                paymentId: allocation.payment.id,
                 reason: reason || undefined,
-                metadata: {
-                    order_id: order.id,
-                    order_code: orderCode,
-                    refund_requested_by: adminUser.id,
-                    refund_note: note || '',
-                },
+                note: note || undefined,
+                restock: restock || false,
+                requestedBy: adminUser.id,
+            });
+
+            refunds.push({
+                id: refund.id,
+                paymentId: allocation.payment.id,
+                amount: allocation.amount,
+                status: refund.status,
             });
-        } catch (error) {
-            console.error('Error creating Stripe refund:', error);
-            return NextResponse.json(
-                {
-                    error: 'Failed to create refund in Stripe',
-                    details: error instanceof Error ? error.message : 'Unknown error',
-                },
-                { status: 500 }
-            );
         }
 
-        // Store refund request in order metadata and set payment_status to refund_pending
-        await markOrderRefundPendingFromStripe(order.id, {
-            refundId: refund.id,
-            amount: refundAmount,
-            currency: refund.currency,
-            reason: reason || undefined,
-            note: note || undefined,
-            restock: restock || false,
+        await recordAdminAction(adminUser, {
+            action: 'order.refund',
+            entityType: 'order',
+            entityId: order.id,
+            entityLabel: orderCode,
+            before: orderAuditSnapshot(order),
+            after: orderAuditSnapshot(await adminGetOrderByCode(orderCode)),
+            metadata: {
+                refunds: refunds.map(({ id, paymentId, amount }) => ({ id, paymentId, amount })),
+                amount: refundAmount,
+                reason: reason || null,
+                restock: restock || false,
+                note: note || null,
+            },
         });
 
         return NextResponse.json({
             success: true,
             message: 'Refund requested successfully. Waiting for Stripe webhook to finalize.',
-            refund: {
-                id: refund.id,
-                amount: refundAmount,
-                status: refund.status,
-            },
+            amount: refundAmount,
+            refunds,
         });
     } catch (error) {
         console.error('Error processing refund request:', error);
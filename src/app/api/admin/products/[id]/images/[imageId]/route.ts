@@ -1,9 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminUser } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit';
 import { createServiceClient } from '@/lib/supabase/service';
 
 const STORAGE_BUCKET = 'product-images';
 
+interface ImageAuditRow {
+    alt_text: string | null;
+    sort_order: number;
+    is_primary: boolean;
+}
+
+function imageAuditSnapshot(image: ImageAuditRow | null) {
+    return image
+        ? { altText: image.alt_text, sortOrder: image.sort_order, isPrimary: image.is_primary }
+        : null;
+}
+
 /**
  * PATCH /api/admin/products/[id]/images/[imageId]
  * Update image metadata (alt_text, sort_order, or set as cover)
@@ -17,6 +31,9 @@ export async function PATCH(
         if (!user) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (!hasPermission(user.adminRole, 'products.edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
 
         const { id: productId, imageId } = await params;
         const body = await request.json();
@@ -126,6 +143,15 @@ export async function PATCH(
                 return NextResponse.json({ error: updateError.message }, { status: 500 });
             }
 
+            await recordAdminAction(user, {
+                action: 'product.image_update',
+                entityType: 'product',
+                entityId: productId,
+                before: imageAuditSnapshot(currentImage),
+                after: imageAuditSnapshot(updatedImage),
+                metadata: { imageId },
+            });
+
             return NextResponse.json({ success: true, image: updatedImage });
         }
 
@@ -136,6 +162,15 @@ export async function PATCH(
             .eq('id', imageId)
             .single();
 
+        await recordAdminAction(user, {
+            action: 'product.image_update',
+            entityType: 'product',
+            entityId: productId,
+            before: imageAuditSnapshot(currentImage),
+            after: imageAuditSnapshot(updatedImage),
+            metadata: { imageId },
+        });
+
         return NextResponse.json({ success: true, image: updatedImage });
     } catch (error) {
         console.error('Error updating image:', error);
@@ -159,6 +194,9 @@ export async function DELETE(
         if (!user) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (!hasPermission(user.adminRole, 'products.edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
 
         const { id: productId, imageId } = await params;
         const supabase = createServiceClient();
@@ -166,7 +204,7 @@ export async function DELETE(
         // Get image record to get storage_path and check if it's primary
         const { data: image, error: fetchError } = await supabase
             .from('product_images')
-            .select('storage_path, sort_order, is_primary')
+            .select('storage_path, alt_text, sort_order, is_primary')
             .eq('id', imageId)
             .eq('product_id', productId)
             .single();
@@ -229,6 +267,14 @@ export async function DELETE(
             }
         }
 
+        await recordAdminAction(user, {
+            action: 'product.image_delete',
+            entityType: 'product',
+            entityId: productId,
+            before: { storagePath: image.storage_path, ...imageAuditSnapshot(image) },
+            metadata: { imageId },
+        });
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error('Error deleting image:', error);
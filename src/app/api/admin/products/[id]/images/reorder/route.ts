@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminUser } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit';
 import { createServiceClient } from '@/lib/supabase/service';
 
 /**
@@ -16,6 +18,9 @@ export async function PATCH(
         if (!user) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (!hasPermission(user.adminRole, 'products.edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
 
         const { id: productId } = await params;
         const body = await request.json();
@@ -33,7 +38,7 @@ export async function PATCH(
         // Verify all images belong to this product
         const { data: allImages, error: fetchError } = await supabase
             .from('product_images')
-            .select('id, is_primary')
+            .select('id, sort_order, is_primary')
             .eq('product_id', productId);
 
         if (fetchError) {
@@ -105,6 +110,19 @@ export async function PATCH(
             return NextResponse.json({ error: finalFetchError.message }, { status: 500 });
         }
 
+        await recordAdminAction(user, {
+            action: 'product.image_reorder',
+            entityType: 'product',
+            entityId: productId,
+            before: {
+                order: [...(allImages || [])]
+                    .sort((a, b) => a.sort_order - b.sort_order)
+                    .map((img) => img.id),
+                primaryImageId: primaryImage?.id ?? null,
+            },
+            after: { order: imageIds, primaryImageId },
+        });
+
         return NextResponse.json({
             success: true,
             images: updatedImages || [],
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminUser } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit';
 import { createServiceClient } from '@/lib/supabase/service';
 import { validateImageFile, generateStoragePath } from '@/lib/utils/images';
 import { v4 as uuidv4 } from 'uuid';
@@ -19,6 +21,9 @@ export async function POST(
         if (!user) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (!hasPermission(user.adminRole, 'products.edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
 
         const { id: productId } = await params;
 
@@ -123,6 +128,19 @@ export async function POST(
             );
         }
 
+        await recordAdminAction(user, {
+            action: 'product.image_upload',
+            entityType: 'product',
+            entityId: productId,
+            after: {
+                imageId: imageRecord.id,
+                storagePath: imageRecord.storage_path,
+                altText: imageRecord.alt_text,
+                sortOrder: imageRecord.sort_order,
+                isPrimary: imageRecord.is_primary,
+            },
+        });
+
         return NextResponse.json({
             success: true,
             image: {
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminUser } from '@/lib/admin/auth';
-import { adminUpdateProduct } from '@/lib/repositories/admin/products';
+import { hasPermission } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit';
+import {
+    adminDeleteProduct,
+    adminGetProductAuditSnapshot,
+    adminGetProductById,
+    adminUpdateProduct,
+} from '@/lib/repositories/admin/products';
 
 /**
  * PUT /api/admin/products/[id]
@@ -15,12 +22,52 @@ export async function PUT(
         if (!user) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (!hasPermission(user.adminRole, 'products.edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
 
         const { id } = await params;
         const body = await request.json();
 
+        const current = await adminGetProductById(id);
+        if (!current) {
+            return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+        }
+
+        // Price changes need their own permission
+        if (!hasPermission(user.adminRole, 'products.price')) {
+            const priceChanged = body.price !== undefined && Number(body.price) !== Number(current.priceVnd);
+            const compareAtPriceChanged = body.compareAtPrice !== undefined && Number(body.compareAtPrice) !== Number(current.compareAtPriceVnd || 0);
+            if (priceChanged || compareAtPriceChanged) {
+                return NextResponse.json(
+                    { error: 'You do not have permission to change prices' },
+                    { status: 403 }
+                );
+            }
+        }
+
+        // Unpriced drafts (created without products.price) can't be published
+        if (body.isPublished && !(Number(body.price ?? current.priceVnd) > 0)) {
+            return NextResponse.json(
+                { error: 'A product needs a price before it can be published' },
+                { status: 400 }
+            );
+        }
+
+        const before = await adminGetProductAuditSnapshot(id);
+
         await adminUpdateProduct({ ...body, id });
 
+        const after = await adminGetProductAuditSnapshot(id);
+        await recordAdminAction(user, {
+            action: 'product.update',
+            entityType: 'product',
+            entityId: id,
+            entityLabel: (after?.slug || before?.slug) as string | undefined,
+            before,
+            after,
+        });
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error('Error updating product:', error);
@@ -33,3 +80,45 @@ export async function PUT(
     }
 }
 
+/**
+ * DELETE /api/admin/products/[id]
+ * Delete a product (requires the products.delete permission)
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getAdminUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        if (!hasPermission(user.adminRole, 'products.delete')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const { id } = await params;
+
+        const before = await adminGetProductAuditSnapshot(id);
+
+        await adminDeleteProduct(id);
+
+        await recordAdminAction(user, {
+            action: 'product.delete',
+            entityType: 'product',
+            entityId: id,
+            entityLabel: before?.slug as string | undefined,
+            before,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting product:', error);
+        return NextResponse.json(
+            {
+                error: error instanceof Error ? error.message : 'Failed to delete product',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,102 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAdminUser } from '@/lib/admin/auth';
+import type { AdminRole } from '@/lib/admin/permissions';
+import { adminCreateProduct } from '@/lib/repositories/admin/products';
+import { POST } from './route';
+
+vi.mock('@/lib/admin/auth', () => ({ getAdminUser: vi.fn() }));
+vi.mock('@/lib/admin/audit', () => ({ recordAdminAction: vi.fn() }));
+vi.mock('@/lib/supabase/service', () => ({ createServiceClient: vi.fn() }));
+vi.mock('@/lib/repositories/admin/products', () => ({
+    adminCreateProduct: vi.fn(async () => 'product-1'),
+    adminGetProductAuditSnapshot: vi.fn(async () => null),
+}));
+
+const DRAFT = {
+    slug: 'ampli-300b',
+    stockQuantity: 1,
+    condition: 'vintage',
+    topology: 'se',
+    tubeType: '300B',
+    powerWatts: 8,
+    isPublished: false,
+    translations: { vi: { name: 'Ampli 300B' }, en: { name: '300B amplifier' } },
+};
+
+function signInAs(role: AdminRole | null) {
+    vi.mocked(getAdminUser).mockResolvedValue(
+        role ? ({ id: 'admin-1', email: 'staff@example.com', adminRole: role } as Awaited<ReturnType<typeof getAdminUser>>) : null
+    );
+}
+
+function createProduct(productData: Record<string, unknown>) {
+    const formData = new FormData();
+    formData.append('productData', JSON.stringify(productData));
+    return POST(new NextRequest('http://localhost/api/admin/products', { method: 'POST', body: formData }));
+}
+
+describe('POST /api/admin/products', () => {
+    beforeEach(() => {
+        vi.mocked(adminCreateProduct).mockClear();
+    });
+
+    it('rejects signed-out users', async () => {
+        signInAs(null);
+
+        expect((await createProduct({ ...DRAFT, price: 12000000 })).status).toBe(401);
+    });
+
+    it.each<AdminRole>(['order_manager', 'support'])('rejects %s (no products.edit)', async (role) => {
+        signInAs(role);
+
+        expect((await createProduct({ ...DRAFT, price: 12000000 })).status).toBe(403);
+        expect(adminCreateProduct).not.toHaveBeenCalled();
+    });
+
+    it('lets an owner create a priced, published product', async () => {
+        signInAs('owner');
+
+        const response = await createProduct({ ...DRAFT, price: 12000000, compareAtPrice: 15000000, isPublished: true });
+
+        expect(response.status).toBe(200);
+        expect(adminCreateProduct).toHaveBeenCalledWith(
+            expect.objectContaining({ price: 12000000, compareAtPrice: 15000000, isPublished: true })
+        );
+    });
+
+    it('does not let an owner publish without a price', async () => {
+        signInAs('owner');
+
+        expect((await createProduct({ ...DRAFT, isPublished: true })).status).toBe(400);
+        expect(adminCreateProduct).not.toHaveBeenCalled();
+    });
+
+    it('lets a catalog editor create an unpriced draft', async () => {
+        signInAs('catalog_editor');
+
+        const response = await createProduct(DRAFT);
+
+        expect(response.status).toBe(200);
+        expect(adminCreateProduct).toHaveBeenCalledWith(expect.objectContaining({ price: 0, compareAtPrice: undefined }));
+    });
+
+    it.each([
+        ['price', { price: 12000000 }],
+        ['compare-at price', { compareAtPrice: 15000000 }],
+    ])('rejects a catalog editor setting the %s', async (_field, prices) => {
+        signInAs('catalog_editor');
+
+        const response = await createProduct({ ...DRAFT, ...prices });
+
+        expect(response.status).toBe(403);
+        expect(adminCreateProduct).not.toHaveBeenCalled();
+    });
+
+    it('does not let a catalog editor publish an unpriced product', async () => {
+        signInAs('catalog_editor');
+
+        expect((await createProduct({ ...DRAFT, isPublished: true })).status).toBe(400);
+        expect(adminCreateProduct).not.toHaveBeenCalled();
+    });
+});
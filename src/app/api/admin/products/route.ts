@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminUser } from '@/lib/admin/auth';
-import { adminCreateProduct } from '@/lib/repositories/admin/products';
+import { hasPermission } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit';
+import { adminCreateProduct, adminGetProductAuditSnapshot } from '@/lib/repositories/admin/products';
 import { createServiceClient } from '@/lib/supabase/service';
 import { validateImageFile, generateStoragePath } from '@/lib/utils/images';
 import { v4 as uuidv4 } from 'uuid';
@@ -11,6 +13,8 @@ const STORAGE_BUCKET = 'product-images';
  * POST /api/admin/products
  * Create a new product with optional images
  * Accepts multipart/form-data with product data and images
+ * Requires products.edit; setting price / compareAtPrice also requires products.price
+ * (without it the product is created as an unpriced draft)
  */
 export async function POST(request: NextRequest) {
     try {
@@ -18,6 +22,9 @@ export async function POST(request: NextRequest) {
         if (!user) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (!hasPermission(user.adminRole, 'products.edit')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
 
         const formData = await request.formData();
         
@@ -28,6 +35,26 @@ export async function POST(request: NextRequest) {
         }
 
         const productData = JSON.parse(productDataJson);
+
+        // Setting prices needs its own permission (same rule as PUT /api/admin/products/[id]);
+        // without it the product is created unpriced (price 0) for someone else to price
+        if (!hasPermission(user.adminRole, 'products.price')) {
+            if (Number(productData.price || 0) !== 0 || Number(productData.compareAtPrice || 0) !== 0) {
+                return NextResponse.json(
+                    { error: 'You do not have permission to set prices' },
+                    { status: 403 }
+                );
+            }
+            productData.price = 0;
+            productData.compareAtPrice = undefined;
+        }
+
+        if (productData.isPublished && !(Number(productData.price) > 0)) {
+            return NextResponse.json(
+                { error: 'A product needs a price before it can be published' },
+                { status: 400 }
+            );
+        }
         
         // Create product first (we need the ID to upload images)
         const productId = await adminCreateProduct(productData);
@@ -109,6 +136,15 @@ export async function POST(request: NextRequest) {
             }
         }
 
+        await recordAdminAction(user, {
+            action: 'product.create',
+            entityType: 'product',
+            entityId: productId,
+            entityLabel: productData.slug,
+            after: await adminGetProductAuditSnapshot(productId),
+            metadata: { imagesUploaded: uploadedImages.length },
+        });
+
         return NextResponse.json({ 
             success: true, 
             id: productId,
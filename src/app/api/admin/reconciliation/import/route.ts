@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/admin/auth';
+import { hasPermission } from '@/lib/admin/permissions';
+import { recordAdminAction } from '@/lib/admin/audit';
+import { BANK_BINS } from '@/lib/vietqr/generator';
+import { readSpreadsheet } from '@/lib/reconciliation/spreadsheet';
+import { parseBankStatement } from '@/lib/reconciliation/statement';
+import { importBankStatement } from '@/lib/repositories/admin/reconciliation';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * POST /api/admin/reconciliation/import
+ * Upload a bank statement (CSV/XLSX), match incoming transfers to orders
+ *
+ * Form fields: file, bankCode (key of BANK_BINS), autoApply ('true' to apply exact matches)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getAdminUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        if (!hasPermission(user.adminRole, 'orders.manage')) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File | null;
+        const bankCode = (formData.get('bankCode') as string) || '';
+        const autoApply = formData.get('autoApply') === 'true';
+
+        if (!file) {
+            return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+        }
+
+        if (file.size > MAX_FILE_SIZE) {
+            return NextResponse.json({ error: 'File too large (max 5MB)' }, { status: 400 });
+        }
+
+        if (!BANK_BINS[bankCode]) {
+            return NextResponse.json({ error: 'Unknown bank' }, { status: 400 });
+        }
+
+        let parsed;
+        try {
+            const buffer = Buffer.from(await file.arrayBuffer());
+            parsed = parseBankStatement(readSpreadsheet(file.name, buffer));
+        } catch (parseError) {
+            return NextResponse.json(
+                {
+                    error: 'Could not read bank statement',
+                    details: parseError instanceof Error ? parseError.message : 'Unknown error',
+                },
+                { status: 400 }
+            );
+        }
+
+        if (parsed.transactions.length === 0) {
+            return NextResponse.json(
+                { error: 'No incoming transactions found in statement' },
+                { status: 400 }
+            );
+        }
+
+        const result = await importBankStatement({
+            bankCode,
+            fileName: file.name,
+            transactions: parsed.transactions,
+            skippedRows: parsed.skippedRows,
+            uploadedBy: user.id,
+            autoApply,
+        });
+
+        await recordAdminAction(user, {
+            action: 'bank_statement.import',
+            entityType: 'bank_statement',
+            entityId: result.importId,
+            entityLabel: file.name,
+            after: { ...result },
+            metadata: { bankCode, autoApply },
+        });
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error importing bank statement:', error);
+        return NextResponse.json(
+            {
+                error: 'Internal server error',
+                details: error instanceof Error ? error.message : 'Unknown error',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processOutbox } from '@/lib/emails/outbox';
+
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Email outbox worker
+ * Delivers due messages (new, and failed ones whose backoff has elapsed).
+ * Called every minute by pg_cron (supabase/SCHEDULE_EMAIL_OUTBOX.sql)
+ * with `Authorization: Bearer <CRON_SECRET>`.
+ */
+async function handle(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        return NextResponse.json({ error: 'CRON_SECRET not set' }, { status: 500 });
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 20, MAX_BATCH_SIZE);
+        const result = await processOutbox(limit);
+
+        if (result.claimed > 0) {
+            console.log(
+                `[email-outbox] ${result.claimed} claimed: ${result.sent} sent, ${result.retrying} retrying, ${result.dead} dead`
+            );
+        }
+
+        return NextResponse.json({ ok: true, ...result });
+    } catch (error) {
+        console.error('Error processing email outbox:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to process email outbox' },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = handle;
+export const POST = handle;
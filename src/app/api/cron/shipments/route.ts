@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncDueShipments } from '@/lib/repositories/orders/shipments';
+
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Shipment tracking poller
+ * Fetches new events from carriers with a tracking API (GHN, GHTK) for
+ * shipments that aren't delivered yet; a delivered event marks the order
+ * delivered. Called every 30 minutes by pg_cron
+ * (supabase/SCHEDULE_SHIPMENT_SYNC.sql) with `Authorization: Bearer <CRON_SECRET>`.
+ */
+async function handle(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        return NextResponse.json({ error: 'CRON_SECRET not set' }, { status: 500 });
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 50, MAX_BATCH_SIZE);
+        const result = await syncDueShipments(limit);
+
+        if (result.checked > 0) {
+            console.log(
+                `[shipments] ${result.checked} checked: ${result.recorded} new events, ${result.failed} failed`
+            );
+        }
+
+        return NextResponse.json({ ok: true, ...result });
+    } catch (error) {
+        console.error('Error syncing shipments:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to sync shipments' },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateDiscountForCart } from '@/lib/repositories/discounts';
+
+const MAX_ITEMS = 50;
+const MAX_CODE_LENGTH = 40;
+
+/**
+ * POST /api/discounts/validate
+ * Check a discount code against the cart (cart and checkout preview)
+ *
+ * Body: { code, items: [{ productId, quantity }] }
+ * Returns { valid: true, discount } or { valid: false, reason }. POST
+ * /api/orders evaluates the code again, including per-customer limits.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const code = typeof body.code === 'string' ? body.code.trim() : '';
+        const items = Array.isArray(body.items) ? body.items : [];
+
+        if (!code || code.length > MAX_CODE_LENGTH) {
+            return NextResponse.json({ error: 'Invalid code' }, { status: 400 });
+        }
+
+        const validItems = items.every(
+            (item: { productId?: unknown; quantity?: unknown }) =>
+                typeof item?.productId === 'string' &&
+                Number.isInteger(item.quantity) &&
+                Number(item.quantity) > 0
+        );
+        if (items.length === 0 || items.length > MAX_ITEMS || !validItems) {
+            return NextResponse.json({ error: 'Invalid items' }, { status: 400 });
+        }
+
+        const evaluation = await validateDiscountForCart(code, items);
+
+        return NextResponse.json(
+            evaluation.ok
+                ? { valid: true, discount: evaluation.discount }
+                : { valid: false, reason: evaluation.reason }
+        );
+    } catch (error) {
+        console.error('Discount validation error:', error);
+        return NextResponse.json({ error: 'Failed to validate discount code' }, { status: 500 });
+    }
+}
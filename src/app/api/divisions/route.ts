@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDistricts, getProvinces, getWards } from '@/lib/divisions';
+
+/**
+ * GET /api/divisions
+ * Options for the cascading address selects, one level at a time
+ *
+ * ?province=<code>: districts of the province
+ * ?district=<code>: wards of the district
+ * (neither): provinces
+ * Unknown codes get an empty list, like the island districts without wards.
+ */
+export async function GET(request: NextRequest) {
+    const provinceCode = request.nextUrl.searchParams.get('province');
+    const districtCode = request.nextUrl.searchParams.get('district');
+
+    const options = districtCode
+        ? getWards(districtCode)
+        : provinceCode
+          ? getDistricts(provinceCode)
+          : getProvinces();
+
+    // The dataset only changes with a deploy
+    return NextResponse.json(
+        { options },
+        { headers: { 'Cache-Control': 'public, max-age=86400' } }
+    );
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/user';
+import { recommendProducts } from '@/lib/repositories/matching';
+import { MATCHING_GENRES } from '@/lib/matching/scoring';
+import type { ListeningLevel, MatchingInput, RoomSize, SpeakerImpedance } from '@/lib/types/matching';
+
+const ROOM_SIZES: RoomSize[] = ['small', 'medium', 'large'];
+const LISTENING_LEVELS: ListeningLevel[] = ['low', 'medium', 'loud'];
+const IMPEDANCES: SpeakerImpedance[] = [4, 6, 8, 16];
+
+/**
+ * POST /api/matching
+ * Rank published amplifiers for the customer's speakers and room
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const speakerSensitivity = Number(body.speakerSensitivity);
+        const speakerImpedance = Number(body.speakerImpedance) as SpeakerImpedance;
+
+        // Validation
+        if (!Number.isFinite(speakerSensitivity) || speakerSensitivity < 80 || speakerSensitivity > 110) {
+            return NextResponse.json(
+                { error: 'Speaker sensitivity must be between 80 and 110 dB' },
+                { status: 400 }
+            );
+        }
+
+        if (!IMPEDANCES.includes(speakerImpedance)) {
+            return NextResponse.json(
+                { error: 'Speaker impedance must be 4, 6, 8 or 16 ohms' },
+                { status: 400 }
+            );
+        }
+
+        if (!ROOM_SIZES.includes(body.roomSize)) {
+            return NextResponse.json(
+                { error: 'Invalid room size' },
+                { status: 400 }
+            );
+        }
+
+        if (!LISTENING_LEVELS.includes(body.listeningLevel)) {
+            return NextResponse.json(
+                { error: 'Invalid listening level' },
+                { status: 400 }
+            );
+        }
+
+        const genres: string[] = Array.isArray(body.genres)
+            ? body.genres.filter((genre: unknown): genre is string =>
+                typeof genre === 'string' && (MATCHING_GENRES as readonly string[]).includes(genre))
+            : [];
+
+        const input: MatchingInput = {
+            speakerSensitivity: Math.round(speakerSensitivity),
+            speakerImpedance,
+            roomSize: body.roomSize,
+            listeningLevel: body.listeningLevel,
+            genres,
+        };
+
+        // Attach to account if signed in (optional)
+        const user = await getCurrentUser();
+
+        const result = await recommendProducts(input, user?.id || null);
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('Error matching products:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
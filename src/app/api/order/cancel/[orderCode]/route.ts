@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/service';
 import { verifyTokenForOrder } from '@/lib/orderTrackingTokens';
-import { restoreOrderInventory } from '@/lib/repositories/admin/orders';
+import { transitionOrder } from '@/lib/repositories/orders/transitions';
 import { sendOrderCancellationEmail } from '@/lib/emails/service';
 import { defaultLocale, type Locale } from '@/config/locales';
 
@@ -71,44 +71,20 @@ export async function POST(
             );
         }
 
-        // Cancel order
-        const { error: updateError } = await supabase
-            .from('orders')
-            .update({
-                status: 'cancelled',
-                customer_note: order.customer_note 
-                    ? `${order.customer_note}\n\n[CANCELLED BY CUSTOMER] Reason: ${reason}`
-                    : `[CANCELLED BY CUSTOMER] Reason: ${reason}`,
-            })
-            .eq('id', order.id);
-
-        if (updateError) {
-            console.error('Error cancelling order:', updateError);
-            return NextResponse.json(
-                { error: 'Failed to cancel order' },
-                { status: 500 }
-            );
-        }
-
-        // Create status history entry
-        await supabase
-            .from('order_status_history')
-            .insert({
-                order_id: order.id,
-                from_status: order.status,
-                to_status: 'cancelled',
+        // Cancel order (releases inventory); the cancellation email below replaces the status email
+        await transitionOrder(
+            { id: order.id },
+            { status: 'cancelled' },
+            {
                 note: `Cancelled by customer. Reason: ${reason}`,
-                changed_by: null, // Customer-initiated
-            });
-
-        // Restore inventory
-        try {
-            await restoreOrderInventory(order.id);
-        } catch (inventoryError) {
-            console.error('Error restoring inventory:', inventoryError);
-            // Don't fail the cancellation if inventory restoration fails
-            // Admin can manually restore if needed
-        }
+                notify: false,
+                fields: {
+                    customer_note: order.customer_note
+                        ? `${order.customer_note}\n\n[CANCELLED BY CUSTOMER] Reason: ${reason}`
+                        : `[CANCELLED BY CUSTOMER] Reason: ${reason}`,
+                },
+            }
+        );
 
         // Send cancellation email (non-blocking)
         if (order.customer_email) {
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { verifyTokenForOrder } from '@/lib/orderTrackingTokens';
+import { sendChangeRequestEmail } from '@/lib/emails/service';
+import { addCustomerFollowUp, MAX_CHANGE_REQUEST_MESSAGE_LENGTH } from '@/lib/repositories/change-requests';
+import { defaultLocale, type Locale } from '@/config/locales';
+import {
+    checkLockouts,
+    enforceRateLimits,
+    getClientIp,
+    LOCKOUTS,
+    RATE_LIMITS,
+    recordFailedAttempt,
+} from '@/lib/rate-limit';
+
+/**
+ * POST /api/order/change-request/[orderCode]/reply
+ * Customer follow-up on an open change request thread
+ *
+ * Security: Requires valid tracking token; the request must belong to the order
+ * Behavior: Appends to the thread and emails the admin
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ orderCode: string }> }
+) {
+    try {
+        const { orderCode } = await params;
+        const clientIp = getClientIp(request);
+        const lockouts = [{ rule: LOCKOUTS.tokenPerClient, key: [clientIp, orderCode] }];
+        const limited =
+            (await enforceRateLimits([
+                { rule: RATE_LIMITS.changeRequestPerIp, key: [clientIp] },
+                { rule: RATE_LIMITS.changeRequestPerOrder, key: [clientIp, orderCode] },
+            ])) || (await checkLockouts(lockouts));
+        if (limited) {
+            return limited;
+        }
+
+        const body = await request.json();
+        const { token, requestId } = body;
+        const message = typeof body.message === 'string' ? body.message.trim() : '';
+
+        if (!requestId || typeof requestId !== 'string') {
+            return NextResponse.json(
+                { error: 'requestId is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!message) {
+            return NextResponse.json(
+                { error: 'Message is required' },
+                { status: 400 }
+            );
+        }
+
+        if (message.length > MAX_CHANGE_REQUEST_MESSAGE_LENGTH) {
+            return NextResponse.json(
+                { error: 'Message is too long' },
+                { status: 400 }
+            );
+        }
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Tracking token is required' },
+                { status: 400 }
+            );
+        }
+
+        const supabase = createServiceClient();
+
+        // Get order by order code
+        const { data: order, error: orderError } = await supabase
+            .from('orders')
+            .select('id, customer_email, customer_name, locale')
+            .eq('order_number', orderCode)
+            .single();
+
+        if (orderError || !order) {
+            return NextResponse.json(
+                { error: 'Order not found' },
+                { status: 404 }
+            );
+        }
+
+        const isValid = await verifyTokenForOrder(order.id, token);
+        if (!isValid) {
+            await recordFailedAttempt(lockouts);
+            return NextResponse.json(
+                { error: 'Invalid or expired tracking token' },
+                { status: 401 }
+            );
+        }
+
+        let result: Awaited<ReturnType<typeof addCustomerFollowUp>>;
+        try {
+            result = await addCustomerFollowUp(order.id, requestId, message);
+        } catch (error) {
+            return NextResponse.json(
+                { error: error instanceof Error ? error.message : 'Failed to add message' },
+                { status: 400 }
+            );
+        }
+
+        try {
+            const locale = (order.locale === 'vi' || order.locale === 'en')
+                ? order.locale
+                : defaultLocale;
+
+            await sendChangeRequestEmail(order.id, {
+                orderCode,
+                customerName: order.customer_name,
+                customerEmail: order.customer_email || '',
+                message: result.message.body,
+                category: result.request.category,
+                eventId: result.message.id,
+                isFollowUp: true,
+                locale: locale as Locale,
+            });
+        } catch (emailError) {
+            console.error('Failed to send change request follow-up email:', emailError);
+            // Don't throw - email failure shouldn't break the reply
+        }
+
+        return NextResponse.json({
+            success: true,
+            message: result.message,
+        });
+    } catch (error) {
+        console.error('Error processing change request reply:', error);
+        return NextResponse.json(
+            { error: 'Failed to send reply' },
+            { status: 500 }
+        );
+    }
+}
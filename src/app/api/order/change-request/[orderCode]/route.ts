@@ -2,14 +2,27 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/service';
 import { verifyTokenForOrder } from '@/lib/orderTrackingTokens';
 import { sendChangeRequestEmail } from '@/lib/emails/service';
+import {
+    createChangeRequest,
+    isChangeRequestCategory,
+    MAX_CHANGE_REQUEST_MESSAGE_LENGTH,
+} from '@/lib/repositories/change-requests';
 import { defaultLocale, type Locale } from '@/config/locales';
+import {
+    checkLockouts,
+    enforceRateLimits,
+    getClientIp,
+    LOCKOUTS,
+    RATE_LIMITS,
+    recordFailedAttempt,
+} from '@/lib/rate-limit';
 
 /**
  * POST /api/order/change-request/[orderCode]
  * Customer-initiated change request
  * 
  * Security: Requires valid tracking token
- * Behavior: Logs request, sends email to admin, no automatic order modification
+ * Behavior: Stores the request (admin inbox), emails the admin, no automatic order modification
  */
 export async function POST(
     request: NextRequest,
@@ -17,22 +30,47 @@ export async function POST(
 ) {
     try {
         const { orderCode } = await params;
+        const clientIp = getClientIp(request);
+        const lockouts = [{ rule: LOCKOUTS.tokenPerClient, key: [clientIp, orderCode] }];
+        const limited =
+            (await enforceRateLimits([
+                { rule: RATE_LIMITS.changeRequestPerIp, key: [clientIp] },
+                { rule: RATE_LIMITS.changeRequestPerOrder, key: [clientIp, orderCode] },
+            ])) || (await checkLockouts(lockouts));
+        if (limited) {
+            return limited;
+        }
+
         const body = await request.json();
         const { token, message, category } = body;
 
-        if (!message || !message.trim()) {
+        if (!message || typeof message !== 'string' || !message.trim()) {
             return NextResponse.json(
                 { error: 'Message is required' },
                 { status: 400 }
             );
         }
 
+        if (message.trim().length > MAX_CHANGE_REQUEST_MESSAGE_LENGTH) {
+            return NextResponse.json(
+                { error: 'Message is too long' },
+                { status: 400 }
+            );
+        }
+
+        if (category && !isChangeRequestCategory(category)) {
+            return NextResponse.json(
+                { error: 'Invalid category' },
+                { status: 400 }
+            );
+        }
+
         const supabase = createServiceClient();
 
         // Get order by order code
         const { data: order, error: orderError } = await supabase
             .from('orders')
-            .select('id, order_number, status, payment_status, customer_email, customer_name, locale, admin_note')
+            .select('id, order_number, status, payment_status, customer_email, customer_name, locale')
             .eq('order_number', orderCode)
             .single();
 
@@ -53,29 +91,18 @@ export async function POST(
 
         const isValid = await verifyTokenForOrder(order.id, token);
         if (!isValid) {
+            await recordFailedAttempt(lockouts);
             return NextResponse.json(
                 { error: 'Invalid or expired tracking token' },
                 { status: 401 }
             );
         }
 
-        // Log change request in admin_note
-        const changeRequestNote = `[CHANGE REQUEST] ${new Date().toISOString()}\nCategory: ${category || 'Other'}\nMessage: ${message}`;
-        const updatedAdminNote = order.admin_note
-            ? `${order.admin_note}\n\n${changeRequestNote}`
-            : changeRequestNote;
-
-        const { error: updateError } = await supabase
-            .from('orders')
-            .update({
-                admin_note: updatedAdminNote,
-            })
-            .eq('id', order.id);
-
-        if (updateError) {
-            console.error('Error logging change request:', updateError);
-            // Don't fail - continue to send email
-        }
+        const changeRequest = await createChangeRequest({
+            orderId: order.id,
+            category: category || 'other',
+            message: message.trim(),
+        });
 
         // Send email to admin (non-blocking)
         try {
@@ -87,8 +114,9 @@ export async function POST(
                 orderCode,
                 customerName: order.customer_name,
                 customerEmail: order.customer_email || '',
-                message: message.trim(),
-                category: category || 'other',
+                message: changeRequest.message,
+                category: changeRequest.category,
+                eventId: changeRequest.id,
                 locale: locale as Locale,
             });
         } catch (emailError) {
@@ -98,6 +126,7 @@ export async function POST(
 
         return NextResponse.json({
             success: true,
+            requestId: changeRequest.id,
             message: 'Change request submitted successfully',
         });
     } catch (error) {
@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth/user';
 import { createServiceClient } from '@/lib/supabase/service';
 import { trackOrderByCodeAndContact, trackOrderByToken } from '@/lib/repositories/orders/tracking';
+import {
+    checkLockouts,
+    enforceRateLimits,
+    getClientIp,
+    LOCKOUTS,
+    RATE_LIMITS,
+    recordFailedAttempt,
+} from '@/lib/rate-limit';
 
 /**
  * POST /api/order/claim/[orderCode]
@@ -11,6 +19,9 @@ import { trackOrderByCodeAndContact, trackOrderByToken } from '@/lib/repositorie
  * - User must be authenticated
  * - User must have proven ownership via tracking lookup or token
  * - User's email must match order email (or phone match in strict mode)
+ *
+ * Verification failures count towards the same lockouts as /api/order/track,
+ * so claiming can't be used to guess contacts either.
  */
 export async function POST(
     request: NextRequest,
@@ -29,6 +40,20 @@ export async function POST(
             );
         }
 
+        const clientIp = getClientIp(request);
+        const lockouts = claimMethod === 'token_link'
+            ? [{ rule: LOCKOUTS.tokenPerClient, key: [clientIp, orderCode] }]
+            : [
+                { rule: LOCKOUTS.contactPerClient, key: [clientIp, orderCode] },
+                { rule: LOCKOUTS.contactPerIp, key: [clientIp] },
+            ];
+        const limited =
+            (await enforceRateLimits([{ rule: RATE_LIMITS.claimPerIp, key: [clientIp] }])) ||
+            (await checkLockouts(lockouts));
+        if (limited) {
+            return limited;
+        }
+
         const supabase = createServiceClient();
 
         // Step 1: Verify user has access to this order
@@ -38,6 +63,7 @@ export async function POST(
             // Verify via token
             const trackedOrder = await trackOrderByToken(orderCode, token);
             if (!trackedOrder) {
+                await recordFailedAttempt(lockouts);
                 return NextResponse.json(
                     { error: 'Invalid or expired token' },
                     { status: 403 }
@@ -48,6 +74,7 @@ export async function POST(
             // Verify via tracking lookup
             const trackedOrder = await trackOrderByCodeAndContact(orderCode, emailOrPhone);
             if (!trackedOrder) {
+                await recordFailedAttempt(lockouts);
                 return NextResponse.json(
                     { error: 'Order not found or access denied' },
                     { status: 403 }
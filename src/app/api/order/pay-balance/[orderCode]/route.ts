@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { verifyTokenForOrder } from '@/lib/orderTrackingTokens';
+import { createVndCheckoutSession, getStripe } from '@/lib/stripe/server';
+import { setStripeCheckoutSession } from '@/lib/repositories/admin/orders';
+import { generateVietQRForOrder } from '@/lib/vietqr/generator';
+
+/**
+ * POST /api/order/pay-balance/[orderCode]
+ * Pay the remaining balance of a deposit reservation
+ *
+ * Security: Requires valid tracking token
+ * Eligibility: Deposit received (payment_status = deposited) and remaining_amount > 0
+ *
+ * method = 'stripe' returns a Checkout URL; the webhook moves payment_status to paid
+ * method = 'bank_transfer' returns a VietQR code; an admin confirms the transfer
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ orderCode: string }> }
+) {
+    try {
+        const { orderCode } = await params;
+        const body = await request.json();
+        const { token, method } = body;
+
+        if (!token) {
+            return NextResponse.json(
+                { error: 'Tracking token is required' },
+                { status: 400 }
+            );
+        }
+
+        if (method !== 'stripe' && method !== 'bank_transfer') {
+            return NextResponse.json(
+                { error: 'Invalid payment method' },
+                { status: 400 }
+            );
+        }
+
+        const supabase = createServiceClient();
+
+        // Get order by order code
+        const { data: order, error: orderError } = await supabase
+            .from('orders')
+            .select(
+                `
+                id,
+                order_number,
+                order_type,
+                payment_status,
+                status,
+                remaining_amount,
+                customer_email,
+                order_items (
+                    product_name
+                )
+            `
+            )
+            .eq('order_number', orderCode)
+            .single();
+
+        if (orderError || !order) {
+            return NextResponse.json(
+                { error: 'Order not found' },
+                { status: 404 }
+            );
+        }
+
+        const isValid = await verifyTokenForOrder(order.id, token);
+        if (!isValid) {
+            return NextResponse.json(
+                { error: 'Invalid or expired tracking token' },
+                { status: 401 }
+            );
+        }
+
+        // Check eligibility
+        const closedStatuses: string[] = ['cancelled', 'expired', 'refunded'];
+        const remainingAmount = Math.round(Number(order.remaining_amount || 0));
+        if (
+            order.order_type !== 'deposit_reservation' ||
+            order.payment_status !== 'deposited' ||
+            closedStatuses.includes(order.status) ||
+            remainingAmount <= 0
+        ) {
+            return NextResponse.json(
+                { error: 'No outstanding balance for this order' },
+                { status: 400 }
+            );
+        }
+
+        if (method === 'bank_transfer') {
+            try {
+                const vietQR = generateVietQRForOrder(orderCode, remainingAmount);
+                return NextResponse.json({
+                    qrDataUrl: vietQR.qrDataUrl,
+                    bankInfo: vietQR.displayData,
+                });
+            } catch (qrError) {
+                console.error('Error generating balance VietQR:', qrError);
+                return NextResponse.json(
+                    { error: 'Bank transfer is not available. Please contact support.' },
+                    { status: 500 }
+                );
+            }
+        }
+
+        // Make sure Stripe is configured before building the session
+        try {
+            getStripe();
+        } catch (stripeInitError) {
+            console.error('Failed to initialize Stripe:', stripeInitError);
+            return NextResponse.json(
+                { error: 'Card payment is not available. Please use bank transfer.' },
+                { status: 500 }
+            );
+        }
+
+        const baseUrl =
+            process.env.NEXT_PUBLIC_SITE_URL ||
+            process.env.NEXT_PUBLIC_VERCEL_URL ||
+            'http://localhost:3000';
+        const trackingUrl = `${baseUrl}/order/track/${orderCode}?t=${encodeURIComponent(token)}`;
+
+        // payment_kind is also set on the payment intent so payment_intent.succeeded routes it correctly
+        const metadata = {
+            order_id: order.id,
+            order_code: orderCode,
+            order_type: order.order_type,
+            payment_kind: 'balance',
+        };
+
+        const session = await createVndCheckoutSession({
+            mode: 'payment',
+            success_url: `${trackingUrl}&balance=success`,
+            cancel_url: `${trackingUrl}&balance=cancelled`,
+            client_reference_id: orderCode,
+            customer_email: order.customer_email || undefined,
+            metadata,
+            payment_intent_data: { metadata },
+            line_items: [
+                {
+                    price_data: {
+                        currency: 'vnd',
+                        product_data: {
+                            name: `${order.order_items?.[0]?.product_name || 'Order'} - Balance`,
+                        },
+                        unit_amount: remainingAmount,
+                    },
+                    quantity: 1,
+                },
+            ],
+        }, remainingAmount);
+
+        // Record the checkout session as a pending balance payment
+        await setStripeCheckoutSession(order.id, session.id, {
+            kind: 'balance',
+            amount: session.amount_total ?? remainingAmount,
+            currency: session.currency || 'vnd',
+        });
+
+        return NextResponse.json({
+            url: session.url,
+            sessionId: session.id,
+        });
+    } catch (error) {
+        console.error('Error in pay balance API:', error);
+        return NextResponse.json(
+            { error: 'Failed to start balance payment' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { verifyTokenForOrder } from '@/lib/orderTrackingTokens';
+import { getCurrentUser } from '@/lib/auth/user';
+import { canReviewOrderItem, createOrderReview } from '@/lib/repositories/reviews';
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_CONTENT_LENGTH = 2000;
+
+/**
+ * POST /api/order/review/[orderCode]
+ * Customer review for a product in a delivered order
+ *
+ * Security: Requires valid tracking token, or the signed-in owner of the order
+ * Reviews are marked as verified purchases and wait for admin approval
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ orderCode: string }> }
+) {
+    try {
+        const { orderCode } = await params;
+        const body = await request.json();
+        const { token, productId } = body;
+        const rating = Number(body.rating);
+        const title = typeof body.title === 'string' ? body.title.trim() : '';
+        const content = typeof body.content === 'string' ? body.content.trim() : '';
+
+        if (!productId || typeof productId !== 'string') {
+            return NextResponse.json(
+                { error: 'productId is required' },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+            return NextResponse.json(
+                { error: 'Rating must be between 1 and 5' },
+                { status: 400 }
+            );
+        }
+
+        if (title.length > MAX_TITLE_LENGTH || content.length > MAX_CONTENT_LENGTH) {
+            return NextResponse.json(
+                { error: 'Review is too long' },
+                { status: 400 }
+            );
+        }
+
+        const supabase = createServiceClient();
+
+        // Get order by order code
+        const { data: order, error: orderError } = await supabase
+            .from('orders')
+            .select('id, user_id')
+            .eq('order_number', orderCode)
+            .single();
+
+        if (orderError || !order) {
+            return NextResponse.json(
+                { error: 'Order not found' },
+                { status: 404 }
+            );
+        }
+
+        // Token link, or signed-in account that owns the order
+        if (token) {
+            const isValid = await verifyTokenForOrder(order.id, token);
+            if (!isValid) {
+                return NextResponse.json(
+                    { error: 'Invalid or expired tracking token' },
+                    { status: 401 }
+                );
+            }
+        } else {
+            const user = await getCurrentUser();
+            if (!user || !order.user_id || user.id !== order.user_id) {
+                return NextResponse.json(
+                    { error: 'Tracking token is required' },
+                    { status: 401 }
+                );
+            }
+        }
+
+        const { canReview, reason } = await canReviewOrderItem(order.id, productId);
+        if (!canReview) {
+            return NextResponse.json(
+                { error: reason || 'This product cannot be reviewed' },
+                { status: 400 }
+            );
+        }
+
+        await createOrderReview({
+            orderId: order.id,
+            productId,
+            rating,
+            title: title || undefined,
+            content: content || undefined,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error in review API:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to submit review' },
+            { status: 500 }
+        );
+    }
+}
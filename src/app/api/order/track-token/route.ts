@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { trackOrderByToken } from '@/lib/repositories/orders/tracking';
+import {
+    checkLockouts,
+    enforceRateLimits,
+    getClientIp,
+    LOCKOUTS,
+    RATE_LIMITS,
+    recordFailedAttempt,
+} from '@/lib/rate-limit';
 
 /**
  * GET /api/order/track-token
@@ -19,10 +27,23 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        const clientIp = getClientIp(request);
+        const lockouts = [{ rule: LOCKOUTS.tokenPerClient, key: [clientIp, orderCode] }];
+        const limited =
+            (await enforceRateLimits([
+                { rule: RATE_LIMITS.trackTokenPerIp, key: [clientIp] },
+                { rule: RATE_LIMITS.trackTokenPerOrder, key: [clientIp, orderCode] },
+            ])) || (await checkLockouts(lockouts));
+        if (limited) {
+            return limited;
+        }
+
         // Track order by token
         const order = await trackOrderByToken(orderCode, token);
 
         if (!order) {
+            await recordFailedAttempt(lockouts);
+
             // Generic error for invalid/expired token
             return NextResponse.json(
                 { error: 'Invalid or expired tracking link' },
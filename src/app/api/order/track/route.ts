@@ -1,83 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { trackOrderByCodeAndContact } from '@/lib/repositories/orders/tracking';
-
-/**
- * Rate limiting: Simple in-memory map (MVP)
- * In production, consider using Redis or a more robust solution
- */
-interface RateLimitEntry {
-    count: number;
-    resetAt: Date;
-}
-
-const rateLimitMap = new Map<string, RateLimitEntry>();
-
-// Clean up expired rate limit entries periodically
-setInterval(() => {
-    const now = new Date();
-    for (const [ip, entry] of rateLimitMap.entries()) {
-        if (entry.resetAt < now) {
-            rateLimitMap.delete(ip);
-        }
-    }
-}, 60 * 1000); // Every minute
-
-/**
- * Check rate limit for an IP address
- * Returns true if allowed, false if rate limited
- */
-function checkRateLimit(ip: string): boolean {
-    const now = new Date();
-    const entry = rateLimitMap.get(ip);
-
-    if (!entry || entry.resetAt < now) {
-        // Create new entry: 10 requests per 15 minutes
-        rateLimitMap.set(ip, {
-            count: 1,
-            resetAt: new Date(now.getTime() + 15 * 60 * 1000), // 15 minutes
-        });
-        return true;
-    }
-
-    if (entry.count >= 10) {
-        return false; // Rate limited
-    }
-
-    entry.count++;
-    return true;
-}
-
-/**
- * Get client IP address
- */
-function getClientIP(request: NextRequest): string {
-    const forwarded = request.headers.get('x-forwarded-for');
-    const realIP = request.headers.get('x-real-ip');
-    
-    if (forwarded) {
-        return forwarded.split(',')[0].trim();
-    }
-    
-    if (realIP) {
-        return realIP;
-    }
-    
-    return 'unknown';
-}
+import {
+    checkLockouts,
+    clearFailedAttempts,
+    enforceRateLimits,
+    getClientIp,
+    LOCKOUTS,
+    RATE_LIMITS,
+    recordFailedAttempt,
+} from '@/lib/rate-limit';
 
 /**
  * POST /api/order/track
  * Track order by order code and contact (email or phone)
+ *
+ * Rate limited per IP, order code and contact; repeated wrong contacts lock
+ * the client out of that order code, and out of all lookups after failures
+ * across many codes (429 with Retry-After). Lockouts are per client IP, so a
+ * stranger can't lock the real customer out of their order.
  */
 export async function POST(request: NextRequest) {
     try {
-        // Rate limiting
-        const clientIP = getClientIP(request);
-        if (!checkRateLimit(clientIP)) {
-            return NextResponse.json(
-                { error: 'Too many requests. Please try again later.' },
-                { status: 429 }
-            );
+        const clientIp = getClientIp(request);
+        const ipLimited = await enforceRateLimits([{ rule: RATE_LIMITS.trackPerIp, key: [clientIp] }]);
+        if (ipLimited) {
+            return ipLimited;
         }
 
         const body = await request.json();
@@ -98,10 +45,27 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const code = orderCode.trim();
+        const contact = emailOrPhone.trim();
+        const clientLockout = { rule: LOCKOUTS.contactPerClient, key: [clientIp, code] };
+        const lockouts = [clientLockout, { rule: LOCKOUTS.contactPerIp, key: [clientIp] }];
+
+        const limited =
+            (await checkLockouts(lockouts)) ||
+            (await enforceRateLimits([
+                { rule: RATE_LIMITS.trackPerOrder, key: [clientIp, code] },
+                { rule: RATE_LIMITS.trackPerContact, key: [clientIp, code, contact] },
+            ]));
+        if (limited) {
+            return limited;
+        }
+
         // Track order
-        const order = await trackOrderByCodeAndContact(orderCode.trim(), emailOrPhone.trim());
+        const order = await trackOrderByCodeAndContact(code, contact);
 
         if (!order) {
+            await recordFailedAttempt(lockouts);
+
             // Generic error to prevent enumeration
             return NextResponse.json(
                 { error: 'Order not found' },
@@ -109,6 +73,8 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Only this client's failures: the per-order count keeps guarding against other IPs
+        await clearFailedAttempts([clientLockout]);
         return NextResponse.json({ order });
     } catch (error) {
         console.error('Error tracking order:', error);
@@ -118,9 +84,3 @@ export async function POST(request: NextRequest) {
         );
     }
 }
-
-
-
-
-
-
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/service';
 import { verifyTokenForOrder } from '@/lib/orderTrackingTokens';
-import { canUploadProof, createDepositProof } from '@/lib/repositories/deposit-proofs';
+import { canUploadProof, createDepositProof, deleteProofStorageFiles } from '@/lib/repositories/deposit-proofs';
+import {
+    checkLockouts,
+    enforceRateLimits,
+    getClientIp,
+    LOCKOUTS,
+    RATE_LIMITS,
+    recordFailedAttempt,
+} from '@/lib/rate-limit';
 
 // Max file size: 5MB
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
@@ -23,10 +31,21 @@ interface RouteParams {
  * - Order must be deposit_reservation with bank_transfer payment
  * - Order must be in deposit_pending status
  * - Must not be expired
+ * - No proof pending review, and proof attempts left (a rejected proof can be replaced)
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
     try {
         const { orderCode } = await params;
+        const clientIp = getClientIp(request);
+        const lockouts = [{ rule: LOCKOUTS.tokenPerClient, key: [clientIp, orderCode] }];
+        const limited =
+            (await enforceRateLimits([
+                { rule: RATE_LIMITS.uploadProofPerIp, key: [clientIp] },
+                { rule: RATE_LIMITS.uploadProofPerOrder, key: [clientIp, orderCode] },
+            ])) || (await checkLockouts(lockouts));
+        if (limited) {
+            return limited;
+        }
         
         // Get token from Authorization header or query param
         const authHeader = request.headers.get('Authorization');
@@ -59,6 +78,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         // Verify token
         const isValidToken = await verifyTokenForOrder(order.id, token);
         if (!isValidToken) {
+            await recordFailedAttempt(lockouts);
             return NextResponse.json(
                 { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
                 { status: 401 }
@@ -128,11 +148,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             if (uploadError) {
                 console.error('Error uploading file:', uploadError);
                 // Clean up already uploaded files
-                if (uploadedFiles.length > 0) {
-                    await supabase.storage
-                        .from('deposit_proofs')
-                        .remove(uploadedFiles.map(f => f.path));
-                }
+                await deleteProofStorageFiles(uploadedFiles.map(f => f.path));
                 return NextResponse.json(
                     { error: 'Failed to upload file', code: 'UPLOAD_FAILED' },
                     { status: 500 }
@@ -162,13 +178,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             return NextResponse.json({
                 success: true,
                 proofId: proof?.id,
+                attemptNumber: proof?.attemptNumber,
                 message: 'Proof uploaded successfully. Our team will review it shortly.',
             });
         } catch (proofError) {
             // Clean up uploaded files
-            await supabase.storage
-                .from('deposit_proofs')
-                .remove(uploadedFiles.map(f => f.path));
+            await deleteProofStorageFiles(uploadedFiles.map(f => f.path));
             
             throw proofError;
         }
@@ -187,11 +202,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
 /**
  * GET /api/order/upload-proof/[orderCode]
- * Get current proof status for an order
+ * Get current proof status for an order (latest attempt)
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
     try {
         const { orderCode } = await params;
+        const clientIp = getClientIp(request);
+        const lockouts = [{ rule: LOCKOUTS.tokenPerClient, key: [clientIp, orderCode] }];
+        const limited =
+            (await enforceRateLimits([{ rule: RATE_LIMITS.proofStatusPerIp, key: [clientIp] }])) ||
+            (await checkLockouts(lockouts));
+        if (limited) {
+            return limited;
+        }
         
         // Get token from query param
         const token = request.nextUrl.searchParams.get('t');
@@ -208,7 +231,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         // Get order by code
         const { data: order, error: orderError } = await supabase
             .from('orders')
-            .select('id')
+            .select('id, deposit_due_at')
             .eq('order_number', orderCode)
             .single();
         
@@ -222,6 +245,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         // Verify token
         const isValidToken = await verifyTokenForOrder(order.id, token);
         if (!isValidToken) {
+            await recordFailedAttempt(lockouts);
             return NextResponse.json(
                 { error: 'Invalid or expired token', code: 'INVALID_TOKEN' },
                 { status: 401 }
@@ -231,18 +255,19 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         // Get latest proof for the order
         const { data: proof } = await supabase
             .from('deposit_transfer_proofs')
-            .select('id, status, submitted_at, review_note, image_urls')
+            .select('id, attempt_number, status, submitted_at, review_note, image_urls')
             .eq('order_id', order.id)
             .order('created_at', { ascending: false })
             .limit(1)
             .maybeSingle();
         
         // Check if can upload
-        const { canUpload, reason } = await canUploadProof(order.id);
+        const { canUpload, reason, attemptsUsed, maxAttempts } = await canUploadProof(order.id);
         
         return NextResponse.json({
             proof: proof ? {
                 id: proof.id,
+                attemptNumber: proof.attempt_number,
                 status: proof.status,
                 submittedAt: proof.submitted_at,
                 reviewNote: proof.review_note,
@@ -250,6 +275,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             } : null,
             canUpload,
             cannotUploadReason: canUpload ? undefined : reason,
+            attemptsRemaining: attemptsUsed !== undefined ? Math.max(maxAttempts - attemptsUsed, 0) : undefined,
+            depositDueAt: order.deposit_due_at,
         });
     } catch (error) {
         console.error('Error getting proof status:', error);
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/service';
+import { canTransitionPaymentStatus, type PaymentStatus } from '@/lib/orders/state-machine';
+import { transitionOrder } from '@/lib/repositories/orders/transitions';
 
 /**
  * POST /api/orders/[orderCode]/cancel
@@ -17,7 +19,7 @@ export async function POST(
         // Get order with items
         const { data: order, error: fetchError } = await supabase
             .from('orders')
-            .select('id, payment_status, status, order_items(product_id, quantity)')
+            .select('id, payment_status, status')
             .eq('order_number', orderCode)
             .single();
 
@@ -43,67 +45,15 @@ export async function POST(
             );
         }
 
-        // Restore inventory for each item
-        const orderItems = order.order_items as Array<{ product_id: string; quantity: number }>;
-        for (const item of orderItems) {
-            // Try RPC function first (if it exists)
-            const rpcResult = await supabase.rpc('increment_stock', {
-                product_id: item.product_id,
-                quantity: item.quantity,
-            });
-
-            if (rpcResult.error) {
-                // Fallback: direct update if RPC doesn't exist
-                const { data: product, error: productError } = await supabase
-                    .from('products')
-                    .select('stock_quantity')
-                    .eq('id', item.product_id)
-                    .single();
-
-                if (productError || !product) {
-                    console.error(`Error fetching product ${item.product_id} for inventory restoration:`, productError);
-                    continue; // Skip this item but continue with others
-                }
-
-                const { error: updateError } = await supabase
-                    .from('products')
-                    .update({ stock_quantity: product.stock_quantity + item.quantity })
-                    .eq('id', item.product_id);
-
-                if (updateError) {
-                    console.error(`Error restoring inventory for product ${item.product_id}:`, updateError);
-                    // Continue with other items
-                }
-            }
-        }
-
-        // Update order status to cancelled
-        const { error: updateError } = await supabase
-            .from('orders')
-            .update({
+        // Cancel the order (releases inventory) and mark the unpaid payment as failed
+        await transitionOrder(
+            { id: order.id },
+            {
                 status: 'cancelled',
-                payment_status: 'failed',
-            })
-            .eq('id', order.id);
-
-        if (updateError) {
-            console.error('Error cancelling order:', updateError);
-            return NextResponse.json(
-                { error: 'Failed to cancel order', details: updateError.message },
-                { status: 500 }
-            );
-        }
-
-        // Insert status history
-        await supabase
-            .from('order_status_history')
-            .insert({
-                order_id: order.id,
-                from_status: order.status,
-                to_status: 'cancelled',
-                note: 'Payment cancelled at Stripe checkout',
-                changed_by: null,
-            });
+                paymentStatus: canTransitionPaymentStatus(order.payment_status as PaymentStatus, 'failed') ? 'failed' : undefined,
+            },
+            { note: 'Payment cancelled at Stripe checkout', notify: false }
+        );
 
         return NextResponse.json({
             success: true,
@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createServiceClient } from '@/lib/supabase/service';
+
+/**
+ * Parallel checkouts for the last unit of a product
+ *
+ * Runs against a running app backed by a local Supabase with the migrations
+ * applied (CREATE_ATOMIC_STOCK_RESERVATION.sql, CREATE_SHIPPING_ZONES.sql):
+ *
+ *   supabase start && npm run dev
+ *   ORDERS_TEST_BASE_URL=http://localhost:3000 \
+ *   NEXT_PUBLIC_SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... \
+ *   npm run test:integration
+ *
+ * Skipped when ORDERS_TEST_BASE_URL is not set.
+ */
+
+const baseUrl = process.env.ORDERS_TEST_BASE_URL;
+
+// TP. Hồ Chí Minh / Quận 1 / Phường Tân Định (covered by the starter shipping zones)
+const SHIPPING_ADDRESS = {
+    addressLine: '12 Lý Tự Trọng',
+    provinceCode: '79',
+    districtCode: '760',
+    wardCode: '26734',
+};
+
+interface CheckoutResult {
+    status: number;
+    body: { code?: string; orderCode?: string };
+}
+
+async function checkout(productId: string, buyer: number): Promise<CheckoutResult> {
+    const response = await fetch(`${baseUrl}/api/orders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            items: [{ productId, quantity: 1 }],
+            customerInfo: { fullName: `Concurrency Buyer ${buyer}`, phone: `090000000${buyer}` },
+            shippingAddress: SHIPPING_ADDRESS,
+            paymentMethod: 'cod',
+            paymentMode: 'cod',
+        }),
+    });
+
+    return { status: response.status, body: await response.json() };
+}
+
+describe.skipIf(!baseUrl)('POST /api/orders stock reservation', () => {
+    let supabase: ReturnType<typeof createServiceClient>;
+    let productId: string;
+
+    beforeAll(async () => {
+        supabase = createServiceClient();
+        const { data, error } = await supabase
+            .from('products')
+            .insert({
+                slug: `concurrency-test-${randomUUID()}`,
+                price: 12000000,
+                stock_quantity: 1,
+                condition: 'vintage',
+                topology: 'se',
+                tube_type: '300B',
+                power_watts: 8,
+                is_published: false,
+            })
+            .select('id')
+            .single();
+
+        if (error || !data) {
+            throw new Error(`Failed to create test product: ${error?.message}`);
+        }
+        productId = data.id;
+    });
+
+    afterAll(async () => {
+        if (!productId) return;
+
+        const { data: items } = await supabase.from('order_items').select('order_id').eq('product_id', productId);
+        const orderIds = (items || []).map((item) => item.order_id);
+        if (orderIds.length > 0) {
+            await supabase.from('orders').delete().in('id', orderIds);
+        }
+        await supabase.from('products').delete().eq('id', productId);
+    });
+
+    it('sells a quantity-1 product exactly once', async () => {
+        const results = await Promise.all([checkout(productId, 1), checkout(productId, 2)]);
+
+        const created = results.filter((result) => result.status === 201);
+        const rejected = results.filter((result) => result.status === 409);
+        expect(created).toHaveLength(1);
+        expect(rejected).toHaveLength(1);
+        expect(created[0].body.orderCode).toBeTruthy();
+        expect(rejected[0].body.code).toBe('insufficient_stock');
+
+        const { data: product } = await supabase.from('products').select('stock_quantity').eq('id', productId).single();
+        expect(product?.stock_quantity).toBe(0);
+
+        const { count } = await supabase
+            .from('order_items')
+            .select('id', { count: 'exact', head: true })
+            .eq('product_id', productId);
+        expect(count).toBe(1);
+    });
+});
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { createServiceClient } from '@/lib/supabase/service';
+import { POST } from './route';
+
+vi.mock('@/lib/supabase/service', () => ({ createServiceClient: vi.fn() }));
+
+function checkout(quantity: unknown) {
+    return POST(
+        new NextRequest('http://localhost/api/orders', {
+            method: 'POST',
+            body: JSON.stringify({
+                items: [{ productId: 'product-1', quantity }],
+                customerInfo: { fullName: 'Nguyễn Văn A', phone: '0900000001' },
+                shippingAddress: { addressLine: '12 Lý Tự Trọng', provinceCode: '79', districtCode: '760', wardCode: '26734' },
+                paymentMethod: 'cod',
+                paymentMode: 'cod',
+            }),
+        })
+    );
+}
+
+describe('POST /api/orders quantity validation', () => {
+    it.each([0, -1, 1.5, '2', null])('rejects quantity %j', async (quantity) => {
+        const response = await checkout(quantity);
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ code: 'invalid_quantity', productId: 'product-1' });
+        expect(createServiceClient).not.toHaveBeenCalled();
+    });
+});
@@ -3,6 +3,12 @@ import { createServiceClient } from '@/lib/supabase/service';
 import { sendOrderConfirmationEmail } from '@/lib/emails/service';
 import { defaultLocale, type Locale } from '@/config/locales';
 import { generateTransferMemo } from '@/lib/vietqr/generator';
+import { quoteShipping } from '@/lib/shipping/rates';
+import { getActiveShippingZones, getProductShippingWeightKg } from '@/lib/repositories/shipping';
+import { applyDiscountCode } from '@/lib/repositories/discounts';
+import { saveCheckoutAddress } from '@/lib/repositories/addresses';
+import { resolveAddressDivisions } from '@/lib/divisions';
+import type { AppliedDiscount } from '@/lib/orders/discounts';
 
 interface OrderItemRequest {
     productId: string;
@@ -22,17 +28,26 @@ interface CreateOrderRequest {
     };
     shippingAddress: {
         addressLine: string;
-        city: string;
-        district?: string;
+        // GSO division codes (src/lib/divisions); the names are looked up here
+        provinceCode: string;
+        districtCode: string;
+        wardCode?: string; // Required unless the district has no wards
     };
     paymentMethod: 'cod' | 'bank_transfer';
     paymentMode: 'deposit' | 'full' | 'cod'; // Order-level payment mode (single source of truth)
+    shippingInsurance?: boolean; // Insured freight (offered for high-value orders)
+    expectedShippingFee?: number; // Fee shown at checkout; rejected with 409 if it no longer matches
+    discountCode?: string;
+    saveAddress?: boolean; // Signed-in customers: add the shipping address to their address book
     note?: string;
 }
 
 /**
  * POST /api/orders
  * Create a new order with inventory validation
+ * 201 with the order code; 400 { code: 'invalid_quantity' } unless every
+ * quantity is a positive integer; 409 { code: 'insufficient_stock' } when a
+ * product doesn't have enough units left (see route.integration.test.ts)
  */
 export async function POST(request: NextRequest) {
     try {
@@ -46,6 +61,15 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Quantities feed the price math and the stock decrement (a negative one would add stock)
+        const invalidItem = body.items.find((item) => !Number.isInteger(item.quantity) || item.quantity <= 0);
+        if (invalidItem) {
+            return NextResponse.json(
+                { error: 'Quantity must be a positive whole number', code: 'invalid_quantity', productId: invalidItem.productId },
+                { status: 400 }
+            );
+        }
+
         if (!body.customerInfo?.fullName || !body.customerInfo?.phone) {
             return NextResponse.json(
                 { error: 'Customer information is required' },
@@ -53,13 +77,25 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        if (!body.shippingAddress?.addressLine || !body.shippingAddress?.city) {
+        if (!body.shippingAddress?.addressLine || !body.shippingAddress?.provinceCode) {
             return NextResponse.json(
                 { error: 'Shipping address is required' },
                 { status: 400 }
             );
         }
 
+        const divisions = resolveAddressDivisions({
+            provinceCode: String(body.shippingAddress.provinceCode),
+            districtCode: String(body.shippingAddress.districtCode || ''),
+            wardCode: body.shippingAddress.wardCode ? String(body.shippingAddress.wardCode) : undefined,
+        });
+        if (!divisions) {
+            return NextResponse.json(
+                { error: 'Invalid province, district or ward', code: 'invalid_address' },
+                { status: 400 }
+            );
+        }
+
         // Use service client to bypass RLS for order creation
         // This is safe because we validate everything server-side
         const supabase = createServiceClient();
@@ -104,7 +140,7 @@ export async function POST(request: NextRequest) {
         const productIds = body.items.map((item) => item.productId);
         const { data: products, error: productsError } = await supabase
             .from('products')
-            .select('id, price, stock_quantity, allow_deposit, deposit_type, deposit_amount, deposit_percentage, deposit_due_hours, sku')
+            .select('id, price, stock_quantity, allow_deposit, deposit_type, deposit_amount, deposit_percentage, deposit_due_hours, sku, specifications, tube_type')
             .in('id', productIds);
 
         if (productsError || !products) {
@@ -147,7 +183,36 @@ export async function POST(request: NextRequest) {
         }
         // Note: Deposit mode can now be used with COD - customer pays deposit when receiving order
 
+        // Discount code (validated again here; the cart only previews it)
+        let discount: (AppliedDiscount & { codeId: string }) | null = null;
+        if (body.discountCode?.trim()) {
+            const { discountCode, evaluation } = await applyDiscountCode(
+                body.discountCode,
+                body.items.flatMap((item) => {
+                    const product = products.find((p) => p.id === item.productId);
+                    return product
+                        ? [{ productId: product.id, tubeType: product.tube_type, unitPrice: Number(product.price), quantity: item.quantity }]
+                        : [];
+                }),
+                body.customerInfo.phone
+            );
+
+            if (!evaluation.ok || !discountCode) {
+                return NextResponse.json(
+                    {
+                        error: 'Discount code cannot be applied',
+                        code: 'discount_invalid',
+                        reason: evaluation.ok ? 'not_found' : evaluation.reason,
+                    },
+                    { status: 400 }
+                );
+            }
+
+            discount = { ...evaluation.discount, codeId: discountCode.id };
+        }
+
         let subtotal = 0;
+        const shippingItems: Array<{ weightKg: number; quantity: number }> = [];
         let depositAmountTotal = 0;
         let depositDueHours = 24; // Default
         let hasDepositEligibleProducts = false; // Track if any products support deposits
@@ -163,11 +228,11 @@ export async function POST(request: NextRequest) {
                 );
             }
 
-            // Validate stock
+            // Validate stock (fast path; same response as an oversell caught by the insert)
             if (product.stock_quantity < item.quantity) {
                 return NextResponse.json(
-                    { error: `Insufficient stock for product ${product.id}` },
-                    { status: 400 }
+                    { error: `Insufficient stock for product ${product.id}`, code: 'insufficient_stock', productId: product.id },
+                    { status: 409 }
                 );
             }
 
@@ -246,6 +311,7 @@ export async function POST(request: NextRequest) {
             });
 
             subtotal += itemSubtotal;
+            shippingItems.push({ weightKg: getProductShippingWeightKg(product.specifications), quantity: item.quantity });
 
             // Track if product is deposit-eligible (for validation)
             if (product.allow_deposit) {
@@ -263,12 +329,15 @@ export async function POST(request: NextRequest) {
                     );
                 }
 
-                // Calculate deposit amount from product settings
+                // Calculate deposit amount from product settings, on the discounted price
+                // so the deposit never exceeds what the customer actually owes
+                const lineDiscount = discount?.lines.find((line) => line.productId === product.id)?.discount || 0;
+                const discountedUnitPrice = unitPrice - lineDiscount / item.quantity;
                 let itemDepositAmount = 0;
                 if (product.deposit_type === 'percent' && product.deposit_percentage) {
-                    itemDepositAmount = Math.round((unitPrice * product.deposit_percentage) / 100);
+                    itemDepositAmount = Math.round((discountedUnitPrice * product.deposit_percentage) / 100);
                 } else if (product.deposit_type === 'fixed' && product.deposit_amount) {
-                    itemDepositAmount = Number(product.deposit_amount);
+                    itemDepositAmount = Math.min(Number(product.deposit_amount), Math.floor(discountedUnitPrice));
                 } else {
                     return NextResponse.json(
                         { error: `Product ${product.id} has invalid deposit configuration` },
@@ -286,13 +355,43 @@ export async function POST(request: NextRequest) {
             // If paymentMode !== 'deposit', depositAmountTotal remains 0 (enforced)
         }
 
+        // Shipping fee is always recalculated here; the checkout quote is only a preview
+        const shippingQuote = quoteShipping(await getActiveShippingZones(), {
+            city: divisions.province.name,
+            district: divisions.district.name,
+            items: shippingItems,
+            orderValue: subtotal,
+            insured: body.shippingInsurance === true,
+        });
+
+        if (!shippingQuote) {
+            return NextResponse.json(
+                { error: 'We do not ship to this address yet', code: 'shipping_unavailable' },
+                { status: 400 }
+            );
+        }
+
+        if (
+            typeof body.expectedShippingFee === 'number' &&
+            body.expectedShippingFee !== shippingQuote.shippingFee
+        ) {
+            return NextResponse.json(
+                { error: 'Shipping fee has changed', code: 'shipping_fee_changed', shippingQuote },
+                { status: 409 }
+            );
+        }
+
+        const shippingFee = shippingQuote.shippingFee;
+        const discountAmount = discount?.amount || 0;
+        const total = subtotal - discountAmount + shippingFee;
+
         // Determine order type and deposit fields based on paymentMode (single source of truth)
         const isDepositOrder = body.paymentMode === 'deposit';
         const orderType = isDepositOrder ? 'deposit_reservation' : 'standard';
         
         // Enforce: if order_type !== 'deposit_reservation', deposit must be 0
         const finalDepositAmount = isDepositOrder ? depositAmountTotal : 0;
-        const finalRemainingAmount = isDepositOrder ? subtotal - depositAmountTotal : null;
+        const finalRemainingAmount = isDepositOrder ? total - depositAmountTotal : null;
         const depositDueAt = isDepositOrder 
             ? new Date(Date.now() + depositDueHours * 60 * 60 * 1000).toISOString()
             : null;
@@ -325,37 +424,80 @@ export async function POST(request: NextRequest) {
         // The memo will be set after we have the order number, but we prepare the VietQR timestamp now
         const isBankTransferDeposit = isDepositOrder && body.paymentMethod === 'bank_transfer';
 
-        // Create order
+        // Create order, items and stock decrement in one transaction
+        // (create_order_with_items, see supabase/CREATE_ATOMIC_STOCK_RESERVATION.sql)
+        // The stock check above is only a fast path; this is what prevents overselling
+        const orderItemsData = orderItems.map((item) => ({
+            product_id: item.productId,
+            product_name: item.productName,
+            product_slug: item.productSlug,
+            product_sku: item.productSku,
+            product_image_url: item.productImageUrl,
+            unit_price: item.unitPrice,
+            quantity: item.quantity,
+            subtotal: item.subtotal,
+        }));
+
         const { data: order, error: orderError } = await supabase
-            .from('orders')
-            .insert({
-                user_id: userId, // Attach to user if authenticated, null for guest
-                customer_email: body.customerInfo.email || '',
-                customer_name: body.customerInfo.fullName,
-                customer_phone: body.customerInfo.phone,
-                shipping_address_line: body.shippingAddress.addressLine,
-                shipping_city: body.shippingAddress.city,
-                shipping_district: body.shippingAddress.district || null,
-                subtotal: subtotal,
-                shipping_fee: 0, // MVP: no shipping fee calculation
-                tax: 0,
-                discount: 0,
-                total: subtotal,
-                payment_method: body.paymentMethod,
-                payment_status: paymentStatus,
-                order_type: orderType,
-                is_deposit_order: isDepositOrder, // Legacy field
-                deposit_amount_vnd: finalDepositAmount > 0 ? finalDepositAmount : null,
-                deposit_due_at: depositDueAt,
-                remaining_amount: finalRemainingAmount,
-                customer_note: body.note || null,
-                locale: locale,
-                status: 'pending',
-                // Bank transfer specific fields
-                vietqr_generated_at: isBankTransferDeposit ? new Date().toISOString() : null,
+            .rpc('create_order_with_items', {
+                p_order: {
+                    user_id: userId, // Attach to user if authenticated, null for guest
+                    customer_email: body.customerInfo.email || '',
+                    customer_name: body.customerInfo.fullName,
+                    customer_phone: body.customerInfo.phone,
+                    shipping_address_line: body.shippingAddress.addressLine,
+                    shipping_city: divisions.province.name,
+                    shipping_district: divisions.district.name,
+                    shipping_ward: divisions.ward?.name || null,
+                    shipping_province_code: divisions.province.code,
+                    shipping_district_code: divisions.district.code,
+                    shipping_ward_code: divisions.ward?.code || null,
+                    subtotal: subtotal,
+                    shipping_fee: shippingFee,
+                    shipping_zone_id: shippingQuote.zoneId,
+                    shipping_weight_kg: shippingQuote.weightKg,
+                    shipping_insurance_fee: shippingQuote.insuranceFee,
+                    tax: 0,
+                    discount: discountAmount,
+                    discount_code_id: discount?.codeId || null,
+                    discount_code: discount?.code || null,
+                    total: total,
+                    payment_method: body.paymentMethod,
+                    payment_status: paymentStatus,
+                    order_type: orderType,
+                    is_deposit_order: isDepositOrder, // Legacy field
+                    deposit_amount_vnd: finalDepositAmount > 0 ? finalDepositAmount : null,
+                    deposit_due_at: depositDueAt,
+                    remaining_amount: finalRemainingAmount,
+                    customer_note: body.note || null,
+                    locale: locale,
+                    status: 'pending',
+                    // Bank transfer specific fields
+                    vietqr_generated_at: isBankTransferDeposit ? new Date().toISOString() : null,
+                },
+                p_items: orderItemsData,
             })
-            .select('id, order_number')
-            .single();
+            .single<{ id: string; order_number: string }>();
+
+        if (orderError?.message === 'insufficient_stock') {
+            // Another checkout took the last unit between our check and the insert
+            return NextResponse.json(
+                { error: `Insufficient stock for product ${orderError.details}`, code: 'insufficient_stock', productId: orderError.details },
+                { status: 409 }
+            );
+        }
+
+        if (orderError?.message === 'discount_unavailable') {
+            // The code ran out (or expired) between validation and the insert
+            return NextResponse.json(
+                {
+                    error: 'Discount code cannot be applied',
+                    code: 'discount_invalid',
+                    reason: 'usage_limit',
+                },
+                { status: 409 }
+            );
+        }
 
         if (orderError || !order) {
             console.error('Error creating order:', orderError);
@@ -378,35 +520,23 @@ export async function POST(request: NextRequest) {
                 .eq('id', order.id);
         }
 
-        // Create order items (this will trigger stock decrement via trigger)
-        const orderItemsData = orderItems.map((item) => ({
-            order_id: order.id,
-            product_id: item.productId,
-            product_name: item.productName,
-            product_slug: item.productSlug,
-            product_sku: item.productSku,
-            product_image_url: item.productImageUrl,
-            unit_price: item.unitPrice,
-            quantity: item.quantity,
-            subtotal: item.subtotal,
-        }));
-
-        const { error: itemsError } = await supabase
-            .from('order_items')
-            .insert(orderItemsData);
-
-        if (itemsError) {
-            console.error('Error creating order items:', itemsError);
-            // Try to clean up the order (best effort)
-            await supabase.from('orders').delete().eq('id', order.id);
-            return NextResponse.json(
-                {
-                    error: 'Failed to create order items',
-                    details: itemsError.message || 'Unknown error',
-                    code: itemsError.code,
-                },
-                { status: 500 }
-            );
+        // Address book failures must not fail an order that was already created
+        if (userId && body.saveAddress) {
+            try {
+                await saveCheckoutAddress(userId, {
+                    fullName: body.customerInfo.fullName,
+                    phone: body.customerInfo.phone,
+                    addressLine: body.shippingAddress.addressLine,
+                    city: divisions.province.name,
+                    district: divisions.district.name,
+                    ward: divisions.ward?.name,
+                    provinceCode: divisions.province.code,
+                    districtCode: divisions.district.code,
+                    wardCode: divisions.ward?.code,
+                });
+            } catch (addressError) {
+                console.error('Failed to save checkout address:', addressError);
+            }
         }
 
         // Send order confirmation email (non-blocking)
@@ -416,8 +546,9 @@ export async function POST(request: NextRequest) {
             if (body.customerInfo.email && body.customerInfo.email.trim()) {
                 const shippingAddress = [
                     body.shippingAddress.addressLine,
-                    body.shippingAddress.district,
-                    body.shippingAddress.city,
+                    divisions.ward?.name,
+                    divisions.district.name,
+                    divisions.province.name,
                 ]
                     .filter(Boolean)
                     .join(', ');
@@ -436,10 +567,11 @@ export async function POST(request: NextRequest) {
                         subtotal: item.subtotal,
                     })),
                     subtotal: subtotal,
-                    shippingFee: 0,
+                    shippingFee: shippingFee,
                     tax: 0,
-                    discount: 0,
-                    total: subtotal,
+                    discount: discountAmount,
+                    discountCode: discount?.code,
+                    total: total,
                     paymentMethod: body.paymentMethod,
                     locale,
                 }).catch((error) => {
@@ -454,11 +586,14 @@ export async function POST(request: NextRequest) {
         }
 
         // Return success with order code
-        return NextResponse.json({
-            success: true,
-            orderCode: order.order_number,
-            orderId: order.id,
-        });
+        return NextResponse.json(
+            {
+                success: true,
+                orderCode: order.order_number,
+                orderId: order.id,
+            },
+            { status: 201 }
+        );
     } catch (error) {
         console.error('Order creation error:', error);
         return NextResponse.json(
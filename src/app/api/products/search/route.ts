@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocale } from 'next-intl/server';
+import { listProducts } from '@/lib/repositories/products';
+
+const MIN_QUERY_LENGTH = 2;
+const SUGGESTION_LIMIT = 6;
+
+/**
+ * GET /api/products/search?q=
+ * Typeahead suggestions for the header search (best match first)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const query = (request.nextUrl.searchParams.get('q') || '').trim();
+
+        if (query.length < MIN_QUERY_LENGTH) {
+            return NextResponse.json({ items: [], total: 0 });
+        }
+
+        const locale = await getLocale();
+        const result = await listProducts({
+            locale,
+            filters: { search: query },
+            sort: 'relevance',
+            pagination: { page: 1, pageSize: SUGGESTION_LIMIT },
+        });
+
+        return NextResponse.json({
+            items: result.items.map((product) => ({
+                id: product.id,
+                slug: product.slug,
+                name: product.name,
+                imageUrl: product.imageUrl,
+                priceVnd: product.priceVnd,
+                compareAtPriceVnd: product.compareAtPriceVnd,
+                tubeType: product.tubeType,
+            })),
+            total: result.total,
+        });
+    } catch (error) {
+        console.error('Error searching products:', error);
+        return NextResponse.json({ error: 'Failed to search products' }, { status: 500 });
+    }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { v4 as uuidv4 } from 'uuid';
+import { createServiceClient } from '@/lib/supabase/service';
+import { getCurrentUser } from '@/lib/auth/user';
+import { validateImageFile } from '@/lib/utils/images';
+import {
+    SETUP_STORAGE_BUCKET,
+    createCustomerSetup,
+    getPurchasedProducts,
+} from '@/lib/repositories/setups';
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * POST /api/setups
+ * Submit a photo of the customer's system (multipart form)
+ *
+ * Fields: file, title, description?, productIds (repeated)
+ * Requires a signed-in customer; tagged products must come from their
+ * delivered orders. The setup is hidden until an admin approves it.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File | null;
+        const title = ((formData.get('title') as string | null) || '').trim();
+        const description = ((formData.get('description') as string | null) || '').trim();
+        const productIds = [...new Set(formData.getAll('productIds').map(String))];
+
+        if (!file) {
+            return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+        }
+
+        // Same rules as product image uploads
+        const validation = validateImageFile(file);
+        if (!validation.valid) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        if (!title || title.length > MAX_TITLE_LENGTH) {
+            return NextResponse.json(
+                { error: `Title is required (max ${MAX_TITLE_LENGTH} characters)` },
+                { status: 400 }
+            );
+        }
+
+        if (description.length > MAX_DESCRIPTION_LENGTH) {
+            return NextResponse.json(
+                { error: `Description is too long (max ${MAX_DESCRIPTION_LENGTH} characters)` },
+                { status: 400 }
+            );
+        }
+
+        if (productIds.length === 0) {
+            return NextResponse.json({ error: 'Tag at least one product you bought' }, { status: 400 });
+        }
+
+        const purchasedIds = new Set((await getPurchasedProducts(user.id)).map((product) => product.id));
+        if (productIds.some((id) => !purchasedIds.has(id))) {
+            return NextResponse.json(
+                { error: 'You can only tag products from your delivered orders' },
+                { status: 400 }
+            );
+        }
+
+        const supabase = createServiceClient();
+        const fileExtension = (file.name.split('.').pop() || 'jpg').toLowerCase();
+        const storagePath = `${user.id}/${uuidv4()}.${fileExtension}`;
+
+        const { error: uploadError } = await supabase.storage
+            .from(SETUP_STORAGE_BUCKET)
+            .upload(storagePath, file, {
+                contentType: file.type,
+                upsert: false,
+            });
+
+        if (uploadError) {
+            console.error('Error uploading setup photo:', uploadError);
+            return NextResponse.json({ error: 'Failed to upload photo' }, { status: 500 });
+        }
+
+        const { data: urlData } = supabase.storage
+            .from(SETUP_STORAGE_BUCKET)
+            .getPublicUrl(storagePath);
+
+        let setupId: string;
+        try {
+            setupId = await createCustomerSetup({
+                userId: user.id,
+                title,
+                description: description || undefined,
+                productIds,
+                imageUrl: urlData.publicUrl,
+                storagePath,
+            });
+        } catch (setupError) {
+            // Don't leave orphaned photos in the bucket
+            await supabase.storage.from(SETUP_STORAGE_BUCKET).remove([storagePath]);
+            throw setupError;
+        }
+
+        revalidatePath('/account/setups');
+        revalidatePath('/admin/setups');
+
+        return NextResponse.json({ success: true, setupId });
+    } catch (error) {
+        console.error('Error submitting setup:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to submit setup' },
+            { status: 500 }
+        );
+    }
+}
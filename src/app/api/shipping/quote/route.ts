@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { quoteShippingForCart } from '@/lib/repositories/shipping';
+
+const MAX_ITEMS = 50;
+
+/**
+ * POST /api/shipping/quote
+ * Live shipping quote for checkout
+ *
+ * Body: { items: [{ productId, quantity }], city, district?, insured? }
+ * Returns { quote: null } when we don't ship to the address. POST /api/orders
+ * recalculates the fee, so the quote is informational only.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const city = typeof body.city === 'string' ? body.city.trim() : '';
+        const district = typeof body.district === 'string' ? body.district.trim() : '';
+        const items = Array.isArray(body.items) ? body.items : [];
+
+        if (!city) {
+            return NextResponse.json({ error: 'City is required' }, { status: 400 });
+        }
+
+        const validItems = items.every(
+            (item: { productId?: unknown; quantity?: unknown }) =>
+                typeof item?.productId === 'string' &&
+                Number.isInteger(item.quantity) &&
+                Number(item.quantity) > 0
+        );
+        if (items.length === 0 || items.length > MAX_ITEMS || !validItems) {
+            return NextResponse.json({ error: 'Invalid items' }, { status: 400 });
+        }
+
+        const quote = await quoteShippingForCart(items, { city, district: district || undefined }, body.insured === true);
+
+        return NextResponse.json({ quote });
+    } catch (error) {
+        console.error('Shipping quote error:', error);
+        return NextResponse.json({ error: 'Failed to calculate shipping' }, { status: 500 });
+    }
+}
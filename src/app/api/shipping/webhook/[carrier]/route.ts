@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAvailableCarriers, getCarrierAdapter } from '@/lib/shipping/carriers';
+import { isCarrierCode } from '@/lib/shipping/types';
+import { recordCarrierEvents } from '@/lib/repositories/orders/shipments';
+
+/**
+ * POST /api/shipping/webhook/[carrier]
+ * Tracking updates pushed by a carrier (ghn, ghtk, viettel_post, jt, fake)
+ *
+ * Security: The callback URL registered with the carrier carries
+ * `?secret=<SHIPPING_WEBHOOK_SECRET>` (or send it as `x-webhook-secret`)
+ * Idempotency: Repeated events are ignored, so carrier retries are safe
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ carrier: string }> }
+) {
+    const secret = process.env.SHIPPING_WEBHOOK_SECRET;
+    if (!secret) {
+        return NextResponse.json({ error: 'SHIPPING_WEBHOOK_SECRET not set' }, { status: 500 });
+    }
+
+    const providedSecret =
+        request.nextUrl.searchParams.get('secret') || request.headers.get('x-webhook-secret');
+    if (providedSecret !== secret) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { carrier } = await params;
+    if (!isCarrierCode(carrier) || !getAvailableCarriers().includes(carrier)) {
+        return NextResponse.json({ error: 'Unknown carrier' }, { status: 404 });
+    }
+
+    let events;
+    try {
+        const payload = await request.json();
+        events = getCarrierAdapter(carrier).parseWebhook(payload);
+    } catch (error) {
+        console.error(`Invalid ${carrier} webhook payload:`, error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Invalid payload' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const result = await recordCarrierEvents(carrier, events);
+        return NextResponse.json({ ok: true, ...result });
+    } catch (error) {
+        console.error(`Error recording ${carrier} webhook events:`, error);
+        // 500 makes the carrier retry later
+        return NextResponse.json({ error: 'Failed to record events' }, { status: 500 });
+    }
+}
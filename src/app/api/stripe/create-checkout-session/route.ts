@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getStripe } from '@/lib/stripe/server';
+import { createVndCheckoutSession, getStripe } from '@/lib/stripe/server';
 import { createServiceClient } from '@/lib/supabase/service';
 import { setStripeCheckoutSession } from '@/lib/repositories/admin/orders';
 
@@ -35,6 +35,9 @@ export async function POST(request: NextRequest) {
                 payment_status,
                 status,
                 total,
+                shipping_fee,
+                discount,
+                discount_code,
                 deposit_amount_vnd,
                 customer_email,
                 customer_name,
@@ -97,10 +100,9 @@ export async function POST(request: NextRequest) {
         const successUrl = `${baseUrl}/order-success/${orderCode}?session_id={CHECKOUT_SESSION_ID}`;
         const cancelUrl = `${baseUrl}/checkout?cancelled=1&orderCode=${orderCode}`;
 
-        // Create Stripe Checkout Session
-        let stripe;
+        // Make sure Stripe is configured before building the session
         try {
-            stripe = getStripe();
+            getStripe();
         } catch (stripeInitError) {
             console.error('Failed to initialize Stripe:', stripeInitError);
             return NextResponse.json(
@@ -144,6 +146,19 @@ export async function POST(request: NextRequest) {
                 },
                 quantity: 1,
             });
+        } else if (Number(order.discount || 0) > 0) {
+            // Stripe line items can't carry a negative discount line, so a
+            // discounted order is charged as a single line for its total
+            lineItems.push({
+                price_data: {
+                    currency: 'vnd',
+                    product_data: {
+                        name: `${order.locale === 'en' ? 'Order' : 'Đơn hàng'} ${orderCode} (${order.discount_code || '-'})`,
+                    },
+                    unit_amount: amountInSmallestUnit,
+                },
+                quantity: 1,
+            });
         } else {
             // For full orders, show all items
             for (const item of order.order_items) {
@@ -163,6 +178,20 @@ export async function POST(request: NextRequest) {
                     quantity: item.quantity || 1,
                 });
             }
+
+            const shippingAmount = Math.round(Number(order.shipping_fee || 0));
+            if (shippingAmount > 0) {
+                lineItems.push({
+                    price_data: {
+                        currency: 'vnd',
+                        product_data: {
+                            name: order.locale === 'en' ? 'Shipping' : 'Phí vận chuyển',
+                        },
+                        unit_amount: shippingAmount,
+                    },
+                    quantity: 1,
+                });
+            }
         }
 
         // Validate we have at least one line item
@@ -175,62 +204,26 @@ export async function POST(request: NextRequest) {
 
         // Create Stripe Checkout Session
         // Note: Don't set currency at session level - it's set per line item
-        // Stripe test mode may not support VND, so we'll try VND first and fallback to USD
-        let session;
-        try {
-            session = await stripe.checkout.sessions.create({
-                mode: 'payment',
-                success_url: successUrl,
-                cancel_url: cancelUrl,
-                client_reference_id: orderCode,
-                customer_email: order.customer_email || undefined,
-                metadata: {
-                    order_id: order.id,
-                    order_code: orderCode,
-                    order_type: order.order_type || 'standard',
-                },
-                line_items: lineItems,
-            });
-        } catch (currencyError: any) {
-            // If VND is not supported, try USD (for test mode)
-            if (currencyError?.code === 'resource_missing' || 
-                currencyError?.message?.includes('currency') ||
-                currencyError?.message?.includes('vnd')) {
-                console.log('VND not supported, falling back to USD for test mode');
-                
-                // Convert VND to USD (approximate: 1 USD ≈ 25,000 VND)
-                const USD_RATE = 25000;
-                const usdLineItems = lineItems.map(item => ({
-                    ...item,
-                    price_data: {
-                        ...item.price_data,
-                        currency: 'usd',
-                        unit_amount: Math.round(item.price_data.unit_amount / USD_RATE * 100), // Convert to cents
-                    },
-                }));
-
-                session = await stripe.checkout.sessions.create({
-                    mode: 'payment',
-                    success_url: successUrl,
-                    cancel_url: cancelUrl,
-                    client_reference_id: orderCode,
-                    customer_email: order.customer_email || undefined,
-                    metadata: {
-                        order_id: order.id,
-                        order_code: orderCode,
-                        order_type: order.order_type || 'standard',
-                        currency_converted: 'vnd_to_usd',
-                        original_amount_vnd: amountToCharge.toString(),
-                    },
-                    line_items: usdLineItems,
-                });
-            } else {
-                throw currencyError;
-            }
-        }
+        const session = await createVndCheckoutSession({
+            mode: 'payment',
+            success_url: successUrl,
+            cancel_url: cancelUrl,
+            client_reference_id: orderCode,
+            customer_email: order.customer_email || undefined,
+            metadata: {
+                order_id: order.id,
+                order_code: orderCode,
+                order_type: order.order_type || 'standard',
+            },
+            line_items: lineItems,
+        }, amountToCharge);
 
-        // Store session ID in order
-        await setStripeCheckoutSession(order.id, session.id);
+        // Record the checkout session as a pending payment
+        await setStripeCheckoutSession(order.id, session.id, {
+            kind: isDepositOrder ? 'deposit' : 'charge',
+            amount: session.amount_total ?? amountToCharge,
+            currency: session.currency || 'vnd',
+        });
 
         return NextResponse.json({
             url: session.url,
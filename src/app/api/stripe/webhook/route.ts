@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getStripeWebhookEvent, getStripe, parseStripeMetadata } from '@/lib/stripe/server';
+import { getStripeWebhookEvent, getStripe } from '@/lib/stripe/server';
 import {
     markOrderPaidFromStripe,
     markOrderDepositPaidFromStripe,
+    markOrderBalancePaidFromStripe,
     markOrderPaymentFailedFromStripe,
     markOrderRefundedFromStripe,
+} from '@/lib/repositories/admin/orders';
+import {
+    findOrderByPaymentIntent,
     hasStripeEventBeenProcessed,
     markStripeEventAsProcessed,
-} from '@/lib/repositories/admin/orders';
+} from '@/lib/repositories/admin/payments';
 import { createServiceClient } from '@/lib/supabase/service';
 import { sendRefundEmail } from '@/lib/emails/service';
 import type { Locale } from '@/config/locales';
@@ -104,8 +108,8 @@ async function handleCheckoutSessionCompleted(
     eventId: string
 ): Promise<void> {
     const orderId = session.metadata?.order_id;
-    const orderCode = session.metadata?.order_code || session.client_reference_id;
     const orderType = session.metadata?.order_type || 'standard';
+    const paymentKind = session.metadata?.payment_kind;
 
     if (!orderId) {
         console.error('Missing order_id in checkout session metadata');
@@ -113,7 +117,7 @@ async function handleCheckoutSessionCompleted(
     }
 
     // Idempotency check
-    if (await hasStripeEventBeenProcessed(orderId, eventId)) {
+    if (await hasStripeEventBeenProcessed(eventId)) {
         console.log(`Event ${eventId} already processed for order ${orderId}`);
         return;
     }
@@ -126,21 +130,25 @@ async function handleCheckoutSessionCompleted(
 
     const paidAt = session.payment_status === 'paid' ? new Date() : undefined;
 
-    // Update order based on type
-    if (orderType === 'deposit_reservation') {
-        await markOrderDepositPaidFromStripe(orderId, {
-            paymentIntentId,
-            paidAt,
-        });
+    const payment = {
+        sessionId: session.id,
+        paymentIntentId,
+        amount: session.amount_total ?? undefined,
+        currency: session.currency || undefined,
+        paidAt,
+    };
+
+    // Update order based on type (balance payments settle a deposit reservation)
+    if (paymentKind === 'balance') {
+        await markOrderBalancePaidFromStripe(orderId, payment);
+    } else if (orderType === 'deposit_reservation') {
+        await markOrderDepositPaidFromStripe(orderId, payment);
     } else {
-        await markOrderPaidFromStripe(orderId, {
-            paymentIntentId,
-            paidAt,
-        });
+        await markOrderPaidFromStripe(orderId, payment);
     }
 
     // Mark event as processed
-    await markStripeEventAsProcessed(orderId, eventId);
+    await markStripeEventAsProcessed(eventId, 'checkout.session.completed', orderId);
 }
 
 /**
@@ -153,8 +161,8 @@ async function handlePaymentIntentSucceeded(
 ): Promise<void> {
     // Try to get order from metadata
     const orderId = paymentIntent.metadata?.order_id;
-    const orderCode = paymentIntent.metadata?.order_code;
     const orderType = paymentIntent.metadata?.order_type || 'standard';
+    const paymentKind = paymentIntent.metadata?.payment_kind;
 
     if (!orderId) {
         console.log('No order_id in payment intent metadata, skipping');
@@ -162,28 +170,32 @@ async function handlePaymentIntentSucceeded(
     }
 
     // Idempotency check
-    if (await hasStripeEventBeenProcessed(orderId, eventId)) {
+    if (await hasStripeEventBeenProcessed(eventId)) {
         console.log(`Event ${eventId} already processed for order ${orderId}`);
         return;
     }
 
-    const paidAt = new Date();
-
-    // Update order based on type
-    if (orderType === 'deposit_reservation') {
-        await markOrderDepositPaidFromStripe(orderId, {
-            paymentIntentId: paymentIntent.id,
-            paidAt,
-        });
+    const payment = {
+        paymentIntentId: paymentIntent.id,
+        chargeId: typeof paymentIntent.latest_charge === 'string'
+            ? paymentIntent.latest_charge
+            : paymentIntent.latest_charge?.id,
+        amount: paymentIntent.amount_received,
+        currency: paymentIntent.currency,
+        paidAt: new Date(),
+    };
+
+    // Update order based on type (balance payments settle a deposit reservation)
+    if (paymentKind === 'balance') {
+        await markOrderBalancePaidFromStripe(orderId, payment);
+    } else if (orderType === 'deposit_reservation') {
+        await markOrderDepositPaidFromStripe(orderId, payment);
     } else {
-        await markOrderPaidFromStripe(orderId, {
-            paymentIntentId: paymentIntent.id,
-            paidAt,
-        });
+        await markOrderPaidFromStripe(orderId, payment);
     }
 
     // Mark event as processed
-    await markStripeEventAsProcessed(orderId, eventId);
+    await markStripeEventAsProcessed(eventId, 'payment_intent.succeeded', orderId);
 }
 
 /**
@@ -201,56 +213,21 @@ async function handlePaymentIntentFailed(
     }
 
     // Idempotency check
-    if (await hasStripeEventBeenProcessed(orderId, eventId)) {
+    if (await hasStripeEventBeenProcessed(eventId)) {
         console.log(`Event ${eventId} already processed for order ${orderId}`);
         return;
     }
 
+    // Stock stays reserved: the customer can retry, and cancelling or expiring the order releases it
     await markOrderPaymentFailedFromStripe(orderId, {
         paymentIntentId: paymentIntent.id,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
         reason: paymentIntent.last_payment_error?.message || 'Payment failed',
     });
 
-    // Restore inventory when payment fails
-    try {
-        const supabase = createServiceClient();
-        const { data: orderItems } = await supabase
-            .from('order_items')
-            .select('product_id, quantity')
-            .eq('order_id', orderId);
-
-        if (orderItems && orderItems.length > 0) {
-            for (const item of orderItems) {
-                const rpcResult = await supabase.rpc('increment_stock', {
-                    product_id: item.product_id,
-                    quantity: item.quantity,
-                });
-
-                if (rpcResult.error) {
-                    // Fallback: direct update
-                    const { data: product } = await supabase
-                        .from('products')
-                        .select('stock_quantity')
-                        .eq('id', item.product_id)
-                        .single();
-
-                    if (product) {
-                        await supabase
-                            .from('products')
-                            .update({ stock_quantity: product.stock_quantity + item.quantity })
-                            .eq('id', item.product_id);
-                    }
-                }
-            }
-            console.log(`Inventory restored for order ${orderId} after payment failure`);
-        }
-    } catch (inventoryError) {
-        console.error('Error restoring inventory after payment failure:', inventoryError);
-        // Don't throw - inventory restoration failure shouldn't break webhook processing
-    }
-
     // Mark event as processed
-    await markStripeEventAsProcessed(orderId, eventId);
+    await markStripeEventAsProcessed(eventId, 'payment_intent.payment_failed', orderId);
 }
 
 /**
@@ -272,37 +249,16 @@ async function handleChargeRefunded(
     }
 
     // Find order by payment intent ID
-    const supabase = createServiceClient();
-    const { data: orders } = await supabase
-        .from('orders')
-        .select('id, order_number, admin_note')
-        .not('admin_note', 'is', null);
-
-    if (!orders || orders.length === 0) {
-        console.log('No orders found with metadata');
-        return;
-    }
-
-    // Find order with matching payment intent ID
-    let orderId: string | null = null;
-    let orderCode: string | null = null;
-
-    for (const order of orders) {
-        const metadata = parseStripeMetadata(order.admin_note);
-        if (metadata.stripe_payment_intent_id === paymentIntentId) {
-            orderId = order.id;
-            orderCode = order.order_number;
-            break;
-        }
-    }
-
-    if (!orderId) {
+    const order = await findOrderByPaymentIntent(paymentIntentId);
+    if (!order) {
         console.log(`No order found for payment intent ${paymentIntentId}`);
         return;
     }
 
+    const { orderId, orderNumber: orderCode } = order;
+
     // Idempotency check
-    if (await hasStripeEventBeenProcessed(orderId, eventId)) {
+    if (await hasStripeEventBeenProcessed(eventId)) {
         console.log(`Event ${eventId} already processed for order ${orderId}`);
         return;
     }
@@ -322,82 +278,23 @@ async function handleChargeRefunded(
     // Process each refund
     for (const refund of refunds.data) {
         if (refund.status === 'succeeded') {
-            // Get order details to determine paid amount
-            const { data: orderDetails } = await supabase
-                .from('orders')
-                .select('order_type, total, deposit_amount_vnd')
-                .eq('id', orderId)
-                .single();
-
-            if (!orderDetails) {
-                console.error(`Order ${orderId} not found`);
-                continue;
-            }
-
-            const paidAmount = orderDetails.order_type === 'deposit_reservation'
-                ? (orderDetails.deposit_amount_vnd || 0)
-                : Number(orderDetails.total);
-
-            // Get current refunded amount from metadata
-            const { data: currentOrder } = await supabase
-                .from('orders')
-                .select('admin_note')
-                .eq('id', orderId)
-                .single();
-
-            if (!currentOrder) continue;
-
-            const metadata = parseStripeMetadata(currentOrder.admin_note);
-            const existingRefunded = metadata.stripe_refunds?.total_refunded_amount || 0;
-            const newTotalRefunded = existingRefunded + refund.amount;
-
-            // Determine if partial or full refund
-            const isPartial = newTotalRefunded < paidAmount;
-
-            // Mark order as refunded
-            await markOrderRefundedFromStripe(orderId, {
+            const result = await markOrderRefundedFromStripe(orderId, {
                 refundId: refund.id,
                 amount: refund.amount,
                 currency: refund.currency,
                 status: refund.status,
-                chargeId: charge.id,
                 paymentIntentId,
-            }, {
-                partial: isPartial,
             });
 
-            // Send refund email notification
-            try {
-                const { data: orderForEmail } = await supabase
-                    .from('orders')
-                    .select('id, customer_email, customer_name, locale')
-                    .eq('id', orderId)
-                    .single();
-
-                if (orderForEmail?.customer_email) {
-                    const locale = (orderForEmail.locale === 'vi' || orderForEmail.locale === 'en')
-                        ? orderForEmail.locale
-                        : 'vi';
-
-                    await sendRefundEmail(orderId, {
-                        orderCode: orderCode || '',
-                        customerName: orderForEmail.customer_name,
-                        customerEmail: orderForEmail.customer_email,
-                        refundAmount: refund.amount,
-                        currency: refund.currency,
-                        isPartial,
-                        locale: locale as Locale,
-                    });
-                }
-            } catch (emailError) {
-                console.error('Error sending refund email:', emailError);
-                // Don't throw - email failure shouldn't break webhook processing
+            // Only notify the first time this refund is seen as succeeded
+            if (result.newlySucceeded) {
+                await notifyRefundSucceeded(orderId, orderCode, refund, result.paymentStatus !== 'refunded');
             }
         }
     }
 
     // Mark event as processed
-    await markStripeEventAsProcessed(orderId, eventId);
+    await markStripeEventAsProcessed(eventId, 'charge.refunded', orderId);
 }
 
 /**
@@ -435,120 +332,75 @@ async function handleRefundUpdated(
     }
 
     // Find order by payment intent ID
-    const supabase = createServiceClient();
-    const { data: orders } = await supabase
-        .from('orders')
-        .select('id, order_number, admin_note')
-        .not('admin_note', 'is', null);
-
-    if (!orders || orders.length === 0) {
-        console.log('No orders found with metadata');
-        return;
-    }
-
-    // Find order with matching payment intent ID
-    let orderId: string | null = null;
-    let orderCode: string | null = null;
-
-    for (const order of orders) {
-        const metadata = parseStripeMetadata(order.admin_note);
-        if (metadata.stripe_payment_intent_id === paymentIntentId) {
-            orderId = order.id;
-            orderCode = order.order_number;
-            break;
-        }
-    }
-
-    if (!orderId) {
+    const order = await findOrderByPaymentIntent(paymentIntentId);
+    if (!order) {
         console.log(`No order found for payment intent ${paymentIntentId}`);
         return;
     }
 
+    const { orderId, orderNumber: orderCode } = order;
+
     // Idempotency check
-    if (await hasStripeEventBeenProcessed(orderId, eventId)) {
+    if (await hasStripeEventBeenProcessed(eventId)) {
         console.log(`Event ${eventId} already processed for order ${orderId}`);
         return;
     }
 
-    // Get order details to determine paid amount
-    const { data: orderDetails } = await supabase
-        .from('orders')
-        .select('order_type, total, deposit_amount_vnd, admin_note')
-        .eq('id', orderId)
-        .single();
-
-    if (!orderDetails) {
-        console.error(`Order ${orderId} not found`);
-        return;
-    }
-
-    const paidAmount = orderDetails.order_type === 'deposit_reservation'
-        ? (orderDetails.deposit_amount_vnd || 0)
-        : Number(orderDetails.total);
-
-    // Get current refunded amount from metadata
-    const metadata = parseStripeMetadata(orderDetails.admin_note);
-    const existingRefunded = metadata.stripe_refunds?.total_refunded_amount || 0;
-    
-    // Calculate new total if this refund succeeded
-    let newTotalRefunded = existingRefunded;
-    if (refund.status === 'succeeded') {
-        // Check if this refund was already counted
-        const refundExists = metadata.stripe_refunds?.refunds?.some(
-            (r) => r.refund_id === refund.id && r.status === 'succeeded'
-        );
-        if (!refundExists) {
-            newTotalRefunded = existingRefunded + refund.amount;
-        }
-    }
-
-    // Determine if partial or full refund
-    const isPartial = newTotalRefunded < paidAmount;
-
     // Update order refund status
-    await markOrderRefundedFromStripe(orderId, {
+    const result = await markOrderRefundedFromStripe(orderId, {
         refundId: refund.id,
         amount: refund.amount,
         currency: refund.currency,
-        status: refund.status || 'unknown',
-        chargeId,
+        status: refund.status || 'pending',
         paymentIntentId,
-    }, {
-        partial: isPartial,
     });
 
-    // Send email if refund succeeded
-    if (refund.status === 'succeeded') {
-        try {
-            const { data: orderForEmail } = await supabase
-                .from('orders')
-                .select('id, customer_email, customer_name, locale')
-                .eq('id', orderId)
-                .single();
-
-            if (orderForEmail?.customer_email) {
-                const locale = (orderForEmail.locale === 'vi' || orderForEmail.locale === 'en')
-                    ? orderForEmail.locale
-                    : 'vi';
-
-                await sendRefundEmail(orderId, {
-                    orderCode: orderCode || '',
-                    customerName: orderForEmail.customer_name,
-                    customerEmail: orderForEmail.customer_email,
-                    refundAmount: refund.amount,
-                    currency: refund.currency,
-                    isPartial,
-                    locale: locale as Locale,
-                });
-            }
-        } catch (emailError) {
-            console.error('Error sending refund email:', emailError);
-            // Don't throw - email failure shouldn't break webhook processing
-        }
+    // Send email if refund succeeded (and charge.refunded hasn't already)
+    if (result.newlySucceeded) {
+        await notifyRefundSucceeded(orderId, orderCode, refund, result.paymentStatus !== 'refunded');
     }
 
     // Mark event as processed
-    await markStripeEventAsProcessed(orderId, eventId);
+    await markStripeEventAsProcessed(eventId, 'refund.updated', orderId);
+}
+
+/**
+ * Send refund email notification
+ * Email failure shouldn't break webhook processing, so errors are only logged
+ */
+async function notifyRefundSucceeded(
+    orderId: string,
+    orderCode: string,
+    refund: Stripe.Refund,
+    isPartial: boolean
+): Promise<void> {
+    try {
+        const supabase = createServiceClient();
+        const { data: orderForEmail } = await supabase
+            .from('orders')
+            .select('id, customer_email, customer_name, locale')
+            .eq('id', orderId)
+            .single();
+
+        if (orderForEmail?.customer_email) {
+            const locale = (orderForEmail.locale === 'vi' || orderForEmail.locale === 'en')
+                ? orderForEmail.locale
+                : 'vi';
+
+            await sendRefundEmail(orderId, {
+                orderCode,
+                customerName: orderForEmail.customer_name,
+                customerEmail: orderForEmail.customer_email,
+                refundId: refund.id,
+                refundAmount: refund.amount,
+                currency: refund.currency,
+                isPartial,
+                locale: locale as Locale,
+            });
+        }
+    } catch (emailError) {
+        console.error('Error sending refund email:', emailError);
+    }
 }
 
 // Configure route to handle raw body for webhook signature verification
@@ -556,4 +408,3 @@ export const runtime = 'nodejs';
 
 // Disable body parsing - we need raw body for signature verification
 export const dynamic = 'force-dynamic';
-
@@ -1,17 +1,82 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { useTranslations } from 'next-intl';
 import Link from 'next/link';
 import { useCartStore } from '@/lib/cart/cart.store';
+import { validateCartDiscount } from '@/lib/cart/cart.utils';
+import type { AppliedDiscount } from '@/lib/orders/discounts';
 import styles from './page.module.css';
 
 export default function CartPage() {
     const t = useTranslations('cart');
     const tCommon = useTranslations('common');
-    const { items, updateQuantity, removeItem, getTotal, clearCart } = useCartStore();
+    const { items, updateQuantity, removeItem, getTotal, clearCart, discountCode, setDiscountCode } = useCartStore();
+    const [codeInput, setCodeInput] = useState('');
+    const [discount, setDiscount] = useState<AppliedDiscount | null>(null);
+    const [discountError, setDiscountError] = useState<string | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
 
     const isEmpty = items.length === 0;
     const subtotal = getTotal();
+    const discountAmount = discount?.amount || 0;
+
+    // Re-check the applied code whenever the cart changes (minimum order, scope)
+    useEffect(() => {
+        if (!discountCode || items.length === 0) {
+            setDiscount(null);
+            return;
+        }
+
+        let cancelled = false;
+        validateCartDiscount(discountCode, items)
+            .then((evaluation) => {
+                if (cancelled) return;
+                if (evaluation.ok) {
+                    setDiscount(evaluation.discount);
+                    setDiscountError(null);
+                } else {
+                    setDiscount(null);
+                    setDiscountError(t(`discount.reasons.${evaluation.reason}`));
+                }
+            })
+            .catch(() => {
+                if (!cancelled) setDiscountError(t('discount.error'));
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [discountCode, items, t]);
+
+    const handleApplyDiscount = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = codeInput.trim();
+        if (!code) return;
+
+        setIsApplying(true);
+        setDiscountError(null);
+        try {
+            const evaluation = await validateCartDiscount(code, items);
+            if (evaluation.ok) {
+                setDiscountCode(evaluation.discount.code);
+                setDiscount(evaluation.discount);
+                setCodeInput('');
+            } else {
+                setDiscountError(t(`discount.reasons.${evaluation.reason}`));
+            }
+        } catch {
+            setDiscountError(t('discount.error'));
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const handleRemoveDiscount = () => {
+        setDiscountCode(null);
+        setDiscount(null);
+        setDiscountError(null);
+    };
 
     const handleQuantityChange = (productId: string, newQuantity: number) => {
         updateQuantity(productId, newQuantity);
@@ -110,6 +175,12 @@ export default function CartPage() {
                             <span>{t('summary.subtotal')}</span>
                             <span>{subtotal.toLocaleString('vi-VN')} {tCommon('currency')}</span>
                         </div>
+                        {discount && (
+                            <div className={styles.summaryRow}>
+                                <span>{t('summary.discount', { code: discount.code })}</span>
+                                <span>-{discountAmount.toLocaleString('vi-VN')} {tCommon('currency')}</span>
+                            </div>
+                        )}
                         <div className={styles.summaryRow}>
                             <span>{t('summary.shipping')}</span>
                             <span className="text-muted">{t('summary.shippingNote')}</span>
@@ -118,9 +189,35 @@ export default function CartPage() {
                         <div className={`${styles.summaryRow} ${styles.summaryTotal}`}>
                             <strong>{t('summary.total')}</strong>
                             <strong className="text-accent">
-                                {subtotal.toLocaleString('vi-VN')} {tCommon('currency')}
+                                {(subtotal - discountAmount).toLocaleString('vi-VN')} {tCommon('currency')}
                             </strong>
                         </div>
+
+                        {discountCode ? (
+                            <div className={styles.discountApplied}>
+                                <span>{t('discount.applied', { code: discountCode })}</span>
+                                <button type="button" className="btn btn-ghost btn-sm" onClick={handleRemoveDiscount}>
+                                    {t('discount.remove')}
+                                </button>
+                            </div>
+                        ) : (
+                            <form className={styles.discountForm} onSubmit={handleApplyDiscount}>
+                                <input
+                                    type="text"
+                                    className="input"
+                                    value={codeInput}
+                                    onChange={(e) => setCodeInput(e.target.value)}
+                                    placeholder={t('discount.placeholder')}
+                                    aria-label={t('discount.label')}
+                                    maxLength={40}
+                                    disabled={isApplying}
+                                />
+                                <button type="submit" className="btn btn-secondary" disabled={isApplying || !codeInput.trim()}>
+                                    {isApplying ? t('discount.applying') : t('discount.apply')}
+                                </button>
+                            </form>
+                        )}
+                        {discountError && <p className={styles.discountError}>{discountError}</p>}
                         <Link
                             href="/checkout"
                             className="btn btn-primary btn-large"
@@ -1,21 +1,37 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useTranslations } from 'next-intl';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import AddressDivisionFields, {
+    EMPTY_ADDRESS_DIVISIONS,
+    isAddressDivisionComplete,
+    toAddressDivisionValue,
+    type AddressDivisionValue,
+} from '@/components/address/AddressDivisionFields';
 import { useCartStore } from '@/lib/cart/cart.store';
+import { validateCartDiscount } from '@/lib/cart/cart.utils';
+import type { AppliedDiscount, DiscountRejection } from '@/lib/orders/discounts';
+import type { UserAddress } from '@/lib/repositories/addresses';
+import type { ShippingQuote } from '@/lib/shipping/rates';
 import styles from './page.module.css';
 
 type PaymentMode = 'deposit' | 'full' | 'cod';
 
+// 'unavailable': no shipping zone covers the address
+type ShippingQuoteState = 'idle' | 'loading' | 'ready' | 'unavailable' | 'error';
+
+const SHIPPING_QUOTE_DELAY_MS = 400;
+
+// Address picker value for typing an address instead of using a saved one
+const NEW_ADDRESS = 'new';
+
 interface CheckoutFormData {
     fullName: string;
     phone: string;
     email: string;
     addressLine: string;
-    city: string;
-    district?: string;
     note?: string;
     paymentMethod: 'cod' | 'bank_transfer' | 'stripe';
     paymentMode: PaymentMode; // Order-level payment mode: deposit, full, or cod
@@ -26,14 +42,15 @@ interface FormErrors {
     phone?: string;
     email?: string;
     addressLine?: string;
-    city?: string;
+    divisions?: string;
 }
 
 export default function CheckoutPage() {
     const t = useTranslations('checkout');
     const tCommon = useTranslations('common');
+    const tCart = useTranslations('cart');
     const router = useRouter();
-    const { items, getTotal, clearCart } = useCartStore();
+    const { items, getTotal, clearCart, discountCode, setDiscountCode } = useCartStore();
 
     // Check if cart has deposit-eligible products (for UI display only)
     // Actual eligibility will be validated server-side
@@ -46,17 +63,25 @@ export default function CheckoutPage() {
         phone: '',
         email: '',
         addressLine: '',
-        city: '',
-        district: '',
         note: '',
         paymentMethod: 'cod', // Default to COD
         paymentMode: hasDepositEligibleProducts ? 'full' : 'cod', // Default to full if deposit-eligible, else cod
     });
 
+    const [divisions, setDivisions] = useState<AddressDivisionValue>(EMPTY_ADDRESS_DIVISIONS);
     const [errors, setErrors] = useState<FormErrors>({});
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submitError, setSubmitError] = useState<string | null>(null);
     const [cancelledMessage, setCancelledMessage] = useState<string | null>(null);
+    const [shippingInsurance, setShippingInsurance] = useState(false);
+    const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(null);
+    const [shippingQuoteState, setShippingQuoteState] = useState<ShippingQuoteState>('idle');
+    const [discount, setDiscount] = useState<AppliedDiscount | null>(null);
+    const [discountNotice, setDiscountNotice] = useState<string | null>(null);
+    // null until the address book loads; stays null for guests
+    const [savedAddresses, setSavedAddresses] = useState<UserAddress[] | null>(null);
+    const [selectedAddressId, setSelectedAddressId] = useState(NEW_ADDRESS);
+    const [saveAddress, setSaveAddress] = useState(false);
 
     // Check for cancelled Stripe payment and restore inventory
     useEffect(() => {
@@ -80,6 +105,121 @@ export default function CheckoutPage() {
         }
     }, [t]);
 
+    // Signed-in customers: load the address book and pre-fill the default address
+    useEffect(() => {
+        let cancelled = false;
+
+        fetch('/api/account/addresses')
+            .then((response) => (response.ok ? response.json() : null))
+            .then((data: { addresses: UserAddress[] } | null) => {
+                if (cancelled || !data) return;
+                setSavedAddresses(data.addresses);
+
+                const defaultAddress = data.addresses.find((address) => address.isDefault);
+                if (defaultAddress) {
+                    setSelectedAddressId(defaultAddress.id);
+                    setFormData((prev) => ({
+                        ...prev,
+                        fullName: defaultAddress.fullName,
+                        phone: defaultAddress.phone,
+                        addressLine: defaultAddress.addressLine,
+                    }));
+                    setDivisions(toAddressDivisionValue(defaultAddress));
+                }
+            })
+            .catch((error) => {
+                // Checkout works without the address book
+                console.error('Failed to load saved addresses:', error);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    // Live shipping quote (the server recalculates it when the order is placed)
+    const quoteCity = divisions.province;
+    const quoteDistrict = divisions.district;
+    const quoteItemsKey = items.map((item) => `${item.productId}:${item.quantity}`).join(',');
+
+    useEffect(() => {
+        if (!quoteCity || !quoteItemsKey) {
+            setShippingQuote(null);
+            setShippingQuoteState('idle');
+            return;
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            setShippingQuoteState('loading');
+            try {
+                const response = await fetch('/api/shipping/quote', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        items: quoteItemsKey.split(',').map((entry) => {
+                            const [productId, quantity] = entry.split(':');
+                            return { productId, quantity: Number(quantity) };
+                        }),
+                        city: quoteCity,
+                        district: quoteDistrict || undefined,
+                        insured: shippingInsurance,
+                    }),
+                    signal: controller.signal,
+                });
+                const result = await response.json();
+
+                if (!response.ok) {
+                    throw new Error(result.error || 'Failed to calculate shipping');
+                }
+
+                setShippingQuote(result.quote);
+                setShippingQuoteState(result.quote ? 'ready' : 'unavailable');
+            } catch (error) {
+                if (controller.signal.aborted) return;
+                console.error('Shipping quote error:', error);
+                setShippingQuote(null);
+                setShippingQuoteState('error');
+            }
+        }, SHIPPING_QUOTE_DELAY_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [quoteCity, quoteDistrict, quoteItemsKey, shippingInsurance]);
+
+    // Re-check the code applied in the cart; drop it if it no longer applies
+    useEffect(() => {
+        if (!discountCode || items.length === 0) {
+            setDiscount(null);
+            return;
+        }
+
+        let cancelled = false;
+        validateCartDiscount(discountCode, items)
+            .then((evaluation) => {
+                if (cancelled) return;
+                if (evaluation.ok) {
+                    setDiscount(evaluation.discount);
+                } else {
+                    setDiscount(null);
+                    setDiscountCode(null);
+                    setDiscountNotice(
+                        t('discount.removed', { code: discountCode, reason: tCart(`discount.reasons.${evaluation.reason}`) })
+                    );
+                }
+            })
+            .catch((error) => {
+                // Keep the code: the order request validates it again
+                console.error('Discount validation error:', error);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [discountCode, items, setDiscountCode, t, tCart]);
+
     // Redirect if cart is empty
     useEffect(() => {
         if (items.length === 0) {
@@ -116,8 +256,8 @@ export default function CheckoutPage() {
             newErrors.addressLine = t('errors.required');
         }
 
-        if (!formData.city || !formData.city.trim()) {
-            newErrors.city = t('errors.required');
+        if (!isAddressDivisionComplete(divisions)) {
+            newErrors.divisions = tCommon('address.required');
         }
 
         setErrors(newErrors);
@@ -137,6 +277,26 @@ export default function CheckoutPage() {
         setSubmitError(null);
     };
 
+    const handleAddressSelect = (addressId: string) => {
+        const address = savedAddresses?.find((item) => item.id === addressId);
+        setSelectedAddressId(address ? address.id : NEW_ADDRESS);
+        setFormData((prev) => ({
+            ...prev,
+            fullName: address?.fullName || '',
+            phone: address?.phone || '',
+            addressLine: address?.addressLine || '',
+        }));
+        setDivisions(address ? toAddressDivisionValue(address) : EMPTY_ADDRESS_DIVISIONS);
+        setErrors({});
+        setSubmitError(null);
+    };
+
+    const handleDivisionsChange = useCallback((value: AddressDivisionValue) => {
+        setDivisions(value);
+        setErrors((prev) => (prev.divisions ? { ...prev, divisions: undefined } : prev));
+        setSubmitError(null);
+    }, []);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         console.log('Form submitted', { formData, items });
@@ -149,6 +309,13 @@ export default function CheckoutPage() {
             return;
         }
 
+        if (shippingQuoteState !== 'ready' || !shippingQuote) {
+            setSubmitError(
+                shippingQuoteState === 'unavailable' ? t('shipping.unavailable') : t('shipping.notReady')
+            );
+            return;
+        }
+
         setIsSubmitting(true);
         setSubmitError(null);
 
@@ -172,17 +339,38 @@ export default function CheckoutPage() {
                     },
                     shippingAddress: {
                         addressLine: formData.addressLine.trim(),
-                        city: formData.city.trim(),
-                        district: formData.district?.trim() || undefined,
+                        provinceCode: divisions.provinceCode,
+                        districtCode: divisions.districtCode,
+                        wardCode: divisions.wardCode || undefined,
                     },
                     paymentMethod: formData.paymentMethod === 'stripe' ? 'bank_transfer' : formData.paymentMethod, // Map stripe to bank_transfer for now
                     paymentMode: formData.paymentMode, // Order-level payment mode
+                    shippingInsurance: shippingQuote.insured,
+                    expectedShippingFee: shippingQuote.shippingFee,
+                    discountCode: discountCode || undefined,
+                    saveAddress: savedAddresses !== null && selectedAddressId === NEW_ADDRESS && saveAddress,
                     note: formData.note?.trim() || undefined,
                 }),
             });
 
             const result = await response.json();
 
+            if (response.status === 409 && result.code === 'shipping_fee_changed') {
+                // Rates changed since the quote: show the new fee and let the customer confirm again
+                setShippingQuote(result.shippingQuote);
+                throw new Error(t('shipping.feeChanged'));
+            }
+
+            if (result.code === 'discount_invalid') {
+                // The code stopped applying (e.g. per-customer limit for this phone number)
+                const reason = (result.reason || 'not_found') as DiscountRejection;
+                setDiscount(null);
+                setDiscountCode(null);
+                throw new Error(
+                    t('discount.removed', { code: discountCode || '', reason: tCart(`discount.reasons.${reason}`) })
+                );
+            }
+
             if (!response.ok) {
                 const errorMessage =
                     result.details || result.error || t('errors.submitFailed');
@@ -235,15 +423,20 @@ export default function CheckoutPage() {
     };
 
     const subtotal = getTotal();
+    const shippingFee = shippingQuote?.shippingFee || 0;
+    const discountAmount = discount?.amount || 0;
+    const total = subtotal - discountAmount + shippingFee;
     
     // Calculate amounts based on paymentMode (single source of truth)
     // For deposit mode, we need to calculate deposit from product config
     // This is approximate - server will calculate final amounts
     const calculateDepositAmount = (item: typeof items[0]): number => {
+        const lineDiscount = discount?.lines.find((line) => line.productId === item.productId)?.discount || 0;
+        const discountedPrice = item.priceVnd - lineDiscount / item.quantity;
         if (item.depositType === 'percent' && item.depositPercentage) {
-            return Math.round((item.priceVnd * item.depositPercentage) / 100);
+            return Math.round((discountedPrice * item.depositPercentage) / 100);
         }
-        return item.depositAmount || 0;
+        return Math.min(item.depositAmount || 0, Math.floor(discountedPrice));
     };
     
     // Only calculate deposit if paymentMode === 'deposit'
@@ -251,7 +444,7 @@ export default function CheckoutPage() {
         ? items.reduce((sum, item) => sum + calculateDepositAmount(item) * item.quantity, 0)
         : 0;
     
-    const remainingAmount = formData.paymentMode === 'deposit' ? subtotal - depositAmount : 0;
+    const remainingAmount = formData.paymentMode === 'deposit' ? total - depositAmount : 0;
     
     // Calculate payNow based on paymentMode and paymentMethod
     // For deposit + COD: customer pays deposit when receiving order (payNow = 0)
@@ -259,7 +452,7 @@ export default function CheckoutPage() {
     const payNow = formData.paymentMode === 'deposit' 
         ? (formData.paymentMethod === 'cod' ? 0 : depositAmount) // Deposit + COD: pay deposit on delivery
         : formData.paymentMode === 'full' 
-            ? subtotal 
+            ? total 
             : 0; // COD mode: payNow = 0
 
     if (items.length === 0) {
@@ -274,6 +467,30 @@ export default function CheckoutPage() {
                     <form className={styles.checkoutForm} onSubmit={handleSubmit}>
                         <div className={`${styles.formSection} card`}>
                             <h2>{t('information.title')}</h2>
+                            {savedAddresses && savedAddresses.length > 0 && (
+                                <div className={styles.addressPicker}>
+                                    <label className="label" htmlFor="saved-address">
+                                        {t('information.addressBook.label')}
+                                    </label>
+                                    <select
+                                        id="saved-address"
+                                        className="input"
+                                        value={selectedAddressId}
+                                        onChange={(e) => handleAddressSelect(e.target.value)}
+                                    >
+                                        {savedAddresses.map((address) => (
+                                            <option key={address.id} value={address.id}>
+                                                {address.fullName} - {[address.addressLine, address.ward, address.district, address.city].filter(Boolean).join(', ')}
+                                                {address.isDefault ? ` ${t('information.addressBook.default')}` : ''}
+                                            </option>
+                                        ))}
+                                        <option value={NEW_ADDRESS}>{t('information.addressBook.newAddress')}</option>
+                                    </select>
+                                    <Link href="/account/addresses" className="text-sm">
+                                        {t('information.addressBook.manage')}
+                                    </Link>
+                                </div>
+                            )}
                             <div className={styles.formGrid}>
                                 <div className={styles.formGroup}>
                                     <label className="label">
@@ -336,32 +553,22 @@ export default function CheckoutPage() {
                                         <span className={styles.errorMessage}>{errors.addressLine}</span>
                                     )}
                                 </div>
-                                <div className={styles.formGroup}>
-                                    <label className="label">
-                                        {t('information.city.label')} *
+                                <AddressDivisionFields
+                                    idPrefix="shipping"
+                                    value={divisions}
+                                    onChange={handleDivisionsChange}
+                                    error={errors.divisions}
+                                />
+                                {savedAddresses && selectedAddressId === NEW_ADDRESS && (
+                                    <label className={`${styles.saveAddressOption} ${styles.formGroupFullWidth}`}>
+                                        <input
+                                            type="checkbox"
+                                            checked={saveAddress}
+                                            onChange={(e) => setSaveAddress(e.target.checked)}
+                                        />
+                                        {t('information.addressBook.save')}
                                     </label>
-                                    <input
-                                        type="text"
-                                        className={`input ${errors.city ? styles.inputError : ''}`}
-                                        placeholder={t('information.city.placeholder')}
-                                        value={formData.city}
-                                        onChange={(e) => handleInputChange('city', e.target.value)}
-                                        required
-                                    />
-                                    {errors.city && (
-                                        <span className={styles.errorMessage}>{errors.city}</span>
-                                    )}
-                                </div>
-                                <div className={styles.formGroup}>
-                                    <label className="label">{t('information.district.label')}</label>
-                                    <input
-                                        type="text"
-                                        className="input"
-                                        placeholder={t('information.district.placeholder')}
-                                        value={formData.district}
-                                        onChange={(e) => handleInputChange('district', e.target.value)}
-                                    />
-                                </div>
+                                )}
                                 <div className={`${styles.formGroup} ${styles.formGroupFullWidth}`}>
                                     <label className="label">{t('information.note.label')}</label>
                                     <textarea
@@ -507,7 +714,7 @@ export default function CheckoutPage() {
                             <button
                                 type="submit"
                                 className="btn btn-primary"
-                                disabled={isSubmitting}
+                                disabled={isSubmitting || shippingQuoteState === 'unavailable'}
                             >
                                 {isSubmitting ? t('actions.processing') || 'Processing...' : t('actions.placeOrder')}
                             </button>
@@ -533,6 +740,50 @@ export default function CheckoutPage() {
                             <span>{t('orderSummary.subtotal')}</span>
                             <span>{subtotal.toLocaleString('vi-VN')} {tCommon('currency')}</span>
                         </div>
+                        {discount && (
+                            <div className={styles.summaryRow}>
+                                <span>{t('orderSummary.discount', { code: discount.code })}</span>
+                                <span>-{discountAmount.toLocaleString('vi-VN')} {tCommon('currency')}</span>
+                            </div>
+                        )}
+                        {discountNotice && <p className="text-sm text-secondary">{discountNotice}</p>}
+                        <div className={styles.summaryRow}>
+                            <span>
+                                {t('orderSummary.shipping')}
+                                {shippingQuote && shippingQuoteState === 'ready' && (
+                                    <span className="text-sm text-secondary">
+                                        {' '}({t('shipping.weight', { weight: shippingQuote.weightKg.toLocaleString('vi-VN') })})
+                                    </span>
+                                )}
+                            </span>
+                            <span>
+                                {shippingQuoteState === 'ready' && shippingQuote
+                                    ? `${shippingQuote.freightFee.toLocaleString('vi-VN')} ${tCommon('currency')}`
+                                    : shippingQuoteState === 'loading'
+                                        ? t('shipping.calculating')
+                                        : shippingQuoteState === 'unavailable'
+                                            ? t('shipping.unavailableShort')
+                                            : shippingQuoteState === 'error'
+                                                ? t('shipping.error')
+                                                : t('shipping.enterAddress')}
+                            </span>
+                        </div>
+                        {shippingQuote?.insuranceAvailable && shippingQuoteState !== 'unavailable' && (
+                            <label className={styles.insuranceOption}>
+                                <input
+                                    type="checkbox"
+                                    checked={shippingInsurance}
+                                    onChange={(e) => setShippingInsurance(e.target.checked)}
+                                />
+                                <span>
+                                    {t('shipping.insurance')}
+                                    <span className="text-sm text-secondary"> {t('shipping.insuranceDescription')}</span>
+                                </span>
+                                {shippingQuote.insured && (
+                                    <span>{shippingQuote.insuranceFee.toLocaleString('vi-VN')} {tCommon('currency')}</span>
+                                )}
+                            </label>
+                        )}
                         {formData.paymentMode === 'deposit' && (
                             <>
                                 <div className={styles.summaryRow}>
@@ -570,7 +821,7 @@ export default function CheckoutPage() {
                                     : formData.paymentMode === 'deposit'
                                         ? `${depositAmount.toLocaleString('vi-VN')} ${tCommon('currency')} ${t('orderSummary.depositDueNow')}`
                                         : formData.paymentMode === 'full'
-                                            ? `${subtotal.toLocaleString('vi-VN')} ${tCommon('currency')}`
+                                            ? `${total.toLocaleString('vi-VN')} ${tCommon('currency')}`
                                             : t('orderSummary.payOnDelivery')}
                             </strong>
                         </div>
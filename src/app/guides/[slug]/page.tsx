@@ -0,0 +1,75 @@
+import { notFound } from 'next/navigation';
+import { getTranslations, getLocale } from 'next-intl/server';
+import Link from 'next/link';
+import { getGuideBySlug } from '@/lib/repositories/guides';
+import Markdown from '@/components/ui/Markdown';
+import type { Metadata } from 'next';
+import styles from './GuidePage.module.css';
+
+interface PageProps {
+    params: Promise<{ slug: string }>;
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+    const { slug } = await params;
+    const locale = await getLocale();
+    const guide = await getGuideBySlug(slug, locale);
+
+    if (!guide) {
+        const t = await getTranslations('guide');
+        return {
+            title: t('notFound'),
+        };
+    }
+
+    return {
+        title: guide.title,
+        description: guide.description,
+        openGraph: {
+            title: guide.title,
+            description: guide.description,
+            images: guide.imageUrl ? [guide.imageUrl] : [],
+        },
+    };
+}
+
+export default async function GuidePage({ params }: PageProps) {
+    const { slug } = await params;
+    const locale = await getLocale();
+    const t = await getTranslations('guide');
+
+    const guide = await getGuideBySlug(slug, locale);
+
+    if (!guide) {
+        notFound();
+    }
+
+    const updatedAt = new Date(guide.updatedAt).toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US');
+
+    return (
+        <div className={styles.guidePage}>
+            <div className="container">
+                <nav className={styles.breadcrumb}>
+                    <Link href="/guides">{t('backToGuides')}</Link>
+                    <span>/</span>
+                    <span>{t(`categories.${guide.category}`)}</span>
+                </nav>
+
+                <article className={styles.article}>
+                    <header className={styles.header}>
+                        <h1>{guide.title}</h1>
+                        {guide.description && <p className={styles.description}>{guide.description}</p>}
+                        <p className={styles.meta}>{t('updatedAt', { date: updatedAt })}</p>
+                    </header>
+
+                    {guide.locale !== locale && (
+                        <p className={styles.fallbackNotice}>{t('fallbackNotice')}</p>
+                    )}
+
+                    <Markdown content={guide.content} />
+                </article>
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,13 @@
-'use client';
-
-import { useTranslations } from 'next-intl';
+import { getTranslations, getLocale } from 'next-intl/server';
 import Link from 'next/link';
+import { listPublishedGuides } from '@/lib/repositories/guides';
+import { GUIDE_CATEGORIES } from '@/lib/types/guides';
 import styles from './page.module.css';
 
-export default function GuidesPage() {
-    const t = useTranslations('guide');
+export default async function GuidesPage() {
+    const locale = await getLocale();
+    const t = await getTranslations('guide');
+    const guides = await listPublishedGuides(locale);
 
     return (
         <div className={styles.guidesPage}>
@@ -13,15 +15,29 @@ export default function GuidesPage() {
                 <h1>{t('title')}</h1>
                 <p className={styles.subtitle}>{t('subtitle')}</p>
 
-                <div className={styles.guidesGrid}>
-                    {['whatIsTubeAmp', 'seVsPp', 'tubeTypes', 'speakerMatching', 'roomAcoustics', 'maintenance'].map((key) => (
-                        <Link key={key} href={`/guides/${key}`} className={`${styles.guideCard} card`}>
-                            <div className={styles.guideIcon}>📚</div>
-                            <h3>{t(`articles.${key}.title`)}</h3>
-                            <p>{t(`articles.${key}.description`)}</p>
-                        </Link>
-                    ))}
-                </div>
+                {guides.length === 0 ? (
+                    <p className={styles.empty}>{t('empty')}</p>
+                ) : (
+                    GUIDE_CATEGORIES.map((category) => {
+                        const categoryGuides = guides.filter((guide) => guide.category === category);
+                        if (categoryGuides.length === 0) return null;
+
+                        return (
+                            <section key={category} className={styles.category}>
+                                <h2>{t(`categories.${category}`)}</h2>
+                                <div className={styles.guidesGrid}>
+                                    {categoryGuides.map((guide) => (
+                                        <Link key={guide.id} href={`/guides/${guide.slug}`} className={`${styles.guideCard} card`}>
+                                            <div className={styles.guideIcon}>{guide.icon || '📚'}</div>
+                                            <h3>{guide.title}</h3>
+                                            {guide.description && <p>{guide.description}</p>}
+                                        </Link>
+                                    ))}
+                                </div>
+                            </section>
+                        );
+                    })
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import Link from 'next/link';
+import Image from 'next/image';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { formatPrice } from '@/lib/utils/formatters';
+import { MATCHING_GENRES } from '@/lib/matching/scoring';
+import type {
+    ListeningLevel,
+    MatchingResult,
+    RoomSize,
+    SpeakerImpedance,
+} from '@/lib/types/matching';
+import styles from './page.module.css';
+
+const IMPEDANCES: SpeakerImpedance[] = [4, 6, 8, 16];
+const ROOM_SIZES: RoomSize[] = ['small', 'medium', 'large'];
+const LISTENING_LEVELS: ListeningLevel[] = ['low', 'medium', 'loud'];
+
+type Step = 1 | 2 | 3;
+
+export default function MatchingPage() {
+    const t = useTranslations('matching');
+    const tProduct = useTranslations('product');
+    const locale = useLocale();
+
+    const [step, setStep] = useState<Step>(1);
+    const [speakerSensitivity, setSpeakerSensitivity] = useState('90');
+    const [speakerImpedance, setSpeakerImpedance] = useState<SpeakerImpedance>(8);
+    const [roomSize, setRoomSize] = useState<RoomSize>('medium');
+    const [listeningLevel, setListeningLevel] = useState<ListeningLevel>('medium');
+    const [genres, setGenres] = useState<string[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [result, setResult] = useState<MatchingResult | null>(null);
+
+    const sensitivityValue = Number(speakerSensitivity);
+    const isSensitivityValid = Number.isFinite(sensitivityValue) && sensitivityValue >= 80 && sensitivityValue <= 110;
+
+    const toggleGenre = (genre: string) => {
+        setGenres((prev) =>
+            prev.includes(genre) ? prev.filter((g) => g !== genre) : [...prev, genre]
+        );
+    };
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        if (step < 3) {
+            setStep((step + 1) as Step);
+            return;
+        }
+
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch('/api/matching', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    speakerSensitivity: sensitivityValue,
+                    speakerImpedance,
+                    roomSize,
+                    listeningLevel,
+                    genres,
+                }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('errors.failed'));
+            }
+
+            setResult(data as MatchingResult);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('errors.failed'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRestart = () => {
+        setResult(null);
+        setStep(1);
+    };
+
+    return (
+        <div className={styles.matchingPage}>
+            <div className="container">
+                <h1>{t('title')}</h1>
+                <p className={styles.subtitle}>{t('subtitle')}</p>
+
+                {!result ? (
+                    <form onSubmit={handleSubmit} className={`${styles.wizard} card`} noValidate>
+                        <div className={styles.steps}>
+                            {([1, 2, 3] as Step[]).map((s) => (
+                                <span key={s} className={`${styles.stepDot} ${step >= s ? styles.stepActive : ''}`}>
+                                    {t(`steps.${s}`)}
+                                </span>
+                            ))}
+                        </div>
+
+                        {step === 1 && (
+                            <div className={styles.stepContent}>
+                                <div className={styles.formGroup}>
+                                    <label htmlFor="sensitivity">{t('speaker.sensitivity')}</label>
+                                    <input
+                                        id="sensitivity"
+                                        type="number"
+                                        min={80}
+                                        max={110}
+                                        value={speakerSensitivity}
+                                        onChange={(e) => setSpeakerSensitivity(e.target.value)}
+                                        className={isSensitivityValid ? 'input' : 'input input-error'}
+                                    />
+                                    <span className={styles.hint}>{t('speaker.sensitivityHint')}</span>
+                                </div>
+                                <div className={styles.formGroup}>
+                                    <label>{t('speaker.impedance')}</label>
+                                    <div className={styles.optionGroup}>
+                                        {IMPEDANCES.map((ohms) => (
+                                            <button
+                                                key={ohms}
+                                                type="button"
+                                                className={`${styles.option} ${speakerImpedance === ohms ? styles.optionActive : ''}`}
+                                                onClick={() => setSpeakerImpedance(ohms)}
+                                            >
+                                                {ohms}Ω
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
+                        {step === 2 && (
+                            <div className={styles.stepContent}>
+                                <div className={styles.formGroup}>
+                                    <label>{t('room.size')}</label>
+                                    <div className={styles.optionGroup}>
+                                        {ROOM_SIZES.map((size) => (
+                                            <button
+                                                key={size}
+                                                type="button"
+                                                className={`${styles.option} ${roomSize === size ? styles.optionActive : ''}`}
+                                                onClick={() => setRoomSize(size)}
+                                            >
+                                                {t(`room.sizes.${size}`)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className={styles.formGroup}>
+                                    <label>{t('room.level')}</label>
+                                    <div className={styles.optionGroup}>
+                                        {LISTENING_LEVELS.map((level) => (
+                                            <button
+                                                key={level}
+                                                type="button"
+                                                className={`${styles.option} ${listeningLevel === level ? styles.optionActive : ''}`}
+                                                onClick={() => setListeningLevel(level)}
+                                            >
+                                                {t(`room.levels.${level}`)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
+                        {step === 3 && (
+                            <div className={styles.stepContent}>
+                                <div className={styles.formGroup}>
+                                    <label>{t('genres.label')}</label>
+                                    <div className={styles.optionGroup}>
+                                        {MATCHING_GENRES.map((genre) => (
+                                            <button
+                                                key={genre}
+                                                type="button"
+                                                className={`${styles.option} ${genres.includes(genre) ? styles.optionActive : ''}`}
+                                                onClick={() => toggleGenre(genre)}
+                                            >
+                                                {t(`genres.options.${genre}`)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <span className={styles.hint}>{t('genres.hint')}</span>
+                                </div>
+                            </div>
+                        )}
+
+                        {error && <div className={styles.errorMessage}>{error}</div>}
+
+                        <div className={styles.wizardActions}>
+                            {step > 1 && (
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost"
+                                    onClick={() => setStep((step - 1) as Step)}
+                                    disabled={loading}
+                                >
+                                    {t('actions.back')}
+                                </button>
+                            )}
+                            <button
+                                type="submit"
+                                className="btn btn-primary"
+                                disabled={loading || !isSensitivityValid}
+                            >
+                                {loading ? (
+                                    <>
+                                        <LoadingSpinner size="sm" />
+                                        {t('actions.loading')}
+                                    </>
+                                ) : step < 3 ? (
+                                    t('actions.next')
+                                ) : (
+                                    t('actions.submit')
+                                )}
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <div className={styles.results}>
+                        <div className={styles.resultsHeader}>
+                            <p>{t('results.requiredPower', { watts: result.requiredWatts })}</p>
+                            <button type="button" className="btn btn-ghost" onClick={handleRestart}>
+                                {t('actions.restart')}
+                            </button>
+                        </div>
+
+                        {result.recommendations.length === 0 ? (
+                            <div className={`${styles.emptyResults} card`}>
+                                <h3>{t('results.emptyTitle')}</h3>
+                                <p>{t('results.emptyDescription')}</p>
+                                <Link href="/contact" className="btn btn-primary">
+                                    {t('results.contactUs')}
+                                </Link>
+                            </div>
+                        ) : (
+                            <div className={styles.resultsList}>
+                                {result.recommendations.map((rec, index) => (
+                                    <div key={rec.product.id} className={`${styles.resultCard} card`}>
+                                        <div className={styles.resultImage}>
+                                            {rec.product.imageUrl && rec.product.imageUrl !== '/images/placeholder-product.jpg' ? (
+                                                <Image
+                                                    src={rec.product.imageUrl}
+                                                    alt={rec.product.name}
+                                                    fill
+                                                    style={{ objectFit: 'cover' }}
+                                                    sizes="200px"
+                                                    unoptimized={true}
+                                                />
+                                            ) : (
+                                                <div className="skeleton w-full h-full"></div>
+                                            )}
+                                        </div>
+                                        <div className={styles.resultInfo}>
+                                            <div className="flex gap-1 mb-2 flex-wrap">
+                                                <span className="badge badge-accent">#{index + 1}</span>
+                                                <span className="badge">
+                                                    {rec.product.topology.toUpperCase()} {rec.product.tubeType}
+                                                </span>
+                                                <span className={`badge ${rec.verdict === 'fit' ? 'badge-success' : ''}`}>
+                                                    {tProduct(`matching.results.${rec.verdict}`)}
+                                                </span>
+                                            </div>
+                                            <h3>{rec.product.name}</h3>
+                                            <p className="text-accent font-semibold">
+                                                {formatPrice(rec.product.priceVnd, locale)}
+                                            </p>
+                                            <ul className={styles.reasons}>
+                                                {rec.reasons.map((reason) => (
+                                                    <li key={reason.key}>
+                                                        {t(`reasons.${reason.key}`, reason.values || {})}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                            <Link href={`/product/${rec.product.slug}`} className="btn btn-secondary">
+                                                {t('results.viewProduct')}
+                                            </Link>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -24,6 +24,7 @@ interface Order {
     shipping_address_line: string;
     shipping_city: string;
     shipping_district?: string;
+    shipping_ward?: string;
     subtotal: number;
     shipping_fee: number;
     tax: number;
@@ -67,6 +68,7 @@ async function getOrder(orderCode: string): Promise<Order | null> {
                 shipping_address_line,
                 shipping_city,
                 shipping_district,
+                shipping_ward,
                 subtotal,
                 shipping_fee,
                 tax,
@@ -292,6 +294,7 @@ export default async function OrderSuccessPage({ params, searchParams }: OrderSu
                             <br />
                             {order.shipping_address_line}
                             <br />
+                            {order.shipping_ward && `${order.shipping_ward}, `}
                             {order.shipping_district && `${order.shipping_district}, `}
                             {order.shipping_city}
                         </p>
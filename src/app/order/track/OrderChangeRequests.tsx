@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import type { OrderChangeRequest } from '@/lib/repositories/change-requests';
+import styles from './OrderChangeRequests.module.css';
+
+export interface TrackedChangeRequest extends OrderChangeRequest {
+    canReply: boolean;
+}
+
+interface OrderChangeRequestsProps {
+    orderCode: string;
+    requests: TrackedChangeRequest[];
+    token: string;
+    locale: string;
+}
+
+const CATEGORY_KEYS: Record<string, string> = {
+    change_items: 'categoryChangeItems',
+    change_address: 'categoryChangeAddress',
+    cancel_refund: 'categoryCancelRefund',
+    other: 'categoryOther',
+};
+
+export default function OrderChangeRequests({ orderCode, requests, token, locale }: OrderChangeRequestsProps) {
+    const t = useTranslations('tracking.changeRequests');
+    const tCategory = useTranslations('tracking.changeRequest');
+    const router = useRouter();
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [sendingId, setSendingId] = useState<string | null>(null);
+    const [error, setError] = useState<{ requestId: string; message: string } | null>(null);
+
+    if (requests.length === 0) {
+        return null;
+    }
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    const handleReply = async (e: React.FormEvent, requestId: string) => {
+        e.preventDefault();
+
+        const message = (drafts[requestId] || '').trim();
+        if (!message) return;
+
+        setSendingId(requestId);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/order/change-request/${orderCode}/reply`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ token, requestId, message }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('error'));
+            }
+
+            setDrafts((current) => ({ ...current, [requestId]: '' }));
+            router.refresh();
+        } catch (err) {
+            setError({ requestId, message: err instanceof Error ? err.message : t('error') });
+        } finally {
+            setSendingId(null);
+        }
+    };
+
+    return (
+        <div className={styles.requestsSection}>
+            <h3>{t('title')}</h3>
+            <p className={styles.subtitle}>{t('subtitle')}</p>
+
+            <ul className={styles.requestList}>
+                {requests.map((request) => (
+                    <li key={request.id} className={styles.request}>
+                        <div className={styles.requestHeader}>
+                            <span>{tCategory(CATEGORY_KEYS[request.category] || 'categoryOther')}</span>
+                            <span className={`${styles.status} ${styles[`status-${request.status}`]}`}>
+                                {t(`statuses.${request.status}`)}
+                            </span>
+                        </div>
+
+                        <ol className={styles.thread}>
+                            <li className={styles.customerMessage}>
+                                <div className={styles.messageMeta}>
+                                    {t('you')} · {formatDate(request.createdAt)}
+                                </div>
+                                <p>{request.message}</p>
+                            </li>
+                            {request.messages.map((message) => (
+                                <li
+                                    key={message.id}
+                                    className={message.author === 'admin' ? styles.teamMessage : styles.customerMessage}
+                                >
+                                    <div className={styles.messageMeta}>
+                                        {message.author === 'admin' ? t('team') : t('you')} · {formatDate(message.createdAt)}
+                                    </div>
+                                    <p>{message.body}</p>
+                                </li>
+                            ))}
+                        </ol>
+
+                        {request.canReply ? (
+                            <form onSubmit={(e) => handleReply(e, request.id)} className={styles.form}>
+                                <textarea
+                                    className="input"
+                                    placeholder={t('replyPlaceholder')}
+                                    value={drafts[request.id] || ''}
+                                    onChange={(e) => setDrafts((current) => ({ ...current, [request.id]: e.target.value }))}
+                                    maxLength={2000}
+                                    rows={3}
+                                    disabled={sendingId === request.id}
+                                />
+
+                                {error?.requestId === request.id && (
+                                    <div className={styles.errorMessage}>{error.message}</div>
+                                )}
+
+                                <div className={styles.formActions}>
+                                    <button
+                                        type="submit"
+                                        className="btn btn-sm btn-primary"
+                                        disabled={sendingId === request.id || !(drafts[request.id] || '').trim()}
+                                    >
+                                        {sendingId === request.id ? t('sending') : t('reply')}
+                                    </button>
+                                </div>
+                            </form>
+                        ) : (
+                            <p className={styles.closed}>{t('closed')}</p>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import type { ReviewableOrderItem } from '@/lib/repositories/reviews';
+import styles from './OrderReviews.module.css';
+
+interface OrderReviewsProps {
+    orderCode: string;
+    items: ReviewableOrderItem[];
+    // Tracking link token; omitted on the account page (signed-in owner)
+    token?: string;
+}
+
+export default function OrderReviews({ orderCode, items, token }: OrderReviewsProps) {
+    const t = useTranslations('tracking.review');
+    const [reviewedIds, setReviewedIds] = useState<string[]>(
+        items.filter((item) => item.reviewed).map((item) => item.productId)
+    );
+    const [activeProductId, setActiveProductId] = useState<string | null>(null);
+    const [rating, setRating] = useState(0);
+    const [title, setTitle] = useState('');
+    const [content, setContent] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState(false);
+
+    if (items.length === 0) {
+        return null;
+    }
+
+    const openForm = (productId: string) => {
+        setActiveProductId(productId);
+        setRating(0);
+        setTitle('');
+        setContent('');
+        setError(null);
+        setSuccess(false);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!activeProductId) return;
+        if (rating < 1) {
+            setError(t('ratingRequired'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/order/review/${orderCode}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    token,
+                    productId: activeProductId,
+                    rating,
+                    title: title.trim() || undefined,
+                    content: content.trim() || undefined,
+                }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('error'));
+            }
+
+            setReviewedIds((ids) => [...ids, activeProductId]);
+            setActiveProductId(null);
+            setSuccess(true);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('error'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className={styles.reviewSection}>
+            <h3>{t('title')}</h3>
+            <p className={styles.subtitle}>{t('subtitle')}</p>
+
+            {success && <div className={styles.successMessage}>{t('success')}</div>}
+
+            <ul className={styles.itemList}>
+                {items.map((item) => {
+                    const isReviewed = reviewedIds.includes(item.productId);
+                    return (
+                        <li key={item.productId} className={styles.item}>
+                            <div className={styles.itemRow}>
+                                <span>{item.productName}</span>
+                                {isReviewed ? (
+                                    <span className={styles.reviewed}>{t('submitted')}</span>
+                                ) : activeProductId !== item.productId && (
+                                    <button
+                                        type="button"
+                                        className="btn btn-sm btn-secondary"
+                                        onClick={() => openForm(item.productId)}
+                                    >
+                                        {t('write')}
+                                    </button>
+                                )}
+                            </div>
+
+                            {activeProductId === item.productId && (
+                                <form onSubmit={handleSubmit} className={styles.form}>
+                                    <div className={styles.stars} role="radiogroup" aria-label={t('rating')}>
+                                        {[1, 2, 3, 4, 5].map((value) => (
+                                            <button
+                                                key={value}
+                                                type="button"
+                                                role="radio"
+                                                aria-checked={rating === value}
+                                                aria-label={t('stars', { count: value })}
+                                                className={value <= rating ? styles.starActive : styles.star}
+                                                onClick={() => setRating(value)}
+                                                disabled={isSubmitting}
+                                            >
+                                                ★
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <input
+                                        type="text"
+                                        className="input"
+                                        placeholder={t('titlePlaceholder')}
+                                        value={title}
+                                        onChange={(e) => setTitle(e.target.value)}
+                                        maxLength={120}
+                                        disabled={isSubmitting}
+                                    />
+                                    <textarea
+                                        className="input"
+                                        placeholder={t('contentPlaceholder')}
+                                        value={content}
+                                        onChange={(e) => setContent(e.target.value)}
+                                        maxLength={2000}
+                                        rows={4}
+                                        disabled={isSubmitting}
+                                    />
+
+                                    {error && <div className={styles.errorMessage}>{error}</div>}
+
+                                    <div className={styles.formActions}>
+                                        <button
+                                            type="button"
+                                            className="btn btn-ghost"
+                                            onClick={() => setActiveProductId(null)}
+                                            disabled={isSubmitting}
+                                        >
+                                            {t('cancel')}
+                                        </button>
+                                        <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
+                                            {isSubmitting ? t('submitting') : t('submit')}
+                                        </button>
+                                    </div>
+                                </form>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import Image from 'next/image';
+import type { TrackedOrderDTO } from '@/lib/repositories/orders/tracking';
+import styles from './page.module.css';
+
+interface BalancePaymentProps {
+    order: TrackedOrderDTO;
+    token: string;
+    // ?balance= set by the Stripe Checkout success / cancel redirect
+    checkoutResult?: string;
+}
+
+interface BankTransferDetails {
+    qrDataUrl: string;
+    bankInfo: {
+        bankName: string;
+        accountNumber: string;
+        accountName: string;
+        amount: string;
+        memo: string;
+    };
+}
+
+export default function BalancePayment({ order, token, checkoutResult }: BalancePaymentProps) {
+    const t = useTranslations('tracking');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [bankTransfer, setBankTransfer] = useState<BankTransferDetails | null>(null);
+
+    const formatCurrency = (amount: number) => {
+        return new Intl.NumberFormat('vi-VN').format(amount);
+    };
+
+    const requestPayment = async (method: 'stripe' | 'bank_transfer') => {
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/order/pay-balance/${order.orderCode}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ token, method }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || t('balance.error'));
+            }
+
+            if (method === 'stripe') {
+                window.location.href = data.url;
+                return;
+            }
+
+            setBankTransfer(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('balance.error'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className={styles.paymentSection}>
+            <h3>{t('balance.title')}</h3>
+
+            {checkoutResult === 'success' && (
+                <div className={styles.success}>{t('balance.checkoutSuccess')}</div>
+            )}
+            {checkoutResult === 'cancelled' && (
+                <div className={styles.error}>{t('balance.checkoutCancelled')}</div>
+            )}
+            {error && <div className={styles.error}>{error}</div>}
+
+            <p>
+                {t('balance.description', {
+                    amount: `${formatCurrency(order.remainingAmount || 0)} ₫`,
+                })}
+            </p>
+
+            {checkoutResult !== 'success' && (
+                <div className={styles.balanceActions}>
+                    <button
+                        type="button"
+                        className="btn btn-primary"
+                        onClick={() => requestPayment('stripe')}
+                        disabled={isSubmitting}
+                    >
+                        {isSubmitting ? t('balance.processing') : t('balance.payByCard')}
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-secondary"
+                        onClick={() => requestPayment('bank_transfer')}
+                        disabled={isSubmitting}
+                    >
+                        {t('balance.payByTransfer')}
+                    </button>
+                </div>
+            )}
+
+            {bankTransfer && (
+                <div className={styles.balanceTransfer}>
+                    <Image
+                        src={bankTransfer.qrDataUrl}
+                        alt={t('balance.qrAlt')}
+                        className={styles.balanceQr}
+                        width={200}
+                        height={200}
+                        unoptimized // Data URL generated on the server
+                    />
+                    <div className={styles.depositInfo}>
+                        <div className={styles.depositRow}>
+                            <span>{t('balance.bankName')}:</span>
+                            <strong>{bankTransfer.bankInfo.bankName}</strong>
+                        </div>
+                        <div className={styles.depositRow}>
+                            <span>{t('balance.accountNumber')}:</span>
+                            <strong>{bankTransfer.bankInfo.accountNumber}</strong>
+                        </div>
+                        <div className={styles.depositRow}>
+                            <span>{t('balance.accountName')}:</span>
+                            <strong>{bankTransfer.bankInfo.accountName}</strong>
+                        </div>
+                        <div className={styles.depositRow}>
+                            <span>{t('balance.amount')}:</span>
+                            <strong className="text-accent">{bankTransfer.bankInfo.amount} ₫</strong>
+                        </div>
+                        <div className={styles.depositRow}>
+                            <span>{t('balance.memo')}:</span>
+                            <strong>{bankTransfer.bankInfo.memo}</strong>
+                        </div>
+                    </div>
+                    <p className={styles.paymentMethod}>{t('balance.transferNote')}</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -8,6 +8,7 @@ interface DepositProofUploadProps {
     token: string;
     initialProofStatus?: {
         id: string;
+        attemptNumber: number;
         status: 'pending' | 'approved' | 'rejected';
         submittedAt: string;
         reviewNote?: string;
@@ -15,6 +16,8 @@ interface DepositProofUploadProps {
     } | null;
     canUpload: boolean;
     cannotUploadReason?: string;
+    attemptsRemaining?: number;
+    depositDueAt?: string;
     translations: {
         title: string;
         subtitle: string;
@@ -33,6 +36,10 @@ interface DepositProofUploadProps {
         submittedAt: string;
         cannotUpload: string;
         reuploadButton: string;
+        reuploadBefore: string;
+        attemptsRemaining: string;
+        noAttemptsLeft: string;
+        attempt: string;
         maxFiles: string;
         maxSize: string;
         allowedTypes: string;
@@ -46,6 +53,8 @@ export default function DepositProofUpload({
     initialProofStatus,
     canUpload,
     cannotUploadReason,
+    attemptsRemaining,
+    depositDueAt,
     translations: t,
     locale,
 }: DepositProofUploadProps) {
@@ -148,6 +157,7 @@ export default function DepositProofUpload({
             // Update proof status
             setProofStatus({
                 id: result.proofId,
+                attemptNumber: result.attemptNumber,
                 status: 'pending',
                 submittedAt: new Date().toISOString(),
                 imageCount: files.length,
@@ -181,6 +191,7 @@ export default function DepositProofUpload({
                     <div className={styles.statusIcon}>⏳</div>
                     <p>{t.statusPending}</p>
                     <p className={styles.submittedAt}>
+                        {proofStatus.attemptNumber > 1 && `${t.attempt} ${proofStatus.attemptNumber} • `}
                         {t.submittedAt}: {formatDate(proofStatus.submittedAt)}
                     </p>
                 </div>
@@ -188,17 +199,40 @@ export default function DepositProofUpload({
         );
     }
     
-    // If proof was rejected, show rejection and allow re-upload
+    // If proof was rejected, show the reason and allow re-upload while attempts remain
     const showRejection = proofStatus?.status === 'rejected';
+    const rejectionNotice = showRejection && (
+        <div className={styles.rejectionNotice}>
+            <p><strong>{t.statusRejected}</strong></p>
+            {proofStatus.reviewNote && (
+                <p className={styles.rejectionNote}>
+                    {t.rejectionNote}: {proofStatus.reviewNote}
+                </p>
+            )}
+            {canUpload && depositDueAt && (
+                <p className={styles.rejectionNote}>
+                    {t.reuploadBefore}: <strong>{formatDate(depositDueAt)}</strong>
+                </p>
+            )}
+            {canUpload && attemptsRemaining !== undefined && (
+                <p className={styles.rejectionNote}>
+                    {t.attemptsRemaining}: <strong>{attemptsRemaining}</strong>
+                </p>
+            )}
+        </div>
+    );
     
-    // If cannot upload (and no rejection), show reason
-    if (!canUpload && !showRejection) {
+    // If cannot upload, show the rejection (if any) and the reason
+    if (!canUpload) {
         return (
             <div className={styles.proofSection}>
                 <h3>{t.title}</h3>
+                {rejectionNotice}
                 <div className={styles.proofCannotUpload}>
-                    <p>{t.cannotUpload}</p>
-                    {cannotUploadReason && <p className={styles.reasonText}>{cannotUploadReason}</p>}
+                    <p>{showRejection && attemptsRemaining === 0 ? t.noAttemptsLeft : t.cannotUpload}</p>
+                    {cannotUploadReason && attemptsRemaining !== 0 && (
+                        <p className={styles.reasonText}>{cannotUploadReason}</p>
+                    )}
                 </div>
             </div>
         );
@@ -210,16 +244,7 @@ export default function DepositProofUpload({
             <p className={styles.proofSubtitle}>{t.subtitle}</p>
             
             {/* Rejection notice */}
-            {showRejection && (
-                <div className={styles.rejectionNotice}>
-                    <p><strong>{t.statusRejected}</strong></p>
-                    {proofStatus.reviewNote && (
-                        <p className={styles.rejectionNote}>
-                            {t.rejectionNote}: {proofStatus.reviewNote}
-                        </p>
-                    )}
-                </div>
-            )}
+            {rejectionNotice}
             
             {/* Success message */}
             {success && (
@@ -104,10 +104,11 @@ export default function OrderActions({ order, token }: OrderActionsProps) {
             setChangeMessage('');
             setChangeCategory('');
             
-            // Close modal after a short delay
+            // Close modal after a short delay and show the new request thread
             setTimeout(() => {
                 setShowChangeModal(false);
                 setSuccess(null);
+                router.refresh();
             }, 2000);
         } catch (err) {
             setError(err instanceof Error ? err.message : t('changeRequest.error'));
@@ -35,6 +35,11 @@ export default function TrackingFormWrapper({
 
             const data = await response.json();
 
+            if (response.status === 429) {
+                const minutes = Math.ceil(Number(response.headers.get('Retry-After') || 60) / 60);
+                throw new Error(t('errors.tooManyAttempts', { minutes }));
+            }
+
             if (!response.ok) {
                 throw new Error(data.error || t('errors.notFound'));
             }
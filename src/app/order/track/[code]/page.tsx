@@ -4,14 +4,19 @@ import styles from './page.module.css';
 import TrackingFormWrapper from './TrackingFormWrapper';
 import OrderActions from './OrderActions';
 import DepositProofUpload from './DepositProofUpload';
+import BalancePayment from './BalancePayment';
 import ClaimOrderCTA from '@/app/order/track/ClaimOrderCTA';
+import OrderReviews from '@/app/order/track/OrderReviews';
+import OrderChangeRequests from '@/app/order/track/OrderChangeRequests';
 import type { TrackedOrderDTO } from '@/lib/repositories/orders/tracking';
 import type { Metadata } from 'next';
 import { getDepositProofByOrderId, canUploadProof } from '@/lib/repositories/deposit-proofs';
+import { getReviewableOrderItems } from '@/lib/repositories/reviews';
+import { getChangeRequestsForOrder, REPLYABLE_CHANGE_REQUEST_STATUSES } from '@/lib/repositories/change-requests';
 
 interface TrackOrderDetailPageProps {
     params: Promise<{ code: string }>;
-    searchParams: Promise<{ t?: string }>;
+    searchParams: Promise<{ t?: string; balance?: string }>;
 }
 
 export async function generateMetadata(): Promise<Metadata> {
@@ -35,7 +40,7 @@ async function getOrderByToken(orderCode: string, token: string): Promise<Tracke
 
 export default async function TrackOrderDetailPage({ params, searchParams }: TrackOrderDetailPageProps) {
     const { code } = await params;
-    const { t: token } = await searchParams;
+    const { t: token, balance: balanceResult } = await searchParams;
     const locale = await getLocale();
     const t = await getTranslations({ locale, namespace: 'tracking' });
 
@@ -72,6 +77,10 @@ export default async function TrackOrderDetailPage({ params, searchParams }: Tra
 
     // Token is valid and order found - show order details
     const tCommon = await getTranslations({ locale, namespace: 'common' });
+    const [reviewableItems, changeRequests] = await Promise.all([
+        getReviewableOrderItems(order.id),
+        getChangeRequestsForOrder(order.id),
+    ]);
 
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('vi-VN').format(amount);
@@ -152,6 +161,58 @@ export default async function TrackOrderDetailPage({ params, searchParams }: Tra
                         </div>
                     )}
 
+                    {/* Carrier Tracking */}
+                    {order.shipments.map((shipment) => (
+                        <div key={shipment.id} className={styles.shipmentSection}>
+                            <h3>{t('shipment.title')}</h3>
+                            <div className={styles.shipmentInfo}>
+                                <div>
+                                    <span>{t('shipment.carrier')}</span>
+                                    <strong>{shipment.carrierName}</strong>
+                                </div>
+                                <div>
+                                    <span>{t('shipment.trackingNumber')}</span>
+                                    {shipment.trackingUrl ? (
+                                        <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer">
+                                            <strong>{shipment.trackingNumber}</strong>
+                                        </a>
+                                    ) : (
+                                        <strong>{shipment.trackingNumber}</strong>
+                                    )}
+                                </div>
+                                <div>
+                                    <span>{t('shipment.status')}</span>
+                                    <strong>{t(`shipment.statuses.${shipment.status}`)}</strong>
+                                </div>
+                            </div>
+                            {shipment.events.length > 0 ? (
+                                <div className={styles.timeline}>
+                                    {[...shipment.events].reverse().map((event) => (
+                                        <div key={event.id} className={styles.timelineItem}>
+                                            <div className={styles.timelineDot} />
+                                            <div className={styles.timelineContent}>
+                                                <div className={styles.timelineStatus}>
+                                                    {t(`shipment.statuses.${event.status}`)}
+                                                </div>
+                                                <div className={styles.timelineDate}>
+                                                    {formatDate(event.occurredAt)}
+                                                    {event.location && ` · ${event.location}`}
+                                                </div>
+                                                {event.description && (
+                                                    <div className={styles.timelineNote}>
+                                                        {event.description}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className={styles.timelineNote}>{t('shipment.noEvents')}</p>
+                            )}
+                        </div>
+                    ))}
+
                     {/* Order Items */}
                     <div className={styles.itemsSection}>
                         <h3>{t('order.items')}</h3>
@@ -295,11 +356,31 @@ export default async function TrackOrderDetailPage({ params, searchParams }: Tra
                         <DepositProofUploadSection 
                             orderId={order.id}
                             orderCode={order.orderCode}
+                            depositDueAt={order.depositDueAt}
                             token={token!}
                             locale={locale}
                         />
                     )}
 
+                    {/* Balance Payment (deposit received, remaining amount outstanding) */}
+                    {order.orderType === 'deposit_reservation' &&
+                     order.paymentStatus === 'deposited' &&
+                     !['cancelled', 'expired', 'refunded'].includes(order.status) &&
+                     (order.remainingAmount || 0) > 0 && (
+                        <BalancePayment
+                            order={order}
+                            token={token!}
+                            checkoutResult={balanceResult}
+                        />
+                    )}
+
+                    {/* Reviews (delivered orders) */}
+                    <OrderReviews
+                        orderCode={order.orderCode}
+                        items={reviewableItems}
+                        token={token!}
+                    />
+
                     {/* Claim CTA */}
                     <ClaimOrderCTA
                         orderCode={code}
@@ -308,6 +389,17 @@ export default async function TrackOrderDetailPage({ params, searchParams }: Tra
                         token={token!}
                     />
 
+                    {/* Change Request Threads */}
+                    <OrderChangeRequests
+                        orderCode={order.orderCode}
+                        requests={changeRequests.map((request) => ({
+                            ...request,
+                            canReply: REPLYABLE_CHANGE_REQUEST_STATUSES.includes(request.status),
+                        }))}
+                        token={token!}
+                        locale={locale}
+                    />
+
                     {/* Actions */}
                     <OrderActions order={order} token={token!} />
                 </div>
@@ -322,11 +414,13 @@ export default async function TrackOrderDetailPage({ params, searchParams }: Tra
 async function DepositProofUploadSection({ 
     orderId, 
     orderCode,
+    depositDueAt,
     token,
     locale,
 }: { 
     orderId: string;
     orderCode: string; 
+    depositDueAt?: string;
     token: string;
     locale: string;
 }) {
@@ -334,10 +428,11 @@ async function DepositProofUploadSection({
     
     // Fetch current proof status
     const proof = await getDepositProofByOrderId(orderId);
-    const { canUpload, reason } = await canUploadProof(orderId);
+    const { canUpload, reason, attemptsUsed, maxAttempts } = await canUploadProof(orderId);
     
     const proofStatus = proof ? {
         id: proof.id,
+        attemptNumber: proof.attemptNumber,
         status: proof.status,
         submittedAt: proof.submittedAt,
         reviewNote: proof.reviewNote,
@@ -351,6 +446,8 @@ async function DepositProofUploadSection({
             initialProofStatus={proofStatus}
             canUpload={canUpload}
             cannotUploadReason={reason}
+            attemptsRemaining={attemptsUsed !== undefined ? Math.max(maxAttempts - attemptsUsed, 0) : undefined}
+            depositDueAt={depositDueAt}
             locale={locale}
             translations={{
                 title: t('proof.title', { defaultValue: 'Proof of Transfer' }),
@@ -370,6 +467,10 @@ async function DepositProofUploadSection({
                 submittedAt: t('proof.submittedAt', { defaultValue: 'Submitted' }),
                 cannotUpload: t('proof.cannotUpload', { defaultValue: 'Proof upload is not available for this order.' }),
                 reuploadButton: t('proof.reuploadButton', { defaultValue: 'Re-upload Proof' }),
+                reuploadBefore: t('proof.reuploadBefore', { defaultValue: 'Upload a replacement before' }),
+                attemptsRemaining: t('proof.attemptsRemaining', { defaultValue: 'Uploads left' }),
+                noAttemptsLeft: t('proof.noAttemptsLeft', { defaultValue: 'You have used all proof uploads for this order. Please contact us so we can verify your transfer.' }),
+                attempt: t('proof.attempt', { defaultValue: 'Attempt' }),
                 maxFiles: t('proof.maxFiles', { defaultValue: 'Max 3 files' }),
                 maxSize: t('proof.maxSize', { defaultValue: 'Max 5MB each' }),
                 allowedTypes: t('proof.allowedTypes', { defaultValue: 'JPG, PNG, or WEBP only' }),
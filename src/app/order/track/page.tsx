@@ -42,6 +42,11 @@ export default function TrackOrderPage() {
 
             const data = await response.json();
 
+            if (response.status === 429) {
+                const minutes = Math.ceil(Number(response.headers.get('Retry-After') || 60) / 60);
+                throw new Error(t('errors.tooManyAttempts', { minutes }));
+            }
+
             if (!response.ok) {
                 throw new Error(data.error || t('errors.notFound'));
             }
@@ -48,7 +48,7 @@ export default function ProductTabs({ product, locale }: ProductTabsProps) {
                 {activeTab === 'matching' && <MatchingTab product={product} />}
                 {activeTab === 'condition' && <ConditionTab product={product} />}
                 {activeTab === 'shipping' && <ShippingTab product={product} locale={locale} />}
-                {activeTab === 'reviews' && <ReviewsTab />}
+                {activeTab === 'reviews' && <ReviewsTab product={product} locale={locale} />}
             </div>
         </div>
     );
@@ -294,9 +294,43 @@ function ShippingTab({ product, locale }: { product: ProductDetailDTO; locale: s
 }
 
 // Reviews Tab
-function ReviewsTab() {
+function ReviewsTab({ product, locale }: { product: ProductDetailDTO; locale: string }) {
     const t = useTranslations('product');
 
+    if (product.reviews.length > 0) {
+        return (
+            <div className="reviews-content">
+                {product.rating.average !== null && (
+                    <div className={`${styles.reviewSummary} mb-6`}>
+                        <span className={styles.reviewStars}>{renderStars(product.rating.average)}</span>
+                        <strong>{t('reviews.average', { average: product.rating.average.toFixed(1) })}</strong>
+                        <span className="text-secondary">{t('reviews.count', { count: product.rating.count })}</span>
+                    </div>
+                )}
+                <div className={styles.reviewList}>
+                    {product.reviews.map((review) => (
+                        <div key={review.id} className={styles.reviewItem}>
+                            <div className={styles.reviewHeader}>
+                                <span className={styles.reviewStars}>{renderStars(review.rating)}</span>
+                                {review.title && <strong>{review.title}</strong>}
+                            </div>
+                            {review.content && <p className="mb-2">{review.content}</p>}
+                            <div className={styles.reviewMeta}>
+                                <span>{review.customerName}</span>
+                                {review.isVerifiedPurchase && (
+                                    <span className="badge badge-success">{t('reviews.verifiedPurchase')}</span>
+                                )}
+                                <span>
+                                    {new Date(review.createdAt).toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US')}
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div className="reviews-content text-center py-12">
             <svg
@@ -317,3 +351,9 @@ function ReviewsTab() {
         </div>
     );
 }
+
+// Rounded to the nearest whole star
+function renderStars(rating: number): string {
+    const filled = Math.round(rating);
+    return '★'.repeat(filled) + '☆'.repeat(5 - filled);
+}
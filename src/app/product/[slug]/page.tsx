@@ -2,11 +2,13 @@ import { notFound } from 'next/navigation';
 import { getTranslations, getLocale } from 'next-intl/server';
 import Link from 'next/link';
 import { getProductBySlug, getRelatedProducts } from '@/lib/repositories/products';
+import { getApprovedSetupsForProduct } from '@/lib/repositories/setups';
 import { formatPrice, generateSummaryBullets } from '@/lib/utils/formatters';
 import ProductGallery from './ProductGallery';
 import ProductActions from './ProductActions';
 import ProductTabs from './ProductTabs';
 import ProductGrid from '../../tube-amplifiers/ProductGrid';
+import SetupGallery from '../../reviews/SetupGallery';
 import type { Metadata } from 'next';
 import styles from './ProductPage.module.css';
 
@@ -59,6 +61,9 @@ export default async function ProductPage({ params }: PageProps) {
     3
   );
 
+  // Approved customer photos that tag this product
+  const customerSetups = await getApprovedSetupsForProduct(product.id);
+
   // Generate summary bullets
   const summaryBullets = generateSummaryBullets(product, locale);
 
@@ -105,6 +110,21 @@ export default async function ProductPage({ params }: PageProps) {
             {/* Product Name */}
             <h1 className={styles.title}>{product.name}</h1>
 
+            {/* Rating (approved reviews) */}
+            {product.rating.average !== null && (
+              <p className={styles.rating}>
+                <span className={styles.ratingStars}>
+                  {'★'.repeat(Math.round(product.rating.average))}
+                  {'☆'.repeat(5 - Math.round(product.rating.average))}
+                </span>
+                <span>
+                  {t('reviews.average', { average: product.rating.average.toFixed(1) })}
+                  {' · '}
+                  {t('reviews.count', { count: product.rating.count })}
+                </span>
+              </p>
+            )}
+
             {/* Price */}
             <div className={styles.pricing}>
               {hasDiscount && (
@@ -254,6 +274,14 @@ export default async function ProductPage({ params }: PageProps) {
         {/* Tabs */}
         <ProductTabs product={product} locale={locale} />
 
+        {/* Seen in customer systems */}
+        {customerSetups.length > 0 && (
+          <section className={styles.customerSetups}>
+            <h2 className="mb-8">{t('setups.seenIn')}</h2>
+            <SetupGallery setups={customerSetups} currentProductId={product.id} />
+          </section>
+        )}
+
         {/* Related Products */}
         {relatedProducts.length > 0 && (
           <section className={styles.relatedProducts}>
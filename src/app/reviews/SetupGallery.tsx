@@ -0,0 +1,56 @@
+import { getTranslations } from 'next-intl/server';
+import Image from 'next/image';
+import Link from 'next/link';
+import type { CustomerSetupDTO } from '@/lib/types/catalog';
+import styles from './SetupGallery.module.css';
+
+interface SetupGalleryProps {
+    setups: CustomerSetupDTO[];
+    // Hide the product links when the gallery sits on that product's page
+    currentProductId?: string;
+}
+
+/**
+ * Approved customer setup photos (used on /reviews and product pages)
+ */
+export default async function SetupGallery({ setups, currentProductId }: SetupGalleryProps) {
+    const t = await getTranslations('product.setups');
+
+    return (
+        <div className={styles.setupGrid}>
+            {setups.map((setup) => {
+                const taggedProducts = setup.products.filter((product) => product.id !== currentProductId);
+
+                return (
+                    <figure key={setup.id} className={`${styles.setupCard} card`}>
+                        <div className={styles.setupImage}>
+                            <Image
+                                src={setup.imageUrl}
+                                alt={setup.title}
+                                fill
+                                sizes="(max-width: 768px) 100vw, 33vw"
+                                style={{ objectFit: 'cover' }}
+                            />
+                        </div>
+                        <figcaption className={styles.setupBody}>
+                            <h3>{setup.title}</h3>
+                            {setup.description && <p>{setup.description}</p>}
+                            {setup.customerName && (
+                                <span className={styles.customer}>{t('by', { name: setup.customerName })}</span>
+                            )}
+                            {taggedProducts.length > 0 && (
+                                <div className={styles.products}>
+                                    {taggedProducts.map((product) => (
+                                        <Link key={product.id} href={`/product/${product.slug}`} className="badge">
+                                            {product.name}
+                                        </Link>
+                                    ))}
+                                </div>
+                            )}
+                        </figcaption>
+                    </figure>
+                );
+            })}
+        </div>
+    );
+}
@@ -1,15 +1,64 @@
-'use client';
-
+import { getTranslations, getLocale } from 'next-intl/server';
+import Link from 'next/link';
+import { getRecentApprovedReviews } from '@/lib/repositories/reviews';
+import { getApprovedSetups } from '@/lib/repositories/setups';
+import SetupGallery from './SetupGallery';
 import styles from './page.module.css';
 
-export default function ReviewsPage() {
+export default async function ReviewsPage() {
+    const locale = await getLocale();
+    const t = await getTranslations('product.reviews');
+    const tSetups = await getTranslations('product.setups');
+    const [reviews, setups] = await Promise.all([getRecentApprovedReviews(), getApprovedSetups()]);
+
     return (
         <div className={styles.reviewsPage}>
             <div className="container">
-                <h1>Customer Reviews & Setups</h1>
-                <p style={{ textAlign: 'center', color: 'var(--color-text-secondary)' }}>
-                    Customer reviews and setup gallery coming soon...
-                </p>
+                <h1>{t('pageTitle')}</h1>
+                <p className={styles.subtitle}>{t('pageSubtitle')}</p>
+
+                {reviews.length === 0 ? (
+                    <p className={styles.empty}>{t('pageEmpty')}</p>
+                ) : (
+                    <div className={styles.reviewGrid}>
+                        {reviews.map((review) => (
+                            <article key={review.id} className={`${styles.reviewCard} card`}>
+                                <div className={styles.stars}>
+                                    {'★'.repeat(review.rating)}{'☆'.repeat(5 - review.rating)}
+                                </div>
+                                {review.title && <h3>{review.title}</h3>}
+                                {review.content && <p>{review.content}</p>}
+                                <div className={styles.meta}>
+                                    <span>{review.customerName}</span>
+                                    {review.isVerifiedPurchase && (
+                                        <span className="badge badge-success">{t('verifiedPurchase')}</span>
+                                    )}
+                                    <span>
+                                        {new Date(review.createdAt).toLocaleDateString(locale === 'vi' ? 'vi-VN' : 'en-US')}
+                                    </span>
+                                </div>
+                                <Link href={`/product/${review.productSlug}`} className={styles.productLink}>
+                                    {review.productName}
+                                </Link>
+                            </article>
+                        ))}
+                    </div>
+                )}
+
+                <section className={styles.setupsSection}>
+                    <h2>{tSetups('title')}</h2>
+                    <p className={styles.subtitle}>{tSetups('subtitle')}</p>
+                    {setups.length === 0 ? (
+                        <p className={styles.empty}>{tSetups('empty')}</p>
+                    ) : (
+                        <SetupGallery setups={setups} />
+                    )}
+                    <p className={styles.shareCta}>
+                        <Link href="/account/setups" className="btn btn-secondary">
+                            {tSetups('share')}
+                        </Link>
+                    </p>
+                </section>
             </div>
         </div>
     );
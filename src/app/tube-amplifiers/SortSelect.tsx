@@ -28,10 +28,14 @@ export default function SortSelect({ currentSort }: SortSelectProps) {
             className="input select sort-select"
             style={{ width: 'auto', minWidth: '200px' }}
         >
+            {searchParams.get('q') && (
+                <option value="relevance">{t('sort.options.relevance')}</option>
+            )}
             <option value="newest">{t('sort.options.newest')}</option>
             <option value="price_asc">{t('sort.options.priceLow')}</option>
             <option value="price_desc">{t('sort.options.priceHigh')}</option>
             <option value="best_sellers">{t('sort.options.bestSellers')}</option>
+            <option value="top_rated">{t('sort.options.topRated')}</option>
         </select>
     );
 }
@@ -23,7 +23,8 @@ export default async function TubeAmplifiersPage({ searchParams }: PageProps) {
   const priceMin = search.priceMin ? Number(search.priceMin) : undefined;
   const priceMax = search.priceMax ? Number(search.priceMax) : undefined;
   const searchQuery = search.q as string | undefined;
-  const sort = (search.sort as ProductSort) || 'newest';
+  // Search results default to best match first
+  const sort = (search.sort as ProductSort) || (searchQuery ? 'relevance' : 'newest');
   const page = search.page ? Number(search.page) : 1;
   const pageSize = 12;
 
@@ -61,7 +62,9 @@ export default async function TubeAmplifiersPage({ searchParams }: PageProps) {
           <div className="products-section">
             <div className="products-header flex justify-between items-center mb-8 flex-wrap gap-4">
               <p className="results-count text-sm text-tertiary m-0">
-                {t('results.showing', { count: result.total })}
+                {searchQuery
+                  ? t('results.showingFor', { count: result.total, query: searchQuery })
+                  : t('results.showing', { count: result.total })}
               </p>
               <SortSelect currentSort={sort} />
             </div>
@@ -0,0 +1,277 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { matchesDivisionSearch } from '@/lib/divisions/search';
+import type { DivisionOption } from '@/lib/divisions';
+import styles from './AddressDivisionFields.module.css';
+
+export interface AddressDivisionValue {
+  provinceCode: string;
+  province: string;
+  districtCode: string;
+  district: string;
+  wardCode: string;
+  ward: string;
+  noWards?: boolean; // The district has no wards (a few island districts)
+}
+
+export const EMPTY_ADDRESS_DIVISIONS: AddressDivisionValue = {
+  provinceCode: '',
+  province: '',
+  districtCode: '',
+  district: '',
+  wardCode: '',
+  ward: '',
+};
+
+/**
+ * Picker value for a saved address
+ * Addresses saved before structured divisions have no codes: start empty so
+ * the customer picks them again.
+ */
+export function toAddressDivisionValue(address: {
+  city: string;
+  district?: string;
+  ward?: string;
+  provinceCode?: string;
+  districtCode?: string;
+  wardCode?: string;
+}): AddressDivisionValue {
+  if (!address.provinceCode || !address.districtCode) {
+    return EMPTY_ADDRESS_DIVISIONS;
+  }
+  return {
+    provinceCode: address.provinceCode,
+    province: address.city,
+    districtCode: address.districtCode,
+    district: address.district || '',
+    wardCode: address.wardCode || '',
+    ward: address.ward || '',
+  };
+}
+
+/**
+ * Whether every required level has been picked
+ */
+export function isAddressDivisionComplete(value: AddressDivisionValue): boolean {
+  return Boolean(value.provinceCode && value.districtCode && (value.wardCode || value.noWards));
+}
+
+// Option lists are static; keep them for the session
+const optionCache = new Map<string, Promise<DivisionOption[]>>();
+
+function loadOptions(query: string): Promise<DivisionOption[]> {
+  let request = optionCache.get(query);
+  if (!request) {
+    request = fetch(`/api/divisions${query}`)
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error('Failed to load divisions'))))
+      .then((data: { options: DivisionOption[] }) => data.options);
+    request.catch(() => optionCache.delete(query));
+    optionCache.set(query, request);
+  }
+  return request;
+}
+
+function useDivisionOptions(query: string | null): DivisionOption[] | null {
+  const [loaded, setLoaded] = useState<{ query: string; options: DivisionOption[] } | null>(null);
+
+  useEffect(() => {
+    if (query === null) return;
+
+    let cancelled = false;
+    loadOptions(query)
+      .then((options) => {
+        if (!cancelled) setLoaded({ query, options });
+      })
+      .catch((error) => console.error('Failed to load address options:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  return query !== null && loaded?.query === query ? loaded.options : null;
+}
+
+interface DivisionComboboxProps {
+  id: string;
+  label: string;
+  placeholder: string;
+  options: DivisionOption[] | null;
+  value: DivisionOption | null;
+  onSelect: (option: DivisionOption) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+/**
+ * Type-to-filter select; matching ignores diacritics ("ha noi" finds "Hà Nội")
+ */
+function DivisionCombobox({ id, label, placeholder, options, value, onSelect, disabled, error }: DivisionComboboxProps) {
+  const t = useTranslations('common.address');
+  // null while not typing: the input shows the selected name
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const isOpen = query !== null;
+  const matches = isOpen && options ? options.filter((option) => matchesDivisionSearch(option, query)) : [];
+
+  const close = () => {
+    setQuery(null);
+    setActiveIndex(-1);
+  };
+
+  const choose = (option: DivisionOption) => {
+    onSelect(option);
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? matches.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && isOpen) {
+      e.preventDefault();
+      const option = matches[activeIndex >= 0 ? activeIndex : 0];
+      if (option) choose(option);
+    }
+  };
+
+  return (
+    <div className={styles.field}>
+      <label className="label" htmlFor={id}>
+        {label} *
+      </label>
+      <div className={styles.combobox}>
+        <input
+          id={id}
+          type="text"
+          className={`input ${error ? styles.inputError : ''}`}
+          placeholder={options === null && !disabled ? t('loading') : placeholder}
+          value={isOpen ? query : value?.name || ''}
+          onFocus={() => setQuery('')}
+          onBlur={close}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          disabled={disabled || options === null}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-controls={`${id}-options`}
+          aria-activedescendant={activeIndex >= 0 ? `${id}-option-${activeIndex}` : undefined}
+        />
+        {isOpen && (
+          <ul id={`${id}-options`} className={styles.options} role="listbox">
+            {matches.length === 0 ? (
+              <li className={styles.noResults}>{t('noResults')}</li>
+            ) : (
+              matches.map((option, index) => (
+                <li
+                  key={option.code}
+                  id={`${id}-option-${index}`}
+                  role="option"
+                  aria-selected={option.code === value?.code}
+                  className={`${styles.option} ${index === activeIndex ? styles.active : ''}`}
+                  // mousedown fires before the input's blur closes the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    choose(option);
+                  }}
+                >
+                  {option.name}
+                </li>
+              ))
+            )}
+          </ul>
+        )}
+      </div>
+      {error && <span className={styles.errorMessage}>{error}</span>}
+    </div>
+  );
+}
+
+interface AddressDivisionFieldsProps {
+  idPrefix: string;
+  value: AddressDivisionValue;
+  onChange: (value: AddressDivisionValue) => void;
+  disabled?: boolean;
+  error?: string; // Shown under the first level that is still missing
+}
+
+/**
+ * Province -> district -> ward selects; picking a level resets the ones below it
+ */
+export default function AddressDivisionFields({ idPrefix, value, onChange, disabled, error }: AddressDivisionFieldsProps) {
+  const t = useTranslations('common.address');
+
+  const provinces = useDivisionOptions('');
+  const districts = useDivisionOptions(value.provinceCode ? `?province=${value.provinceCode}` : null);
+  const wards = useDivisionOptions(value.districtCode ? `?district=${value.districtCode}` : null);
+
+  // Tell the form when the picked district has no wards to choose from
+  const noWards = Boolean(value.districtCode) && wards !== null && wards.length === 0;
+  useEffect(() => {
+    if (value.districtCode && wards !== null && Boolean(value.noWards) !== noWards) {
+      onChange({ ...value, noWards });
+    }
+  }, [noWards, wards, value, onChange]);
+
+  const missing = !value.provinceCode ? 'province' : !value.districtCode ? 'district' : !value.wardCode && !noWards ? 'ward' : null;
+
+  return (
+    <>
+      <DivisionCombobox
+        id={`${idPrefix}-province`}
+        label={t('province')}
+        placeholder={t('provincePlaceholder')}
+        options={provinces}
+        value={value.provinceCode ? { code: value.provinceCode, name: value.province } : null}
+        onSelect={(option) =>
+          option.code !== value.provinceCode &&
+          onChange({ ...EMPTY_ADDRESS_DIVISIONS, provinceCode: option.code, province: option.name })
+        }
+        disabled={disabled}
+        error={missing === 'province' ? error : undefined}
+      />
+      <DivisionCombobox
+        id={`${idPrefix}-district`}
+        label={t('district')}
+        placeholder={t('districtPlaceholder')}
+        options={value.provinceCode ? districts : []}
+        value={value.districtCode ? { code: value.districtCode, name: value.district } : null}
+        onSelect={(option) =>
+          option.code !== value.districtCode &&
+          onChange({
+            ...value,
+            districtCode: option.code,
+            district: option.name,
+            wardCode: '',
+            ward: '',
+            noWards: false,
+          })
+        }
+        disabled={disabled || !value.provinceCode}
+        error={missing === 'district' ? error : undefined}
+      />
+      <DivisionCombobox
+        id={`${idPrefix}-ward`}
+        label={t('ward')}
+        placeholder={noWards ? t('noWards') : t('wardPlaceholder')}
+        options={value.districtCode ? wards : []}
+        value={value.wardCode ? { code: value.wardCode, name: value.ward } : null}
+        onSelect={(option) => onChange({ ...value, wardCode: option.code, ward: option.name })}
+        disabled={disabled || !value.districtCode || noWards}
+        error={missing === 'ward' ? error : undefined}
+      />
+    </>
+  );
+}
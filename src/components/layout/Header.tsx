@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useState, useEffect } from 'react';
 import LocaleSwitcher from '../LocaleSwitcher';
+import SearchBox from './SearchBox';
 import styles from './Header.module.css';
 
 export default function Header() {
@@ -54,21 +55,16 @@ export default function Header() {
           {/* Actions */}
           <div className={styles['header-actions']}>
             <LocaleSwitcher />
-            <button className={`btn btn-ghost ${styles['search-btn']}`} aria-label="Search">
-              <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
-                <circle cx="8" cy="8" r="6" stroke="currentColor" strokeWidth="2" />
-                <path d="M12.5 12.5L17 17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
-              </svg>
-            </button>
+            <SearchBox />
             <Link href="/cart" className={`btn btn-ghost ${styles['cart-btn']}`}>
               <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
                 <path d="M3 3h2l.4 2M7 13h10l3-8H6.4M7 13L5.4 5M7 13l-1.5 4.5M17 13l1.5 4.5M9 18a1 1 0 100-2 1 1 0 000 2zM15 18a1 1 0 100-2 1 1 0 000 2z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
               </svg>
               <span className={styles['cart-count']}>0</span>
             </Link>
-            <button className={`btn btn-primary ${styles['btn-matching']}`}>
+            <Link href="/matching" className={`btn btn-primary ${styles['btn-matching']}`}>
               {t('matchingAdvice')}
-            </button>
+            </Link>
 
             {/* Mobile Menu Toggle */}
             <button
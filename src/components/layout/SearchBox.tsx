@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { formatPrice } from '@/lib/utils/formatters';
+import styles from './SearchBox.module.css';
+
+interface Suggestion {
+  id: string;
+  slug: string;
+  name: string;
+  imageUrl: string;
+  priceVnd: number;
+  compareAtPriceVnd?: number;
+  tubeType: string;
+}
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 250;
+
+export default function SearchBox() {
+  const t = useTranslations('nav.search');
+  const locale = useLocale();
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  // Debounced typeahead; aborts the previous request when the query changes
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/products/search?q=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (response.ok) {
+          setSuggestions(data.items || []);
+          setTotal(data.total || 0);
+          setActiveIndex(-1);
+        }
+      } catch {
+        // Aborted or offline - keep the previous suggestions
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const goToResults = () => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    close();
+    router.push(`/tube-amplifiers?q=${encodeURIComponent(trimmed)}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (activeIndex >= 0 && suggestions[activeIndex]) {
+        close();
+        router.push(`/product/${suggestions[activeIndex].slug}`);
+      } else {
+        goToResults();
+      }
+    }
+  };
+
+  const showSuggestions = query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className={styles.searchBox} ref={containerRef}>
+      <button
+        type="button"
+        className="btn btn-ghost"
+        aria-label={t('open')}
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
+          <circle cx="8" cy="8" r="6" stroke="currentColor" strokeWidth="2" />
+          <path d="M12.5 12.5L17 17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className={styles.panel}>
+          <input
+            type="search"
+            className="input"
+            placeholder={t('placeholder')}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            role="combobox"
+            aria-expanded={showSuggestions}
+            aria-controls="search-suggestions"
+            aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+            autoFocus
+          />
+
+          {showSuggestions && (
+            <div className={styles.results}>
+              {isLoading && suggestions.length === 0 ? (
+                <p className={styles.status}>{t('loading')}</p>
+              ) : suggestions.length === 0 ? (
+                <p className={styles.status}>{t('noResults')}</p>
+              ) : (
+                <>
+                  <ul id="search-suggestions" role="listbox" className={styles.suggestions}>
+                    {suggestions.map((item, index) => (
+                      <li
+                        key={item.id}
+                        id={`search-suggestion-${index}`}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                      >
+                        <Link
+                          href={`/product/${item.slug}`}
+                          className={`${styles.suggestion} ${index === activeIndex ? styles.active : ''}`}
+                          onClick={close}
+                        >
+                          <span className={styles.thumbnail}>
+                            <Image src={item.imageUrl} alt={item.name} fill sizes="48px" style={{ objectFit: 'cover' }} />
+                          </span>
+                          <span className={styles.info}>
+                            <span className={styles.name}>{item.name}</span>
+                            <span className={styles.meta}>
+                              {item.tubeType} · {formatPrice(item.priceVnd, locale)}
+                              {item.compareAtPriceVnd && (
+                                <span className={styles.compareAtPrice}>
+                                  {formatPrice(item.compareAtPriceVnd, locale)}
+                                </span>
+                              )}
+                            </span>
+                          </span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                  <button type="button" className={styles.viewAll} onClick={goToResults}>
+                    {t('viewAll', { count: total })}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import Markdown from './Markdown';
+
+function renderLink(url: string): string {
+  return renderToStaticMarkup(createElement(Markdown, { content: `[link](${url})` }));
+}
+
+describe('Markdown links', () => {
+  it.each(['/guides/300b', '/', '#specs', 'https://example.com', 'mailto:shop@example.com'])('keeps %s', (url) => {
+    expect(renderLink(url)).toContain(`href="${url}"`);
+  });
+
+  it.each(['//evil.example', '/\\evil.example', 'javascript:alert(1)', 'data:text/html,hi'])('drops %s', (url) => {
+    expect(renderLink(url)).not.toContain('href=');
+  });
+});
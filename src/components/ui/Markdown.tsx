@@ -0,0 +1,221 @@
+import Link from 'next/link';
+import styles from './Markdown.module.css';
+
+/**
+ * Safe Markdown renderer
+ *
+ * Renders a Markdown subset straight to React elements - raw HTML in the
+ * source is shown as text, never injected. Supported: headings, paragraphs,
+ * ordered/unordered lists, blockquotes, fenced code, horizontal rules,
+ * **bold**, *italic*, `code` and [links](url) (http(s), mailto, relative).
+ */
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^(\*{3,}|-{3,}|_{3,})\s*$/;
+const FENCE = /^```/;
+
+// Earliest match wins; order breaks ties (code before emphasis)
+const INLINE_PATTERNS: Array<{ type: 'code' | 'link' | 'strong' | 'em'; regex: RegExp }> = [
+  { type: 'code', regex: /`([^`]+)`/ },
+  { type: 'link', regex: /\[([^\]]+)\]\(([^)\s]+)\)/ },
+  { type: 'strong', regex: /\*\*([^*]+)\*\*|__([^_]+)__/ },
+  { type: 'em', regex: /\*([^*]+)\*|_([^_]+)_/ },
+];
+
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  const isBlockStart = (line: string) =>
+    HEADING.test(line) || UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line) ||
+    QUOTE.test(line) || RULE.test(line) || FENCE.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quote.push(lines[i].replace(QUOTE, '$1'));
+        i++;
+      }
+      blocks.push({ type: 'quote', text: quote.join(' ') });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: string[] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        items.push(lines[i].replace(pattern, '$1'));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+
+  return blocks;
+}
+
+/**
+ * Only allow links that can't run script
+ * Site paths must not start with // or /\ (protocol-relative: another host)
+ */
+function safeHref(url: string): string | null {
+  if (/^\/(?![/\\])/.test(url) || url.startsWith('#')) {
+    return url;
+  }
+  return /^(https?:|mailto:)/i.test(url) ? url : null;
+}
+
+function renderInline(text: string, keyPrefix: string = 'i'): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let rest = text;
+  let key = 0;
+
+  while (rest) {
+    let earliest: { type: string; match: RegExpMatchArray } | null = null;
+    for (const { type, regex } of INLINE_PATTERNS) {
+      const match = rest.match(regex);
+      if (match && match.index !== undefined && (!earliest || match.index < earliest.match.index!)) {
+        earliest = { type, match };
+      }
+    }
+
+    if (!earliest) {
+      nodes.push(rest);
+      break;
+    }
+
+    const { type, match } = earliest;
+    const index = match.index!;
+    if (index > 0) {
+      nodes.push(rest.slice(0, index));
+    }
+
+    const nodeKey = `${keyPrefix}-${key++}`;
+    const inner = match[1] ?? match[2] ?? '';
+
+    if (type === 'code') {
+      nodes.push(<code key={nodeKey}>{inner}</code>);
+    } else if (type === 'strong') {
+      nodes.push(<strong key={nodeKey}>{renderInline(inner, nodeKey)}</strong>);
+    } else if (type === 'em') {
+      nodes.push(<em key={nodeKey}>{renderInline(inner, nodeKey)}</em>);
+    } else {
+      const href = safeHref(match[2]);
+      const label = renderInline(match[1], nodeKey);
+      if (!href) {
+        nodes.push(<span key={nodeKey}>{label}</span>);
+      } else if (href.startsWith('/') || href.startsWith('#')) {
+        nodes.push(<Link key={nodeKey} href={href}>{label}</Link>);
+      } else {
+        nodes.push(
+          <a key={nodeKey} href={href} target="_blank" rel="noopener noreferrer nofollow">
+            {label}
+          </a>
+        );
+      }
+    }
+
+    rest = rest.slice(index + match[0].length);
+  }
+
+  return nodes;
+}
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+export default function Markdown({ content, className = '' }: MarkdownProps) {
+  const blocks = parseBlocks(content);
+
+  return (
+    <div className={`${styles.markdown} ${className}`}>
+      {blocks.map((block, index) => {
+        const key = `b-${index}`;
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+            return <Heading key={key}>{renderInline(block.text, key)}</Heading>;
+          }
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={key}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`)}</li>
+                ))}
+              </List>
+            );
+          }
+          case 'quote':
+            return <blockquote key={key}>{renderInline(block.text, key)}</blockquote>;
+          case 'code':
+            return (
+              <pre key={key}>
+                <code>{block.text}</code>
+              </pre>
+            );
+          case 'rule':
+            return <hr key={key} />;
+          default:
+            return <p key={key}>{renderInline(block.text, key)}</p>;
+        }
+      })}
+    </div>
+  );
+}
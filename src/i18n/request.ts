@@ -45,6 +45,7 @@ export default getRequestConfig(async ({ requestLocale }) => {
         import(`../../messages/${locale}/tracking.json`),
         import(`../../messages/${locale}/account.json`),
         import(`../../messages/${locale}/auth.json`),
+        import(`../../messages/${locale}/matching.json`),
     ]);
 
     // Extract successful imports, use empty object for failed ones
@@ -64,6 +65,7 @@ export default getRequestConfig(async ({ requestLocale }) => {
         tracking,
         account,
         auth,
+        matching,
     ] = translationImports.map((result, index) => {
         if (result.status === 'fulfilled') {
             return result.value;
@@ -91,6 +93,7 @@ export default getRequestConfig(async ({ requestLocale }) => {
             tracking: tracking.default,
             account: account.default,
             auth: auth.default,
+            matching: matching.default,
         },
     };
 });
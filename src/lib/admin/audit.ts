@@ -0,0 +1,138 @@
+import { headers } from 'next/headers';
+import {
+    insertAuditLogEntry,
+    type AuditAction,
+    type AuditEntityType,
+    type AuditValues,
+} from '@/lib/repositories/admin/audit';
+import type { AdminGuide } from '@/lib/repositories/admin/guides';
+import type { AdminOrderDetail } from '@/lib/repositories/admin/orders';
+import { getClientIpFromHeaders } from '@/lib/utils/request';
+import type { AdminUser } from './auth';
+
+/**
+ * Admin Audit Trail
+ * Call recordAdminAction after every successful admin mutation (server
+ * actions and /api/admin routes). Entries are searchable at /admin/audit.
+ */
+
+export interface AdminActionRecord {
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId: string;
+    entityLabel?: string;
+    before?: AuditValues | null; // Snapshot before the change (omit for creates)
+    after?: AuditValues | null; // Snapshot after the change (omit for deletes)
+    metadata?: AuditValues; // Notes, reasons, amounts
+}
+
+/**
+ * Keep only the fields whose values differ between the two snapshots
+ */
+export function diffAuditValues(
+    before: AuditValues,
+    after: AuditValues
+): { before: AuditValues; after: AuditValues } {
+    const changedBefore: AuditValues = {};
+    const changedAfter: AuditValues = {};
+
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+            changedBefore[key] = before[key] ?? null;
+            changedAfter[key] = after[key] ?? null;
+        }
+    }
+
+    return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * The order fields admin actions change (status, payment, deposit)
+ */
+export function orderAuditSnapshot(order: AdminOrderDetail | null): AuditValues | null {
+    if (!order) {
+        return null;
+    }
+
+    return {
+        status: order.status,
+        paymentStatus: order.paymentStatus,
+        depositReceivedAt: order.depositReceivedAt ?? null,
+        remainingAmount: order.remainingAmount ?? null,
+    };
+}
+
+/**
+ * Guide fields with translations flattened to `<field>_<locale>`
+ */
+export function guideAuditSnapshot(guide: AdminGuide | null): AuditValues | null {
+    if (!guide) {
+        return null;
+    }
+
+    const snapshot: AuditValues = {
+        slug: guide.slug,
+        category: guide.category,
+        icon: guide.icon ?? null,
+        imageUrl: guide.imageUrl ?? null,
+        sortOrder: guide.sortOrder ?? null,
+        isPublished: guide.isPublished ?? false,
+    };
+
+    for (const [locale, translation] of Object.entries(guide.translations)) {
+        snapshot[`title_${locale}`] = translation?.title ?? null;
+        snapshot[`description_${locale}`] = translation?.description ?? null;
+        snapshot[`content_${locale}`] = translation?.content ?? null;
+    }
+
+    return snapshot;
+}
+
+async function getRequestOrigin(): Promise<{ ipAddress: string | null; userAgent: string | null }> {
+    try {
+        const headersList = await headers();
+
+        return {
+            ipAddress: getClientIpFromHeaders(headersList),
+            userAgent: headersList.get('user-agent'),
+        };
+    } catch {
+        // Outside a request scope
+        return { ipAddress: null, userAgent: null };
+    }
+}
+
+/**
+ * Append an audit entry for a completed admin mutation
+ * Never throws: the change has already been committed, so a logging failure
+ * is reported but must not turn a successful action into an error.
+ */
+export async function recordAdminAction(actor: AdminUser, record: AdminActionRecord): Promise<void> {
+    try {
+        let before = record.before || null;
+        let after = record.after || null;
+
+        if (before && after) {
+            ({ before, after } = diffAuditValues(before, after));
+        }
+
+        const { ipAddress, userAgent } = await getRequestOrigin();
+
+        await insertAuditLogEntry({
+            actorId: actor.id,
+            actorEmail: actor.email || '',
+            actorRole: actor.adminRole,
+            action: record.action,
+            entityType: record.entityType,
+            entityId: record.entityId,
+            entityLabel: record.entityLabel,
+            before,
+            after,
+            metadata: record.metadata,
+            ipAddress,
+            userAgent,
+        });
+    } catch (error) {
+        console.error(`[Audit] Failed to record ${record.action} for ${record.entityType} ${record.entityId}:`, error);
+    }
+}
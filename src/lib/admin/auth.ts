@@ -1,18 +1,27 @@
+import type { User } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from '@/i18n/routing';
+import { getStaffRole } from '@/lib/repositories/admin/staff';
+import { hasPermission, type AdminPermission, type AdminRole } from './permissions';
 
 /**
  * Admin Authentication Utilities
- * Uses email allowlist from environment variables
- * 
- * Set ADMIN_ALLOWLIST_EMAILS in .env.local:
- * ADMIN_ALLOWLIST_EMAILS=admin@example.com,another@example.com
+ * Staff access comes from the role on user_profiles.admin_role
+ * (see supabase/CREATE_ADMIN_ROLES.sql and ./permissions)
+ *
+ * Every role can open the admin; use requirePermission (server actions)
+ * or hasPermission (API routes, UI) before mutating anything.
  */
 
-const ADMIN_EMAILS = process.env.ADMIN_ALLOWLIST_EMAILS?.split(',').map((e) => e.trim()).filter(Boolean) || [];
+export type AdminUser = User & { adminRole: AdminRole };
+
+async function withStaffRole(user: User): Promise<AdminUser | null> {
+    const adminRole = await getStaffRole(user.id, user.email || '');
+    return adminRole ? { ...user, adminRole } : null;
+}
 
 /**
- * Check if user is admin based on email allowlist
+ * Check if user is a staff member (any role)
  */
 export async function isAdmin(): Promise<boolean> {
     try {
@@ -36,7 +45,7 @@ export async function isAdmin(): Promise<boolean> {
             return false;
         }
 
-        return ADMIN_EMAILS.includes(user.email.toLowerCase());
+        return (await withStaffRole(user)) !== null;
     } catch (error) {
         console.error('Error in isAdmin:', error);
         return false;
@@ -68,14 +77,14 @@ export async function requireAdmin(locale?: string) {
             return; // Never reached, but satisfies TypeScript
         }
 
-        const userEmail = user.email.toLowerCase();
-        if (!ADMIN_EMAILS.includes(userEmail)) {
+        const adminUser = await withStaffRole(user);
+        if (!adminUser) {
             const { redirect: nextRedirect } = await import('next/navigation');
             nextRedirect('/admin/login');
             return; // Never reached, but satisfies TypeScript
         }
 
-        return user;
+        return adminUser;
     } catch (error) {
         console.error('Error in requireAdmin:', error);
         const { redirect: nextRedirect } = await import('next/navigation');
@@ -114,11 +123,7 @@ export async function getAdminUser() {
             return null;
         }
 
-        if (!ADMIN_EMAILS.includes(user.email.toLowerCase())) {
-            return null;
-        }
-
-        return user;
+        return await withStaffRole(user);
     } catch (error: any) {
         // Catch any unexpected errors
         console.error('[getAdminUser] Unexpected error:', {
@@ -131,3 +136,19 @@ export async function getAdminUser() {
     }
 }
 
+/**
+ * Require a staff member with the given permission (server actions)
+ * Redirects to login if not staff, throws if the role lacks the permission
+ */
+export async function requirePermission(permission: AdminPermission): Promise<AdminUser> {
+    const user = await requireAdmin();
+    if (!user) {
+        throw new Error('Unauthorized');
+    }
+
+    if (!hasPermission(user.adminRole, permission)) {
+        throw new Error('You do not have permission to perform this action');
+    }
+
+    return user;
+}
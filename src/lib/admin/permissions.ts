@@ -0,0 +1,56 @@
+/**
+ * Admin Roles & Permissions
+ * Staff roles are stored on user_profiles.admin_role (see CREATE_ADMIN_ROLES.sql).
+ * Every role can open the admin; mutations are checked against the role's permissions.
+ *
+ * Client-safe: no server imports, so UI can hide actions the user cannot perform.
+ */
+
+export type AdminRole = 'owner' | 'order_manager' | 'catalog_editor' | 'support';
+
+export type AdminPermission =
+    | 'orders.manage' // Status changes, deposits, reservations, emails, change requests, reconciliation
+    | 'orders.refund'
+    | 'products.edit' // Create/edit products, images and translations (not prices)
+    | 'products.price'
+    | 'products.delete'
+    | 'content.manage' // Guides, review and setup moderation
+    | 'shipping.manage' // Shipping zones and rates
+    | 'discounts.manage' // Discount codes
+    | 'staff.manage'
+    | 'audit.view';
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'order_manager', 'catalog_editor', 'support'];
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+    owner: [
+        'orders.manage',
+        'orders.refund',
+        'products.edit',
+        'products.price',
+        'products.delete',
+        'content.manage',
+        'shipping.manage',
+        'discounts.manage',
+        'staff.manage',
+        'audit.view',
+    ],
+    order_manager: ['orders.manage', 'orders.refund'],
+    catalog_editor: ['products.edit', 'content.manage'],
+    support: [], // Read-only
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+    return ADMIN_ROLES.includes(value as AdminRole);
+}
+
+export function getRolePermissions(role: AdminRole): AdminPermission[] {
+    return ROLE_PERMISSIONS[role] || [];
+}
+
+export function hasPermission(role: AdminRole | null | undefined, permission: AdminPermission): boolean {
+    if (!role) {
+        return false;
+    }
+    return getRolePermissions(role).includes(permission);
+}
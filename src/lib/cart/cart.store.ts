@@ -14,6 +14,7 @@ export const useCartStore = create<CartState>()(
     persist(
         (set, get) => ({
             items: [],
+            discountCode: null,
 
             addItem: (item) => {
                 const currentItems = get().items;
@@ -62,7 +63,11 @@ export const useCartStore = create<CartState>()(
             },
 
             clearCart: () => {
-                set({ items: [] });
+                set({ items: [], discountCode: null });
+            },
+
+            setDiscountCode: (code) => {
+                set({ discountCode: code });
             },
 
             getTotal: () => {
@@ -18,10 +18,12 @@ export type CartItem = {
 
 export interface CartState {
     items: CartItem[];
+    discountCode: string | null; // Code applied in the cart, re-validated at checkout
     addItem: (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => void;
     removeItem: (productId: string) => void;
     updateQuantity: (productId: string, quantity: number) => void;
     clearCart: () => void;
+    setDiscountCode: (code: string | null) => void;
     getTotal: () => number;
     getItemCount: () => number;
     hasItem: (productId: string) => boolean;
@@ -3,6 +3,7 @@
  * Helper functions for cart operations
  */
 
+import type { DiscountEvaluation } from '@/lib/orders/discounts';
 import type { CartItem } from './cart.types';
 
 const CART_STORAGE_KEY = 'rtb_cart';
@@ -78,3 +79,28 @@ export function calculateItemCount(items: CartItem[]): number {
     return items.reduce((sum, item) => sum + item.quantity, 0);
 }
 
+
+
+/**
+ * Check a discount code against the cart (POST /api/discounts/validate)
+ * Throws when the check itself fails, so callers can keep the code applied.
+ */
+export async function validateCartDiscount(code: string, items: CartItem[]): Promise<DiscountEvaluation> {
+    const response = await fetch('/api/discounts/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            code,
+            items: items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+        }),
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to validate discount code');
+    }
+
+    const result = await response.json();
+    return result.valid
+        ? { ok: true, discount: result.discount }
+        : { ok: false, reason: result.reason };
+}
@@ -0,0 +1,102 @@
+/**
+ * Vietnamese administrative divisions
+ *
+ * Province -> district -> ward, keyed by the General Statistics Office codes
+ * (danhmuchanhchinh.gso.gov.vn; bundled from the MIT-licensed hanhchinhvn
+ * export as vn-divisions.json: [code, name, children]). Orders and saved
+ * addresses store the codes; the names stored next to them always come from
+ * this dataset, so shipping zones match on one spelling per place.
+ *
+ * Server-only: the dataset is ~330KB. Browsers load one level at a time
+ * from /api/divisions.
+ */
+
+import divisionData from './vn-divisions.json';
+
+export { matchesDivisionSearch, normalizeDivisionSearch } from './search';
+
+export interface DivisionOption {
+    code: string;
+    name: string;
+}
+
+export interface AddressDivisionCodes {
+    provinceCode: string;
+    districtCode: string;
+    wardCode?: string; // A few island districts have no wards
+}
+
+export interface ResolvedAddressDivisions {
+    province: DivisionOption;
+    district: DivisionOption;
+    ward: DivisionOption | null;
+}
+
+type WardNode = [code: string, name: string];
+type DistrictNode = [code: string, name: string, wards: WardNode[]];
+type ProvinceNode = [code: string, name: string, districts: DistrictNode[]];
+
+const PROVINCES = divisionData as unknown as ProvinceNode[];
+
+let districtIndex: Map<string, { provinceCode: string; node: DistrictNode }> | null = null;
+
+function getDistrictIndex() {
+    if (!districtIndex) {
+        districtIndex = new Map();
+        for (const [provinceCode, , districts] of PROVINCES) {
+            for (const district of districts) {
+                districtIndex.set(district[0], { provinceCode, node: district });
+            }
+        }
+    }
+    return districtIndex;
+}
+
+const toOption = ([code, name]: [string, string, ...unknown[]]): DivisionOption => ({ code, name });
+
+export function getProvinces(): DivisionOption[] {
+    return PROVINCES.map(toOption);
+}
+
+/**
+ * Districts of a province (empty for an unknown code)
+ */
+export function getDistricts(provinceCode: string): DivisionOption[] {
+    const province = PROVINCES.find(([code]) => code === provinceCode);
+    return province ? province[2].map(toOption) : [];
+}
+
+/**
+ * Wards of a district (empty for an unknown code)
+ */
+export function getWards(districtCode: string): DivisionOption[] {
+    const district = getDistrictIndex().get(districtCode);
+    return district ? district.node[2].map(toOption) : [];
+}
+
+/**
+ * Check that the codes exist and belong together
+ * Returns the divisions, or null when the combination is invalid (unknown
+ * code, district outside the province, missing or foreign ward).
+ */
+export function resolveAddressDivisions(codes: AddressDivisionCodes): ResolvedAddressDivisions | null {
+    const province = PROVINCES.find(([code]) => code === codes.provinceCode);
+    const district = getDistrictIndex().get(codes.districtCode);
+
+    if (!province || !district || district.provinceCode !== province[0]) {
+        return null;
+    }
+
+    const wards = district.node[2];
+    const ward = codes.wardCode ? wards.find(([code]) => code === codes.wardCode) : undefined;
+
+    if (codes.wardCode ? !ward : wards.length > 0) {
+        return null;
+    }
+
+    return {
+        province: toOption(province),
+        district: toOption(district.node),
+        ward: ward ? toOption(ward) : null,
+    };
+}
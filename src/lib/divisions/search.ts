@@ -0,0 +1,47 @@
+/**
+ * Diacritic-insensitive matching for administrative division names
+ * Client-safe (no dataset import): the address pickers filter the options
+ * they loaded from /api/divisions with it.
+ */
+
+import { removeDiacritics } from '@/lib/vietqr/generator';
+
+// Common ways customers write a province that don't appear in its official name
+const PROVINCE_ALIASES: Record<string, string[]> = {
+    '01': ['hn'],
+    '79': ['hcm', 'tphcm', 'sai gon', 'saigon', 'sg'],
+    '48': ['dn'],
+    '31': ['hp'],
+    '92': ['ct'],
+};
+
+/**
+ * "Thành phố Hồ Chí Minh" -> "thanh pho ho chi minh"
+ */
+export function normalizeDivisionSearch(value: string): string {
+    return removeDiacritics(value)
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+/**
+ * Whether a division matches what the customer typed
+ * Every word of the query has to appear in the name ("ba dinh" finds
+ * "Quận Ba Đình", "q 1" finds "Quận 1").
+ */
+export function matchesDivisionSearch(option: { code: string; name: string }, query: string): boolean {
+    const words = normalizeDivisionSearch(query).split(' ').filter(Boolean);
+    if (words.length === 0) {
+        return true;
+    }
+
+    const name = normalizeDivisionSearch(option.name);
+    const compactQuery = words.join('');
+    if ((PROVINCE_ALIASES[option.code] || []).some((alias) => alias.replace(/ /g, '') === compactQuery)) {
+        return true;
+    }
+
+    const nameWords = name.split(' ');
+    return words.every((word) => nameWords.some((nameWord) => nameWord.startsWith(word)));
+}
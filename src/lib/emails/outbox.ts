@@ -0,0 +1,277 @@
+/**
+ * Email Outbox
+ *
+ * The send* functions in ./service render a message and enqueue it here
+ * instead of calling the provider inline. Delivery happens after the
+ * response is sent (next/server `after`) and, for anything that fails or
+ * is left behind, in the worker (/api/cron/email-outbox). Failed attempts
+ * retry with exponential backoff; after max_attempts the message is dead
+ * until an admin resends it.
+ */
+
+import { after } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import { getDefaultFromAddress, getEmailProvider } from './providers';
+import type { EmailType } from './templates';
+
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'dead';
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+// 1 min, 2 min, 4 min, ... capped at 6 hours
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+const DEFAULT_BATCH_SIZE = 20;
+
+export interface EnqueueEmailInput {
+    type: EmailType;
+    to: string;
+    subject: string;
+    html: string;
+    text?: string;
+    from?: string;
+    orderId?: string;
+    orderEmailId?: string; // order_emails log row to keep in sync
+    maxAttempts?: number;
+}
+
+export interface ProcessOutboxResult {
+    claimed: number;
+    sent: number;
+    retrying: number;
+    dead: number;
+}
+
+interface OutboxRow {
+    id: string;
+    order_id: string | null;
+    order_email_id: string | null;
+    type: string;
+    from_email: string | null;
+    to_email: string;
+    subject: string;
+    html: string;
+    text: string | null;
+    status: OutboxStatus;
+    attempts: number;
+    max_attempts: number;
+}
+
+/**
+ * Delay before the next attempt, given the attempts made so far
+ */
+export function getBackoffDelayMs(attempts: number): number {
+    return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+/**
+ * Mirror the delivery state onto the order_emails log row
+ */
+async function syncOrderEmail(
+    orderEmailId: string | null,
+    status: 'queued' | 'sent' | 'failed',
+    providerMessageId?: string,
+    errorMessage?: string
+): Promise<void> {
+    if (!orderEmailId) return;
+
+    try {
+        const supabase = createServiceClient();
+        await supabase
+            .from('order_emails')
+            .update({
+                status,
+                provider_message_id: providerMessageId || null,
+                error_message: errorMessage || null,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', orderEmailId);
+    } catch (error) {
+        console.error('Error syncing order email log:', error);
+    }
+}
+
+/**
+ * Deliver a claimed message and record the outcome
+ */
+async function deliver(row: OutboxRow): Promise<OutboxStatus> {
+    const supabase = createServiceClient();
+
+    try {
+        const provider = getEmailProvider();
+        const result = await provider.send({
+            from: row.from_email || getDefaultFromAddress(),
+            to: row.to_email,
+            subject: row.subject,
+            html: row.html,
+            text: row.text || undefined,
+        });
+
+        await supabase
+            .from('email_outbox')
+            .update({
+                status: 'sent',
+                provider: provider.name,
+                provider_message_id: result.messageId || null,
+                last_error: null,
+                locked_at: null,
+                sent_at: new Date().toISOString(),
+            })
+            .eq('id', row.id);
+
+        await syncOrderEmail(row.order_email_id, 'sent', result.messageId);
+
+        return 'sent';
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const status: OutboxStatus = row.attempts >= row.max_attempts ? 'dead' : 'failed';
+
+        console.error(
+            `Email ${row.id} (${row.type}) attempt ${row.attempts}/${row.max_attempts} failed:`,
+            errorMessage
+        );
+
+        await supabase
+            .from('email_outbox')
+            .update({
+                status,
+                last_error: errorMessage,
+                locked_at: null,
+                next_attempt_at: new Date(Date.now() + getBackoffDelayMs(row.attempts)).toISOString(),
+            })
+            .eq('id', row.id);
+
+        // The log only turns failed once retries are exhausted
+        await syncOrderEmail(row.order_email_id, status === 'dead' ? 'failed' : 'queued', undefined, errorMessage);
+
+        return status;
+    }
+}
+
+/**
+ * Claim due messages (all due messages, or a single one by id)
+ */
+async function claim(limit: number, id?: string): Promise<OutboxRow[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase.rpc('claim_email_outbox', {
+        p_limit: limit,
+        p_id: id ?? null,
+    });
+
+    if (error) {
+        console.error('Error claiming email outbox messages:', error);
+        throw new Error('Failed to claim email outbox messages');
+    }
+
+    return (data || []) as OutboxRow[];
+}
+
+/**
+ * Deliver one message now, if it is due and not already being sent
+ * Returns the resulting status, or null when nothing was claimed
+ */
+export async function deliverOutboxMessage(id: string): Promise<OutboxStatus | null> {
+    const [row] = await claim(1, id);
+    return row ? deliver(row) : null;
+}
+
+/**
+ * Worker entry point: deliver due messages one by one
+ */
+export async function processOutbox(limit: number = DEFAULT_BATCH_SIZE): Promise<ProcessOutboxResult> {
+    const rows = await claim(limit);
+    const result: ProcessOutboxResult = { claimed: rows.length, sent: 0, retrying: 0, dead: 0 };
+
+    for (const row of rows) {
+        const status = await deliver(row);
+        if (status === 'sent') result.sent++;
+        else if (status === 'dead') result.dead++;
+        else result.retrying++;
+    }
+
+    return result;
+}
+
+/**
+ * Store a rendered message in the outbox and schedule delivery
+ * Throws if the message could not be stored
+ */
+export async function enqueueEmail(input: EnqueueEmailInput): Promise<string> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('email_outbox')
+        .insert({
+            order_id: input.orderId || null,
+            order_email_id: input.orderEmailId || null,
+            type: input.type,
+            from_email: input.from || null,
+            to_email: input.to,
+            subject: input.subject,
+            html: input.html,
+            text: input.text || null,
+            max_attempts: input.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        })
+        .select('id')
+        .single();
+
+    if (error || !data) {
+        console.error('Error enqueueing email:', error);
+        throw new Error('Failed to enqueue email');
+    }
+
+    try {
+        // Deliver once the response has been sent; the worker retries anything left behind
+        after(() => deliverOutboxMessage(data.id));
+    } catch {
+        // Not inside a request (scripts) - the worker will pick it up
+    }
+
+    return data.id;
+}
+
+/**
+ * Send a copy of an existing message (any status) and deliver it right away
+ * The original row is kept so the attempt history stays intact
+ * With orderId, only a message sent for that order is found
+ */
+export async function resendOutboxMessage(
+    id: string,
+    orderId?: string
+): Promise<{ id: string; status: OutboxStatus | null }> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('email_outbox')
+        .select('order_id, order_email_id, type, from_email, to_email, subject, html, text, max_attempts')
+        .eq('id', id);
+    if (orderId) {
+        query = query.eq('order_id', orderId);
+    }
+
+    const { data: original, error } = await query.single();
+
+    if (error || !original) {
+        throw new Error('Email not found');
+    }
+
+    const { data: copy, error: insertError } = await supabase
+        .from('email_outbox')
+        .insert({
+            ...original,
+            resent_from_id: id,
+        })
+        .select('id')
+        .single();
+
+    if (insertError || !copy) {
+        console.error('Error resending email:', insertError);
+        throw new Error('Failed to resend email');
+    }
+
+    await syncOrderEmail(original.order_email_id, 'queued');
+
+    return { id: copy.id, status: await deliverOutboxMessage(copy.id) };
+}
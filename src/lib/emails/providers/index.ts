@@ -0,0 +1,87 @@
+/**
+ * Email provider selection
+ *
+ * EMAIL_PROVIDER picks the provider explicitly (resend | smtp | console | file).
+ * When unset: Resend if RESEND_API_KEY exists, the console sink outside
+ * production, otherwise an error - a misconfigured production deploy
+ * fails loudly in the outbox instead of silently dropping email.
+ */
+
+import { join } from 'path';
+import { createConsoleProvider, createFileProvider } from './local';
+import { createResendProvider } from './resend';
+import { createSmtpProvider } from './smtp';
+import type { EmailProvider, EmailProviderName } from './types';
+
+export type { EmailMessage, EmailProvider, EmailProviderName, EmailSendResult } from './types';
+
+const PROVIDER_NAMES: EmailProviderName[] = ['resend', 'smtp', 'console', 'file'];
+
+let cachedProvider: EmailProvider | null = null;
+
+function resolveProviderName(): EmailProviderName {
+    const configured = process.env.EMAIL_PROVIDER?.trim().toLowerCase();
+
+    if (configured) {
+        if (!PROVIDER_NAMES.includes(configured as EmailProviderName)) {
+            throw new Error(`Unknown EMAIL_PROVIDER "${configured}". Use one of: ${PROVIDER_NAMES.join(', ')}`);
+        }
+        return configured as EmailProviderName;
+    }
+
+    if (process.env.RESEND_API_KEY) {
+        return 'resend';
+    }
+
+    if (process.env.NODE_ENV !== 'production') {
+        return 'console';
+    }
+
+    throw new Error('No email provider configured. Set RESEND_API_KEY, or EMAIL_PROVIDER with its settings.');
+}
+
+function createProvider(name: EmailProviderName): EmailProvider {
+    switch (name) {
+        case 'resend': {
+            if (!process.env.RESEND_API_KEY) {
+                throw new Error('Resend API key not configured. Set RESEND_API_KEY environment variable.');
+            }
+            return createResendProvider(process.env.RESEND_API_KEY);
+        }
+        case 'smtp': {
+            if (!process.env.SMTP_HOST) {
+                throw new Error('SMTP host not configured. Set SMTP_HOST environment variable.');
+            }
+            const secure = process.env.SMTP_SECURE === 'true';
+            return createSmtpProvider({
+                host: process.env.SMTP_HOST,
+                port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+                secure,
+                user: process.env.SMTP_USER || undefined,
+                password: process.env.SMTP_PASSWORD || undefined,
+            });
+        }
+        case 'file':
+            return createFileProvider(process.env.EMAIL_FILE_DIR || join(process.cwd(), '.emails'));
+        case 'console':
+            return createConsoleProvider();
+    }
+}
+
+/**
+ * Get the configured provider (created once per process)
+ * Throws when the configuration is missing or invalid
+ */
+export function getEmailProvider(): EmailProvider {
+    if (!cachedProvider) {
+        cachedProvider = createProvider(resolveProviderName());
+    }
+    return cachedProvider;
+}
+
+/**
+ * Sender address used when a message doesn't set one
+ */
+export function getDefaultFromAddress(): string {
+    return process.env.EMAIL_FROM || process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev';
+}
@@ -0,0 +1,46 @@
+/**
+ * Local sinks for development and tests
+ * - console: logs recipient, subject and the plain-text body
+ * - file: writes each message as an .eml file (EMAIL_FILE_DIR, default .emails/)
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { buildMimeMessage } from './mime';
+import type { EmailProvider } from './types';
+
+export function createConsoleProvider(): EmailProvider {
+    return {
+        name: 'console',
+        async send(message) {
+            const { messageId } = buildMimeMessage(message);
+            console.log(
+                [
+                    `[email:console] ${messageId}`,
+                    `From: ${message.from}`,
+                    `To: ${message.to}`,
+                    `Subject: ${message.subject}`,
+                    '',
+                    message.text || '(HTML only)',
+                ].join('\n')
+            );
+            return { messageId };
+        },
+    };
+}
+
+export function createFileProvider(directory: string): EmailProvider {
+    return {
+        name: 'file',
+        async send(message) {
+            const { messageId, raw } = buildMimeMessage(message);
+            const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId.split('@')[0]}.eml`;
+
+            await mkdir(directory, { recursive: true });
+            await writeFile(join(directory, fileName), raw, 'utf8');
+
+            console.log(`[email:file] ${message.to} - ${message.subject} -> ${join(directory, fileName)}`);
+            return { messageId };
+        },
+    };
+}
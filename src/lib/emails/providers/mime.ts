@@ -0,0 +1,63 @@
+/**
+ * Minimal MIME builder (multipart/alternative, UTF-8)
+ * Used by the SMTP provider and the file sink so both produce real .eml files
+ */
+
+import { randomUUID } from 'crypto';
+import type { EmailMessage } from './types';
+
+/**
+ * Extract the bare address from "Name <address>"
+ */
+export function extractAddress(value: string): string {
+    const match = value.match(/<([^>]+)>/);
+    return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+    // Plain ASCII headers stay readable; anything else uses RFC 2047
+    return /^[\x20-\x7e]*$/.test(value)
+        ? value
+        : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(value: string): string {
+    const encoded = Buffer.from(value, 'utf8').toString('base64');
+    return encoded.match(/.{1,76}/g)?.join('\r\n') || '';
+}
+
+/**
+ * Build an RFC 5322 message with text and HTML parts
+ */
+export function buildMimeMessage(message: EmailMessage): { messageId: string; raw: string } {
+    const domain = extractAddress(message.from).split('@')[1] || 'localhost';
+    const messageId = `${randomUUID()}@${domain}`;
+    const boundary = `----=_Part_${randomUUID()}`;
+
+    const parts = [
+        ...(message.text ? [{ type: 'text/plain', body: message.text }] : []),
+        { type: 'text/html', body: message.html },
+    ];
+
+    const lines = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${messageId}>`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        ...parts.flatMap((part) => [
+            `--${boundary}`,
+            `Content-Type: ${part.type}; charset=UTF-8`,
+            'Content-Transfer-Encoding: base64',
+            '',
+            encodeBody(part.body),
+        ]),
+        `--${boundary}--`,
+        '',
+    ];
+
+    return { messageId, raw: lines.join('\r\n') };
+}
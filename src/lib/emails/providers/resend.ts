@@ -0,0 +1,29 @@
+/**
+ * Resend provider (RESEND_API_KEY)
+ */
+
+import { Resend } from 'resend';
+import type { EmailProvider } from './types';
+
+export function createResendProvider(apiKey: string): EmailProvider {
+    const resend = new Resend(apiKey);
+
+    return {
+        name: 'resend',
+        async send(message) {
+            const { data, error } = await resend.emails.send({
+                from: message.from,
+                to: message.to,
+                subject: message.subject,
+                html: message.html,
+                text: message.text,
+            });
+
+            if (error) {
+                throw new Error(error.message || 'Failed to send email');
+            }
+
+            return { messageId: data?.id };
+        },
+    };
+}
@@ -0,0 +1,184 @@
+/**
+ * SMTP provider (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE)
+ *
+ * Small SMTP client on top of node:net/node:tls: implicit TLS (port 465,
+ * SMTP_SECURE=true) or STARTTLS when the server offers it, AUTH PLAIN,
+ * one recipient per message.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+import { buildMimeMessage, extractAddress } from './mime';
+import type { EmailProvider } from './types';
+
+const SOCKET_TIMEOUT_MS = 30000;
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+}
+
+interface SmtpReply {
+    code: number;
+    message: string;
+}
+
+/**
+ * One SMTP conversation: reads multi-line replies and sends commands
+ */
+class SmtpSession {
+    private socket: net.Socket | null = null;
+    private buffer = '';
+    private failure: Error | null = null;
+    private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+
+    attach(socket: net.Socket) {
+        this.socket = socket;
+        this.buffer = '';
+        socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+        socket.on('data', (chunk: Buffer) => {
+            this.buffer += chunk.toString('utf8');
+            this.flush();
+        });
+        socket.on('error', (error) => this.fail(error));
+        socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+    }
+
+    /**
+     * Hand the raw socket over to TLS (STARTTLS)
+     */
+    detach(): net.Socket {
+        const socket = this.socket!;
+        socket.removeAllListeners('data');
+        socket.removeAllListeners('error');
+        socket.removeAllListeners('close');
+        socket.setTimeout(0);
+        this.socket = null;
+        return socket;
+    }
+
+    read(): Promise<SmtpReply> {
+        return new Promise((resolve, reject) => {
+            if (this.failure) {
+                reject(this.failure);
+                return;
+            }
+            this.pending = { resolve, reject };
+            this.flush();
+        });
+    }
+
+    async command(line: string, expected: number[]): Promise<SmtpReply> {
+        this.write(`${line}\r\n`);
+        const reply = await this.read();
+        if (!expected.includes(reply.code)) {
+            // Never echo the full line - AUTH carries credentials
+            throw new Error(`SMTP ${line.split(' ')[0]} failed: ${reply.code} ${reply.message}`);
+        }
+        return reply;
+    }
+
+    write(data: string) {
+        this.socket?.write(data);
+    }
+
+    close() {
+        this.socket?.end();
+    }
+
+    private flush() {
+        if (!this.pending) return;
+
+        // A reply ends with "NNN text" (multi-line replies use "NNN-text" before that)
+        const lines = this.buffer.split('\r\n');
+        for (let i = 0; i < lines.length - 1; i++) {
+            if (/^\d{3}(?: |$)/.test(lines[i])) {
+                const replyLines = lines.slice(0, i + 1);
+                this.buffer = lines.slice(i + 1).join('\r\n');
+
+                const { resolve } = this.pending;
+                this.pending = null;
+                resolve({
+                    code: Number(lines[i].slice(0, 3)),
+                    message: replyLines.map((replyLine) => replyLine.slice(4)).join('\n'),
+                });
+                return;
+            }
+        }
+    }
+
+    private fail(error: Error) {
+        this.failure = this.failure || error;
+        if (this.pending) {
+            this.pending.reject(this.failure);
+            this.pending = null;
+        }
+    }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const socket = config.secure
+            ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+            : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+        socket.once('error', reject);
+    });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+    return new Promise((resolve, reject) => {
+        const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+        secureSocket.once('error', reject);
+    });
+}
+
+export function createSmtpProvider(config: SmtpConfig): EmailProvider {
+    return {
+        name: 'smtp',
+        async send(message) {
+            const { messageId, raw } = buildMimeMessage(message);
+            const session = new SmtpSession();
+            const clientName = hostname() || 'localhost';
+
+            session.attach(await connect(config));
+
+            try {
+                const greeting = await session.read();
+                if (greeting.code !== 220) {
+                    throw new Error(`SMTP server rejected connection: ${greeting.code} ${greeting.message}`);
+                }
+
+                let ehlo = await session.command(`EHLO ${clientName}`, [250]);
+
+                if (!config.secure && /^STARTTLS\b/im.test(ehlo.message)) {
+                    await session.command('STARTTLS', [220]);
+                    session.attach(await upgradeToTls(session.detach(), config.host));
+                    ehlo = await session.command(`EHLO ${clientName}`, [250]);
+                }
+
+                if (config.user) {
+                    const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`, 'utf8').toString('base64');
+                    await session.command(`AUTH PLAIN ${credentials}`, [235]);
+                }
+
+                await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+                await session.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+                await session.command('DATA', [354]);
+
+                // Dot-stuffing: lines starting with "." get an extra "."
+                const body = raw.replace(/\r\n\./g, '\r\n..');
+                await session.command(`${body}\r\n.`, [250]);
+
+                await session.command('QUIT', [221]).catch(() => undefined);
+            } finally {
+                session.close();
+            }
+
+            return { messageId };
+        },
+    };
+}
@@ -0,0 +1,24 @@
+/**
+ * Email provider contract
+ * Providers only deliver an already rendered message; retries and logging
+ * are handled by the outbox worker.
+ */
+
+export type EmailProviderName = 'resend' | 'smtp' | 'console' | 'file';
+
+export interface EmailMessage {
+    from: string;
+    to: string;
+    subject: string;
+    html: string;
+    text?: string;
+}
+
+export interface EmailSendResult {
+    messageId?: string;
+}
+
+export interface EmailProvider {
+    name: EmailProviderName;
+    send(message: EmailMessage): Promise<EmailSendResult>;
+}
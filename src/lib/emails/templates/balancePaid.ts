@@ -0,0 +1,53 @@
+import type { Locale } from '@/config/locales';
+import { amountCallout, blocks, centeredButton, escapeHtml, formatVnd, paragraph, renderLayout, textBody } from './layout';
+import { fill, getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * Remaining balance received; order fully paid
+ */
+export function renderBalancePaidEmail(
+    locale: Locale,
+    data: EmailTemplateData['balance_paid']
+): RenderedEmail {
+    const t = getEmailTranslations(locale).balancePaid || {};
+    const values = { orderCode: data.orderCode, customerName: data.customerName };
+
+    const subject = fill(t.subject || 'Payment Complete - Order {orderCode}', values);
+    const greeting = fill(t.greeting || 'Hello {customerName},', values);
+    const message = fill(
+        t.message || 'We have received the remaining balance for order {orderCode}. Your order is now fully paid.',
+        values
+    );
+    const amountLabel = t.amountLabel || 'Balance Paid';
+    const nextSteps = t.nextSteps || 'We will prepare your order for delivery. You can track the status using the link below.';
+    const trackButton = t.trackButton || 'Track Your Order';
+    const support = t.support || 'If you have any questions, please contact us.';
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'Payment Complete!',
+        tone: 'success',
+        footer: t.footerBrand || 'Restore The Basic',
+        body: blocks(
+            paragraph(escapeHtml(greeting)),
+            paragraph(escapeHtml(message)),
+            amountCallout(amountLabel, data.balanceAmount),
+            paragraph(escapeHtml(nextSteps)),
+            centeredButton(data.trackingUrl, trackButton),
+            paragraph(escapeHtml(support), 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        greeting,
+        message,
+        `${amountLabel}: ${formatVnd(data.balanceAmount)}`,
+        nextSteps,
+        `${trackButton}: ${data.trackingUrl}`,
+        support
+    );
+
+    return { subject, html, text };
+}
@@ -0,0 +1,69 @@
+import type { Locale } from '@/config/locales';
+import { blocks, detailRow, escapeHtml, panel, panelTitle, paragraph, renderLayout, textBody } from './layout';
+import { getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * Change request notification for the shop admin (body copy stays in English)
+ */
+export function renderChangeRequestEmail(
+    locale: Locale,
+    data: EmailTemplateData['change_request']
+): RenderedEmail {
+    const t = getEmailTranslations(locale).changeRequest || {};
+
+    const categoryLabels: Record<string, string> = {
+        change_items: t.categoryChangeItems || 'Change Items',
+        change_address: t.categoryChangeAddress || 'Change Address',
+        cancel_refund: t.categoryCancelRefund || 'Cancel & Refund',
+        other: t.categoryOther || 'Other',
+    };
+    const category = categoryLabels[data.category] || data.category;
+    const messageLabel = t.messageLabel || 'Customer Message';
+
+    const subject = data.isFollowUp
+        ? `Change Request Follow-up - Order ${data.orderCode}`
+        : `Change Request - Order ${data.orderCode}`;
+    const intro = data.isFollowUp
+        ? 'A customer has replied to an open change request.'
+        : 'A customer has submitted a change request for an order.';
+    const outro = 'Please review this request in the admin inbox (/admin/change-requests) and reply to the customer there.';
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'Change Request',
+        footer: 'Restore The Basic - Admin Notification',
+        body: blocks(
+            paragraph(intro),
+            panel(
+                blocks(
+                    detailRow('Order Code', escapeHtml(data.orderCode)),
+                    detailRow('Customer', escapeHtml(data.customerName)),
+                    detailRow('Email', escapeHtml(data.customerEmail)),
+                    detailRow('Category', escapeHtml(category))
+                )
+            ),
+            panel(
+                panelTitle(escapeHtml(messageLabel)) +
+                    `<p style="margin: 0; color: #333; font-size: 14px; line-height: 1.6; white-space: pre-wrap;">${escapeHtml(data.message)}</p>`,
+                'accent'
+            ),
+            paragraph(outro, 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        intro,
+        [
+            `Order Code: ${data.orderCode}`,
+            `Customer: ${data.customerName}`,
+            `Email: ${data.customerEmail}`,
+            `Category: ${category}`,
+        ].join('\n'),
+        `${messageLabel}:\n${data.message}`,
+        outro
+    );
+
+    return { subject, html, text };
+}
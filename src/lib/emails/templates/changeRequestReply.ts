@@ -0,0 +1,77 @@
+import type { Locale } from '@/config/locales';
+import { blocks, detailRow, escapeHtml, panel, panelTitle, paragraph, renderLayout, textBody, trackingBlock } from './layout';
+import { fill, getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * Admin reply to a customer's change request
+ */
+export function renderChangeRequestReplyEmail(
+    locale: Locale,
+    data: EmailTemplateData['change_request_reply']
+): RenderedEmail {
+    const copy = getEmailTranslations(locale);
+    const t = copy.changeRequestReply || {};
+    const categories = copy.changeRequest || {};
+    const values = { orderCode: data.orderCode, customerName: data.customerName };
+
+    const categoryLabels: Record<string, string | undefined> = {
+        change_items: categories.categoryChangeItems || 'Change Items',
+        change_address: categories.categoryChangeAddress || 'Change Address',
+        cancel_refund: categories.categoryCancelRefund || 'Cancel & Refund',
+        other: categories.categoryOther || 'Other',
+    };
+    const statusLabels: Record<string, string | undefined> = t.statuses || {};
+
+    const subject = fill(t.subject || 'Reply to Your Change Request - Order {orderCode}', values);
+    const greeting = fill(t.greeting || 'Hello {customerName},', values);
+    const message = fill(t.message || 'Our team has replied to your change request for order {orderCode}.', values);
+    const category = categoryLabels[data.category] || data.category;
+    const status = statusLabels[data.status] || data.status;
+    const categoryLabel = t.categoryLabel || 'Request';
+    const statusLabel = t.statusLabel || 'Status';
+    const replyLabel = t.replyLabel || 'Our Reply';
+    const trackOrder = t.trackOrder || 'View the Conversation';
+    const support = t.support || 'If you have any questions, please contact us.';
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'We Replied to Your Request',
+        footer: t.footerBrand || 'Restore The Basic',
+        body: blocks(
+            paragraph(escapeHtml(greeting)),
+            paragraph(escapeHtml(message)),
+            panel(
+                blocks(
+                    detailRow(categoryLabel, escapeHtml(category)),
+                    detailRow(statusLabel, escapeHtml(status))
+                )
+            ),
+            panel(
+                panelTitle(escapeHtml(replyLabel)) +
+                    `<p style="margin: 0; color: #333; font-size: 14px; line-height: 1.6; white-space: pre-wrap;">${escapeHtml(data.reply)}</p>`,
+                'accent'
+            ),
+            data.trackingUrl &&
+                trackingBlock(
+                    data.trackingUrl,
+                    trackOrder,
+                    t.trackButton || 'View Request',
+                    t.trackNote || 'You can reply to us from your order page.'
+                ),
+            paragraph(escapeHtml(support), 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        greeting,
+        message,
+        `${categoryLabel}: ${category}\n${statusLabel}: ${status}`,
+        `${replyLabel}:\n${data.reply}`,
+        data.trackingUrl && `${trackOrder}:\n${data.trackingUrl}`,
+        support
+    );
+
+    return { subject, html, text };
+}
@@ -0,0 +1,53 @@
+import type { Locale } from '@/config/locales';
+import { amountCallout, blocks, centeredButton, escapeHtml, formatVnd, paragraph, renderLayout, textBody } from './layout';
+import { fill, getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * Deposit proof verified by admin
+ */
+export function renderDepositApprovedEmail(
+    locale: Locale,
+    data: EmailTemplateData['deposit_approved']
+): RenderedEmail {
+    const t = getEmailTranslations(locale).depositApproved || {};
+    const values = { orderCode: data.orderCode, customerName: data.customerName };
+
+    const subject = fill(t.subject || 'Deposit Confirmed - Order {orderCode}', values);
+    const greeting = fill(t.greeting || 'Hello {customerName},', values);
+    const message = fill(
+        t.message || 'Great news! Your deposit for order {orderCode} has been verified and confirmed.',
+        values
+    );
+    const amountLabel = t.amountLabel || 'Deposit Amount';
+    const nextSteps = t.nextSteps || 'We will now process your order. You can track the status using the link below.';
+    const trackButton = t.trackButton || 'Track Your Order';
+    const support = t.support || 'If you have any questions, please contact us.';
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'Deposit Confirmed!',
+        tone: 'success',
+        footer: t.footerBrand || 'Restore The Basic',
+        body: blocks(
+            paragraph(escapeHtml(greeting)),
+            paragraph(escapeHtml(message)),
+            amountCallout(amountLabel, data.depositAmount),
+            paragraph(escapeHtml(nextSteps)),
+            centeredButton(data.trackingUrl, trackButton),
+            paragraph(escapeHtml(support), 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        greeting,
+        message,
+        `${amountLabel}: ${formatVnd(data.depositAmount)}`,
+        nextSteps,
+        `${trackButton}: ${data.trackingUrl}`,
+        support
+    );
+
+    return { subject, html, text };
+}
@@ -0,0 +1,77 @@
+import type { Locale } from '@/config/locales';
+import { blocks, centeredButton, escapeHtml, formatDateTime, panel, paragraph, renderLayout, textBody } from './layout';
+import { fill, getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * Deposit proof rejected; asks the customer to upload a new one before the
+ * deposit deadline, or to contact us when no attempts are left
+ */
+export function renderDepositRejectedEmail(
+    locale: Locale,
+    data: EmailTemplateData['deposit_rejected']
+): RenderedEmail {
+    const t = getEmailTranslations(locale).depositRejected || {};
+    const values = { orderCode: data.orderCode, customerName: data.customerName };
+
+    const subject = fill(t.subject || 'Deposit Proof Needs Attention - Order {orderCode}', values);
+    const greeting = fill(t.greeting || 'Hello {customerName},', values);
+    const message = fill(
+        t.message || 'We reviewed the proof you uploaded for order {orderCode}, but we were unable to verify it.',
+        values
+    );
+    const noteLabel = t.noteLabel || 'Note';
+    const canReupload = data.attemptsRemaining !== 0;
+    const action = canReupload
+        ? t.action || 'Please upload a clearer image of your bank transfer proof using the link below.'
+        : t.noAttemptsLeft || 'You have used all proof uploads for this order. Please contact us so we can verify your transfer.';
+    const deadline =
+        canReupload &&
+        [
+            data.depositDueAt &&
+                fill(t.deadline || 'Upload a new proof before {dueAt}.', {
+                    dueAt: formatDateTime(data.depositDueAt, locale),
+                }),
+            data.attemptsRemaining !== undefined &&
+                fill(t.attemptsRemaining || 'Uploads left: {attemptsRemaining}.', {
+                    attemptsRemaining: String(data.attemptsRemaining),
+                }),
+        ]
+            .filter(Boolean)
+            .join(' ');
+    const uploadButton = canReupload ? t.uploadButton || 'Upload New Proof' : t.viewOrderButton || 'View Order';
+    const support = t.support || 'If you have any questions, please contact us.';
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'Proof Needs Attention',
+        tone: 'warning',
+        footer: t.footerBrand || 'Restore The Basic',
+        body: blocks(
+            paragraph(escapeHtml(greeting)),
+            paragraph(escapeHtml(message)),
+            data.rejectionNote &&
+                panel(
+                    `<p style="margin: 0; color: #333; font-size: 14px; line-height: 1.6;"><strong>${escapeHtml(noteLabel)}:</strong> ${escapeHtml(data.rejectionNote)}</p>`,
+                    'warning'
+                ),
+            paragraph(escapeHtml(action)),
+            deadline && paragraph(`<strong>${escapeHtml(deadline)}</strong>`),
+            centeredButton(data.trackingUrl, uploadButton),
+            paragraph(escapeHtml(support), 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        greeting,
+        message,
+        data.rejectionNote && `${noteLabel}: ${data.rejectionNote}`,
+        action,
+        deadline,
+        `${uploadButton}: ${data.trackingUrl}`,
+        support
+    );
+
+    return { subject, html, text };
+}
@@ -0,0 +1,106 @@
+/**
+ * Sample template data for the admin preview (/admin/emails/preview)
+ */
+
+import type { Locale } from '@/config/locales';
+import type { EmailTemplateData, EmailType } from './types';
+
+const ORDER_CODE = 'RTB-20260412-0042';
+const TRACKING_URL = `https://restorethebasic.com/order/track/${ORDER_CODE}?t=preview-token`;
+
+export function getEmailFixture<T extends EmailType>(type: T, locale: Locale): EmailTemplateData[T] {
+    const customer = {
+        orderCode: ORDER_CODE,
+        customerName: locale === 'vi' ? 'Nguyễn Văn An' : 'Alex Nguyen',
+        customerEmail: 'customer@example.com',
+        locale,
+    };
+
+    const fixtures: EmailTemplateData = {
+        order_confirmation: {
+            ...customer,
+            customerPhone: '0901234567',
+            shippingAddress: '12 Lý Tự Trọng, Phường Bến Nghé, Quận 1, TP. Hồ Chí Minh',
+            items: [
+                { productName: 'Oak Desk Shelf', quantity: 1, unitPrice: 1850000, subtotal: 1850000 },
+                { productName: 'Walnut Monitor Riser', quantity: 2, unitPrice: 650000, subtotal: 1300000 },
+            ],
+            subtotal: 3150000,
+            shippingFee: 50000,
+            tax: 0,
+            discount: 150000,
+            discountCode: 'WELCOME5',
+            total: 3050000,
+            paymentMethod: 'bank_transfer',
+            trackingUrl: TRACKING_URL,
+        },
+        status_update: {
+            ...customer,
+            oldStatus: 'processing',
+            newStatus: 'shipped',
+            note: locale === 'vi' ? 'Đơn hàng được giao qua GHN, dự kiến 2-3 ngày.' : 'Shipped with GHN, expected in 2-3 days.',
+            trackingUrl: TRACKING_URL,
+        },
+        refund: {
+            ...customer,
+            refundId: 're_preview',
+            refundAmount: 650000,
+            currency: 'vnd',
+            isPartial: true,
+            trackingUrl: TRACKING_URL,
+        },
+        order_cancellation: {
+            ...customer,
+            reason: locale === 'vi' ? 'Khách hàng yêu cầu hủy' : 'Cancelled at customer request',
+            trackingUrl: TRACKING_URL,
+        },
+        change_request: {
+            ...customer,
+            category: 'change_address',
+            eventId: 'preview-request',
+            message: locale === 'vi'
+                ? 'Vui lòng giao đến địa chỉ văn phòng:\n45 Nguyễn Huệ, Quận 1'
+                : 'Please deliver to my office instead:\n45 Nguyen Hue, District 1',
+        },
+        change_request_reply: {
+            ...customer,
+            messageId: 'preview-reply',
+            category: 'change_address',
+            status: 'accepted',
+            reply: locale === 'vi'
+                ? 'Chúng tôi đã cập nhật địa chỉ giao hàng sang 45 Nguyễn Huệ, Quận 1.'
+                : 'We have updated the delivery address to 45 Nguyen Hue, District 1.',
+            trackingUrl: TRACKING_URL,
+        },
+        deposit_approved: {
+            ...customer,
+            proofId: 'preview-proof',
+            depositAmount: 1525000,
+            trackingUrl: TRACKING_URL,
+        },
+        deposit_rejected: {
+            ...customer,
+            proofId: 'preview-proof',
+            rejectionNote: locale === 'vi'
+                ? 'Ảnh chụp bị mờ, không đọc được nội dung chuyển khoản.'
+                : 'The screenshot is blurry and the transfer content is unreadable.',
+            depositDueAt: '2025-01-16T10:30:00.000Z',
+            attemptsRemaining: 2,
+            trackingUrl: TRACKING_URL,
+        },
+        balance_paid: {
+            ...customer,
+            balanceAmount: 1525000,
+            trackingUrl: TRACKING_URL,
+        },
+        staff_invitation: {
+            email: 'staff@example.com',
+            role: 'order_manager',
+            hasAccount: false,
+            signInUrl: 'https://restorethebasic.com/admin/login',
+            signUpUrl: 'https://restorethebasic.com/auth/sign-up',
+        },
+    };
+
+    return fixtures[type];
+}
@@ -0,0 +1,37 @@
+/**
+ * Email templates
+ * Registry of per-type renderers sharing one layout (./layout)
+ */
+
+import type { Locale } from '@/config/locales';
+import { renderBalancePaidEmail } from './balancePaid';
+import { renderChangeRequestEmail } from './changeRequest';
+import { renderChangeRequestReplyEmail } from './changeRequestReply';
+import { renderDepositApprovedEmail } from './depositApproved';
+import { renderDepositRejectedEmail } from './depositRejected';
+import { renderOrderCancellationEmail } from './orderCancellation';
+import { renderOrderConfirmationEmail } from './orderConfirmation';
+import { renderRefundEmail } from './refund';
+import { renderStaffInvitationEmail } from './staffInvitation';
+import { renderStatusUpdateEmail } from './statusUpdate';
+import type { EmailTemplate, EmailTemplateData, EmailType, RenderedEmail } from './types';
+
+export * from './types';
+
+export const EMAIL_TEMPLATES: { [T in EmailType]: EmailTemplate<T> } = {
+    order_confirmation: renderOrderConfirmationEmail,
+    status_update: renderStatusUpdateEmail,
+    refund: renderRefundEmail,
+    order_cancellation: renderOrderCancellationEmail,
+    change_request: renderChangeRequestEmail,
+    change_request_reply: renderChangeRequestReplyEmail,
+    deposit_approved: renderDepositApprovedEmail,
+    deposit_rejected: renderDepositRejectedEmail,
+    balance_paid: renderBalancePaidEmail,
+    staff_invitation: renderStaffInvitationEmail,
+};
+
+export function renderEmail<T extends EmailType>(type: T, locale: Locale, data: EmailTemplateData[T]): RenderedEmail {
+    const template: EmailTemplate<T> = EMAIL_TEMPLATES[type];
+    return template(locale, data);
+}
@@ -0,0 +1,224 @@
+/**
+ * Shared email layout and building blocks
+ *
+ * Table-based markup with inline styles for email clients. Blocks take
+ * HTML fragments; interpolate user data through escapeHtml().
+ */
+
+import type { Locale } from '@/config/locales';
+
+const COLORS = {
+    ink: '#0a0a0a',
+    brass: '#d4a574',
+    success: '#6b9b6e',
+    warning: '#c9a05f',
+    text: '#333',
+    muted: '#666',
+    faint: '#999',
+    line: '#e5e5e5',
+    page: '#f5f5f5',
+    panel: '#f9f9f9',
+    cream: '#fff8f0',
+    mint: '#f0fff0',
+    track: '#f0f0f0',
+};
+
+const FONT_STACK = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+export type HeaderTone = 'brass' | 'success' | 'warning';
+export type PanelVariant = 'neutral' | 'accent' | 'success' | 'warning';
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+export function formatVnd(amount: number): string {
+    return `${new Intl.NumberFormat('vi-VN').format(amount)} VND`;
+}
+
+export function formatDateTime(value: string, locale: Locale): string {
+    return new Date(value).toLocaleString(locale === 'vi' ? 'vi-VN' : 'en-US', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+        timeZone: 'Asia/Ho_Chi_Minh',
+    });
+}
+
+interface LayoutOptions {
+    title: string;
+    heading: string;
+    tone?: HeaderTone;
+    body: string;
+    footer: string;
+}
+
+/**
+ * Full document: dark header, white card, brand footer
+ */
+export function renderLayout({ title, heading, tone = 'brass', body, footer }: LayoutOptions): string {
+    const headingColor = tone === 'success' ? COLORS.success : tone === 'warning' ? COLORS.warning : COLORS.brass;
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: ${FONT_STACK}; background-color: ${COLORS.page};">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: ${COLORS.page}; padding: 20px;">
+        <tr>
+            <td align="center">
+                <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+                    <!-- Header -->
+                    <tr>
+                        <td style="background-color: ${COLORS.ink}; padding: 30px; text-align: center;">
+                            <h1 style="margin: 0; color: ${headingColor}; font-family: 'Cormorant Garamond', serif; font-size: 28px;">
+                                ${escapeHtml(heading)}
+                            </h1>
+                        </td>
+                    </tr>
+
+                    <!-- Content -->
+                    <tr>
+                        <td style="padding: 30px;">
+${body}
+                        </td>
+                    </tr>
+
+                    <!-- Footer -->
+                    <tr>
+                        <td style="background-color: ${COLORS.ink}; padding: 20px; text-align: center;">
+                            <p style="margin: 0; color: ${COLORS.brass}; font-size: 14px;">
+                                ${escapeHtml(footer)}
+                            </p>
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+    `.trim();
+}
+
+/**
+ * Join blocks, dropping empty ones (for conditional sections)
+ */
+export function blocks(...parts: Array<string | false | null | undefined>): string {
+    return parts.filter(Boolean).join('\n');
+}
+
+export function paragraph(html: string, variant: 'body' | 'muted' | 'fine' = 'body'): string {
+    const style = {
+        body: `margin: 0 0 20px 0; color: ${COLORS.text}; font-size: 16px; line-height: 1.6;`,
+        muted: `margin: 30px 0 0 0; color: ${COLORS.muted}; font-size: 14px; line-height: 1.6;`,
+        fine: `margin: 20px 0 0 0; color: ${COLORS.faint}; font-size: 12px; line-height: 1.6;`,
+    }[variant];
+
+    return `<p style="${style}">${html}</p>`;
+}
+
+export function sectionHeading(html: string): string {
+    return `<h2 style="margin: 30px 0 15px 0; color: ${COLORS.ink}; font-size: 20px; font-weight: 600;">${html}</h2>`;
+}
+
+export function panelTitle(html: string): string {
+    return `<h3 style="margin: 0 0 15px 0; color: ${COLORS.ink}; font-size: 16px; font-weight: 600;">${html}</h3>`;
+}
+
+export function panel(html: string, variant: PanelVariant = 'neutral'): string {
+    const style = {
+        neutral: `background-color: ${COLORS.panel};`,
+        accent: `background-color: ${COLORS.cream}; border-left: 4px solid ${COLORS.brass};`,
+        success: `background-color: ${COLORS.mint}; border: 1px solid ${COLORS.success};`,
+        warning: `background-color: ${COLORS.cream}; border-left: 4px solid ${COLORS.warning};`,
+    }[variant];
+
+    return `<div style="margin: 30px 0; padding: 20px; border-radius: 4px; ${style}">${html}</div>`;
+}
+
+/**
+ * "Label: value" line inside a panel
+ */
+export function detailRow(label: string, valueHtml: string, emphasis: 'none' | 'amount' = 'none'): string {
+    const valueStyle = emphasis === 'amount'
+        ? `color: ${COLORS.brass}; font-size: 18px; font-weight: 600;`
+        : `color: ${COLORS.text}; font-size: 14px;`;
+
+    return `
+<div style="margin: 10px 0;">
+    <span style="color: ${COLORS.muted}; font-size: 14px;">${escapeHtml(label)}:</span>
+    <strong style="${valueStyle} margin-left: 8px;">${valueHtml}</strong>
+</div>`.trim();
+}
+
+/**
+ * Highlighted amount (deposit / balance confirmations)
+ */
+export function amountCallout(label: string, amount: number): string {
+    return panel(
+        `<p style="margin: 0; font-size: 16px;"><strong>${escapeHtml(label)}:</strong> <span style="color: ${COLORS.success}; font-size: 18px; font-weight: 600; margin-left: 8px;">${formatVnd(amount)}</span></p>`,
+        'success'
+    );
+}
+
+export function button(href: string, label: string): string {
+    return `<a href="${escapeHtml(href)}" style="display: inline-block; padding: 12px 24px; background-color: ${COLORS.brass}; color: ${COLORS.ink}; text-decoration: none; border-radius: 4px; font-weight: 600; font-size: 14px;">${escapeHtml(label)}</a>`;
+}
+
+export function centeredButton(href: string, label: string): string {
+    return `<div style="margin: 30px 0; text-align: center;">${button(href, label)}</div>`;
+}
+
+/**
+ * Grey box with a title, the tracking button and an optional note
+ */
+export function trackingBlock(href: string, title: string, label: string, note?: string): string {
+    return `
+<div style="margin: 30px 0; padding: 20px; background-color: ${COLORS.track}; border-radius: 4px; text-align: center;">
+    <p style="margin: 0 0 15px 0; color: ${COLORS.text}; font-size: 14px; font-weight: 600;">${escapeHtml(title)}</p>
+    ${button(href, label)}
+    ${note ? `<p style="margin: 15px 0 0 0; color: ${COLORS.muted}; font-size: 12px;">${escapeHtml(note)}</p>` : ''}
+</div>`.trim();
+}
+
+/**
+ * Two-column rows (order items, totals, bank details)
+ */
+export function tableRow(label: string, valueHtml: string, variant: 'item' | 'plain' | 'subtotal' | 'total' = 'plain'): string {
+    const cell = {
+        item: `padding: 12px; border-bottom: 1px solid ${COLORS.line};`,
+        plain: 'padding: 12px;',
+        subtotal: `padding: 12px; border-top: 2px solid ${COLORS.ink}; font-weight: 600;`,
+        total: `padding: 12px; border-top: 2px solid ${COLORS.brass}; font-weight: 700; font-size: 18px;`,
+    }[variant];
+    const valueColor = variant === 'total' ? ` color: ${COLORS.brass};` : '';
+
+    return `
+<tr>
+    <td style="${cell}">${label}</td>
+    <td style="${cell} text-align: right;${valueColor}">${valueHtml}</td>
+</tr>`.trim();
+}
+
+export function table(rows: string): string {
+    return `<table width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 20px; border-collapse: collapse;">${rows}</table>`;
+}
+
+/**
+ * Plain-text alternative: blocks separated by blank lines, empty ones dropped
+ */
+export function textBody(...parts: Array<string | false | null | undefined>): string {
+    return parts
+        .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+        .map((part) => part.trim())
+        .join('\n\n');
+}
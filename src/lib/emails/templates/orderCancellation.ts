@@ -0,0 +1,52 @@
+import type { Locale } from '@/config/locales';
+import { blocks, detailRow, escapeHtml, panel, paragraph, renderLayout, textBody, trackingBlock } from './layout';
+import { fill, getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * Order cancelled (customer request or admin)
+ */
+export function renderOrderCancellationEmail(
+    locale: Locale,
+    data: EmailTemplateData['order_cancellation']
+): RenderedEmail {
+    const t = getEmailTranslations(locale).orderCancellation || {};
+    const values = { orderCode: data.orderCode, customerName: data.customerName };
+
+    const subject = fill(t.subject || 'Order Cancelled - {orderCode}', values);
+    const greeting = fill(t.greeting || 'Hello {customerName},', values);
+    const message = fill(t.message || 'Your order {orderCode} has been cancelled.', values);
+    const orderCodeLabel = t.orderCode || 'Order Code';
+    const reasonLabel = t.reason || 'Cancellation Reason';
+    const trackOrder = t.trackOrder || 'View Order Details';
+    const support = t.support || 'If you have any questions, please contact us at support@restorethebasic.com';
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'Order Cancelled',
+        footer: t.footerBrand || 'Restore The Basic',
+        body: blocks(
+            paragraph(escapeHtml(greeting)),
+            paragraph(escapeHtml(message)),
+            panel(
+                blocks(
+                    detailRow(orderCodeLabel, escapeHtml(data.orderCode)),
+                    detailRow(reasonLabel, escapeHtml(data.reason))
+                )
+            ),
+            data.trackingUrl && trackingBlock(data.trackingUrl, trackOrder, t.trackButton || 'View Order'),
+            paragraph(escapeHtml(support), 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        greeting,
+        message,
+        `${orderCodeLabel}: ${data.orderCode}\n${reasonLabel}: ${data.reason}`,
+        data.trackingUrl && `${trackOrder}: ${data.trackingUrl}`,
+        support
+    );
+
+    return { subject, html, text };
+}
@@ -0,0 +1,143 @@
+import type { Locale } from '@/config/locales';
+import {
+    blocks,
+    button,
+    escapeHtml,
+    formatVnd,
+    panel,
+    panelTitle,
+    paragraph,
+    renderLayout,
+    sectionHeading,
+    table,
+    tableRow,
+    textBody,
+    trackingBlock,
+} from './layout';
+import { fill, getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * Order confirmation: items, totals, shipping address and payment instructions
+ */
+export function renderOrderConfirmationEmail(
+    locale: Locale,
+    data: EmailTemplateData['order_confirmation']
+): RenderedEmail {
+    const t = getEmailTranslations(locale).orderConfirmation || {};
+    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_VERCEL_URL || 'http://localhost:3000';
+    const values = { orderCode: data.orderCode, customerName: data.customerName };
+
+    const subject = fill(t.subject || 'Order Confirmation - {orderCode}', values);
+    const greeting = fill(t.greeting || 'Hello {customerName},', values);
+    const message = fill(t.message || 'Thank you for your order! Your order {orderCode} has been received.', values);
+
+    const labels = {
+        orderDetails: t.orderDetails || 'Order Details',
+        subtotal: t.subtotal || 'Subtotal',
+        shipping: t.shipping || 'Shipping',
+        tax: t.tax || 'Tax',
+        discount: data.discountCode
+            ? `${t.discount || 'Discount'} (${data.discountCode})`
+            : t.discount || 'Discount',
+        total: t.total || 'Total',
+        shippingAddress: t.shippingAddress || 'Shipping Address',
+        trackOrder: t.trackOrder || 'Track Your Order',
+        trackButton: t.trackButton || 'Track Order',
+        trackNote: t.trackNote || 'Use this link to track your order status anytime.',
+        support: t.support || 'If you have any questions, please contact us.',
+    };
+
+    const isCod = data.paymentMethod === 'cod';
+    const payment = {
+        title: isCod
+            ? t.paymentCod?.title || 'Payment Method: Cash on Delivery (COD)'
+            : t.paymentBank?.title || 'Payment Method: Bank Transfer',
+        message: isCod
+            ? t.paymentCod?.message || 'You will pay when you receive the order.'
+            : t.paymentBank?.message || 'Please transfer the total amount to the following bank account:',
+    };
+
+    const bankRows: Array<[string, string]> = [
+        [t.paymentBank?.bank || 'Bank', process.env.BANK_NAME || 'N/A'],
+        [t.paymentBank?.accountNumber || 'Account Number', process.env.BANK_ACCOUNT_NUMBER || 'N/A'],
+        [t.paymentBank?.accountName || 'Account Name', process.env.BANK_ACCOUNT_NAME || 'N/A'],
+        [t.paymentBank?.amount || 'Amount', formatVnd(data.total)],
+        [t.paymentBank?.content || 'Transfer Content', data.orderCode],
+    ];
+
+    const totalsRows = blocks(
+        ...data.items.map((item) =>
+            tableRow(`${escapeHtml(item.productName)} × ${item.quantity}`, formatVnd(item.subtotal), 'item')
+        ),
+        tableRow(escapeHtml(labels.subtotal), formatVnd(data.subtotal), 'subtotal'),
+        data.shippingFee > 0 && tableRow(escapeHtml(labels.shipping), formatVnd(data.shippingFee)),
+        data.tax > 0 && tableRow(escapeHtml(labels.tax), formatVnd(data.tax)),
+        data.discount > 0 && tableRow(escapeHtml(labels.discount), `-${formatVnd(data.discount)}`),
+        tableRow(escapeHtml(labels.total), formatVnd(data.total), 'total')
+    );
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'Order Confirmation',
+        footer: t.footerBrand || 'Restore The Basic',
+        body: blocks(
+            paragraph(escapeHtml(greeting)),
+            paragraph(escapeHtml(message)),
+            sectionHeading(escapeHtml(labels.orderDetails)),
+            table(totalsRows),
+            panel(
+                panelTitle(escapeHtml(labels.shippingAddress)) +
+                    `<p style="margin: 0; color: #666; font-size: 14px; line-height: 1.6;">${escapeHtml(data.shippingAddress)}</p>`
+            ),
+            panel(
+                blocks(
+                    panelTitle(escapeHtml(payment.title)),
+                    `<p style="margin: 0 0 15px 0; color: #666; font-size: 14px; line-height: 1.6;">${escapeHtml(payment.message)}</p>`,
+                    !isCod &&
+                        `<table style="width: 100%; border-collapse: collapse;">${bankRows
+                            .map(
+                                ([label, value]) =>
+                                    `<tr><td style="padding: 8px 0; color: #666; font-size: 14px;"><strong>${escapeHtml(label)}:</strong></td><td style="padding: 8px 0; color: #333; font-size: 14px;">${escapeHtml(value)}</td></tr>`
+                            )
+                            .join('')}</table>`
+                ),
+                'accent'
+            ),
+            data.trackingUrl && trackingBlock(data.trackingUrl, labels.trackOrder, labels.trackButton, labels.trackNote),
+            panel(
+                `<p style="margin: 0 0 15px 0; color: #333; font-size: 14px; line-height: 1.6; text-align: center;">${escapeHtml(
+                    t.signInPrompt || 'Sign in to view all your orders and track them easily.'
+                )}</p><div style="text-align: center;">${button(`${baseUrl}/auth/sign-in`, t.signInButton || 'Sign In')}</div>`
+            ),
+            paragraph(escapeHtml(labels.support), 'muted'),
+            t.footer && paragraph(escapeHtml(t.footer), 'fine')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        greeting,
+        message,
+        `${labels.orderDetails}:\n${data.items
+            .map((item) => `- ${item.productName} × ${item.quantity}: ${formatVnd(item.subtotal)}`)
+            .join('\n')}`,
+        [
+            `${labels.subtotal}: ${formatVnd(data.subtotal)}`,
+            data.shippingFee > 0 && `${labels.shipping}: ${formatVnd(data.shippingFee)}`,
+            data.tax > 0 && `${labels.tax}: ${formatVnd(data.tax)}`,
+            data.discount > 0 && `${labels.discount}: -${formatVnd(data.discount)}`,
+            `${labels.total}: ${formatVnd(data.total)}`,
+        ]
+            .filter(Boolean)
+            .join('\n'),
+        `${labels.shippingAddress}:\n${data.shippingAddress}`,
+        isCod
+            ? `${payment.title}\n${payment.message}`
+            : `${payment.title}\n${payment.message}\n${bankRows.map(([label, value]) => `${label}: ${value}`).join('\n')}`,
+        data.trackingUrl && `${labels.trackOrder}:\n${data.trackingUrl}`,
+        labels.support
+    );
+
+    return { subject, html, text };
+}
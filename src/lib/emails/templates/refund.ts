@@ -0,0 +1,75 @@
+import type { Locale } from '@/config/locales';
+import { blocks, detailRow, escapeHtml, panel, panelTitle, paragraph, renderLayout, textBody, trackingBlock } from './layout';
+import { fill, getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * VND has no minor unit; other currencies arrive in minor units (Stripe)
+ */
+function formatRefundAmount(amount: number, currency: string): string {
+    if (currency.toLowerCase() === 'vnd') {
+        return `${new Intl.NumberFormat('vi-VN').format(amount)} VND`;
+    }
+    return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: currency.toUpperCase(),
+    }).format(amount / 100);
+}
+
+/**
+ * Refund processed (full or partial)
+ */
+export function renderRefundEmail(locale: Locale, data: EmailTemplateData['refund']): RenderedEmail {
+    const t = getEmailTranslations(locale).refund || {};
+    const variant = data.isPartial ? t.partialRefund : t.fullRefund;
+    const values = { orderCode: data.orderCode, customerName: data.customerName };
+
+    const subject = fill(
+        variant?.subject || (data.isPartial ? 'Partial Refund Processed - Order {orderCode}' : 'Full Refund Processed - Order {orderCode}'),
+        values
+    );
+    const title = variant?.title || (data.isPartial ? 'Partial Refund Processed' : 'Full Refund Processed');
+    const message = fill(
+        variant?.message ||
+            (data.isPartial
+                ? 'A partial refund has been processed for your order {orderCode}.'
+                : 'A full refund has been processed for your order {orderCode}.'),
+        values
+    );
+    const greeting = fill(t.greeting || 'Hello {customerName},', values);
+    const orderCodeLabel = t.orderCode || 'Order Code';
+    const amountLabel = t.refundAmount || 'Refund Amount';
+    const amount = formatRefundAmount(data.refundAmount, data.currency);
+    const trackOrder = t.trackOrder || 'Track Your Order';
+    const support = t.support || 'If you have any questions, please contact us at support@restorethebasic.com';
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'Refund Processed',
+        footer: t.footerBrand || 'Restore The Basic',
+        body: blocks(
+            paragraph(escapeHtml(greeting)),
+            paragraph(escapeHtml(message)),
+            panel(
+                blocks(
+                    panelTitle(escapeHtml(title)),
+                    detailRow(orderCodeLabel, escapeHtml(data.orderCode)),
+                    detailRow(amountLabel, escapeHtml(amount), 'amount')
+                )
+            ),
+            data.trackingUrl && trackingBlock(data.trackingUrl, trackOrder, t.trackButton || 'Track Order'),
+            paragraph(escapeHtml(support), 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        greeting,
+        message,
+        `${title}\n${orderCodeLabel}: ${data.orderCode}\n${amountLabel}: ${amount}`,
+        data.trackingUrl && `${trackOrder}: ${data.trackingUrl}`,
+        support
+    );
+
+    return { subject, html, text };
+}
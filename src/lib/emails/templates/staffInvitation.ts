@@ -0,0 +1,59 @@
+import type { Locale } from '@/config/locales';
+import type { AdminRole } from '@/lib/admin/permissions';
+import { blocks, centeredButton, detailRow, escapeHtml, panel, paragraph, renderLayout, textBody } from './layout';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+    owner: 'Owner',
+    order_manager: 'Order Manager',
+    catalog_editor: 'Catalog Editor',
+    support: 'Support (read-only)',
+};
+
+/**
+ * Staff invitation to the admin (body copy stays in English, like the admin notifications)
+ */
+export function renderStaffInvitationEmail(
+    _locale: Locale,
+    data: EmailTemplateData['staff_invitation']
+): RenderedEmail {
+    const role = ROLE_LABELS[data.role] || data.role;
+
+    const subject = 'You have been invited to the Restore The Basic admin';
+    const intro = `You have been added to the Restore The Basic admin team as ${role}.`;
+    const instructions = data.hasAccount
+        ? 'Sign in to the admin with your existing account to get started.'
+        : `Create an account with ${data.email}, then sign in to the admin. Your access is granted the first time you sign in.`;
+    const outro = 'If you were not expecting this invitation, you can ignore this email.';
+
+    const html = renderLayout({
+        title: subject,
+        heading: 'Admin Invitation',
+        footer: 'Restore The Basic - Admin Notification',
+        body: blocks(
+            paragraph(escapeHtml(intro)),
+            panel(
+                blocks(
+                    detailRow('Email', escapeHtml(data.email)),
+                    detailRow('Role', escapeHtml(role))
+                )
+            ),
+            paragraph(escapeHtml(instructions)),
+            !data.hasAccount && centeredButton(data.signUpUrl, 'Create Account'),
+            centeredButton(data.signInUrl, 'Sign In to Admin'),
+            paragraph(escapeHtml(outro), 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        intro,
+        `Email: ${data.email}\nRole: ${role}`,
+        instructions,
+        !data.hasAccount && `Create account:\n${data.signUpUrl}`,
+        `Sign in:\n${data.signInUrl}`,
+        outro
+    );
+
+    return { subject, html, text };
+}
@@ -0,0 +1,64 @@
+import type { Locale } from '@/config/locales';
+import { blocks, escapeHtml, panel, paragraph, renderLayout, textBody, trackingBlock } from './layout';
+import { fill, getEmailTranslations } from './translations';
+import type { EmailTemplateData, RenderedEmail } from './types';
+
+/**
+ * Order status update with the localized status description and admin note
+ */
+export function renderStatusUpdateEmail(
+    locale: Locale,
+    data: EmailTemplateData['status_update']
+): RenderedEmail {
+    const t = getEmailTranslations(locale).statusUpdate || {};
+    const statusLabels: Record<string, string | undefined> = t.statusLabels || {};
+    const statusDescriptions: Record<string, string | undefined> = t.statusDescriptions || {};
+
+    const status = statusLabels[data.newStatus] || data.newStatus;
+    const description = statusDescriptions[data.newStatus];
+    const values = { orderCode: data.orderCode, customerName: data.customerName, status };
+
+    const subject = fill(t.subject || 'Order {orderCode} - Status Update: {status}', values);
+    const greeting = fill(t.greeting || 'Hello {customerName},', values);
+    const message = fill(t.message || 'Your order {orderCode} status has been updated to: {status}', values);
+    const noteLabel = t.note || 'Note';
+    const trackOrder = t.trackOrder || 'Track Your Order';
+    const support = t.support || 'If you have any questions, please contact us.';
+
+    const html = renderLayout({
+        title: subject,
+        heading: t.header || 'Order Status Update',
+        footer: t.footerBrand || 'Restore The Basic',
+        body: blocks(
+            paragraph(escapeHtml(greeting)),
+            paragraph(escapeHtml(message)),
+            description &&
+                panel(`<p style="margin: 0; color: #666; font-size: 14px; line-height: 1.6;">${escapeHtml(description)}</p>`),
+            data.note &&
+                panel(
+                    `<p style="margin: 0; color: #666; font-size: 14px; line-height: 1.6;"><strong>${escapeHtml(noteLabel)}:</strong> ${escapeHtml(data.note)}</p>`,
+                    'accent'
+                ),
+            data.trackingUrl &&
+                trackingBlock(
+                    data.trackingUrl,
+                    trackOrder,
+                    t.trackButton || 'Track Order',
+                    t.trackNote || 'Use this link to track your order status anytime.'
+                ),
+            paragraph(escapeHtml(support), 'muted')
+        ),
+    });
+
+    const text = textBody(
+        subject,
+        greeting,
+        message,
+        description,
+        data.note && `${noteLabel}: ${data.note}`,
+        data.trackingUrl && `${trackOrder}:\n${data.trackingUrl}`,
+        support
+    );
+
+    return { subject, html, text };
+}
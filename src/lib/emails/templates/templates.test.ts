@@ -0,0 +1,26 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { locales } from '@/config/locales';
+import { getEmailFixture } from './fixtures';
+import { EMAIL_TYPES, renderEmail } from './index';
+
+/**
+ * Snapshots of every email type in every locale, rendered from the preview
+ * fixtures, so layout and copy changes show up in review
+ */
+
+beforeEach(() => {
+    // Templates read these; pin them so snapshots don't depend on the environment
+    vi.stubEnv('NEXT_PUBLIC_SITE_URL', 'https://restorethebasic.com');
+    vi.stubEnv('BANK_NAME', 'Vietcombank');
+    vi.stubEnv('BANK_ACCOUNT_NUMBER', '1234567890123');
+    vi.stubEnv('BANK_ACCOUNT_NAME', 'RESTORE THE BASIC');
+});
+
+describe.each(locales)('email templates (%s)', (locale) => {
+    it.each(EMAIL_TYPES)('renders %s', (type) => {
+        const email = renderEmail(type, locale, getEmailFixture(type, locale));
+
+        expect(email.subject).not.toBe('');
+        expect(email).toMatchSnapshot();
+    });
+});
@@ -0,0 +1,48 @@
+/**
+ * Email copy from messages/{locale}/emails.json
+ * Read from disk on the server (emails are rendered outside next-intl requests).
+ * Every template carries English defaults, so a missing file or key never
+ * breaks rendering.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { Locale } from '@/config/locales';
+import type englishCopy from '../../../../messages/en/emails.json';
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export type EmailTranslations = DeepPartial<typeof englishCopy>;
+
+function readTranslations(locale: Locale): EmailTranslations {
+    const messagesPath = join(process.cwd(), 'messages', locale, 'emails.json');
+    return JSON.parse(readFileSync(messagesPath, 'utf-8'));
+}
+
+/**
+ * Get email translations for a locale (falls back to English, then to template defaults)
+ */
+export function getEmailTranslations(locale: Locale): EmailTranslations {
+    try {
+        return readTranslations(locale);
+    } catch (error) {
+        console.error(`Error loading email translations for locale ${locale}:`, error);
+    }
+
+    if (locale !== 'en') {
+        try {
+            return readTranslations('en');
+        } catch (fallbackError) {
+            console.error('Error loading fallback email translations:', fallbackError);
+        }
+    }
+
+    return {};
+}
+
+/**
+ * Replace {placeholders} in a copy string
+ */
+export function fill(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] : match));
+}
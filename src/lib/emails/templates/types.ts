@@ -0,0 +1,165 @@
+/**
+ * Email template types
+ * One data shape per EmailType; templates render it to subject + HTML + text
+ */
+
+import type { Locale } from '@/config/locales';
+import type { AdminRole } from '@/lib/admin/permissions';
+
+export type EmailType = 'order_confirmation' | 'status_update' | 'refund' | 'order_cancellation' | 'change_request' | 'change_request_reply' | 'deposit_approved' | 'deposit_rejected' | 'balance_paid' | 'staff_invitation';
+
+export const EMAIL_TYPES: EmailType[] = [
+    'order_confirmation',
+    'status_update',
+    'refund',
+    'order_cancellation',
+    'change_request',
+    'change_request_reply',
+    'deposit_approved',
+    'deposit_rejected',
+    'balance_paid',
+    'staff_invitation',
+];
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export interface OrderItem {
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    subtotal: number;
+}
+
+export interface OrderConfirmationPayload {
+    orderCode: string;
+    customerName: string;
+    customerPhone: string;
+    customerEmail: string;
+    shippingAddress: string;
+    items: OrderItem[];
+    subtotal: number;
+    shippingFee: number;
+    tax: number;
+    discount: number;
+    discountCode?: string; // Shown next to the discount label
+    total: number;
+    paymentMethod: 'cod' | 'bank_transfer';
+    locale: Locale;
+    trackingToken?: string; // Optional: tracking token for email link
+    trackingUrl?: string; // Optional: full tracking URL
+}
+
+export interface StatusUpdatePayload {
+    orderCode: string;
+    customerName: string;
+    customerEmail: string;
+    oldStatus: string;
+    newStatus: string;
+    note?: string;
+    locale: Locale;
+    trackingToken?: string; // Optional: tracking token for email link
+    trackingUrl?: string; // Optional: full tracking URL
+}
+
+export interface RefundPayload {
+    orderCode: string;
+    customerName: string;
+    customerEmail: string;
+    refundId: string; // Stripe refund ID (idempotency key)
+    refundAmount: number; // Amount in minor units
+    currency: string;
+    isPartial: boolean;
+    locale: Locale;
+    trackingToken?: string; // Optional: tracking token for email link
+    trackingUrl?: string; // Optional: full tracking URL
+}
+
+export interface OrderCancellationPayload {
+    orderCode: string;
+    customerName: string;
+    customerEmail: string;
+    reason: string;
+    locale: Locale;
+    trackingToken?: string; // Optional: tracking token for email link
+    trackingUrl?: string; // Optional: full tracking URL
+}
+
+export interface ChangeRequestPayload {
+    orderCode: string;
+    customerName: string;
+    customerEmail: string;
+    message: string;
+    category: string;
+    eventId: string; // Change request or follow-up message ID (idempotency key)
+    isFollowUp?: boolean;
+    locale: Locale;
+}
+
+export interface ChangeRequestReplyPayload {
+    orderCode: string;
+    customerName: string;
+    customerEmail: string;
+    messageId: string; // Reply message ID (idempotency key)
+    category: string;
+    status: string;
+    reply: string;
+    locale: Locale;
+    trackingToken?: string; // Optional: tracking token for email link
+    trackingUrl?: string; // Optional: full tracking URL
+}
+
+export interface DepositApprovedPayload {
+    orderCode: string;
+    customerName: string;
+    customerEmail: string;
+    proofId: string;
+    depositAmount: number;
+    locale: Locale;
+}
+
+export interface DepositRejectedPayload {
+    orderCode: string;
+    customerName: string;
+    customerEmail: string;
+    proofId: string;
+    rejectionNote?: string;
+    depositDueAt?: string; // Upload a replacement before this (possibly extended) deadline
+    attemptsRemaining?: number; // 0 when the customer can no longer upload
+    locale: Locale;
+}
+
+export interface BalancePaidPayload {
+    orderCode: string;
+    customerName: string;
+    customerEmail: string;
+    balanceAmount: number;
+    locale: Locale;
+}
+
+/**
+ * What each template receives (send* payloads plus anything resolved at send time)
+ */
+export interface StaffInvitationPayload {
+    email: string;
+    role: AdminRole;
+    hasAccount: boolean; // Existing account: role granted, just sign in
+}
+
+export interface EmailTemplateData {
+    order_confirmation: OrderConfirmationPayload;
+    status_update: StatusUpdatePayload;
+    refund: RefundPayload;
+    order_cancellation: OrderCancellationPayload;
+    change_request: ChangeRequestPayload;
+    change_request_reply: ChangeRequestReplyPayload;
+    deposit_approved: DepositApprovedPayload & { trackingUrl: string };
+    deposit_rejected: DepositRejectedPayload & { trackingUrl: string };
+    balance_paid: BalancePaidPayload & { trackingUrl: string };
+    staff_invitation: StaffInvitationPayload & { signInUrl: string; signUpUrl: string };
+}
+
+export type EmailTemplate<T extends EmailType> = (locale: Locale, data: EmailTemplateData[T]) => RenderedEmail;
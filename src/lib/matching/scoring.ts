@@ -0,0 +1,203 @@
+/**
+ * Speaker Matching Scoring
+ * Pure functions that rank amplifiers against a customer's speakers and room
+ */
+
+import type { ProductCardDTO, Topology } from '@/lib/types/catalog';
+import type {
+    ListeningLevel,
+    MatchingInput,
+    MatchReason,
+    MatchVerdict,
+    RoomSize,
+} from '@/lib/types/matching';
+
+/**
+ * Peak SPL (dB) we aim for at the listening position
+ */
+const TARGET_SPL: Record<ListeningLevel, number> = {
+    low: 82,
+    medium: 90,
+    loud: 98,
+};
+
+/**
+ * Typical listening distance (m) for each room size
+ */
+const LISTENING_DISTANCE: Record<RoomSize, number> = {
+    small: 2,
+    medium: 3,
+    large: 4.5,
+};
+
+// Genres that favour SE low-power clarity vs. PP headroom
+const SE_GENRES = ['jazz', 'vocal', 'acoustic'];
+const PP_GENRES = ['rock', 'pop', 'electronic'];
+
+export const MATCHING_GENRES = ['jazz', 'vocal', 'acoustic', 'classical', 'rock', 'pop', 'electronic'] as const;
+
+/**
+ * Minimal product shape needed for scoring
+ */
+export interface MatchingCandidate {
+    topology: Topology;
+    powerWatts: number;
+    minSpeakerSensitivity?: number | null;
+    taps: string[];
+}
+
+export interface MatchScore {
+    score: number;
+    verdict: MatchVerdict;
+    reasons: MatchReason[];
+}
+
+/**
+ * Estimate amplifier power (W per channel) needed to reach the target SPL
+ * SPL drops 20·log10(d) with distance; a stereo pair adds ~3 dB
+ */
+export function calculateRequiredWatts(input: Pick<MatchingInput, 'speakerSensitivity' | 'roomSize' | 'listeningLevel'>): number {
+    const distanceLoss = 20 * Math.log10(LISTENING_DISTANCE[input.roomSize]);
+    const dbAboveOneWatt = TARGET_SPL[input.listeningLevel] - input.speakerSensitivity + distanceLoss - 3;
+    const watts = Math.pow(10, dbAboveOneWatt / 10);
+
+    return Math.max(0.1, Math.round(watts * 10) / 10);
+}
+
+/**
+ * Decide which topology suits the system better (null = no preference)
+ */
+export function preferredTopology(input: MatchingInput): Topology | null {
+    let se = 0;
+    let pp = 0;
+
+    if (input.speakerSensitivity >= 92) se++;
+    if (input.speakerSensitivity < 89) pp++;
+    if (input.listeningLevel === 'low') se++;
+    if (input.listeningLevel === 'loud') pp++;
+
+    for (const genre of input.genres) {
+        if (SE_GENRES.includes(genre)) se++;
+        if (PP_GENRES.includes(genre)) pp++;
+    }
+
+    if (se > pp) return 'se';
+    if (pp > se) return 'pp';
+    return null;
+}
+
+/**
+ * Parse speaker tap labels like '4Ω', '8 ohm', '16' into numbers
+ */
+export function parseTapImpedances(taps: string[]): number[] {
+    return taps
+        .map((tap) => parseInt(tap, 10))
+        .filter((value) => !Number.isNaN(value));
+}
+
+/**
+ * Score a single product (0-100) and explain why
+ *
+ * Weights: power 40, sensitivity 20, output taps 20, topology 20
+ */
+export function scoreProduct(
+    product: MatchingCandidate,
+    input: MatchingInput,
+    requiredWatts: number = calculateRequiredWatts(input)
+): MatchScore {
+    const reasons: MatchReason[] = [];
+    let score = 0;
+
+    // Power headroom
+    const ratio = product.powerWatts / requiredWatts;
+    const powerValues = { watts: product.powerWatts, required: requiredWatts };
+    let powerInsufficient = false;
+
+    if (ratio >= 2) {
+        score += 40;
+        reasons.push({ key: 'powerHeadroom', values: powerValues });
+    } else if (ratio >= 1) {
+        score += 32;
+        reasons.push({ key: 'powerEnough', values: powerValues });
+    } else if (ratio >= 0.6) {
+        score += 15;
+        reasons.push({ key: 'powerMarginal', values: powerValues });
+    } else {
+        powerInsufficient = true;
+        reasons.push({ key: 'powerInsufficient', values: powerValues });
+    }
+
+    // Manufacturer's minimum speaker sensitivity
+    let sensitivityBelowMin = false;
+    if (product.minSpeakerSensitivity) {
+        if (input.speakerSensitivity >= product.minSpeakerSensitivity) {
+            score += 20;
+            reasons.push({ key: 'sensitivityOk', values: { min: product.minSpeakerSensitivity } });
+        } else {
+            sensitivityBelowMin = true;
+            reasons.push({ key: 'sensitivityBelowMin', values: { min: product.minSpeakerSensitivity } });
+        }
+    } else {
+        score += 10;
+    }
+
+    // Output transformer taps
+    let tapMismatch = false;
+    const tapImpedances = parseTapImpedances(product.taps);
+    if (tapImpedances.length === 0) {
+        score += 10;
+    } else if (tapImpedances.includes(input.speakerImpedance)) {
+        score += 20;
+        reasons.push({ key: 'tapMatch', values: { impedance: input.speakerImpedance } });
+    } else {
+        tapMismatch = true;
+        reasons.push({
+            key: 'tapMismatch',
+            values: { impedance: input.speakerImpedance, taps: product.taps.join(', ') },
+        });
+    }
+
+    // Topology preference
+    const preferred = preferredTopology(input);
+    if (preferred === null) {
+        score += 15;
+    } else if (preferred === product.topology) {
+        score += 20;
+        reasons.push({ key: product.topology === 'se' ? 'topologySe' : 'topologyPp' });
+    } else {
+        score += 10;
+    }
+
+    let verdict: MatchVerdict;
+    if (powerInsufficient) {
+        verdict = 'notRecommended';
+    } else if (score >= 70 && !sensitivityBelowMin && !tapMismatch) {
+        verdict = 'fit';
+    } else {
+        verdict = 'consider';
+    }
+
+    return { score, verdict, reasons };
+}
+
+/**
+ * Rank products by score, dropping those without enough power
+ */
+export function rankProducts<T extends { card: ProductCardDTO; candidate: MatchingCandidate }>(
+    products: T[],
+    input: MatchingInput,
+    limit: number = 6
+): Array<T & MatchScore> {
+    const requiredWatts = calculateRequiredWatts(input);
+
+    return products
+        .map((product) => ({ ...product, ...scoreProduct(product.candidate, input, requiredWatts) }))
+        .filter((product) => product.verdict !== 'notRecommended')
+        .sort((a, b) => {
+            if (b.score !== a.score) return b.score - a.score;
+            // Prefer in-stock units, then the cheaper option
+            if (a.card.isInStock !== b.card.isInStock) return a.card.isInStock ? -1 : 1;
+            return a.card.priceVnd - b.card.priceVnd;
+        })
+        .slice(0, limit);
+}
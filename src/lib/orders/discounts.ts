@@ -0,0 +1,135 @@
+/**
+ * Discount code rules
+ * Decides whether a code applies to a cart and how much it takes off each
+ * line. Pure and client-safe: the cart preview (/api/discounts/validate) and
+ * POST /api/orders evaluate codes with the same function; usage limits are
+ * enforced again inside create_order_with_items (CREATE_DISCOUNT_CODES.sql).
+ */
+
+export type DiscountType = 'percent' | 'fixed';
+export type DiscountScope = 'order' | 'products' | 'tube_types';
+
+export const DISCOUNT_TYPES: DiscountType[] = ['percent', 'fixed'];
+export const DISCOUNT_SCOPES: DiscountScope[] = ['order', 'products', 'tube_types'];
+
+export interface DiscountCode {
+    id: string;
+    code: string;
+    description?: string;
+    discountType: DiscountType;
+    value: number; // Percent (0-100] or VND amount
+    maxDiscount?: number; // Cap for percent codes
+    minOrderAmount: number;
+    scope: DiscountScope;
+    productIds: string[];
+    tubeTypes: string[];
+    usageLimit?: number;
+    perCustomerLimit?: number;
+    startsAt?: string;
+    expiresAt?: string;
+    isActive: boolean;
+}
+
+export interface DiscountLine {
+    productId: string;
+    tubeType?: string;
+    unitPrice: number;
+    quantity: number;
+}
+
+export type DiscountRejection =
+    | 'not_found'
+    | 'inactive'
+    | 'not_started'
+    | 'expired'
+    | 'usage_limit'
+    | 'customer_limit'
+    | 'min_order'
+    | 'not_applicable'; // No cart line is in the code's scope
+
+export interface AppliedDiscount {
+    code: string;
+    amount: number;
+    lines: Array<{ productId: string; discount: number }>; // Share of the discount per cart line
+}
+
+export type DiscountEvaluation =
+    | { ok: true; discount: AppliedDiscount }
+    | { ok: false; reason: DiscountRejection };
+
+/**
+ * Canonical form of a code as typed by a customer ("summer 10" -> "SUMMER10")
+ */
+export function normalizeDiscountCode(code: string): string {
+    return code.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+function isLineInScope(code: DiscountCode, line: DiscountLine): boolean {
+    switch (code.scope) {
+        case 'products':
+            return code.productIds.includes(line.productId);
+        case 'tube_types':
+            return Boolean(line.tubeType) &&
+                code.tubeTypes.some((type) => type.toLowerCase() === line.tubeType!.toLowerCase());
+        default:
+            return true;
+    }
+}
+
+/**
+ * Evaluate a code against cart lines
+ * usage: redemptions so far (and for this customer's phone, when known)
+ */
+export function evaluateDiscount(
+    code: DiscountCode,
+    lines: DiscountLine[],
+    usage: { total: number; customer?: number },
+    now: Date = new Date()
+): DiscountEvaluation {
+    if (!code.isActive) {
+        return { ok: false, reason: 'inactive' };
+    }
+    if (code.startsAt && new Date(code.startsAt) > now) {
+        return { ok: false, reason: 'not_started' };
+    }
+    if (code.expiresAt && new Date(code.expiresAt) <= now) {
+        return { ok: false, reason: 'expired' };
+    }
+    if (code.usageLimit !== undefined && usage.total >= code.usageLimit) {
+        return { ok: false, reason: 'usage_limit' };
+    }
+    if (code.perCustomerLimit !== undefined && usage.customer !== undefined && usage.customer >= code.perCustomerLimit) {
+        return { ok: false, reason: 'customer_limit' };
+    }
+
+    const orderSubtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+    if (orderSubtotal < code.minOrderAmount) {
+        return { ok: false, reason: 'min_order' };
+    }
+
+    const eligible = lines.filter((line) => isLineInScope(code, line) && line.unitPrice * line.quantity > 0);
+    const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+    if (eligibleSubtotal <= 0) {
+        return { ok: false, reason: 'not_applicable' };
+    }
+
+    let amount = code.discountType === 'percent'
+        ? Math.round((eligibleSubtotal * code.value) / 100)
+        : Math.round(code.value);
+    if (code.discountType === 'percent' && code.maxDiscount !== undefined) {
+        amount = Math.min(amount, Math.round(code.maxDiscount));
+    }
+    amount = Math.min(amount, eligibleSubtotal);
+
+    // Split across eligible lines by value; the last line takes the rounding remainder
+    let allocated = 0;
+    const discountLines = eligible.map((line, index) => {
+        const share = index === eligible.length - 1
+            ? amount - allocated
+            : Math.round((amount * line.unitPrice * line.quantity) / eligibleSubtotal);
+        allocated += share;
+        return { productId: line.productId, discount: share };
+    });
+
+    return { ok: true, discount: { code: code.code, amount, lines: discountLines } };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { OrderPayment, OrderRefund } from '@/lib/repositories/admin/payments';
+import { allocateRefund, getPaidTotal, getRefundablePayments } from './refunds';
+
+function payment(id: string, overrides: Partial<OrderPayment> = {}): OrderPayment {
+    return {
+        id,
+        kind: 'charge',
+        provider: 'stripe',
+        amount: 1000000,
+        currency: 'vnd',
+        status: 'succeeded',
+        externalPaymentId: `pi_${id}`,
+        createdAt: '2026-01-01T00:00:00Z',
+        ...overrides,
+    };
+}
+
+function refund(amount: number, overrides: Partial<OrderRefund> = {}): OrderRefund {
+    return {
+        id: `refund-${amount}`,
+        provider: 'stripe',
+        amount,
+        currency: 'vnd',
+        status: 'succeeded',
+        restock: false,
+        createdAt: '2026-01-03T00:00:00Z',
+        ...overrides,
+    };
+}
+
+// Deposit reservation paid by card: 2.000.000 deposit, then 8.000.000 balance
+const deposit = payment('deposit', { kind: 'deposit', amount: 2000000, createdAt: '2026-01-01T00:00:00Z' });
+const balance = payment('balance', { kind: 'balance', amount: 8000000, createdAt: '2026-01-02T00:00:00Z' });
+
+describe('getPaidTotal', () => {
+    it('sums settled payments of every provider', () => {
+        expect(
+            getPaidTotal([
+                deposit,
+                payment('transfer', { provider: 'bank_transfer', amount: 8000000 }),
+                payment('failed', { status: 'failed' }),
+            ])
+        ).toBe(10000000);
+    });
+});
+
+describe('getRefundablePayments', () => {
+    it('returns deposit and balance, newest first', () => {
+        expect(getRefundablePayments([deposit, balance], [])).toEqual([
+            { payment: balance, refundable: 8000000 },
+            { payment: deposit, refundable: 2000000 },
+        ]);
+    });
+
+    it('only refunds settled Stripe payments', () => {
+        const payments = [
+            deposit,
+            payment('transfer', { provider: 'bank_transfer' }),
+            payment('pending', { status: 'pending' }),
+        ];
+
+        expect(getRefundablePayments(payments, [])).toEqual([{ payment: deposit, refundable: 2000000 }]);
+    });
+
+    it('subtracts active refunds from the payment they were issued against', () => {
+        const refunds = [
+            refund(3000000, { paymentId: 'balance' }),
+            refund(500000, { paymentId: 'deposit', status: 'pending' }),
+            refund(2000000, { paymentId: 'deposit', status: 'failed' }),
+        ];
+
+        expect(getRefundablePayments([deposit, balance], refunds)).toEqual([
+            { payment: balance, refundable: 5000000 },
+            { payment: deposit, refundable: 1500000 },
+        ]);
+    });
+
+    it('counts refunds without a payment against the newest payments', () => {
+        expect(getRefundablePayments([deposit, balance], [refund(9000000)])).toEqual([
+            { payment: deposit, refundable: 1000000 },
+        ]);
+    });
+});
+
+describe('allocateRefund', () => {
+    const refundable = getRefundablePayments([deposit, balance], []);
+
+    it('refunds the whole order across balance and deposit', () => {
+        expect(allocateRefund(refundable, 10000000)).toEqual([
+            { payment: balance, amount: 8000000 },
+            { payment: deposit, amount: 2000000 },
+        ]);
+    });
+
+    it('takes a partial refund from the balance first', () => {
+        expect(allocateRefund(refundable, 3000000)).toEqual([{ payment: balance, amount: 3000000 }]);
+    });
+
+    it('never allocates more than can be refunded', () => {
+        const allocations = allocateRefund(refundable, 12000000);
+
+        expect(allocations.reduce((sum, allocation) => sum + allocation.amount, 0)).toBe(10000000);
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Refund allocation
+ *
+ * How much of an order's payments can still be refunded, per payment, and
+ * how a refund is split across them. A deposit reservation paid by card has
+ * two Stripe payments (deposit + balance); each refund has to be issued
+ * against the payment intent that took the money.
+ *
+ * Pure and client-safe: the refund route uses it to issue refunds and the
+ * admin order page to show the refundable amount.
+ */
+
+import type { OrderPayment, OrderRefund } from '@/lib/repositories/admin/payments';
+
+export interface RefundablePayment {
+    payment: OrderPayment;
+    refundable: number; // Amount minus refunds issued against it (pending ones included)
+}
+
+export interface RefundAllocation {
+    payment: OrderPayment;
+    amount: number;
+}
+
+// Refunds that took (or may still take) money back from a payment
+const ACTIVE_REFUND_STATUSES: readonly OrderRefund['status'][] = ['pending', 'requires_action', 'succeeded'];
+
+/**
+ * Total of an order's settled payments (all providers)
+ */
+export function getPaidTotal(payments: OrderPayment[]): number {
+    return payments
+        .filter((payment) => payment.status === 'succeeded')
+        .reduce((sum, payment) => sum + payment.amount, 0);
+}
+
+/**
+ * Settled Stripe payments with the amount each can still refund, newest first
+ * Refunds recorded without a payment (older ledger rows) count against the
+ * newest payments first, which is where refunds used to be issued.
+ */
+export function getRefundablePayments(payments: OrderPayment[], refunds: OrderRefund[]): RefundablePayment[] {
+    const refundable = payments
+        .filter((payment) => payment.provider === 'stripe' && payment.status === 'succeeded')
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .map((payment) => ({ payment, refundable: payment.amount }));
+
+    const activeRefunds = refunds.filter(
+        (refund) => refund.provider === 'stripe' && ACTIVE_REFUND_STATUSES.includes(refund.status)
+    );
+
+    let unattributed = 0;
+    for (const refund of activeRefunds) {
+        const entry = refund.paymentId
+            ? refundable.find((candidate) => candidate.payment.id === refund.paymentId)
+            : undefined;
+        if (entry) {
+            entry.refundable -= refund.amount;
+        } else {
+            unattributed += refund.amount;
+        }
+    }
+
+    for (const entry of refundable) {
+        const taken = Math.min(Math.max(entry.refundable, 0), unattributed);
+        entry.refundable -= taken;
+        unattributed -= taken;
+    }
+
+    return refundable
+        .map((entry) => ({ ...entry, refundable: Math.max(entry.refundable, 0) }))
+        .filter((entry) => entry.refundable > 0);
+}
+
+/**
+ * Split a refund across payments, newest first (a balance before its deposit)
+ * Refunds at most what the payments can still refund.
+ */
+export function allocateRefund(refundable: RefundablePayment[], amount: number): RefundAllocation[] {
+    const allocations: RefundAllocation[] = [];
+    let remaining = amount;
+
+    for (const entry of refundable) {
+        if (remaining <= 0) break;
+
+        const allocated = Math.min(entry.refundable, remaining);
+        allocations.push({ payment: entry.payment, amount: allocated });
+        remaining -= allocated;
+    }
+
+    return allocations;
+}
@@ -0,0 +1,260 @@
+import { describe, expect, it } from 'vitest';
+import {
+    canTransitionOrderStatus,
+    canTransitionPaymentStatus,
+    getNextOrderStatuses,
+    isOrderStatus,
+    isPaymentStatus,
+    ORDER_STATUSES,
+    ORDER_STATUS_TRANSITIONS,
+    PAYMENT_STATUSES,
+    PAYMENT_STATUS_TRANSITIONS,
+    planOrderTransition,
+    type OrderStateSnapshot,
+    type OrderStatus,
+    type PaymentStatus,
+} from './state-machine';
+
+/**
+ * Expected transition tables, written out independently of the module so a
+ * change to ORDER_STATUS_TRANSITIONS / PAYMENT_STATUS_TRANSITIONS (and the
+ * matching database trigger) has to be made on purpose
+ */
+const EXPECTED_ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['confirmed', 'deposited', 'cancelled', 'expired'],
+    confirmed: ['deposited', 'processing', 'cancelled', 'expired'],
+    deposited: ['processing', 'cancelled'],
+    processing: ['shipped', 'cancelled'],
+    shipped: ['delivered', 'cancelled'],
+    delivered: ['refunded'],
+    cancelled: [],
+    refunded: [],
+    expired: [],
+};
+
+const EXPECTED_PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+    pending: ['paid', 'failed'],
+    deposit_pending: ['deposited', 'failed'],
+    deposited: ['paid', 'refund_pending', 'partially_refunded', 'refunded'],
+    paid: ['refund_pending', 'partially_refunded', 'refunded'],
+    failed: ['pending', 'deposit_pending', 'deposited', 'paid'],
+    refund_pending: ['deposited', 'paid', 'partially_refunded', 'refunded'],
+    partially_refunded: ['refund_pending', 'refunded'],
+    refunded: [],
+};
+
+const ORDER_PAIRS = ORDER_STATUSES.flatMap((from) => ORDER_STATUSES.map((to) => [from, to] as const));
+const PAYMENT_PAIRS = PAYMENT_STATUSES.flatMap((from) => PAYMENT_STATUSES.map((to) => [from, to] as const));
+
+function snapshot(
+    status: OrderStatus,
+    paymentStatus: PaymentStatus,
+    orderType: string | null = 'standard'
+): OrderStateSnapshot {
+    return { status, paymentStatus, orderType };
+}
+
+describe('transition tables', () => {
+    it('cover every status', () => {
+        expect(Object.keys(ORDER_STATUS_TRANSITIONS).sort()).toEqual([...ORDER_STATUSES].sort());
+        expect(Object.keys(PAYMENT_STATUS_TRANSITIONS).sort()).toEqual([...PAYMENT_STATUSES].sort());
+    });
+
+    it.each(ORDER_PAIRS)('order status %s → %s', (from, to) => {
+        expect(canTransitionOrderStatus(from, to)).toBe(EXPECTED_ORDER_TRANSITIONS[from].includes(to));
+    });
+
+    it.each(PAYMENT_PAIRS)('payment status %s → %s', (from, to) => {
+        expect(canTransitionPaymentStatus(from, to)).toBe(EXPECTED_PAYMENT_TRANSITIONS[from].includes(to));
+    });
+
+    it('has no self transitions', () => {
+        for (const status of ORDER_STATUSES) expect(canTransitionOrderStatus(status, status)).toBe(false);
+        for (const status of PAYMENT_STATUSES) expect(canTransitionPaymentStatus(status, status)).toBe(false);
+    });
+});
+
+describe('type guards', () => {
+    it.each(ORDER_STATUSES)('accepts order status %s', (status) => {
+        expect(isOrderStatus(status)).toBe(true);
+    });
+
+    it.each(PAYMENT_STATUSES)('accepts payment status %s', (status) => {
+        expect(isPaymentStatus(status)).toBe(true);
+    });
+
+    it.each(['', 'PENDING', 'paid ', 'unknown'])('rejects %j', (value) => {
+        expect(isOrderStatus(value)).toBe(false);
+        expect(isPaymentStatus(value)).toBe(false);
+    });
+});
+
+describe('planOrderTransition', () => {
+    it.each(ORDER_PAIRS.filter(([from, to]) => from !== to && !EXPECTED_ORDER_TRANSITIONS[from].includes(to)))(
+        'rejects order status %s → %s',
+        (from, to) => {
+            expect(() => planOrderTransition(snapshot(from, 'paid', 'deposit_reservation'), { status: to })).toThrow(
+                `Invalid status transition from ${from} to ${to}`
+            );
+        }
+    );
+
+    it.each(PAYMENT_PAIRS.filter(([from, to]) => from !== to && !EXPECTED_PAYMENT_TRANSITIONS[from].includes(to)))(
+        'rejects payment status %s → %s',
+        (from, to) => {
+            expect(() =>
+                planOrderTransition(snapshot('pending', from, 'deposit_reservation'), { paymentStatus: to })
+            ).toThrow(`Invalid payment status transition from ${from} to ${to}`);
+        }
+    );
+
+    it('treats requesting the current values as a no-op', () => {
+        const plan = planOrderTransition(snapshot('confirmed', 'paid'), { status: 'confirmed', paymentStatus: 'paid' });
+
+        expect(plan).toMatchObject({
+            statusChanged: false,
+            paymentStatusChanged: false,
+            timestamps: [],
+            restoreStock: false,
+            emails: [],
+        });
+    });
+
+    it.each([
+        // [guard, order, request, error]
+        [
+            'deposit statuses need a reservation',
+            snapshot('pending', 'failed'),
+            { paymentStatus: 'deposit_pending' as const },
+            'Order is not a deposit reservation',
+        ],
+        [
+            'deposited order status needs a reservation',
+            snapshot('pending', 'paid'),
+            { status: 'deposited' as const },
+            'Order is not a deposit reservation',
+        ],
+        [
+            'deposited order status needs the deposit',
+            snapshot('pending', 'deposit_pending', 'deposit_reservation'),
+            { status: 'deposited' as const },
+            'Deposit must be received before the order is marked as deposited',
+        ],
+        [
+            'only reservations expire',
+            snapshot('pending', 'pending'),
+            { status: 'expired' as const },
+            'Only deposit reservations can expire',
+        ],
+        [
+            'reservations expire only before the deposit',
+            snapshot('confirmed', 'deposited', 'deposit_reservation'),
+            { status: 'expired' as const },
+            'Reservations can only expire before the deposit is received',
+        ],
+        [
+            'no fulfilment on a failed payment',
+            snapshot('confirmed', 'failed'),
+            { status: 'processing' as const },
+            'Cannot move an order to processing while payment is failed',
+        ],
+        [
+            'no fulfilment while a refund is pending',
+            snapshot('processing', 'refund_pending'),
+            { status: 'shipped' as const },
+            'Cannot move an order to shipped while payment is refund_pending',
+        ],
+        [
+            'refunded order needs a refunded payment',
+            snapshot('delivered', 'partially_refunded'),
+            { status: 'refunded' as const },
+            'Order can only be marked as refunded once the payment is refunded',
+        ],
+    ])('guard: %s', (_guard, order, request, error) => {
+        expect(() => planOrderTransition(order, request)).toThrow(error);
+    });
+
+    it('checks guards against the resulting payment status', () => {
+        const plan = planOrderTransition(snapshot('pending', 'deposit_pending', 'deposit_reservation'), {
+            status: 'deposited',
+            paymentStatus: 'deposited',
+        });
+
+        expect(plan.to).toEqual({ status: 'deposited', paymentStatus: 'deposited' });
+        expect(plan.timestamps).toEqual(['deposit_received_at']);
+    });
+
+    it('lets an unpaid reservation expire after a failed payment', () => {
+        const plan = planOrderTransition(snapshot('pending', 'failed', 'deposit_reservation'), { status: 'expired' });
+
+        expect(plan.restoreStock).toBe(true);
+    });
+
+    it.each([
+        ['confirmed', 'confirmed_at', true],
+        ['cancelled', 'cancelled_at', true],
+        ['expired', null, false],
+    ] as const)('pending → %s sets %s and emails: %s', (to, timestamp, email) => {
+        const plan = planOrderTransition(snapshot('pending', 'deposit_pending', 'deposit_reservation'), { status: to });
+
+        expect(plan.timestamps).toEqual(timestamp ? [timestamp] : []);
+        expect(plan.emails).toEqual(email ? ['status_update'] : []);
+    });
+
+    it.each([
+        ['shipped', 'shipped_at'],
+        ['delivered', 'delivered_at'],
+    ] as const)('sets the %s timestamp and emails the customer', (to, timestamp) => {
+        const from = to === 'shipped' ? 'processing' : 'shipped';
+        const plan = planOrderTransition(snapshot(from, 'paid'), { status: to });
+
+        expect(plan.timestamps).toEqual([timestamp]);
+        expect(plan.emails).toEqual(['status_update']);
+    });
+
+    it('does not email for processing', () => {
+        expect(planOrderTransition(snapshot('confirmed', 'paid'), { status: 'processing' }).emails).toEqual([]);
+    });
+
+    it('sends the balance paid email when a deposit is settled', () => {
+        const plan = planOrderTransition(snapshot('deposited', 'deposited', 'deposit_reservation'), {
+            paymentStatus: 'paid',
+        });
+
+        expect(plan.emails).toEqual(['balance_paid']);
+    });
+
+    it.each(ORDER_PAIRS.filter(([from, to]) => EXPECTED_ORDER_TRANSITIONS[from].includes(to)))(
+        'restores stock for %s → %s only when the order is cancelled or expires',
+        (from, to) => {
+            const paymentStatus: PaymentStatus = to === 'refunded' ? 'refunded' : to === 'expired' ? 'deposit_pending' : 'paid';
+            const plan = planOrderTransition(snapshot(from, paymentStatus, 'deposit_reservation'), { status: to });
+
+            expect(plan.restoreStock).toBe(to === 'cancelled' || to === 'expired');
+        }
+    );
+
+    it.each(PAYMENT_PAIRS.filter(([from, to]) => EXPECTED_PAYMENT_TRANSITIONS[from].includes(to)))(
+        'keeps stock reserved on payment status %s → %s',
+        (from, to) => {
+            const plan = planOrderTransition(snapshot('pending', from, 'deposit_reservation'), { paymentStatus: to });
+
+            expect(plan.restoreStock).toBe(false);
+        }
+    );
+});
+
+describe('getNextOrderStatuses', () => {
+    it.each([
+        [snapshot('pending', 'pending'), ['confirmed', 'cancelled']],
+        [snapshot('pending', 'deposit_pending', 'deposit_reservation'), ['confirmed', 'cancelled', 'expired']],
+        [snapshot('pending', 'deposited', 'deposit_reservation'), ['confirmed', 'deposited', 'cancelled']],
+        [snapshot('confirmed', 'failed'), ['cancelled']],
+        [snapshot('confirmed', 'paid'), ['processing', 'cancelled']],
+        [snapshot('delivered', 'paid'), []],
+        [snapshot('delivered', 'refunded'), ['refunded']],
+        [snapshot('cancelled', 'refunded'), []],
+    ] as const)('%o → %o', (order, expected) => {
+        expect(getNextOrderStatuses(order)).toEqual(expected);
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * Order State Machine
+ *
+ * Single source of truth for which order status / payment status changes are
+ * allowed, the guards each change must pass and the side effects it triggers
+ * (timestamps, stock release, customer emails).
+ *
+ * Pure and client-safe: the admin UI uses it to offer only valid statuses,
+ * and transitionOrder (src/lib/repositories/orders/transitions.ts) executes
+ * the plans it returns. The same tables are enforced in the database by
+ * supabase/ENFORCE_ORDER_STATUS_TRANSITIONS.sql - keep the two in sync.
+ */
+
+export const ORDER_STATUSES = [
+    'pending',
+    'confirmed',
+    'deposited',
+    'processing',
+    'shipped',
+    'delivered',
+    'cancelled',
+    'refunded',
+    'expired',
+] as const;
+
+export const PAYMENT_STATUSES = [
+    'pending',
+    'deposit_pending',
+    'deposited',
+    'paid',
+    'failed',
+    'refund_pending',
+    'partially_refunded',
+    'refunded',
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+/**
+ * Allowed order status transitions
+ * - pending → confirmed → processing → shipped → delivered
+ * - deposit reservations: pending/confirmed → deposited → processing
+ * - anything before delivery → cancelled
+ * - unpaid reservations → expired
+ * - delivered → refunded
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+    pending: ['confirmed', 'deposited', 'cancelled', 'expired'],
+    confirmed: ['deposited', 'processing', 'cancelled', 'expired'],
+    deposited: ['processing', 'cancelled'],
+    processing: ['shipped', 'cancelled'],
+    shipped: ['delivered', 'cancelled'],
+    delivered: ['refunded'],
+    cancelled: [], // Terminal state
+    refunded: [], // Terminal state
+    expired: [], // Terminal state
+};
+
+/**
+ * Allowed payment status transitions
+ * - failed payments can be retried (back to pending) or settled late, so a
+ *   failed payment keeps the order's stock reserved
+ * - refund_pending falls back to the settled status if the refund fails
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+    pending: ['paid', 'failed'],
+    deposit_pending: ['deposited', 'failed'],
+    deposited: ['paid', 'refund_pending', 'partially_refunded', 'refunded'],
+    paid: ['refund_pending', 'partially_refunded', 'refunded'],
+    failed: ['pending', 'deposit_pending', 'deposited', 'paid'],
+    refund_pending: ['deposited', 'paid', 'partially_refunded', 'refunded'],
+    partially_refunded: ['refund_pending', 'refunded'],
+    refunded: [], // Terminal state
+};
+
+// Statuses that trigger a status_update email
+export const NOTIFY_ORDER_STATUSES: readonly OrderStatus[] = ['confirmed', 'shipped', 'delivered', 'cancelled'];
+
+// Timestamp columns set when an order enters a status / payment status
+const ORDER_STATUS_TIMESTAMPS: Partial<Record<OrderStatus, OrderTimestampColumn>> = {
+    confirmed: 'confirmed_at',
+    shipped: 'shipped_at',
+    delivered: 'delivered_at',
+    cancelled: 'cancelled_at',
+};
+
+const PAYMENT_STATUS_TIMESTAMPS: Partial<Record<PaymentStatus, OrderTimestampColumn>> = {
+    deposited: 'deposit_received_at',
+};
+
+// Statuses that release the order's reserved stock (a failed payment doesn't:
+// it can still be retried or settled, and nothing would reserve the units again)
+const STOCK_RELEASE_STATUSES: readonly OrderStatus[] = ['cancelled', 'expired'];
+
+// Fulfilment can't start or continue on a payment that failed or is being returned
+const FULFILMENT_STATUSES: readonly OrderStatus[] = ['processing', 'shipped', 'delivered'];
+const UNSETTLED_PAYMENT_STATUSES: readonly PaymentStatus[] = ['failed', 'refund_pending', 'refunded'];
+
+export type OrderTimestampColumn =
+    | 'confirmed_at'
+    | 'shipped_at'
+    | 'delivered_at'
+    | 'cancelled_at'
+    | 'deposit_received_at';
+
+export type OrderTransitionEmail = 'status_update' | 'balance_paid';
+
+/**
+ * Order fields the state machine needs
+ */
+export interface OrderStateSnapshot {
+    status: OrderStatus;
+    paymentStatus: PaymentStatus;
+    orderType: string | null;
+}
+
+/**
+ * Requested change (omit a field to leave it as is)
+ */
+export interface OrderTransitionRequest {
+    status?: OrderStatus;
+    paymentStatus?: PaymentStatus;
+}
+
+/**
+ * What a transition changes and which side effects it triggers
+ */
+export interface OrderTransitionPlan {
+    from: { status: OrderStatus; paymentStatus: PaymentStatus };
+    to: { status: OrderStatus; paymentStatus: PaymentStatus };
+    statusChanged: boolean;
+    paymentStatusChanged: boolean;
+    timestamps: OrderTimestampColumn[];
+    restoreStock: boolean;
+    emails: OrderTransitionEmail[];
+}
+
+export function isOrderStatus(value: string): value is OrderStatus {
+    return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function isPaymentStatus(value: string): value is PaymentStatus {
+    return (PAYMENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function canTransitionPaymentStatus(from: PaymentStatus, to: PaymentStatus): boolean {
+    return PAYMENT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Check the business rules for the resulting state
+ * Returns the reason the change is not allowed, or null
+ */
+function checkGuards(
+    order: OrderStateSnapshot,
+    to: { status: OrderStatus; paymentStatus: PaymentStatus },
+    statusChanged: boolean,
+    paymentStatusChanged: boolean
+): string | null {
+    const isReservation = order.orderType === 'deposit_reservation';
+
+    if (paymentStatusChanged && !isReservation && (to.paymentStatus === 'deposit_pending' || to.paymentStatus === 'deposited')) {
+        return 'Order is not a deposit reservation';
+    }
+
+    if (!statusChanged) {
+        return null;
+    }
+
+    if (to.status === 'deposited') {
+        if (!isReservation) {
+            return 'Order is not a deposit reservation';
+        }
+        if (to.paymentStatus !== 'deposited' && to.paymentStatus !== 'paid') {
+            return 'Deposit must be received before the order is marked as deposited';
+        }
+    }
+
+    if (to.status === 'expired') {
+        if (!isReservation) {
+            return 'Only deposit reservations can expire';
+        }
+        if (to.paymentStatus !== 'deposit_pending' && to.paymentStatus !== 'failed') {
+            return 'Reservations can only expire before the deposit is received';
+        }
+    }
+
+    if (FULFILMENT_STATUSES.includes(to.status) && UNSETTLED_PAYMENT_STATUSES.includes(to.paymentStatus)) {
+        return `Cannot move an order to ${to.status} while payment is ${to.paymentStatus}`;
+    }
+
+    if (to.status === 'refunded' && to.paymentStatus !== 'refunded') {
+        return 'Order can only be marked as refunded once the payment is refunded';
+    }
+
+    return null;
+}
+
+/**
+ * Validate a transition and work out its side effects
+ * Throws if a requested status change is not allowed or a guard fails.
+ * Requesting the current value is not a change (the plan may be a no-op).
+ */
+export function planOrderTransition(
+    order: OrderStateSnapshot,
+    request: OrderTransitionRequest
+): OrderTransitionPlan {
+    const from = { status: order.status, paymentStatus: order.paymentStatus };
+    const to = {
+        status: request.status ?? order.status,
+        paymentStatus: request.paymentStatus ?? order.paymentStatus,
+    };
+    const statusChanged = to.status !== from.status;
+    const paymentStatusChanged = to.paymentStatus !== from.paymentStatus;
+
+    if (statusChanged && !canTransitionOrderStatus(from.status, to.status)) {
+        throw new Error(`Invalid status transition from ${from.status} to ${to.status}`);
+    }
+
+    if (paymentStatusChanged && !canTransitionPaymentStatus(from.paymentStatus, to.paymentStatus)) {
+        throw new Error(`Invalid payment status transition from ${from.paymentStatus} to ${to.paymentStatus}`);
+    }
+
+    const guardError = checkGuards(order, to, statusChanged, paymentStatusChanged);
+    if (guardError) {
+        throw new Error(guardError);
+    }
+
+    const timestamps: OrderTimestampColumn[] = [];
+    const emails: OrderTransitionEmail[] = [];
+
+    if (statusChanged) {
+        const column = ORDER_STATUS_TIMESTAMPS[to.status];
+        if (column) timestamps.push(column);
+
+        if (NOTIFY_ORDER_STATUSES.includes(to.status)) {
+            emails.push('status_update');
+        }
+    }
+
+    if (paymentStatusChanged) {
+        const column = PAYMENT_STATUS_TIMESTAMPS[to.paymentStatus];
+        if (column) timestamps.push(column);
+
+        if (from.paymentStatus === 'deposited' && to.paymentStatus === 'paid') {
+            emails.push('balance_paid');
+        }
+    }
+
+    const restoreStock = statusChanged && STOCK_RELEASE_STATUSES.includes(to.status);
+
+    return { from, to, statusChanged, paymentStatusChanged, timestamps, restoreStock, emails };
+}
+
+/**
+ * Statuses an admin can move this order to (transition allowed and guards pass)
+ */
+export function getNextOrderStatuses(order: OrderStateSnapshot): OrderStatus[] {
+    return ORDER_STATUS_TRANSITIONS[order.status].filter((status) => {
+        try {
+            planOrderTransition(order, { status });
+            return true;
+        } catch {
+            return false;
+        }
+    });
+}
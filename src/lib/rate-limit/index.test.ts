@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    checkLockouts,
+    clearFailedAttempts,
+    createMemoryRateLimitStore,
+    enforceRateLimits,
+    getClientIp,
+    LOCKOUTS,
+    recordFailedAttempt,
+    setRateLimitStore,
+    type LockoutCheck,
+} from './index';
+
+const MINUTE = 60 * 1000;
+const ORDER_CODE = 'TA-20260101-0001';
+
+function contactLockouts(clientIp: string, orderCode = ORDER_CODE): LockoutCheck[] {
+    return [
+        { rule: LOCKOUTS.contactPerClient, key: [clientIp, orderCode] },
+        { rule: LOCKOUTS.contactPerIp, key: [clientIp] },
+    ];
+}
+
+async function failTimes(times: number, checks: LockoutCheck[]) {
+    for (let i = 0; i < times; i++) {
+        await recordFailedAttempt(checks);
+    }
+}
+
+describe('rate limits and lockouts (memory store)', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+        setRateLimitStore(createMemoryRateLimitStore());
+    });
+
+    afterEach(() => {
+        setRateLimitStore(null);
+        vi.useRealTimers();
+    });
+
+    it('allows requests up to the limit, then answers 429 with Retry-After', async () => {
+        const check = [{ rule: { name: 'test', limit: 2, windowMs: 15 * MINUTE }, key: ['203.0.113.7'] }];
+
+        expect(await enforceRateLimits(check)).toBeNull();
+        expect(await enforceRateLimits(check)).toBeNull();
+
+        const limited = await enforceRateLimits(check);
+        expect(limited?.status).toBe(429);
+        expect(limited?.headers.get('Retry-After')).toBe(String(15 * 60));
+        expect(await limited?.json()).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 15 * 60 });
+    });
+
+    it('allows requests again in the next window', async () => {
+        const check = [{ rule: { name: 'test', limit: 1, windowMs: MINUTE }, key: ['203.0.113.7'] }];
+        await enforceRateLimits(check);
+        expect(await enforceRateLimits(check)).not.toBeNull();
+
+        vi.advanceTimersByTime(MINUTE);
+
+        expect(await enforceRateLimits(check)).toBeNull();
+    });
+
+    it('locks a client out of an order code after maxFailures wrong contacts', async () => {
+        const lockouts = contactLockouts('203.0.113.7');
+
+        await failTimes(LOCKOUTS.contactPerClient.maxFailures - 1, lockouts);
+        expect(await checkLockouts(lockouts)).toBeNull();
+
+        await recordFailedAttempt(lockouts);
+        const locked = await checkLockouts(lockouts);
+        expect(locked?.status).toBe(429);
+        expect(locked?.headers.get('Retry-After')).toBe(String(LOCKOUTS.contactPerClient.lockoutMs / 1000));
+    });
+
+    it('lifts the lockout once it has run out', async () => {
+        const lockouts = contactLockouts('203.0.113.7');
+        await failTimes(LOCKOUTS.contactPerClient.maxFailures, lockouts);
+
+        vi.advanceTimersByTime(LOCKOUTS.contactPerClient.lockoutMs);
+
+        expect(await checkLockouts(lockouts)).toBeNull();
+    });
+
+    it('does not lock the order code for other clients', async () => {
+        // Failures from many addresses, as an attacker targeting one order would produce
+        for (let i = 0; i < 10; i++) {
+            await failTimes(LOCKOUTS.contactPerClient.maxFailures, contactLockouts(`198.51.100.${i}`));
+        }
+
+        expect(await checkLockouts(contactLockouts('203.0.113.7'))).toBeNull();
+    });
+
+    it('locks a client out of every order code after failures across many codes', async () => {
+        for (let i = 0; i < LOCKOUTS.contactPerIp.maxFailures; i++) {
+            await recordFailedAttempt(contactLockouts('203.0.113.7', `TA-20260101-${1000 + i}`));
+        }
+
+        expect((await checkLockouts(contactLockouts('203.0.113.7', 'TA-20260101-9999')))?.status).toBe(429);
+        expect(await checkLockouts(contactLockouts('198.51.100.1', 'TA-20260101-9999'))).toBeNull();
+    });
+
+    it('forgets earlier failures after a successful verification', async () => {
+        const clientLockout = { rule: LOCKOUTS.contactPerClient, key: ['203.0.113.7', ORDER_CODE] };
+        await failTimes(LOCKOUTS.contactPerClient.maxFailures - 1, [clientLockout]);
+
+        await clearFailedAttempts([clientLockout]);
+        await recordFailedAttempt([clientLockout]);
+
+        expect(await checkLockouts([clientLockout])).toBeNull();
+    });
+});
+
+describe('getClientIp', () => {
+    it.each([
+        [{ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }, '203.0.113.7'],
+        [{ 'x-real-ip': ' 203.0.113.8 ' }, '203.0.113.8'],
+        [{}, 'unknown'],
+    ])('%o → %s', (headers, expected) => {
+        expect(getClientIp(new Request('http://localhost/api/order/track', { headers }))).toBe(expected);
+    });
+});
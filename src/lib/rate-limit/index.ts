@@ -0,0 +1,220 @@
+/**
+ * Rate limiting for public order endpoints
+ *
+ * Fixed-window counters keyed by client IP, order code and contact, plus
+ * lockouts after repeated failed verifications (wrong contact or token), so
+ * order codes can't be enumerated with guessed phone numbers. Blocked
+ * requests get a 429 with Retry-After.
+ *
+ * RATE_LIMIT_STORE picks the counter store (memory | postgres). When unset:
+ * postgres in production (shared by all instances), memory otherwise.
+ * Store errors fail open - a database hiccup must not lock customers out.
+ */
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getClientIpFromHeaders } from '@/lib/utils/request';
+import { createMemoryRateLimitStore } from './memory';
+import { createPostgresRateLimitStore } from './postgres';
+import type { RateLimitStore, RateLimitStoreName } from './types';
+
+export type { RateLimitCounter, RateLimitStore, RateLimitStoreName } from './types';
+export { createMemoryRateLimitStore } from './memory';
+
+const MINUTE = 60 * 1000;
+
+export interface RateLimitRule {
+    name: string;
+    limit: number; // Requests allowed per window
+    windowMs: number;
+}
+
+export interface LockoutRule {
+    name: string;
+    maxFailures: number; // Failed verifications within windowMs that trigger the lockout
+    windowMs: number;
+    lockoutMs: number;
+}
+
+export const RATE_LIMITS = {
+    trackPerIp: { name: 'track:ip', limit: 30, windowMs: 15 * MINUTE },
+    trackPerOrder: { name: 'track:order', limit: 10, windowMs: 15 * MINUTE }, // IP + order code
+    trackPerContact: { name: 'track:contact', limit: 5, windowMs: 15 * MINUTE }, // IP + order code + contact
+    trackTokenPerIp: { name: 'track_token:ip', limit: 60, windowMs: 15 * MINUTE },
+    trackTokenPerOrder: { name: 'track_token:order', limit: 20, windowMs: 15 * MINUTE },
+    claimPerIp: { name: 'claim:ip', limit: 10, windowMs: 15 * MINUTE },
+    changeRequestPerIp: { name: 'change_request:ip', limit: 10, windowMs: 60 * MINUTE },
+    changeRequestPerOrder: { name: 'change_request:order', limit: 5, windowMs: 60 * MINUTE },
+    uploadProofPerIp: { name: 'upload_proof:ip', limit: 20, windowMs: 60 * MINUTE },
+    uploadProofPerOrder: { name: 'upload_proof:order', limit: 10, windowMs: 60 * MINUTE },
+    proofStatusPerIp: { name: 'proof_status:ip', limit: 60, windowMs: 15 * MINUTE },
+} satisfies Record<string, RateLimitRule>;
+
+export const LOCKOUTS = {
+    // Wrong contact for an order code (tracking lookup and claim share these)
+    contactPerClient: { name: 'contact:client', maxFailures: 5, windowMs: 15 * MINUTE, lockoutMs: 30 * MINUTE }, // IP + order code
+    contactPerIp: { name: 'contact:ip', maxFailures: 20, windowMs: 60 * MINUTE, lockoutMs: 60 * MINUTE }, // IP, any order code
+    // Invalid tracking token for an order code
+    tokenPerClient: { name: 'token:client', maxFailures: 10, windowMs: 15 * MINUTE, lockoutMs: 30 * MINUTE }, // IP + order code
+} satisfies Record<string, LockoutRule>;
+
+type KeyPart = string | null | undefined;
+
+export interface RateLimitCheck {
+    rule: RateLimitRule;
+    key: KeyPart[];
+}
+
+export interface LockoutCheck {
+    rule: LockoutRule;
+    key: KeyPart[];
+}
+
+const STORE_NAMES: RateLimitStoreName[] = ['memory', 'postgres'];
+
+let cachedStore: RateLimitStore | null = null;
+
+function resolveStoreName(): RateLimitStoreName {
+    const configured = process.env.RATE_LIMIT_STORE?.trim().toLowerCase();
+
+    if (configured) {
+        if (!STORE_NAMES.includes(configured as RateLimitStoreName)) {
+            throw new Error(`Unknown RATE_LIMIT_STORE "${configured}". Use one of: ${STORE_NAMES.join(', ')}`);
+        }
+        return configured as RateLimitStoreName;
+    }
+
+    return process.env.NODE_ENV === 'production' ? 'postgres' : 'memory';
+}
+
+/**
+ * Get the configured store (created once per process)
+ */
+export function getRateLimitStore(): RateLimitStore {
+    if (!cachedStore) {
+        cachedStore = resolveStoreName() === 'postgres' ? createPostgresRateLimitStore() : createMemoryRateLimitStore();
+    }
+    return cachedStore;
+}
+
+/**
+ * Replace the store (tests use a fresh memory store); null restores the configured one
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+    cachedStore = store;
+}
+
+/**
+ * Client IP from proxy headers ('unknown' when there is none)
+ */
+export function getClientIp(request: Request): string {
+    return getClientIpFromHeaders(request.headers) || 'unknown';
+}
+
+/**
+ * Stored key for a rule: contacts and IPs are hashed, never stored as typed
+ */
+function buildKey(prefix: string, name: string, parts: KeyPart[]): string {
+    const normalized = parts.map((part) => (part || '').trim().toLowerCase().replace(/\s+/g, '')).join('|');
+    return `${prefix}:${name}:${createHash('sha256').update(normalized).digest('hex').slice(0, 32)}`;
+}
+
+function secondsUntil(date: Date): number {
+    return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+/**
+ * 429 response with Retry-After (seconds)
+ */
+export function tooManyRequestsResponse(retryAfterSeconds: number): NextResponse {
+    return NextResponse.json(
+        {
+            error: 'Too many requests. Please try again later.',
+            code: 'RATE_LIMITED',
+            retryAfter: retryAfterSeconds,
+        },
+        {
+            status: 429,
+            headers: { 'Retry-After': String(retryAfterSeconds) },
+        }
+    );
+}
+
+/**
+ * Count this request against every rule
+ * Returns a 429 response when any limit is exceeded, otherwise null.
+ */
+export async function enforceRateLimits(checks: RateLimitCheck[]): Promise<NextResponse | null> {
+    try {
+        const store = getRateLimitStore();
+        let retryAfter = 0;
+
+        for (const { rule, key } of checks) {
+            const counter = await store.hit(buildKey('rl', rule.name, key), rule.windowMs);
+            if (counter.count > rule.limit) {
+                retryAfter = Math.max(retryAfter, secondsUntil(counter.resetAt));
+            }
+        }
+
+        return retryAfter > 0 ? tooManyRequestsResponse(retryAfter) : null;
+    } catch (error) {
+        console.error('Rate limit check failed:', error);
+        return null;
+    }
+}
+
+/**
+ * Returns a 429 response while any of the lockouts is active, otherwise null
+ */
+export async function checkLockouts(checks: LockoutCheck[]): Promise<NextResponse | null> {
+    try {
+        const store = getRateLimitStore();
+        let retryAfter = 0;
+
+        for (const { rule, key } of checks) {
+            const lock = await store.peek(buildKey('lock', rule.name, key));
+            if (lock) {
+                retryAfter = Math.max(retryAfter, secondsUntil(lock.resetAt));
+            }
+        }
+
+        return retryAfter > 0 ? tooManyRequestsResponse(retryAfter) : null;
+    } catch (error) {
+        console.error('Lockout check failed:', error);
+        return null;
+    }
+}
+
+/**
+ * Record a failed verification; starts the lockout once a rule reaches maxFailures
+ */
+export async function recordFailedAttempt(checks: LockoutCheck[]): Promise<void> {
+    try {
+        const store = getRateLimitStore();
+
+        for (const { rule, key } of checks) {
+            const failures = await store.hit(buildKey('fail', rule.name, key), rule.windowMs);
+            if (failures.count >= rule.maxFailures) {
+                await store.hit(buildKey('lock', rule.name, key), rule.lockoutMs);
+                await store.reset(buildKey('fail', rule.name, key));
+            }
+        }
+    } catch (error) {
+        console.error('Failed to record failed attempt:', error);
+    }
+}
+
+/**
+ * Forget earlier failures after a successful verification
+ */
+export async function clearFailedAttempts(checks: LockoutCheck[]): Promise<void> {
+    try {
+        const store = getRateLimitStore();
+
+        for (const { rule, key } of checks) {
+            await store.reset(buildKey('fail', rule.name, key));
+        }
+    } catch (error) {
+        console.error('Failed to clear failed attempts:', error);
+    }
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryRateLimitStore } from './memory';
+
+const MINUTE = 60 * 1000;
+
+describe('createMemoryRateLimitStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('counts hits within a window', async () => {
+        const store = createMemoryRateLimitStore();
+
+        await store.hit('key', MINUTE);
+        await store.hit('key', MINUTE);
+        const counter = await store.hit('key', MINUTE);
+
+        expect(counter).toEqual({ count: 3, resetAt: new Date('2026-01-01T00:01:00.000Z') });
+    });
+
+    it('keeps keys apart', async () => {
+        const store = createMemoryRateLimitStore();
+
+        await store.hit('a', MINUTE);
+
+        expect((await store.hit('b', MINUTE)).count).toBe(1);
+    });
+
+    it('starts a new window once the previous one has ended', async () => {
+        const store = createMemoryRateLimitStore();
+        await store.hit('key', MINUTE);
+        await store.hit('key', MINUTE);
+
+        vi.advanceTimersByTime(MINUTE);
+        const counter = await store.hit('key', MINUTE);
+
+        expect(counter).toEqual({ count: 1, resetAt: new Date('2026-01-01T00:02:00.000Z') });
+    });
+
+    it('peeks without counting a hit', async () => {
+        const store = createMemoryRateLimitStore();
+
+        expect(await store.peek('key')).toBeNull();
+
+        await store.hit('key', MINUTE);
+        expect((await store.peek('key'))?.count).toBe(1);
+        expect((await store.peek('key'))?.count).toBe(1);
+
+        vi.advanceTimersByTime(MINUTE);
+        expect(await store.peek('key')).toBeNull();
+    });
+
+    it('resets a key', async () => {
+        const store = createMemoryRateLimitStore();
+        await store.hit('key', MINUTE);
+
+        await store.reset('key');
+
+        expect(await store.peek('key')).toBeNull();
+        expect((await store.hit('key', MINUTE)).count).toBe(1);
+    });
+});
@@ -0,0 +1,52 @@
+/**
+ * In-memory rate limit store
+ * Per process only: fine for development and tests, not for serverless
+ * production where every instance would keep its own counters.
+ */
+
+import type { RateLimitCounter, RateLimitStore } from './types';
+
+// Expired windows are dropped lazily once the map grows past this size
+const PRUNE_THRESHOLD = 10000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+    const counters = new Map<string, RateLimitCounter>();
+
+    const prune = (now: Date) => {
+        for (const [key, counter] of counters) {
+            if (counter.resetAt <= now) {
+                counters.delete(key);
+            }
+        }
+    };
+
+    return {
+        name: 'memory',
+        async hit(key, windowMs) {
+            const now = new Date();
+            const current = counters.get(key);
+
+            if (!current || current.resetAt <= now) {
+                if (counters.size >= PRUNE_THRESHOLD) {
+                    prune(now);
+                }
+                const counter = { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+                counters.set(key, counter);
+                return { ...counter };
+            }
+
+            current.count++;
+            return { ...current };
+        },
+        async peek(key) {
+            const current = counters.get(key);
+            if (!current || current.resetAt <= new Date()) {
+                return null;
+            }
+            return { ...current };
+        },
+        async reset(key) {
+            counters.delete(key);
+        },
+    };
+}
@@ -0,0 +1,55 @@
+/**
+ * Postgres rate limit store
+ * Counters live in rate_limit_counters (CREATE_RATE_LIMITS.sql) so every
+ * serverless instance shares them; rate_limit_hit increments atomically.
+ */
+
+import { createServiceClient } from '@/lib/supabase/service';
+import type { RateLimitStore } from './types';
+
+export function createPostgresRateLimitStore(): RateLimitStore {
+    return {
+        name: 'postgres',
+        async hit(key, windowMs) {
+            const supabase = createServiceClient();
+
+            const { data, error } = await supabase
+                .rpc('rate_limit_hit', { p_key: key, p_window_seconds: Math.ceil(windowMs / 1000) })
+                .single<{ count: number; reset_at: string }>();
+
+            if (error || !data) {
+                console.error('Error recording rate limit hit:', error);
+                throw new Error('Failed to record rate limit hit');
+            }
+
+            return { count: data.count, resetAt: new Date(data.reset_at) };
+        },
+        async peek(key) {
+            const supabase = createServiceClient();
+
+            const { data, error } = await supabase
+                .from('rate_limit_counters')
+                .select('count, reset_at')
+                .eq('key', key)
+                .gt('reset_at', new Date().toISOString())
+                .maybeSingle();
+
+            if (error) {
+                console.error('Error reading rate limit counter:', error);
+                throw new Error('Failed to read rate limit counter');
+            }
+
+            return data ? { count: data.count, resetAt: new Date(data.reset_at) } : null;
+        },
+        async reset(key) {
+            const supabase = createServiceClient();
+
+            const { error } = await supabase.from('rate_limit_counters').delete().eq('key', key);
+
+            if (error) {
+                console.error('Error resetting rate limit counter:', error);
+                throw new Error('Failed to reset rate limit counter');
+            }
+        },
+    };
+}
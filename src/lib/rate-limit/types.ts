@@ -0,0 +1,21 @@
+/**
+ * Rate limit store contract
+ * Stores keep fixed-window counters; policies, key hashing and lockouts are
+ * handled in '@/lib/rate-limit'.
+ */
+
+export type RateLimitStoreName = 'memory' | 'postgres';
+
+export interface RateLimitCounter {
+    count: number; // Hits in the current window, including this one
+    resetAt: Date; // End of the current window
+}
+
+export interface RateLimitStore {
+    name: RateLimitStoreName;
+    /** Count a hit; starts a new window of windowMs when the previous one has ended */
+    hit(key: string, windowMs: number): Promise<RateLimitCounter>;
+    /** Current window without counting a hit (null when none is running) */
+    peek(key: string): Promise<RateLimitCounter | null>;
+    reset(key: string): Promise<void>;
+}
@@ -0,0 +1,90 @@
+/**
+ * Transfer Matching
+ *
+ * Finds the order code in a bank transfer memo and decides whether the
+ * transferred amount settles the order's deposit, remaining balance or full payment.
+ * Only exact amounts are suggested; partial and over-payments are flagged
+ * for a human instead of being accepted.
+ */
+
+import { removeDiacritics } from '@/lib/vietqr/generator';
+import type { BankTransactionMatch } from '@/lib/types/reconciliation';
+
+/**
+ * Order fields needed to match a transfer
+ */
+export interface ReconcilableOrder {
+    id: string;
+    order_number: string;
+    order_type: string | null;
+    payment_status: string;
+    status: string;
+    total: number;
+    deposit_amount_vnd: number | null;
+    remaining_amount: number | null;
+}
+
+// Memos come from generateTransferMemo (RTB-ORD-YYYYMMDD-NNNNNN), but banks strip or
+// replace the dashes and some customers type only the order code,
+// so separators and the RTB prefix are optional
+const MEMO_PATTERN = /(?:RTB[\s._-]*)?ORD[\s._-]*(\d{8})[\s._-]*(\d{6})/;
+
+const CLOSED_STATUSES = ['cancelled', 'expired', 'refunded'];
+
+/**
+ * Extract the order code (ORD-YYYYMMDD-NNNNNN) from a transfer description
+ */
+export function extractOrderCodeFromMemo(description: string): string | null {
+    const normalized = removeDiacritics(description).toUpperCase();
+    const match = normalized.match(MEMO_PATTERN);
+    if (!match) return null;
+
+    return `ORD-${match[1]}-${match[2]}`;
+}
+
+/**
+ * Decide what a transfer of `amount` means for `order`
+ */
+export function matchTransferToOrder(
+    order: ReconcilableOrder,
+    amount: number,
+    detectedOrderNumber?: string
+): BankTransactionMatch {
+    const base = {
+        orderId: order.id,
+        detectedOrderNumber: detectedOrderNumber || order.order_number,
+    };
+
+    if (CLOSED_STATUSES.includes(order.status)) {
+        return { ...base, matchStatus: 'flagged', flagReason: 'order_not_awaiting_payment' };
+    }
+
+    let paymentKind: BankTransactionMatch['paymentKind'];
+    let expectedAmount: number;
+
+    if (order.order_type === 'deposit_reservation' && order.payment_status === 'deposit_pending') {
+        paymentKind = 'deposit';
+        expectedAmount = Number(order.deposit_amount_vnd || 0);
+    } else if (order.order_type === 'deposit_reservation' && order.payment_status === 'deposited'
+        && Number(order.remaining_amount || 0) > 0) {
+        paymentKind = 'balance';
+        expectedAmount = Number(order.remaining_amount);
+    } else if (order.order_type !== 'deposit_reservation' && order.payment_status === 'pending') {
+        paymentKind = 'full_payment';
+        expectedAmount = Number(order.total);
+    } else {
+        return { ...base, matchStatus: 'flagged', flagReason: 'order_not_awaiting_payment' };
+    }
+
+    const result = { ...base, paymentKind, expectedAmount };
+
+    if (amount < expectedAmount) {
+        return { ...result, matchStatus: 'flagged', flagReason: 'partial_payment' };
+    }
+
+    if (amount > expectedAmount) {
+        return { ...result, matchStatus: 'flagged', flagReason: 'overpayment' };
+    }
+
+    return { ...result, matchStatus: 'suggested' };
+}
@@ -0,0 +1,280 @@
+/**
+ * Spreadsheet readers for bank statement exports
+ *
+ * Supports CSV (any of , ; tab as delimiter) and .xlsx (first worksheet).
+ * The .xlsx reader only understands what bank exports use: shared strings,
+ * inline strings and plain values. Legacy .xls (BIFF) is not supported;
+ * banks that only offer .xls can be re-saved as .xlsx or .csv.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export type SpreadsheetCell = string | number | null;
+export type SpreadsheetRows = SpreadsheetCell[][];
+
+/**
+ * Read a statement file into rows of cells based on its extension
+ */
+export function readSpreadsheet(fileName: string, buffer: Buffer): SpreadsheetRows {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+
+    if (extension === 'xlsx') {
+        return readXlsx(buffer);
+    }
+
+    if (extension === 'csv' || extension === 'txt') {
+        return parseCsv(buffer.toString('utf8'));
+    }
+
+    if (extension === 'xls') {
+        throw new Error('Legacy .xls files are not supported. Please save the statement as .xlsx or .csv.');
+    }
+
+    throw new Error('Unsupported file type. Please upload a .csv or .xlsx statement.');
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, delimiter auto-detected)
+ */
+export function parseCsv(text: string): SpreadsheetRows {
+    // Strip UTF-8 BOM (Excel adds it to "CSV UTF-8" exports)
+    const input = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(input);
+
+    const rows: SpreadsheetRows = [];
+    let row: SpreadsheetCell[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field.trim());
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field.trim());
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field.trim());
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Pick the delimiter that appears most often in the first lines
+ */
+function detectDelimiter(text: string): string {
+    const sample = text.split(/\r?\n/).slice(0, 20).join('\n');
+    const candidates = [',', ';', '\t'];
+    let best = ',';
+    let bestCount = 0;
+
+    for (const candidate of candidates) {
+        const count = sample.split(candidate).length - 1;
+        if (count > bestCount) {
+            best = candidate;
+            bestCount = count;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Read the first worksheet of an .xlsx file
+ */
+export function readXlsx(buffer: Buffer): SpreadsheetRows {
+    const entries = readZipEntries(buffer);
+
+    const sheetName = Object.keys(entries)
+        .filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+        .sort((a, b) => sheetNumber(a) - sheetNumber(b))[0];
+
+    if (!sheetName) {
+        throw new Error('No worksheet found in Excel file');
+    }
+
+    const sharedStrings = entries['xl/sharedStrings.xml']
+        ? parseSharedStrings(entries['xl/sharedStrings.xml']())
+        : [];
+
+    return parseWorksheet(entries[sheetName](), sharedStrings);
+}
+
+function sheetNumber(name: string): number {
+    return Number(name.match(/sheet(\d+)\.xml$/)?.[1] || 0);
+}
+
+// Largest file we inflate out of an .xlsx (guards against zip bombs)
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Minimal ZIP reader (central directory + stored/deflate entries)
+ * Returns lazy readers so only the files we need are inflated
+ */
+function readZipEntries(buffer: Buffer): Record<string, () => string> {
+    const EOCD_SIGNATURE = 0x06054b50;
+    const CENTRAL_SIGNATURE = 0x02014b50;
+    const LOCAL_SIGNATURE = 0x04034b50;
+
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+        if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+
+    if (eocd === -1) {
+        throw new Error('Invalid Excel file');
+    }
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    const entries: Record<string, () => string> = {};
+
+    for (let i = 0; i < entryCount; i++) {
+        if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+            throw new Error('Invalid Excel file');
+        }
+
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const uncompressedSize = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        entries[name] = () => {
+            if (uncompressedSize > MAX_ENTRY_SIZE) {
+                throw new Error('Excel file is too large');
+            }
+            if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+                throw new Error('Invalid Excel file');
+            }
+            const dataStart = localOffset + 30
+                + buffer.readUInt16LE(localOffset + 26)
+                + buffer.readUInt16LE(localOffset + 28);
+            const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+            if (method === 0) return data.toString('utf8');
+            if (method === 8) {
+                try {
+                    // The declared size can lie; cap the actual output as well
+                    return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE }).toString('utf8');
+                } catch (error) {
+                    if (error instanceof RangeError) {
+                        throw new Error('Excel file is too large');
+                    }
+                    throw error;
+                }
+            }
+            throw new Error(`Unsupported compression in Excel file (method ${method})`);
+        };
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Concatenate all <t> runs inside a string item (handles rich text)
+ */
+function readTextRuns(xml: string): string {
+    const runs = xml.match(/<t(?:\s[^>]*)?>[\s\S]*?<\/t>/g) || [];
+    return runs.map((run) => decodeXml(run.replace(/^<t[^>]*>/, '').replace(/<\/t>$/, ''))).join('');
+}
+
+function parseSharedStrings(xml: string): string[] {
+    const items = xml.match(/<si>[\s\S]*?<\/si>/g) || [];
+    return items.map(readTextRuns);
+}
+
+/**
+ * Convert a cell reference column (A, B, ..., AA) to a zero-based index
+ */
+function columnIndex(ref: string): number {
+    const letters = ref.replace(/\d+$/, '');
+    let index = 0;
+    for (const letter of letters) {
+        index = index * 26 + (letter.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
+
+function parseWorksheet(xml: string, sharedStrings: string[]): SpreadsheetRows {
+    const rows: SpreadsheetRows = [];
+    const rowMatches = xml.match(/<row[\s>][\s\S]*?<\/row>/g) || [];
+
+    for (const rowXml of rowMatches) {
+        const row: SpreadsheetCell[] = [];
+        const cells = rowXml.match(/<c\s[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) || [];
+
+        for (const cellXml of cells) {
+            const ref = cellXml.match(/\sr="([A-Z]+\d+)"/)?.[1];
+            const type = cellXml.match(/\st="(\w+)"/)?.[1];
+            const rawValue = cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+            let value: SpreadsheetCell = null;
+            if (type === 's' && rawValue !== undefined) {
+                value = sharedStrings[Number(rawValue)] ?? null;
+            } else if (type === 'inlineStr') {
+                value = readTextRuns(cellXml);
+            } else if (type === 'str' || type === 'e') {
+                value = rawValue !== undefined ? decodeXml(rawValue) : null;
+            } else if (rawValue !== undefined) {
+                const numeric = Number(rawValue);
+                value = Number.isNaN(numeric) ? decodeXml(rawValue) : numeric;
+            }
+
+            const index = ref ? columnIndex(ref) : row.length;
+            while (row.length < index) row.push(null);
+            row[index] = typeof value === 'string' ? value.trim() : value;
+        }
+
+        rows.push(row);
+    }
+
+    return rows;
+}
@@ -0,0 +1,198 @@
+/**
+ * Bank Statement Parser
+ *
+ * Turns spreadsheet rows from a Vietnamese bank export into incoming
+ * transactions. Exports differ per bank (Vietcombank, Techcombank, MB, ACB,
+ * BIDV, ...) but share the same column concepts, so columns are found by
+ * header name (Vietnamese or English, with or without diacritics) rather
+ * than by fixed position. Metadata rows above the header are skipped.
+ */
+
+import { removeDiacritics } from '@/lib/vietqr/generator';
+import type { SpreadsheetCell, SpreadsheetRows } from '@/lib/reconciliation/spreadsheet';
+import type { ParsedBankTransaction } from '@/lib/types/reconciliation';
+
+type StatementColumn = 'date' | 'credit' | 'debit' | 'amount' | 'description' | 'reference';
+
+// Header names seen in bank exports, normalized (no diacritics, lowercase)
+const HEADER_ALIASES: Record<StatementColumn, string[]> = {
+    date: [
+        'ngay giao dich', 'ngay gd', 'ngay hieu luc', 'ngay hach toan', 'thoi gian giao dich',
+        'ngay', 'thoi gian', 'transaction date', 'posting date', 'effective date', 'value date', 'date',
+    ],
+    credit: [
+        'so tien ghi co', 'ghi co', 'phat sinh co', 'so tien co', 'tien vao', 'co',
+        'credit amount', 'credit',
+    ],
+    debit: [
+        'so tien ghi no', 'ghi no', 'phat sinh no', 'so tien no', 'tien ra', 'no',
+        'debit amount', 'debit',
+    ],
+    amount: ['so tien giao dich', 'so tien', 'amount'],
+    description: [
+        'noi dung giao dich', 'noi dung', 'chi tiet giao dich', 'dien giai', 'mo ta',
+        'transaction details', 'description', 'remark', 'narrative', 'details',
+    ],
+    reference: [
+        'so tham chieu', 'ma giao dich', 'so but toan', 'ma gd', 'so ct', 'so giao dich',
+        'reference no', 'reference', 'ref no', 'transaction id', 'transaction no',
+    ],
+};
+
+const HEADER_SCAN_ROWS = 30;
+
+export interface ParsedStatement {
+    transactions: ParsedBankTransaction[];
+    skippedRows: number;
+}
+
+function normalizeHeader(value: SpreadsheetCell): string {
+    if (value === null || value === undefined) return '';
+    return removeDiacritics(String(value))
+        .toLowerCase()
+        .replace(/\(.*?\)/g, '') // "Số tiền ghi có (VND)" -> "so tien ghi co"
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+/**
+ * Map columns in a header row; exact alias matches win over partial ones
+ */
+function mapHeaderRow(row: SpreadsheetCell[]): Partial<Record<StatementColumn, number>> {
+    const headers = row.map(normalizeHeader);
+    const mapping: Partial<Record<StatementColumn, number>> = {};
+    const used = new Set<number>();
+
+    for (const exact of [true, false]) {
+        for (const column of Object.keys(HEADER_ALIASES) as StatementColumn[]) {
+            if (mapping[column] !== undefined) continue;
+
+            for (const alias of HEADER_ALIASES[column]) {
+                const index = headers.findIndex((header, i) =>
+                    !used.has(i) && header !== '' && (exact ? header === alias : alias.length > 2 && header.includes(alias))
+                );
+                if (index !== -1) {
+                    mapping[column] = index;
+                    used.add(index);
+                    break;
+                }
+            }
+        }
+    }
+
+    return mapping;
+}
+
+/**
+ * Parse a VND amount ("1.500.000", "1,500,000", "1500000.00", "(200,000)", 1500000)
+ */
+export function parseVndAmount(value: SpreadsheetCell): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return value;
+
+    let text = value.replace(/\s|VND|VNĐ|đ|₫/gi, '');
+    const negative = text.startsWith('-') || (text.startsWith('(') && text.endsWith(')'));
+    text = text.replace(/[^\d.,]/g, '');
+    if (!text) return null;
+
+    if (/^\d{1,3}([.,]\d{3})+$/.test(text)) {
+        // Only thousands separators
+        text = text.replace(/[.,]/g, '');
+    } else {
+        const lastSeparator = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+        if (lastSeparator !== -1) {
+            text = text.slice(0, lastSeparator).replace(/[.,]/g, '') + '.' + text.slice(lastSeparator + 1);
+        }
+    }
+
+    const amount = Number(text);
+    if (Number.isNaN(amount)) return null;
+    return negative ? -amount : amount;
+}
+
+/**
+ * Parse a statement date (dd/mm/yyyy [hh:mm[:ss]], yyyy-mm-dd, or Excel serial)
+ * Bank exports are in Vietnam time, so the result is pinned to +07:00
+ */
+export function parseStatementDate(value: SpreadsheetCell): string | null {
+    if (value === null || value === undefined || value === '') return null;
+
+    if (typeof value === 'number') {
+        // Excel serial date (days since 1899-12-30)
+        if (value < 20000 || value > 80000) return null;
+        const date = new Date(Date.UTC(1899, 11, 30) + Math.round(value * 86400000));
+        const local = date.toISOString().slice(0, 19);
+        return new Date(`${local}+07:00`).toISOString();
+    }
+
+    const text = value.trim();
+    const pad = (part: string | undefined) => (part || '0').padStart(2, '0');
+
+    let match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    if (match) {
+        const [, day, month, year, hour, minute, second] = match;
+        const date = new Date(`${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}+07:00`);
+        return Number.isNaN(date.getTime()) ? null : date.toISOString();
+    }
+
+    match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    if (match) {
+        const [, year, month, day, hour, minute, second] = match;
+        const date = new Date(`${year}-${month}-${day}T${pad(hour)}:${pad(minute)}:${pad(second)}+07:00`);
+        return Number.isNaN(date.getTime()) ? null : date.toISOString();
+    }
+
+    return null;
+}
+
+/**
+ * Extract incoming (credit) transactions from statement rows
+ * Debits, totals and blank rows are skipped and counted
+ */
+export function parseBankStatement(rows: SpreadsheetRows): ParsedStatement {
+    let headerIndex = -1;
+    let columns: Partial<Record<StatementColumn, number>> = {};
+
+    for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+        const mapping = mapHeaderRow(rows[i]);
+        const hasAmount = mapping.credit !== undefined || mapping.amount !== undefined;
+        if (mapping.date !== undefined && mapping.description !== undefined && hasAmount) {
+            headerIndex = i;
+            columns = mapping;
+            break;
+        }
+    }
+
+    if (headerIndex === -1) {
+        throw new Error('Could not find the transaction table header (date, description and amount columns)');
+    }
+
+    const transactions: ParsedBankTransaction[] = [];
+    let skippedRows = 0;
+
+    for (const row of rows.slice(headerIndex + 1)) {
+        if (row.every((cell) => cell === null || cell === '')) continue;
+
+        const transactionDate = parseStatementDate(row[columns.date!] ?? null);
+        const amount = columns.credit !== undefined
+            ? parseVndAmount(row[columns.credit] ?? null)
+            : parseVndAmount(row[columns.amount!] ?? null);
+
+        // Only incoming transfers can pay for orders
+        if (!transactionDate || amount === null || amount <= 0) {
+            skippedRows++;
+            continue;
+        }
+
+        const reference = columns.reference !== undefined ? row[columns.reference] : null;
+
+        transactions.push({
+            transactionRef: reference !== null && reference !== undefined && reference !== '' ? String(reference) : undefined,
+            transactionDate,
+            amount,
+            description: String(row[columns.description!] ?? '').replace(/\s+/g, ' ').trim(),
+        });
+    }
+
+    return { transactions, skippedRows };
+}
@@ -0,0 +1,344 @@
+/**
+ * Customer Address Book Repository
+ *
+ * Saved shipping addresses (user_addresses) for /account/addresses and the
+ * checkout address picker. Uses the signed-in user's session, so RLS
+ * (CREATE_USER_ADDRESS_BOOK.sql) limits every query to their own rows; the
+ * user_id filters keep that intent explicit.
+ *
+ * Province, district and ward are picked from src/lib/divisions; city,
+ * district and ward hold the official names for the stored codes.
+ * Addresses saved before CREATE_ADDRESS_DIVISIONS.sql have no codes.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { resolveAddressDivisions } from '@/lib/divisions';
+
+export const MAX_USER_ADDRESSES = 10;
+
+// Expected failures, thrown with these messages (see getAddressErrorStatus)
+const ADDRESS_NOT_FOUND = 'Address not found';
+const ADDRESS_LIMIT_REACHED = `You can save up to ${MAX_USER_ADDRESSES} addresses`;
+
+export interface UserAddress {
+    id: string;
+    fullName: string;
+    phone: string;
+    addressLine: string;
+    city: string; // Province / centrally-run city
+    district?: string;
+    ward?: string;
+    provinceCode?: string;
+    districtCode?: string;
+    wardCode?: string;
+    isDefault: boolean;
+}
+
+export type UserAddressInput = Omit<UserAddress, 'id' | 'isDefault'> & { isDefault?: boolean };
+
+interface UserAddressRow {
+    id: string;
+    full_name: string;
+    phone: string;
+    address_line: string;
+    city: string;
+    district: string | null;
+    ward: string | null;
+    province_code: string | null;
+    district_code: string | null;
+    ward_code: string | null;
+    is_default: boolean | null;
+}
+
+const USER_ADDRESS_COLUMNS =
+    'id, full_name, phone, address_line, city, district, ward, province_code, district_code, ward_code, is_default';
+
+function mapUserAddress(row: UserAddressRow): UserAddress {
+    return {
+        id: row.id,
+        fullName: row.full_name,
+        phone: row.phone,
+        addressLine: row.address_line,
+        city: row.city,
+        district: row.district || undefined,
+        ward: row.ward || undefined,
+        provinceCode: row.province_code || undefined,
+        districtCode: row.district_code || undefined,
+        wardCode: row.ward_code || undefined,
+        isDefault: Boolean(row.is_default),
+    };
+}
+
+function toUserAddressRow(input: UserAddressInput) {
+    return {
+        full_name: input.fullName.trim(),
+        phone: input.phone.trim(),
+        address_line: input.addressLine.trim(),
+        city: input.city.trim(),
+        district: input.district?.trim() || null,
+        ward: input.ward?.trim() || null,
+        province_code: input.provinceCode || null,
+        district_code: input.districtCode || null,
+        ward_code: input.wardCode || null,
+    };
+}
+
+const MAX_FIELD_LENGTH = 200;
+
+/**
+ * Read and check an address from a request body
+ * Body: { fullName, phone, addressLine, provinceCode, districtCode, wardCode?, isDefault? }
+ * Returns the input with the division names filled in, or an error message
+ * for the customer.
+ */
+export function parseUserAddressInput(body: unknown): { input: UserAddressInput } | { error: string } {
+    const value = (body || {}) as Record<string, unknown>;
+    const field = (key: string) => (typeof value[key] === 'string' ? (value[key] as string).trim() : '');
+
+    const fullName = field('fullName');
+    const phone = field('phone');
+    const addressLine = field('addressLine');
+
+    if (!fullName || !phone || !addressLine) {
+        return { error: 'Name, phone and address are required' };
+    }
+    if (!/^[0-9]{10,11}$/.test(phone.replace(/[\s\-()]/g, ''))) {
+        return { error: 'Invalid phone number' };
+    }
+    if ([fullName, addressLine].some((item) => item.length > MAX_FIELD_LENGTH)) {
+        return { error: `Fields are limited to ${MAX_FIELD_LENGTH} characters` };
+    }
+
+    const divisions = resolveAddressDivisions({
+        provinceCode: field('provinceCode'),
+        districtCode: field('districtCode'),
+        wardCode: field('wardCode') || undefined,
+    });
+    if (!divisions) {
+        return { error: 'Choose a valid province, district and ward' };
+    }
+
+    return {
+        input: {
+            fullName,
+            phone,
+            addressLine,
+            city: divisions.province.name,
+            district: divisions.district.name,
+            ward: divisions.ward?.name,
+            provinceCode: divisions.province.code,
+            districtCode: divisions.district.code,
+            wardCode: divisions.ward?.code,
+            isDefault: value.isDefault === true,
+        },
+    };
+}
+
+/**
+ * The user's addresses, default first
+ */
+export async function getUserAddresses(userId: string): Promise<UserAddress[]> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('user_addresses')
+        .select(USER_ADDRESS_COLUMNS)
+        .eq('user_id', userId)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: true })
+        .returns<UserAddressRow[]>();
+
+    if (error) {
+        console.error('Error fetching addresses:', error);
+        throw new Error('Failed to fetch addresses');
+    }
+
+    return (data || []).map(mapUserAddress);
+}
+
+/**
+ * HTTP status for an error thrown by this repository: 404 for an unknown (or
+ * someone else's) address, 409 when the address book is full, otherwise 500
+ */
+export function getAddressErrorStatus(error: unknown): 404 | 409 | 500 {
+    if (!(error instanceof Error)) return 500;
+    if (error.message === ADDRESS_NOT_FOUND) return 404;
+    if (error.message === ADDRESS_LIMIT_REACHED) return 409;
+    return 500;
+}
+
+/**
+ * Throws 'Address not found' unless the address belongs to the user
+ * (checked before clearing the current default)
+ */
+async function assertOwnAddress(userId: string, id: string): Promise<void> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('user_addresses')
+        .select('id')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching address:', error);
+        throw new Error('Failed to fetch address');
+    }
+    if (!data) {
+        throw new Error(ADDRESS_NOT_FOUND);
+    }
+}
+
+async function clearDefaultAddress(userId: string): Promise<void> {
+    const supabase = await createClient();
+
+    const { error } = await supabase
+        .from('user_addresses')
+        .update({ is_default: false })
+        .eq('user_id', userId)
+        .eq('is_default', true);
+
+    if (error) {
+        console.error('Error clearing default address:', error);
+        throw new Error('Failed to update default address');
+    }
+}
+
+/**
+ * Add an address; the first one becomes the default
+ */
+export async function createUserAddress(userId: string, input: UserAddressInput): Promise<UserAddress> {
+    const supabase = await createClient();
+
+    const existing = await getUserAddresses(userId);
+    if (existing.length >= MAX_USER_ADDRESSES) {
+        throw new Error(ADDRESS_LIMIT_REACHED);
+    }
+
+    const isDefault = existing.length === 0 || Boolean(input.isDefault);
+    if (isDefault) {
+        await clearDefaultAddress(userId);
+    }
+
+    const { data, error } = await supabase
+        .from('user_addresses')
+        .insert({ ...toUserAddressRow(input), user_id: userId, is_default: isDefault })
+        .select(USER_ADDRESS_COLUMNS)
+        .single<UserAddressRow>();
+
+    if (error || !data) {
+        console.error('Error creating address:', error);
+        throw new Error('Failed to save address');
+    }
+
+    return mapUserAddress(data);
+}
+
+/**
+ * Update an address (isDefault: true also makes it the default)
+ */
+export async function updateUserAddress(userId: string, id: string, input: UserAddressInput): Promise<UserAddress> {
+    const supabase = await createClient();
+
+    if (input.isDefault) {
+        await assertOwnAddress(userId, id);
+        await clearDefaultAddress(userId);
+    }
+
+    const { data, error } = await supabase
+        .from('user_addresses')
+        .update({ ...toUserAddressRow(input), ...(input.isDefault ? { is_default: true } : {}) })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select(USER_ADDRESS_COLUMNS)
+        .maybeSingle<UserAddressRow>();
+
+    if (error) {
+        console.error('Error updating address:', error);
+        throw new Error('Failed to save address');
+    }
+    if (!data) {
+        throw new Error(ADDRESS_NOT_FOUND);
+    }
+
+    return mapUserAddress(data);
+}
+
+/**
+ * Make an address the default
+ */
+export async function setDefaultUserAddress(userId: string, id: string): Promise<void> {
+    const supabase = await createClient();
+
+    await assertOwnAddress(userId, id);
+    await clearDefaultAddress(userId);
+
+    const { data, error } = await supabase
+        .from('user_addresses')
+        .update({ is_default: true })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id')
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error setting default address:', error);
+        throw new Error('Failed to update default address');
+    }
+    if (!data) {
+        throw new Error(ADDRESS_NOT_FOUND);
+    }
+}
+
+/**
+ * Delete an address; if it was the default, the oldest remaining one takes over
+ */
+export async function deleteUserAddress(userId: string, id: string): Promise<void> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('user_addresses')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('is_default')
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error deleting address:', error);
+        throw new Error('Failed to delete address');
+    }
+    if (!data) {
+        throw new Error(ADDRESS_NOT_FOUND);
+    }
+
+    if (data.is_default) {
+        const [next] = await getUserAddresses(userId);
+        if (next) {
+            await setDefaultUserAddress(userId, next.id);
+        }
+    }
+}
+
+/**
+ * Save the address used at checkout unless the same one is already in the book
+ */
+export async function saveCheckoutAddress(userId: string, input: UserAddressInput): Promise<void> {
+    const normalize = (value?: string) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+    const existing = await getUserAddresses(userId);
+
+    const duplicate = existing.some(
+        (address) =>
+            normalize(address.fullName) === normalize(input.fullName) &&
+            normalize(address.phone) === normalize(input.phone) &&
+            normalize(address.addressLine) === normalize(input.addressLine) &&
+            normalize(address.city) === normalize(input.city) &&
+            normalize(address.district) === normalize(input.district) &&
+            normalize(address.ward) === normalize(input.ward)
+    );
+
+    if (!duplicate && existing.length < MAX_USER_ADDRESSES) {
+        await createUserAddress(userId, input);
+    }
+}
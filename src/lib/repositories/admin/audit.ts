@@ -0,0 +1,277 @@
+import { createServiceClient } from '@/lib/supabase/service';
+
+/**
+ * Admin Audit Log Repository
+ * Append-only admin_audit_log (see CREATE_ADMIN_AUDIT_LOG.sql).
+ * Write through recordAdminAction in '@/lib/admin/audit', which adds the
+ * actor, IP and before/after diff.
+ */
+
+export type AuditEntityType =
+    | 'order'
+    | 'product'
+    | 'guide'
+    | 'review'
+    | 'setup'
+    | 'change_request'
+    | 'bank_statement'
+    | 'bank_transaction'
+    | 'staff'
+    | 'staff_invitation'
+    | 'shipping_zone'
+    | 'discount_code';
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+    'order',
+    'product',
+    'guide',
+    'review',
+    'setup',
+    'change_request',
+    'bank_statement',
+    'bank_transaction',
+    'staff',
+    'staff_invitation',
+    'shipping_zone',
+    'discount_code',
+];
+
+export type AuditAction =
+    | 'order.status_update'
+    | 'order.deposit_received'
+    | 'order.balance_received'
+    | 'order.reservation_expired'
+    | 'order.reservation_cancelled'
+    | 'order.refund'
+    | 'order.email_resent'
+    | 'order.shipment_synced'
+    | 'order.deposit_proof_reviewed'
+    | 'product.create'
+    | 'product.update'
+    | 'product.delete'
+    | 'product.image_upload'
+    | 'product.image_update'
+    | 'product.image_delete'
+    | 'product.image_reorder'
+    | 'guide.create'
+    | 'guide.update'
+    | 'guide.delete'
+    | 'review.moderate'
+    | 'setup.moderate'
+    | 'change_request.status_update'
+    | 'change_request.reply'
+    | 'bank_statement.import'
+    | 'bank_transaction.apply'
+    | 'bank_transaction.assign'
+    | 'bank_transaction.ignore'
+    | 'staff.invite'
+    | 'staff.role_update'
+    | 'staff.remove'
+    | 'staff_invitation.revoke'
+    | 'shipping_zone.create'
+    | 'shipping_zone.update'
+    | 'shipping_zone.delete'
+    | 'discount_code.create'
+    | 'discount_code.update'
+    | 'discount_code.delete';
+
+export type AuditValues = Record<string, unknown>;
+
+export interface AuditLogEntryInput {
+    actorId: string;
+    actorEmail: string;
+    actorRole?: string;
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId: string;
+    entityLabel?: string;
+    before?: AuditValues | null;
+    after?: AuditValues | null;
+    metadata?: AuditValues | null;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+}
+
+export interface AuditLogEntry {
+    id: string;
+    actorId?: string;
+    actorEmail: string;
+    actorRole?: string;
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId: string;
+    entityLabel?: string;
+    before?: AuditValues;
+    after?: AuditValues;
+    metadata?: AuditValues;
+    ipAddress?: string;
+    userAgent?: string;
+    createdAt: string;
+}
+
+export interface AuditLogFilters {
+    actorId?: string;
+    entityType?: AuditEntityType | 'all';
+    entityId?: string; // Matches entity_id or entity_label (partial)
+    from?: string; // YYYY-MM-DD (Vietnam time), inclusive
+    to?: string; // YYYY-MM-DD (Vietnam time), inclusive
+}
+
+export interface AuditLogListResponse {
+    items: AuditLogEntry[];
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+}
+
+interface AuditLogRow {
+    id: string;
+    actor_id: string | null;
+    actor_email: string;
+    actor_role: string | null;
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id: string;
+    entity_label: string | null;
+    before: AuditValues | null;
+    after: AuditValues | null;
+    metadata: AuditValues | null;
+    ip_address: string | null;
+    user_agent: string | null;
+    created_at: string;
+}
+
+/**
+ * Append an entry to the audit log
+ */
+export async function insertAuditLogEntry(input: AuditLogEntryInput): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('admin_audit_log')
+        .insert({
+            actor_id: input.actorId,
+            actor_email: input.actorEmail,
+            actor_role: input.actorRole || null,
+            action: input.action,
+            entity_type: input.entityType,
+            entity_id: input.entityId,
+            entity_label: input.entityLabel || null,
+            before: input.before || null,
+            after: input.after || null,
+            metadata: input.metadata || null,
+            ip_address: input.ipAddress || null,
+            user_agent: input.userAgent || null,
+        });
+
+    if (error) {
+        console.error('Error writing audit log entry:', error);
+        throw new Error('Failed to write audit log entry');
+    }
+}
+
+/**
+ * List audit log entries (newest first, with filters and pagination)
+ */
+export async function adminListAuditLog(
+    filters: AuditLogFilters = {},
+    pagination: { page: number; pageSize: number } = { page: 1, pageSize: 50 }
+): Promise<AuditLogListResponse> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('admin_audit_log')
+        .select('*', { count: 'exact' });
+
+    if (filters.actorId) {
+        query = query.eq('actor_id', filters.actorId);
+    }
+
+    if (filters.entityType && filters.entityType !== 'all') {
+        query = query.eq('entity_type', filters.entityType);
+    }
+
+    if (filters.entityId) {
+        // Strip characters that would break the PostgREST or() filter
+        const term = filters.entityId.replace(/[,()*%]/g, '').trim();
+        if (term) {
+            query = query.or(`entity_id.eq.${term},entity_label.ilike.*${term}*`);
+        }
+    }
+
+    if (filters.from) {
+        query = query.gte('created_at', `${filters.from}T00:00:00+07:00`);
+    }
+
+    if (filters.to) {
+        query = query.lte('created_at', `${filters.to}T23:59:59.999+07:00`);
+    }
+
+    const { page, pageSize } = pagination;
+    const fromIndex = (page - 1) * pageSize;
+
+    const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(fromIndex, fromIndex + pageSize - 1);
+
+    if (error) {
+        console.error('Error fetching audit log:', error);
+        throw new Error('Failed to fetch audit log');
+    }
+
+    const total = count || 0;
+
+    return {
+        items: ((data || []) as AuditLogRow[]).map((row) => ({
+            id: row.id,
+            actorId: row.actor_id || undefined,
+            actorEmail: row.actor_email,
+            actorRole: row.actor_role || undefined,
+            action: row.action,
+            entityType: row.entity_type,
+            entityId: row.entity_id,
+            entityLabel: row.entity_label || undefined,
+            before: row.before || undefined,
+            after: row.after || undefined,
+            metadata: row.metadata || undefined,
+            ipAddress: row.ip_address || undefined,
+            userAgent: row.user_agent || undefined,
+            createdAt: row.created_at,
+        })),
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+    };
+}
+
+/**
+ * Distinct actors among recent entries (for the actor filter)
+ * Includes staff who have since been removed.
+ */
+export async function adminListAuditActors(): Promise<Array<{ id: string; email: string }>> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('admin_audit_log')
+        .select('actor_id, actor_email')
+        .not('actor_id', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1000);
+
+    if (error) {
+        console.error('Error fetching audit actors:', error);
+        return [];
+    }
+
+    const actors = new Map<string, string>();
+    for (const row of (data || []) as Array<{ actor_id: string; actor_email: string }>) {
+        if (!actors.has(row.actor_id)) {
+            actors.set(row.actor_id, row.actor_email);
+        }
+    }
+
+    return Array.from(actors, ([id, email]) => ({ id, email }))
+        .sort((a, b) => a.email.localeCompare(b.email));
+}
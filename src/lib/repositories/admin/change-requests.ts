@@ -0,0 +1,184 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import type { Locale } from '@/config/locales';
+import { sendChangeRequestReplyEmail } from '@/lib/emails/service';
+import {
+    addChangeRequestMessage,
+    CHANGE_REQUEST_COLUMNS,
+    mapChangeRequest,
+    type ChangeRequestRow,
+    type ChangeRequestStatus,
+    type OrderChangeRequest,
+} from '@/lib/repositories/change-requests';
+
+/**
+ * Admin Change Requests Repository
+ * Inbox of customer change requests across orders, replies and status changes
+ */
+
+export type ChangeRequestFilter = ChangeRequestStatus | 'all';
+
+export interface AdminChangeRequest extends OrderChangeRequest {
+    orderNumber: string;
+    orderStatus: string;
+    customerName: string;
+    customerEmail?: string;
+    locale: Locale;
+}
+
+type AdminChangeRequestRow = ChangeRequestRow & {
+    orders: {
+        order_number: string;
+        status: string;
+        customer_name: string;
+        customer_email: string | null;
+        locale: string | null;
+    } | null;
+};
+
+const ADMIN_CHANGE_REQUEST_COLUMNS = `
+    ${CHANGE_REQUEST_COLUMNS},
+    orders (
+        order_number,
+        status,
+        customer_name,
+        customer_email,
+        locale
+    )
+`;
+
+function mapAdminChangeRequest(row: AdminChangeRequestRow): AdminChangeRequest {
+    return {
+        ...mapChangeRequest(row),
+        orderNumber: row.orders?.order_number || '',
+        orderStatus: row.orders?.status || '',
+        customerName: row.orders?.customer_name || '',
+        customerEmail: row.orders?.customer_email || undefined,
+        locale: row.orders?.locale === 'en' ? 'en' : 'vi',
+    };
+}
+
+async function getAdminChangeRequest(requestId: string): Promise<AdminChangeRequest> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_change_requests')
+        .select(ADMIN_CHANGE_REQUEST_COLUMNS)
+        .eq('id', requestId)
+        .maybeSingle();
+
+    if (error || !data) {
+        throw new Error('Change request not found');
+    }
+
+    return mapAdminChangeRequest(data as unknown as AdminChangeRequestRow);
+}
+
+/**
+ * List change requests (most recent activity first)
+ */
+export async function adminListChangeRequests(filter: ChangeRequestFilter = 'open'): Promise<AdminChangeRequest[]> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('order_change_requests')
+        .select(ADMIN_CHANGE_REQUEST_COLUMNS)
+        .order('last_message_at', { ascending: false })
+        .limit(100);
+
+    if (filter !== 'all') {
+        query = query.eq('status', filter);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('Error fetching change requests:', error);
+        return [];
+    }
+
+    return ((data || []) as unknown as AdminChangeRequestRow[]).map(mapAdminChangeRequest);
+}
+
+/**
+ * Count open change requests (inbox badge)
+ */
+export async function adminCountOpenChangeRequests(): Promise<number> {
+    const supabase = createServiceClient();
+
+    const { count, error } = await supabase
+        .from('order_change_requests')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'open');
+
+    if (error) {
+        console.error('Error counting change requests:', error);
+        return 0;
+    }
+
+    return count || 0;
+}
+
+/**
+ * Set the request status (resolved stamps resolved_at)
+ */
+export async function adminUpdateChangeRequestStatus(
+    requestId: string,
+    status: ChangeRequestStatus
+): Promise<AdminChangeRequest> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('order_change_requests')
+        .update({
+            status,
+            resolved_at: status === 'resolved' ? new Date().toISOString() : null,
+        })
+        .eq('id', requestId);
+
+    if (error) {
+        console.error('Error updating change request status:', error);
+        throw new Error('Failed to update change request');
+    }
+
+    return getAdminChangeRequest(requestId);
+}
+
+/**
+ * Reply to a change request, optionally changing its status, and email
+ * the reply to the customer
+ */
+export async function adminReplyToChangeRequest(
+    requestId: string,
+    body: string,
+    adminId: string,
+    status?: ChangeRequestStatus
+): Promise<AdminChangeRequest> {
+    const message = await addChangeRequestMessage({
+        requestId,
+        author: 'admin',
+        authorId: adminId,
+        body,
+    });
+
+    const request = status
+        ? await adminUpdateChangeRequestStatus(requestId, status)
+        : await getAdminChangeRequest(requestId);
+
+    if (request.customerEmail) {
+        // Non-blocking: a failed email must not lose the reply
+        sendChangeRequestReplyEmail(request.orderId, {
+            orderCode: request.orderNumber,
+            customerName: request.customerName,
+            customerEmail: request.customerEmail,
+            messageId: message.id,
+            category: request.category,
+            status: request.status,
+            reply: message.body,
+            locale: request.locale,
+        }).catch((error) => {
+            console.error('Failed to send change request reply email:', error);
+        });
+    }
+
+    return request;
+}
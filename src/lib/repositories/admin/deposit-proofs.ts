@@ -0,0 +1,255 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import { sendDepositApprovedEmail, sendDepositRejectedEmail } from '@/lib/emails/service';
+import { canTransitionOrderStatus, type OrderStatus } from '@/lib/orders/state-machine';
+import { recordManualPayment } from '@/lib/repositories/admin/payments';
+import { transitionOrder } from '@/lib/repositories/orders/transitions';
+import {
+    DEPOSIT_PROOF_RULES,
+    extendDepositDueAfterRejection,
+    getDepositProofAttemptCount,
+    getPendingDepositProofs,
+    reviewDepositProof,
+    type DepositProof,
+} from '@/lib/repositories/deposit-proofs';
+import { generateTransferMemo, generateVietQRForOrder, type VietQRResult } from '@/lib/vietqr/generator';
+
+/**
+ * Admin Deposit Proofs Repository
+ * Review queue of bank transfer proofs across orders, shown next to what the
+ * transfer should match, and the approve/reject flow shared by
+ * /admin/deposit-proofs and the order detail page
+ * Uses service role key to bypass RLS
+ */
+
+export interface AdminDepositProofReview extends DepositProof {
+    orderNumber: string;
+    customerName: string;
+    customerPhone: string;
+    customerEmail?: string;
+    paymentStatus: string;
+    depositAmount: number; // Expected transfer amount
+    total: number;
+    depositDueAt?: string;
+    depositOverdue: boolean; // Due time passed while the proof waits for review
+    transferMemo: string;
+    vietQR: VietQRResult | null; // null when the bank account is not configured
+}
+
+interface ProofOrderRow {
+    id: string;
+    order_number: string;
+    customer_name: string;
+    customer_phone: string;
+    customer_email: string | null;
+    payment_status: string;
+    deposit_amount_vnd: number | null;
+    total: number;
+    deposit_due_at: string | null;
+    bank_transfer_memo: string | null;
+}
+
+/**
+ * Pending proofs with their order's expected amount, memo and VietQR details
+ * Oldest submission first
+ */
+export async function adminListPendingDepositProofs(): Promise<AdminDepositProofReview[]> {
+    const proofs = await getPendingDepositProofs();
+    if (proofs.length === 0) {
+        return [];
+    }
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+        .from('orders')
+        .select(
+            'id, order_number, customer_name, customer_phone, customer_email, payment_status, deposit_amount_vnd, total, deposit_due_at, bank_transfer_memo'
+        )
+        .in('id', [...new Set(proofs.map((proof) => proof.orderId))])
+        .returns<ProofOrderRow[]>();
+
+    if (error) {
+        console.error('Error fetching orders for deposit proofs:', error);
+        throw new Error('Failed to fetch deposit proofs');
+    }
+
+    const orders = new Map((data || []).map((order) => [order.id, order]));
+
+    return proofs.flatMap((proof) => {
+        const order = orders.get(proof.orderId);
+        if (!order) {
+            return [];
+        }
+
+        const depositAmount = Number(order.deposit_amount_vnd || 0);
+        let vietQR: VietQRResult | null = null;
+        try {
+            vietQR = generateVietQRForOrder(order.order_number, depositAmount);
+        } catch (qrError) {
+            console.error('VietQR details unavailable:', qrError);
+        }
+
+        return [
+            {
+                ...proof,
+                orderNumber: order.order_number,
+                customerName: order.customer_name,
+                customerPhone: order.customer_phone,
+                customerEmail: order.customer_email || undefined,
+                paymentStatus: order.payment_status,
+                depositAmount,
+                total: Number(order.total),
+                depositDueAt: order.deposit_due_at || undefined,
+                depositOverdue: order.deposit_due_at ? new Date(order.deposit_due_at) < new Date() : false,
+                transferMemo: order.bank_transfer_memo || generateTransferMemo(order.order_number),
+                vietQR,
+            },
+        ];
+    });
+}
+
+export interface ReviewOrderDepositProofInput {
+    proofId: string;
+    action: 'approve' | 'reject';
+    note?: string; // Required to reject: the customer sees it in the rejection email
+    reviewedBy: string; // Admin user id
+    orderNumber?: string; // When given, the proof must belong to this order
+}
+
+export interface ReviewOrderDepositProofResult {
+    orderId: string;
+    orderNumber: string;
+    proofStatus: 'approved' | 'rejected';
+    paymentStatusBefore: string;
+    paymentStatusAfter: string;
+    depositDueExtendedTo: string | null; // Set when a rejection extended deposit_due_at
+}
+
+/**
+ * Approve or reject a pending proof
+ * Approving marks the deposit paid through the order state machine and records
+ * it in the payments ledger; rejecting may extend the deposit deadline so the
+ * customer can upload a replacement (DEPOSIT_PROOF_RULES). Both outcomes email
+ * the customer (email failures are logged, not thrown).
+ */
+export async function adminReviewDepositProof(
+    input: ReviewOrderDepositProofInput
+): Promise<ReviewOrderDepositProofResult> {
+    const note = input.note?.trim() || undefined;
+    if (input.action === 'reject' && !note) {
+        throw new Error('A rejection reason is required');
+    }
+
+    const supabase = createServiceClient();
+
+    const { data: proof } = await supabase
+        .from('deposit_transfer_proofs')
+        .select('id, order_id, status')
+        .eq('id', input.proofId)
+        .maybeSingle();
+
+    const { data: order } = proof
+        ? await supabase
+              .from('orders')
+              .select('id, order_number, status, customer_email, customer_name, payment_status, locale, deposit_amount_vnd, deposit_due_at')
+              .eq('id', proof.order_id)
+              .maybeSingle()
+        : { data: null };
+
+    if (!proof || !order || (input.orderNumber && order.order_number !== input.orderNumber)) {
+        throw new Error('Proof not found for this order');
+    }
+    if (proof.status !== 'pending') {
+        throw new Error('Proof has already been reviewed');
+    }
+
+    const proofStatus = input.action === 'approve' ? 'approved' : 'rejected';
+    let depositDueExtendedTo: string | null = null;
+    await reviewDepositProof({
+        proofId: input.proofId,
+        status: proofStatus,
+        reviewedBy: input.reviewedBy,
+        reviewNote: note,
+    });
+
+    if (input.action === 'approve') {
+        try {
+            await transitionOrder(
+                { id: order.id },
+                {
+                    paymentStatus: 'deposited',
+                    status: canTransitionOrderStatus(order.status as OrderStatus, 'deposited') ? 'deposited' : undefined,
+                },
+                {
+                    note: note || 'Deposit proof approved',
+                    changedBy: input.reviewedBy,
+                    notify: false, // The deposit approved email is sent below
+                }
+            );
+        } catch (updateError) {
+            console.error('Error updating order status:', updateError);
+            // Don't fail the review - the proof is already marked as approved
+        }
+
+        // Record the deposit in the payments ledger (proof is already approved, so don't throw)
+        try {
+            await recordManualPayment(order.id, {
+                kind: 'deposit',
+                provider: 'bank_transfer',
+                amount: Number(order.deposit_amount_vnd || 0),
+                recordedBy: input.reviewedBy,
+                note: note || 'Deposit proof approved',
+            });
+        } catch (paymentError) {
+            console.error('Failed to record deposit payment:', paymentError);
+        }
+
+        if (order.customer_email) {
+            try {
+                await sendDepositApprovedEmail(order.id, {
+                    orderCode: order.order_number,
+                    customerName: order.customer_name,
+                    customerEmail: order.customer_email,
+                    proofId: input.proofId,
+                    depositAmount: order.deposit_amount_vnd || 0,
+                    locale: order.locale || 'vi',
+                });
+            } catch (emailError) {
+                console.error('Failed to send deposit approval email:', emailError);
+            }
+        }
+    } else {
+        try {
+            depositDueExtendedTo = await extendDepositDueAfterRejection(input.proofId);
+        } catch (extendError) {
+            console.error('Error extending deposit deadline:', extendError);
+            // Don't fail the review - the proof is already marked as rejected
+        }
+
+        if (order.customer_email) {
+            try {
+                const attemptsUsed = await getDepositProofAttemptCount(order.id);
+                await sendDepositRejectedEmail(order.id, {
+                    orderCode: order.order_number,
+                    customerName: order.customer_name,
+                    customerEmail: order.customer_email,
+                    proofId: input.proofId,
+                    rejectionNote: note,
+                    depositDueAt: depositDueExtendedTo || order.deposit_due_at || undefined,
+                    attemptsRemaining: Math.max(DEPOSIT_PROOF_RULES.maxAttempts - attemptsUsed, 0),
+                    locale: order.locale || 'vi',
+                });
+            } catch (emailError) {
+                console.error('Failed to send deposit rejection email:', emailError);
+            }
+        }
+    }
+
+    return {
+        orderId: order.id,
+        orderNumber: order.order_number,
+        proofStatus,
+        paymentStatusBefore: order.payment_status,
+        paymentStatusAfter: input.action === 'approve' ? 'deposited' : order.payment_status,
+        depositDueExtendedTo,
+    };
+}
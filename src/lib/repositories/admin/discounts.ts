@@ -0,0 +1,171 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import type { DiscountCode } from '@/lib/orders/discounts';
+import { DISCOUNT_CODE_COLUMNS, mapDiscountCode, type DiscountCodeRow } from '@/lib/repositories/discounts';
+
+/**
+ * Admin Discounts Repository
+ * Discount codes and their redemption counts (/admin/discounts)
+ */
+
+export type DiscountCodePayload = Omit<DiscountCode, 'id'>;
+
+export interface AdminDiscountCode extends DiscountCode {
+    redemptionCount: number; // Orders currently holding the code (cancelled orders give theirs back)
+}
+
+type AdminDiscountCodeRow = DiscountCodeRow & {
+    discount_code_redemptions: Array<{ count: number }> | null;
+};
+
+/**
+ * All codes, newest first
+ */
+export async function adminListDiscountCodes(): Promise<AdminDiscountCode[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('discount_codes')
+        .select(`${DISCOUNT_CODE_COLUMNS}, discount_code_redemptions(count)`)
+        .order('created_at', { ascending: false })
+        .returns<AdminDiscountCodeRow[]>();
+
+    if (error) {
+        console.error('Error fetching discount codes:', error);
+        throw new Error('Failed to fetch discount codes');
+    }
+
+    return (data || []).map((row) => ({
+        ...mapDiscountCode(row),
+        redemptionCount: row.discount_code_redemptions?.[0]?.count || 0,
+    }));
+}
+
+async function adminGetDiscountCode(id: string): Promise<DiscountCode | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('discount_codes')
+        .select(DISCOUNT_CODE_COLUMNS)
+        .eq('id', id)
+        .maybeSingle<DiscountCodeRow>();
+
+    if (error) {
+        console.error('Error fetching discount code:', error);
+        throw new Error('Failed to fetch discount code');
+    }
+
+    return data ? mapDiscountCode(data) : null;
+}
+
+function toDiscountCodeRow(payload: DiscountCodePayload) {
+    return {
+        code: payload.code,
+        description: payload.description || null,
+        discount_type: payload.discountType,
+        value: payload.value,
+        max_discount: payload.maxDiscount ?? null,
+        min_order_amount: payload.minOrderAmount,
+        scope: payload.scope,
+        product_ids: payload.productIds,
+        tube_types: payload.tubeTypes,
+        usage_limit: payload.usageLimit ?? null,
+        per_customer_limit: payload.perCustomerLimit ?? null,
+        starts_at: payload.startsAt || null,
+        expires_at: payload.expiresAt || null,
+        is_active: payload.isActive,
+    };
+}
+
+/**
+ * Create a code
+ */
+export async function adminCreateDiscountCode(payload: DiscountCodePayload, createdBy: string): Promise<string> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('discount_codes')
+        .insert({ ...toDiscountCodeRow(payload), created_by: createdBy })
+        .select('id')
+        .single();
+
+    if (error || !data) {
+        if (error?.code === '23505') {
+            throw new Error(`Discount code ${payload.code} already exists`);
+        }
+        console.error('Error creating discount code:', error);
+        throw new Error('Failed to create discount code');
+    }
+
+    return data.id;
+}
+
+/**
+ * Update a code
+ * Returns the code as it was before (for the audit log)
+ */
+export async function adminUpdateDiscountCode(id: string, payload: DiscountCodePayload): Promise<DiscountCode> {
+    const supabase = createServiceClient();
+
+    const previous = await adminGetDiscountCode(id);
+    if (!previous) {
+        throw new Error('Discount code not found');
+    }
+
+    const { error } = await supabase.from('discount_codes').update(toDiscountCodeRow(payload)).eq('id', id);
+
+    if (error) {
+        if (error.code === '23505') {
+            throw new Error(`Discount code ${payload.code} already exists`);
+        }
+        console.error('Error updating discount code:', error);
+        throw new Error('Failed to update discount code');
+    }
+
+    return previous;
+}
+
+/**
+ * Delete a code (orders keep the amount and the code text; discount_code_id is cleared)
+ */
+export async function adminDeleteDiscountCode(id: string): Promise<DiscountCode> {
+    const supabase = createServiceClient();
+
+    const previous = await adminGetDiscountCode(id);
+    if (!previous) {
+        throw new Error('Discount code not found');
+    }
+
+    const { error } = await supabase.from('discount_codes').delete().eq('id', id);
+
+    if (error) {
+        console.error('Error deleting discount code:', error);
+        throw new Error('Failed to delete discount code');
+    }
+
+    return previous;
+}
+
+/**
+ * Products and tube types a code can be scoped to
+ */
+export async function adminGetDiscountScopeOptions(): Promise<{
+    products: Array<{ id: string; name: string }>;
+    tubeTypes: string[];
+}> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('products')
+        .select('id, name, tube_type')
+        .order('name', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching discount scope options:', error);
+        throw new Error('Failed to fetch products');
+    }
+
+    return {
+        products: (data || []).map((product) => ({ id: product.id, name: product.name })),
+        tubeTypes: [...new Set((data || []).map((product) => product.tube_type).filter(Boolean))].sort(),
+    };
+}
@@ -0,0 +1,316 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import { GUIDE_CATEGORIES, type GuideCategory } from '@/lib/types/guides';
+
+/**
+ * Admin Guides Repository
+ * Server-only CRUD for guides and their vi/en translations
+ * Uses service role key to bypass RLS
+ */
+
+export interface AdminGuideListItem {
+    id: string;
+    slug: string;
+    category: GuideCategory;
+    title: string; // Primary title (vi)
+    status: 'published' | 'draft';
+    hasEnglish: boolean;
+    sortOrder: number;
+    updatedAt: string;
+}
+
+export interface GuideTranslationPayload {
+    title: string;
+    description?: string;
+    content?: string;
+}
+
+export interface GuidePayload {
+    slug: string;
+    category: GuideCategory;
+    icon?: string;
+    imageUrl?: string;
+    sortOrder?: number;
+    isPublished?: boolean;
+    translations: {
+        vi: GuideTranslationPayload;
+        // Optional: the storefront falls back to vi
+        en?: GuideTranslationPayload;
+    };
+}
+
+export interface AdminGuide extends GuidePayload {
+    id: string;
+    publishedAt?: string;
+    updatedAt: string;
+}
+
+interface AdminGuideRow {
+    id: string;
+    slug: string;
+    category: string;
+    icon: string | null;
+    image_url: string | null;
+    sort_order: number | null;
+    is_published: boolean | null;
+    published_at: string | null;
+    updated_at: string;
+    guide_translations: Array<{
+        locale: string;
+        title: string;
+        description: string | null;
+        content: string | null;
+    }> | null;
+}
+
+function normalizeSlug(slug: string): string {
+    return slug.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+function validatePayload(payload: GuidePayload): void {
+    if (!normalizeSlug(payload.slug || '')) {
+        throw new Error('Slug is required');
+    }
+    if (!GUIDE_CATEGORIES.includes(payload.category)) {
+        throw new Error('Invalid guide category');
+    }
+    if (!payload.translations?.vi?.title?.trim()) {
+        throw new Error('Vietnamese title is required');
+    }
+}
+
+function toTranslationRows(guideId: string, translations: GuidePayload['translations']) {
+    const rows = [
+        {
+            guide_id: guideId,
+            locale: 'vi',
+            title: translations.vi.title.trim(),
+            description: translations.vi.description || null,
+            content: translations.vi.content || null,
+        },
+    ];
+
+    if (translations.en?.title?.trim()) {
+        rows.push({
+            guide_id: guideId,
+            locale: 'en',
+            title: translations.en.title.trim(),
+            description: translations.en.description || null,
+            content: translations.en.content || null,
+        });
+    }
+
+    return rows;
+}
+
+/**
+ * List all guides (published and drafts)
+ */
+export async function adminListGuides(): Promise<AdminGuideListItem[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('guides')
+        .select('id, slug, category, icon, image_url, sort_order, is_published, published_at, updated_at, guide_translations(locale, title)')
+        .order('category', { ascending: true })
+        .order('sort_order', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching guides:', error);
+        throw new Error('Failed to fetch guides');
+    }
+
+    return ((data || []) as unknown as AdminGuideRow[]).map((guide) => {
+        const translations = guide.guide_translations || [];
+        const viTranslation = translations.find((t) => t.locale === 'vi');
+
+        return {
+            id: guide.id,
+            slug: guide.slug,
+            category: guide.category as GuideCategory,
+            title: viTranslation?.title || translations[0]?.title || guide.slug,
+            status: guide.is_published ? 'published' : 'draft',
+            hasEnglish: translations.some((t) => t.locale === 'en'),
+            sortOrder: guide.sort_order ?? 0,
+            updatedAt: guide.updated_at,
+        };
+    });
+}
+
+/**
+ * Get a guide with both translations for editing
+ */
+export async function adminGetGuideById(id: string): Promise<AdminGuide | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('guides')
+        .select('id, slug, category, icon, image_url, sort_order, is_published, published_at, updated_at, guide_translations(locale, title, description, content)')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error || !data) {
+        if (error) console.error('Error fetching guide:', error);
+        return null;
+    }
+
+    const guide = data as unknown as AdminGuideRow;
+    const translations = guide.guide_translations || [];
+    const toPayload = (locale: string): GuideTranslationPayload | undefined => {
+        const translation = translations.find((t) => t.locale === locale);
+        return translation
+            ? {
+                  title: translation.title,
+                  description: translation.description || undefined,
+                  content: translation.content || undefined,
+              }
+            : undefined;
+    };
+
+    return {
+        id: guide.id,
+        slug: guide.slug,
+        category: guide.category as GuideCategory,
+        icon: guide.icon || undefined,
+        imageUrl: guide.image_url || undefined,
+        sortOrder: guide.sort_order ?? 0,
+        isPublished: guide.is_published === true,
+        publishedAt: guide.published_at || undefined,
+        updatedAt: guide.updated_at,
+        translations: {
+            vi: toPayload('vi') || { title: '' },
+            en: toPayload('en'),
+        },
+    };
+}
+
+/**
+ * Create a guide with its translations
+ */
+export async function adminCreateGuide(payload: GuidePayload): Promise<string> {
+    validatePayload(payload);
+    const supabase = createServiceClient();
+    const slug = normalizeSlug(payload.slug);
+
+    // Validate slug uniqueness
+    const { data: existing } = await supabase.from('guides').select('id').eq('slug', slug).maybeSingle();
+    if (existing) {
+        throw new Error('Guide slug already exists');
+    }
+
+    const { data: guide, error: guideError } = await supabase
+        .from('guides')
+        .insert({
+            slug,
+            category: payload.category,
+            icon: payload.icon || null,
+            image_url: payload.imageUrl || null,
+            sort_order: payload.sortOrder || 0,
+            is_published: payload.isPublished || false,
+            published_at: payload.isPublished ? new Date().toISOString() : null,
+        })
+        .select('id')
+        .single();
+
+    if (guideError || !guide) {
+        console.error('Error creating guide:', guideError);
+        throw new Error('Failed to create guide');
+    }
+
+    const { error: translationError } = await supabase
+        .from('guide_translations')
+        .insert(toTranslationRows(guide.id, payload.translations));
+
+    if (translationError) {
+        // Rollback guide creation
+        await supabase.from('guides').delete().eq('id', guide.id);
+        console.error('Error creating guide translations:', translationError);
+        throw new Error('Failed to create guide translations');
+    }
+
+    return guide.id;
+}
+
+/**
+ * Update a guide and upsert its translations
+ * Clearing the English title removes the English translation
+ */
+export async function adminUpdateGuide(id: string, payload: GuidePayload): Promise<{ slug: string; previousSlug: string }> {
+    validatePayload(payload);
+    const supabase = createServiceClient();
+    const slug = normalizeSlug(payload.slug);
+
+    const { data: current, error: currentError } = await supabase
+        .from('guides')
+        .select('slug, is_published, published_at')
+        .eq('id', id)
+        .single();
+
+    if (currentError || !current) {
+        throw new Error('Guide not found');
+    }
+
+    if (slug !== current.slug) {
+        const { data: existing } = await supabase.from('guides').select('id').eq('slug', slug).maybeSingle();
+        if (existing) {
+            throw new Error('Guide slug already exists');
+        }
+    }
+
+    const isPublished = payload.isPublished || false;
+    const { error: guideError } = await supabase
+        .from('guides')
+        .update({
+            slug,
+            category: payload.category,
+            icon: payload.icon || null,
+            image_url: payload.imageUrl || null,
+            sort_order: payload.sortOrder || 0,
+            is_published: isPublished,
+            // Keep the original publish date when re-saving
+            published_at: isPublished ? current.published_at || new Date().toISOString() : null,
+        })
+        .eq('id', id);
+
+    if (guideError) {
+        console.error('Error updating guide:', guideError);
+        throw new Error('Failed to update guide');
+    }
+
+    const { error: translationError } = await supabase
+        .from('guide_translations')
+        .upsert(toTranslationRows(id, payload.translations), {
+            onConflict: 'guide_id,locale',
+        });
+
+    if (translationError) {
+        console.error('Error updating guide translations:', translationError);
+        throw new Error('Failed to update guide translations');
+    }
+
+    if (!payload.translations.en?.title?.trim()) {
+        await supabase.from('guide_translations').delete().eq('guide_id', id).eq('locale', 'en');
+    }
+
+    return { slug, previousSlug: current.slug };
+}
+
+/**
+ * Delete a guide (translations cascade)
+ */
+export async function adminDeleteGuide(id: string): Promise<{ slug: string }> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('guides')
+        .delete()
+        .eq('id', id)
+        .select('slug')
+        .single();
+
+    if (error || !data) {
+        console.error('Error deleting guide:', error);
+        throw new Error('Failed to delete guide');
+    }
+
+    return { slug: data.slug };
+}
@@ -1,7 +1,39 @@
 import { createServiceClient } from '@/lib/supabase/service';
-import { sendStatusUpdateEmail } from '@/lib/emails/service';
-import type { Locale } from '@/config/locales';
-import { parseStripeMetadata, serializeStripeMetadata, type StripeMetadata } from '@/lib/stripe/server';
+import type { EmailStatus, EmailType } from '@/lib/emails/service';
+import type { OutboxStatus } from '@/lib/emails/outbox';
+import { getPaidTotal } from '@/lib/orders/refunds';
+import {
+    canTransitionOrderStatus,
+    canTransitionPaymentStatus,
+    type OrderStatus,
+    type PaymentStatus,
+} from '@/lib/orders/state-machine';
+import {
+    createShipment,
+    deleteShipment,
+    mapOrderShipments,
+    ORDER_SHIPMENT_COLUMNS,
+    type OrderShipment,
+} from '@/lib/repositories/orders/shipments';
+import { transitionOrder } from '@/lib/repositories/orders/transitions';
+import { CARRIER_NAMES, type CarrierCode } from '@/lib/shipping/types';
+import {
+    getOrderPaymentLedger,
+    getRefundByExternalId,
+    getRefundedAmount,
+    getStripePaymentByIntent,
+    mapOrderPayment,
+    mapOrderRefund,
+    ORDER_PAYMENT_COLUMNS,
+    ORDER_REFUND_COLUMNS,
+    recordManualPayment,
+    toRefundStatus,
+    upsertStripePayment,
+    upsertStripeRefund,
+    type OrderPayment,
+    type OrderPaymentKind,
+    type OrderRefund,
+} from '@/lib/repositories/admin/payments';
 
 /**
  * Admin Orders Repository
@@ -9,8 +41,7 @@ import { parseStripeMetadata, serializeStripeMetadata, type StripeMetadata } fro
  * Uses service role key to bypass RLS
  */
 
-export type OrderStatus = 'pending' | 'confirmed' | 'deposited' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded' | 'expired';
-export type PaymentStatus = 'pending' | 'deposit_pending' | 'deposited' | 'paid' | 'failed' | 'refund_pending' | 'partially_refunded' | 'refunded';
+export type { OrderStatus, PaymentStatus };
 
 export interface AdminOrderFilters {
     q?: string; // Search: order_number, customer_phone, customer_email
@@ -72,13 +103,83 @@ export interface OrderStatusHistory {
 }
 
 export interface OrderEmailStatus {
-    type: 'order_confirmation' | 'status_update';
-    status: 'queued' | 'sent' | 'failed' | 'skipped_no_email';
+    id: string;
+    type: EmailType;
+    idempotencyKey: string;
+    toEmail: string;
+    status: EmailStatus;
     createdAt: string;
+    updatedAt: string;
     errorMessage?: string;
     metadataStatus?: string;
 }
 
+interface OrderEmailRow {
+    id: string;
+    type: EmailType;
+    idempotency_key: string;
+    to_email: string;
+    status: EmailStatus;
+    created_at: string;
+    updated_at: string;
+    error_message: string | null;
+    metadata_status: string | null;
+}
+
+export interface OrderEmailDelivery {
+    id: string;
+    type: string;
+    toEmail: string;
+    subject: string;
+    status: OutboxStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: string;
+    lastError?: string;
+    provider?: string;
+    sentAt?: string;
+    createdAt: string;
+}
+
+interface EmailOutboxRow {
+    id: string;
+    type: string;
+    to_email: string;
+    subject: string;
+    status: OutboxStatus;
+    attempts: number;
+    max_attempts: number;
+    next_attempt_at: string;
+    last_error: string | null;
+    provider: string | null;
+    sent_at: string | null;
+    created_at: string;
+}
+
+export interface OrderDepositProof {
+    id: string;
+    attemptNumber: number;
+    imageUrls: string[];
+    status: 'pending' | 'approved' | 'rejected';
+    submittedAt: string;
+    customerNote?: string;
+    reviewedAt?: string;
+    reviewNote?: string;
+    depositDueExtendedTo?: string;
+}
+
+interface DepositProofRow {
+    id: string;
+    attempt_number: number;
+    image_urls: string[] | null;
+    status: 'pending' | 'approved' | 'rejected';
+    submitted_at: string;
+    customer_note: string | null;
+    reviewed_at: string | null;
+    review_note: string | null;
+    deposit_due_extended_to: string | null;
+}
+
 export interface AdminOrderDetail {
     id: string;
     orderNumber: string;
@@ -90,11 +191,15 @@ export interface AdminOrderDetail {
     shippingAddressLine: string;
     shippingCity: string;
     shippingDistrict?: string;
+    shippingWard?: string;
     shippingPostalCode?: string;
     subtotal: number;
     shippingFee: number;
+    shippingWeightKg?: number;
+    shippingInsuranceFee: number; // Part of shippingFee
     tax: number;
     discount: number;
+    discountCode?: string;
     total: number;
     paymentMethod: 'cod' | 'bank_transfer';
     paymentStatus: PaymentStatus;
@@ -112,13 +217,12 @@ export interface AdminOrderDetail {
     orderItems: OrderItem[];
     statusHistory: OrderStatusHistory[];
     emailStatuses: OrderEmailStatus[];
-    depositProof?: {
-        id: string;
-        imageUrls: string[];
-        status: 'pending' | 'approved' | 'rejected';
-        submittedAt: string;
-        reviewNote?: string;
-    };
+    emailDeliveries: OrderEmailDelivery[];
+    payments: OrderPayment[];
+    refunds: OrderRefund[];
+    shipments: OrderShipment[]; // Newest first
+    depositProof?: OrderDepositProof; // Latest attempt
+    depositProofHistory: OrderDepositProof[]; // Every attempt, newest first
 }
 
 /**
@@ -237,12 +341,33 @@ export async function adminGetOrderByCode(orderCode: string): Promise<AdminOrder
                 created_at
             ),
             order_emails (
+                id,
                 type,
+                idempotency_key,
+                to_email,
                 status,
                 created_at,
+                updated_at,
                 error_message,
                 metadata_status
-            )
+            ),
+            email_outbox (
+                id,
+                type,
+                to_email,
+                subject,
+                status,
+                attempts,
+                max_attempts,
+                next_attempt_at,
+                last_error,
+                provider,
+                sent_at,
+                created_at
+            ),
+            order_payments (${ORDER_PAYMENT_COLUMNS}),
+            order_refunds (${ORDER_REFUND_COLUMNS}),
+            order_shipments (${ORDER_SHIPMENT_COLUMNS})
         `
         )
         .eq('order_number', orderCode)
@@ -253,26 +378,30 @@ export async function adminGetOrderByCode(orderCode: string): Promise<AdminOrder
         return null;
     }
 
-    // Fetch latest deposit proof if this is a bank transfer deposit
-    let depositProof: AdminOrderDetail['depositProof'] = undefined;
+    // Fetch every deposit proof attempt if this is a bank transfer deposit
+    let depositProofHistory: OrderDepositProof[] = [];
     if (order.order_type === 'deposit_reservation' && order.payment_method === 'bank_transfer') {
-        const { data: proof } = await supabase
+        const { data: proofs, error: proofsError } = await supabase
             .from('deposit_transfer_proofs')
-            .select('id, image_urls, status, submitted_at, review_note')
+            .select('id, attempt_number, image_urls, status, submitted_at, customer_note, reviewed_at, review_note, deposit_due_extended_to')
             .eq('order_id', order.id)
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .maybeSingle();
+            .order('attempt_number', { ascending: false });
         
-        if (proof) {
-            depositProof = {
-                id: proof.id,
-                imageUrls: proof.image_urls || [],
-                status: proof.status as 'pending' | 'approved' | 'rejected',
-                submittedAt: proof.submitted_at,
-                reviewNote: proof.review_note || undefined,
-            };
+        if (proofsError) {
+            console.error('Error fetching deposit proofs:', proofsError);
         }
+        
+        depositProofHistory = ((proofs || []) as DepositProofRow[]).map((proof) => ({
+            id: proof.id,
+            attemptNumber: proof.attempt_number,
+            imageUrls: proof.image_urls || [],
+            status: proof.status,
+            submittedAt: proof.submitted_at,
+            customerNote: proof.customer_note || undefined,
+            reviewedAt: proof.reviewed_at || undefined,
+            reviewNote: proof.review_note || undefined,
+            depositDueExtendedTo: proof.deposit_due_extended_to || undefined,
+        }));
     }
 
     return {
@@ -286,11 +415,15 @@ export async function adminGetOrderByCode(orderCode: string): Promise<AdminOrder
         shippingAddressLine: order.shipping_address_line,
         shippingCity: order.shipping_city,
         shippingDistrict: order.shipping_district || undefined,
+        shippingWard: order.shipping_ward || undefined,
         shippingPostalCode: order.shipping_postal_code || undefined,
         subtotal: Number(order.subtotal),
         shippingFee: Number(order.shipping_fee),
+        shippingWeightKg: order.shipping_weight_kg != null ? Number(order.shipping_weight_kg) : undefined,
+        shippingInsuranceFee: Number(order.shipping_insurance_fee || 0),
         tax: Number(order.tax),
         discount: Number(order.discount),
+        discountCode: order.discount_code || undefined,
         total: Number(order.total),
         paymentMethod: order.payment_method,
         paymentStatus: order.payment_status as PaymentStatus,
@@ -324,145 +457,124 @@ export async function adminGetOrderByCode(orderCode: string): Promise<AdminOrder
                 changedBy: history.changed_by || undefined,
                 createdAt: history.created_at,
             })),
-        emailStatuses: (order.order_emails || [])
-            .sort((a: any, b: any) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-            .map((email: any) => ({
-                type: email.type as 'order_confirmation' | 'status_update',
-                status: email.status as 'queued' | 'sent' | 'failed' | 'skipped_no_email',
+        emailStatuses: ((order.order_emails || []) as OrderEmailRow[])
+            .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+            .map((email) => ({
+                id: email.id,
+                type: email.type,
+                idempotencyKey: email.idempotency_key,
+                toEmail: email.to_email,
+                status: email.status,
                 createdAt: email.created_at,
+                updatedAt: email.updated_at,
                 errorMessage: email.error_message || undefined,
                 metadataStatus: email.metadata_status || undefined,
             })),
-        depositProof,
+        emailDeliveries: ((order.email_outbox || []) as EmailOutboxRow[])
+            .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+            .map((message) => ({
+                id: message.id,
+                type: message.type,
+                toEmail: message.to_email,
+                subject: message.subject,
+                status: message.status,
+                attempts: message.attempts,
+                maxAttempts: message.max_attempts,
+                nextAttemptAt: message.next_attempt_at,
+                lastError: message.last_error || undefined,
+                provider: message.provider || undefined,
+                sentAt: message.sent_at || undefined,
+                createdAt: message.created_at,
+            })),
+        payments: (order.order_payments || [])
+            .map(mapOrderPayment)
+            .sort((a: OrderPayment, b: OrderPayment) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+        refunds: (order.order_refunds || [])
+            .map(mapOrderRefund)
+            .sort((a: OrderRefund, b: OrderRefund) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+        shipments: mapOrderShipments(order.order_shipments),
+        depositProof: depositProofHistory[0],
+        depositProofHistory,
     };
 }
 
-/**
- * Validate status transition
- * Rules:
- * - pending → confirmed → processing → shipped → delivered
- * - pending/confirmed/processing/shipped → cancelled
- * - Any status → refunded (if needed)
- */
-function isValidStatusTransition(currentStatus: OrderStatus, newStatus: OrderStatus): boolean {
-    // Define allowed transitions
-    const allowedTransitions: Record<OrderStatus, OrderStatus[]> = {
-        pending: ['confirmed', 'cancelled', 'expired'],
-        confirmed: ['processing', 'deposited', 'cancelled'],
-        deposited: ['processing', 'cancelled'],
-        processing: ['shipped', 'cancelled'],
-        shipped: ['delivered', 'cancelled'],
-        delivered: ['refunded'], // Can refund delivered orders
-        cancelled: [], // Terminal state
-        refunded: [], // Terminal state
-        expired: [], // Terminal state
-    };
-
-    return allowedTransitions[currentStatus]?.includes(newStatus) ?? false;
-}
 
 /**
  * Update order status with history logging
+ * Allowed transitions and side effects (stock, emails, timestamps) come from
+ * the order state machine. Shipping requires the carrier and tracking number,
+ * which are registered as a shipment for carrier tracking.
  */
 export async function adminUpdateOrderStatus(
     orderCode: string,
     newStatus: OrderStatus,
     note?: string,
-    changedBy?: string
+    changedBy?: string,
+    shipment?: { carrier: CarrierCode; trackingNumber: string }
 ): Promise<void> {
-    const supabase = createServiceClient();
+    let shipmentId: string | null = null;
+    let historyNote = note;
 
-    // Get current order with customer info and locale
-    const { data: currentOrder, error: fetchError } = await supabase
-        .from('orders')
-        .select('id, status, customer_email, customer_name, locale')
-        .eq('order_number', orderCode)
-        .single();
+    if (newStatus === 'shipped') {
+        const trackingNumber = shipment?.trackingNumber.trim();
+        if (!shipment?.carrier || !trackingNumber) {
+            throw new Error('Carrier and tracking number are required to ship an order');
+        }
 
-    if (fetchError || !currentOrder) {
-        throw new Error('Order not found');
-    }
+        const supabase = createServiceClient();
+        const { data: order, error: fetchError } = await supabase
+            .from('orders')
+            .select('id')
+            .eq('order_number', orderCode)
+            .single();
 
-    const currentStatus = currentOrder.status as OrderStatus;
+        if (fetchError || !order) {
+            throw new Error('Order not found');
+        }
 
-    // Validate transition
-    if (currentStatus === newStatus) {
-        throw new Error('Order is already in this status');
-    }
+        shipmentId = await createShipment(order.id, { carrier: shipment.carrier, trackingNumber, createdBy: changedBy });
 
-    if (!isValidStatusTransition(currentStatus, newStatus)) {
-        throw new Error(`Invalid status transition from ${currentStatus} to ${newStatus}`);
+        // Shown in the status history and the shipped email
+        const trackingLine = `${CARRIER_NAMES[shipment.carrier]}: ${trackingNumber}`;
+        historyNote = note ? `${note}\n${trackingLine}` : trackingLine;
     }
 
-    // Update order status
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({ status: newStatus })
-        .eq('id', currentOrder.id);
-
-    if (updateError) {
-        console.error('Error updating order status:', updateError);
-        throw new Error('Failed to update order status');
-    }
+    try {
+        const { plan } = await transitionOrder(
+            { orderNumber: orderCode },
+            { status: newStatus },
+            { note: historyNote, changedBy }
+        );
 
-    // Insert history entry manually with note and changed_by if provided
-    if (note || changedBy) {
-        // Get the most recent history entry (created by trigger)
-        const { data: historyEntries } = await supabase
-            .from('order_status_history')
-            .select('id')
-            .eq('order_id', currentOrder.id)
-            .eq('to_status', newStatus)
-            .order('created_at', { ascending: false })
-            .limit(1);
-
-        if (historyEntries && historyEntries.length > 0) {
-            const updateData: any = {};
-            if (note) updateData.note = note;
-            if (changedBy) updateData.changed_by = changedBy;
-
-            await supabase
-                .from('order_status_history')
-                .update(updateData)
-                .eq('id', historyEntries[0].id);
+        if (!plan.statusChanged) {
+            throw new Error('Order is already in this status');
         }
-    }
-
-    // Send status update email (non-blocking)
-    if (currentOrder.customer_email) {
-        const locale = (currentOrder.locale === 'vi' || currentOrder.locale === 'en') 
-            ? currentOrder.locale 
-            : 'vi';
-        
-        sendStatusUpdateEmail(currentOrder.id, {
-            orderCode,
-            customerName: currentOrder.customer_name,
-            customerEmail: currentOrder.customer_email,
-            oldStatus: currentStatus,
-            newStatus,
-            note,
-            locale: locale as Locale,
-        }).catch((error) => {
-            console.error('Failed to send status update email:', error);
-            // Don't throw - email failure shouldn't break status update
-        });
+    } catch (error) {
+        if (shipmentId) {
+            await deleteShipment(shipmentId).catch((deleteError) => {
+                console.error('Failed to remove shipment after status update failed:', deleteError);
+            });
+        }
+        throw error;
     }
 }
 
 /**
  * Mark deposit as received for a deposit reservation order
+ * payment.amount / payment.reference describe the transfer (defaults to the deposit amount)
  */
 export async function adminMarkDepositReceived(
     orderCode: string,
     note?: string,
-    changedBy?: string
+    changedBy?: string,
+    payment: { amount?: number; reference?: string } = {}
 ): Promise<void> {
     const supabase = createServiceClient();
 
     // Get current order
     const { data: currentOrder, error: fetchError } = await supabase
         .from('orders')
-        .select('id, order_type, payment_status, deposit_amount_vnd, status')
+        .select('id, order_type, payment_method, payment_status, deposit_amount_vnd, status')
         .eq('order_number', orderCode)
         .single();
 
@@ -478,96 +590,51 @@ export async function adminMarkDepositReceived(
         throw new Error('Deposit already marked as received');
     }
 
-    // Update order
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-            payment_status: 'deposited',
-            deposit_received_at: new Date().toISOString(),
-            deposit_paid: currentOrder.deposit_amount_vnd, // Legacy field
-            status: 'deposited', // Move to deposited status after deposit received
-        })
-        .eq('id', currentOrder.id);
-
-    if (updateError) {
-        console.error('Error marking deposit received:', updateError);
-        throw new Error('Failed to mark deposit as received');
-    }
-
-    // Insert status history (trigger will create one, but we update it with note/changed_by if provided)
-    const { data: historyEntries } = await supabase
-        .from('order_status_history')
-        .select('id')
-        .eq('order_id', currentOrder.id)
-        .eq('to_status', 'deposited')
-        .order('created_at', { ascending: false })
-        .limit(1);
-
-    if (historyEntries && historyEntries.length > 0) {
-        // Update the trigger-created entry with note and changed_by
-        const updateData: any = {};
-        if (note) updateData.note = note;
-        if (changedBy) updateData.changed_by = changedBy;
-        
-        if (Object.keys(updateData).length > 0) {
-            await supabase
-                .from('order_status_history')
-                .update(updateData)
-                .eq('id', historyEntries[0].id);
+    // Move to deposited status unless the order is already past it (or closed)
+    await transitionOrder(
+        { id: currentOrder.id },
+        {
+            paymentStatus: 'deposited',
+            status: canTransitionOrderStatus(currentOrder.status as OrderStatus, 'deposited') ? 'deposited' : undefined,
+        },
+        {
+            note: note || 'Deposit received',
+            changedBy,
+            fields: { deposit_paid: currentOrder.deposit_amount_vnd }, // Legacy field
         }
-    } else {
-        // Fallback: create manually if trigger didn't create it
-        await supabase
-            .from('order_status_history')
-            .insert({
-                order_id: currentOrder.id,
-                from_status: currentOrder.status as OrderStatus,
-                to_status: 'deposited',
-                note: note || 'Deposit received',
-                changed_by: changedBy || null,
-            });
-    }
-
-    // Send deposit received email
-    const { data: orderForEmail } = await supabase
-        .from('orders')
-        .select('id, customer_email, customer_name, locale')
-        .eq('id', currentOrder.id)
-        .single();
+    );
 
-    if (orderForEmail?.customer_email) {
-        const locale = (orderForEmail.locale === 'vi' || orderForEmail.locale === 'en') 
-            ? orderForEmail.locale 
-            : 'vi';
-        
-        sendStatusUpdateEmail(orderForEmail.id, {
-            orderCode,
-            customerName: orderForEmail.customer_name,
-            customerEmail: orderForEmail.customer_email,
-            oldStatus: currentOrder.status as OrderStatus,
-            newStatus: 'deposited',
-            note: note || 'Deposit received',
-            locale: locale as Locale,
-        }).catch((error) => {
-            console.error('Failed to send deposit received email:', error);
+    // Record the deposit in the payments ledger (order is already updated, so don't throw)
+    try {
+        await recordManualPayment(currentOrder.id, {
+            kind: 'deposit',
+            provider: currentOrder.payment_method,
+            amount: payment.amount ?? Number(currentOrder.deposit_amount_vnd || 0),
+            reference: payment.reference,
+            recordedBy: changedBy,
+            note,
         });
+    } catch (error) {
+        console.error('Failed to record deposit payment:', error);
     }
 }
 
 /**
- * Expire a deposit reservation (releases inventory)
+ * Mark a standard order as fully paid (admin-confirmed bank transfer)
+ * payment.amount / payment.reference describe the transfer (defaults to the order total)
  */
-export async function adminExpireReservation(
+export async function adminMarkOrderPaid(
     orderCode: string,
     note?: string,
-    changedBy?: string
+    changedBy?: string,
+    payment: { amount?: number; reference?: string } = {}
 ): Promise<void> {
     const supabase = createServiceClient();
 
     // Get current order
     const { data: currentOrder, error: fetchError } = await supabase
         .from('orders')
-        .select('id, order_type, status, order_items(product_id, quantity)')
+        .select('id, order_type, payment_method, payment_status, status, total')
         .eq('order_number', orderCode)
         .single();
 
@@ -575,78 +642,55 @@ export async function adminExpireReservation(
         throw new Error('Order not found');
     }
 
-    if (currentOrder.order_type !== 'deposit_reservation') {
-        throw new Error('Order is not a deposit reservation');
+    if (currentOrder.order_type === 'deposit_reservation') {
+        throw new Error('Deposit reservations are settled via deposit received');
     }
 
-    if (currentOrder.status === 'expired') {
-        throw new Error('Reservation already expired');
+    if (currentOrder.payment_status === 'paid') {
+        throw new Error('Order already marked as paid');
     }
 
-    // Update order status to expired
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-            status: 'expired',
-        })
-        .eq('id', currentOrder.id);
-
-    if (updateError) {
-        console.error('Error expiring reservation:', updateError);
-        throw new Error('Failed to expire reservation');
-    }
+    // Full payment moves a pending order to confirmed
+    await transitionOrder(
+        { id: currentOrder.id },
+        {
+            paymentStatus: 'paid',
+            status: currentOrder.status === 'pending' ? 'confirmed' : undefined,
+        },
+        { note: note || 'Payment received', changedBy }
+    );
 
-    // Restore inventory (increment stock for each item)
-    const orderItems = currentOrder.order_items as Array<{ product_id: string; quantity: number }>;
-    for (const item of orderItems) {
-        const rpcResult = await supabase.rpc('increment_stock', {
-            product_id: item.product_id,
-            quantity: item.quantity,
+    // Record the payment in the payments ledger (order is already updated, so don't throw)
+    try {
+        await recordManualPayment(currentOrder.id, {
+            kind: 'charge',
+            provider: currentOrder.payment_method,
+            amount: payment.amount ?? Number(currentOrder.total),
+            reference: payment.reference,
+            recordedBy: changedBy,
+            note,
         });
-        
-        if (rpcResult.error) {
-            // Fallback: direct update if RPC doesn't exist
-            const { data: product } = await supabase
-                .from('products')
-                .select('stock_quantity')
-                .eq('id', item.product_id)
-                .single();
-            
-            if (product) {
-                await supabase
-                    .from('products')
-                    .update({ stock_quantity: product.stock_quantity + item.quantity })
-                    .eq('id', item.product_id);
-            }
-        }
+    } catch (error) {
+        console.error('Failed to record payment:', error);
     }
-
-    // Insert status history
-    await supabase
-        .from('order_status_history')
-        .insert({
-            order_id: currentOrder.id,
-            from_status: currentOrder.status as OrderStatus,
-            to_status: 'expired',
-            note: note || 'Reservation expired',
-            changed_by: changedBy || null,
-        });
 }
 
 /**
- * Cancel a deposit reservation (releases inventory)
+ * Mark the remaining balance of a deposit reservation as received (admin-confirmed bank transfer)
+ * payment.amount / payment.reference describe the transfer (defaults to the remaining amount)
  */
-export async function adminCancelReservation(
+export async function adminMarkBalanceReceived(
     orderCode: string,
     note?: string,
-    changedBy?: string
+    changedBy?: string,
+    payment: { amount?: number; reference?: string } = {}
 ): Promise<void> {
     const supabase = createServiceClient();
 
     // Get current order
     const { data: currentOrder, error: fetchError } = await supabase
         .from('orders')
-        .select('id, order_type, status, order_items(product_id, quantity)')
+        .select('id, order_type, payment_method, payment_status, remaining_amount')
         .eq('order_number', orderCode)
         .single();
 
@@ -658,166 +702,144 @@ export async function adminCancelReservation(
         throw new Error('Order is not a deposit reservation');
     }
 
-    if (currentOrder.status === 'cancelled') {
-        throw new Error('Reservation already cancelled');
+    if (currentOrder.payment_status === 'paid') {
+        throw new Error('Balance already marked as received');
     }
 
-    // Update order status to cancelled
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-            status: 'cancelled',
-        })
-        .eq('id', currentOrder.id);
-
-    if (updateError) {
-        console.error('Error cancelling reservation:', updateError);
-        throw new Error('Failed to cancel reservation');
+    if (currentOrder.payment_status !== 'deposited') {
+        throw new Error('Deposit must be received before the balance');
     }
 
-    // Restore inventory (increment stock for each item)
-    const orderItems = currentOrder.order_items as Array<{ product_id: string; quantity: number }>;
-    for (const item of orderItems) {
-        const rpcResult = await supabase.rpc('increment_stock', {
-            product_id: item.product_id,
-            quantity: item.quantity,
+    const amount = payment.amount ?? Number(currentOrder.remaining_amount || 0);
+
+    // Order status is left alone - only the payment is settled (sends the balance paid email)
+    await transitionOrder(
+        { id: currentOrder.id },
+        { paymentStatus: 'paid' },
+        { note, changedBy, balanceAmount: amount }
+    );
+
+    // Record the balance in the payments ledger (order is already updated, so don't throw)
+    try {
+        await recordManualPayment(currentOrder.id, {
+            kind: 'balance',
+            provider: currentOrder.payment_method,
+            amount,
+            reference: payment.reference,
+            recordedBy: changedBy,
+            note,
         });
-        
-        if (rpcResult.error) {
-            // Fallback: direct update if RPC doesn't exist
-            const { data: product } = await supabase
-                .from('products')
-                .select('stock_quantity')
-                .eq('id', item.product_id)
-                .single();
-            
-            if (product) {
-                await supabase
-                    .from('products')
-                    .update({ stock_quantity: product.stock_quantity + item.quantity })
-                    .eq('id', item.product_id);
-            }
-        }
+    } catch (error) {
+        console.error('Failed to record balance payment:', error);
     }
+}
 
-    // Insert status history
-    await supabase
-        .from('order_status_history')
-        .insert({
-            order_id: currentOrder.id,
-            from_status: currentOrder.status as OrderStatus,
-            to_status: 'cancelled',
-            note: note || 'Reservation cancelled',
-            changed_by: changedBy || null,
-        });
+/**
+ * Expire a deposit reservation (releases inventory)
+ */
+export async function adminExpireReservation(
+    orderCode: string,
+    note?: string,
+    changedBy?: string
+): Promise<void> {
+    const { plan } = await transitionOrder(
+        { orderNumber: orderCode },
+        { status: 'expired' },
+        { note: note || 'Reservation expired', changedBy }
+    );
+
+    if (!plan.statusChanged) {
+        throw new Error('Reservation already expired');
+    }
 }
 
 /**
- * Restore inventory for an order (when order is cancelled or payment fails)
- * This restores stock by incrementing quantities for each order item
+ * Cancel a deposit reservation (releases inventory)
  */
-export async function restoreOrderInventory(orderId: string): Promise<void> {
+export async function adminCancelReservation(
+    orderCode: string,
+    note?: string,
+    changedBy?: string
+): Promise<void> {
     const supabase = createServiceClient();
 
-    // Get order items
-    const { data: orderItems, error: itemsError } = await supabase
-        .from('order_items')
-        .select('product_id, quantity')
-        .eq('order_id', orderId);
+    const { data: currentOrder, error: fetchError } = await supabase
+        .from('orders')
+        .select('id, order_type')
+        .eq('order_number', orderCode)
+        .single();
 
-    if (itemsError) {
-        console.error('Error fetching order items for inventory restoration:', itemsError);
-        throw new Error('Failed to fetch order items');
+    if (fetchError || !currentOrder) {
+        throw new Error('Order not found');
     }
 
-    if (!orderItems || orderItems.length === 0) {
-        console.log(`No order items found for order ${orderId}, nothing to restore`);
-        return;
+    if (currentOrder.order_type !== 'deposit_reservation') {
+        throw new Error('Order is not a deposit reservation');
     }
 
-    // Restore inventory for each item
-    for (const item of orderItems) {
-        // Try RPC function first (if it exists)
-        const rpcResult = await supabase.rpc('increment_stock', {
-            product_id: item.product_id,
-            quantity: item.quantity,
-        });
+    const { plan } = await transitionOrder(
+        { id: currentOrder.id },
+        { status: 'cancelled' },
+        { note: note || 'Reservation cancelled', changedBy }
+    );
 
-        if (rpcResult.error) {
-            // Fallback: direct update if RPC doesn't exist
-            const { data: product, error: productError } = await supabase
-                .from('products')
-                .select('stock_quantity')
-                .eq('id', item.product_id)
-                .single();
-
-            if (productError || !product) {
-                console.error(`Error fetching product ${item.product_id} for inventory restoration:`, productError);
-                continue; // Skip this item but continue with others
-            }
-
-            const { error: updateError } = await supabase
-                .from('products')
-                .update({ stock_quantity: product.stock_quantity + item.quantity })
-                .eq('id', item.product_id);
-
-            if (updateError) {
-                console.error(`Error restoring inventory for product ${item.product_id}:`, updateError);
-                // Continue with other items
-            }
-        }
+    if (!plan.statusChanged) {
+        throw new Error('Reservation already cancelled');
     }
-
-    console.log(`Inventory restored for order ${orderId}`);
 }
 
 /**
- * Set Stripe checkout session ID on order
- * Stores session ID in admin_note as JSON metadata
+ * Record a newly created Stripe checkout session as a pending payment
  */
 export async function setStripeCheckoutSession(
     orderId: string,
-    sessionId: string
+    sessionId: string,
+    payment: {
+        kind: OrderPaymentKind;
+        amount: number;
+        currency: string;
+    }
 ): Promise<void> {
-    const supabase = createServiceClient();
+    await upsertStripePayment(orderId, {
+        kind: payment.kind,
+        status: 'pending',
+        sessionId,
+        amount: payment.amount,
+        currency: payment.currency,
+    });
+}
 
-    // Get current order to preserve existing metadata
-    const { data: order, error: fetchError } = await supabase
-        .from('orders')
-        .select('admin_note')
-        .eq('id', orderId)
-        .single();
+/**
+ * Whether a webhook can move the payment to `target`
+ * Webhooks don't throw on a disallowed transition: the payment is already in
+ * the ledger, so the order is left for an admin to sort out.
+ */
+function canApplyPaymentStatus(
+    order: { order_number: string; payment_status: string },
+    target: PaymentStatus
+): boolean {
+    const current = order.payment_status as PaymentStatus;
 
-    if (fetchError || !order) {
-        throw new Error('Order not found');
+    if (current === target || canTransitionPaymentStatus(current, target)) {
+        return true;
     }
 
-    // Parse existing metadata or create new
-    const metadata = parseStripeMetadata(order.admin_note);
-    metadata.stripe_checkout_session_id = sessionId;
-
-    // Update order with serialized metadata
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-            admin_note: serializeStripeMetadata(metadata),
-        })
-        .eq('id', orderId);
-
-    if (updateError) {
-        console.error('Error setting Stripe checkout session:', updateError);
-        throw new Error('Failed to set Stripe checkout session');
-    }
+    console.warn(`Order ${order.order_number} cannot move from payment status ${current} to ${target}, skipping`);
+    return false;
 }
 
 /**
  * Mark order as paid from Stripe payment
- * Updates payment status, order status, and stores payment intent ID
+ * Records the payment in the ledger, then updates payment status and order status
  */
 export async function markOrderPaidFromStripe(
     orderId: string,
     options: {
+        sessionId?: string;
         paymentIntentId?: string;
+        chargeId?: string;
+        amount?: number;
+        currency?: string;
         paidAt?: Date;
     }
 ): Promise<void> {
@@ -826,7 +848,7 @@ export async function markOrderPaidFromStripe(
     // Get current order
     const { data: order, error: fetchError } = await supabase
         .from('orders')
-        .select('id, order_number, payment_status, status, admin_note, customer_email, customer_name, locale')
+        .select('id, order_number, payment_status, status')
         .eq('id', orderId)
         .single();
 
@@ -834,65 +856,47 @@ export async function markOrderPaidFromStripe(
         throw new Error('Order not found');
     }
 
-    // Idempotency check: if already paid, don't process again
-    if (order.payment_status === 'paid' && order.status === 'confirmed') {
-        console.log(`Order ${order.order_number} already marked as paid, skipping`);
-        return;
-    }
+    const paidAt = options.paidAt || new Date();
 
-    // Parse and update Stripe metadata
-    const metadata = parseStripeMetadata(order.admin_note);
-    if (options.paymentIntentId) {
-        metadata.stripe_payment_intent_id = options.paymentIntentId;
-    }
-    metadata.stripe_payment_status = 'paid';
-
-    // Update order - for full payment orders, move to confirmed status
-    const updateData: any = {
-        payment_status: 'paid',
-        status: 'confirmed',
-        confirmed_at: options.paidAt?.toISOString() || new Date().toISOString(),
-        admin_note: serializeStripeMetadata(metadata),
-    };
-
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', orderId);
+    await upsertStripePayment(orderId, {
+        kind: 'charge',
+        status: 'succeeded',
+        sessionId: options.sessionId,
+        paymentIntentId: options.paymentIntentId,
+        chargeId: options.chargeId,
+        amount: options.amount,
+        currency: options.currency,
+        paidAt,
+    });
 
-    if (updateError) {
-        console.error('Error marking order as paid:', updateError);
-        throw new Error('Failed to mark order as paid');
+    if (!canApplyPaymentStatus(order, 'paid')) {
+        return;
     }
 
-    // Send payment received email
-    if (order.customer_email) {
-        const locale = (order.locale === 'vi' || order.locale === 'en') 
-            ? order.locale 
-            : 'vi';
-        
-        sendStatusUpdateEmail(orderId, {
-            orderCode: order.order_number,
-            customerName: order.customer_name,
-            customerEmail: order.customer_email,
-            oldStatus: order.status as OrderStatus,
-            newStatus: 'confirmed',
-            note: 'Payment received via Stripe',
-            locale: locale as Locale,
-        }).catch((error) => {
-            console.error('Failed to send payment received email:', error);
-        });
-    }
+    // For full payment orders, move a pending order to confirmed
+    // (no-op if already paid and confirmed)
+    await transitionOrder(
+        { id: orderId },
+        {
+            paymentStatus: 'paid',
+            status: canTransitionOrderStatus(order.status as OrderStatus, 'confirmed') ? 'confirmed' : undefined,
+        },
+        { note: 'Payment received via Stripe', at: paidAt }
+    );
 }
 
 /**
  * Mark deposit order as paid from Stripe payment
- * Updates payment status, order status, and stores payment intent ID
+ * Records the deposit in the ledger, then updates payment status and order status
  */
 export async function markOrderDepositPaidFromStripe(
     orderId: string,
     options: {
+        sessionId?: string;
         paymentIntentId?: string;
+        chargeId?: string;
+        amount?: number;
+        currency?: string;
         paidAt?: Date;
     }
 ): Promise<void> {
@@ -901,7 +905,7 @@ export async function markOrderDepositPaidFromStripe(
     // Get current order
     const { data: order, error: fetchError } = await supabase
         .from('orders')
-        .select('id, order_number, order_type, payment_status, status, admin_note, deposit_amount_vnd, customer_email, customer_name, locale')
+        .select('id, order_number, order_type, payment_status, status, deposit_amount_vnd')
         .eq('id', orderId)
         .single();
 
@@ -913,67 +917,51 @@ export async function markOrderDepositPaidFromStripe(
         throw new Error('Order is not a deposit reservation');
     }
 
-    // Idempotency check: if already deposited, don't process again
-    if (order.payment_status === 'deposited' && order.status === 'deposited') {
-        console.log(`Order ${order.order_number} deposit already marked as paid, skipping`);
-        return;
-    }
-
-    // Parse and update Stripe metadata
-    const metadata = parseStripeMetadata(order.admin_note);
-    if (options.paymentIntentId) {
-        metadata.stripe_payment_intent_id = options.paymentIntentId;
-    }
-    metadata.stripe_payment_status = 'deposited';
-
-    // Update order
-    const updateData: any = {
-        payment_status: 'deposited',
-        status: 'deposited',
-        deposit_received_at: options.paidAt?.toISOString() || new Date().toISOString(),
-        deposit_paid: order.deposit_amount_vnd, // Legacy field
-        admin_note: serializeStripeMetadata(metadata),
-    };
+    const paidAt = options.paidAt || new Date();
 
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', orderId);
+    await upsertStripePayment(orderId, {
+        kind: 'deposit',
+        status: 'succeeded',
+        sessionId: options.sessionId,
+        paymentIntentId: options.paymentIntentId,
+        chargeId: options.chargeId,
+        amount: options.amount,
+        currency: options.currency,
+        paidAt,
+    });
 
-    if (updateError) {
-        console.error('Error marking deposit as paid:', updateError);
-        throw new Error('Failed to mark deposit as paid');
+    if (!canApplyPaymentStatus(order, 'deposited')) {
+        return;
     }
 
-    // Send deposit received email
-    if (order.customer_email) {
-        const locale = (order.locale === 'vi' || order.locale === 'en') 
-            ? order.locale 
-            : 'vi';
-        
-        sendStatusUpdateEmail(orderId, {
-            orderCode: order.order_number,
-            customerName: order.customer_name,
-            customerEmail: order.customer_email,
-            oldStatus: order.status as OrderStatus,
-            newStatus: 'deposited',
+    // An expired or cancelled reservation keeps its status (no-op if already deposited)
+    await transitionOrder(
+        { id: orderId },
+        {
+            paymentStatus: 'deposited',
+            status: canTransitionOrderStatus(order.status as OrderStatus, 'deposited') ? 'deposited' : undefined,
+        },
+        {
             note: 'Deposit received via Stripe',
-            locale: locale as Locale,
-        }).catch((error) => {
-            console.error('Failed to send deposit received email:', error);
-        });
-    }
+            at: paidAt,
+            fields: { deposit_paid: order.deposit_amount_vnd }, // Legacy field
+        }
+    );
 }
 
 /**
- * Mark order payment as failed from Stripe
- * Updates payment status but does not cancel order
+ * Mark the remaining balance of a deposit reservation as paid from Stripe
+ * Records the balance in the ledger, then moves payment status from deposited to paid
  */
-export async function markOrderPaymentFailedFromStripe(
+export async function markOrderBalancePaidFromStripe(
     orderId: string,
     options: {
+        sessionId?: string;
         paymentIntentId?: string;
-        reason?: string;
+        chargeId?: string;
+        amount?: number;
+        currency?: string;
+        paidAt?: Date;
     }
 ): Promise<void> {
     const supabase = createServiceClient();
@@ -981,7 +969,7 @@ export async function markOrderPaymentFailedFromStripe(
     // Get current order
     const { data: order, error: fetchError } = await supabase
         .from('orders')
-        .select('id, order_number, payment_status, admin_note')
+        .select('id, order_number, order_type, payment_status')
         .eq('id', orderId)
         .single();
 
@@ -989,70 +977,59 @@ export async function markOrderPaymentFailedFromStripe(
         throw new Error('Order not found');
     }
 
-    // Idempotency check: if already failed, don't process again
-    if (order.payment_status === 'failed') {
-        console.log(`Order ${order.order_number} payment already marked as failed, skipping`);
-        return;
-    }
-
-    // Parse and update Stripe metadata
-    const metadata = parseStripeMetadata(order.admin_note);
-    if (options.paymentIntentId) {
-        metadata.stripe_payment_intent_id = options.paymentIntentId;
+    if (order.order_type !== 'deposit_reservation') {
+        throw new Error('Order is not a deposit reservation');
     }
-    metadata.stripe_payment_status = 'failed';
 
-    // Update order (only payment status, not order status)
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-            payment_status: 'failed',
-            admin_note: serializeStripeMetadata(metadata),
-        })
-        .eq('id', orderId);
-
-    if (updateError) {
-        console.error('Error marking payment as failed:', updateError);
-        throw new Error('Failed to mark payment as failed');
-    }
-}
+    const paidAt = options.paidAt || new Date();
 
-/**
- * Check if Stripe event has already been processed (idempotency)
- */
-export async function hasStripeEventBeenProcessed(
-    orderId: string,
-    eventId: string
-): Promise<boolean> {
-    const supabase = createServiceClient();
+    await upsertStripePayment(orderId, {
+        kind: 'balance',
+        status: 'succeeded',
+        sessionId: options.sessionId,
+        paymentIntentId: options.paymentIntentId,
+        chargeId: options.chargeId,
+        amount: options.amount,
+        currency: options.currency,
+        paidAt,
+    });
 
-    const { data: order, error } = await supabase
-        .from('orders')
-        .select('admin_note')
-        .eq('id', orderId)
-        .single();
+    // Idempotency check: if already paid, don't process again
+    if (order.payment_status === 'paid') {
+        console.log(`Order ${order.order_number} balance already marked as paid, skipping`);
+        return;
+    }
 
-    if (error || !order) {
-        return false;
+    if (order.payment_status !== 'deposited') {
+        // Payment is in the ledger; leave refunded / failed orders for an admin to sort out
+        console.warn(`Order ${order.order_number} balance paid while payment status is ${order.payment_status}`);
+        return;
     }
 
-    const metadata = parseStripeMetadata(order.admin_note);
-    const processedEvents = metadata.stripe_processed_events || [];
-    return processedEvents.includes(eventId);
+    // Order status is left alone - only the payment is settled (sends the balance paid email)
+    await transitionOrder({ id: orderId }, { paymentStatus: 'paid' }, { at: paidAt });
 }
 
 /**
- * Mark Stripe event as processed (idempotency)
+ * Mark order payment as failed from Stripe
+ * Updates payment status but does not cancel the order; its stock stays
+ * reserved until the order is cancelled or expires
  */
-export async function markStripeEventAsProcessed(
+export async function markOrderPaymentFailedFromStripe(
     orderId: string,
-    eventId: string
+    options: {
+        paymentIntentId?: string;
+        amount?: number;
+        currency?: string;
+        reason?: string;
+    }
 ): Promise<void> {
     const supabase = createServiceClient();
 
+    // Get current order
     const { data: order, error: fetchError } = await supabase
         .from('orders')
-        .select('admin_note')
+        .select('id, order_number, order_type, payment_status')
         .eq('id', orderId)
         .single();
 
@@ -1060,30 +1037,32 @@ export async function markStripeEventAsProcessed(
         throw new Error('Order not found');
     }
 
-    const metadata = parseStripeMetadata(order.admin_note);
-    if (!metadata.stripe_processed_events) {
-        metadata.stripe_processed_events = [];
-    }
-    if (!metadata.stripe_processed_events.includes(eventId)) {
-        metadata.stripe_processed_events.push(eventId);
+    await upsertStripePayment(orderId, {
+        kind: order.order_type === 'deposit_reservation' ? 'deposit' : 'charge',
+        status: 'failed',
+        paymentIntentId: options.paymentIntentId,
+        amount: options.amount,
+        currency: options.currency,
+        failureReason: options.reason,
+    });
+
+    // Idempotency check: if already failed, don't process again
+    if (order.payment_status === 'failed') {
+        console.log(`Order ${order.order_number} payment already marked as failed, skipping`);
+        return;
     }
 
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-            admin_note: serializeStripeMetadata(metadata),
-        })
-        .eq('id', orderId);
-
-    if (updateError) {
-        console.error('Error marking event as processed:', updateError);
-        // Don't throw - this is not critical
+    // A failed balance payment must not undo a received deposit
+    if (!canApplyPaymentStatus(order, 'failed')) {
+        return;
     }
+
+    await transitionOrder({ id: orderId }, { paymentStatus: 'failed' }, { note: options.reason });
 }
 
 /**
  * Mark order refund as pending from Stripe refund request
- * Sets payment_status to refund_pending and stores refund info in metadata
+ * Records the refund in the ledger and sets payment_status to refund_pending
  */
 export async function markOrderRefundPendingFromStripe(
     orderId: string,
@@ -1091,17 +1070,37 @@ export async function markOrderRefundPendingFromStripe(
         refundId: string;
         amount: number;
         currency: string;
+        paymentId?: string;
         reason?: string;
         note?: string;
         restock?: boolean;
+        requestedBy?: string;
     }
 ): Promise<void> {
     const supabase = createServiceClient();
 
-    // Get current order
+    // The refund webhook can arrive before this runs; keep the status it recorded
+    const existingRefund = await getRefundByExternalId(options.refundId);
+
+    await upsertStripeRefund(orderId, {
+        refundId: options.refundId,
+        amount: options.amount,
+        currency: options.currency,
+        status: existingRefund?.status || 'pending',
+        paymentId: options.paymentId,
+        reason: options.reason,
+        note: options.note,
+        restock: options.restock || false,
+        requestedBy: options.requestedBy,
+    });
+
+    if (existingRefund) {
+        return;
+    }
+
     const { data: order, error: fetchError } = await supabase
         .from('orders')
-        .select('id, order_number, payment_status, admin_note')
+        .select('id, order_number, payment_status')
         .eq('id', orderId)
         .single();
 
@@ -1109,58 +1108,19 @@ export async function markOrderRefundPendingFromStripe(
         throw new Error('Order not found');
     }
 
-    // Parse and update Stripe metadata
-    const metadata = parseStripeMetadata(order.admin_note);
-    
-    // Initialize refunds object if not exists
-    if (!metadata.stripe_refunds) {
-        metadata.stripe_refunds = {
-            total_refunded_amount: 0,
-            currency: options.currency,
-            refunds: [],
-        };
-    }
-
-    // Add refund to list
-    if (!metadata.stripe_refunds.refunds) {
-        metadata.stripe_refunds.refunds = [];
-    }
-
-    metadata.stripe_refunds.refunds.push({
-        refund_id: options.refundId,
-        amount: options.amount,
-        status: 'pending',
-        created_at: new Date().toISOString(),
-        reason: options.reason,
-    });
-
-    // Update refund info
-    metadata.stripe_refunds.last_refund_id = options.refundId;
-    metadata.stripe_refunds.refund_status = 'pending';
-    
-    // If restock was requested, mark inventory as restored
-    if (options.restock) {
-        metadata.stripe_refunds.inventory_restored_at = new Date().toISOString();
+    if (!canApplyPaymentStatus(order, 'refund_pending')) {
+        return;
     }
 
-    // Update order - set payment_status to refund_pending
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-            payment_status: 'refund_pending',
-            admin_note: serializeStripeMetadata(metadata),
-        })
-        .eq('id', orderId);
-
-    if (updateError) {
-        console.error('Error marking refund as pending:', updateError);
-        throw new Error('Failed to mark refund as pending');
-    }
+    await transitionOrder({ id: orderId }, { paymentStatus: 'refund_pending' });
 }
 
 /**
  * Mark order as refunded from Stripe webhook
- * Updates payment_status based on refund amount (partially_refunded or refunded)
+ * Updates the refund in the ledger, then sets payment_status from the total
+ * of succeeded refunds against the total paid (partially_refunded or refunded)
+ * newlySucceeded is true only the first time a refund is seen as succeeded,
+ * so callers can notify the customer once
  */
 export async function markOrderRefundedFromStripe(
     orderId: string,
@@ -1169,19 +1129,15 @@ export async function markOrderRefundedFromStripe(
         amount: number;
         currency: string;
         status: string;
-        chargeId?: string;
         paymentIntentId?: string;
-    },
-    options: {
-        partial: boolean;
     }
-): Promise<void> {
+): Promise<{ paymentStatus: PaymentStatus; newlySucceeded: boolean }> {
     const supabase = createServiceClient();
 
     // Get current order
     const { data: order, error: fetchError } = await supabase
         .from('orders')
-        .select('id, order_number, order_type, payment_status, admin_note, total, deposit_amount_vnd')
+        .select('id, order_number, order_type, payment_status, total, deposit_amount_vnd')
         .eq('id', orderId)
         .single();
 
@@ -1189,60 +1145,31 @@ export async function markOrderRefundedFromStripe(
         throw new Error('Order not found');
     }
 
-    // Parse and update Stripe metadata
-    const metadata = parseStripeMetadata(order.admin_note);
-    
-    // Initialize refunds object if not exists
-    if (!metadata.stripe_refunds) {
-        metadata.stripe_refunds = {
-            total_refunded_amount: 0,
-            currency: refundInfo.currency,
-            refunds: [],
-        };
-    }
-
-    // Update refund in list or add new one
-    if (!metadata.stripe_refunds.refunds) {
-        metadata.stripe_refunds.refunds = [];
-    }
-
-    const existingRefundIndex = metadata.stripe_refunds.refunds.findIndex(
-        (r) => r.refund_id === refundInfo.refundId
-    );
-
-    if (existingRefundIndex >= 0) {
-        // Update existing refund
-        metadata.stripe_refunds.refunds[existingRefundIndex] = {
-            refund_id: refundInfo.refundId,
-            amount: refundInfo.amount,
-            status: refundInfo.status,
-            created_at: metadata.stripe_refunds.refunds[existingRefundIndex].created_at,
-            reason: metadata.stripe_refunds.refunds[existingRefundIndex].reason,
-        };
-    } else {
-        // Add new refund
-        metadata.stripe_refunds.refunds.push({
-            refund_id: refundInfo.refundId,
-            amount: refundInfo.amount,
-            status: refundInfo.status,
-            created_at: new Date().toISOString(),
-        });
-    }
+    const status = toRefundStatus(refundInfo.status);
+    const existingRefund = await getRefundByExternalId(refundInfo.refundId);
+    const newlySucceeded = status === 'succeeded' && existingRefund?.status !== 'succeeded';
+    const payment = refundInfo.paymentIntentId
+        ? await getStripePaymentByIntent(refundInfo.paymentIntentId)
+        : null;
+
+    await upsertStripeRefund(orderId, {
+        refundId: refundInfo.refundId,
+        amount: refundInfo.amount,
+        currency: refundInfo.currency,
+        status,
+        paymentId: payment?.id,
+        succeededAt: newlySucceeded ? new Date() : undefined,
+    });
 
     // Calculate total refunded amount
-    const totalRefunded = metadata.stripe_refunds.refunds
-        .filter((r) => r.status === 'succeeded')
-        .reduce((sum, r) => sum + r.amount, 0);
+    const totalRefunded = await getRefundedAmount(orderId);
 
-    // Determine paid amount (deposit for deposit orders, total for normal orders)
-    const paidAmount = order.order_type === 'deposit_reservation'
+    // Determine paid amount from the ledger (deposit + balance for reservations);
+    // orders paid before the ledger existed fall back to deposit / total
+    const { payments } = await getOrderPaymentLedger(orderId);
+    const paidAmount = getPaidTotal(payments) || (order.order_type === 'deposit_reservation'
         ? (order.deposit_amount_vnd || 0)
-        : Number(order.total);
-
-    // Update refund info
-    metadata.stripe_refunds.total_refunded_amount = totalRefunded;
-    metadata.stripe_refunds.last_refund_id = refundInfo.refundId;
-    metadata.stripe_refunds.refund_status = refundInfo.status === 'succeeded' ? 'succeeded' : 'pending';
+        : Number(order.total));
 
     // Determine new payment status
     let newPaymentStatus: PaymentStatus;
@@ -1254,74 +1181,11 @@ export async function markOrderRefundedFromStripe(
         newPaymentStatus = order.payment_status as PaymentStatus; // Keep current status if no successful refunds
     }
 
-    // Update order
-    const { error: updateError } = await supabase
-        .from('orders')
-        .update({
-            payment_status: newPaymentStatus,
-            admin_note: serializeStripeMetadata(metadata),
-        })
-        .eq('id', orderId);
-
-    if (updateError) {
-        console.error('Error marking order as refunded:', updateError);
-        throw new Error('Failed to mark order as refunded');
-    }
-}
-
-/**
- * Helper to safely append refund info to metadata
- */
-export function appendStripeRefundToMetadata(
-    metadata: ReturnType<typeof parseStripeMetadata>,
-    refundInfo: {
-        refundId: string;
-        amount: number;
-        currency: string;
-        status: string;
-    }
-): ReturnType<typeof parseStripeMetadata> {
-    if (!metadata.stripe_refunds) {
-        metadata.stripe_refunds = {
-            total_refunded_amount: 0,
-            currency: refundInfo.currency,
-            refunds: [],
-        };
-    }
-
-    if (!metadata.stripe_refunds.refunds) {
-        metadata.stripe_refunds.refunds = [];
+    if (!canApplyPaymentStatus(order, newPaymentStatus)) {
+        return { paymentStatus: order.payment_status as PaymentStatus, newlySucceeded };
     }
 
-    // Check if refund already exists
-    const existingIndex = metadata.stripe_refunds.refunds.findIndex(
-        (r) => r.refund_id === refundInfo.refundId
-    );
-
-    if (existingIndex >= 0) {
-        // Update existing
-        metadata.stripe_refunds.refunds[existingIndex] = {
-            ...metadata.stripe_refunds.refunds[existingIndex],
-            amount: refundInfo.amount,
-            status: refundInfo.status,
-        };
-    } else {
-        // Add new
-        metadata.stripe_refunds.refunds.push({
-            refund_id: refundInfo.refundId,
-            amount: refundInfo.amount,
-            status: refundInfo.status,
-            created_at: new Date().toISOString(),
-        });
-    }
-
-    // Recalculate total
-    metadata.stripe_refunds.total_refunded_amount = metadata.stripe_refunds.refunds
-        .filter((r) => r.status === 'succeeded')
-        .reduce((sum, r) => sum + r.amount, 0);
-
-    metadata.stripe_refunds.last_refund_id = refundInfo.refundId;
-    metadata.stripe_refunds.refund_status = refundInfo.status === 'succeeded' ? 'succeeded' : 'pending';
+    await transitionOrder({ id: orderId }, { paymentStatus: newPaymentStatus });
 
-    return metadata;
+    return { paymentStatus: newPaymentStatus, newlySucceeded };
 }
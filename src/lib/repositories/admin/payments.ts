@@ -0,0 +1,445 @@
+import { createServiceClient } from '@/lib/supabase/service';
+
+/**
+ * Order payments ledger
+ * One order_payments row per charge / deposit / balance payment and one
+ * order_refunds row per refund, plus processed Stripe webhook events
+ */
+
+export type PaymentProvider = 'stripe' | 'bank_transfer' | 'cod';
+export type OrderPaymentKind = 'charge' | 'deposit' | 'balance';
+export type OrderPaymentStatus = 'pending' | 'succeeded' | 'failed';
+export type OrderRefundStatus = 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+
+export interface OrderPayment {
+    id: string;
+    kind: OrderPaymentKind;
+    provider: PaymentProvider;
+    amount: number;
+    currency: string;
+    status: OrderPaymentStatus;
+    externalSessionId?: string;
+    externalPaymentId?: string;
+    externalChargeId?: string;
+    paidAt?: string;
+    failureReason?: string;
+    note?: string;
+    createdAt: string;
+}
+
+export interface OrderRefund {
+    id: string;
+    paymentId?: string;
+    provider: PaymentProvider;
+    amount: number;
+    currency: string;
+    status: OrderRefundStatus;
+    externalRefundId?: string;
+    reason?: string;
+    note?: string;
+    restock: boolean;
+    succeededAt?: string;
+    createdAt: string;
+}
+
+interface OrderPaymentRow {
+    id: string;
+    kind: OrderPaymentKind;
+    provider: PaymentProvider;
+    amount: number | string;
+    currency: string;
+    status: OrderPaymentStatus;
+    external_session_id: string | null;
+    external_payment_id: string | null;
+    external_charge_id: string | null;
+    paid_at: string | null;
+    failure_reason: string | null;
+    note: string | null;
+    created_at: string;
+}
+
+interface OrderRefundRow {
+    id: string;
+    payment_id: string | null;
+    provider: PaymentProvider;
+    amount: number | string;
+    currency: string;
+    status: OrderRefundStatus;
+    external_refund_id: string | null;
+    reason: string | null;
+    note: string | null;
+    restock: boolean;
+    succeeded_at: string | null;
+    created_at: string;
+}
+
+// Columns selected for ledger rows (also used for nested selects on orders)
+export const ORDER_PAYMENT_COLUMNS = 'id, kind, provider, amount, currency, status, external_session_id, external_payment_id, external_charge_id, paid_at, failure_reason, note, created_at';
+export const ORDER_REFUND_COLUMNS = 'id, payment_id, provider, amount, currency, status, external_refund_id, reason, note, restock, succeeded_at, created_at';
+
+const REFUND_STATUSES: OrderRefundStatus[] = ['pending', 'requires_action', 'succeeded', 'failed', 'canceled'];
+
+export function mapOrderPayment(row: OrderPaymentRow): OrderPayment {
+    return {
+        id: row.id,
+        kind: row.kind,
+        provider: row.provider,
+        amount: Number(row.amount),
+        currency: row.currency,
+        status: row.status,
+        externalSessionId: row.external_session_id || undefined,
+        externalPaymentId: row.external_payment_id || undefined,
+        externalChargeId: row.external_charge_id || undefined,
+        paidAt: row.paid_at || undefined,
+        failureReason: row.failure_reason || undefined,
+        note: row.note || undefined,
+        createdAt: row.created_at,
+    };
+}
+
+export function mapOrderRefund(row: OrderRefundRow): OrderRefund {
+    return {
+        id: row.id,
+        paymentId: row.payment_id || undefined,
+        provider: row.provider,
+        amount: Number(row.amount),
+        currency: row.currency,
+        status: row.status,
+        externalRefundId: row.external_refund_id || undefined,
+        reason: row.reason || undefined,
+        note: row.note || undefined,
+        restock: row.restock,
+        succeededAt: row.succeeded_at || undefined,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * Normalize a Stripe refund status to one the ledger accepts
+ */
+export function toRefundStatus(status: string | null | undefined): OrderRefundStatus {
+    return REFUND_STATUSES.includes(status as OrderRefundStatus)
+        ? (status as OrderRefundStatus)
+        : 'pending';
+}
+
+/**
+ * Create or update a Stripe payment row
+ * Looks the row up by checkout session ID, then payment intent ID, so the
+ * checkout.session.completed and payment_intent.succeeded events land on the
+ * same row whichever arrives first
+ */
+export async function upsertStripePayment(
+    orderId: string,
+    payment: {
+        kind: OrderPaymentKind;
+        status: OrderPaymentStatus;
+        sessionId?: string;
+        paymentIntentId?: string;
+        chargeId?: string;
+        amount?: number;
+        currency?: string;
+        paidAt?: Date;
+        failureReason?: string;
+    }
+): Promise<OrderPayment> {
+    const supabase = createServiceClient();
+
+    let existing: OrderPaymentRow | null = null;
+    if (payment.sessionId) {
+        const { data } = await supabase
+            .from('order_payments')
+            .select(ORDER_PAYMENT_COLUMNS)
+            .eq('external_session_id', payment.sessionId)
+            .maybeSingle();
+        existing = data as OrderPaymentRow | null;
+    }
+    if (!existing && payment.paymentIntentId) {
+        const { data } = await supabase
+            .from('order_payments')
+            .select(ORDER_PAYMENT_COLUMNS)
+            .eq('external_payment_id', payment.paymentIntentId)
+            .maybeSingle();
+        existing = data as OrderPaymentRow | null;
+    }
+
+    const values: Record<string, unknown> = {
+        status: payment.status,
+    };
+    if (payment.sessionId) values.external_session_id = payment.sessionId;
+    if (payment.paymentIntentId) values.external_payment_id = payment.paymentIntentId;
+    if (payment.chargeId) values.external_charge_id = payment.chargeId;
+    if (payment.amount !== undefined) values.amount = payment.amount;
+    if (payment.currency) values.currency = payment.currency;
+    if (payment.paidAt) values.paid_at = payment.paidAt.toISOString();
+    if (payment.failureReason) values.failure_reason = payment.failureReason;
+
+    // Never downgrade a succeeded payment (events can arrive out of order)
+    if (existing?.status === 'succeeded') {
+        delete values.status;
+        delete values.paid_at;
+        delete values.failure_reason;
+    }
+
+    const { data, error } = existing
+        ? await supabase
+            .from('order_payments')
+            .update(values)
+            .eq('id', existing.id)
+            .select(ORDER_PAYMENT_COLUMNS)
+            .single()
+        : await supabase
+            .from('order_payments')
+            .insert({
+                order_id: orderId,
+                kind: payment.kind,
+                provider: 'stripe',
+                amount: payment.amount ?? 0,
+                ...values,
+            })
+            .select(ORDER_PAYMENT_COLUMNS)
+            .single();
+
+    if (error || !data) {
+        console.error('Error recording Stripe payment:', error);
+        throw new Error('Failed to record Stripe payment');
+    }
+
+    return mapOrderPayment(data as OrderPaymentRow);
+}
+
+/**
+ * Record a payment confirmed by an admin (bank transfer, COD collection)
+ */
+export async function recordManualPayment(
+    orderId: string,
+    payment: {
+        kind: OrderPaymentKind;
+        provider: Exclude<PaymentProvider, 'stripe'>;
+        amount: number;
+        reference?: string;
+        recordedBy?: string;
+        note?: string;
+    }
+): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('order_payments')
+        .insert({
+            order_id: orderId,
+            kind: payment.kind,
+            provider: payment.provider,
+            amount: payment.amount,
+            currency: 'vnd',
+            status: 'succeeded',
+            external_payment_id: payment.reference || null,
+            paid_at: new Date().toISOString(),
+            recorded_by: payment.recordedBy || null,
+            note: payment.note || null,
+        });
+
+    if (error) {
+        console.error('Error recording payment:', error);
+        throw new Error('Failed to record payment');
+    }
+}
+
+/**
+ * Find the order a Stripe payment intent belongs to
+ */
+export async function findOrderByPaymentIntent(
+    paymentIntentId: string
+): Promise<{ orderId: string; orderNumber: string } | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_payments')
+        .select('order_id, orders(order_number)')
+        .eq('external_payment_id', paymentIntentId)
+        .maybeSingle();
+
+    if (error || !data) {
+        return null;
+    }
+
+    const order = data.orders as unknown as { order_number: string } | null;
+    return {
+        orderId: data.order_id,
+        orderNumber: order?.order_number || '',
+    };
+}
+
+/**
+ * Get a Stripe payment by its payment intent ID
+ */
+export async function getStripePaymentByIntent(paymentIntentId: string): Promise<OrderPayment | null> {
+    const supabase = createServiceClient();
+
+    const { data } = await supabase
+        .from('order_payments')
+        .select(ORDER_PAYMENT_COLUMNS)
+        .eq('external_payment_id', paymentIntentId)
+        .maybeSingle();
+
+    return data ? mapOrderPayment(data as OrderPaymentRow) : null;
+}
+
+/**
+ * Get an order's payments and refunds, newest first
+ * (refundable amounts per payment: getRefundablePayments in @/lib/orders/refunds)
+ */
+export async function getOrderPaymentLedger(
+    orderId: string
+): Promise<{ payments: OrderPayment[]; refunds: OrderRefund[] }> {
+    const supabase = createServiceClient();
+
+    const [paymentsResult, refundsResult] = await Promise.all([
+        supabase
+            .from('order_payments')
+            .select(ORDER_PAYMENT_COLUMNS)
+            .eq('order_id', orderId)
+            .order('created_at', { ascending: false }),
+        supabase
+            .from('order_refunds')
+            .select(ORDER_REFUND_COLUMNS)
+            .eq('order_id', orderId)
+            .order('created_at', { ascending: false }),
+    ]);
+
+    if (paymentsResult.error || refundsResult.error) {
+        console.error('Error fetching payment ledger:', paymentsResult.error || refundsResult.error);
+        throw new Error('Failed to fetch payment ledger');
+    }
+
+    return {
+        payments: ((paymentsResult.data || []) as OrderPaymentRow[]).map(mapOrderPayment),
+        refunds: ((refundsResult.data || []) as OrderRefundRow[]).map(mapOrderRefund),
+    };
+}
+
+/**
+ * Get a refund by its Stripe refund ID
+ */
+export async function getRefundByExternalId(refundId: string): Promise<OrderRefund | null> {
+    const supabase = createServiceClient();
+
+    const { data } = await supabase
+        .from('order_refunds')
+        .select(ORDER_REFUND_COLUMNS)
+        .eq('external_refund_id', refundId)
+        .maybeSingle();
+
+    return data ? mapOrderRefund(data as OrderRefundRow) : null;
+}
+
+/**
+ * Create or update a Stripe refund row (keyed by Stripe refund ID)
+ */
+export async function upsertStripeRefund(
+    orderId: string,
+    refund: {
+        refundId: string;
+        amount: number;
+        currency: string;
+        status: OrderRefundStatus;
+        paymentId?: string;
+        reason?: string;
+        note?: string;
+        restock?: boolean;
+        requestedBy?: string;
+        succeededAt?: Date;
+    }
+): Promise<void> {
+    const supabase = createServiceClient();
+
+    const values: Record<string, unknown> = {
+        order_id: orderId,
+        provider: 'stripe',
+        external_refund_id: refund.refundId,
+        amount: refund.amount,
+        currency: refund.currency,
+        status: refund.status,
+    };
+    if (refund.paymentId) values.payment_id = refund.paymentId;
+    if (refund.reason) values.reason = refund.reason;
+    if (refund.note) values.note = refund.note;
+    if (refund.restock !== undefined) values.restock = refund.restock;
+    if (refund.requestedBy) values.requested_by = refund.requestedBy;
+    if (refund.succeededAt) values.succeeded_at = refund.succeededAt.toISOString();
+
+    const { error } = await supabase
+        .from('order_refunds')
+        .upsert(values, { onConflict: 'external_refund_id' });
+
+    if (error) {
+        console.error('Error recording refund:', error);
+        throw new Error('Failed to record refund');
+    }
+}
+
+/**
+ * Total amount of succeeded refunds for an order
+ */
+export async function getRefundedAmount(orderId: string): Promise<number> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_refunds')
+        .select('amount')
+        .eq('order_id', orderId)
+        .eq('status', 'succeeded');
+
+    if (error) {
+        console.error('Error fetching refunds:', error);
+        throw new Error('Failed to fetch refunds');
+    }
+
+    return (data || []).reduce((sum, refund) => sum + Number(refund.amount), 0);
+}
+
+/**
+ * Check if Stripe event has already been processed (idempotency)
+ */
+export async function hasStripeEventBeenProcessed(eventId: string): Promise<boolean> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('stripe_webhook_events')
+        .select('event_id')
+        .eq('event_id', eventId)
+        .maybeSingle();
+
+    if (error) {
+        return false;
+    }
+
+    return !!data;
+}
+
+/**
+ * Mark Stripe event as processed (idempotency)
+ */
+export async function markStripeEventAsProcessed(
+    eventId: string,
+    eventType: string,
+    orderId?: string
+): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('stripe_webhook_events')
+        .upsert(
+            {
+                event_id: eventId,
+                event_type: eventType,
+                order_id: orderId || null,
+            },
+            { onConflict: 'event_id', ignoreDuplicates: true }
+        );
+
+    if (error) {
+        console.error('Error marking event as processed:', error);
+        // Don't throw - this is not critical
+    }
+}
@@ -48,7 +48,7 @@ export interface AdminProductListResponse {
 
 export interface CreateProductPayload {
     slug: string;
-    price: number;
+    price: number; // 0 = unpriced draft (ALLOW_UNPRICED_DRAFT_PRODUCTS.sql)
     compareAtPrice?: number;
     stockQuantity: number;
     lowStockThreshold?: number;
@@ -263,11 +263,63 @@ export async function adminGetProductById(id: string): Promise<ProductDetailDTO
         depositPercentage: data.deposit_percentage,
         depositDueHours: data.deposit_due_hours,
         reservationPolicyNote: data.reservation_policy_note,
+        rating: {
+            average: data.average_rating != null ? Number(data.average_rating) : null,
+            count: data.review_count ?? 0,
+        },
+        reviews: [],
         createdAt: data.created_at,
         publishedAt: data.published_at,
     };
 }
 
+// Bookkeeping and derived columns left out of audit snapshots
+const AUDIT_IGNORED_COLUMNS = ['id', 'created_at', 'updated_at', 'average_rating', 'review_count'];
+
+/**
+ * Raw product columns and translations for the audit log
+ * Translations are flattened to `<column>_<locale>` (e.g. name_en) so a
+ * diff shows exactly which field changed.
+ */
+export async function adminGetProductAuditSnapshot(id: string): Promise<Record<string, unknown> | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('products')
+        .select('*, product_translations(*)')
+        .eq('id', id)
+        .maybeSingle();
+
+    if (error || !data) {
+        if (error) {
+            console.error('Error fetching product snapshot:', error);
+        }
+        return null;
+    }
+
+    const { product_translations: translations, ...columns } = data as Record<string, unknown> & {
+        product_translations: Array<Record<string, unknown>> | null;
+    };
+
+    const snapshot: Record<string, unknown> = {};
+
+    for (const [column, value] of Object.entries(columns)) {
+        if (!AUDIT_IGNORED_COLUMNS.includes(column)) {
+            snapshot[column] = value;
+        }
+    }
+
+    for (const translation of translations || []) {
+        for (const [field, value] of Object.entries(translation)) {
+            if (field !== 'locale' && field !== 'product_id' && !AUDIT_IGNORED_COLUMNS.includes(field)) {
+                snapshot[`${field}_${translation.locale}`] = value;
+            }
+        }
+    }
+
+    return snapshot;
+}
+
 /**
  * Create a new product
  */
@@ -444,3 +496,35 @@ export async function adminUpdateProduct(payload: UpdateProductPayload): Promise
     }
 }
 
+
+/**
+ * Delete a product with its translations and images
+ * Past order items keep their snapshot (order_items.product_id is set to NULL)
+ */
+export async function adminDeleteProduct(id: string): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { data: images } = await supabase
+        .from('product_images')
+        .select('storage_path')
+        .eq('product_id', id);
+
+    const { error } = await supabase.from('products').delete().eq('id', id);
+
+    if (error) {
+        console.error('Error deleting product:', error);
+        throw new Error('Failed to delete product');
+    }
+
+    const storagePaths = (images || [])
+        .map((image) => image.storage_path as string | null)
+        .filter((path): path is string => Boolean(path));
+
+    if (storagePaths.length > 0) {
+        const { error: storageError } = await supabase.storage.from('product-images').remove(storagePaths);
+        if (storageError) {
+            // The product is gone; orphaned files are harmless
+            console.error('Error removing product images from storage:', storageError);
+        }
+    }
+}
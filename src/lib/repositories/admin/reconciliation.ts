@@ -0,0 +1,491 @@
+import crypto from 'crypto';
+import { createServiceClient } from '@/lib/supabase/service';
+import { adminMarkBalanceReceived, adminMarkDepositReceived, adminMarkOrderPaid } from '@/lib/repositories/admin/orders';
+import { extractOrderCodeFromMemo, matchTransferToOrder, type ReconcilableOrder } from '@/lib/reconciliation/matching';
+import type {
+    BankStatementImportResult,
+    BankTransactionDTO,
+    BankTransactionMatch,
+    BankTransactionMatchStatus,
+    ParsedBankTransaction,
+} from '@/lib/types/reconciliation';
+
+/**
+ * Admin Reconciliation Repository
+ * Imports bank statement transactions, matches them to orders and applies
+ * deposit / full-payment marking
+ */
+
+const RECONCILABLE_ORDER_FIELDS = 'id, order_number, order_type, payment_status, status, total, deposit_amount_vnd, remaining_amount';
+const FINGERPRINT_CHUNK_SIZE = 100;
+
+interface BankTransactionRow {
+    id: string;
+    import_id: string | null;
+    bank_code: string;
+    transaction_ref: string | null;
+    transaction_date: string;
+    amount: number;
+    description: string;
+    match_status: BankTransactionDTO['matchStatus'];
+    flag_reason: BankTransactionDTO['flagReason'];
+    payment_kind: BankTransactionDTO['paymentKind'];
+    expected_amount: number | null;
+    detected_order_number: string | null;
+    applied_at: string | null;
+    review_note: string | null;
+    orders: {
+        id: string;
+        order_number: string;
+        customer_name: string;
+        payment_status: string;
+    } | null;
+}
+
+export type BankTransactionQueueFilter = 'queue' | 'all' | BankTransactionMatchStatus;
+
+export interface ImportBankStatementParams {
+    bankCode: string;
+    fileName: string;
+    transactions: ParsedBankTransaction[];
+    skippedRows: number;
+    uploadedBy?: string;
+    autoApply: boolean;
+}
+
+/**
+ * Dedupe key for a transaction
+ * `occurrence` separates identical rows within one statement (same amount,
+ * memo and time), so re-importing the same file still dedupes row by row
+ */
+function fingerprintTransaction(bankCode: string, transaction: ParsedBankTransaction, occurrence: number): string {
+    return crypto
+        .createHash('sha256')
+        .update([
+            bankCode,
+            transaction.transactionDate,
+            transaction.amount.toFixed(2),
+            transaction.transactionRef || '',
+            transaction.description.toUpperCase(),
+            occurrence,
+        ].join('|'))
+        .digest('hex');
+}
+
+/**
+ * Fetch orders by order number (for matching)
+ */
+async function getReconcilableOrders(orderNumbers: string[]): Promise<Map<string, ReconcilableOrder>> {
+    const orders = new Map<string, ReconcilableOrder>();
+    if (orderNumbers.length === 0) return orders;
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+        .from('orders')
+        .select(RECONCILABLE_ORDER_FIELDS)
+        .in('order_number', orderNumbers);
+
+    if (error) {
+        console.error('Error fetching orders for reconciliation:', error);
+        throw new Error('Failed to fetch orders');
+    }
+
+    for (const order of data || []) {
+        orders.set(order.order_number, order as ReconcilableOrder);
+    }
+
+    return orders;
+}
+
+function matchToColumns(match: BankTransactionMatch) {
+    return {
+        match_status: match.matchStatus,
+        order_id: match.orderId || null,
+        detected_order_number: match.detectedOrderNumber || null,
+        payment_kind: match.paymentKind || null,
+        expected_amount: match.expectedAmount ?? null,
+        flag_reason: match.flagReason || null,
+    };
+}
+
+/**
+ * Import parsed statement transactions, match them and optionally apply exact matches
+ */
+export async function importBankStatement(
+    params: ImportBankStatementParams
+): Promise<BankStatementImportResult> {
+    const supabase = createServiceClient();
+
+    const { data: importRow, error: importError } = await supabase
+        .from('bank_statement_imports')
+        .insert({
+            bank_code: params.bankCode,
+            file_name: params.fileName,
+            uploaded_by: params.uploadedBy || null,
+        })
+        .select('id')
+        .single();
+
+    if (importError || !importRow) {
+        console.error('Error creating bank statement import:', importError);
+        throw new Error('Failed to create statement import');
+    }
+
+    // Fingerprint and drop transactions that were already imported
+    const occurrences = new Map<string, number>();
+    const fingerprinted = params.transactions.map((transaction) => {
+        const base = fingerprintTransaction(params.bankCode, transaction, 0);
+        const occurrence = occurrences.get(base) || 0;
+        occurrences.set(base, occurrence + 1);
+        return {
+            transaction,
+            fingerprint: occurrence === 0 ? base : fingerprintTransaction(params.bankCode, transaction, occurrence),
+        };
+    });
+
+    // Checked in chunks to keep the query string short
+    const existingFingerprints = new Set<string>();
+    for (let i = 0; i < fingerprinted.length; i += FINGERPRINT_CHUNK_SIZE) {
+        const chunk = fingerprinted.slice(i, i + FINGERPRINT_CHUNK_SIZE).map((t) => t.fingerprint);
+        const { data: existing, error: existingError } = await supabase
+            .from('bank_transactions')
+            .select('fingerprint')
+            .in('fingerprint', chunk);
+
+        if (existingError) {
+            console.error('Error checking existing bank transactions:', existingError);
+            throw new Error('Failed to check for duplicate transactions');
+        }
+
+        for (const row of existing || []) {
+            existingFingerprints.add(row.fingerprint);
+        }
+    }
+
+    const fresh = fingerprinted.filter((t) => !existingFingerprints.has(t.fingerprint));
+
+    // Match by memo -> order code -> amount
+    const detectedCodes = fresh.map((t) => extractOrderCodeFromMemo(t.transaction.description));
+    const orders = await getReconcilableOrders(
+        Array.from(new Set(detectedCodes.filter((code): code is string => !!code)))
+    );
+
+    const rows = fresh.map(({ transaction, fingerprint }, index) => {
+        const detectedOrderNumber = detectedCodes[index];
+        const order = detectedOrderNumber ? orders.get(detectedOrderNumber) : undefined;
+        const match: BankTransactionMatch = order
+            ? matchTransferToOrder(order, transaction.amount, detectedOrderNumber || undefined)
+            : { matchStatus: 'unmatched', detectedOrderNumber: detectedOrderNumber || undefined };
+
+        return {
+            import_id: importRow.id,
+            bank_code: params.bankCode,
+            transaction_ref: transaction.transactionRef || null,
+            transaction_date: transaction.transactionDate,
+            amount: transaction.amount,
+            description: transaction.description,
+            fingerprint,
+            ...matchToColumns(match),
+        };
+    });
+
+    let inserted: Array<{ id: string; match_status: string }> = [];
+    if (rows.length > 0) {
+        const { data, error: insertError } = await supabase
+            .from('bank_transactions')
+            .insert(rows)
+            .select('id, match_status');
+
+        if (insertError) {
+            console.error('Error inserting bank transactions:', insertError);
+            throw new Error('Failed to save bank transactions');
+        }
+        inserted = data || [];
+    }
+
+    // Apply exact matches if requested
+    let appliedCount = 0;
+    if (params.autoApply) {
+        for (const row of inserted.filter((r) => r.match_status === 'suggested')) {
+            try {
+                await applyBankTransaction(row.id, params.uploadedBy, { note: 'Auto-applied from bank statement import' });
+                row.match_status = 'applied';
+                appliedCount++;
+            } catch (error) {
+                console.error(`Error auto-applying bank transaction ${row.id}:`, error);
+            }
+        }
+    }
+
+    const duplicateCount = fingerprinted.length - fresh.length;
+    await supabase
+        .from('bank_statement_imports')
+        .update({
+            transaction_count: inserted.length,
+            duplicate_count: duplicateCount,
+            applied_count: appliedCount,
+        })
+        .eq('id', importRow.id);
+
+    const countStatus = (status: string) => inserted.filter((r) => r.match_status === status).length;
+
+    return {
+        importId: importRow.id,
+        transactionCount: inserted.length,
+        duplicateCount,
+        appliedCount,
+        suggestedCount: countStatus('suggested'),
+        flaggedCount: countStatus('flagged'),
+        unmatchedCount: countStatus('unmatched'),
+        skippedRows: params.skippedRows,
+    };
+}
+
+/**
+ * List bank transactions for the reconciliation screen
+ * 'queue' = everything that still needs a decision (unmatched, suggested, flagged)
+ */
+export async function listBankTransactions(
+    filter: BankTransactionQueueFilter = 'queue',
+    limit = 100
+): Promise<BankTransactionDTO[]> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('bank_transactions')
+        .select(`
+            id,
+            import_id,
+            bank_code,
+            transaction_ref,
+            transaction_date,
+            amount,
+            description,
+            match_status,
+            flag_reason,
+            payment_kind,
+            expected_amount,
+            detected_order_number,
+            applied_at,
+            review_note,
+            orders (
+                id,
+                order_number,
+                customer_name,
+                payment_status
+            )
+        `)
+        .order('transaction_date', { ascending: false })
+        .limit(limit);
+
+    if (filter === 'queue') {
+        query = query.in('match_status', ['unmatched', 'suggested', 'flagged']);
+    } else if (filter !== 'all') {
+        query = query.eq('match_status', filter);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('Error listing bank transactions:', error);
+        throw new Error('Failed to list bank transactions');
+    }
+
+    return ((data || []) as unknown as BankTransactionRow[]).map((row) => ({
+        id: row.id,
+        importId: row.import_id,
+        bankCode: row.bank_code,
+        transactionRef: row.transaction_ref,
+        transactionDate: row.transaction_date,
+        amount: Number(row.amount),
+        description: row.description,
+        matchStatus: row.match_status,
+        flagReason: row.flag_reason,
+        paymentKind: row.payment_kind,
+        expectedAmount: row.expected_amount !== null ? Number(row.expected_amount) : null,
+        detectedOrderNumber: row.detected_order_number,
+        order: row.orders
+            ? {
+                id: row.orders.id,
+                orderNumber: row.orders.order_number,
+                customerName: row.orders.customer_name,
+                paymentStatus: row.orders.payment_status,
+            }
+            : null,
+        appliedAt: row.applied_at,
+        reviewNote: row.review_note,
+    }));
+}
+
+/**
+ * Apply a matched transaction: mark the order's deposit received or order paid
+ * Flagged (partial / over-payment) transactions need acceptMismatch and a note
+ */
+export async function applyBankTransaction(
+    transactionId: string,
+    appliedBy?: string,
+    options: { note?: string; acceptMismatch?: boolean } = {}
+): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { data: transaction, error: fetchError } = await supabase
+        .from('bank_transactions')
+        .select('id, amount, match_status, order_id, detected_order_number')
+        .eq('id', transactionId)
+        .single();
+
+    if (fetchError || !transaction) {
+        throw new Error('Transaction not found');
+    }
+
+    if (!transaction.order_id || !['suggested', 'flagged'].includes(transaction.match_status)) {
+        throw new Error('Transaction is not matched to an order');
+    }
+
+    // Re-check against the order as it is now (it may have been paid meanwhile)
+    const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select(RECONCILABLE_ORDER_FIELDS)
+        .eq('id', transaction.order_id)
+        .single();
+
+    if (orderError || !order) {
+        throw new Error('Order not found');
+    }
+
+    const match = matchTransferToOrder(order as ReconcilableOrder, Number(transaction.amount), transaction.detected_order_number || undefined);
+
+    if (match.flagReason === 'order_not_awaiting_payment' || !match.paymentKind) {
+        await supabase
+            .from('bank_transactions')
+            .update(matchToColumns(match))
+            .eq('id', transaction.id);
+        throw new Error('Order is not awaiting payment');
+    }
+
+    if (match.matchStatus === 'flagged' && !options.acceptMismatch) {
+        throw new Error('Amount does not match the expected amount');
+    }
+
+    if (match.matchStatus === 'flagged' && !options.note?.trim()) {
+        throw new Error('A note is required to accept a mismatched amount');
+    }
+
+    // Claim the transaction so two admins can't apply it twice
+    const { data: claimed, error: claimError } = await supabase
+        .from('bank_transactions')
+        .update({
+            match_status: 'applied',
+            applied_by: appliedBy || null,
+            applied_at: new Date().toISOString(),
+            review_note: options.note || null,
+        })
+        .eq('id', transaction.id)
+        .eq('match_status', transaction.match_status)
+        .select('id');
+
+    if (claimError || !claimed || claimed.length === 0) {
+        throw new Error('Transaction was already handled');
+    }
+
+    const amountLabel = new Intl.NumberFormat('vi-VN').format(Number(transaction.amount));
+    const historyNote = options.note
+        ? `Bank transfer ${amountLabel} ₫ - ${options.note}`
+        : `Bank transfer ${amountLabel} ₫ matched from statement`;
+
+    try {
+        const payment = { amount: Number(transaction.amount), reference: transaction.id };
+        if (match.paymentKind === 'deposit') {
+            await adminMarkDepositReceived(order.order_number, historyNote, appliedBy, payment);
+        } else if (match.paymentKind === 'balance') {
+            await adminMarkBalanceReceived(order.order_number, historyNote, appliedBy, payment);
+        } else {
+            await adminMarkOrderPaid(order.order_number, historyNote, appliedBy, payment);
+        }
+    } catch (error) {
+        // Release the claim so the transaction stays in the queue
+        await supabase
+            .from('bank_transactions')
+            .update({
+                match_status: transaction.match_status,
+                applied_by: null,
+                applied_at: null,
+            })
+            .eq('id', transaction.id);
+        throw error;
+    }
+}
+
+/**
+ * Manually match an unmatched/flagged transaction to an order
+ */
+export async function assignBankTransaction(transactionId: string, orderCode: string): Promise<BankTransactionMatch> {
+    const supabase = createServiceClient();
+
+    const { data: transaction, error: fetchError } = await supabase
+        .from('bank_transactions')
+        .select('id, amount, match_status')
+        .eq('id', transactionId)
+        .single();
+
+    if (fetchError || !transaction) {
+        throw new Error('Transaction not found');
+    }
+
+    if (transaction.match_status === 'applied') {
+        throw new Error('Transaction was already applied');
+    }
+
+    const orders = await getReconcilableOrders([orderCode.trim().toUpperCase()]);
+    const order = orders.get(orderCode.trim().toUpperCase());
+
+    if (!order) {
+        throw new Error('Order not found');
+    }
+
+    const match = matchTransferToOrder(order, Number(transaction.amount));
+
+    const { error: updateError } = await supabase
+        .from('bank_transactions')
+        .update(matchToColumns(match))
+        .eq('id', transaction.id);
+
+    if (updateError) {
+        console.error('Error assigning bank transaction:', updateError);
+        throw new Error('Failed to assign transaction');
+    }
+
+    return match;
+}
+
+/**
+ * Dismiss a transaction (not an order payment, refunded manually, etc.)
+ */
+export async function ignoreBankTransaction(
+    transactionId: string,
+    note: string,
+    ignoredBy?: string
+): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { data: updated, error } = await supabase
+        .from('bank_transactions')
+        .update({
+            match_status: 'ignored',
+            review_note: note,
+            applied_by: ignoredBy || null,
+            applied_at: new Date().toISOString(),
+        })
+        .eq('id', transactionId)
+        .neq('match_status', 'applied')
+        .select('id');
+
+    if (error) {
+        console.error('Error ignoring bank transaction:', error);
+        throw new Error('Failed to ignore transaction');
+    }
+
+    if (!updated || updated.length === 0) {
+        throw new Error('Transaction not found or already applied');
+    }
+}
@@ -0,0 +1,183 @@
+import { createServiceClient } from '@/lib/supabase/service';
+
+/**
+ * Admin Reviews Repository
+ * Moderation queue for customer product reviews
+ */
+
+export type ReviewModerationStatus = 'pending' | 'approved' | 'rejected';
+export type ReviewModerationFilter = ReviewModerationStatus | 'all';
+
+export interface AdminReview {
+    id: string;
+    productId: string | null;
+    productName: string;
+    productSlug?: string;
+    orderNumber?: string;
+    rating: number;
+    title?: string;
+    content?: string;
+    customerName: string;
+    isVerifiedPurchase: boolean;
+    status: ReviewModerationStatus;
+    moderatedAt?: string;
+    moderationNote?: string;
+    createdAt: string;
+}
+
+interface AdminReviewRow {
+    id: string;
+    product_id: string | null;
+    rating: number;
+    title: string | null;
+    content: string | null;
+    customer_name: string;
+    is_verified_purchase: boolean | null;
+    is_approved: boolean | null;
+    moderated_at: string | null;
+    moderation_note: string | null;
+    created_at: string;
+    products: {
+        slug: string;
+        product_translations: Array<{ name: string; locale: string }> | null;
+    } | null;
+    orders: { order_number: string } | null;
+}
+
+/**
+ * pending: never moderated; approved / rejected: decided by an admin
+ */
+function toModerationStatus(row: { is_approved: boolean | null; moderated_at: string | null }): ReviewModerationStatus {
+    if (row.is_approved) return 'approved';
+    return row.moderated_at ? 'rejected' : 'pending';
+}
+
+/**
+ * List reviews for moderation (pending: oldest first, otherwise newest first)
+ */
+export async function adminListReviews(filter: ReviewModerationFilter = 'pending'): Promise<AdminReview[]> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('product_reviews')
+        .select(
+            `
+            id,
+            product_id,
+            rating,
+            title,
+            content,
+            customer_name,
+            is_verified_purchase,
+            is_approved,
+            moderated_at,
+            moderation_note,
+            created_at,
+            products (
+                slug,
+                product_translations (
+                    name,
+                    locale
+                )
+            ),
+            orders (
+                order_number
+            )
+        `
+        )
+        .order('created_at', { ascending: filter === 'pending' })
+        .limit(200);
+
+    if (filter === 'pending') {
+        query = query.is('moderated_at', null).eq('is_approved', false);
+    } else if (filter === 'approved') {
+        query = query.eq('is_approved', true);
+    } else if (filter === 'rejected') {
+        query = query.not('moderated_at', 'is', null).eq('is_approved', false);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('Error fetching reviews:', error);
+        throw new Error('Failed to fetch reviews');
+    }
+
+    // Many-to-one joins come back as single objects
+    return ((data || []) as unknown as AdminReviewRow[]).map((row) => {
+        const product = row.products;
+        const order = row.orders;
+        const translations = product?.product_translations || [];
+        const translation = translations.find((t) => t.locale === 'en') || translations[0];
+
+        return {
+            id: row.id,
+            productId: row.product_id,
+            productName: translation?.name || product?.slug || 'Deleted product',
+            productSlug: product?.slug,
+            orderNumber: order?.order_number,
+            rating: row.rating,
+            title: row.title || undefined,
+            content: row.content || undefined,
+            customerName: row.customer_name,
+            isVerifiedPurchase: row.is_verified_purchase === true,
+            status: toModerationStatus(row),
+            moderatedAt: row.moderated_at || undefined,
+            moderationNote: row.moderation_note || undefined,
+            createdAt: row.created_at,
+        };
+    });
+}
+
+/**
+ * Count reviews waiting for moderation
+ */
+export async function adminCountPendingReviews(): Promise<number> {
+    const supabase = createServiceClient();
+
+    const { count, error } = await supabase
+        .from('product_reviews')
+        .select('id', { count: 'exact', head: true })
+        .is('moderated_at', null)
+        .eq('is_approved', false);
+
+    if (error) {
+        console.error('Error counting pending reviews:', error);
+        return 0;
+    }
+
+    return count || 0;
+}
+
+/**
+ * Approve or reject a review
+ * Returns the product slug so callers can revalidate the product page
+ */
+export async function adminModerateReview(
+    reviewId: string,
+    decision: 'approve' | 'reject',
+    moderatedBy: string,
+    note?: string
+): Promise<{ productSlug?: string }> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('product_reviews')
+        .update({
+            is_approved: decision === 'approve',
+            moderated_at: new Date().toISOString(),
+            moderated_by: moderatedBy,
+            moderation_note: note || null,
+        })
+        .eq('id', reviewId)
+        .select('id, products (slug)')
+        .single();
+
+    if (error || !data) {
+        console.error('Error moderating review:', error);
+        throw new Error('Failed to update review');
+    }
+
+    const product = data.products as unknown as { slug: string } | null;
+    return { productSlug: product?.slug };
+}
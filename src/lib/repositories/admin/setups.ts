@@ -0,0 +1,183 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import { toSetupModerationStatus, type SetupModerationStatus } from '@/lib/repositories/setups';
+
+/**
+ * Admin Customer Setups Repository
+ * Moderation queue for customer setup photos
+ */
+
+export type SetupModerationFilter = SetupModerationStatus | 'all';
+
+export interface AdminSetup {
+    id: string;
+    title: string;
+    description?: string;
+    imageUrl: string;
+    customerName: string;
+    customerEmail?: string;
+    products: Array<{ id: string; slug: string; name: string }>;
+    status: SetupModerationStatus;
+    moderatedAt?: string;
+    moderationNote?: string;
+    createdAt: string;
+}
+
+interface AdminSetupRow {
+    id: string;
+    title: string;
+    description: string | null;
+    image_url: string;
+    products: string[] | null;
+    is_approved: boolean | null;
+    moderated_at: string | null;
+    moderation_note: string | null;
+    created_at: string;
+    user_profiles: { full_name: string | null; email: string } | null;
+}
+
+/**
+ * Slugs + names for tagged products (including unpublished ones)
+ */
+async function getTaggedProducts(productIds: string[]): Promise<Map<string, { id: string; slug: string; name: string }>> {
+    const products = new Map<string, { id: string; slug: string; name: string }>();
+    if (productIds.length === 0) return products;
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+        .from('products')
+        .select('id, slug, product_translations (name, locale)')
+        .in('id', productIds);
+
+    if (error) {
+        console.error('Error fetching tagged products:', error);
+        return products;
+    }
+
+    for (const product of data || []) {
+        const translations: Array<{ name: string; locale: string }> = product.product_translations || [];
+        const translation = translations.find((t) => t.locale === 'en') || translations[0];
+        products.set(product.id, {
+            id: product.id,
+            slug: product.slug,
+            name: translation?.name || product.slug,
+        });
+    }
+
+    return products;
+}
+
+/**
+ * List setups for moderation (pending: oldest first, otherwise newest first)
+ */
+export async function adminListSetups(filter: SetupModerationFilter = 'pending'): Promise<AdminSetup[]> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('customer_setups')
+        .select(
+            `
+            id,
+            title,
+            description,
+            image_url,
+            products,
+            is_approved,
+            moderated_at,
+            moderation_note,
+            created_at,
+            user_profiles (
+                full_name,
+                email
+            )
+        `
+        )
+        .order('created_at', { ascending: filter === 'pending' })
+        .limit(200);
+
+    if (filter === 'pending') {
+        query = query.is('moderated_at', null).eq('is_approved', false);
+    } else if (filter === 'approved') {
+        query = query.eq('is_approved', true);
+    } else if (filter === 'rejected') {
+        query = query.not('moderated_at', 'is', null).eq('is_approved', false);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        console.error('Error fetching customer setups:', error);
+        throw new Error('Failed to fetch customer setups');
+    }
+
+    const rows = (data || []) as unknown as AdminSetupRow[];
+    const products = await getTaggedProducts([...new Set(rows.flatMap((row) => row.products || []))]);
+
+    return rows.map((row) => ({
+        id: row.id,
+        title: row.title,
+        description: row.description || undefined,
+        imageUrl: row.image_url,
+        customerName: row.user_profiles?.full_name || row.user_profiles?.email || 'Deleted account',
+        customerEmail: row.user_profiles?.email,
+        products: (row.products || [])
+            .map((id) => products.get(id))
+            .filter((product): product is { id: string; slug: string; name: string } => !!product),
+        status: toSetupModerationStatus(row),
+        moderatedAt: row.moderated_at || undefined,
+        moderationNote: row.moderation_note || undefined,
+        createdAt: row.created_at,
+    }));
+}
+
+/**
+ * Count setups waiting for moderation
+ */
+export async function adminCountPendingSetups(): Promise<number> {
+    const supabase = createServiceClient();
+
+    const { count, error } = await supabase
+        .from('customer_setups')
+        .select('id', { count: 'exact', head: true })
+        .is('moderated_at', null)
+        .eq('is_approved', false);
+
+    if (error) {
+        console.error('Error counting pending setups:', error);
+        return 0;
+    }
+
+    return count || 0;
+}
+
+/**
+ * Approve or reject a setup
+ * Returns the tagged product slugs so callers can revalidate product pages
+ */
+export async function adminModerateSetup(
+    setupId: string,
+    decision: 'approve' | 'reject',
+    moderatedBy: string,
+    note?: string
+): Promise<{ productSlugs: string[] }> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('customer_setups')
+        .update({
+            is_approved: decision === 'approve',
+            moderated_at: new Date().toISOString(),
+            moderated_by: moderatedBy,
+            moderation_note: note || null,
+        })
+        .eq('id', setupId)
+        .select('id, products')
+        .single();
+
+    if (error || !data) {
+        console.error('Error moderating setup:', error);
+        throw new Error('Failed to update setup');
+    }
+
+    const products = await getTaggedProducts(data.products || []);
+    return { productSlugs: Array.from(products.values()).map((product) => product.slug) };
+}
@@ -0,0 +1,144 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import type { ShippingRate, ShippingZone } from '@/lib/shipping/rates';
+import { mapShippingZone, SHIPPING_ZONE_COLUMNS, type ShippingZoneRow } from '@/lib/repositories/shipping';
+
+/**
+ * Admin Shipping Repository
+ * Shipping zones and their weight brackets (/admin/shipping)
+ */
+
+export type ShippingZonePayload = Omit<ShippingZone, 'id'>;
+
+/**
+ * All zones, including inactive ones
+ */
+export async function adminListShippingZones(): Promise<ShippingZone[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('shipping_zones')
+        .select(SHIPPING_ZONE_COLUMNS)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true })
+        .returns<ShippingZoneRow[]>();
+
+    if (error) {
+        console.error('Error fetching shipping zones:', error);
+        throw new Error('Failed to fetch shipping zones');
+    }
+
+    return (data || []).map(mapShippingZone);
+}
+
+async function adminGetShippingZone(id: string): Promise<ShippingZone | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('shipping_zones')
+        .select(SHIPPING_ZONE_COLUMNS)
+        .eq('id', id)
+        .maybeSingle<ShippingZoneRow>();
+
+    if (error) {
+        console.error('Error fetching shipping zone:', error);
+        throw new Error('Failed to fetch shipping zone');
+    }
+
+    return data ? mapShippingZone(data) : null;
+}
+
+async function replaceZoneRates(zoneId: string, rates: ShippingRate[]): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error: deleteError } = await supabase.from('shipping_zone_rates').delete().eq('zone_id', zoneId);
+    if (deleteError) {
+        console.error('Error clearing shipping rates:', deleteError);
+        throw new Error('Failed to save shipping rates');
+    }
+
+    const { error: insertError } = await supabase.from('shipping_zone_rates').insert(
+        rates.map((rate) => ({ zone_id: zoneId, max_weight_kg: rate.maxWeightKg, fee: rate.fee }))
+    );
+    if (insertError) {
+        console.error('Error saving shipping rates:', insertError);
+        throw new Error('Failed to save shipping rates');
+    }
+}
+
+function toZoneRow(payload: ShippingZonePayload) {
+    return {
+        name: payload.name,
+        cities: payload.cities,
+        districts: payload.districts,
+        is_active: payload.isActive,
+        sort_order: payload.sortOrder,
+        extra_kg_fee: payload.extraKgFee,
+        insurance_rate_percent: payload.insuranceRatePercent,
+        insurance_min_value: payload.insuranceMinValue,
+    };
+}
+
+/**
+ * Create a zone with its weight brackets
+ */
+export async function adminCreateShippingZone(payload: ShippingZonePayload): Promise<string> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('shipping_zones')
+        .insert(toZoneRow(payload))
+        .select('id')
+        .single();
+
+    if (error || !data) {
+        console.error('Error creating shipping zone:', error);
+        throw new Error('Failed to create shipping zone');
+    }
+
+    await replaceZoneRates(data.id, payload.rates);
+    return data.id;
+}
+
+/**
+ * Update a zone and replace its weight brackets
+ * Returns the zone as it was before (for the audit log)
+ */
+export async function adminUpdateShippingZone(id: string, payload: ShippingZonePayload): Promise<ShippingZone> {
+    const supabase = createServiceClient();
+
+    const previous = await adminGetShippingZone(id);
+    if (!previous) {
+        throw new Error('Shipping zone not found');
+    }
+
+    const { error } = await supabase.from('shipping_zones').update(toZoneRow(payload)).eq('id', id);
+
+    if (error) {
+        console.error('Error updating shipping zone:', error);
+        throw new Error('Failed to update shipping zone');
+    }
+
+    await replaceZoneRates(id, payload.rates);
+    return previous;
+}
+
+/**
+ * Delete a zone (orders keep their fee; shipping_zone_id is cleared)
+ */
+export async function adminDeleteShippingZone(id: string): Promise<ShippingZone> {
+    const supabase = createServiceClient();
+
+    const previous = await adminGetShippingZone(id);
+    if (!previous) {
+        throw new Error('Shipping zone not found');
+    }
+
+    const { error } = await supabase.from('shipping_zones').delete().eq('id', id);
+
+    if (error) {
+        console.error('Error deleting shipping zone:', error);
+        throw new Error('Failed to delete shipping zone');
+    }
+
+    return previous;
+}
@@ -0,0 +1,339 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import { isAdminRole, type AdminRole } from '@/lib/admin/permissions';
+import { sendStaffInvitationEmail } from '@/lib/emails/service';
+
+/**
+ * Admin Staff Repository
+ * Staff roles on user_profiles.admin_role and pending invitations (admin_invitations)
+ */
+
+export interface StaffMember {
+    id: string;
+    email: string;
+    fullName?: string;
+    role: AdminRole;
+    createdAt: string;
+}
+
+export interface StaffInvitation {
+    id: string;
+    email: string;
+    role: AdminRole;
+    invitedByEmail?: string;
+    createdAt: string;
+}
+
+interface StaffRow {
+    id: string;
+    email: string;
+    full_name: string | null;
+    admin_role: AdminRole;
+    created_at: string;
+}
+
+interface InvitationRow {
+    id: string;
+    email: string;
+    role: AdminRole;
+    created_at: string;
+    user_profiles: { email: string } | null;
+}
+
+function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * Resolve the staff role for a signed-in user
+ * Accepts a pending invitation for the user's email on first sign-in.
+ * Returns null for non-staff.
+ */
+export async function getStaffRole(userId: string, email: string): Promise<AdminRole | null> {
+    const supabase = createServiceClient();
+
+    const { data: profile, error: profileError } = await supabase
+        .from('user_profiles')
+        .select('admin_role')
+        .eq('id', userId)
+        .maybeSingle();
+
+    if (profileError) {
+        console.error('Error fetching staff role:', profileError);
+        return null;
+    }
+
+    if (isAdminRole(profile?.admin_role)) {
+        return profile.admin_role;
+    }
+
+    const { data: invitation } = await supabase
+        .from('admin_invitations')
+        .select('id, role')
+        .eq('email', normalizeEmail(email))
+        .is('accepted_at', null)
+        .maybeSingle();
+
+    if (!invitation || !isAdminRole(invitation.role)) {
+        return null;
+    }
+
+    const { error: grantError } = await supabase
+        .from('user_profiles')
+        .upsert({
+            id: userId,
+            email,
+            admin_role: invitation.role,
+            updated_at: new Date().toISOString(),
+        }, {
+            onConflict: 'id',
+        });
+
+    if (grantError) {
+        console.error('Error accepting staff invitation:', grantError);
+        return null;
+    }
+
+    await supabase
+        .from('admin_invitations')
+        .update({ accepted_at: new Date().toISOString(), accepted_by: userId })
+        .eq('id', invitation.id);
+
+    return invitation.role;
+}
+
+/**
+ * List staff members (owners first)
+ */
+export async function adminListStaff(): Promise<StaffMember[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, email, full_name, admin_role, created_at')
+        .not('admin_role', 'is', null)
+        .order('email', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching staff:', error);
+        return [];
+    }
+
+    return ((data || []) as StaffRow[])
+        .map((row) => ({
+            id: row.id,
+            email: row.email,
+            fullName: row.full_name || undefined,
+            role: row.admin_role,
+            createdAt: row.created_at,
+        }))
+        .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'));
+}
+
+/**
+ * List invitations that have not been accepted yet (newest first)
+ */
+export async function adminListPendingInvitations(): Promise<StaffInvitation[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('admin_invitations')
+        .select('id, email, role, created_at, user_profiles!admin_invitations_invited_by_fkey (email)')
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching staff invitations:', error);
+        return [];
+    }
+
+    return ((data || []) as unknown as InvitationRow[]).map((row) => ({
+        id: row.id,
+        email: row.email,
+        role: row.role,
+        invitedByEmail: row.user_profiles?.email,
+        createdAt: row.created_at,
+    }));
+}
+
+async function countOwners(): Promise<number> {
+    const supabase = createServiceClient();
+
+    const { count, error } = await supabase
+        .from('user_profiles')
+        .select('id', { count: 'exact', head: true })
+        .eq('admin_role', 'owner');
+
+    if (error) {
+        console.error('Error counting owners:', error);
+        throw new Error('Failed to check owners');
+    }
+
+    return count || 0;
+}
+
+async function getStaffProfile(userId: string): Promise<{ email: string; role: AdminRole | null }> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('user_profiles')
+        .select('email, admin_role')
+        .eq('id', userId)
+        .maybeSingle();
+
+    if (error || !data) {
+        console.error('Error fetching staff member:', error);
+        throw new Error('Staff member not found');
+    }
+
+    return { email: data.email, role: isAdminRole(data.admin_role) ? data.admin_role : null };
+}
+
+async function assertNotLastOwner(currentRole: AdminRole | null): Promise<void> {
+    if (currentRole === 'owner' && (await countOwners()) <= 1) {
+        throw new Error('At least one owner is required');
+    }
+}
+
+/**
+ * Invite a staff member by email
+ * Existing accounts get the role right away ('granted'); otherwise an
+ * invitation waits for their first admin sign-in ('invited'). Either way
+ * the invitee is emailed.
+ */
+export async function adminInviteStaff(input: {
+    email: string;
+    role: AdminRole;
+    invitedBy: string;
+}): Promise<'granted' | 'invited'> {
+    const supabase = createServiceClient();
+    const email = normalizeEmail(input.email);
+
+    const { data: profile } = await supabase
+        .from('user_profiles')
+        .select('id, admin_role')
+        .eq('email', email)
+        .maybeSingle();
+
+    let result: 'granted' | 'invited';
+
+    if (profile) {
+        if (profile.admin_role) {
+            throw new Error('This user is already a staff member');
+        }
+
+        const { error } = await supabase
+            .from('user_profiles')
+            .update({ admin_role: input.role })
+            .eq('id', profile.id);
+
+        if (error) {
+            console.error('Error granting staff role:', error);
+            throw new Error('Failed to add staff member');
+        }
+
+        result = 'granted';
+    } else {
+        const { error } = await supabase
+            .from('admin_invitations')
+            .upsert({
+                email,
+                role: input.role,
+                invited_by: input.invitedBy,
+                accepted_at: null,
+                accepted_by: null,
+            }, {
+                onConflict: 'email',
+            });
+
+        if (error) {
+            console.error('Error creating staff invitation:', error);
+            throw new Error('Failed to create invitation');
+        }
+
+        result = 'invited';
+    }
+
+    // Non-blocking: the role or invitation is already saved
+    sendStaffInvitationEmail({ email, role: input.role, hasAccount: result === 'granted' }).catch((error) => {
+        console.error('Failed to send staff invitation email:', error);
+    });
+
+    return result;
+}
+
+/**
+ * Change a staff member's role (keeps at least one owner)
+ * Returns the member's email and previous role
+ */
+export async function adminUpdateStaffRole(
+    userId: string,
+    role: AdminRole
+): Promise<{ email: string; previousRole: AdminRole | null }> {
+    const current = await getStaffProfile(userId);
+    if (role !== 'owner') {
+        await assertNotLastOwner(current.role);
+    }
+
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('user_profiles')
+        .update({ admin_role: role })
+        .eq('id', userId)
+        .not('admin_role', 'is', null);
+
+    if (error) {
+        console.error('Error updating staff role:', error);
+        throw new Error('Failed to update staff role');
+    }
+
+    return { email: current.email, previousRole: current.role };
+}
+
+/**
+ * Remove admin access (keeps at least one owner)
+ * Returns the member's email and previous role
+ */
+export async function adminRemoveStaff(userId: string): Promise<{ email: string; previousRole: AdminRole | null }> {
+    const current = await getStaffProfile(userId);
+    await assertNotLastOwner(current.role);
+
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+        .from('user_profiles')
+        .update({ admin_role: null })
+        .eq('id', userId);
+
+    if (error) {
+        console.error('Error removing staff member:', error);
+        throw new Error('Failed to remove staff member');
+    }
+
+    return { email: current.email, previousRole: current.role };
+}
+
+/**
+ * Revoke a pending invitation
+ * Returns the revoked invitation's email and role (null if it was already gone)
+ */
+export async function adminRevokeInvitation(
+    invitationId: string
+): Promise<{ email: string; role: AdminRole } | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('admin_invitations')
+        .delete()
+        .eq('id', invitationId)
+        .is('accepted_at', null)
+        .select('email, role')
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error revoking staff invitation:', error);
+        throw new Error('Failed to revoke invitation');
+    }
+
+    return data as { email: string; role: AdminRole } | null;
+}
@@ -0,0 +1,222 @@
+/**
+ * Order Change Requests Repository
+ *
+ * Customer side of change requests: create a request and follow up on its
+ * thread from the tracking page. Callers verify the tracking token (or
+ * account ownership) before calling in; the service role bypasses RLS.
+ */
+
+import { createServiceClient } from '@/lib/supabase/service';
+
+export type ChangeRequestCategory = 'change_items' | 'change_address' | 'cancel_refund' | 'other';
+export type ChangeRequestStatus = 'open' | 'accepted' | 'declined' | 'resolved';
+export type ChangeRequestAuthor = 'customer' | 'admin';
+
+export const CHANGE_REQUEST_CATEGORIES: ChangeRequestCategory[] = ['change_items', 'change_address', 'cancel_refund', 'other'];
+export const CHANGE_REQUEST_STATUSES: ChangeRequestStatus[] = ['open', 'accepted', 'declined', 'resolved'];
+
+// Customers can keep writing until the request is closed
+export const REPLYABLE_CHANGE_REQUEST_STATUSES: ChangeRequestStatus[] = ['open', 'accepted'];
+
+export const MAX_CHANGE_REQUEST_MESSAGE_LENGTH = 2000;
+
+export interface ChangeRequestMessage {
+    id: string;
+    author: ChangeRequestAuthor;
+    body: string;
+    createdAt: string;
+}
+
+export interface OrderChangeRequest {
+    id: string;
+    orderId: string;
+    category: ChangeRequestCategory;
+    message: string;
+    status: ChangeRequestStatus;
+    messages: ChangeRequestMessage[];
+    lastMessageAt: string;
+    resolvedAt?: string;
+    createdAt: string;
+}
+
+export interface ChangeRequestMessageRow {
+    id: string;
+    author: ChangeRequestAuthor;
+    body: string;
+    created_at: string;
+}
+
+export interface ChangeRequestRow {
+    id: string;
+    order_id: string;
+    category: ChangeRequestCategory;
+    message: string;
+    status: ChangeRequestStatus;
+    last_message_at: string;
+    resolved_at: string | null;
+    created_at: string;
+    order_change_request_messages: ChangeRequestMessageRow[] | null;
+}
+
+export const CHANGE_REQUEST_COLUMNS = `
+    id,
+    order_id,
+    category,
+    message,
+    status,
+    last_message_at,
+    resolved_at,
+    created_at,
+    order_change_request_messages (
+        id,
+        author,
+        body,
+        created_at
+    )
+`;
+
+export function isChangeRequestCategory(value: unknown): value is ChangeRequestCategory {
+    return CHANGE_REQUEST_CATEGORIES.includes(value as ChangeRequestCategory);
+}
+
+export function mapChangeRequest(row: ChangeRequestRow): OrderChangeRequest {
+    return {
+        id: row.id,
+        orderId: row.order_id,
+        category: row.category,
+        message: row.message,
+        status: row.status,
+        messages: (row.order_change_request_messages || [])
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+            .map((message) => ({
+                id: message.id,
+                author: message.author,
+                body: message.body,
+                createdAt: message.created_at,
+            })),
+        lastMessageAt: row.last_message_at,
+        resolvedAt: row.resolved_at || undefined,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * Get all change requests for an order with their threads (newest first)
+ */
+export async function getChangeRequestsForOrder(orderId: string): Promise<OrderChangeRequest[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_change_requests')
+        .select(CHANGE_REQUEST_COLUMNS)
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching change requests:', error);
+        return [];
+    }
+
+    return ((data || []) as ChangeRequestRow[]).map(mapChangeRequest);
+}
+
+/**
+ * Create a change request from the customer's first message
+ */
+export async function createChangeRequest(input: {
+    orderId: string;
+    category: ChangeRequestCategory;
+    message: string;
+}): Promise<OrderChangeRequest> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_change_requests')
+        .insert({
+            order_id: input.orderId,
+            category: input.category,
+            message: input.message,
+        })
+        .select(CHANGE_REQUEST_COLUMNS)
+        .single();
+
+    if (error || !data) {
+        console.error('Error creating change request:', error);
+        throw new Error('Failed to create change request');
+    }
+
+    return mapChangeRequest(data as ChangeRequestRow);
+}
+
+/**
+ * Append a message to a request thread and bump its last activity
+ */
+export async function addChangeRequestMessage(input: {
+    requestId: string;
+    author: ChangeRequestAuthor;
+    authorId?: string;
+    body: string;
+}): Promise<ChangeRequestMessage> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_change_request_messages')
+        .insert({
+            request_id: input.requestId,
+            author: input.author,
+            author_id: input.authorId || null,
+            body: input.body,
+        })
+        .select('id, author, body, created_at')
+        .single();
+
+    if (error || !data) {
+        console.error('Error adding change request message:', error);
+        throw new Error('Failed to add message');
+    }
+
+    const message = data as ChangeRequestMessageRow;
+
+    await supabase
+        .from('order_change_requests')
+        .update({ last_message_at: message.created_at })
+        .eq('id', input.requestId);
+
+    return {
+        id: message.id,
+        author: message.author,
+        body: message.body,
+        createdAt: message.created_at,
+    };
+}
+
+/**
+ * Customer follow-up on one of the order's requests
+ * Throws if the request does not belong to the order or is already closed
+ */
+export async function addCustomerFollowUp(
+    orderId: string,
+    requestId: string,
+    body: string
+): Promise<{ request: OrderChangeRequest; message: ChangeRequestMessage }> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_change_requests')
+        .select(CHANGE_REQUEST_COLUMNS)
+        .eq('id', requestId)
+        .eq('order_id', orderId)
+        .maybeSingle();
+
+    if (error || !data) {
+        throw new Error('Change request not found');
+    }
+
+    const request = mapChangeRequest(data as ChangeRequestRow);
+    if (!REPLYABLE_CHANGE_REQUEST_STATUSES.includes(request.status)) {
+        throw new Error('This request is closed');
+    }
+
+    const message = await addChangeRequestMessage({ requestId, author: 'customer', body });
+    return { request, message };
+}
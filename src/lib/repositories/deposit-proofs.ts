@@ -2,13 +2,33 @@
  * Deposit Transfer Proofs Repository
  * 
  * Handles CRUD operations for bank transfer deposit proofs.
+ * Every submission is kept as a numbered attempt: after a rejection the
+ * customer may upload a replacement until DEPOSIT_PROOF_RULES.maxAttempts.
  */
 
 import { createServiceClient } from '@/lib/supabase/service';
 
+const HOUR = 60 * 60 * 1000;
+
+function readIntSetting(name: string, fallback: number, min: number): number {
+    const value = Number.parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+export const DEPOSIT_PROOF_RULES = {
+    // Proof submissions allowed per order, rejected ones included
+    maxAttempts: readIntSetting('DEPOSIT_PROOF_MAX_ATTEMPTS', 3, 1),
+    // Rejecting a proof with less than this many hours left before deposit_due_at
+    // (or after it) extends the deadline...
+    extendWithinHours: readIntSetting('DEPOSIT_PROOF_EXTEND_WITHIN_HOURS', 12, 0),
+    // ...to this many hours after the rejection (0 disables extensions)
+    extensionHours: readIntSetting('DEPOSIT_PROOF_EXTENSION_HOURS', 24, 0),
+};
+
 export interface DepositProof {
     id: string;
     orderId: string;
+    attemptNumber: number;
     imageUrls: string[];
     storagePaths: string[];
     status: 'pending' | 'approved' | 'rejected';
@@ -17,10 +37,18 @@ export interface DepositProof {
     reviewNote?: string;
     submittedAt: string;
     customerNote?: string;
+    depositDueExtendedTo?: string; // New deposit_due_at set when this proof was rejected
     createdAt: string;
     updatedAt: string;
 }
 
+export interface UploadProofEligibility {
+    canUpload: boolean;
+    reason?: string;
+    attemptsUsed?: number;
+    maxAttempts: number;
+}
+
 export interface CreateProofInput {
     orderId: string;
     imageUrls: string[];
@@ -119,10 +147,16 @@ export async function createDepositProof(input: CreateProofInput): Promise<Depos
         throw new Error('A pending proof already exists for this order');
     }
     
+    const attemptsUsed = await getDepositProofAttemptCount(input.orderId);
+    if (attemptsUsed >= DEPOSIT_PROOF_RULES.maxAttempts) {
+        throw new Error('Maximum number of proof submissions reached');
+    }
+    
     const { data, error } = await supabase
         .from('deposit_transfer_proofs')
         .insert({
             order_id: input.orderId,
+            attempt_number: attemptsUsed + 1,
             image_urls: input.imageUrls,
             storage_paths: input.storagePaths,
             status: 'pending',
@@ -166,11 +200,31 @@ export async function reviewDepositProof(input: ReviewProofInput): Promise<Depos
     return mapToDepositProof(data);
 }
 
+/**
+ * Number of proofs submitted for an order (all statuses)
+ */
+export async function getDepositProofAttemptCount(orderId: string): Promise<number> {
+    const supabase = createServiceClient();
+    
+    const { count, error } = await supabase
+        .from('deposit_transfer_proofs')
+        .select('id', { count: 'exact', head: true })
+        .eq('order_id', orderId);
+    
+    if (error) {
+        console.error('Error counting deposit proofs:', error);
+        throw new Error('Failed to count deposit proofs');
+    }
+    
+    return count || 0;
+}
+
 /**
  * Check if an order can accept proof uploads
  */
-export async function canUploadProof(orderId: string): Promise<{ canUpload: boolean; reason?: string }> {
+export async function canUploadProof(orderId: string): Promise<UploadProofEligibility> {
     const supabase = createServiceClient();
+    const { maxAttempts } = DEPOSIT_PROOF_RULES;
     
     // Get order details
     const { data: order, error: orderError } = await supabase
@@ -180,34 +234,34 @@ export async function canUploadProof(orderId: string): Promise<{ canUpload: bool
         .single();
     
     if (orderError || !order) {
-        return { canUpload: false, reason: 'Order not found' };
+        return { canUpload: false, reason: 'Order not found', maxAttempts };
     }
     
     // Must be a deposit reservation with bank transfer
     if (order.order_type !== 'deposit_reservation') {
-        return { canUpload: false, reason: 'Not a deposit reservation order' };
+        return { canUpload: false, reason: 'Not a deposit reservation order', maxAttempts };
     }
     
     if (order.payment_method !== 'bank_transfer') {
-        return { canUpload: false, reason: 'Not a bank transfer order' };
+        return { canUpload: false, reason: 'Not a bank transfer order', maxAttempts };
     }
     
     // Must be in deposit_pending status
     if (order.payment_status !== 'deposit_pending') {
-        return { canUpload: false, reason: 'Deposit already processed or order cancelled' };
+        return { canUpload: false, reason: 'Deposit already processed or order cancelled', maxAttempts };
     }
     
     // Check if expired
     if (order.deposit_due_at) {
         const dueAt = new Date(order.deposit_due_at);
         if (dueAt < new Date()) {
-            return { canUpload: false, reason: 'Deposit deadline has passed' };
+            return { canUpload: false, reason: 'Deposit deadline has passed', maxAttempts };
         }
     }
     
     // Check if order is cancelled/expired
     if (order.status === 'cancelled' || order.status === 'expired') {
-        return { canUpload: false, reason: 'Order is cancelled or expired' };
+        return { canUpload: false, reason: 'Order is cancelled or expired', maxAttempts };
     }
     
     // Check if there's already a pending proof
@@ -219,14 +273,97 @@ export async function canUploadProof(orderId: string): Promise<{ canUpload: bool
         .maybeSingle();
     
     if (existingProof) {
-        return { canUpload: false, reason: 'Proof already submitted and pending review' };
+        return { canUpload: false, reason: 'Proof already submitted and pending review', maxAttempts };
+    }
+    
+    const attemptsUsed = await getDepositProofAttemptCount(orderId);
+    if (attemptsUsed >= maxAttempts) {
+        return { canUpload: false, reason: 'Maximum number of proof submissions reached', attemptsUsed, maxAttempts };
+    }
+    
+    return { canUpload: true, attemptsUsed, maxAttempts };
+}
+
+/**
+ * Give the customer time to upload a replacement after a rejection
+ * When attempts remain and deposit_due_at is less than extendWithinHours away
+ * (or already past), it moves to extensionHours from now. The new deadline is
+ * stored on the rejected proof for the admin history.
+ * Returns the new deadline, or null when it was left unchanged.
+ */
+export async function extendDepositDueAfterRejection(proofId: string): Promise<string | null> {
+    const { extendWithinHours, extensionHours, maxAttempts } = DEPOSIT_PROOF_RULES;
+    if (extensionHours === 0) {
+        return null;
+    }
+    
+    const supabase = createServiceClient();
+    
+    const { data: proof } = await supabase
+        .from('deposit_transfer_proofs')
+        .select('id, order_id, status')
+        .eq('id', proofId)
+        .maybeSingle();
+    
+    if (!proof || proof.status !== 'rejected') {
+        return null;
+    }
+    
+    const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('id, status, payment_status, deposit_due_at')
+        .eq('id', proof.order_id)
+        .single();
+    
+    if (orderError || !order) {
+        console.error('Error fetching order for deposit due extension:', orderError);
+        throw new Error('Failed to extend deposit deadline');
+    }
+    
+    if (
+        order.payment_status !== 'deposit_pending' ||
+        order.status === 'cancelled' ||
+        order.status === 'expired' ||
+        (await getDepositProofAttemptCount(order.id)) >= maxAttempts
+    ) {
+        return null;
+    }
+    
+    const now = Date.now();
+    const currentDue = order.deposit_due_at ? new Date(order.deposit_due_at).getTime() : null;
+    const extendedDue = now + extensionHours * HOUR;
+    if (currentDue !== null && (currentDue - now >= extendWithinHours * HOUR || currentDue >= extendedDue)) {
+        return null;
+    }
+    
+    const depositDueAt = new Date(extendedDue).toISOString();
+    
+    const { error: updateError } = await supabase
+        .from('orders')
+        .update({ deposit_due_at: depositDueAt })
+        .eq('id', order.id)
+        .eq('payment_status', 'deposit_pending');
+    
+    if (updateError) {
+        console.error('Error extending deposit deadline:', updateError);
+        throw new Error('Failed to extend deposit deadline');
+    }
+    
+    const { error: proofError } = await supabase
+        .from('deposit_transfer_proofs')
+        .update({ deposit_due_extended_to: depositDueAt })
+        .eq('id', proofId);
+    
+    if (proofError) {
+        console.error('Error recording deposit deadline extension:', proofError);
     }
     
-    return { canUpload: true };
+    return depositDueAt;
 }
 
 /**
- * Delete storage files for a proof (used when cleaning up rejected proofs)
+ * Delete storage files for a proof upload that never became a proof record
+ * Rejected proofs keep their images: they are part of the attempt history.
  */
 export async function deleteProofStorageFiles(storagePaths: string[]): Promise<void> {
     const supabase = createServiceClient();
@@ -250,6 +387,7 @@ function mapToDepositProof(row: Record<string, unknown>): DepositProof {
     return {
         id: row.id as string,
         orderId: row.order_id as string,
+        attemptNumber: (row.attempt_number as number) || 1,
         imageUrls: (row.image_urls as string[]) || [],
         storagePaths: (row.storage_paths as string[]) || [],
         status: row.status as 'pending' | 'approved' | 'rejected',
@@ -258,6 +396,7 @@ function mapToDepositProof(row: Record<string, unknown>): DepositProof {
         reviewNote: row.review_note as string | undefined,
         submittedAt: row.submitted_at as string,
         customerNote: row.customer_note as string | undefined,
+        depositDueExtendedTo: row.deposit_due_extended_to as string | undefined,
         createdAt: row.created_at as string,
         updatedAt: row.updated_at as string,
     };
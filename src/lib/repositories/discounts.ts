@@ -0,0 +1,159 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import {
+    evaluateDiscount,
+    normalizeDiscountCode,
+    type DiscountCode,
+    type DiscountEvaluation,
+    type DiscountLine,
+    type DiscountScope,
+    type DiscountType,
+} from '@/lib/orders/discounts';
+
+/**
+ * Discount Codes Repository
+ * Loads codes and their usage for the discount rules (src/lib/orders/discounts.ts)
+ * Uses service role key to bypass RLS
+ */
+
+export interface DiscountCodeRow {
+    id: string;
+    code: string;
+    description: string | null;
+    discount_type: DiscountType;
+    value: number | string;
+    max_discount: number | string | null;
+    min_order_amount: number | string;
+    scope: DiscountScope;
+    product_ids: string[] | null;
+    tube_types: string[] | null;
+    usage_limit: number | null;
+    per_customer_limit: number | null;
+    starts_at: string | null;
+    expires_at: string | null;
+    is_active: boolean;
+}
+
+export const DISCOUNT_CODE_COLUMNS = 'id, code, description, discount_type, value, max_discount, min_order_amount, scope, product_ids, tube_types, usage_limit, per_customer_limit, starts_at, expires_at, is_active';
+
+export function mapDiscountCode(row: DiscountCodeRow): DiscountCode {
+    return {
+        id: row.id,
+        code: row.code,
+        description: row.description || undefined,
+        discountType: row.discount_type,
+        value: Number(row.value),
+        maxDiscount: row.max_discount != null ? Number(row.max_discount) : undefined,
+        minOrderAmount: Number(row.min_order_amount),
+        scope: row.scope,
+        productIds: row.product_ids || [],
+        tubeTypes: row.tube_types || [],
+        usageLimit: row.usage_limit ?? undefined,
+        perCustomerLimit: row.per_customer_limit ?? undefined,
+        startsAt: row.starts_at || undefined,
+        expiresAt: row.expires_at || undefined,
+        isActive: row.is_active,
+    };
+}
+
+/**
+ * Digits of a phone number, as stored on redemptions
+ */
+export function normalizeRedemptionPhone(phone: string): string {
+    return phone.replace(/\D/g, '');
+}
+
+async function getDiscountCodeByCode(code: string): Promise<DiscountCode | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('discount_codes')
+        .select(DISCOUNT_CODE_COLUMNS)
+        .eq('code', normalizeDiscountCode(code))
+        .maybeSingle<DiscountCodeRow>();
+
+    if (error) {
+        console.error('Error fetching discount code:', error);
+        throw new Error('Failed to fetch discount code');
+    }
+
+    return data ? mapDiscountCode(data) : null;
+}
+
+async function getDiscountUsage(codeId: string, phone?: string): Promise<{ total: number; customer?: number }> {
+    const supabase = createServiceClient();
+
+    const { count: total, error } = await supabase
+        .from('discount_code_redemptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('discount_code_id', codeId);
+
+    if (error) {
+        console.error('Error counting discount redemptions:', error);
+        throw new Error('Failed to check discount usage');
+    }
+
+    if (!phone) {
+        return { total: total || 0 };
+    }
+
+    const { count: customer, error: customerError } = await supabase
+        .from('discount_code_redemptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('discount_code_id', codeId)
+        .eq('customer_phone', normalizeRedemptionPhone(phone));
+
+    if (customerError) {
+        console.error('Error counting customer discount redemptions:', customerError);
+        throw new Error('Failed to check discount usage');
+    }
+
+    return { total: total || 0, customer: customer || 0 };
+}
+
+/**
+ * Evaluate a code typed by the customer against priced cart lines
+ * The per-customer limit is only checked when the phone number is known (checkout).
+ */
+export async function applyDiscountCode(
+    code: string,
+    lines: DiscountLine[],
+    phone?: string
+): Promise<{ discountCode: DiscountCode | null; evaluation: DiscountEvaluation }> {
+    const discountCode = await getDiscountCodeByCode(code);
+    if (!discountCode) {
+        return { discountCode: null, evaluation: { ok: false, reason: 'not_found' } };
+    }
+
+    const usage = await getDiscountUsage(discountCode.id, phone);
+    return { discountCode, evaluation: evaluateDiscount(discountCode, lines, usage) };
+}
+
+/**
+ * Evaluate a code for cart lines (prices and tube types are read from products)
+ */
+export async function validateDiscountForCart(
+    code: string,
+    items: Array<{ productId: string; quantity: number }>
+): Promise<DiscountEvaluation> {
+    const supabase = createServiceClient();
+
+    const { data: products, error } = await supabase
+        .from('products')
+        .select('id, price, tube_type')
+        .in('id', items.map((item) => item.productId));
+
+    if (error) {
+        console.error('Error fetching products for discount:', error);
+        throw new Error('Failed to fetch products');
+    }
+
+    const lines = items.flatMap((item): DiscountLine[] => {
+        const product = products?.find((p) => p.id === item.productId);
+        return product
+            ? [{ productId: product.id, tubeType: product.tube_type, unitPrice: Number(product.price), quantity: item.quantity }]
+            : [];
+    });
+
+    const { evaluation } = await applyDiscountCode(code, lines);
+    return evaluation;
+}
@@ -0,0 +1,169 @@
+import { createClient } from '@/lib/supabase/server';
+import { defaultLocale } from '@/config/locales';
+import type { GuideCardDTO, GuideCategory, GuideDetailDTO } from '@/lib/types/guides';
+
+/**
+ * Guides Repository
+ * Published guides with per-locale Markdown content.
+ * Missing translations fall back to the default locale.
+ */
+
+interface GuideTranslationRow {
+    locale: string;
+    title: string;
+    description?: string | null;
+    content?: string | null;
+}
+
+interface GuideRow {
+    id: string;
+    slug: string;
+    category: string;
+    icon?: string | null;
+    image_url?: string | null;
+    published_at?: string | null;
+    updated_at: string;
+    guide_translations?: GuideTranslationRow[];
+}
+
+/**
+ * Pick the translation for a locale, falling back to the default locale
+ */
+function pickTranslation(
+    translations: GuideTranslationRow[] | undefined,
+    locale: string
+): GuideTranslationRow | undefined {
+    return (
+        translations?.find((t) => t.locale === locale) ||
+        translations?.find((t) => t.locale === defaultLocale)
+    );
+}
+
+function mapGuideRowToCard(guide: GuideRow, translation: GuideTranslationRow): GuideCardDTO {
+    return {
+        id: guide.id,
+        slug: guide.slug,
+        category: guide.category as GuideCategory,
+        icon: guide.icon || undefined,
+        imageUrl: guide.image_url || undefined,
+        title: translation.title,
+        description: translation.description || undefined,
+        locale: translation.locale,
+    };
+}
+
+/**
+ * List published guides, optionally for a single category
+ * Guides with neither the requested nor the default translation are skipped
+ */
+export async function listPublishedGuides(
+    locale: string,
+    category?: GuideCategory
+): Promise<GuideCardDTO[]> {
+    try {
+        const supabase = await createClient();
+
+        let query = supabase
+            .from('guides')
+            .select(
+                `
+        id,
+        slug,
+        category,
+        icon,
+        image_url,
+        published_at,
+        updated_at,
+        guide_translations (
+          locale,
+          title,
+          description
+        )
+      `
+            )
+            .eq('is_published', true)
+            .in('guide_translations.locale', [locale, defaultLocale])
+            .order('sort_order', { ascending: true })
+            .order('published_at', { ascending: false });
+
+        if (category) {
+            query = query.eq('category', category);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            console.error('Error fetching guides:', error);
+            return [];
+        }
+
+        return ((data || []) as GuideRow[]).flatMap((guide) => {
+            const translation = pickTranslation(guide.guide_translations, locale);
+            return translation ? [mapGuideRowToCard(guide, translation)] : [];
+        });
+    } catch (error) {
+        console.error('Error in listPublishedGuides:', error);
+        return [];
+    }
+}
+
+/**
+ * Get a published guide by slug with its Markdown content
+ */
+export async function getGuideBySlug(
+    slug: string,
+    locale: string
+): Promise<GuideDetailDTO | null> {
+    try {
+        const supabase = await createClient();
+
+        const { data, error } = await supabase
+            .from('guides')
+            .select(
+                `
+        id,
+        slug,
+        category,
+        icon,
+        image_url,
+        published_at,
+        updated_at,
+        guide_translations (
+          locale,
+          title,
+          description,
+          content
+        )
+      `
+            )
+            .eq('slug', slug)
+            .eq('is_published', true)
+            .in('guide_translations.locale', [locale, defaultLocale])
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching guide:', error);
+            return null;
+        }
+
+        if (!data) {
+            return null;
+        }
+
+        const guide = data as GuideRow;
+        const translation = pickTranslation(guide.guide_translations, locale);
+        if (!translation) {
+            return null;
+        }
+
+        return {
+            ...mapGuideRowToCard(guide, translation),
+            content: translation.content || '',
+            publishedAt: guide.published_at || undefined,
+            updatedAt: guide.updated_at,
+        };
+    } catch (error) {
+        console.error('Error in getGuideBySlug:', error);
+        return null;
+    }
+}
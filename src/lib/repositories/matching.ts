@@ -0,0 +1,113 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import { mapProductRowToCard, type ProductRow } from '@/lib/repositories/products';
+import { calculateRequiredWatts, rankProducts } from '@/lib/matching/scoring';
+import type { MatchingInput, MatchingResult } from '@/lib/types/matching';
+
+/**
+ * Matching Repository
+ * Scores published products for a customer's system and stores the request
+ * in matching_requests for analytics
+ */
+
+interface MatchingProductRow extends ProductRow {
+    taps?: string[] | null;
+}
+
+/**
+ * Recommend amplifiers for the given speakers/room and save the request
+ */
+export async function recommendProducts(
+    input: MatchingInput,
+    userId: string | null,
+    limit: number = 6
+): Promise<MatchingResult> {
+    // Service client: matching_requests has no public insert policy
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('products')
+        .select(
+            `
+        id,
+        slug,
+        price,
+        compare_at_price,
+        stock_quantity,
+        condition,
+        topology,
+        tube_type,
+        power_watts,
+        taps,
+        min_speaker_sensitivity,
+        is_featured,
+        is_vintage,
+        product_translations!inner(
+          name,
+          short_description,
+          locale
+        ),
+        product_images!left(
+          id,
+          storage_path,
+          url,
+          alt_text,
+          sort_order,
+          is_primary
+        )
+      `
+        )
+        .eq('is_published', true)
+        .eq('product_translations.locale', 'en'); // Always use English for product names
+
+    if (error) {
+        console.error('Error fetching products for matching:', error);
+        throw new Error('Failed to fetch products');
+    }
+
+    const candidates = ((data || []) as MatchingProductRow[]).map((row) => ({
+        card: mapProductRowToCard(row),
+        candidate: {
+            topology: row.topology as 'se' | 'pp',
+            powerWatts: Number(row.power_watts),
+            minSpeakerSensitivity: row.min_speaker_sensitivity,
+            taps: row.taps || [],
+        },
+    }));
+
+    const ranked = rankProducts(candidates, input, limit);
+    const requiredWatts = calculateRequiredWatts(input);
+
+    // Save request and result (best effort - analytics shouldn't block advice)
+    let requestId: string | null = null;
+    const { data: saved, error: saveError } = await supabase
+        .from('matching_requests')
+        .insert({
+            user_id: userId,
+            speaker_sensitivity: input.speakerSensitivity,
+            speaker_impedance: input.speakerImpedance,
+            room_size: input.roomSize,
+            listening_level: input.listeningLevel,
+            genres: input.genres,
+            recommended_products: ranked.map((item) => item.card.id),
+        })
+        .select('id')
+        .single();
+
+    if (saveError) {
+        console.error('Error saving matching request:', saveError);
+    } else {
+        requestId = saved?.id || null;
+    }
+
+    return {
+        requestId,
+        requiredWatts,
+        recommendations: ranked.map((item) => ({
+            product: item.card,
+            score: item.score,
+            verdict: item.verdict,
+            requiredWatts,
+            reasons: item.reasons,
+        })),
+    };
+}
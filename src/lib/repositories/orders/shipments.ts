@@ -0,0 +1,355 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import { getAvailableCarriers, getCarrierAdapter } from '@/lib/shipping/carriers';
+import {
+    CARRIER_NAMES,
+    FINAL_SHIPMENT_STATUSES,
+    type CarrierAdapter,
+    type CarrierCode,
+    type CarrierEvent,
+    type ShipmentStatus,
+} from '@/lib/shipping/types';
+import { transitionOrder } from './transitions';
+
+/**
+ * Order Shipments Repository
+ * Server-only functions for carrier shipments and their tracking events
+ * Uses service role key to bypass RLS
+ */
+
+// Don't poll a carrier for the same shipment more often than this
+const SYNC_INTERVAL_MINUTES = 30;
+
+export interface ShipmentEvent {
+    id: string;
+    status: ShipmentStatus;
+    carrierStatus: string;
+    description?: string;
+    location?: string;
+    occurredAt: string;
+}
+
+export interface OrderShipment {
+    id: string;
+    carrier: CarrierCode;
+    carrierName: string;
+    trackingNumber: string;
+    trackingUrl: string | null;
+    pollable: boolean; // The carrier has a tracking API (otherwise webhooks only)
+    status: ShipmentStatus;
+    lastEventAt?: string;
+    lastSyncedAt?: string;
+    deliveredAt?: string;
+    createdAt: string;
+    events: ShipmentEvent[]; // Oldest first
+}
+
+interface ShipmentEventRow {
+    id: string;
+    status: ShipmentStatus;
+    carrier_status: string;
+    description: string | null;
+    location: string | null;
+    occurred_at: string;
+}
+
+interface OrderShipmentRow {
+    id: string;
+    order_id: string;
+    carrier: CarrierCode;
+    tracking_number: string;
+    status: ShipmentStatus;
+    last_event_at: string | null;
+    last_synced_at: string | null;
+    delivered_at: string | null;
+    created_at: string;
+    order_shipment_events?: ShipmentEventRow[];
+}
+
+// Columns selected for shipments (also used for nested selects on orders)
+export const ORDER_SHIPMENT_COLUMNS = 'id, order_id, carrier, tracking_number, status, last_event_at, last_synced_at, delivered_at, created_at, order_shipment_events (id, status, carrier_status, description, location, occurred_at)';
+
+function getAdapterOrNull(carrier: CarrierCode): CarrierAdapter | null {
+    try {
+        return getCarrierAdapter(carrier);
+    } catch {
+        return null; // Carrier disabled in this environment (fake)
+    }
+}
+
+export function mapOrderShipment(row: OrderShipmentRow): OrderShipment {
+    const adapter = getAdapterOrNull(row.carrier);
+
+    return {
+        id: row.id,
+        carrier: row.carrier,
+        carrierName: CARRIER_NAMES[row.carrier] || row.carrier,
+        trackingNumber: row.tracking_number,
+        trackingUrl: adapter?.trackingUrl(row.tracking_number) ?? null,
+        pollable: Boolean(adapter?.fetchEvents),
+        status: row.status,
+        lastEventAt: row.last_event_at || undefined,
+        lastSyncedAt: row.last_synced_at || undefined,
+        deliveredAt: row.delivered_at || undefined,
+        createdAt: row.created_at,
+        events: (row.order_shipment_events || [])
+            .sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime())
+            .map((event) => ({
+                id: event.id,
+                status: event.status,
+                carrierStatus: event.carrier_status,
+                description: event.description || undefined,
+                location: event.location || undefined,
+                occurredAt: event.occurred_at,
+            })),
+    };
+}
+
+/**
+ * Sort shipments newest first (the first one is the current parcel)
+ */
+export function mapOrderShipments(rows: OrderShipmentRow[] | null | undefined): OrderShipment[] {
+    return (rows || [])
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        .map(mapOrderShipment);
+}
+
+/**
+ * Register a parcel handed to a carrier
+ * Throws if the tracking number is already used for that carrier
+ */
+export async function createShipment(
+    orderId: string,
+    shipment: { carrier: CarrierCode; trackingNumber: string; createdBy?: string }
+): Promise<string> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_shipments')
+        .insert({
+            order_id: orderId,
+            carrier: shipment.carrier,
+            tracking_number: shipment.trackingNumber,
+            created_by: shipment.createdBy || null,
+        })
+        .select('id')
+        .single();
+
+    if (error || !data) {
+        if (error?.code === '23505') {
+            throw new Error('This tracking number is already used by another shipment');
+        }
+        console.error('Error creating shipment:', error);
+        throw new Error('Failed to create shipment');
+    }
+
+    return data.id;
+}
+
+/**
+ * Remove a shipment (used to undo one whose status change failed)
+ */
+export async function deleteShipment(shipmentId: string): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase.from('order_shipments').delete().eq('id', shipmentId);
+
+    if (error) {
+        console.error('Error deleting shipment:', error);
+        throw new Error('Failed to delete shipment');
+    }
+}
+
+/**
+ * Store new events for a shipment and update its status from the newest one
+ * Duplicate events (webhook retries, repeated polls) are ignored. When the
+ * carrier confirms delivery the order moves to delivered.
+ * Returns the number of new events.
+ */
+async function applyShipmentEvents(shipment: OrderShipmentRow, events: CarrierEvent[]): Promise<number> {
+    const supabase = createServiceClient();
+
+    if (events.length === 0) {
+        return 0;
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+        .from('order_shipment_events')
+        .upsert(
+            events.map((event) => ({
+                shipment_id: shipment.id,
+                status: event.status,
+                carrier_status: event.carrierStatus,
+                description: event.description || null,
+                location: event.location || null,
+                occurred_at: event.occurredAt,
+            })),
+            { onConflict: 'shipment_id,carrier_status,occurred_at', ignoreDuplicates: true }
+        )
+        .select('id');
+
+    if (insertError) {
+        console.error('Error recording shipment events:', insertError);
+        throw new Error('Failed to record shipment events');
+    }
+
+    const newest = events.reduce((latest, event) =>
+        new Date(event.occurredAt).getTime() >= new Date(latest.occurredAt).getTime() ? event : latest
+    );
+
+    // Events can arrive out of order; only a newer scan changes the status
+    if (shipment.last_event_at && new Date(newest.occurredAt).getTime() < new Date(shipment.last_event_at).getTime()) {
+        return inserted?.length || 0;
+    }
+
+    const { error: updateError } = await supabase
+        .from('order_shipments')
+        .update({
+            status: newest.status,
+            last_event_at: newest.occurredAt,
+            delivered_at: newest.status === 'delivered' ? newest.occurredAt : shipment.delivered_at,
+        })
+        .eq('id', shipment.id);
+
+    if (updateError) {
+        console.error('Error updating shipment status:', updateError);
+        throw new Error('Failed to update shipment status');
+    }
+
+    if (newest.status === 'delivered' && shipment.status !== 'delivered') {
+        try {
+            await transitionOrder(
+                { id: shipment.order_id },
+                { status: 'delivered' },
+                {
+                    note: `Delivered by ${CARRIER_NAMES[shipment.carrier]} (${shipment.tracking_number})`,
+                    at: new Date(newest.occurredAt),
+                }
+            );
+        } catch (error) {
+            // e.g. the order was cancelled meanwhile - leave it for an admin
+            console.error(`Could not mark order delivered for shipment ${shipment.tracking_number}:`, error);
+        }
+    }
+
+    return inserted?.length || 0;
+}
+
+/**
+ * Record events pushed by a carrier webhook
+ * Events for tracking numbers we don't know are skipped.
+ */
+export async function recordCarrierEvents(
+    carrier: CarrierCode,
+    events: CarrierEvent[]
+): Promise<{ matched: number; recorded: number }> {
+    const supabase = createServiceClient();
+    const result = { matched: 0, recorded: 0 };
+
+    const byTrackingNumber = new Map<string, CarrierEvent[]>();
+    for (const event of events) {
+        byTrackingNumber.set(event.trackingNumber, [...(byTrackingNumber.get(event.trackingNumber) || []), event]);
+    }
+
+    for (const [trackingNumber, shipmentEvents] of byTrackingNumber) {
+        const { data: shipment } = await supabase
+            .from('order_shipments')
+            .select(ORDER_SHIPMENT_COLUMNS)
+            .eq('carrier', carrier)
+            .eq('tracking_number', trackingNumber)
+            .maybeSingle<OrderShipmentRow>();
+
+        if (!shipment) {
+            console.warn(`[shipping] No ${carrier} shipment with tracking number ${trackingNumber}, skipping`);
+            continue;
+        }
+
+        result.matched += 1;
+        result.recorded += await applyShipmentEvents(shipment, shipmentEvents);
+    }
+
+    return result;
+}
+
+/**
+ * Poll the carrier for one shipment
+ */
+async function syncShipmentRow(shipment: OrderShipmentRow): Promise<number> {
+    const supabase = createServiceClient();
+    const adapter = getCarrierAdapter(shipment.carrier);
+
+    if (!adapter.fetchEvents) {
+        return 0; // Push-only carrier
+    }
+
+    const events = await adapter.fetchEvents(shipment.tracking_number);
+    const recorded = await applyShipmentEvents(shipment, events);
+
+    await supabase
+        .from('order_shipments')
+        .update({ last_synced_at: new Date().toISOString() })
+        .eq('id', shipment.id);
+
+    return recorded;
+}
+
+/**
+ * Poll the carrier for a shipment now (admin "refresh")
+ * With orderId, only a shipment of that order is found
+ */
+export async function syncShipment(shipmentId: string, orderId?: string): Promise<number> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+        .from('order_shipments')
+        .select(ORDER_SHIPMENT_COLUMNS)
+        .eq('id', shipmentId);
+    if (orderId) {
+        query = query.eq('order_id', orderId);
+    }
+
+    const { data: shipment, error } = await query.single<OrderShipmentRow>();
+
+    if (error || !shipment) {
+        throw new Error('Shipment not found');
+    }
+
+    return syncShipmentRow(shipment);
+}
+
+/**
+ * Poll carriers for undelivered shipments not synced in the last SYNC_INTERVAL_MINUTES
+ * Push-only carriers are skipped; one failing carrier doesn't stop the batch.
+ */
+export async function syncDueShipments(limit: number): Promise<{ checked: number; recorded: number; failed: number }> {
+    const supabase = createServiceClient();
+    const result = { checked: 0, recorded: 0, failed: 0 };
+    const cutoff = new Date(Date.now() - SYNC_INTERVAL_MINUTES * 60 * 1000).toISOString();
+    const pollableCarriers = getAvailableCarriers().filter((code) => getCarrierAdapter(code).fetchEvents);
+
+    const { data: shipments, error } = await supabase
+        .from('order_shipments')
+        .select(ORDER_SHIPMENT_COLUMNS)
+        .in('carrier', pollableCarriers)
+        .not('status', 'in', `(${FINAL_SHIPMENT_STATUSES.join(',')})`)
+        .or(`last_synced_at.is.null,last_synced_at.lt.${cutoff}`)
+        .order('last_synced_at', { ascending: true, nullsFirst: true })
+        .limit(limit)
+        .returns<OrderShipmentRow[]>();
+
+    if (error) {
+        console.error('Error listing shipments to sync:', error);
+        throw new Error('Failed to list shipments to sync');
+    }
+
+    for (const shipment of shipments || []) {
+        result.checked += 1;
+        try {
+            result.recorded += await syncShipmentRow(shipment);
+        } catch (syncError) {
+            result.failed += 1;
+            console.error(`[shipping] Failed to sync ${shipment.carrier} ${shipment.tracking_number}:`, syncError);
+        }
+    }
+
+    return result;
+}
@@ -1,5 +1,7 @@
 import { createServiceClient } from '@/lib/supabase/service';
 import { verifyTokenForOrder } from '@/lib/orderTrackingTokens';
+import type { OrderStatus, PaymentStatus } from '@/lib/orders/state-machine';
+import { mapOrderShipments, ORDER_SHIPMENT_COLUMNS, type OrderShipment } from './shipments';
 
 /**
  * Order Tracking Repository
@@ -7,8 +9,7 @@ import { verifyTokenForOrder } from '@/lib/orderTrackingTokens';
  * Uses service role key to bypass RLS
  */
 
-export type OrderStatus = 'pending' | 'confirmed' | 'deposited' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded' | 'expired';
-export type PaymentStatus = 'pending' | 'deposit_pending' | 'deposited' | 'paid' | 'failed' | 'refunded';
+export type { OrderStatus, PaymentStatus };
 
 export interface OrderItem {
     id: string;
@@ -43,6 +44,7 @@ export interface TrackedOrderDTO {
     paymentMethod: 'cod' | 'bank_transfer';
     orderItems: OrderItem[];
     statusHistory: OrderStatusHistory[];
+    shipments: OrderShipment[]; // Newest first
     subtotal: number;
     shippingFee: number;
     tax: number;
@@ -108,7 +110,8 @@ export async function trackOrderByCodeAndContact(
                 note,
                 changed_by,
                 created_at
-            )
+            ),
+            order_shipments (${ORDER_SHIPMENT_COLUMNS})
         `
         )
         .eq('order_number', orderCode)
@@ -160,6 +163,7 @@ export async function trackOrderByCodeAndContact(
                 changedBy: history.changed_by || undefined,
                 createdAt: history.created_at,
             })),
+        shipments: mapOrderShipments(order.order_shipments),
         subtotal: Number(order.subtotal),
         shippingFee: Number(order.shipping_fee),
         tax: Number(order.tax),
@@ -252,7 +256,8 @@ export async function trackOrderByToken(
                 note,
                 changed_by,
                 created_at
-            )
+            ),
+            order_shipments (${ORDER_SHIPMENT_COLUMNS})
         `
         )
         .eq('id', orderData.id)
@@ -299,6 +304,7 @@ export async function trackOrderByToken(
                 changedBy: history.changed_by || undefined,
                 createdAt: history.created_at,
             })),
+        shipments: mapOrderShipments(order.order_shipments),
         subtotal: Number(order.subtotal),
         shippingFee: Number(order.shipping_fee),
         tax: Number(order.tax),
@@ -0,0 +1,221 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import { sendBalancePaidEmail, sendStatusUpdateEmail } from '@/lib/emails/service';
+import {
+    planOrderTransition,
+    type OrderStatus,
+    type OrderTransitionPlan,
+    type OrderTransitionRequest,
+    type PaymentStatus,
+} from '@/lib/orders/state-machine';
+import type { Locale } from '@/config/locales';
+
+/**
+ * Order Transitions Repository
+ * Server-only executor for the order state machine: every change to
+ * orders.status / orders.payment_status goes through transitionOrder
+ * Uses service role key to bypass RLS
+ */
+
+export type OrderRef = { id: string } | { orderNumber: string };
+
+export interface TransitionOrderOptions {
+    note?: string; // Stored on the status history entry and sent in the status email
+    changedBy?: string | null; // Admin user id (null for customers, webhooks and jobs)
+    at?: Date; // When the change happened (defaults to now), used for timestamp columns
+    fields?: Record<string, unknown>; // Extra columns written in the same update
+    notify?: boolean; // Send the plan's customer emails (default true)
+    balanceAmount?: number; // Amount shown in the balance_paid email (defaults to remaining_amount)
+}
+
+export interface OrderTransitionResult {
+    orderId: string;
+    orderNumber: string;
+    plan: OrderTransitionPlan;
+}
+
+/**
+ * Apply a status and/or payment status change with its side effects
+ * Throws if the order is missing, the transition is not allowed, or the
+ * order changed since it was read (the update is conditional on both
+ * statuses, so concurrent webhooks/admins can't apply a stale transition).
+ * Requesting the current statuses is a no-op.
+ */
+export async function transitionOrder(
+    ref: OrderRef,
+    request: OrderTransitionRequest,
+    options: TransitionOrderOptions = {}
+): Promise<OrderTransitionResult> {
+    const supabase = createServiceClient();
+
+    const query = supabase
+        .from('orders')
+        .select('id, order_number, order_type, status, payment_status, remaining_amount, customer_email, customer_name, locale');
+
+    const { data: order, error: fetchError } = await ('id' in ref
+        ? query.eq('id', ref.id)
+        : query.eq('order_number', ref.orderNumber)
+    ).single();
+
+    if (fetchError || !order) {
+        throw new Error('Order not found');
+    }
+
+    const plan = planOrderTransition(
+        {
+            status: order.status as OrderStatus,
+            paymentStatus: order.payment_status as PaymentStatus,
+            orderType: order.order_type,
+        },
+        request
+    );
+
+    const result = { orderId: order.id, orderNumber: order.order_number, plan };
+
+    if (!plan.statusChanged && !plan.paymentStatusChanged) {
+        return result;
+    }
+
+    const at = (options.at || new Date()).toISOString();
+    const updateData: Record<string, unknown> = {
+        status: plan.to.status,
+        payment_status: plan.to.paymentStatus,
+    };
+    for (const column of plan.timestamps) {
+        updateData[column] = at;
+    }
+    Object.assign(updateData, options.fields);
+
+    // Conditional update: only succeeds if nobody changed the order meanwhile
+    const { data: updated, error: updateError } = await supabase
+        .from('orders')
+        .update(updateData)
+        .eq('id', order.id)
+        .eq('status', plan.from.status)
+        .eq('payment_status', plan.from.paymentStatus)
+        .select('id');
+
+    if (updateError) {
+        console.error('Error updating order status:', updateError);
+        throw new Error('Failed to update order status');
+    }
+
+    if (!updated || updated.length === 0) {
+        throw new Error('Order was changed by someone else, please reload and try again');
+    }
+
+    if (plan.statusChanged) {
+        await annotateStatusHistory(order.id, plan, options);
+    }
+
+    if (plan.restoreStock) {
+        try {
+            await restoreOrderInventory(order.id);
+        } catch (inventoryError) {
+            // The status change is committed; stock can be released manually
+            console.error(`Error restoring inventory for order ${order.order_number}:`, inventoryError);
+        }
+    }
+
+    if (options.notify !== false && order.customer_email) {
+        const locale = (order.locale === 'vi' || order.locale === 'en') ? order.locale : 'vi';
+
+        if (plan.emails.includes('status_update')) {
+            sendStatusUpdateEmail(order.id, {
+                orderCode: order.order_number,
+                customerName: order.customer_name,
+                customerEmail: order.customer_email,
+                oldStatus: plan.from.status,
+                newStatus: plan.to.status,
+                note: options.note,
+                locale: locale as Locale,
+            }).catch((error) => {
+                console.error('Failed to send status update email:', error);
+                // Don't throw - email failure shouldn't break status update
+            });
+        }
+
+        if (plan.emails.includes('balance_paid')) {
+            sendBalancePaidEmail(order.id, {
+                orderCode: order.order_number,
+                customerName: order.customer_name,
+                customerEmail: order.customer_email,
+                balanceAmount: options.balanceAmount ?? Number(order.remaining_amount || 0),
+                locale: locale as Locale,
+            }).catch((error) => {
+                console.error('Failed to send balance paid email:', error);
+            });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Annotate the trigger-created history entry with note/changed_by
+ * (or insert one if the trigger didn't create it)
+ */
+async function annotateStatusHistory(
+    orderId: string,
+    plan: OrderTransitionPlan,
+    options: TransitionOrderOptions
+): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { data: historyEntries } = await supabase
+        .from('order_status_history')
+        .select('id')
+        .eq('order_id', orderId)
+        .eq('to_status', plan.to.status)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+    if (historyEntries && historyEntries.length > 0) {
+        const updateData: { note?: string; changed_by?: string } = {};
+        if (options.note) updateData.note = options.note;
+        if (options.changedBy) updateData.changed_by = options.changedBy;
+
+        if (Object.keys(updateData).length > 0) {
+            await supabase
+                .from('order_status_history')
+                .update(updateData)
+                .eq('id', historyEntries[0].id);
+        }
+    } else {
+        await supabase
+            .from('order_status_history')
+            .insert({
+                order_id: orderId,
+                from_status: plan.from.status,
+                to_status: plan.to.status,
+                note: options.note || null,
+                changed_by: options.changedBy || null,
+            });
+    }
+}
+
+/**
+ * Restore inventory for an order (when order is cancelled or expires)
+ * Uses release_order_stock, which restocks at most once per order, so it is
+ * safe to call from several paths (cancel + payment failure webhook, etc.)
+ * Returns the number of products restocked (0 if already released)
+ */
+export async function restoreOrderInventory(orderId: string): Promise<number> {
+    const supabase = createServiceClient();
+
+    const { data: restocked, error } = await supabase.rpc('release_order_stock', {
+        p_order_id: orderId,
+    });
+
+    if (error) {
+        console.error('Error restoring inventory:', error);
+        throw new Error('Failed to restore inventory');
+    }
+
+    if (restocked === 0) {
+        console.log(`Inventory already released for order ${orderId}, nothing to restore`);
+    } else {
+        console.log(`Inventory restored for order ${orderId}`);
+    }
+
+    return restocked ?? 0;
+}
@@ -1,5 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { getPublicImageUrl } from '@/lib/utils/images';
+import { getApprovedReviews } from '@/lib/repositories/reviews';
+import { removeDiacritics } from '@/lib/vietqr/generator';
 import type {
     ProductCardDTO,
     ProductDetailDTO,
@@ -26,7 +28,7 @@ interface ProductImageRow {
     is_primary?: boolean; // Primary image flag
 }
 
-interface ProductRow {
+export interface ProductRow {
     id: string;
     slug: string;
     price: number;
@@ -57,6 +59,8 @@ interface ProductDetailRow extends ProductRow {
     reservation_policy_note?: string;
     meta_title?: string;
     meta_description?: string;
+    review_count?: number;
+    average_rating?: number | null;
     created_at: string;
     published_at?: string;
     product_translations?: Array<ProductTranslationRow & {
@@ -78,6 +82,83 @@ interface ProductDetailRow extends ProductRow {
  * Single source of truth for product data access
  */
 
+/**
+ * Map a product row (with translations and images) to a card DTO
+ */
+export function mapProductRowToCard(product: ProductRow): ProductCardDTO {
+    const translation = product.product_translations?.[0];
+    // Find primary image: prefer is_primary flag, fallback to sort_order = 0, then first image
+    const primaryImage = product.product_images?.find(
+        (img: ProductImageRow) => img.is_primary === true
+    ) || product.product_images?.find(
+        (img: ProductImageRow) => img.sort_order === 0
+    ) || product.product_images?.[0]; // Fallback to first image
+
+    // Determine image URL - prefer storage_path first (most reliable), then url
+    // This matches the admin ProductImageManager logic
+    let imageUrl = '/images/placeholder-product.jpg';
+    if (primaryImage?.storage_path) {
+        // Always prefer storage_path - construct URL from it
+        imageUrl = getPublicImageUrl(primaryImage.storage_path);
+    } else if (primaryImage?.url && primaryImage.url !== '' && (primaryImage.url.startsWith('http://') || primaryImage.url.startsWith('https://'))) {
+        // Use url only if it's a valid full URL
+        imageUrl = primaryImage.url;
+    }
+
+    return {
+        id: product.id,
+        slug: product.slug,
+        name: translation?.name || 'Untitled Product',
+        priceVnd: product.price,
+        compareAtPriceVnd: product.compare_at_price || undefined,
+        imageUrl,
+        topology: product.topology as ProductCardDTO['topology'],
+        tubeType: product.tube_type as ProductCardDTO['tubeType'],
+        powerWatts: product.power_watts,
+        recommendedSensitivityMin: product.min_speaker_sensitivity,
+        condition: product.condition as ProductCardDTO['condition'],
+        isInStock: product.stock_quantity > 0,
+        isVintage: product.is_vintage,
+        isFeatured: product.is_featured,
+    };
+}
+
+// Upper bound on ranked search matches fed into the listing query
+const MAX_SEARCH_RESULTS = 200;
+
+/**
+ * Rank published products against a search query
+ * Matches names, descriptions, tube type, SKU and tags in every locale,
+ * ignoring diacritics; see supabase/CREATE_PRODUCT_SEARCH.sql
+ * Returns product id -> relevance, best match first
+ */
+export async function searchProductIds(query: string): Promise<Map<string, number>> {
+    // NFC first so decomposed input (e.g. macOS keyboards) maps like typed text
+    const normalized = removeDiacritics(query.normalize('NFC')).trim();
+    const ranks = new Map<string, number>();
+
+    if (!normalized) {
+        return ranks;
+    }
+
+    const supabase = await createClient();
+    const { data, error } = await supabase.rpc('search_products', {
+        p_query: normalized,
+        p_limit: MAX_SEARCH_RESULTS,
+    });
+
+    if (error) {
+        console.error('Error searching products:', error);
+        throw new Error('Failed to search products');
+    }
+
+    for (const row of (data || []) as Array<{ product_id: string; rank: number }>) {
+        ranks.set(row.product_id, row.rank);
+    }
+
+    return ranks;
+}
+
 /**
  * List products with filters, sorting, and pagination
  */
@@ -178,11 +259,25 @@ export async function listProducts(
             query = query.eq('is_featured', filters.isFeatured);
         }
 
-        // Search by name (simple text search)
-        if (filters.search) {
-            query = query.ilike('product_translations.name', `%${filters.search}%`);
+        // Full-text search: restrict to ranked matches
+        let searchRanks: Map<string, number> | null = null;
+        if (filters.search?.trim()) {
+            searchRanks = await searchProductIds(filters.search);
+            if (searchRanks.size === 0) {
+                return {
+                    items: [],
+                    total: 0,
+                    page: pagination.page,
+                    pageSize: pagination.pageSize,
+                    totalPages: 0,
+                };
+            }
+            query = query.in('id', Array.from(searchRanks.keys()));
         }
 
+        // Relevance order only exists for search results
+        const sortByRelevance = sort === 'relevance' && searchRanks !== null;
+
         // Apply sorting
         switch (sort) {
             case 'newest':
@@ -197,17 +292,30 @@ export async function listProducts(
             case 'featured':
                 query = query.order('is_featured', { ascending: false });
                 break;
+            case 'top_rated':
+                // Aggregates of approved reviews, maintained by trigger
+                query = query
+                    .order('average_rating', { ascending: false, nullsFirst: false })
+                    .order('review_count', { ascending: false });
+                break;
             case 'best_sellers':
                 // For MVP, fallback to newest
                 // TODO: Implement order count tracking
                 query = query.order('created_at', { ascending: false });
                 break;
+            case 'relevance':
+                // Ordered by search rank below; newest breaks ties without a search
+                query = query.order('created_at', { ascending: false });
+                break;
         }
 
         // Apply pagination
+        // Relevance ranks come from the RPC, so those pages are sliced after fetching
         const from = (pagination.page - 1) * pagination.pageSize;
         const to = from + pagination.pageSize - 1;
-        query = query.range(from, to);
+        if (!sortByRelevance) {
+            query = query.range(from, to);
+        }
 
         // Execute query
         const { data, error, count } = await query;
@@ -217,44 +325,16 @@ export async function listProducts(
             throw new Error('Failed to fetch products');
         }
 
-        // Map to DTOs
-        const items: ProductCardDTO[] = (data || []).map((product: ProductRow) => {
-            const translation = product.product_translations?.[0];
-            // Find primary image: prefer is_primary flag, fallback to sort_order = 0, then first image
-            const primaryImage = product.product_images?.find(
-                (img: ProductImageRow) => img.is_primary === true
-            ) || product.product_images?.find(
-                (img: ProductImageRow) => img.sort_order === 0
-            ) || product.product_images?.[0]; // Fallback to first image
-
-            // Determine image URL - prefer storage_path first (most reliable), then url
-            // This matches the admin ProductImageManager logic
-            let imageUrl = '/images/placeholder-product.jpg';
-            if (primaryImage?.storage_path) {
-                // Always prefer storage_path - construct URL from it
-                imageUrl = getPublicImageUrl(primaryImage.storage_path);
-            } else if (primaryImage?.url && primaryImage.url !== '' && (primaryImage.url.startsWith('http://') || primaryImage.url.startsWith('https://'))) {
-                // Use url only if it's a valid full URL
-                imageUrl = primaryImage.url;
-            }
+        let rows = (data || []) as ProductRow[];
+        if (sortByRelevance && searchRanks) {
+            const ranks = searchRanks;
+            rows = rows
+                .sort((a, b) => (ranks.get(b.id) ?? 0) - (ranks.get(a.id) ?? 0))
+                .slice(from, to + 1);
+        }
 
-            return {
-                id: product.id,
-                slug: product.slug,
-                name: translation?.name || 'Untitled Product',
-                priceVnd: product.price,
-                compareAtPriceVnd: product.compare_at_price || undefined,
-                imageUrl,
-                topology: product.topology as ProductCardDTO['topology'],
-                tubeType: product.tube_type as ProductCardDTO['tubeType'],
-                powerWatts: product.power_watts,
-                recommendedSensitivityMin: product.min_speaker_sensitivity,
-                condition: product.condition as ProductCardDTO['condition'],
-                isInStock: product.stock_quantity > 0,
-                isVintage: product.is_vintage,
-                isFeatured: product.is_featured,
-            };
-        });
+        // Map to DTOs
+        const items: ProductCardDTO[] = rows.map((product: ProductRow) => mapProductRowToCard(product));
 
         const totalPages = count ? Math.ceil(count / pagination.pageSize) : 0;
 
@@ -318,6 +398,8 @@ export async function getProductBySlug(
         is_vintage,
         meta_title,
         meta_description,
+        review_count,
+        average_rating,
         created_at,
         published_at,
         product_translations!inner(
@@ -408,6 +490,8 @@ export async function getProductBySlug(
         // Parse specifications
         const specs: ProductSpecs = productData.specifications || {};
 
+        const reviews = await getApprovedReviews(productData.id);
+
         // Map to DTO
         const product: ProductDetailDTO = {
             id: productData.id,
@@ -452,6 +536,12 @@ export async function getProductBySlug(
             depositDueHours: productData.deposit_due_hours,
             reservationPolicyNote: productData.reservation_policy_note,
 
+            rating: {
+                average: productData.average_rating != null ? Number(productData.average_rating) : null,
+                count: productData.review_count ?? 0,
+            },
+            reviews,
+
             metaTitle: productData.meta_title,
             metaDescription: productData.meta_description,
 
@@ -567,43 +657,7 @@ export async function getRelatedProducts(
         }
 
         // Map to DTOs
-        const items: ProductCardDTO[] = relatedProducts.map((product: ProductRow) => {
-            const translation = product.product_translations?.[0];
-            // Find primary image: prefer is_primary flag, fallback to sort_order = 0, then first image
-            const primaryImage = product.product_images?.find(
-                (img: ProductImageRow) => img.is_primary === true
-            ) || product.product_images?.find(
-                (img: ProductImageRow) => img.sort_order === 0
-            ) || product.product_images?.[0]; // Fallback to first image
-
-            // Determine image URL - prefer storage_path first (most reliable), then url
-            // This matches the admin ProductImageManager logic
-            let imageUrl = '/images/placeholder-product.jpg';
-            if (primaryImage?.storage_path) {
-                // Always prefer storage_path - construct URL from it
-                imageUrl = getPublicImageUrl(primaryImage.storage_path);
-            } else if (primaryImage?.url && primaryImage.url !== '' && (primaryImage.url.startsWith('http://') || primaryImage.url.startsWith('https://'))) {
-                // Use url only if it's a valid full URL
-                imageUrl = primaryImage.url;
-            }
-
-            return {
-                id: product.id,
-                slug: product.slug,
-                name: translation?.name || 'Untitled Product',
-                priceVnd: product.price,
-                compareAtPriceVnd: product.compare_at_price || undefined,
-                imageUrl,
-                topology: product.topology as ProductCardDTO['topology'],
-                tubeType: product.tube_type as ProductCardDTO['tubeType'],
-                powerWatts: product.power_watts,
-                recommendedSensitivityMin: product.min_speaker_sensitivity,
-                condition: product.condition as ProductCardDTO['condition'],
-                isInStock: product.stock_quantity > 0,
-                isVintage: product.is_vintage,
-                isFeatured: product.is_featured,
-            };
-        });
+        const items: ProductCardDTO[] = relatedProducts.map((product: ProductRow) => mapProductRowToCard(product));
 
         return items.slice(0, limit);
     } catch (error) {
@@ -0,0 +1,244 @@
+/**
+ * Product Reviews Repository
+ *
+ * Public reads (approved reviews only) and customer submissions from a
+ * delivered order. Submissions wait in the admin moderation queue.
+ */
+
+import { createClient } from '@/lib/supabase/server';
+import { createServiceClient } from '@/lib/supabase/service';
+import type { ProductReviewDTO } from '@/lib/types/catalog';
+
+export interface ReviewableOrderItem {
+    productId: string;
+    productName: string;
+    productSlug?: string;
+    reviewed: boolean;
+}
+
+export interface RecentReviewDTO extends ProductReviewDTO {
+    productName: string;
+    productSlug: string;
+}
+
+export interface CreateReviewInput {
+    orderId: string;
+    productId: string;
+    rating: number;
+    title?: string;
+    content?: string;
+}
+
+interface ProductReviewRow {
+    id: string;
+    rating: number;
+    title: string | null;
+    content: string | null;
+    customer_name: string;
+    is_verified_purchase: boolean | null;
+    created_at: string;
+}
+
+const REVIEWABLE_ORDER_STATUSES = ['delivered'];
+
+export function mapProductReview(row: ProductReviewRow): ProductReviewDTO {
+    return {
+        id: row.id,
+        rating: row.rating,
+        title: row.title || undefined,
+        content: row.content || undefined,
+        customerName: row.customer_name,
+        isVerifiedPurchase: row.is_verified_purchase === true,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * Get approved reviews for a product (newest first)
+ */
+export async function getApprovedReviews(
+    productId: string,
+    limit: number = 20
+): Promise<ProductReviewDTO[]> {
+    const supabase = await createClient();
+
+    // RLS only exposes approved reviews; the filter keeps intent explicit
+    const { data, error } = await supabase
+        .from('product_reviews')
+        .select('id, rating, title, content, customer_name, is_verified_purchase, created_at')
+        .eq('product_id', productId)
+        .eq('is_approved', true)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('Error fetching product reviews:', error);
+        return [];
+    }
+
+    return (data || []).map((row: ProductReviewRow) => mapProductReview(row));
+}
+
+/**
+ * Get the latest approved reviews across all published products
+ */
+export async function getRecentApprovedReviews(limit: number = 30): Promise<RecentReviewDTO[]> {
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+        .from('product_reviews')
+        .select(
+            `
+            id,
+            rating,
+            title,
+            content,
+            customer_name,
+            is_verified_purchase,
+            created_at,
+            products!inner (
+                slug,
+                is_published,
+                product_translations (
+                    name,
+                    locale
+                )
+            )
+        `
+        )
+        .eq('is_approved', true)
+        .eq('products.is_published', true)
+        .eq('products.product_translations.locale', 'en') // Always use English for product names
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('Error fetching recent reviews:', error);
+        return [];
+    }
+
+    type RecentReviewRow = ProductReviewRow & {
+        products: { slug: string; product_translations: Array<{ name: string }> | null };
+    };
+
+    return ((data || []) as unknown as RecentReviewRow[]).map((row) => ({
+        ...mapProductReview(row),
+        productName: row.products.product_translations?.[0]?.name || row.products.slug,
+        productSlug: row.products.slug,
+    }));
+}
+
+/**
+ * List the products of an order that the customer can review
+ * Empty unless the order has been delivered
+ */
+export async function getReviewableOrderItems(orderId: string): Promise<ReviewableOrderItem[]> {
+    const supabase = createServiceClient();
+
+    const { data: order, error } = await supabase
+        .from('orders')
+        .select(
+            `
+            status,
+            order_items (
+                product_id,
+                product_name,
+                product_slug
+            ),
+            product_reviews (
+                product_id
+            )
+        `
+        )
+        .eq('id', orderId)
+        .single();
+
+    if (error || !order || !REVIEWABLE_ORDER_STATUSES.includes(order.status)) {
+        return [];
+    }
+
+    const reviewedProductIds = new Set(
+        (order.product_reviews || []).map((review: { product_id: string | null }) => review.product_id)
+    );
+
+    const items = new Map<string, ReviewableOrderItem>();
+    for (const item of order.order_items || []) {
+        // Product may have been deleted since the order was placed
+        if (!item.product_id || items.has(item.product_id)) continue;
+
+        items.set(item.product_id, {
+            productId: item.product_id,
+            productName: item.product_name,
+            productSlug: item.product_slug || undefined,
+            reviewed: reviewedProductIds.has(item.product_id),
+        });
+    }
+
+    return Array.from(items.values());
+}
+
+/**
+ * Check whether a product from an order can be reviewed
+ */
+export async function canReviewOrderItem(
+    orderId: string,
+    productId: string
+): Promise<{ canReview: boolean; reason?: string }> {
+    const items = await getReviewableOrderItems(orderId);
+
+    if (items.length === 0) {
+        return { canReview: false, reason: 'Reviews can be submitted once the order has been delivered' };
+    }
+
+    const item = items.find((candidate) => candidate.productId === productId);
+    if (!item) {
+        return { canReview: false, reason: 'Product is not part of this order' };
+    }
+
+    if (item.reviewed) {
+        return { canReview: false, reason: 'You have already reviewed this product' };
+    }
+
+    return { canReview: true };
+}
+
+/**
+ * Create a review for a product from a delivered order
+ * Marked as a verified purchase; waits for moderation before it is shown
+ */
+export async function createOrderReview(input: CreateReviewInput): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('id, user_id, customer_name')
+        .eq('id', input.orderId)
+        .single();
+
+    if (orderError || !order) {
+        throw new Error('Order not found');
+    }
+
+    const { error } = await supabase
+        .from('product_reviews')
+        .insert({
+            product_id: input.productId,
+            order_id: order.id,
+            user_id: order.user_id,
+            customer_name: order.customer_name,
+            rating: input.rating,
+            title: input.title || null,
+            content: input.content || null,
+            is_verified_purchase: true,
+            is_approved: false,
+        });
+
+    if (error) {
+        // Unique (order_id, product_id) - submitted twice
+        if (error.code === '23505') {
+            throw new Error('You have already reviewed this product');
+        }
+        console.error('Error creating review:', error);
+        throw new Error('Failed to submit review');
+    }
+}
@@ -0,0 +1,238 @@
+/**
+ * Customer Setups Repository
+ *
+ * Gallery of customer system photos tagged with the amplifiers they bought.
+ * Submissions are created by /api/setups and shown once an admin approves them.
+ */
+
+import { createServiceClient } from '@/lib/supabase/service';
+import type { CustomerSetupDTO } from '@/lib/types/catalog';
+
+export const SETUP_STORAGE_BUCKET = 'customer-setups';
+
+export type SetupModerationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface UserSetup {
+    id: string;
+    title: string;
+    description?: string;
+    imageUrl: string;
+    productIds: string[];
+    status: SetupModerationStatus;
+    createdAt: string;
+}
+
+export interface PurchasedProduct {
+    id: string;
+    slug: string;
+    name: string;
+}
+
+export interface CreateSetupInput {
+    userId: string;
+    title: string;
+    description?: string;
+    productIds: string[];
+    imageUrl: string;
+    storagePath: string;
+}
+
+interface SetupRow {
+    id: string;
+    title: string;
+    description: string | null;
+    image_url: string;
+    products: string[] | null;
+    is_approved: boolean | null;
+    moderated_at: string | null;
+    created_at: string;
+    user_profiles?: { full_name: string | null } | null;
+}
+
+// Statuses after which the customer has the amplifier in hand
+const PURCHASED_ORDER_STATUSES = ['delivered'];
+
+/**
+ * pending: never moderated; approved / rejected: decided by an admin
+ */
+export function toSetupModerationStatus(row: { is_approved: boolean | null; moderated_at: string | null }): SetupModerationStatus {
+    if (row.is_approved) return 'approved';
+    return row.moderated_at ? 'rejected' : 'pending';
+}
+
+/**
+ * Look up slug + English name for tagged products (published only)
+ */
+async function getProductSummaries(productIds: string[]): Promise<Map<string, PurchasedProduct>> {
+    const summaries = new Map<string, PurchasedProduct>();
+    if (productIds.length === 0) return summaries;
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+        .from('products')
+        .select('id, slug, product_translations!inner(name, locale)')
+        .in('id', productIds)
+        .eq('is_published', true)
+        .eq('product_translations.locale', 'en'); // Always use English for product names
+
+    if (error) {
+        console.error('Error fetching tagged products:', error);
+        return summaries;
+    }
+
+    for (const product of data || []) {
+        summaries.set(product.id, {
+            id: product.id,
+            slug: product.slug,
+            name: product.product_translations?.[0]?.name || product.slug,
+        });
+    }
+
+    return summaries;
+}
+
+async function mapApprovedSetups(rows: SetupRow[]): Promise<CustomerSetupDTO[]> {
+    const productIds = [...new Set(rows.flatMap((row) => row.products || []))];
+    const products = await getProductSummaries(productIds);
+
+    return rows.map((row) => ({
+        id: row.id,
+        title: row.title,
+        description: row.description || undefined,
+        imageUrl: row.image_url,
+        customerName: row.user_profiles?.full_name || undefined,
+        products: (row.products || [])
+            .map((id) => products.get(id))
+            .filter((product): product is PurchasedProduct => !!product),
+        createdAt: row.created_at,
+    }));
+}
+
+/**
+ * Get approved setups for the gallery (newest first)
+ */
+export async function getApprovedSetups(limit: number = 24): Promise<CustomerSetupDTO[]> {
+    // Service client: customer names come from user_profiles
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('customer_setups')
+        .select('id, title, description, image_url, products, is_approved, moderated_at, created_at, user_profiles (full_name)')
+        .eq('is_approved', true)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('Error fetching customer setups:', error);
+        return [];
+    }
+
+    return mapApprovedSetups((data || []) as unknown as SetupRow[]);
+}
+
+/**
+ * Get approved setups that feature a product
+ */
+export async function getApprovedSetupsForProduct(
+    productId: string,
+    limit: number = 6
+): Promise<CustomerSetupDTO[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('customer_setups')
+        .select('id, title, description, image_url, products, is_approved, moderated_at, created_at, user_profiles (full_name)')
+        .eq('is_approved', true)
+        .contains('products', [productId])
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('Error fetching product setups:', error);
+        return [];
+    }
+
+    return mapApprovedSetups((data || []) as unknown as SetupRow[]);
+}
+
+/**
+ * Get a customer's own submissions (all statuses)
+ */
+export async function getUserSetups(userId: string): Promise<UserSetup[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('customer_setups')
+        .select('id, title, description, image_url, products, is_approved, moderated_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching user setups:', error);
+        return [];
+    }
+
+    return ((data || []) as SetupRow[]).map((row) => ({
+        id: row.id,
+        title: row.title,
+        description: row.description || undefined,
+        imageUrl: row.image_url,
+        productIds: row.products || [],
+        status: toSetupModerationStatus(row),
+        createdAt: row.created_at,
+    }));
+}
+
+/**
+ * Products the customer has received (taggable in a setup photo)
+ */
+export async function getPurchasedProducts(userId: string): Promise<PurchasedProduct[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('order_items')
+        .select('product_id, orders!inner(user_id, status)')
+        .eq('orders.user_id', userId)
+        .in('orders.status', PURCHASED_ORDER_STATUSES)
+        .not('product_id', 'is', null);
+
+    if (error) {
+        console.error('Error fetching purchased products:', error);
+        return [];
+    }
+
+    const productIds = [...new Set((data || []).map((item) => item.product_id as string))];
+    const products = await getProductSummaries(productIds);
+
+    return productIds
+        .map((id) => products.get(id))
+        .filter((product): product is PurchasedProduct => !!product);
+}
+
+/**
+ * Create a setup submission (waits for moderation)
+ */
+export async function createCustomerSetup(input: CreateSetupInput): Promise<string> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('customer_setups')
+        .insert({
+            user_id: input.userId,
+            title: input.title,
+            description: input.description || null,
+            products: input.productIds,
+            image_url: input.imageUrl,
+            storage_path: input.storagePath,
+            is_approved: false,
+        })
+        .select('id')
+        .single();
+
+    if (error || !data) {
+        console.error('Error creating customer setup:', error);
+        throw new Error('Failed to save setup');
+    }
+
+    return data.id;
+}
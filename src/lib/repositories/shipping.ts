@@ -0,0 +1,119 @@
+import { createServiceClient } from '@/lib/supabase/service';
+import {
+    DEFAULT_ITEM_WEIGHT_KG,
+    parseWeightKg,
+    quoteShipping,
+    type ShippingQuote,
+    type ShippingZone,
+} from '@/lib/shipping/rates';
+
+/**
+ * Shipping Zones Repository
+ * Loads shipping zones for the rate engine (src/lib/shipping/rates.ts)
+ * Uses service role key to bypass RLS
+ */
+
+interface ShippingZoneRateRow {
+    max_weight_kg: number | string;
+    fee: number | string;
+}
+
+export interface ShippingZoneRow {
+    id: string;
+    name: string;
+    cities: string[] | null;
+    districts: string[] | null;
+    is_active: boolean;
+    sort_order: number;
+    extra_kg_fee: number | string;
+    insurance_rate_percent: number | string;
+    insurance_min_value: number | string;
+    shipping_zone_rates?: ShippingZoneRateRow[];
+}
+
+export const SHIPPING_ZONE_COLUMNS = 'id, name, cities, districts, is_active, sort_order, extra_kg_fee, insurance_rate_percent, insurance_min_value, shipping_zone_rates (max_weight_kg, fee)';
+
+export function mapShippingZone(row: ShippingZoneRow): ShippingZone {
+    return {
+        id: row.id,
+        name: row.name,
+        cities: row.cities || [],
+        districts: row.districts || [],
+        isActive: row.is_active,
+        sortOrder: row.sort_order,
+        rates: (row.shipping_zone_rates || [])
+            .map((rate) => ({ maxWeightKg: Number(rate.max_weight_kg), fee: Number(rate.fee) }))
+            .sort((a, b) => a.maxWeightKg - b.maxWeightKg),
+        extraKgFee: Number(row.extra_kg_fee),
+        insuranceRatePercent: Number(row.insurance_rate_percent),
+        insuranceMinValue: Number(row.insurance_min_value),
+    };
+}
+
+/**
+ * Active shipping zones with their weight brackets
+ */
+export async function getActiveShippingZones(): Promise<ShippingZone[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+        .from('shipping_zones')
+        .select(SHIPPING_ZONE_COLUMNS)
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true })
+        .returns<ShippingZoneRow[]>();
+
+    if (error) {
+        console.error('Error fetching shipping zones:', error);
+        throw new Error('Failed to fetch shipping zones');
+    }
+
+    return (data || []).map(mapShippingZone);
+}
+
+/**
+ * Shipping weight of one unit of a product (specifications.weight)
+ */
+export function getProductShippingWeightKg(specifications: Record<string, unknown> | null | undefined): number {
+    const weight = specifications?.weight;
+    return parseWeightKg(typeof weight === 'string' ? weight : null) ?? DEFAULT_ITEM_WEIGHT_KG;
+}
+
+/**
+ * Quote shipping for cart lines (used by checkout; POST /api/orders runs the
+ * same calculation on the products it has already loaded)
+ * Returns null when no zone covers the address.
+ */
+export async function quoteShippingForCart(
+    items: Array<{ productId: string; quantity: number }>,
+    address: { city: string; district?: string },
+    insured: boolean
+): Promise<ShippingQuote | null> {
+    const supabase = createServiceClient();
+
+    const { data: products, error } = await supabase
+        .from('products')
+        .select('id, price, specifications')
+        .in('id', items.map((item) => item.productId));
+
+    if (error) {
+        console.error('Error fetching products for shipping quote:', error);
+        throw new Error('Failed to fetch products');
+    }
+
+    const lines = items.flatMap((item) => {
+        const product = products?.find((p) => p.id === item.productId);
+        return product ? [{ product, quantity: item.quantity }] : [];
+    });
+
+    return quoteShipping(await getActiveShippingZones(), {
+        city: address.city,
+        district: address.district,
+        items: lines.map(({ product, quantity }) => ({
+            weightKg: getProductShippingWeightKg(product.specifications),
+            quantity,
+        })),
+        orderValue: lines.reduce((sum, { product, quantity }) => sum + Number(product.price) * quantity, 0),
+        insured,
+    });
+}
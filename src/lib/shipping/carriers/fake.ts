@@ -0,0 +1,66 @@
+/**
+ * Fake carrier for development and tests (SHIPPING_FAKE_CARRIER=true, always on outside production)
+ * Events live in process memory: push them with pushFakeCarrierEvent (or POST
+ * { trackingNumber, status, description?, location?, occurredAt? } to
+ * /api/shipping/webhook/fake) and polling returns everything pushed so far.
+ */
+
+import { SHIPMENT_STATUSES, type CarrierAdapter, type CarrierEvent, type ShipmentStatus } from '../types';
+import { asRecord, readString, requireString, toIsoTimestamp } from './payload';
+
+const events = new Map<string, CarrierEvent[]>();
+
+function toEvent(payload: unknown): CarrierEvent {
+    const body = asRecord(payload, 'fake carrier');
+    const status = requireString(body, 'status', 'fake carrier');
+
+    if (!SHIPMENT_STATUSES.includes(status as ShipmentStatus)) {
+        throw new Error(`Unknown fake carrier status "${status}". Use one of: ${SHIPMENT_STATUSES.join(', ')}`);
+    }
+
+    return {
+        trackingNumber: requireString(body, 'trackingNumber', 'fake carrier'),
+        status: status as ShipmentStatus,
+        carrierStatus: status,
+        description: readString(body, 'description'),
+        location: readString(body, 'location'),
+        occurredAt: toIsoTimestamp(readString(body, 'occurredAt')),
+    };
+}
+
+/**
+ * Record a carrier event for a fake tracking number (returned by the next poll)
+ */
+export function pushFakeCarrierEvent(payload: {
+    trackingNumber: string;
+    status: ShipmentStatus;
+    description?: string;
+    location?: string;
+    occurredAt?: string;
+}): CarrierEvent {
+    const event = toEvent(payload);
+    events.set(event.trackingNumber, [...(events.get(event.trackingNumber) || []), event]);
+    return event;
+}
+
+/**
+ * Forget all pushed events
+ */
+export function resetFakeCarrier(): void {
+    events.clear();
+}
+
+export function createFakeAdapter(): CarrierAdapter {
+    return {
+        code: 'fake',
+        trackingUrl() {
+            return null;
+        },
+        async fetchEvents(trackingNumber) {
+            return events.get(trackingNumber) || [];
+        },
+        parseWebhook(payload) {
+            return [toEvent(payload)];
+        },
+    };
+}
@@ -0,0 +1,100 @@
+/**
+ * GHN - Giao Hàng Nhanh (GHN_API_TOKEN, optional GHN_API_URL)
+ * Polls shipping-order/detail (returns the full status log) and accepts
+ * GHN's order-status webhook
+ */
+
+import type { CarrierAdapter, CarrierEvent, ShipmentStatus } from '../types';
+import { asRecord, readString, requireString, toIsoTimestamp } from './payload';
+
+const DEFAULT_API_URL = 'https://online-gateway.ghn.vn/shiip/public-api';
+
+const STATUS_MAP: Record<string, ShipmentStatus> = {
+    ready_to_pick: 'pending',
+    picking: 'pending',
+    money_collect_picking: 'pending',
+    picked: 'picked_up',
+    storing: 'picked_up',
+    transporting: 'in_transit',
+    sorting: 'in_transit',
+    delivering: 'out_for_delivery',
+    money_collect_delivering: 'out_for_delivery',
+    delivered: 'delivered',
+    delivery_fail: 'failed_attempt',
+    waiting_to_return: 'returning',
+    return: 'returning',
+    return_transporting: 'returning',
+    return_sorting: 'returning',
+    returning: 'returning',
+    return_fail: 'returning',
+    returned: 'returned',
+    cancel: 'cancelled',
+};
+
+function toEvent(
+    trackingNumber: string,
+    carrierStatus: string,
+    time: string | undefined,
+    description?: string,
+    location?: string
+): CarrierEvent {
+    return {
+        trackingNumber,
+        status: STATUS_MAP[carrierStatus] || 'exception',
+        carrierStatus,
+        description,
+        location,
+        occurredAt: toIsoTimestamp(time),
+    };
+}
+
+export function createGhnAdapter(config: { apiToken?: string; apiUrl?: string }): CarrierAdapter {
+    return {
+        code: 'ghn',
+        trackingUrl(trackingNumber) {
+            return `https://donhang.ghn.vn/?order_code=${encodeURIComponent(trackingNumber)}`;
+        },
+        async fetchEvents(trackingNumber) {
+            if (!config.apiToken) {
+                throw new Error('GHN API token not configured. Set GHN_API_TOKEN environment variable.');
+            }
+
+            const response = await fetch(`${config.apiUrl || DEFAULT_API_URL}/v2/shipping-order/detail`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Token: config.apiToken,
+                },
+                body: JSON.stringify({ order_code: trackingNumber }),
+            });
+
+            const body = asRecord(await response.json().catch(() => null), 'GHN');
+            if (!response.ok || body.code !== 200) {
+                throw new Error(`GHN tracking failed: ${readString(body, 'message') || response.status}`);
+            }
+
+            const data = asRecord(body.data, 'GHN');
+            const log = Array.isArray(data.log) ? data.log : [];
+
+            return log.map((entry) => {
+                const item = asRecord(entry, 'GHN log');
+                return toEvent(trackingNumber, requireString(item, 'status', 'GHN log'), readString(item, 'updated_date'));
+            });
+        },
+        parseWebhook(payload) {
+            const body = asRecord(payload, 'GHN webhook');
+            const trackingNumber = requireString(body, 'OrderCode', 'GHN webhook');
+            const status = requireString(body, 'Status', 'GHN webhook').toLowerCase();
+
+            return [
+                toEvent(
+                    trackingNumber,
+                    status,
+                    readString(body, 'Time'),
+                    readString(body, 'Description') || readString(body, 'Reason'),
+                    readString(body, 'Warehouse')
+                ),
+            ];
+        },
+    };
+}
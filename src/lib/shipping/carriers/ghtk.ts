@@ -0,0 +1,87 @@
+/**
+ * GHTK - Giao Hàng Tiết Kiệm (GHTK_API_TOKEN, optional GHTK_API_URL)
+ * Polling only returns the current status, so history comes from GHTK's
+ * status webhook; both are keyed by label_id
+ */
+
+import type { CarrierAdapter, ShipmentStatus } from '../types';
+import { asRecord, readString, requireString, toIsoTimestamp } from './payload';
+
+const DEFAULT_API_URL = 'https://services.giaohangtietkiem.vn';
+
+// status_id values (including the shipper-reported 1xx/4xx codes)
+const STATUS_MAP: Record<string, ShipmentStatus> = {
+    '-1': 'cancelled',
+    '1': 'pending',
+    '2': 'pending',
+    '3': 'picked_up',
+    '4': 'out_for_delivery',
+    '5': 'delivered',
+    '6': 'delivered', // Delivered and reconciled
+    '7': 'exception', // Could not pick up
+    '8': 'pending', // Pickup delayed
+    '9': 'failed_attempt',
+    '10': 'failed_attempt', // Delivery delayed
+    '11': 'returned', // Return reconciled
+    '12': 'pending', // Picking up
+    '13': 'returning',
+    '20': 'returning',
+    '21': 'returned',
+    '45': 'delivered', // Shipper reports delivered
+    '49': 'failed_attempt',
+    '123': 'picked_up',
+    '127': 'exception',
+    '128': 'pending',
+    '410': 'failed_attempt',
+};
+
+export function createGhtkAdapter(config: { apiToken?: string; apiUrl?: string }): CarrierAdapter {
+    return {
+        code: 'ghtk',
+        trackingUrl(trackingNumber) {
+            return `https://i.ghtk.vn/${encodeURIComponent(trackingNumber)}`;
+        },
+        async fetchEvents(trackingNumber) {
+            if (!config.apiToken) {
+                throw new Error('GHTK API token not configured. Set GHTK_API_TOKEN environment variable.');
+            }
+
+            const response = await fetch(
+                `${config.apiUrl || DEFAULT_API_URL}/services/shipment/v2/${encodeURIComponent(trackingNumber)}`,
+                { headers: { Token: config.apiToken } }
+            );
+
+            const body = asRecord(await response.json().catch(() => null), 'GHTK');
+            if (!response.ok || body.success !== true) {
+                throw new Error(`GHTK tracking failed: ${readString(body, 'message') || response.status}`);
+            }
+
+            const order = asRecord(body.order, 'GHTK');
+            const carrierStatus = requireString(order, 'status', 'GHTK');
+
+            return [
+                {
+                    trackingNumber,
+                    status: STATUS_MAP[carrierStatus] || 'exception',
+                    carrierStatus,
+                    description: readString(order, 'status_text'),
+                    occurredAt: toIsoTimestamp(readString(order, 'modified')),
+                },
+            ];
+        },
+        parseWebhook(payload) {
+            const body = asRecord(payload, 'GHTK webhook');
+            const carrierStatus = requireString(body, 'status_id', 'GHTK webhook');
+
+            return [
+                {
+                    trackingNumber: requireString(body, 'label_id', 'GHTK webhook'),
+                    status: STATUS_MAP[carrierStatus] || 'exception',
+                    carrierStatus,
+                    description: readString(body, 'reason'),
+                    occurredAt: toIsoTimestamp(readString(body, 'action_time')),
+                },
+            ];
+        },
+    };
+}
@@ -0,0 +1,61 @@
+/**
+ * Carrier adapter selection
+ *
+ * GHN and GHTK are polled with their API tokens (GHN_API_TOKEN,
+ * GHTK_API_TOKEN); Viettel Post and J&T only push webhooks. The fake carrier
+ * is available outside production, or when SHIPPING_FAKE_CARRIER=true.
+ */
+
+import { CARRIER_CODES, type CarrierAdapter, type CarrierCode } from '../types';
+import { createFakeAdapter } from './fake';
+import { createGhnAdapter } from './ghn';
+import { createGhtkAdapter } from './ghtk';
+import { createJtAdapter } from './jt';
+import { createViettelPostAdapter } from './viettel-post';
+
+export { pushFakeCarrierEvent, resetFakeCarrier } from './fake';
+
+const cachedAdapters = new Map<CarrierCode, CarrierAdapter>();
+
+function isFakeCarrierEnabled(): boolean {
+    return process.env.SHIPPING_FAKE_CARRIER === 'true' || process.env.NODE_ENV !== 'production';
+}
+
+function createAdapter(code: CarrierCode): CarrierAdapter {
+    switch (code) {
+        case 'ghn':
+            return createGhnAdapter({ apiToken: process.env.GHN_API_TOKEN, apiUrl: process.env.GHN_API_URL });
+        case 'ghtk':
+            return createGhtkAdapter({ apiToken: process.env.GHTK_API_TOKEN, apiUrl: process.env.GHTK_API_URL });
+        case 'viettel_post':
+            return createViettelPostAdapter();
+        case 'jt':
+            return createJtAdapter();
+        case 'fake':
+            return createFakeAdapter();
+    }
+}
+
+/**
+ * Carriers admins can choose when marking an order shipped
+ */
+export function getAvailableCarriers(): CarrierCode[] {
+    return CARRIER_CODES.filter((code) => code !== 'fake' || isFakeCarrierEnabled());
+}
+
+/**
+ * Get a carrier's adapter (created once per process)
+ * Throws for an unknown or disabled carrier
+ */
+export function getCarrierAdapter(code: CarrierCode): CarrierAdapter {
+    if (!getAvailableCarriers().includes(code)) {
+        throw new Error(`Carrier "${code}" is not available`);
+    }
+
+    let adapter = cachedAdapters.get(code);
+    if (!adapter) {
+        adapter = createAdapter(code);
+        cachedAdapters.set(code, adapter);
+    }
+    return adapter;
+}
@@ -0,0 +1,49 @@
+/**
+ * J&T Express
+ * Push-only: J&T's track push sends the bill code with one or more scans
+ * ({ billCode, details: [{ scanType, scanTime, desc, scanNetworkCity }] })
+ */
+
+import type { CarrierAdapter, CarrierEvent, ShipmentStatus } from '../types';
+import { asRecord, readString, requireString, toIsoTimestamp } from './payload';
+
+const SCAN_TYPE_MAP: Record<string, ShipmentStatus> = {
+    pickup: 'picked_up',
+    departure: 'in_transit',
+    arrival: 'in_transit',
+    delivery: 'out_for_delivery',
+    signature: 'delivered',
+    pod: 'delivered',
+    problem: 'failed_attempt',
+    return: 'returning',
+    'return signature': 'returned',
+    cancel: 'cancelled',
+};
+
+export function createJtAdapter(): CarrierAdapter {
+    return {
+        code: 'jt',
+        trackingUrl() {
+            return null;
+        },
+        parseWebhook(payload) {
+            const body = asRecord(payload, 'J&T webhook');
+            const trackingNumber = requireString(body, 'billCode', 'J&T webhook');
+            const details = Array.isArray(body.details) ? body.details : [body];
+
+            return details.map((entry): CarrierEvent => {
+                const scan = asRecord(entry, 'J&T scan');
+                const carrierStatus = requireString(scan, 'scanType', 'J&T scan');
+
+                return {
+                    trackingNumber,
+                    status: SCAN_TYPE_MAP[carrierStatus.toLowerCase()] || 'exception',
+                    carrierStatus,
+                    description: readString(scan, 'desc'),
+                    location: readString(scan, 'scanNetworkCity'),
+                    occurredAt: toIsoTimestamp(readString(scan, 'scanTime')),
+                };
+            });
+        },
+    };
+}
@@ -0,0 +1,54 @@
+/**
+ * Helpers for reading untyped carrier payloads
+ */
+
+export function asRecord(value: unknown, label: string): Record<string, unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`Invalid ${label} payload`);
+    }
+    return value as Record<string, unknown>;
+}
+
+export function readString(record: Record<string, unknown>, key: string): string | undefined {
+    const value = record[key];
+    if (typeof value === 'string') {
+        return value.trim() || undefined;
+    }
+    if (typeof value === 'number') {
+        return String(value);
+    }
+    return undefined;
+}
+
+export function requireString(record: Record<string, unknown>, key: string, label: string): string {
+    const value = readString(record, key);
+    if (!value) {
+        throw new Error(`Missing ${key} in ${label} payload`);
+    }
+    return value;
+}
+
+/**
+ * Normalize a carrier timestamp to ISO
+ * Accepts ISO strings, "yyyy-MM-dd HH:mm:ss" and "dd/MM/yyyy HH:mm:ss"
+ * (carriers send local times without an offset: Vietnam time, +07:00)
+ */
+export function toIsoTimestamp(value: string | undefined): string {
+    if (!value) {
+        return new Date().toISOString();
+    }
+
+    const vietnamese = value.match(/^(\d{2})\/(\d{2})\/(\d{4})(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+    if (vietnamese) {
+        const [, day, month, year, hour = '00', minute = '00', second = '00'] = vietnamese;
+        return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+07:00`).toISOString();
+    }
+
+    const local = value.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2})?)$/);
+    const date = new Date(local ? `${local[1]}T${local[2]}+07:00` : value);
+
+    if (Number.isNaN(date.getTime())) {
+        throw new Error(`Invalid carrier timestamp "${value}"`);
+    }
+    return date.toISOString();
+}
@@ -0,0 +1,46 @@
+/**
+ * Viettel Post
+ * Push-only: Viettel Post posts every status change to the webhook
+ * ({ DATA: { ORDER_NUMBER, ORDER_STATUS, ... }, TOKEN })
+ */
+
+import type { CarrierAdapter, ShipmentStatus } from '../types';
+import { asRecord, readString, requireString, toIsoTimestamp } from './payload';
+
+function toShipmentStatus(code: number): ShipmentStatus {
+    if (code === 501) return 'delivered';
+    if (code === 504) return 'returned';
+    if ([502, 515, 550].includes(code)) return 'returning';
+    if ([505, 506, 507].includes(code)) return 'failed_attempt';
+    if ([101, 107, 201, 503].includes(code)) return 'cancelled';
+    if (code === 500 || code === 508) return 'out_for_delivery';
+    if (code === 105 || code === 200) return 'picked_up';
+    if (code < 200) return 'pending';
+    if (code < 500 || code === 509) return 'in_transit';
+    return 'exception';
+}
+
+export function createViettelPostAdapter(): CarrierAdapter {
+    return {
+        code: 'viettel_post',
+        trackingUrl() {
+            return null;
+        },
+        parseWebhook(payload) {
+            const body = asRecord(payload, 'Viettel Post webhook');
+            const data = asRecord(body.DATA, 'Viettel Post webhook');
+            const carrierStatus = requireString(data, 'ORDER_STATUS', 'Viettel Post webhook');
+
+            return [
+                {
+                    trackingNumber: requireString(data, 'ORDER_NUMBER', 'Viettel Post webhook'),
+                    status: toShipmentStatus(Number(carrierStatus)),
+                    carrierStatus,
+                    description: readString(data, 'STATUS_NAME') || readString(data, 'NOTE'),
+                    location: readString(data, 'LOCALION_CURRENTLY'),
+                    occurredAt: toIsoTimestamp(readString(data, 'ORDER_STATUSDATE')),
+                },
+            ];
+        },
+    };
+}
@@ -0,0 +1,189 @@
+/**
+ * Shipping rate engine
+ * Picks the shipping zone for an address and prices the parcel by weight
+ * (product specifications.weight), plus optional insured freight. Pure: zones
+ * are loaded by the shipping repository, so checkout quotes and order
+ * creation run the exact same calculation.
+ */
+
+import { removeDiacritics } from '@/lib/vietqr/generator';
+
+// Used for products without a parseable specifications.weight (tube amps are rarely lighter)
+export const DEFAULT_ITEM_WEIGHT_KG = 5;
+
+export interface ShippingRate {
+    maxWeightKg: number; // Bracket covers parcels up to this weight
+    fee: number;
+}
+
+export interface ShippingZone {
+    id: string;
+    name: string;
+    cities: string[]; // Empty = every city (fallback zone)
+    districts: string[]; // Empty = every district of the zone's cities
+    isActive: boolean;
+    sortOrder: number;
+    rates: ShippingRate[]; // Sorted by maxWeightKg
+    extraKgFee: number; // Per started kg above the heaviest bracket
+    insuranceRatePercent: number; // 0 = insurance not offered
+    insuranceMinValue: number; // Insurance is offered from this order value
+}
+
+export interface ShippingQuoteItem {
+    weightKg: number;
+    quantity: number;
+}
+
+export interface ShippingQuote {
+    zoneId: string;
+    zoneName: string;
+    weightKg: number;
+    freightFee: number;
+    insuranceAvailable: boolean;
+    insured: boolean;
+    insuranceFee: number;
+    shippingFee: number; // freightFee + insuranceFee (orders.shipping_fee)
+}
+
+const PLACE_PREFIXES = /^(thanh pho|tp|tinh|quan|huyen|thi xa|thi tran|q|h)\.?\s+/;
+
+/**
+ * Normalize a city/district name for matching: no diacritics, lowercase,
+ * without administrative prefixes ("TP. Hồ Chí Minh" -> "ho chi minh")
+ */
+export function normalizePlaceName(value: string): string {
+    return removeDiacritics(value)
+        .toLowerCase()
+        .replace(/\./g, '. ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(PLACE_PREFIXES, '')
+        .replace(/[^a-z0-9 ]/g, '')
+        .trim();
+}
+
+/**
+ * Parse a weight specification ("12 kg", "12,5kg", "850 g", "26 lbs") into kilograms
+ * Returns null when there is no number to read
+ */
+export function parseWeightKg(value: string | undefined | null): number | null {
+    if (!value) {
+        return null;
+    }
+
+    const match = value.trim().toLowerCase().match(/(\d+(?:[.,]\d+)?)\s*(kg|kgs|g|gr|gram|grams|lb|lbs|pound|pounds)?/);
+    if (!match) {
+        return null;
+    }
+
+    const amount = Number(match[1].replace(',', '.'));
+    if (!Number.isFinite(amount) || amount <= 0) {
+        return null;
+    }
+
+    switch (match[2]) {
+        case 'g':
+        case 'gr':
+        case 'gram':
+        case 'grams':
+            return amount / 1000;
+        case 'lb':
+        case 'lbs':
+        case 'pound':
+        case 'pounds':
+            return Math.round(amount * 0.45359237 * 1000) / 1000;
+        default:
+            return amount;
+    }
+}
+
+/**
+ * Find the zone for an address
+ * A zone listing the district beats one listing only the city, which beats
+ * a fallback zone; ties go to the lowest sort order.
+ */
+export function findShippingZone(
+    zones: ShippingZone[],
+    address: { city: string; district?: string }
+): ShippingZone | null {
+    const city = normalizePlaceName(address.city);
+    const district = address.district ? normalizePlaceName(address.district) : '';
+
+    let best: { zone: ShippingZone; score: number } | null = null;
+
+    for (const zone of zones) {
+        if (!zone.isActive || zone.rates.length === 0) {
+            continue;
+        }
+
+        const cities = zone.cities.map(normalizePlaceName);
+        const districts = zone.districts.map(normalizePlaceName);
+
+        if (cities.length > 0 && !cities.includes(city)) {
+            continue;
+        }
+        if (districts.length > 0 && !districts.includes(district)) {
+            continue;
+        }
+
+        const score = (districts.length > 0 ? 2 : 0) + (cities.length > 0 ? 1 : 0);
+        if (!best || score > best.score || (score === best.score && zone.sortOrder < best.zone.sortOrder)) {
+            best = { zone, score };
+        }
+    }
+
+    return best?.zone || null;
+}
+
+function calculateFreight(zone: ShippingZone, weightKg: number): number {
+    const rates = [...zone.rates].sort((a, b) => a.maxWeightKg - b.maxWeightKg);
+    const bracket = rates.find((rate) => weightKg <= rate.maxWeightKg);
+
+    if (bracket) {
+        return bracket.fee;
+    }
+
+    const heaviest = rates[rates.length - 1];
+    return heaviest.fee + Math.ceil(weightKg - heaviest.maxWeightKg) * zone.extraKgFee;
+}
+
+/**
+ * Price a parcel for an address
+ * Returns null when no active zone covers the address (we don't ship there).
+ * Insurance is only charged when requested and offered for the order value.
+ */
+export function quoteShipping(
+    zones: ShippingZone[],
+    input: {
+        city: string;
+        district?: string;
+        items: ShippingQuoteItem[];
+        orderValue: number; // Declared value for insurance (order subtotal)
+        insured?: boolean;
+    }
+): ShippingQuote | null {
+    const zone = findShippingZone(zones, input);
+    if (!zone) {
+        return null;
+    }
+
+    const weightKg = Math.round(
+        input.items.reduce((sum, item) => sum + item.weightKg * item.quantity, 0) * 1000
+    ) / 1000;
+    const freightFee = Math.round(calculateFreight(zone, weightKg));
+
+    const insuranceAvailable = zone.insuranceRatePercent > 0 && input.orderValue >= zone.insuranceMinValue;
+    const insured = Boolean(input.insured) && insuranceAvailable;
+    const insuranceFee = insured ? Math.round((input.orderValue * zone.insuranceRatePercent) / 100) : 0;
+
+    return {
+        zoneId: zone.id,
+        zoneName: zone.name,
+        weightKg,
+        freightFee,
+        insuranceAvailable,
+        insured,
+        insuranceFee,
+        shippingFee: freightFee + insuranceFee,
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * Shipping carrier contract
+ * Adapters translate a carrier's tracking API / webhook payloads into
+ * normalized CarrierEvents; storing them and updating the order is handled
+ * by the shipments repository. Client-safe (no env or network access).
+ */
+
+export const CARRIER_CODES = ['ghn', 'ghtk', 'viettel_post', 'jt', 'fake'] as const;
+export type CarrierCode = (typeof CARRIER_CODES)[number];
+
+export const CARRIER_NAMES: Record<CarrierCode, string> = {
+    ghn: 'GHN',
+    ghtk: 'GHTK',
+    viettel_post: 'Viettel Post',
+    jt: 'J&T Express',
+    fake: 'Fake carrier (testing)',
+};
+
+export const SHIPMENT_STATUSES = [
+    'pending', // Created, waiting for pickup
+    'picked_up',
+    'in_transit',
+    'out_for_delivery',
+    'delivered',
+    'failed_attempt', // Delivery attempt failed, carrier will retry
+    'returning',
+    'returned',
+    'cancelled',
+    'exception', // Lost, damaged or a carrier status we don't know
+] as const;
+export type ShipmentStatus = (typeof SHIPMENT_STATUSES)[number];
+
+// No further carrier events are expected
+export const FINAL_SHIPMENT_STATUSES: readonly ShipmentStatus[] = ['delivered', 'returned', 'cancelled'];
+
+export interface CarrierEvent {
+    trackingNumber: string;
+    status: ShipmentStatus;
+    carrierStatus: string; // The carrier's own status code, kept for support
+    description?: string;
+    location?: string;
+    occurredAt: string; // ISO timestamp
+}
+
+export interface CarrierAdapter {
+    code: CarrierCode;
+    /**
+     * Public tracking page for the customer (null if the carrier has none we can link)
+     */
+    trackingUrl(trackingNumber: string): string | null;
+    /**
+     * Poll the carrier for a shipment's events (absent for push-only carriers)
+     */
+    fetchEvents?(trackingNumber: string): Promise<CarrierEvent[]>;
+    /**
+     * Parse a webhook body into events (throws on a malformed payload)
+     */
+    parseWebhook(payload: unknown): CarrierEvent[];
+}
+
+export function isCarrierCode(value: string): value is CarrierCode {
+    return (CARRIER_CODES as readonly string[]).includes(value);
+}
@@ -61,60 +61,46 @@ export async function getStripeWebhookEvent(
 }
 
 /**
- * Extract Stripe metadata from order
- * Stores Stripe identifiers in admin_note as JSON
+ * Create a Checkout Session with line items priced in VND
+ * Stripe test mode may not support VND, so fall back to USD (approximate rate)
  */
-export interface StripeRefundInfo {
-    total_refunded_amount: number; // Total amount refunded in minor units
-    currency: string;
-    last_refund_id?: string;
-    refund_status?: 'pending' | 'succeeded' | 'failed' | 'cancelled';
-    refunds?: Array<{
-        refund_id: string;
-        amount: number;
-        status: string;
-        created_at: string;
-        reason?: string;
-    }>;
-    inventory_restored_at?: string; // Timestamp when inventory was restored (if applicable)
-}
-
-export interface StripeMetadata {
-    stripe_checkout_session_id?: string;
-    stripe_payment_intent_id?: string;
-    stripe_payment_status?: string;
-    stripe_processed_events?: string[]; // Array of processed event IDs for idempotency
-    stripe_refunds?: StripeRefundInfo; // Refund information
-}
-
-/**
- * Parse Stripe metadata from admin_note field
- */
-export function parseStripeMetadata(adminNote: string | null): StripeMetadata {
-    if (!adminNote) {
-        return {};
-    }
+export async function createVndCheckoutSession(
+    params: Stripe.Checkout.SessionCreateParams,
+    amountVnd: number
+): Promise<Stripe.Checkout.Session> {
+    const stripe = getStripe();
 
     try {
-        // Try to parse as JSON
-        const parsed = JSON.parse(adminNote);
-        // Check if it's a Stripe metadata object
-        if (parsed.stripe_checkout_session_id || parsed.stripe_payment_intent_id) {
-            return parsed as StripeMetadata;
+        return await stripe.checkout.sessions.create(params);
+    } catch (currencyError) {
+        const { code, message } = currencyError as { code?: string; message?: string };
+        if (code !== 'resource_missing' &&
+            !message?.includes('currency') &&
+            !message?.includes('vnd')) {
+            throw currencyError;
         }
-        // If admin_note contains other text, return empty (don't mix with admin notes)
-        return {};
-    } catch {
-        // Not JSON or not Stripe metadata
-        return {};
-    }
-}
 
-/**
- * Serialize Stripe metadata to admin_note field
- * Note: This overwrites admin_note. In production, consider a separate metadata field.
- */
-export function serializeStripeMetadata(metadata: StripeMetadata): string {
-    return JSON.stringify(metadata);
-}
+        console.log('VND not supported, falling back to USD for test mode');
 
+        // Convert VND to USD (approximate: 1 USD ≈ 25,000 VND)
+        const USD_RATE = 25000;
+        const usdLineItems = (params.line_items || []).map(item => ({
+            ...item,
+            price_data: item.price_data && {
+                ...item.price_data,
+                currency: 'usd',
+                unit_amount: Math.round((item.price_data.unit_amount || 0) / USD_RATE * 100), // Convert to cents
+            },
+        }));
+
+        return await stripe.checkout.sessions.create({
+            ...params,
+            metadata: {
+                ...params.metadata,
+                currency_converted: 'vnd_to_usd',
+                original_amount_vnd: amountVnd.toString(),
+            },
+            line_items: usdLineItems,
+        });
+    }
+}
@@ -51,6 +51,40 @@ export interface ProductSpecs {
     [key: string]: string | undefined;
 }
 
+/**
+ * Approved customer review (public)
+ */
+export interface ProductReviewDTO {
+    id: string;
+    rating: number;
+    title?: string;
+    content?: string;
+    customerName: string;
+    isVerifiedPurchase: boolean;
+    createdAt: string;
+}
+
+/**
+ * Aggregate rating from approved reviews
+ */
+export interface ProductRatingSummary {
+    average: number | null; // null when there are no approved reviews
+    count: number;
+}
+
+/**
+ * Approved customer setup photo (public gallery)
+ */
+export interface CustomerSetupDTO {
+    id: string;
+    title: string;
+    description?: string;
+    imageUrl: string;
+    customerName?: string;
+    products: Array<{ id: string; slug: string; name: string }>;
+    createdAt: string;
+}
+
 /**
  * Product Detail DTO - Used for product detail page
  */
@@ -83,6 +117,10 @@ export interface ProductDetailDTO extends ProductCardDTO {
     depositDueHours?: number;
     reservationPolicyNote?: string;
 
+    // Reviews (approved only)
+    rating: ProductRatingSummary;
+    reviews: ProductReviewDTO[];
+
     // Warranty and Returns
     warrantyMonths?: number;
     returnDays?: number;
@@ -120,7 +158,9 @@ export type ProductSort =
     | 'price_asc'
     | 'price_desc'
     | 'best_sellers'
-    | 'featured';
+    | 'featured'
+    | 'top_rated'
+    | 'relevance'; // Search results only
 
 /**
  * Pagination Parameters
@@ -0,0 +1,32 @@
+/**
+ * Guide Types
+ * DTOs for the database-driven guides (guides + guide_translations)
+ */
+
+export type GuideCategory = 'beginner' | 'technical' | 'matching';
+
+export const GUIDE_CATEGORIES: GuideCategory[] = ['beginner', 'technical', 'matching'];
+
+/**
+ * Guide Card DTO - Used on the /guides listing
+ */
+export interface GuideCardDTO {
+    id: string;
+    slug: string;
+    category: GuideCategory;
+    icon?: string;
+    imageUrl?: string;
+    title: string;
+    description?: string;
+    // Locale the translation was served in (differs when falling back)
+    locale: string;
+}
+
+/**
+ * Guide Detail DTO - Used on /guides/[slug]
+ */
+export interface GuideDetailDTO extends GuideCardDTO {
+    content: string; // Markdown
+    publishedAt?: string;
+    updatedAt: string;
+}
@@ -0,0 +1,66 @@
+/**
+ * Matching Types for the speaker-matching wizard
+ * Inputs mirror the matching_requests table columns
+ */
+
+import type { ProductCardDTO } from '@/lib/types/catalog';
+
+export type RoomSize = 'small' | 'medium' | 'large';
+export type ListeningLevel = 'low' | 'medium' | 'loud';
+export type SpeakerImpedance = 4 | 6 | 8 | 16;
+
+/**
+ * Matching Input - what the customer tells us about their system
+ */
+export interface MatchingInput {
+    speakerSensitivity: number; // dB @ 1W/1m
+    speakerImpedance: SpeakerImpedance;
+    roomSize: RoomSize;
+    listeningLevel: ListeningLevel;
+    genres: string[];
+}
+
+/**
+ * Overall verdict for a product (matches product.matching.results keys)
+ */
+export type MatchVerdict = 'fit' | 'consider' | 'notRecommended';
+
+/**
+ * Reason keys are translated on the client (matching.reasons.*)
+ */
+export type MatchReasonKey =
+    | 'powerHeadroom'
+    | 'powerEnough'
+    | 'powerMarginal'
+    | 'powerInsufficient'
+    | 'sensitivityOk'
+    | 'sensitivityBelowMin'
+    | 'tapMatch'
+    | 'tapMismatch'
+    | 'topologySe'
+    | 'topologyPp';
+
+export interface MatchReason {
+    key: MatchReasonKey;
+    values?: Record<string, string | number>;
+}
+
+/**
+ * Single ranked recommendation
+ */
+export interface MatchingRecommendation {
+    product: ProductCardDTO;
+    score: number; // 0-100
+    verdict: MatchVerdict;
+    requiredWatts: number;
+    reasons: MatchReason[];
+}
+
+/**
+ * Matching Result - returned by POST /api/matching
+ */
+export interface MatchingResult {
+    requestId: string | null;
+    requiredWatts: number;
+    recommendations: MatchingRecommendation[];
+}
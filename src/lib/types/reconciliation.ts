@@ -0,0 +1,70 @@
+/**
+ * Reconciliation Types for bank statement import
+ * Mirror the bank_statement_imports / bank_transactions tables
+ */
+
+export type BankTransactionMatchStatus = 'unmatched' | 'suggested' | 'flagged' | 'applied' | 'ignored';
+export type BankTransactionFlagReason = 'partial_payment' | 'overpayment' | 'order_not_awaiting_payment';
+export type BankPaymentKind = 'deposit' | 'full_payment' | 'balance';
+
+/**
+ * Incoming transaction as parsed from a statement file (before matching)
+ */
+export interface ParsedBankTransaction {
+    transactionRef?: string;
+    transactionDate: string; // ISO
+    amount: number; // VND, credit only
+    description: string;
+}
+
+/**
+ * Result of matching one transaction against orders
+ */
+export interface BankTransactionMatch {
+    matchStatus: Exclude<BankTransactionMatchStatus, 'applied' | 'ignored'>;
+    orderId?: string;
+    detectedOrderNumber?: string;
+    paymentKind?: BankPaymentKind;
+    expectedAmount?: number;
+    flagReason?: BankTransactionFlagReason;
+}
+
+/**
+ * Transaction row for the admin reconciliation queue
+ */
+export interface BankTransactionDTO {
+    id: string;
+    importId: string | null;
+    bankCode: string;
+    transactionRef: string | null;
+    transactionDate: string;
+    amount: number;
+    description: string;
+    matchStatus: BankTransactionMatchStatus;
+    flagReason: BankTransactionFlagReason | null;
+    paymentKind: BankPaymentKind | null;
+    expectedAmount: number | null;
+    detectedOrderNumber: string | null;
+    order: {
+        id: string;
+        orderNumber: string;
+        customerName: string;
+        paymentStatus: string;
+    } | null;
+    appliedAt: string | null;
+    reviewNote: string | null;
+}
+
+/**
+ * Summary returned after an import
+ */
+export interface BankStatementImportResult {
+    importId: string;
+    transactionCount: number;
+    duplicateCount: number;
+    appliedCount: number;
+    suggestedCount: number;
+    flaggedCount: number;
+    unmatchedCount: number;
+    skippedRows: number; // Debits, blank or unparseable rows
+}
@@ -0,0 +1,14 @@
+/**
+ * Request helpers shared by route handlers, server actions and the admin audit trail
+ */
+
+/**
+ * Client IP from proxy headers (x-forwarded-for, then x-real-ip); null when there is none
+ */
+export function getClientIpFromHeaders(headers: Pick<Headers, 'get'>): string | null {
+    const forwarded = headers.get('x-forwarded-for');
+    if (forwarded) {
+        return forwarded.split(',')[0].trim() || null;
+    }
+    return headers.get('x-real-ip')?.trim() || null;
+}
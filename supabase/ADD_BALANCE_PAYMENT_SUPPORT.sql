@@ -0,0 +1,16 @@
+-- =====================================================
+-- BALANCE PAYMENT SUPPORT
+-- =====================================================
+-- Customers can pay the remaining_amount of a deposit reservation
+-- (Stripe Checkout or VietQR bank transfer) from the tracking page.
+-- Balance transfers found in bank statements are matched as payment_kind = 'balance'.
+-- Run this AFTER CREATE_BANK_RECONCILIATION_TABLES.sql
+
+ALTER TABLE public.bank_transactions
+    DROP CONSTRAINT IF EXISTS bank_transactions_payment_kind_check;
+
+ALTER TABLE public.bank_transactions
+    ADD CONSTRAINT bank_transactions_payment_kind_check
+    CHECK (payment_kind IN ('deposit', 'full_payment', 'balance'));
+
+COMMENT ON COLUMN public.bank_transactions.payment_kind IS 'deposit, full_payment, or balance (remaining amount of a deposit reservation)';
@@ -0,0 +1,43 @@
+-- =====================================================
+-- Deposit Proof Attempts (re-upload after rejection)
+-- =====================================================
+-- Every proof a customer submits is kept as a numbered attempt, so admins see
+-- the full history. The old UNIQUE (order_id, status) constraint allowed only
+-- one rejected proof per order; it is replaced with partial unique indexes
+-- that still allow one pending and one approved proof per order.
+--
+-- deposit_due_extended_to records the new deposit_due_at when rejecting a
+-- proof pushed the deadline out (see DEPOSIT_PROOF_RULES).
+-- =====================================================
+
+ALTER TABLE public.deposit_transfer_proofs
+    DROP CONSTRAINT IF EXISTS unique_active_proof_per_order;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deposit_proofs_one_pending
+    ON public.deposit_transfer_proofs(order_id)
+    WHERE status = 'pending';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deposit_proofs_one_approved
+    ON public.deposit_transfer_proofs(order_id)
+    WHERE status = 'approved';
+
+ALTER TABLE public.deposit_transfer_proofs
+    ADD COLUMN IF NOT EXISTS attempt_number INTEGER,
+    ADD COLUMN IF NOT EXISTS deposit_due_extended_to TIMESTAMPTZ;
+
+-- Number existing proofs in submission order
+UPDATE public.deposit_transfer_proofs p
+SET attempt_number = numbered.attempt_number
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY order_id ORDER BY created_at, id) AS attempt_number
+    FROM public.deposit_transfer_proofs
+) numbered
+WHERE p.id = numbered.id
+  AND p.attempt_number IS NULL;
+
+ALTER TABLE public.deposit_transfer_proofs
+    ALTER COLUMN attempt_number SET DEFAULT 1,
+    ALTER COLUMN attempt_number SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deposit_proofs_order_attempt
+    ON public.deposit_transfer_proofs(order_id, attempt_number);
@@ -0,0 +1,75 @@
+-- =====================================================
+-- ORDER EMAILS: ALL EMAIL TYPES + PER-EVENT IDEMPOTENCY
+-- =====================================================
+-- order_emails only accepted order_confirmation / status_update, and
+-- UNIQUE(order_id, type) allowed a single row per type. Refund,
+-- cancellation, change request and deposit emails could not be logged.
+--
+-- Every row now carries an idempotency_key naming the event that
+-- triggered it, unique per order:
+--   order_confirmation             order_confirmation
+--   status_update:<new status>     e.g. status_update:shipped
+--   refund:<Stripe refund id>      one email per refund, safe on webhook replays
+--   order_cancellation             order_cancellation
+--   change_request:<submitted at>
+--   deposit_approved:<proof id>
+--   deposit_rejected:<proof id>
+--   balance_paid                   balance_paid
+--
+-- Run this AFTER CREATE_ORDER_EMAILS_TABLE.sql
+
+ALTER TABLE public.order_emails
+    DROP CONSTRAINT IF EXISTS order_emails_type_check;
+
+ALTER TABLE public.order_emails
+    ADD CONSTRAINT order_emails_type_check
+    CHECK (type IN (
+        'order_confirmation',
+        'status_update',
+        'refund',
+        'order_cancellation',
+        'change_request',
+        'deposit_approved',
+        'deposit_rejected',
+        'balance_paid'
+    ));
+
+ALTER TABLE public.order_emails
+    ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+-- Backfill existing rows with the keys the app would have used
+UPDATE public.order_emails
+SET idempotency_key = CASE
+    WHEN type = 'status_update' THEN 'status_update:' || COALESCE(metadata_status, id::TEXT)
+    ELSE type
+END
+WHERE idempotency_key IS NULL;
+
+-- Older rows may share a key (retries after a failure); keep the newest, suffix the rest
+WITH ranked AS (
+    SELECT
+        id,
+        ROW_NUMBER() OVER (PARTITION BY order_id, idempotency_key ORDER BY created_at DESC) AS rn
+    FROM public.order_emails
+)
+UPDATE public.order_emails e
+SET idempotency_key = e.idempotency_key || ':' || e.id::TEXT
+FROM ranked
+WHERE ranked.id = e.id
+  AND ranked.rn > 1;
+
+ALTER TABLE public.order_emails
+    ALTER COLUMN idempotency_key SET NOT NULL;
+
+-- The per-type constraints are replaced by the per-event key
+ALTER TABLE public.order_emails
+    DROP CONSTRAINT IF EXISTS unique_order_confirmation;
+
+ALTER TABLE public.order_emails
+    DROP CONSTRAINT IF EXISTS unique_status_update;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_emails_idempotency_key
+    ON public.order_emails(order_id, idempotency_key);
+
+COMMENT ON COLUMN public.order_emails.type IS 'Email type (one of the app EmailType values)';
+COMMENT ON COLUMN public.order_emails.idempotency_key IS 'Triggering event, unique per order (e.g. status_update:shipped, refund:re_123)';
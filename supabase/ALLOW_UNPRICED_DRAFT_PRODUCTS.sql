@@ -0,0 +1,14 @@
+-- =====================================================
+-- Unpriced Draft Products
+-- =====================================================
+-- Catalog editors can create products but not set prices (products.price).
+-- Their new products are saved as unpublished drafts with price 0 until
+-- someone with the permission prices them; a product can only be published
+-- with a positive price.
+-- =====================================================
+
+ALTER TABLE public.products
+    DROP CONSTRAINT IF EXISTS positive_price;
+
+ALTER TABLE public.products
+    ADD CONSTRAINT positive_price CHECK (price > 0 OR (price = 0 AND NOT is_published));
@@ -0,0 +1,146 @@
+-- =====================================================
+-- Structured Addresses (Province / District / Ward)
+-- =====================================================
+-- Shipping addresses are picked from the administrative divisions bundled in
+-- src/lib/divisions (GSO codes) instead of typed as free text. Orders and
+-- saved addresses keep the codes; shipping_city / shipping_district (and
+-- user_addresses.city / district) hold the official names that go with them,
+-- so shipping zones match one spelling per place.
+--
+-- Existing rows keep their free-text values with NULL codes.
+-- =====================================================
+
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS shipping_province_code TEXT,
+    ADD COLUMN IF NOT EXISTS shipping_district_code TEXT,
+    ADD COLUMN IF NOT EXISTS shipping_ward_code TEXT,
+    ADD COLUMN IF NOT EXISTS shipping_ward TEXT;
+
+ALTER TABLE public.user_addresses
+    ADD COLUMN IF NOT EXISTS province_code TEXT,
+    ADD COLUMN IF NOT EXISTS district_code TEXT,
+    ADD COLUMN IF NOT EXISTS ward_code TEXT,
+    ADD COLUMN IF NOT EXISTS ward TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_shipping_province_code ON public.orders(shipping_province_code);
+
+-- =====================================================
+-- create_order_with_items: also store the division codes
+-- =====================================================
+-- Same as CREATE_DISCOUNT_CODES.sql plus the four address columns; the
+-- order route validates the codes before calling it.
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_order JSONB, p_items JSONB)
+RETURNS TABLE (id UUID, order_number TEXT) AS $$
+DECLARE
+    v_order_id UUID;
+    v_order_number TEXT;
+    v_item RECORD;
+    v_code public.discount_codes%ROWTYPE;
+    v_code_id UUID := NULLIF(p_order->>'discount_code_id', '')::UUID;
+    v_phone TEXT := regexp_replace(p_order->>'customer_phone', '\D', '', 'g'); -- Digits only
+BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'empty_order' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- A zero, negative or fractional quantity would add stock back below
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_items) AS x(item)
+        WHERE CASE
+            WHEN jsonb_typeof(x.item->'quantity') = 'number'
+                THEN (x.item->>'quantity')::NUMERIC <= 0 OR (x.item->>'quantity')::NUMERIC % 1 <> 0
+            ELSE true
+        END
+    ) THEN
+        RAISE EXCEPTION 'invalid_quantity' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_code_id IS NOT NULL THEN
+        -- Lock the code so concurrent checkouts count redemptions one at a time
+        SELECT * INTO v_code FROM public.discount_codes c WHERE c.id = v_code_id FOR UPDATE;
+
+        IF NOT FOUND
+            OR NOT v_code.is_active
+            OR (v_code.starts_at IS NOT NULL AND v_code.starts_at > NOW())
+            OR (v_code.expires_at IS NOT NULL AND v_code.expires_at <= NOW())
+            OR (v_code.usage_limit IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.discount_code_redemptions r WHERE r.discount_code_id = v_code_id
+            ) >= v_code.usage_limit)
+            OR (v_code.per_customer_limit IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.discount_code_redemptions r
+                WHERE r.discount_code_id = v_code_id AND r.customer_phone = v_phone
+            ) >= v_code.per_customer_limit)
+        THEN
+            RAISE EXCEPTION 'discount_unavailable'
+                USING ERRCODE = 'P0001', DETAIL = COALESCE(v_code.code, v_code_id::TEXT);
+        END IF;
+    END IF;
+
+    FOR v_item IN
+        SELECT x.product_id, SUM(x.quantity)::INTEGER AS quantity
+        FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER)
+        GROUP BY x.product_id
+        ORDER BY x.product_id
+    LOOP
+        UPDATE public.products p
+        SET stock_quantity = p.stock_quantity - v_item.quantity
+        WHERE p.id = v_item.product_id
+          AND p.stock_quantity >= v_item.quantity;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'insufficient_stock'
+                USING ERRCODE = 'P0001', DETAIL = v_item.product_id::TEXT;
+        END IF;
+    END LOOP;
+
+    INSERT INTO public.orders (
+        user_id, customer_email, customer_name, customer_phone,
+        shipping_address_line, shipping_city, shipping_district,
+        shipping_province_code, shipping_district_code, shipping_ward_code, shipping_ward,
+        subtotal, shipping_fee, tax, discount, total,
+        shipping_zone_id, shipping_weight_kg, shipping_insurance_fee,
+        discount_code_id, discount_code,
+        payment_method, payment_status, order_type, is_deposit_order,
+        deposit_amount_vnd, deposit_due_at, remaining_amount,
+        customer_note, locale, status, vietqr_generated_at
+    )
+    SELECT
+        r.user_id, r.customer_email, r.customer_name, r.customer_phone,
+        r.shipping_address_line, r.shipping_city, r.shipping_district,
+        r.shipping_province_code, r.shipping_district_code, r.shipping_ward_code, r.shipping_ward,
+        r.subtotal, COALESCE(r.shipping_fee, 0), COALESCE(r.tax, 0), COALESCE(r.discount, 0), r.total,
+        r.shipping_zone_id, r.shipping_weight_kg, COALESCE(r.shipping_insurance_fee, 0),
+        r.discount_code_id, r.discount_code,
+        r.payment_method, COALESCE(r.payment_status, 'pending'), COALESCE(r.order_type, 'standard'), COALESCE(r.is_deposit_order, false),
+        r.deposit_amount_vnd, r.deposit_due_at, r.remaining_amount,
+        r.customer_note, COALESCE(r.locale, 'vi'), COALESCE(r.status, 'pending'), r.vietqr_generated_at
+    FROM jsonb_populate_record(NULL::public.orders, p_order) AS r
+    RETURNING orders.id, orders.order_number INTO v_order_id, v_order_number;
+
+    IF v_code_id IS NOT NULL THEN
+        INSERT INTO public.discount_code_redemptions (discount_code_id, order_id, customer_phone, amount)
+        VALUES (v_code_id, v_order_id, v_phone, COALESCE((p_order->>'discount')::DECIMAL, 0));
+    END IF;
+
+    INSERT INTO public.order_items (
+        order_id, product_id, product_name, product_slug, product_sku,
+        product_image_url, unit_price, quantity, subtotal
+    )
+    SELECT
+        v_order_id, x.product_id, x.product_name, x.product_slug, x.product_sku,
+        x.product_image_url, x.unit_price, x.quantity, x.subtotal
+    FROM jsonb_to_recordset(p_items) AS x(
+        product_id UUID,
+        product_name TEXT,
+        product_slug TEXT,
+        product_sku TEXT,
+        product_image_url TEXT,
+        unit_price DECIMAL(12, 2),
+        quantity INTEGER,
+        subtotal DECIMAL(12, 2)
+    );
+
+    RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,65 @@
+-- =====================================================
+-- Admin Audit Log
+-- =====================================================
+-- Append-only record of every mutating admin action: who (actor), what
+-- (action), on which entity, the before/after values of the changed
+-- fields, and where from (IP, user agent).
+--
+-- Rows are written by the service role from src/lib/admin/audit.ts and
+-- searched at /admin/audit. UPDATE and DELETE are rejected for every role,
+-- including the service role.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID, -- No FK: a cascading SET NULL would be an UPDATE, which is blocked below
+    actor_email TEXT NOT NULL, -- Snapshot, kept after the staff member is removed
+    actor_role TEXT,
+    action TEXT NOT NULL, -- e.g. 'order.status_update', 'product.delete'
+    entity_type TEXT NOT NULL, -- e.g. 'order', 'product' (image actions are logged on their product)
+    entity_id TEXT NOT NULL,
+    entity_label TEXT, -- Human-readable reference (order number, product name, email)
+    before JSONB, -- Changed fields before the action (NULL for creates)
+    after JSONB, -- Changed fields after the action (NULL for deletes)
+    metadata JSONB, -- Extra context: notes, reasons, amounts
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at
+    ON public.admin_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor
+    ON public.admin_audit_log(actor_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_entity
+    ON public.admin_audit_log(entity_type, entity_id, created_at DESC);
+
+-- Append-only: no role may rewrite or delete history
+CREATE OR REPLACE FUNCTION public.prevent_admin_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_admin_audit_log_changes ON public.admin_audit_log;
+CREATE TRIGGER prevent_admin_audit_log_changes
+    BEFORE UPDATE OR DELETE ON public.admin_audit_log
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+-- Enable RLS (service role only; no update/delete policy)
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can read admin audit log" ON public.admin_audit_log;
+CREATE POLICY "Service role can read admin audit log" ON public.admin_audit_log
+    FOR SELECT
+    USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can append admin audit log" ON public.admin_audit_log;
+CREATE POLICY "Service role can append admin audit log" ON public.admin_audit_log
+    FOR INSERT
+    WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.admin_audit_log IS 'Append-only log of mutating admin actions (actor, action, entity, before/after, IP)';
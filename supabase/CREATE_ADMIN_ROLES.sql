@@ -0,0 +1,80 @@
+-- =====================================================
+-- Admin Roles & Staff Invitations
+-- =====================================================
+-- Replaces the ADMIN_ALLOWLIST_EMAILS env var. Staff access comes from
+-- user_profiles.admin_role; permissions per role live in
+-- src/lib/admin/permissions.ts:
+--   owner          - everything, including staff management
+--   order_manager  - order handling and refunds
+--   catalog_editor - product content (not prices or deletes), guides, moderation
+--   support        - read-only
+--
+-- Owners invite staff from /admin/staff. An invitation is accepted the first
+-- time someone signs in to /admin with the invited email.
+--
+-- Bootstrap the first owner (e.g. the old allowlist) with an invitation:
+--   INSERT INTO public.admin_invitations (email, role)
+--   VALUES ('owner@yourdomain.com', 'owner')
+--   ON CONFLICT (email) DO NOTHING;
+-- =====================================================
+
+ALTER TABLE public.user_profiles
+    ADD COLUMN IF NOT EXISTS admin_role TEXT
+        CHECK (admin_role IN ('owner', 'order_manager', 'catalog_editor', 'support')); -- NULL = not staff
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_admin_role
+    ON public.user_profiles(admin_role)
+    WHERE admin_role IS NOT NULL;
+
+-- Customers can update their own profile row; they must never grant themselves a role
+CREATE OR REPLACE FUNCTION public.protect_user_profile_admin_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() IN ('anon', 'authenticated') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.admin_role := NULL;
+        ELSE
+            NEW.admin_role := OLD.admin_role;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_user_profiles_admin_role ON public.user_profiles;
+CREATE TRIGGER protect_user_profiles_admin_role
+    BEFORE INSERT OR UPDATE ON public.user_profiles
+    FOR EACH ROW EXECUTE FUNCTION public.protect_user_profile_admin_role();
+
+CREATE TABLE IF NOT EXISTS public.admin_invitations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email TEXT NOT NULL UNIQUE CHECK (email = lower(email)),
+    role TEXT NOT NULL CHECK (role IN ('owner', 'order_manager', 'catalog_editor', 'support')),
+    invited_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    accepted_at TIMESTAMPTZ, -- NULL = pending
+    accepted_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_invitations_pending
+    ON public.admin_invitations(created_at DESC)
+    WHERE accepted_at IS NULL;
+
+-- Enable RLS (managed through the service role behind admin auth)
+ALTER TABLE public.admin_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage admin invitations" ON public.admin_invitations;
+CREATE POLICY "Service role can manage admin invitations" ON public.admin_invitations
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- Trigger to update updated_at
+DROP TRIGGER IF EXISTS update_admin_invitations_updated_at ON public.admin_invitations;
+CREATE TRIGGER update_admin_invitations_updated_at
+    BEFORE UPDATE ON public.admin_invitations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN public.user_profiles.admin_role IS 'Staff role for /admin (NULL = customer); only the service role can change it';
+COMMENT ON TABLE public.admin_invitations IS 'Pending and accepted staff invitations, keyed by lowercase email';
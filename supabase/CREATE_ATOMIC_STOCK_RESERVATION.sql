@@ -0,0 +1,150 @@
+-- =====================================================
+-- ATOMIC STOCK RESERVATION MIGRATION
+-- =====================================================
+-- Creates the order, its items and the stock decrement in a single
+-- transaction so two checkouts can never both take the last unit.
+-- Stock is restored through release_order_stock(), which only ever
+-- runs once per order.
+-- Run this after ADD_DEPOSIT_RESERVATION_FIELDS.sql
+
+-- Track when an order's stock was returned (makes release idempotent)
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS stock_released_at TIMESTAMPTZ;
+
+-- Stock is now decremented explicitly by create_order_with_items()
+-- The old per-row trigger would decrement twice and never failed cleanly on oversell
+DROP TRIGGER IF EXISTS update_stock_on_order ON public.order_items;
+
+-- =====================================================
+-- Create order + items + decrement stock (one transaction)
+-- =====================================================
+-- p_order: orders columns as JSON (same keys as the table)
+-- p_items: array of order_items columns as JSON
+-- Raises 'insufficient_stock' (SQLSTATE P0001, DETAIL = product id) on oversell
+-- and 'invalid_quantity' unless every quantity is a positive integer;
+-- nothing is written in either case.
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_order JSONB, p_items JSONB)
+RETURNS TABLE (id UUID, order_number TEXT) AS $$
+DECLARE
+    v_order_id UUID;
+    v_order_number TEXT;
+    v_item RECORD;
+BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'empty_order' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- A zero, negative or fractional quantity would add stock back below
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_items) AS x(item)
+        WHERE CASE
+            WHEN jsonb_typeof(x.item->'quantity') = 'number'
+                THEN (x.item->>'quantity')::NUMERIC <= 0 OR (x.item->>'quantity')::NUMERIC % 1 <> 0
+            ELSE true
+        END
+    ) THEN
+        RAISE EXCEPTION 'invalid_quantity' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Decrement stock first, in product_id order so concurrent checkouts
+    -- lock rows in the same order and cannot deadlock
+    FOR v_item IN
+        SELECT x.product_id, SUM(x.quantity)::INTEGER AS quantity
+        FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER)
+        GROUP BY x.product_id
+        ORDER BY x.product_id
+    LOOP
+        UPDATE public.products p
+        SET stock_quantity = p.stock_quantity - v_item.quantity
+        WHERE p.id = v_item.product_id
+          AND p.stock_quantity >= v_item.quantity;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'insufficient_stock'
+                USING ERRCODE = 'P0001', DETAIL = v_item.product_id::TEXT;
+        END IF;
+    END LOOP;
+
+    INSERT INTO public.orders (
+        user_id, customer_email, customer_name, customer_phone,
+        shipping_address_line, shipping_city, shipping_district,
+        subtotal, shipping_fee, tax, discount, total,
+        payment_method, payment_status, order_type, is_deposit_order,
+        deposit_amount_vnd, deposit_due_at, remaining_amount,
+        customer_note, locale, status, vietqr_generated_at
+    )
+    SELECT
+        r.user_id, r.customer_email, r.customer_name, r.customer_phone,
+        r.shipping_address_line, r.shipping_city, r.shipping_district,
+        r.subtotal, COALESCE(r.shipping_fee, 0), COALESCE(r.tax, 0), COALESCE(r.discount, 0), r.total,
+        r.payment_method, COALESCE(r.payment_status, 'pending'), COALESCE(r.order_type, 'standard'), COALESCE(r.is_deposit_order, false),
+        r.deposit_amount_vnd, r.deposit_due_at, r.remaining_amount,
+        r.customer_note, COALESCE(r.locale, 'vi'), COALESCE(r.status, 'pending'), r.vietqr_generated_at
+    FROM jsonb_populate_record(NULL::public.orders, p_order) AS r
+    RETURNING orders.id, orders.order_number INTO v_order_id, v_order_number;
+
+    INSERT INTO public.order_items (
+        order_id, product_id, product_name, product_slug, product_sku,
+        product_image_url, unit_price, quantity, subtotal
+    )
+    SELECT
+        v_order_id, x.product_id, x.product_name, x.product_slug, x.product_sku,
+        x.product_image_url, x.unit_price, x.quantity, x.subtotal
+    FROM jsonb_to_recordset(p_items) AS x(
+        product_id UUID,
+        product_name TEXT,
+        product_slug TEXT,
+        product_sku TEXT,
+        product_image_url TEXT,
+        unit_price DECIMAL(12, 2),
+        quantity INTEGER,
+        subtotal DECIMAL(12, 2)
+    );
+
+    RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- Return an order's units to stock (cancel, expiry)
+-- =====================================================
+-- Returns the number of items restocked, 0 if the order was already released
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER := 0;
+BEGIN
+    -- Claim the release; a second call (or a concurrent one) finds nothing to do
+    UPDATE public.orders
+    SET stock_released_at = NOW()
+    WHERE id = p_order_id
+      AND stock_released_at IS NULL;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity + i.quantity
+    FROM (
+        SELECT product_id, SUM(quantity)::INTEGER AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+          AND product_id IS NOT NULL
+        GROUP BY product_id
+    ) AS i
+    WHERE p.id = i.product_id;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Service role only (called from API routes and the cron worker)
+REVOKE EXECUTE ON FUNCTION public.create_order_with_items(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_order_stock(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.orders.stock_released_at IS 'When the order''s units were returned to stock (null = still reserved)';
+COMMENT ON FUNCTION public.create_order_with_items(JSONB, JSONB) IS 'Atomically create an order with its items and decrement stock; raises insufficient_stock on oversell';
+COMMENT ON FUNCTION public.release_order_stock(UUID) IS 'Return an order''s units to stock, at most once per order';
@@ -0,0 +1,90 @@
+-- =====================================================
+-- Bank Statement Reconciliation Tables
+-- =====================================================
+-- Stores imported bank statement transactions and how each one was
+-- matched to an order (by transfer memo + amount)
+-- Admin uploads CSV/Excel exports, exact matches can be applied
+-- automatically, everything else lands in the unmatched/flagged queue
+-- =====================================================
+
+-- One row per uploaded statement file
+CREATE TABLE IF NOT EXISTS public.bank_statement_imports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bank_code TEXT NOT NULL, -- Key of BANK_BINS (e.g. vietcombank)
+    file_name TEXT NOT NULL,
+    uploaded_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+
+    -- Summary counters (filled after matching)
+    transaction_count INTEGER NOT NULL DEFAULT 0,
+    duplicate_count INTEGER NOT NULL DEFAULT 0,
+    applied_count INTEGER NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One row per incoming (credit) transaction
+CREATE TABLE IF NOT EXISTS public.bank_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    import_id UUID REFERENCES public.bank_statement_imports(id) ON DELETE SET NULL,
+    bank_code TEXT NOT NULL,
+
+    -- Transaction data as exported by the bank
+    transaction_ref TEXT,
+    transaction_date TIMESTAMPTZ NOT NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+
+    -- Dedupe key (same transaction re-imported from an overlapping statement)
+    fingerprint TEXT NOT NULL UNIQUE,
+
+    -- Matching result
+    order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+    detected_order_number TEXT, -- Order code found in the memo, even if no order matched
+    payment_kind TEXT CHECK (payment_kind IN ('deposit', 'full_payment')),
+    expected_amount DECIMAL(12, 2),
+
+    -- unmatched: no order found; suggested: exact match awaiting apply;
+    -- flagged: matched but needs a human (partial/over-payment, order not awaiting payment);
+    -- applied: order marked as paid/deposited; ignored: dismissed by admin
+    match_status TEXT NOT NULL DEFAULT 'unmatched'
+        CHECK (match_status IN ('unmatched', 'suggested', 'flagged', 'applied', 'ignored')),
+    flag_reason TEXT CHECK (flag_reason IN ('partial_payment', 'overpayment', 'order_not_awaiting_payment')),
+
+    -- Review
+    applied_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    applied_at TIMESTAMPTZ,
+    review_note TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_import_id ON public.bank_transactions(import_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_order_id ON public.bank_transactions(order_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_match_status ON public.bank_transactions(match_status);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_date ON public.bank_transactions(transaction_date DESC);
+
+-- Enable RLS
+ALTER TABLE public.bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_transactions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Service role only (admin accesses via authenticated routes)
+CREATE POLICY "Service role can manage bank statement imports" ON public.bank_statement_imports
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage bank transactions" ON public.bank_transactions
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- Trigger to update updated_at
+CREATE TRIGGER update_bank_transactions_updated_at
+    BEFORE UPDATE ON public.bank_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.bank_statement_imports IS 'Uploaded bank statement files (CSV/Excel)';
+COMMENT ON TABLE public.bank_transactions IS 'Incoming bank transfers and their match to orders';
+COMMENT ON COLUMN public.bank_transactions.fingerprint IS 'Hash of bank, date, amount, reference and description; prevents double import';
+COMMENT ON COLUMN public.bank_transactions.flag_reason IS 'Why a matched transaction needs manual review';
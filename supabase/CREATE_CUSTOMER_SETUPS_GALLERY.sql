@@ -0,0 +1,44 @@
+-- =====================================================
+-- Customer Setups Gallery
+-- =====================================================
+-- Signed-in customers upload a photo of their system and tag the amplifiers
+-- they bought (customer_setups.products). Photos go to the public
+-- `customer-setups` storage bucket; setups are shown on /reviews and on the
+-- tagged product pages once an admin approves them.
+-- =====================================================
+
+-- Storage + moderation fields
+ALTER TABLE public.customer_setups
+    ADD COLUMN IF NOT EXISTS storage_path TEXT, -- Path in the customer-setups bucket
+    ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ, -- NULL = waiting in the moderation queue
+    ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS moderation_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_customer_setups_user_id ON public.customer_setups(user_id);
+CREATE INDEX IF NOT EXISTS idx_customer_setups_is_approved ON public.customer_setups(is_approved);
+-- "Seen in customer systems" looks setups up by tagged product
+CREATE INDEX IF NOT EXISTS idx_customer_setups_products ON public.customer_setups USING GIN (products);
+
+-- Enable RLS
+ALTER TABLE public.customer_setups ENABLE ROW LEVEL SECURITY;
+
+-- Submissions go through /api/setups (service role); customers only read
+CREATE POLICY "Anyone can view approved setups" ON public.customer_setups
+    FOR SELECT USING (is_approved = true);
+
+CREATE POLICY "Users can view own setups" ON public.customer_setups
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage customer setups" ON public.customer_setups
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- Trigger to update updated_at
+DROP TRIGGER IF EXISTS update_customer_setups_updated_at ON public.customer_setups;
+CREATE TRIGGER update_customer_setups_updated_at
+    BEFORE UPDATE ON public.customer_setups
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN public.customer_setups.products IS 'Product IDs the customer bought and tagged in the photo';
+COMMENT ON COLUMN public.customer_setups.moderated_at IS 'When an admin approved/rejected the setup (NULL = pending)';
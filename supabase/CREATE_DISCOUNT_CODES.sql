@@ -0,0 +1,216 @@
+-- =====================================================
+-- Discount Codes
+-- =====================================================
+-- Coupon codes applied in the cart and validated by POST /api/orders:
+-- percent or fixed amount, minimum order, scope (whole order, products or
+-- tube types), usage limits and an active window. Codes are edited at
+-- /admin/discounts.
+--
+-- Each order using a code gets a discount_code_redemptions row; usage limits
+-- count those rows. create_order_with_items locks the code while it checks
+-- the limits, so concurrent checkouts can't exceed them, and a cancelled or
+-- expired order gives its redemption back.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.discount_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code) AND code ~ '^[A-Z0-9_-]+$'),
+    description TEXT,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+    value DECIMAL(12, 2) NOT NULL CHECK (value > 0),
+    max_discount DECIMAL(12, 2) CHECK (max_discount > 0), -- Cap for percent codes
+    min_order_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+    scope TEXT NOT NULL DEFAULT 'order' CHECK (scope IN ('order', 'products', 'tube_types')),
+    product_ids UUID[] NOT NULL DEFAULT '{}', -- scope = 'products'
+    tube_types TEXT[] NOT NULL DEFAULT '{}', -- scope = 'tube_types'
+    usage_limit INTEGER CHECK (usage_limit > 0), -- NULL = unlimited
+    per_customer_limit INTEGER CHECK (per_customer_limit > 0), -- Per phone number, NULL = unlimited
+    starts_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (discount_type <> 'percent' OR value <= 100),
+    CHECK (expires_at IS NULL OR starts_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS public.discount_code_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    discount_code_id UUID NOT NULL REFERENCES public.discount_codes(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+    customer_phone TEXT NOT NULL, -- Digits only, for per_customer_limit
+    amount DECIMAL(12, 2) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_code_redemptions_code
+    ON public.discount_code_redemptions(discount_code_id, customer_phone);
+
+DROP TRIGGER IF EXISTS update_discount_codes_updated_at ON public.discount_codes;
+CREATE TRIGGER update_discount_codes_updated_at
+    BEFORE UPDATE ON public.discount_codes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS (service role only; the cart validates codes via /api/discounts/validate)
+ALTER TABLE public.discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.discount_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage discount codes" ON public.discount_codes;
+CREATE POLICY "Service role can manage discount codes" ON public.discount_codes
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage discount code redemptions" ON public.discount_code_redemptions;
+CREATE POLICY "Service role can manage discount code redemptions" ON public.discount_code_redemptions
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.discount_codes IS 'Coupon codes (percent/fixed, scope, limits, active window)';
+COMMENT ON TABLE public.discount_code_redemptions IS 'One row per order using a discount code (counts towards usage limits)';
+
+-- =====================================================
+-- Code stored on orders (orders.discount holds the amount)
+-- =====================================================
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS discount_code_id UUID REFERENCES public.discount_codes(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS discount_code TEXT; -- Snapshot, kept if the code is deleted
+
+-- =====================================================
+-- Give the redemption back when an order is cancelled or expires
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.release_discount_redemption()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.discount_code_redemptions WHERE order_id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS release_discount_redemption_on_cancel ON public.orders;
+CREATE TRIGGER release_discount_redemption_on_cancel
+    AFTER UPDATE OF status ON public.orders
+    FOR EACH ROW
+    WHEN (NEW.status IN ('cancelled', 'expired') AND OLD.status IS DISTINCT FROM NEW.status AND NEW.discount_code_id IS NOT NULL)
+    EXECUTE FUNCTION public.release_discount_redemption();
+
+-- =====================================================
+-- create_order_with_items: also redeem the discount code
+-- =====================================================
+-- Raises 'discount_unavailable' (DETAIL = code) when the code is inactive,
+-- outside its window or over a usage limit; nothing is written in that case.
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_order JSONB, p_items JSONB)
+RETURNS TABLE (id UUID, order_number TEXT) AS $$
+DECLARE
+    v_order_id UUID;
+    v_order_number TEXT;
+    v_item RECORD;
+    v_code public.discount_codes%ROWTYPE;
+    v_code_id UUID := NULLIF(p_order->>'discount_code_id', '')::UUID;
+    v_phone TEXT := regexp_replace(p_order->>'customer_phone', '\D', '', 'g'); -- Digits only
+BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'empty_order' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- A zero, negative or fractional quantity would add stock back below
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_items) AS x(item)
+        WHERE CASE
+            WHEN jsonb_typeof(x.item->'quantity') = 'number'
+                THEN (x.item->>'quantity')::NUMERIC <= 0 OR (x.item->>'quantity')::NUMERIC % 1 <> 0
+            ELSE true
+        END
+    ) THEN
+        RAISE EXCEPTION 'invalid_quantity' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF v_code_id IS NOT NULL THEN
+        -- Lock the code so concurrent checkouts count redemptions one at a time
+        SELECT * INTO v_code FROM public.discount_codes c WHERE c.id = v_code_id FOR UPDATE;
+
+        IF NOT FOUND
+            OR NOT v_code.is_active
+            OR (v_code.starts_at IS NOT NULL AND v_code.starts_at > NOW())
+            OR (v_code.expires_at IS NOT NULL AND v_code.expires_at <= NOW())
+            OR (v_code.usage_limit IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.discount_code_redemptions r WHERE r.discount_code_id = v_code_id
+            ) >= v_code.usage_limit)
+            OR (v_code.per_customer_limit IS NOT NULL AND (
+                SELECT COUNT(*) FROM public.discount_code_redemptions r
+                WHERE r.discount_code_id = v_code_id AND r.customer_phone = v_phone
+            ) >= v_code.per_customer_limit)
+        THEN
+            RAISE EXCEPTION 'discount_unavailable'
+                USING ERRCODE = 'P0001', DETAIL = COALESCE(v_code.code, v_code_id::TEXT);
+        END IF;
+    END IF;
+
+    FOR v_item IN
+        SELECT x.product_id, SUM(x.quantity)::INTEGER AS quantity
+        FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER)
+        GROUP BY x.product_id
+        ORDER BY x.product_id
+    LOOP
+        UPDATE public.products p
+        SET stock_quantity = p.stock_quantity - v_item.quantity
+        WHERE p.id = v_item.product_id
+          AND p.stock_quantity >= v_item.quantity;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'insufficient_stock'
+                USING ERRCODE = 'P0001', DETAIL = v_item.product_id::TEXT;
+        END IF;
+    END LOOP;
+
+    INSERT INTO public.orders (
+        user_id, customer_email, customer_name, customer_phone,
+        shipping_address_line, shipping_city, shipping_district,
+        subtotal, shipping_fee, tax, discount, total,
+        shipping_zone_id, shipping_weight_kg, shipping_insurance_fee,
+        discount_code_id, discount_code,
+        payment_method, payment_status, order_type, is_deposit_order,
+        deposit_amount_vnd, deposit_due_at, remaining_amount,
+        customer_note, locale, status, vietqr_generated_at
+    )
+    SELECT
+        r.user_id, r.customer_email, r.customer_name, r.customer_phone,
+        r.shipping_address_line, r.shipping_city, r.shipping_district,
+        r.subtotal, COALESCE(r.shipping_fee, 0), COALESCE(r.tax, 0), COALESCE(r.discount, 0), r.total,
+        r.shipping_zone_id, r.shipping_weight_kg, COALESCE(r.shipping_insurance_fee, 0),
+        r.discount_code_id, r.discount_code,
+        r.payment_method, COALESCE(r.payment_status, 'pending'), COALESCE(r.order_type, 'standard'), COALESCE(r.is_deposit_order, false),
+        r.deposit_amount_vnd, r.deposit_due_at, r.remaining_amount,
+        r.customer_note, COALESCE(r.locale, 'vi'), COALESCE(r.status, 'pending'), r.vietqr_generated_at
+    FROM jsonb_populate_record(NULL::public.orders, p_order) AS r
+    RETURNING orders.id, orders.order_number INTO v_order_id, v_order_number;
+
+    IF v_code_id IS NOT NULL THEN
+        INSERT INTO public.discount_code_redemptions (discount_code_id, order_id, customer_phone, amount)
+        VALUES (v_code_id, v_order_id, v_phone, COALESCE((p_order->>'discount')::DECIMAL, 0));
+    END IF;
+
+    INSERT INTO public.order_items (
+        order_id, product_id, product_name, product_slug, product_sku,
+        product_image_url, unit_price, quantity, subtotal
+    )
+    SELECT
+        v_order_id, x.product_id, x.product_name, x.product_slug, x.product_sku,
+        x.product_image_url, x.unit_price, x.quantity, x.subtotal
+    FROM jsonb_to_recordset(p_items) AS x(
+        product_id UUID,
+        product_name TEXT,
+        product_slug TEXT,
+        product_sku TEXT,
+        product_image_url TEXT,
+        unit_price DECIMAL(12, 2),
+        quantity INTEGER,
+        subtotal DECIMAL(12, 2)
+    );
+
+    RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,113 @@
+-- =====================================================
+-- EMAIL OUTBOX
+-- =====================================================
+-- Durable queue for outgoing email. The app renders the message and
+-- enqueues it; a worker (/api/cron/email-outbox) claims due rows and
+-- delivers them through the configured provider.
+--
+-- Lifecycle: queued -> sending -> sent
+--                              -> failed (retry at next_attempt_at, exponential backoff)
+--                              -> dead   (max_attempts reached, needs a manual resend)
+--
+-- order_emails stays the per-order log; order_email_id links the two and
+-- the worker keeps order_emails.status in sync.
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+    order_email_id UUID REFERENCES public.order_emails(id) ON DELETE SET NULL,
+    type TEXT NOT NULL,
+
+    -- Rendered message
+    from_email TEXT,
+    to_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    html TEXT NOT NULL,
+    text TEXT,
+
+    -- Delivery state
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    last_error TEXT,
+
+    -- Provider tracking
+    provider TEXT, -- resend, smtp, console, file
+    provider_message_id TEXT,
+    sent_at TIMESTAMPTZ,
+
+    -- Manual resends copy the original message
+    resent_from_id UUID REFERENCES public.email_outbox(id) ON DELETE SET NULL,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+    ON public.email_outbox(next_attempt_at)
+    WHERE status IN ('queued', 'failed');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_sending
+    ON public.email_outbox(locked_at)
+    WHERE status = 'sending';
+CREATE INDEX IF NOT EXISTS idx_email_outbox_order_id ON public.email_outbox(order_id);
+
+DROP TRIGGER IF EXISTS update_email_outbox_updated_at ON public.email_outbox;
+CREATE TRIGGER update_email_outbox_updated_at BEFORE UPDATE ON public.email_outbox
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- RLS: service role only (messages contain customer data)
+-- =====================================================
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage email outbox" ON public.email_outbox;
+CREATE POLICY "Service role can manage email outbox"
+    ON public.email_outbox
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- =====================================================
+-- Claim due messages
+-- =====================================================
+-- Marks up to p_limit due messages as 'sending' and counts the attempt.
+-- SKIP LOCKED lets overlapping workers run without double-sending.
+-- Rows stuck in 'sending' longer than p_lock_timeout (worker crashed
+-- mid-send) are claimed again. Pass p_id to claim a single message.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(
+    p_limit INTEGER DEFAULT 20,
+    p_id UUID DEFAULT NULL,
+    p_lock_timeout INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.email_outbox AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.email_outbox o
+    SET status = 'sending',
+        attempts = o.attempts + 1,
+        locked_at = NOW()
+    WHERE o.id IN (
+        SELECT c.id
+        FROM public.email_outbox c
+        WHERE (p_id IS NULL OR c.id = p_id)
+          AND (
+              (c.status IN ('queued', 'failed') AND c.next_attempt_at <= NOW())
+              OR (c.status = 'sending' AND c.locked_at < NOW() - p_lock_timeout)
+          )
+        ORDER BY c.next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER, UUID, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.email_outbox IS 'Durable queue of outgoing emails, delivered by the email outbox worker';
+COMMENT ON COLUMN public.email_outbox.status IS 'queued, sending, sent, failed (will retry) or dead (max attempts reached)';
+COMMENT ON COLUMN public.email_outbox.attempts IS 'Delivery attempts so far (incremented when claimed)';
+COMMENT ON COLUMN public.email_outbox.next_attempt_at IS 'Earliest time the worker may (re)try this message';
+COMMENT ON COLUMN public.email_outbox.order_email_id IS 'order_emails log row kept in sync with delivery status';
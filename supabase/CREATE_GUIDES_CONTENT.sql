@@ -0,0 +1,63 @@
+-- =====================================================
+-- Guides: database-driven content
+-- =====================================================
+-- /guides and /guides/[slug] read published guides from guides +
+-- guide_translations (Markdown content per locale, falling back to the
+-- default locale 'vi'). Admins manage guides through /admin/guides, which
+-- writes with the service role.
+-- =====================================================
+
+-- Listing order within a category
+ALTER TABLE public.guides
+    ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_guides_published_category
+    ON public.guides(category, sort_order)
+    WHERE is_published = true;
+
+CREATE INDEX IF NOT EXISTS idx_guide_translations_guide_locale
+    ON public.guide_translations(guide_id, locale);
+
+-- Backfill published_at for guides published before this migration
+UPDATE public.guides
+SET published_at = created_at
+WHERE is_published = true AND published_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.guides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guide_translations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view published guides" ON public.guides;
+CREATE POLICY "Anyone can view published guides" ON public.guides
+    FOR SELECT USING (is_published = true);
+
+DROP POLICY IF EXISTS "Service role can manage guides" ON public.guides;
+CREATE POLICY "Service role can manage guides" ON public.guides
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Anyone can view published guide translations" ON public.guide_translations;
+CREATE POLICY "Anyone can view published guide translations" ON public.guide_translations
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.guides
+            WHERE guides.id = guide_translations.guide_id
+            AND guides.is_published = true
+        )
+    );
+
+DROP POLICY IF EXISTS "Service role can manage guide translations" ON public.guide_translations;
+CREATE POLICY "Service role can manage guide translations" ON public.guide_translations
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- Trigger to update updated_at (guides already has one in schema.sql)
+DROP TRIGGER IF EXISTS update_guide_translations_updated_at ON public.guide_translations;
+CREATE TRIGGER update_guide_translations_updated_at
+    BEFORE UPDATE ON public.guide_translations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN public.guides.category IS 'beginner | technical | matching';
+COMMENT ON COLUMN public.guide_translations.content IS 'Markdown (raw HTML is not rendered)';
@@ -0,0 +1,86 @@
+-- =====================================================
+-- ORDER CHANGE REQUESTS
+-- =====================================================
+-- Customers ask for changes from the tracking page
+-- (/api/order/change-request/[orderCode]); admins answer from the
+-- /admin/change-requests inbox. Each request keeps its thread of
+-- customer and admin messages; admin replies are emailed to the customer
+-- (change_request_reply) and shown on /order/track/[code].
+--
+-- Status: open -> accepted | declined -> resolved
+-- Run this AFTER ADD_ORDER_EMAIL_IDEMPOTENCY_KEYS.sql
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.order_change_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    category TEXT NOT NULL DEFAULT 'other'
+        CHECK (category IN ('change_items', 'change_address', 'cancel_refund', 'other')),
+    message TEXT NOT NULL, -- The customer's original request
+    status TEXT NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'accepted', 'declined', 'resolved')),
+    last_message_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.order_change_request_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    request_id UUID NOT NULL REFERENCES public.order_change_requests(id) ON DELETE CASCADE,
+    author TEXT NOT NULL CHECK (author IN ('customer', 'admin')),
+    author_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL, -- Admin who replied
+    body TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_change_requests_order_id ON public.order_change_requests(order_id);
+-- Admin inbox: open requests, most recent activity first
+CREATE INDEX IF NOT EXISTS idx_order_change_requests_status ON public.order_change_requests(status, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_change_request_messages_request_id
+    ON public.order_change_request_messages(request_id, created_at);
+
+-- Enable RLS (reads and writes go through the service role, behind the tracking token or admin auth)
+ALTER TABLE public.order_change_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_change_request_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage change requests" ON public.order_change_requests;
+CREATE POLICY "Service role can manage change requests" ON public.order_change_requests
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage change request messages" ON public.order_change_request_messages;
+CREATE POLICY "Service role can manage change request messages" ON public.order_change_request_messages
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- Trigger to update updated_at
+DROP TRIGGER IF EXISTS update_order_change_requests_updated_at ON public.order_change_requests;
+CREATE TRIGGER update_order_change_requests_updated_at
+    BEFORE UPDATE ON public.order_change_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Admin replies are logged like every other order email
+ALTER TABLE public.order_emails
+    DROP CONSTRAINT IF EXISTS order_emails_type_check;
+
+ALTER TABLE public.order_emails
+    ADD CONSTRAINT order_emails_type_check
+    CHECK (type IN (
+        'order_confirmation',
+        'status_update',
+        'refund',
+        'order_cancellation',
+        'change_request',
+        'change_request_reply',
+        'deposit_approved',
+        'deposit_rejected',
+        'balance_paid'
+    ));
+
+COMMENT ON TABLE public.order_change_requests IS 'Customer change requests for an order (admin inbox)';
+COMMENT ON COLUMN public.order_change_requests.message IS 'Original customer message; follow-ups live in order_change_request_messages';
+COMMENT ON COLUMN public.order_change_requests.last_message_at IS 'Latest message in the thread (inbox sort)';
+COMMENT ON TABLE public.order_change_request_messages IS 'Thread of customer follow-ups and admin replies for a change request';
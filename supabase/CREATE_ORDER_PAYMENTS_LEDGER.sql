@@ -0,0 +1,203 @@
+-- =====================================================
+-- Order Payments Ledger
+-- =====================================================
+-- Replaces the Stripe metadata JSON that used to live in orders.admin_note
+-- (session ID, payment intent ID, refund history, processed webhook events)
+-- One row per charge / deposit / balance payment and one row per refund
+-- admin_note goes back to being a free-text field for admins
+-- =====================================================
+
+-- One row per payment attempt (Stripe checkout, bank transfer, COD collection)
+CREATE TABLE IF NOT EXISTS public.order_payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+
+    -- charge: full payment of a standard order; deposit: reservation deposit;
+    -- balance: remaining amount of a deposit reservation
+    kind TEXT NOT NULL CHECK (kind IN ('charge', 'deposit', 'balance')),
+    provider TEXT NOT NULL CHECK (provider IN ('stripe', 'bank_transfer', 'cod')),
+
+    -- Amount in the provider's minor units (VND has no decimals)
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
+    currency TEXT NOT NULL DEFAULT 'vnd',
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'succeeded', 'failed')),
+
+    -- Provider references
+    external_session_id TEXT UNIQUE, -- Stripe checkout session ID
+    external_payment_id TEXT UNIQUE, -- Stripe payment intent ID / bank transaction ID
+    external_charge_id TEXT, -- Stripe charge ID
+
+    paid_at TIMESTAMPTZ,
+    failure_reason TEXT,
+    recorded_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL, -- Admin who confirmed a manual payment
+    note TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One row per refund
+CREATE TABLE IF NOT EXISTS public.order_refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    payment_id UUID REFERENCES public.order_payments(id) ON DELETE SET NULL,
+
+    provider TEXT NOT NULL CHECK (provider IN ('stripe', 'bank_transfer', 'cod')),
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
+    currency TEXT NOT NULL DEFAULT 'vnd',
+    -- Stripe refund statuses (note Stripe's "canceled" spelling)
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'requires_action', 'succeeded', 'failed', 'canceled')),
+
+    external_refund_id TEXT UNIQUE, -- Stripe refund ID
+
+    reason TEXT,
+    note TEXT,
+    restock BOOLEAN NOT NULL DEFAULT FALSE, -- Order was cancelled and restocked before refunding
+    requested_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    succeeded_at TIMESTAMPTZ,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Stripe webhook events already handled (idempotency)
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_events (
+    event_id TEXT PRIMARY KEY,
+    event_type TEXT NOT NULL,
+    order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+    processed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_order_id ON public.order_payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order_id ON public.order_refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_payment_id ON public.order_refunds(payment_id);
+
+-- Enable RLS
+ALTER TABLE public.order_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Service role only (admin accesses via authenticated routes)
+CREATE POLICY "Service role can manage order payments" ON public.order_payments
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage order refunds" ON public.order_refunds
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage stripe webhook events" ON public.stripe_webhook_events
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- Triggers to update updated_at
+CREATE TRIGGER update_order_payments_updated_at
+    BEFORE UPDATE ON public.order_payments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_order_refunds_updated_at
+    BEFORE UPDATE ON public.order_refunds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.order_payments IS 'Payments received (or attempted) per order';
+COMMENT ON TABLE public.order_refunds IS 'Refunds issued per order';
+COMMENT ON TABLE public.stripe_webhook_events IS 'Processed Stripe webhook event IDs';
+COMMENT ON COLUMN public.order_payments.external_payment_id IS 'Stripe payment intent ID, or bank_transactions.id for reconciled transfers';
+
+-- =====================================================
+-- Backfill from admin_note
+-- =====================================================
+-- Older orders store Stripe metadata as JSON in admin_note:
+-- { stripe_checkout_session_id, stripe_payment_intent_id, stripe_payment_status,
+--   stripe_processed_events[], stripe_refunds { currency, refunds[] } }
+-- Copy it into the ledger and clear admin_note. Free-text notes are left alone.
+DO $$
+DECLARE
+    o RECORD;
+    meta JSONB;
+    payment_status TEXT;
+    new_payment_id UUID;
+BEGIN
+    FOR o IN
+        SELECT id, order_type, total, deposit_amount_vnd, admin_note,
+               confirmed_at, deposit_received_at, created_at
+        FROM public.orders
+        WHERE admin_note LIKE '{%'
+    LOOP
+        BEGIN
+            meta := o.admin_note::JSONB;
+        EXCEPTION WHEN others THEN
+            CONTINUE; -- Not JSON, a regular admin note
+        END;
+
+        IF jsonb_typeof(meta) <> 'object'
+            OR (meta->>'stripe_checkout_session_id' IS NULL AND meta->>'stripe_payment_intent_id' IS NULL) THEN
+            CONTINUE;
+        END IF;
+
+        payment_status := CASE
+            WHEN meta->>'stripe_payment_status' IN ('paid', 'deposited') THEN 'succeeded'
+            WHEN meta->>'stripe_payment_status' = 'failed' THEN 'failed'
+            WHEN meta->'stripe_refunds' IS NOT NULL THEN 'succeeded'
+            ELSE 'pending'
+        END;
+
+        INSERT INTO public.order_payments (
+            order_id, kind, provider, amount, currency, status,
+            external_session_id, external_payment_id, paid_at, created_at
+        ) VALUES (
+            o.id,
+            CASE WHEN o.order_type = 'deposit_reservation' THEN 'deposit' ELSE 'charge' END,
+            'stripe',
+            CASE WHEN o.order_type = 'deposit_reservation' THEN COALESCE(o.deposit_amount_vnd, 0) ELSE o.total END,
+            COALESCE(meta->'stripe_refunds'->>'currency', 'vnd'),
+            payment_status,
+            meta->>'stripe_checkout_session_id',
+            meta->>'stripe_payment_intent_id',
+            CASE WHEN payment_status = 'succeeded' THEN
+                CASE WHEN o.order_type = 'deposit_reservation' THEN o.deposit_received_at ELSE o.confirmed_at END
+            END,
+            o.created_at
+        )
+        ON CONFLICT DO NOTHING
+        RETURNING id INTO new_payment_id;
+
+        IF jsonb_typeof(meta->'stripe_refunds'->'refunds') = 'array' THEN
+            INSERT INTO public.order_refunds (
+                order_id, payment_id, provider, amount, currency, status,
+                external_refund_id, reason, succeeded_at, created_at
+            )
+            SELECT
+                o.id,
+                new_payment_id,
+                'stripe',
+                COALESCE((r->>'amount')::DECIMAL, 0),
+                COALESCE(meta->'stripe_refunds'->>'currency', 'vnd'),
+                CASE
+                    WHEN r->>'status' IN ('pending', 'requires_action', 'succeeded', 'failed', 'canceled') THEN r->>'status'
+                    ELSE 'pending'
+                END,
+                r->>'refund_id',
+                r->>'reason',
+                CASE WHEN r->>'status' = 'succeeded' THEN COALESCE((r->>'created_at')::TIMESTAMPTZ, NOW()) END,
+                COALESCE((r->>'created_at')::TIMESTAMPTZ, NOW())
+            FROM jsonb_array_elements(meta->'stripe_refunds'->'refunds') AS r
+            WHERE r->>'refund_id' IS NOT NULL
+            ON CONFLICT DO NOTHING;
+        END IF;
+
+        IF jsonb_typeof(meta->'stripe_processed_events') = 'array' THEN
+            INSERT INTO public.stripe_webhook_events (event_id, event_type, order_id)
+            SELECT event_id, 'legacy', o.id
+            FROM jsonb_array_elements_text(meta->'stripe_processed_events') AS event_id
+            ON CONFLICT DO NOTHING;
+        END IF;
+
+        UPDATE public.orders SET admin_note = NULL WHERE id = o.id;
+    END LOOP;
+END $$;
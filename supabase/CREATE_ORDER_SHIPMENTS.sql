@@ -0,0 +1,72 @@
+-- =====================================================
+-- Order Shipments
+-- =====================================================
+-- One order_shipments row per parcel handed to a carrier (GHN, GHTK,
+-- Viettel Post, J&T), created when an admin marks the order shipped, and
+-- one order_shipment_events row per carrier scan.
+--
+-- Events arrive from carrier webhooks (/api/shipping/webhook/[carrier]) and
+-- polling (/api/cron/shipments, see SCHEDULE_SHIPMENT_SYNC.sql). A delivered
+-- event moves the order to delivered.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.order_shipments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    carrier TEXT NOT NULL CHECK (carrier IN ('ghn', 'ghtk', 'viettel_post', 'jt', 'fake')),
+    tracking_number TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+        'pending', 'picked_up', 'in_transit', 'out_for_delivery', 'delivered',
+        'failed_attempt', 'returning', 'returned', 'cancelled', 'exception'
+    )),
+    last_event_at TIMESTAMPTZ, -- occurred_at of the newest event
+    last_synced_at TIMESTAMPTZ, -- Last poll of the carrier API
+    delivered_at TIMESTAMPTZ,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (carrier, tracking_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_shipments_order_id ON public.order_shipments(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_shipments_sync ON public.order_shipments(last_synced_at NULLS FIRST)
+    WHERE status NOT IN ('delivered', 'returned', 'cancelled');
+
+CREATE TABLE IF NOT EXISTS public.order_shipment_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    shipment_id UUID NOT NULL REFERENCES public.order_shipments(id) ON DELETE CASCADE,
+    status TEXT NOT NULL, -- Normalized (same values as order_shipments.status)
+    carrier_status TEXT NOT NULL, -- Carrier's own status code
+    description TEXT,
+    location TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    -- Webhook retries and repeated polls deliver the same scan again
+    UNIQUE (shipment_id, carrier_status, occurred_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_shipment_events_shipment ON public.order_shipment_events(shipment_id, occurred_at);
+
+DROP TRIGGER IF EXISTS update_order_shipments_updated_at ON public.order_shipments;
+CREATE TRIGGER update_order_shipments_updated_at
+    BEFORE UPDATE ON public.order_shipments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS (service role only)
+ALTER TABLE public.order_shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_shipment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage order shipments" ON public.order_shipments;
+CREATE POLICY "Service role can manage order shipments" ON public.order_shipments
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage order shipment events" ON public.order_shipment_events;
+CREATE POLICY "Service role can manage order shipment events" ON public.order_shipment_events
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.order_shipments IS 'Carrier parcels for an order (carrier + tracking number, normalized status)';
+COMMENT ON TABLE public.order_shipment_events IS 'Carrier tracking events per shipment (from webhooks and polling)';
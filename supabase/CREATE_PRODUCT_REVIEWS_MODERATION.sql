@@ -0,0 +1,83 @@
+-- =====================================================
+-- Product Reviews: submission + moderation
+-- =====================================================
+-- Customers review products from a delivered order (tracking link or account).
+-- Reviews are inserted by the API with the service role and wait for admin
+-- approval; only approved reviews are public and count towards the rating.
+-- products.review_count / average_rating are kept in sync by a trigger so the
+-- catalog can sort by rating ("top rated").
+-- =====================================================
+
+-- Moderation fields
+ALTER TABLE public.product_reviews
+    ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ, -- NULL = waiting in the moderation queue
+    ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS moderation_note TEXT;
+
+-- One review per product per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_order_product
+    ON public.product_reviews(order_id, product_id)
+    WHERE order_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_moderation_queue
+    ON public.product_reviews(created_at)
+    WHERE moderated_at IS NULL;
+
+-- Reviews are submitted through /api/order/review (service role), which sets
+-- is_verified_purchase itself - don't let clients insert directly
+DROP POLICY IF EXISTS "Users can create reviews" ON public.product_reviews;
+
+-- Aggregate rating on products (approved reviews only)
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS average_rating DECIMAL(3, 2);
+
+CREATE INDEX IF NOT EXISTS idx_products_average_rating
+    ON public.products(average_rating DESC NULLS LAST, review_count DESC);
+
+CREATE OR REPLACE FUNCTION refresh_product_rating(p_product_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.products p
+    SET review_count = stats.review_count,
+        average_rating = stats.average_rating
+    FROM (
+        SELECT COUNT(*)::INTEGER AS review_count,
+               ROUND(AVG(rating)::NUMERIC, 2) AS average_rating
+        FROM public.product_reviews
+        WHERE product_id = p_product_id AND is_approved = true
+    ) stats
+    WHERE p.id = p_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_product_rating_on_review()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL THEN
+        PERFORM refresh_product_rating(OLD.product_id);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.product_id IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.product_id IS DISTINCT FROM OLD.product_id) THEN
+        PERFORM refresh_product_rating(NEW.product_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_product_rating ON public.product_reviews;
+CREATE TRIGGER update_product_rating
+    AFTER INSERT OR UPDATE OF rating, is_approved, product_id OR DELETE ON public.product_reviews
+    FOR EACH ROW EXECUTE FUNCTION update_product_rating_on_review();
+
+-- Backfill: existing reviews were moderated outside the app
+UPDATE public.product_reviews
+SET moderated_at = updated_at
+WHERE moderated_at IS NULL AND is_approved = true;
+
+SELECT refresh_product_rating(id) FROM public.products;
+
+COMMENT ON COLUMN public.product_reviews.moderated_at IS 'When an admin approved/rejected the review (NULL = pending)';
+COMMENT ON COLUMN public.products.average_rating IS 'Average rating of approved reviews (maintained by trigger)';
@@ -0,0 +1,161 @@
+-- =====================================================
+-- Product Search: full-text + fuzzy, diacritic-insensitive
+-- =====================================================
+-- Each product keeps a normalized search document (lowercase, no Vietnamese
+-- diacritics) built from names, short descriptions and descriptions in every
+-- locale, tube type, SKU and product_tags. Triggers keep it in sync.
+-- search_products() ranks matches by full-text rank, trigram word similarity
+-- (typos) and a punctuation-free substring match ("kt-88" finds "KT88").
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- unaccent() is only STABLE; wrap it so it can be used in indexes
+CREATE OR REPLACE FUNCTION public.search_normalize(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT lower(public.unaccent('public.unaccent', COALESCE(p_text, '')));
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Search document columns
+ALTER TABLE public.products
+    ADD COLUMN IF NOT EXISTS search_text TEXT NOT NULL DEFAULT '', -- Normalized text for trigram matching
+    ADD COLUMN IF NOT EXISTS search_compact TEXT NOT NULL DEFAULT '', -- search_text without spaces/punctuation
+    ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector
+    ON public.products USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm
+    ON public.products USING GIN (search_text gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_products_search_compact_trgm
+    ON public.products USING GIN (search_compact gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION refresh_product_search(p_product_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_names TEXT;
+    v_short_descriptions TEXT;
+    v_descriptions TEXT;
+    v_specs TEXT;
+    v_tags TEXT;
+    v_primary TEXT;
+    v_text TEXT;
+BEGIN
+    SELECT string_agg(name, ' '),
+           string_agg(COALESCE(short_description, ''), ' '),
+           -- Descriptions may contain HTML
+           string_agg(regexp_replace(COALESCE(description, ''), '<[^>]+>', ' ', 'g'), ' ')
+    INTO v_names, v_short_descriptions, v_descriptions
+    FROM public.product_translations
+    WHERE product_id = p_product_id;
+
+    SELECT string_agg(tag, ' ')
+    INTO v_tags
+    FROM public.product_tags
+    WHERE product_id = p_product_id;
+
+    SELECT concat_ws(' ', tube_type, sku)
+    INTO v_specs
+    FROM public.products
+    WHERE id = p_product_id;
+
+    v_primary := search_normalize(concat_ws(' ', v_names, v_specs, v_tags));
+    v_text := search_normalize(concat_ws(' ', v_names, v_specs, v_tags, v_short_descriptions, v_descriptions));
+
+    UPDATE public.products
+    SET search_text = v_text,
+        search_compact = regexp_replace(v_text, '[^a-z0-9]', '', 'g'),
+        search_vector =
+            setweight(to_tsvector('simple', v_primary), 'A') ||
+            setweight(to_tsvector('simple', search_normalize(v_short_descriptions)), 'B') ||
+            setweight(to_tsvector('simple', search_normalize(v_descriptions)), 'C')
+    WHERE id = p_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_product_search_on_related_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL THEN
+        PERFORM refresh_product_search(OLD.product_id);
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.product_id IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.product_id IS DISTINCT FROM OLD.product_id) THEN
+        PERFORM refresh_product_search(NEW.product_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_product_search_on_product_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_product_search(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_product_search_translations ON public.product_translations;
+CREATE TRIGGER update_product_search_translations
+    AFTER INSERT OR UPDATE OR DELETE ON public.product_translations
+    FOR EACH ROW EXECUTE FUNCTION update_product_search_on_related_change();
+
+DROP TRIGGER IF EXISTS update_product_search_tags ON public.product_tags;
+CREATE TRIGGER update_product_search_tags
+    AFTER INSERT OR UPDATE OR DELETE ON public.product_tags
+    FOR EACH ROW EXECUTE FUNCTION update_product_search_on_related_change();
+
+-- Only fires for the searchable columns, so the refresh UPDATE doesn't recurse
+DROP TRIGGER IF EXISTS update_product_search_specs ON public.products;
+CREATE TRIGGER update_product_search_specs
+    AFTER INSERT OR UPDATE OF tube_type, sku ON public.products
+    FOR EACH ROW EXECUTE FUNCTION update_product_search_on_product_change();
+
+-- Ranked search over published products (called via RPC)
+CREATE OR REPLACE FUNCTION public.search_products(p_query TEXT, p_limit INTEGER DEFAULT 200)
+RETURNS TABLE (product_id UUID, rank REAL) AS $$
+DECLARE
+    v_query TEXT := btrim(search_normalize(p_query));
+    v_compact TEXT := regexp_replace(search_normalize(p_query), '[^a-z0-9]', '', 'g');
+    v_tsquery TSQUERY;
+BEGIN
+    IF v_query = '' THEN
+        RETURN;
+    END IF;
+
+    -- Every word as a prefix: "den 300" -> 'den':* & '300':*
+    SELECT NULLIF(string_agg(quote_literal(word) || ':*', ' & '), '')::TSQUERY
+    INTO v_tsquery
+    FROM regexp_split_to_table(v_query, '[^a-z0-9]+') AS word
+    WHERE word <> '';
+
+    RETURN QUERY
+    SELECT p.id,
+           (
+               COALESCE(ts_rank(p.search_vector, v_tsquery), 0) * 2
+               + word_similarity(v_query, p.search_text)
+               + CASE WHEN length(v_compact) >= 2 AND p.search_compact LIKE '%' || v_compact || '%' THEN 0.5 ELSE 0 END
+           )::REAL AS rank
+    FROM public.products p
+    WHERE p.is_published = true
+      AND (
+          (v_tsquery IS NOT NULL AND p.search_vector @@ v_tsquery)
+          OR v_query <% p.search_text -- pg_trgm word similarity (typos)
+          OR (length(v_compact) >= 2 AND p.search_compact LIKE '%' || v_compact || '%')
+      )
+    ORDER BY rank DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, INTEGER) TO anon, authenticated;
+
+-- Backfill existing products
+SELECT refresh_product_search(id) FROM public.products;
+
+COMMENT ON COLUMN public.products.search_text IS 'Normalized search document (maintained by trigger)';
+COMMENT ON COLUMN public.products.search_vector IS 'Weighted full-text vector: names/specs/tags (A), short descriptions (B), descriptions (C)';
@@ -0,0 +1,56 @@
+-- =====================================================
+-- Rate Limit Counters
+-- =====================================================
+-- Shared fixed-window counters for the public order endpoints (tracking,
+-- claim, change requests, deposit proof uploads) and the lockouts after
+-- repeated failed contact/token checks. Used by the postgres store in
+-- src/lib/rate-limit (RATE_LIMIT_STORE, the default in production).
+--
+-- Keys are hashed by the app; IPs and contacts are never stored as typed.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_counters (
+    key TEXT PRIMARY KEY,
+    count INTEGER NOT NULL DEFAULT 0,
+    reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_reset_at ON public.rate_limit_counters(reset_at);
+
+-- Enable RLS (service role only)
+ALTER TABLE public.rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage rate limit counters" ON public.rate_limit_counters;
+CREATE POLICY "Service role can manage rate limit counters" ON public.rate_limit_counters
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.rate_limit_counters IS 'Fixed-window rate limit and lockout counters (hashed keys)';
+
+-- =====================================================
+-- Count a hit atomically
+-- =====================================================
+-- Starts a new window when the current one has ended and returns the
+-- counter after the hit. Occasionally clears long-expired rows so the table
+-- stays small without a separate job.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(p_key TEXT, p_window_seconds INTEGER)
+RETURNS TABLE (count INTEGER, reset_at TIMESTAMPTZ) AS $$
+#variable_conflict use_column
+BEGIN
+    IF random() < 0.01 THEN
+        DELETE FROM public.rate_limit_counters c WHERE c.reset_at < NOW() - INTERVAL '1 day';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.rate_limit_counters AS c (key, count, reset_at)
+    VALUES (p_key, 1, NOW() + make_interval(secs => p_window_seconds))
+    ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN c.reset_at <= NOW() THEN 1 ELSE c.count + 1 END,
+        reset_at = CASE WHEN c.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE c.reset_at END
+    RETURNING c.count, c.reset_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Service role only (called from API routes)
+REVOKE EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,179 @@
+-- =====================================================
+-- Shipping Zones & Rates
+-- =====================================================
+-- Shipping fees are priced by zone (matched on shipping_city /
+-- shipping_district) and parcel weight (products.specifications.weight).
+-- Each zone has weight brackets in shipping_zone_rates, a per-kg fee above
+-- the heaviest bracket and optional insured freight (a percentage of the
+-- order value). Zones are edited at /admin/shipping.
+--
+-- Also records the quote on each order and updates create_order_with_items
+-- (CREATE_ATOMIC_STOCK_RESERVATION.sql) to store it.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.shipping_zones (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    cities TEXT[] NOT NULL DEFAULT '{}', -- Empty = every city (fallback zone)
+    districts TEXT[] NOT NULL DEFAULT '{}', -- Empty = every district of the cities
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    extra_kg_fee DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (extra_kg_fee >= 0),
+    insurance_rate_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (insurance_rate_percent >= 0 AND insurance_rate_percent <= 100),
+    insurance_min_value DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (insurance_min_value >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.shipping_zone_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    zone_id UUID NOT NULL REFERENCES public.shipping_zones(id) ON DELETE CASCADE,
+    max_weight_kg DECIMAL(8, 3) NOT NULL CHECK (max_weight_kg > 0),
+    fee DECIMAL(12, 2) NOT NULL CHECK (fee >= 0),
+    UNIQUE (zone_id, max_weight_kg)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_zone_rates_zone ON public.shipping_zone_rates(zone_id);
+
+DROP TRIGGER IF EXISTS update_shipping_zones_updated_at ON public.shipping_zones;
+CREATE TRIGGER update_shipping_zones_updated_at
+    BEFORE UPDATE ON public.shipping_zones
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS (service role only; checkout gets quotes from /api/shipping/quote)
+ALTER TABLE public.shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_zone_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage shipping zones" ON public.shipping_zones;
+CREATE POLICY "Service role can manage shipping zones" ON public.shipping_zones
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage shipping zone rates" ON public.shipping_zone_rates;
+CREATE POLICY "Service role can manage shipping zone rates" ON public.shipping_zone_rates
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.shipping_zones IS 'Shipping zones by city/district with insured freight settings';
+COMMENT ON TABLE public.shipping_zone_rates IS 'Weight brackets per shipping zone';
+
+-- =====================================================
+-- Quote stored on orders (shipping_fee = freight + insurance)
+-- =====================================================
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS shipping_zone_id UUID REFERENCES public.shipping_zones(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS shipping_weight_kg DECIMAL(8, 3),
+    ADD COLUMN IF NOT EXISTS shipping_insurance_fee DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- create_order_with_items: also store the shipping quote
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_order JSONB, p_items JSONB)
+RETURNS TABLE (id UUID, order_number TEXT) AS $$
+DECLARE
+    v_order_id UUID;
+    v_order_number TEXT;
+    v_item RECORD;
+BEGIN
+    IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+        RAISE EXCEPTION 'empty_order' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- A zero, negative or fractional quantity would add stock back below
+    IF EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_items) AS x(item)
+        WHERE CASE
+            WHEN jsonb_typeof(x.item->'quantity') = 'number'
+                THEN (x.item->>'quantity')::NUMERIC <= 0 OR (x.item->>'quantity')::NUMERIC % 1 <> 0
+            ELSE true
+        END
+    ) THEN
+        RAISE EXCEPTION 'invalid_quantity' USING ERRCODE = 'P0001';
+    END IF;
+
+    FOR v_item IN
+        SELECT x.product_id, SUM(x.quantity)::INTEGER AS quantity
+        FROM jsonb_to_recordset(p_items) AS x(product_id UUID, quantity INTEGER)
+        GROUP BY x.product_id
+        ORDER BY x.product_id
+    LOOP
+        UPDATE public.products p
+        SET stock_quantity = p.stock_quantity - v_item.quantity
+        WHERE p.id = v_item.product_id
+          AND p.stock_quantity >= v_item.quantity;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'insufficient_stock'
+                USING ERRCODE = 'P0001', DETAIL = v_item.product_id::TEXT;
+        END IF;
+    END LOOP;
+
+    INSERT INTO public.orders (
+        user_id, customer_email, customer_name, customer_phone,
+        shipping_address_line, shipping_city, shipping_district,
+        subtotal, shipping_fee, tax, discount, total,
+        shipping_zone_id, shipping_weight_kg, shipping_insurance_fee,
+        payment_method, payment_status, order_type, is_deposit_order,
+        deposit_amount_vnd, deposit_due_at, remaining_amount,
+        customer_note, locale, status, vietqr_generated_at
+    )
+    SELECT
+        r.user_id, r.customer_email, r.customer_name, r.customer_phone,
+        r.shipping_address_line, r.shipping_city, r.shipping_district,
+        r.subtotal, COALESCE(r.shipping_fee, 0), COALESCE(r.tax, 0), COALESCE(r.discount, 0), r.total,
+        r.shipping_zone_id, r.shipping_weight_kg, COALESCE(r.shipping_insurance_fee, 0),
+        r.payment_method, COALESCE(r.payment_status, 'pending'), COALESCE(r.order_type, 'standard'), COALESCE(r.is_deposit_order, false),
+        r.deposit_amount_vnd, r.deposit_due_at, r.remaining_amount,
+        r.customer_note, COALESCE(r.locale, 'vi'), COALESCE(r.status, 'pending'), r.vietqr_generated_at
+    FROM jsonb_populate_record(NULL::public.orders, p_order) AS r
+    RETURNING orders.id, orders.order_number INTO v_order_id, v_order_number;
+
+    INSERT INTO public.order_items (
+        order_id, product_id, product_name, product_slug, product_sku,
+        product_image_url, unit_price, quantity, subtotal
+    )
+    SELECT
+        v_order_id, x.product_id, x.product_name, x.product_slug, x.product_sku,
+        x.product_image_url, x.unit_price, x.quantity, x.subtotal
+    FROM jsonb_to_recordset(p_items) AS x(
+        product_id UUID,
+        product_name TEXT,
+        product_slug TEXT,
+        product_sku TEXT,
+        product_image_url TEXT,
+        unit_price DECIMAL(12, 2),
+        quantity INTEGER,
+        subtotal DECIMAL(12, 2)
+    );
+
+    RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- Starter zones (edit at /admin/shipping)
+-- =====================================================
+INSERT INTO public.shipping_zones (name, cities, sort_order, extra_kg_fee, insurance_rate_percent, insurance_min_value)
+SELECT 'Nội thành Hà Nội & TP. Hồ Chí Minh', ARRAY['Hà Nội', 'Hồ Chí Minh', 'HCM', 'Sài Gòn'], 0, 5000, 0.5, 10000000
+WHERE NOT EXISTS (SELECT 1 FROM public.shipping_zones);
+
+INSERT INTO public.shipping_zones (name, cities, sort_order, extra_kg_fee, insurance_rate_percent, insurance_min_value)
+SELECT 'Toàn quốc', '{}', 100, 10000, 0.5, 10000000
+WHERE NOT EXISTS (SELECT 1 FROM public.shipping_zones WHERE cardinality(cities) = 0);
+
+INSERT INTO public.shipping_zone_rates (zone_id, max_weight_kg, fee)
+SELECT z.id, r.max_weight_kg, r.fee
+FROM public.shipping_zones z
+CROSS JOIN (VALUES (2, 30000), (5, 50000), (10, 80000), (20, 130000)) AS r(max_weight_kg, fee)
+WHERE z.name = 'Nội thành Hà Nội & TP. Hồ Chí Minh'
+  AND NOT EXISTS (SELECT 1 FROM public.shipping_zone_rates WHERE zone_id = z.id);
+
+INSERT INTO public.shipping_zone_rates (zone_id, max_weight_kg, fee)
+SELECT z.id, r.max_weight_kg, r.fee
+FROM public.shipping_zones z
+CROSS JOIN (VALUES (2, 45000), (5, 80000), (10, 140000), (20, 240000)) AS r(max_weight_kg, fee)
+WHERE z.name = 'Toàn quốc'
+  AND NOT EXISTS (SELECT 1 FROM public.shipping_zone_rates WHERE zone_id = z.id);
@@ -0,0 +1,50 @@
+-- =====================================================
+-- Customer Address Book
+-- =====================================================
+-- user_addresses (schema.sql) becomes the address book at /account/addresses
+-- and the address picker on /checkout. Customers can only see and change
+-- their own addresses; the app reads them through /api/account/addresses.
+-- At most one default address per customer.
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_user_addresses_user ON public.user_addresses(user_id);
+
+-- Keep a single default per customer (clear existing duplicates first)
+UPDATE public.user_addresses a
+SET is_default = false
+WHERE a.is_default
+  AND EXISTS (
+      SELECT 1 FROM public.user_addresses b
+      WHERE b.user_id = a.user_id
+        AND b.is_default
+        AND (b.created_at, b.id) > (a.created_at, a.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_one_default
+    ON public.user_addresses(user_id)
+    WHERE is_default;
+
+-- RLS was enabled in schema.sql without policies
+DROP POLICY IF EXISTS "Users can view own addresses" ON public.user_addresses;
+CREATE POLICY "Users can view own addresses" ON public.user_addresses
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add own addresses" ON public.user_addresses;
+CREATE POLICY "Users can add own addresses" ON public.user_addresses
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own addresses" ON public.user_addresses;
+CREATE POLICY "Users can update own addresses" ON public.user_addresses
+    FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own addresses" ON public.user_addresses;
+CREATE POLICY "Users can delete own addresses" ON public.user_addresses
+    FOR DELETE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage user addresses" ON public.user_addresses;
+CREATE POLICY "Service role can manage user addresses" ON public.user_addresses
+    FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.user_addresses IS 'Customer address book (one default per customer)';
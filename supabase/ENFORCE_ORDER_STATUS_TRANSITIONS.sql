@@ -0,0 +1,63 @@
+-- =====================================================
+-- Enforce Order Status Transitions
+-- =====================================================
+-- Rejects any UPDATE of orders.status / orders.payment_status that the
+-- order state machine does not allow, whichever client makes it (the app,
+-- the cron-worker edge function, or the SQL editor).
+--
+-- The transition tables mirror src/lib/orders/state-machine.ts - change
+-- both together. Guards and side effects (timestamps, stock release,
+-- emails) live in the app; this is the last line of defence.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+    allowed_statuses TEXT[];
+    allowed_payment_statuses TEXT[];
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        allowed_statuses := CASE OLD.status
+            WHEN 'pending' THEN ARRAY['confirmed', 'deposited', 'cancelled', 'expired']
+            WHEN 'confirmed' THEN ARRAY['deposited', 'processing', 'cancelled', 'expired']
+            WHEN 'deposited' THEN ARRAY['processing', 'cancelled']
+            WHEN 'processing' THEN ARRAY['shipped', 'cancelled']
+            WHEN 'shipped' THEN ARRAY['delivered', 'cancelled']
+            WHEN 'delivered' THEN ARRAY['refunded']
+            ELSE ARRAY[]::TEXT[] -- cancelled, refunded, expired are terminal
+        END;
+
+        IF NOT (NEW.status = ANY(allowed_statuses)) THEN
+            RAISE EXCEPTION 'Invalid status transition from % to % for order %',
+                OLD.status, NEW.status, OLD.order_number;
+        END IF;
+    END IF;
+
+    IF NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+        allowed_payment_statuses := CASE OLD.payment_status
+            WHEN 'pending' THEN ARRAY['paid', 'failed']
+            WHEN 'deposit_pending' THEN ARRAY['deposited', 'failed']
+            WHEN 'deposited' THEN ARRAY['paid', 'refund_pending', 'partially_refunded', 'refunded']
+            WHEN 'paid' THEN ARRAY['refund_pending', 'partially_refunded', 'refunded']
+            WHEN 'failed' THEN ARRAY['pending', 'deposit_pending', 'deposited', 'paid']
+            WHEN 'refund_pending' THEN ARRAY['deposited', 'paid', 'partially_refunded', 'refunded']
+            WHEN 'partially_refunded' THEN ARRAY['refund_pending', 'refunded']
+            ELSE ARRAY[]::TEXT[] -- refunded is terminal
+        END;
+
+        IF NOT (NEW.payment_status = ANY(allowed_payment_statuses)) THEN
+            RAISE EXCEPTION 'Invalid payment status transition from % to % for order %',
+                OLD.payment_status, NEW.payment_status, OLD.order_number;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON public.orders;
+CREATE TRIGGER enforce_order_status_transition
+    BEFORE UPDATE OF status, payment_status ON public.orders
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status_transition();
+
+COMMENT ON FUNCTION public.enforce_order_status_transition() IS 'Rejects order status/payment_status changes not allowed by the order state machine';
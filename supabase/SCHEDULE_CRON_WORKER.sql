@@ -0,0 +1,50 @@
+-- =====================================================
+-- CRON WORKER SCHEDULE
+-- =====================================================
+-- Runs the cron-worker edge function every 15 minutes to expire
+-- overdue deposit reservations (supabase/functions/cron-worker)
+--
+-- Prerequisites:
+-- 1. Deploy the function: supabase functions deploy cron-worker
+-- 2. Set function secrets: SITE_URL, ORDER_TRACKING_TOKEN_PEPPER (same value
+--    as the Next.js app). Emails are queued in email_outbox and delivered by
+--    the app's outbox worker (SCHEDULE_EMAIL_OUTBOX.sql)
+-- 3. Run CREATE_ATOMIC_STOCK_RESERVATION.sql (release_order_stock)
+-- 4. Store the project URL and service role key in Vault (below)
+
+-- =====================================================
+-- Extensions
+-- =====================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- =====================================================
+-- Secrets (run once, replace placeholders)
+-- =====================================================
+-- SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+-- SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+
+-- =====================================================
+-- Schedule
+-- =====================================================
+SELECT cron.unschedule('expire-deposit-reservations')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'expire-deposit-reservations');
+
+SELECT cron.schedule(
+    'expire-deposit-reservations',
+    '*/15 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/cron-worker',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{"job": "expire-reservations"}'::jsonb
+    );
+    $$
+);
+
+-- Verify:
+-- SELECT * FROM cron.job;
+-- SELECT * FROM cron.job_run_details ORDER BY start_time DESC LIMIT 10;
@@ -0,0 +1,47 @@
+-- =====================================================
+-- EMAIL OUTBOX WORKER SCHEDULE
+-- =====================================================
+-- Calls the Next.js outbox worker (/api/cron/email-outbox) every minute
+-- to deliver queued emails and retry failed ones.
+--
+-- Prerequisites:
+-- 1. Run CREATE_EMAIL_OUTBOX.sql
+-- 2. Set CRON_SECRET in the app environment (Vercel)
+-- 3. Store the site URL and the same secret in Vault (below)
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- =====================================================
+-- Secrets (run once, replace placeholders)
+-- =====================================================
+-- SELECT vault.create_secret('https://yourdomain.com', 'site_url');
+-- SELECT vault.create_secret('<CRON_SECRET value>', 'cron_secret');
+
+-- =====================================================
+-- Schedule
+-- =====================================================
+SELECT cron.unschedule('deliver-email-outbox')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'deliver-email-outbox');
+
+SELECT cron.schedule(
+    'deliver-email-outbox',
+    '* * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'site_url') || '/api/cron/email-outbox',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Verify:
+-- SELECT * FROM cron.job;
+-- SELECT * FROM cron.job_run_details ORDER BY start_time DESC LIMIT 10;
+-- Messages waiting for a retry or dead-lettered:
+-- SELECT id, type, to_email, status, attempts, next_attempt_at, last_error
+-- FROM public.email_outbox WHERE status IN ('failed', 'dead') ORDER BY updated_at DESC;
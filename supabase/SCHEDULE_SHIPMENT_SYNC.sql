@@ -0,0 +1,45 @@
+-- =====================================================
+-- SHIPMENT TRACKING SYNC SCHEDULE
+-- =====================================================
+-- Calls the Next.js shipment poller (/api/cron/shipments) every 30 minutes
+-- to fetch new tracking events from carriers with a tracking API (GHN,
+-- GHTK). Viettel Post and J&T push events to /api/shipping/webhook/[carrier].
+--
+-- Prerequisites:
+-- 1. Run CREATE_ORDER_SHIPMENTS.sql
+-- 2. Set CRON_SECRET, GHN_API_TOKEN and GHTK_API_TOKEN in the app environment (Vercel)
+-- 3. Store the site URL and the cron secret in Vault (see SCHEDULE_EMAIL_OUTBOX.sql)
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- =====================================================
+-- Schedule
+-- =====================================================
+SELECT cron.unschedule('sync-order-shipments')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'sync-order-shipments');
+
+SELECT cron.schedule(
+    'sync-order-shipments',
+    '*/30 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'site_url') || '/api/cron/shipments',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Verify:
+-- SELECT * FROM cron.job;
+-- SELECT * FROM cron.job_run_details ORDER BY start_time DESC LIMIT 10;
+-- Shipments not updated by their carrier for a day:
+-- SELECT s.carrier, s.tracking_number, s.status, s.last_event_at, s.last_synced_at
+-- FROM public.order_shipments s
+-- WHERE s.status NOT IN ('delivered', 'returned', 'cancelled')
+--   AND COALESCE(s.last_event_at, s.created_at) < NOW() - INTERVAL '1 day'
+-- ORDER BY s.created_at;
@@ -0,0 +1,118 @@
+/**
+ * Reservation expiry email for the cron worker
+ * Copy lives here because edge functions are bundled separately
+ * and cannot read messages/{locale}/emails.json
+ */
+
+type Locale = 'vi' | 'en';
+
+const COPY: Record<Locale, {
+    subject: string;
+    header: string;
+    greeting: string;
+    message: string;
+    description: string;
+    trackButton: string;
+    support: string;
+    footerBrand: string;
+}> = {
+    vi: {
+        subject: 'Đơn hàng {orderCode} - Đặt cọc đã hết hạn',
+        header: 'Đặt Cọc Đã Hết Hạn',
+        greeting: 'Xin chào {customerName},',
+        message: 'Chúng tôi chưa nhận được tiền cọc cho đơn hàng {orderCode} trước thời hạn, nên đơn giữ hàng đã tự động hết hạn.',
+        description: 'Sản phẩm đã được trả lại kho. Nếu bạn vẫn muốn mua, vui lòng đặt hàng lại hoặc liên hệ với chúng tôi.',
+        trackButton: 'Xem Đơn Hàng',
+        support: 'Nếu bạn đã chuyển khoản hoặc có câu hỏi, vui lòng liên hệ support@restorethebasic.com.',
+        footerBrand: 'Restore The Basic',
+    },
+    en: {
+        subject: 'Order {orderCode} - Reservation Expired',
+        header: 'Reservation Expired',
+        greeting: 'Hello {customerName},',
+        message: 'We did not receive the deposit for order {orderCode} before the deadline, so the reservation has expired automatically.',
+        description: 'The item has been returned to stock. If you would still like it, please place a new order or contact us.',
+        trackButton: 'View Order',
+        support: 'If you already transferred the deposit or have any questions, please contact support@restorethebasic.com.',
+        footerBrand: 'Restore The Basic',
+    },
+};
+
+export interface ExpiryEmailPayload {
+    orderCode: string;
+    customerName: string;
+    trackingUrl: string;
+    locale: string;
+}
+
+/**
+ * Build subject/html/text for the reservation expired email
+ */
+export function buildExpiryEmail(payload: ExpiryEmailPayload): { subject: string; html: string; text: string } {
+    const locale: Locale = payload.locale === 'en' ? 'en' : 'vi';
+    const t = COPY[locale];
+    const fill = (template: string) => template
+        .replace('{orderCode}', payload.orderCode)
+        .replace('{customerName}', payload.customerName);
+
+    const subject = fill(t.subject);
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${subject}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f5f5f5;">
+    <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f5; padding: 20px;">
+        <tr>
+            <td align="center">
+                <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; overflow: hidden;">
+                    <tr>
+                        <td style="background-color: #1a1a1a; padding: 30px; text-align: center;">
+                            <h1 style="margin: 0; color: #d4a574; font-size: 24px;">${t.header}</h1>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="padding: 30px;">
+                            <p style="margin: 0 0 20px; color: #333; font-size: 16px;">${fill(t.greeting)}</p>
+                            <p style="margin: 0 0 20px; color: #333; font-size: 16px;">${fill(t.message)}</p>
+                            <p style="margin: 0 0 30px; color: #666; font-size: 14px;">${t.description}</p>
+                            <p style="text-align: center; margin: 0 0 30px;">
+                                <a href="${payload.trackingUrl}" style="display: inline-block; padding: 12px 24px; background-color: #d4a574; color: #1a1a1a; text-decoration: none; border-radius: 4px; font-weight: 600;">${t.trackButton}</a>
+                            </p>
+                            <p style="margin: 0; color: #666; font-size: 14px;">${t.support}</p>
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="background-color: #f9f9f9; padding: 20px; text-align: center; color: #999; font-size: 12px;">
+                            ${t.footerBrand}
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+    `.trim();
+
+    const text = `
+${subject}
+
+${fill(t.greeting)}
+
+${fill(t.message)}
+
+${t.description}
+
+${t.trackButton}: ${payload.trackingUrl}
+
+${t.support}
+    `.trim();
+
+    return { subject, html, text };
+}
+
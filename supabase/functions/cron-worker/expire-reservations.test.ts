@@ -0,0 +1,141 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import { expireOverdueReservations } from './expire-reservations.ts';
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the few PostgREST calls the expiry job makes
+ * (eq / in / is / lt filters, select, update, insert, rpc)
+ */
+function createFakeSupabase(tables: Record<string, Row[]>) {
+    const releasedOrders: string[] = [];
+
+    function query(table: string) {
+        const filters: Array<(row: Row) => boolean> = [];
+        let update: Row | null = null;
+        let insert: Row | null = null;
+
+        const run = () => {
+            const rows = tables[table] || (tables[table] = []);
+            if (insert) {
+                const row = { id: `${table}-${rows.length + 1}`, ...insert };
+                rows.push(row);
+                return [row];
+            }
+            const matched = rows.filter((row) => filters.every((filter) => filter(row)));
+            if (update) {
+                for (const row of matched) Object.assign(row, update);
+            }
+            return matched;
+        };
+
+        const builder = {
+            select: () => builder,
+            order: () => builder,
+            limit: () => builder,
+            eq: (column: string, value: unknown) => {
+                filters.push((row) => row[column] === value);
+                return builder;
+            },
+            in: (column: string, values: unknown[]) => {
+                filters.push((row) => values.includes(row[column]));
+                return builder;
+            },
+            is: (column: string, value: unknown) => {
+                filters.push((row) => (row[column] ?? null) === value);
+                return builder;
+            },
+            lt: (column: string, value: string) => {
+                filters.push((row) => String(row[column]) < value);
+                return builder;
+            },
+            update: (values: Row) => {
+                update = values;
+                return builder;
+            },
+            insert: (values: Row) => {
+                insert = values;
+                return builder;
+            },
+            maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+            then: (resolve: (result: { data: Row[]; error: null }) => unknown) =>
+                Promise.resolve({ data: run(), error: null }).then(resolve),
+        };
+
+        return builder;
+    }
+
+    const client = {
+        from: query,
+        rpc: async (_fn: string, args: { p_order_id: string }) => {
+            releasedOrders.push(args.p_order_id);
+            return { data: 1, error: null };
+        },
+    };
+
+    return { client: client as unknown as SupabaseClient, releasedOrders };
+}
+
+function reservation(overrides: Row = {}): Row {
+    return {
+        id: 'order-1',
+        order_number: 'TA-0001',
+        order_type: 'deposit_reservation',
+        status: 'pending',
+        payment_status: 'deposit_pending',
+        deposit_received_at: null,
+        deposit_due_at: '2026-01-01T00:00:00.000Z',
+        customer_email: null,
+        customer_name: 'Nguyễn Văn A',
+        locale: 'vi',
+        order_items: [{ product_id: 'product-1', quantity: 1 }],
+        ...overrides,
+    };
+}
+
+const now = new Date('2026-01-02T00:00:00.000Z');
+
+describe('expireOverdueReservations', () => {
+    it.each(['deposit_pending', 'failed'])('expires an overdue reservation with payment status %s', async (paymentStatus) => {
+        const order = reservation({ payment_status: paymentStatus });
+        const { client, releasedOrders } = createFakeSupabase({ orders: [order] });
+
+        const result = await expireOverdueReservations(client, { dryRun: false, limit: 50, now });
+
+        expect(result.expired).toBe(1);
+        expect(result.orders[0]).toMatchObject({ action: 'expired', restockedItems: 1 });
+        expect(order.status).toBe('expired');
+        expect(releasedOrders).toEqual(['order-1']);
+    });
+
+    it.each([
+        ['deposit received', { payment_status: 'deposited', deposit_received_at: '2026-01-01T12:00:00.000Z' }],
+        ['paid', { payment_status: 'paid' }],
+        ['not yet due', { deposit_due_at: '2026-01-03T00:00:00.000Z' }],
+        ['already cancelled', { status: 'cancelled' }],
+    ])('leaves a reservation alone when %s', async (_case, overrides) => {
+        const order = reservation(overrides);
+        const { client, releasedOrders } = createFakeSupabase({ orders: [order] });
+
+        const result = await expireOverdueReservations(client, { dryRun: false, limit: 50, now });
+
+        expect(result.candidates).toBe(0);
+        expect(order.status).toBe(overrides.status ?? 'pending');
+        expect(releasedOrders).toEqual([]);
+    });
+
+    it('skips a failed reservation while a transfer proof is pending review', async () => {
+        const order = reservation({ payment_status: 'failed' });
+        const { client, releasedOrders } = createFakeSupabase({
+            orders: [order],
+            deposit_transfer_proofs: [{ id: 'proof-1', order_id: 'order-1', status: 'pending' }],
+        });
+
+        const result = await expireOverdueReservations(client, { dryRun: false, limit: 50, now });
+
+        expect(result.orders[0]).toMatchObject({ action: 'skipped', reason: 'deposit_proof_pending_review' });
+        expect(order.status).toBe('pending');
+        expect(releasedOrders).toEqual([]);
+    });
+});
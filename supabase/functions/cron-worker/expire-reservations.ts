@@ -0,0 +1,345 @@
+/**
+ * Reservation Expiry Job
+ * Expires deposit_reservation orders whose deposit is overdue, restores stock,
+ * writes order_status_history and queues the customer email in email_outbox
+ * (delivered by the app's outbox worker).
+ *
+ * Idempotent: the status update is conditional on the deposit still being
+ * unpaid, so an order is only ever expired (and restocked) once, even if two
+ * runs overlap.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildExpiryEmail } from './emails.ts';
+
+const EXPIRY_NOTE = 'Reservation expired automatically: deposit not received by due time';
+const TOKEN_EXPIRY_DAYS = 7;
+
+// order_emails.idempotency_key (see ADD_ORDER_EMAIL_IDEMPOTENCY_KEYS.sql)
+const EXPIRY_EMAIL_KEY = 'status_update:expired';
+
+// Statuses a reservation can still be expired from
+// Mirrors src/lib/orders/state-machine.ts, which this Deno function can't import;
+// ENFORCE_ORDER_STATUS_TRANSITIONS.sql rejects the update if the two drift apart
+const EXPIRABLE_STATUSES = ['pending', 'confirmed'];
+
+// Unpaid deposits: a failed Stripe payment keeps the stock reserved until expiry
+const EXPIRABLE_PAYMENT_STATUSES = ['deposit_pending', 'failed'];
+
+export interface ExpiryOptions {
+    dryRun: boolean;
+    limit: number;
+    now?: Date;
+}
+
+export interface ExpiryOrderResult {
+    orderNumber: string;
+    previousStatus: string;
+    depositDueAt: string;
+    action: 'expired' | 'would_expire' | 'skipped';
+    reason?: string;
+    restockedItems?: number;
+    emailStatus?: 'queued' | 'failed' | 'skipped_no_email' | 'already_sent';
+}
+
+export interface ExpiryRunResult {
+    dryRun: boolean;
+    checkedAt: string;
+    candidates: number;
+    expired: number;
+    skipped: number;
+    orders: ExpiryOrderResult[];
+}
+
+interface CandidateOrder {
+    id: string;
+    order_number: string;
+    status: string;
+    deposit_due_at: string;
+    customer_email: string | null;
+    customer_name: string;
+    locale: string | null;
+    order_items: Array<{ product_id: string | null; quantity: number }>;
+}
+
+/**
+ * Find and expire overdue deposit reservations
+ */
+export async function expireOverdueReservations(
+    supabase: SupabaseClient,
+    options: ExpiryOptions
+): Promise<ExpiryRunResult> {
+    const checkedAt = (options.now || new Date()).toISOString();
+
+    const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_number, status, deposit_due_at, customer_email, customer_name, locale, order_items(product_id, quantity)')
+        .eq('order_type', 'deposit_reservation')
+        .in('payment_status', EXPIRABLE_PAYMENT_STATUSES)
+        .in('status', EXPIRABLE_STATUSES)
+        .is('deposit_received_at', null)
+        .lt('deposit_due_at', checkedAt)
+        .order('deposit_due_at', { ascending: true })
+        .limit(options.limit);
+
+    if (error) {
+        console.error('[expire-reservations] Error fetching candidates:', error);
+        throw new Error('Failed to fetch overdue reservations');
+    }
+
+    const candidates = (data || []) as CandidateOrder[];
+    const orders: ExpiryOrderResult[] = [];
+
+    for (const order of candidates) {
+        const result: ExpiryOrderResult = {
+            orderNumber: order.order_number,
+            previousStatus: order.status,
+            depositDueAt: order.deposit_due_at,
+            action: 'skipped',
+        };
+
+        try {
+            // Don't expire while a customer's transfer proof is waiting for review
+            const { data: pendingProof } = await supabase
+                .from('deposit_transfer_proofs')
+                .select('id')
+                .eq('order_id', order.id)
+                .eq('status', 'pending')
+                .limit(1)
+                .maybeSingle();
+
+            if (pendingProof) {
+                result.reason = 'deposit_proof_pending_review';
+                orders.push(result);
+                continue;
+            }
+
+            if (options.dryRun) {
+                result.action = 'would_expire';
+                result.restockedItems = order.order_items.length;
+                orders.push(result);
+                continue;
+            }
+
+            // Conditional update: only succeeds if nobody else handled the order meanwhile
+            const { data: updated, error: updateError } = await supabase
+                .from('orders')
+                .update({ status: 'expired' })
+                .eq('id', order.id)
+                .eq('status', order.status)
+                .in('payment_status', EXPIRABLE_PAYMENT_STATUSES)
+                .is('deposit_received_at', null)
+                .select('id');
+
+            if (updateError) {
+                throw new Error(updateError.message);
+            }
+
+            if (!updated || updated.length === 0) {
+                result.reason = 'already_handled';
+                orders.push(result);
+                continue;
+            }
+
+            result.action = 'expired';
+            result.restockedItems = await restoreStock(supabase, order);
+            await recordHistory(supabase, order);
+            result.emailStatus = await queueExpiryEmail(supabase, order);
+        } catch (err) {
+            console.error(`[expire-reservations] Error expiring order ${order.order_number}:`, err);
+            result.reason = err instanceof Error ? err.message : 'unknown_error';
+        }
+
+        orders.push(result);
+    }
+
+    return {
+        dryRun: options.dryRun,
+        checkedAt,
+        candidates: candidates.length,
+        expired: orders.filter((o) => o.action === 'expired').length,
+        skipped: orders.filter((o) => o.action === 'skipped').length,
+        orders,
+    };
+}
+
+/**
+ * Return reserved units to stock (release_order_stock restocks at most once per order)
+ */
+async function restoreStock(supabase: SupabaseClient, order: CandidateOrder): Promise<number> {
+    const { data, error } = await supabase.rpc('release_order_stock', {
+        p_order_id: order.id,
+    });
+
+    if (error) {
+        console.error(`[expire-reservations] Error restoring stock for order ${order.order_number}:`, error);
+        return 0;
+    }
+
+    return data ?? 0;
+}
+
+/**
+ * Annotate the trigger-created history entry (or insert one if missing)
+ */
+async function recordHistory(supabase: SupabaseClient, order: CandidateOrder): Promise<void> {
+    const { data: historyEntries } = await supabase
+        .from('order_status_history')
+        .select('id')
+        .eq('order_id', order.id)
+        .eq('to_status', 'expired')
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+    if (historyEntries && historyEntries.length > 0) {
+        await supabase
+            .from('order_status_history')
+            .update({ note: EXPIRY_NOTE })
+            .eq('id', historyEntries[0].id);
+        return;
+    }
+
+    await supabase
+        .from('order_status_history')
+        .insert({
+            order_id: order.id,
+            from_status: order.status,
+            to_status: 'expired',
+            note: EXPIRY_NOTE,
+            changed_by: null,
+        });
+}
+
+/**
+ * Queue the expiry email in the order's locale and log it to order_emails
+ */
+async function queueExpiryEmail(
+    supabase: SupabaseClient,
+    order: CandidateOrder
+): Promise<ExpiryOrderResult['emailStatus']> {
+    if (!order.customer_email || order.customer_email.trim() === '') {
+        return 'skipped_no_email';
+    }
+
+    // Check if already sent (idempotency); a failed row for the key is reused
+    const { data: existing } = await supabase
+        .from('order_emails')
+        .select('id, status')
+        .eq('order_id', order.id)
+        .eq('idempotency_key', EXPIRY_EMAIL_KEY)
+        .maybeSingle();
+
+    if (existing && (existing.status === 'sent' || existing.status === 'queued')) {
+        return 'already_sent';
+    }
+
+    const locale = order.locale === 'en' ? 'en' : 'vi';
+
+    let log: { id: string } | null = existing ? { id: existing.id } : null;
+
+    if (existing) {
+        await supabase
+            .from('order_emails')
+            .update({ status: 'queued', error_message: null, to_email: order.customer_email, locale })
+            .eq('id', existing.id);
+    } else {
+        const { data: inserted, error: insertError } = await supabase
+            .from('order_emails')
+            .insert({
+                order_id: order.id,
+                type: 'status_update',
+                idempotency_key: EXPIRY_EMAIL_KEY,
+                to_email: order.customer_email,
+                locale,
+                status: 'queued',
+                metadata_status: 'expired',
+            })
+            .select('id')
+            .maybeSingle();
+
+        // Unique violation: another run claimed this email first
+        if (insertError?.code === '23505') {
+            return 'already_sent';
+        }
+        log = inserted;
+    }
+
+    try {
+        const trackingToken = await createTrackingToken(supabase, order.id);
+        const baseUrl = Deno.env.get('SITE_URL') || 'http://localhost:3000';
+        const email = buildExpiryEmail({
+            orderCode: order.order_number,
+            customerName: order.customer_name,
+            trackingUrl: `${baseUrl}/order/track/${order.order_number}?t=${trackingToken}`,
+            locale,
+        });
+
+        const { error: enqueueError } = await supabase
+            .from('email_outbox')
+            .insert({
+                order_id: order.id,
+                order_email_id: log?.id || null,
+                type: 'status_update',
+                to_email: order.customer_email,
+                subject: email.subject,
+                html: email.html,
+                text: email.text,
+            });
+
+        if (enqueueError) {
+            throw new Error(enqueueError.message);
+        }
+
+        return 'queued';
+    } catch (err) {
+        console.error(`[expire-reservations] Error queueing expiry email for ${order.order_number}:`, err);
+
+        if (log?.id) {
+            await supabase
+                .from('order_emails')
+                .update({
+                    status: 'failed',
+                    error_message: err instanceof Error ? err.message : 'Unknown error',
+                })
+                .eq('id', log.id);
+        }
+
+        return 'failed';
+    }
+}
+
+/**
+ * Create a tracking token (same scheme as src/lib/orderTrackingTokens.ts)
+ */
+async function createTrackingToken(supabase: SupabaseClient, orderId: string): Promise<string> {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    const token = btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+    const pepper = Deno.env.get('ORDER_TRACKING_TOKEN_PEPPER') || '';
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token + pepper));
+    const tokenHash = Array.from(new Uint8Array(digest))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + TOKEN_EXPIRY_DAYS);
+
+    const { error } = await supabase
+        .from('order_tracking_tokens')
+        .insert({
+            order_id: orderId,
+            token_hash: tokenHash,
+            expires_at: expiresAt.toISOString(),
+            created_by: 'reservation_expired_email',
+            access_count: 0,
+        });
+
+    if (error) {
+        throw new Error('Failed to create tracking token');
+    }
+
+    return token;
+}
@@ -0,0 +1,80 @@
+// Scheduled worker for background jobs (invoked by pg_cron, see supabase/SCHEDULE_CRON_WORKER.sql)
+
+// Setup type definitions for built-in Supabase Runtime APIs
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+
+import { createClient } from '@supabase/supabase-js';
+import { expireOverdueReservations } from './expire-reservations.ts';
+
+const DEFAULT_LIMIT = 50;
+
+interface WorkerRequest {
+  job?: string;
+  dryRun?: boolean;
+  limit?: number;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  const url = new URL(req.url);
+  const body: WorkerRequest = req.method === 'POST'
+    ? await req.json().catch(() => ({}))
+    : {};
+
+  const job = body.job || url.searchParams.get('job') || 'expire-reservations';
+
+  // Dry run: request flag, query param, or CRON_DRY_RUN secret (handy on local Supabase)
+  const dryRun = body.dryRun === true
+    || url.searchParams.get('dryRun') === 'true'
+    || Deno.env.get('CRON_DRY_RUN') === 'true';
+
+  const limit = Number(body.limit || url.searchParams.get('limit')) || DEFAULT_LIMIT;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    return json({ ok: false, error: 'SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY not set' }, 500);
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  try {
+    switch (job) {
+      case 'expire-reservations': {
+        const result = await expireOverdueReservations(supabase, { dryRun, limit });
+        console.log(`[cron-worker] expire-reservations: ${result.expired} expired, ${result.skipped} skipped (dryRun=${dryRun})`);
+        return json({ ok: true, job, ...result });
+      }
+      default:
+        return json({ ok: false, error: `Unknown job: ${job}` }, 400);
+    }
+  } catch (error) {
+    console.error(`[cron-worker] Job ${job} failed:`, error);
+    return json({ ok: false, job, error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Run `supabase functions serve cron-worker`
+  3. Make an HTTP request (dry run lists what would expire without changing anything):
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/cron-worker' \
+    --header 'Authorization: Bearer <service role key>' \
+    --header 'Content-Type: application/json' \
+    --data '{"job":"expire-reservations","dryRun":true}'
+
+*/
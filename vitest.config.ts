@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            '@': fileURLToPath(new URL('./src', import.meta.url)),
+        },
+    },
+    test: {
+        include: ['src/**/*.test.ts', 'supabase/functions/**/*.test.ts'],
+        exclude: ['src/**/*.integration.test.ts'], // npm run test:integration
+        environment: 'node',
+    },
+});